@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UserSettings"
+  ADD COLUMN "lastfmUsername" TEXT,
+  ADD COLUMN "lastfmSessionKey" TEXT,
+  ADD COLUMN "lastfmScrobbling" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ListenSource" ADD VALUE IF NOT EXISTS 'LISTENBRAINZ';
+
+-- AlterTable
+ALTER TABLE "UserSettings"
+  ADD COLUMN "listenbrainzUsername" TEXT,
+  ADD COLUMN "listenbrainzToken" TEXT,
+  ADD COLUMN "listenbrainzScrobbling" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "share_links" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "trackIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lastVisitedAt" TIMESTAMP(3);
@@ -0,0 +1,86 @@
+-- CreateTable
+CREATE TABLE "StarredAlbum" (
+    "userId" TEXT NOT NULL,
+    "albumId" TEXT NOT NULL,
+    "starredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StarredAlbum_pkey" PRIMARY KEY ("userId","albumId")
+);
+
+-- CreateTable
+CREATE TABLE "StarredArtist" (
+    "userId" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "starredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StarredArtist_pkey" PRIMARY KEY ("userId","artistId")
+);
+
+-- CreateTable
+CREATE TABLE "TrackRating" (
+    "userId" TEXT NOT NULL,
+    "trackId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "ratedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackRating_pkey" PRIMARY KEY ("userId","trackId")
+);
+
+-- CreateTable
+CREATE TABLE "AlbumRating" (
+    "userId" TEXT NOT NULL,
+    "albumId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "ratedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AlbumRating_pkey" PRIMARY KEY ("userId","albumId")
+);
+
+-- CreateTable
+CREATE TABLE "ArtistRating" (
+    "userId" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "ratedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArtistRating_pkey" PRIMARY KEY ("userId","artistId")
+);
+
+-- CreateIndex
+CREATE INDEX "TrackRating_userId_rating_idx" ON "TrackRating"("userId", "rating");
+
+-- CreateIndex
+CREATE INDEX "AlbumRating_userId_rating_idx" ON "AlbumRating"("userId", "rating");
+
+-- CreateIndex
+CREATE INDEX "ArtistRating_userId_rating_idx" ON "ArtistRating"("userId", "rating");
+
+-- AddForeignKey
+ALTER TABLE "StarredAlbum" ADD CONSTRAINT "StarredAlbum_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "Album"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StarredAlbum" ADD CONSTRAINT "StarredAlbum_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StarredArtist" ADD CONSTRAINT "StarredArtist_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "Artist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StarredArtist" ADD CONSTRAINT "StarredArtist_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TrackRating" ADD CONSTRAINT "TrackRating_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TrackRating" ADD CONSTRAINT "TrackRating_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlbumRating" ADD CONSTRAINT "AlbumRating_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "Album"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlbumRating" ADD CONSTRAINT "AlbumRating_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArtistRating" ADD CONSTRAINT "ArtistRating_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "Artist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArtistRating" ADD CONSTRAINT "ArtistRating_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "radio_stations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "streamUrl" TEXT NOT NULL,
+    "homepageUrl" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "radio_stations_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "radio_stations" ADD CONSTRAINT "radio_stations_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
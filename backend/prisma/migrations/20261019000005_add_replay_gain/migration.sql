@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Track"
+  ADD COLUMN "replayGainTrackGain" DOUBLE PRECISION,
+  ADD COLUMN "replayGainTrackPeak" DOUBLE PRECISION,
+  ADD COLUMN "replayGainSource" TEXT;
+
+-- AlterTable
+ALTER TABLE "Album"
+  ADD COLUMN "replayGainAlbumGain" DOUBLE PRECISION,
+  ADD COLUMN "replayGainAlbumPeak" DOUBLE PRECISION,
+  ADD COLUMN "replayGainSource" TEXT;
+
+-- AlterTable
+ALTER TABLE "UserSettings"
+  ADD COLUMN "replayGainMode" TEXT NOT NULL DEFAULT 'auto',
+  ADD COLUMN "replayGainPreamp" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "libraryWatcherEnabled" BOOLEAN NOT NULL DEFAULT false;
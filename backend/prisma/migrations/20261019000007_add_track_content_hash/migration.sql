@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN "contentHash" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN "cueStart" DOUBLE PRECISION,
+ADD COLUMN "cueEnd" DOUBLE PRECISION;
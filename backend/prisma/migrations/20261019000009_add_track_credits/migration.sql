@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN "recordingMbid" TEXT;
+
+-- CreateTable
+CREATE TABLE "TrackArtist" (
+    "trackId" TEXT NOT NULL,
+    "artistId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "subRole" TEXT NOT NULL DEFAULT '',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "source" TEXT NOT NULL,
+
+    CONSTRAINT "TrackArtist_pkey" PRIMARY KEY ("trackId","artistId","role","subRole")
+);
+
+-- CreateIndex
+CREATE INDEX "TrackArtist_artistId_role_idx" ON "TrackArtist"("artistId", "role");
+
+-- AddForeignKey
+ALTER TABLE "TrackArtist" ADD CONSTRAINT "TrackArtist_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TrackArtist" ADD CONSTRAINT "TrackArtist_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "Artist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
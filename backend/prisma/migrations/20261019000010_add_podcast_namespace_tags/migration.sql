@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN "persons" JSONB,
+ADD COLUMN "funding" JSONB;
+
+-- AlterTable
+ALTER TABLE "PodcastEpisode" ADD COLUMN "chaptersUrl" TEXT,
+ADD COLUMN "chapters" JSONB,
+ADD COLUMN "chaptersFetchedAt" TIMESTAMP(3),
+ADD COLUMN "transcriptUrl" TEXT,
+ADD COLUMN "transcriptType" TEXT,
+ADD COLUMN "transcriptFetchedAt" TIMESTAMP(3),
+ADD COLUMN "persons" JSONB,
+ADD COLUMN "funding" JSONB;
+
+-- CreateTable
+CREATE TABLE "PodcastTranscriptSegment" (
+    "id" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+    "startTime" DOUBLE PRECISION NOT NULL,
+    "endTime" DOUBLE PRECISION NOT NULL,
+    "speaker" TEXT,
+    "text" TEXT NOT NULL,
+    "searchVector" tsvector,
+
+    CONSTRAINT "PodcastTranscriptSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PodcastTranscriptSegment_episodeId_startTime_idx" ON "PodcastTranscriptSegment"("episodeId", "startTime");
+
+-- CreateIndex
+CREATE INDEX "PodcastTranscriptSegment_searchVector_idx" ON "PodcastTranscriptSegment" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "PodcastTranscriptSegment" ADD CONSTRAINT "PodcastTranscriptSegment_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "PodcastEpisode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep transcript search vectors in sync with their text
+CREATE OR REPLACE FUNCTION podcast_transcript_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := to_tsvector('english', COALESCE(NEW.text, ''));
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS podcast_transcript_search_vector_update ON "PodcastTranscriptSegment";
+CREATE TRIGGER podcast_transcript_search_vector_update
+  BEFORE INSERT OR UPDATE OF text
+  ON "PodcastTranscriptSegment"
+  FOR EACH ROW
+  EXECUTE FUNCTION podcast_transcript_search_vector_trigger();
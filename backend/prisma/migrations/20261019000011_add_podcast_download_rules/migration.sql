@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PodcastSubscription" ADD COLUMN "autoDownload" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "keepLatest" INTEGER,
+ADD COLUMN "deletePlayedAfterDays" INTEGER,
+ADD COLUMN "maxStorageMb" INTEGER;
+
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN "podcastStorageLimitMb" INTEGER;
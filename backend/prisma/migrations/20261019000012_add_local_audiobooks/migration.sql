@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Audiobook" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'audiobookshelf',
+ADD COLUMN "localPath" TEXT,
+ADD COLUMN "chapters" JSONB;
+
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "localAudiobooksEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "audiobookPath" TEXT DEFAULT '/audiobooks';
+
+-- CreateTable
+CREATE TABLE "AudiobookFile" (
+    "id" TEXT NOT NULL,
+    "audiobookId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "path" TEXT NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "startOffset" DOUBLE PRECISION NOT NULL,
+    "size" BIGINT,
+    "mimeType" TEXT,
+
+    CONSTRAINT "AudiobookFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Audiobook_localPath_key" ON "Audiobook"("localPath");
+
+-- CreateIndex
+CREATE INDEX "Audiobook_source_idx" ON "Audiobook"("source");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudiobookFile_audiobookId_index_key" ON "AudiobookFile"("audiobookId", "index");
+
+-- AddForeignKey
+ALTER TABLE "AudiobookFile" ADD CONSTRAINT "AudiobookFile_audiobookId_fkey" FOREIGN KEY ("audiobookId") REFERENCES "Audiobook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN "transcodeProfile" TEXT;
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "transcodeProfile" TEXT;
+
+-- Cached transcodes are now keyed by profile
+UPDATE "TranscodedFile" SET "quality" = 'mp3-320' WHERE "quality" = 'high';
+UPDATE "TranscodedFile" SET "quality" = 'mp3-192' WHERE "quality" = 'medium';
+UPDATE "TranscodedFile" SET "quality" = 'mp3-128' WHERE "quality" = 'low';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Playlist" ADD COLUMN "smartRules" JSONB,
+ADD COLUMN "smartEvaluatedAt" TIMESTAMP(3);
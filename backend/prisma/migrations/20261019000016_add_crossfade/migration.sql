@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN "crossfadeSeconds" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN "audioEffects" JSONB;
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "audioEffects" JSONB;
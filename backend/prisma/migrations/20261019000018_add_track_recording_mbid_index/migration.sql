@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Track_recordingMbid_idx" ON "Track"("recordingMbid");
@@ -13,9 +13,11 @@ import onboardingRoutes from "./routes/onboarding";
 import libraryRoutes from "./routes/library";
 import playsRoutes from "./routes/plays";
 import settingsRoutes from "./routes/settings";
+import audioEffectsRoutes from "./routes/audioEffects";
 import systemSettingsRoutes from "./routes/systemSettings";
 import listeningStateRoutes from "./routes/listeningState";
 import playbackStateRoutes from "./routes/playbackState";
+import connectRoutes from "./routes/connect";
 import offlineRoutes from "./routes/offline";
 import playlistsRoutes from "./routes/playlists";
 import searchRoutes from "./routes/search";
@@ -24,6 +26,7 @@ import downloadsRoutes from "./routes/downloads";
 import webhooksRoutes from "./routes/webhooks";
 import audiobooksRoutes from "./routes/audiobooks";
 import podcastsRoutes from "./routes/podcasts";
+import radioRoutes from "./routes/radio";
 import artistsRoutes from "./routes/artists";
 import soulseekRoutes from "./routes/soulseek";
 import discoverRoutes from "./routes/discover";
@@ -148,9 +151,11 @@ app.use("/api/device-link", apiLimiter, deviceLinkRoutes);
 app.use("/api/library", libraryRoutes);
 app.use("/api/plays", apiLimiter, playsRoutes);
 app.use("/api/settings", apiLimiter, settingsRoutes);
+app.use("/api/audio-effects", apiLimiter, audioEffectsRoutes);
 app.use("/api/system-settings", apiLimiter, systemSettingsRoutes);
 app.use("/api/listening-state", apiLimiter, listeningStateRoutes);
 app.use("/api/playback-state", playbackStateRoutes); // No rate limit - syncs frequently
+app.use("/api/connect", apiLimiter, connectRoutes);
 app.use("/api/offline", apiLimiter, offlineRoutes);
 app.use("/api/playlists", apiLimiter, playlistsRoutes);
 app.use("/api/search", apiLimiter, searchRoutes);
@@ -161,6 +166,7 @@ app.use("/api/webhooks", webhooksRoutes); // Webhooks should not be rate limited
 // NOTE: /api/audiobooks has its own rate limiting (imageLimiter for covers, apiLimiter for others)
 app.use("/api/audiobooks", audiobooksRoutes);
 app.use("/api/podcasts", apiLimiter, podcastsRoutes);
+app.use("/api/radio-stations", radioRoutes); // Streams are long-lived; not rate limited
 app.use("/api/artists", apiLimiter, artistsRoutes);
 app.use("/api/soulseek", apiLimiter, soulseekRoutes);
 app.use("/api/discover", apiLimiter, discoverRoutes);
@@ -302,7 +308,7 @@ async function runStartupTasks() {
         const { getSystemSettings } = await import("./utils/systemSettings");
         const settings = await getSystemSettings();
         if (settings?.audiobookshelfEnabled && settings?.audiobookshelfUrl) {
-            const cachedCount = await prisma.audiobook.count();
+            const cachedCount = await prisma.audiobook.count({ where: { source: "audiobookshelf" } });
             if (cachedCount === 0) {
                 logger.debug("[STARTUP] Audiobook cache is empty - auto-syncing from Audiobookshelf...");
                 const { audiobookCacheService } = await import("./services/audiobookCache");
@@ -316,6 +322,20 @@ async function runStartupTasks() {
         logger.error("[STARTUP] Audiobook auto-sync failed:", err);
     }
 
+    // Pick up local audiobooks added while the server was down (unchanged folders are skipped)
+    try {
+        const { getSystemSettings } = await import("./utils/systemSettings");
+        const settings = await getSystemSettings();
+        if (settings?.localAudiobooksEnabled && settings?.audiobookPath) {
+            const { audiobookScannerService } = await import("./services/audiobookScanner");
+            audiobookScannerService.scan(settings.audiobookPath).catch((err) => {
+                logger.error("[STARTUP] Local audiobook scan failed:", err);
+            });
+        }
+    } catch (err) {
+        logger.error("[STARTUP] Local audiobook scan failed:", err);
+    }
+
     // Auto-backfill artist counts if needed
     try {
         const { isBackfillNeeded, backfillAllArtistCounts } = await import("./services/artistCountsService");
@@ -379,9 +399,14 @@ async function main() {
     const { createBullBoard } = await import("@bull-board/api");
     const { BullMQAdapter } = await import("@bull-board/api/bullMQAdapter");
     const { ExpressAdapter } = await import("@bull-board/express");
-    const { scanQueue, discoverQueue, importQueue } = await import(
-        "./workers/queues"
-    );
+    const {
+        scanQueue,
+        discoverQueue,
+        importQueue,
+        scrobbleQueue,
+        listenImportQueue,
+        opmlImportQueue,
+    } = await import("./workers/queues");
     const { artistQueue, trackQueue, vibeQueue, podcastQueue } = await import(
         "./workers/enrichmentQueues"
     );
@@ -394,6 +419,9 @@ async function main() {
             new BullMQAdapter(scanQueue),
             new BullMQAdapter(discoverQueue),
             new BullMQAdapter(importQueue),
+            new BullMQAdapter(scrobbleQueue),
+            new BullMQAdapter(listenImportQueue),
+            new BullMQAdapter(opmlImportQueue),
             new BullMQAdapter(artistQueue),
             new BullMQAdapter(trackQueue),
             new BullMQAdapter(vibeQueue),
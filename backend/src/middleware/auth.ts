@@ -23,6 +23,8 @@ declare global {
                 username: string;
                 role: string;
             };
+            /** Set when the client signed in with an API key (a linked device or Subsonic token) */
+            apiKeyId?: string;
         }
     }
 }
@@ -111,6 +113,7 @@ async function authenticateRequest(
                     })
                     .catch(() => {});
 
+                req.apiKeyId = apiKeyRecord.id;
                 return apiKeyRecord.user;
             }
         } catch (error) {
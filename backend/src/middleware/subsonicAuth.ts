@@ -64,6 +64,7 @@ export async function subsonicAuth(
             prisma.apiKey.update({ where: { id: matchedKeyId }, data: { lastUsed: new Date() } }).catch(() => {});
 
             req.user = user;
+            req.apiKeyId = matchedKeyId;
             next();
             return;
         }
@@ -88,6 +89,7 @@ export async function subsonicAuth(
                 .catch(() => {});
 
             req.user = keyRecord.user;
+            req.apiKeyId = keyRecord.id;
             next();
             return;
         }
@@ -0,0 +1,169 @@
+/**
+ * Audio Effects Route Tests
+ *
+ * Covers how the EQ and effects chain resolves per device: a linked device
+ * signed in with its API key gets its own settings or falls back to the
+ * account's, the web app edits either, and devices belonging to someone
+ * else are refused.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        userSettings: { findUnique: jest.fn(), upsert: jest.fn() },
+        apiKey: {
+            findUnique: jest.fn(),
+            findFirst: jest.fn(),
+            update: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import audioEffectsRoutes from '../../routes/audioEffects';
+import { prisma } from '../../utils/db';
+import { DEFAULT_AUDIO_EFFECTS } from '../../services/audioEffects';
+
+const TEST_SECRET = process.env.JWT_SECRET!;
+
+function createTestApp() {
+    const app = express();
+    app.use(express.json());
+    app.use('/audio-effects', audioEffectsRoutes);
+    return app;
+}
+
+function tokenFor(userId: string): string {
+    return jwt.sign(
+        { userId, username: `user-${userId}`, role: 'user', tokenVersion: 1 },
+        TEST_SECRET,
+        { expiresIn: '24h' }
+    );
+}
+
+const USER_A = 'user-aaaa-1111';
+const DEVICE_ID = 'key-phone-1';
+
+const bassBoost = {
+    ...DEFAULT_AUDIO_EFFECTS,
+    enabled: true,
+    preset: 'bass',
+    bands: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0],
+};
+const monoLimited = { ...DEFAULT_AUDIO_EFFECTS, enabled: true, limiter: true, mono: true };
+
+describe('audio effects routes', () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_A, username: 'user-a', role: 'user', tokenVersion: 1,
+        });
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.apiKey.update as jest.Mock).mockResolvedValue({});
+        (prisma.apiKey.findFirst as jest.Mock).mockResolvedValue({ id: DEVICE_ID, audioEffects: null });
+        (prisma.userSettings.findUnique as jest.Mock).mockResolvedValue({ audioEffects: bassBoost });
+    });
+
+    it('gives the web app the account\'s settings', async () => {
+        const res = await request(app)
+            .get('/audio-effects')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ effects: bassBoost, source: 'account' });
+        expect(prisma.apiKey.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('falls back to defaults when nothing was saved', async () => {
+        (prisma.userSettings.findUnique as jest.Mock).mockResolvedValue(null);
+
+        const res = await request(app)
+            .get('/audio-effects')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`);
+
+        expect(res.body.effects).toEqual(DEFAULT_AUDIO_EFFECTS);
+    });
+
+    it('gives a linked device its own settings when it has them', async () => {
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+            id: DEVICE_ID,
+            user: { id: USER_A, username: 'user-a', role: 'user' },
+        });
+        (prisma.apiKey.findFirst as jest.Mock).mockResolvedValue({ id: DEVICE_ID, audioEffects: monoLimited });
+
+        const res = await request(app).get('/audio-effects').set('X-API-Key', 'phone-key');
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ effects: monoLimited, source: 'device' });
+        expect(prisma.apiKey.findFirst).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { id: DEVICE_ID, userId: USER_A } })
+        );
+    });
+
+    it('lets a device without its own settings follow the account', async () => {
+        const res = await request(app)
+            .get(`/audio-effects?deviceId=${DEVICE_ID}`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`);
+
+        expect(res.body).toEqual({ effects: bassBoost, source: 'account' });
+    });
+
+    it('saves settings for a chosen device', async () => {
+        const res = await request(app)
+            .put('/audio-effects')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ deviceId: DEVICE_ID, effects: monoLimited });
+
+        expect(res.status).toBe(200);
+        expect(res.body.source).toBe('device');
+        expect(prisma.apiKey.update).toHaveBeenCalledWith({
+            where: { id: DEVICE_ID },
+            data: { audioEffects: monoLimited },
+        });
+        expect(prisma.userSettings.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects an EQ without exactly ten bands', async () => {
+        const res = await request(app)
+            .put('/audio-effects')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ effects: { ...bassBoost, bands: [3, 3, 3] } });
+
+        expect(res.status).toBe(400);
+        expect(prisma.userSettings.upsert).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a device that belongs to someone else', async () => {
+        (prisma.apiKey.findFirst as jest.Mock).mockResolvedValue(null);
+
+        const res = await request(app)
+            .put('/audio-effects')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ deviceId: 'key-of-user-b', effects: bassBoost });
+
+        expect(res.status).toBe(404);
+        expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('resets a device to the account\'s settings', async () => {
+        const res = await request(app)
+            .delete(`/audio-effects/devices/${DEVICE_ID}`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ effects: bassBoost, source: 'account' });
+        expect(prisma.apiKey.update).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { id: DEVICE_ID } })
+        );
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Kima Connect Route Tests
+ *
+ * Covers remote control between a user's open players: the device list
+ * follows event stream registrations, commands only reach devices that are
+ * connected (and only the user's own), and queues sent across are trimmed
+ * to the same shape /playback-state stores.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        apiKey: { findUnique: jest.fn(), update: jest.fn() },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../services/eventBus', () => ({
+    eventBus: { emit: jest.fn() },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import connectRoutes from '../../routes/connect';
+import { prisma } from '../../utils/db';
+import { eventBus } from '../../services/eventBus';
+import { connectSessions } from '../../services/connectSessions';
+
+const TEST_SECRET = process.env.JWT_SECRET!;
+
+function createTestApp() {
+    const app = express();
+    app.use(express.json());
+    app.use('/connect', connectRoutes);
+    return app;
+}
+
+function tokenFor(userId: string): string {
+    return jwt.sign(
+        { userId, username: `user-${userId}`, role: 'user', tokenVersion: 1 },
+        TEST_SECRET,
+        { expiresIn: '24h' }
+    );
+}
+
+const USER_A = 'user-aaaa-1111';
+const USER_B = 'user-bbbb-2222';
+const PHONE = 'phone-device-1';
+const TV = 'tv-device-0001';
+
+const track = {
+    id: 'track-1',
+    title: 'Song',
+    duration: 200,
+    artist: { id: 'artist-1', name: 'Artist' },
+    album: { id: 'album-1', title: 'Album', coverArt: '/covers/1.jpg' },
+};
+
+describe('connect routes', () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockImplementation(({ where }) =>
+            Promise.resolve({ id: where.id, username: 'user', role: 'user', tokenVersion: 1 })
+        );
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+        connectSessions.join(USER_A, { id: PHONE, name: 'Phone', type: 'mobile' });
+        connectSessions.join(USER_A, { id: TV, name: 'Living room', type: 'tv' });
+        (eventBus.emit as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+        connectSessions.leave(USER_A, PHONE);
+        connectSessions.leave(USER_A, TV);
+    });
+
+    it('lists the players that are connected', async () => {
+        const res = await request(app)
+            .get('/connect/devices')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.devices.map((d: { id: string }) => d.id)).toEqual([PHONE, TV]);
+        expect(res.body.devices[1]).toMatchObject({ name: 'Living room', type: 'tv', state: null });
+    });
+
+    it('keeps a device listed until its last stream closes', () => {
+        connectSessions.join(USER_A, { id: TV, name: 'Living room', type: 'tv' });
+        connectSessions.leave(USER_A, TV);
+
+        expect(connectSessions.has(USER_A, TV)).toBe(true);
+    });
+
+    it('sends a command to the target device', async () => {
+        const res = await request(app)
+            .post(`/connect/devices/${TV}/commands`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ type: 'seek', position: 42 });
+
+        expect(res.status).toBe(202);
+        expect(eventBus.emit).toHaveBeenCalledWith({
+            type: 'connect:command',
+            userId: USER_A,
+            payload: { targetDeviceId: TV, command: { type: 'seek', position: 42 } },
+        });
+    });
+
+    it('trims queued tracks to what a player needs', async () => {
+        const res = await request(app)
+            .post(`/connect/devices/${TV}/commands`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ type: 'queue', tracks: [{ ...track, filePath: '/music/song.flac', lyrics: 'la la' }] });
+
+        expect(res.status).toBe(202);
+        const { command } = (eventBus.emit as jest.Mock).mock.calls[0][0].payload;
+        expect(command).toEqual({ type: 'queue', tracks: [track], startIndex: 0 });
+    });
+
+    it('rejects commands it does not understand', async () => {
+        const res = await request(app)
+            .post(`/connect/devices/${TV}/commands`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ type: 'volume', volume: 3 });
+
+        expect(res.status).toBe(400);
+        expect(eventBus.emit).not.toHaveBeenCalled();
+    });
+
+    it('refuses devices that are not connected or belong to someone else', async () => {
+        const offline = await request(app)
+            .post('/connect/devices/unknown-device/commands')
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ type: 'pause' });
+        const otherUser = await request(app)
+            .post(`/connect/devices/${TV}/commands`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`)
+            .send({ type: 'pause' });
+
+        expect(offline.status).toBe(404);
+        expect(otherUser.status).toBe(404);
+        expect(eventBus.emit).not.toHaveBeenCalled();
+    });
+
+    it('only transfers playback to a connected device', async () => {
+        const res = await request(app)
+            .post(`/connect/devices/${TV}/commands`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ type: 'transfer', toDeviceId: 'gone-device-1' });
+
+        expect(res.status).toBe(404);
+    });
+
+    it('shares what a device is playing with the other devices', async () => {
+        const state = {
+            playbackType: 'track',
+            title: 'Song',
+            subtitle: 'Artist',
+            coverUrl: null,
+            isPlaying: true,
+            position: 12.5,
+            duration: 200,
+            volume: 0.8,
+        };
+
+        const res = await request(app)
+            .post(`/connect/devices/${TV}/state`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send(state);
+
+        expect(res.status).toBe(200);
+        expect(res.body.state).toMatchObject(state);
+        expect(eventBus.emit).toHaveBeenCalledWith(
+            expect.objectContaining({
+                type: 'connect:devices',
+                userId: USER_A,
+                payload: { devices: expect.arrayContaining([expect.objectContaining({ id: TV })]) },
+            })
+        );
+    });
+});
@@ -2,7 +2,8 @@
  * Library Albums Route Integration Tests
  *
  * Tests GET /albums (list), GET /albums/:id (detail), and DELETE /albums/:id.
- * None of these routes require authentication (no requireAuth middleware).
+ * Auth is applied by the library index router, so the test app just sets
+ * req.user for the per-user star/rating filters.
  * File-system calls in DELETE are mocked at the 'fs' and 'path' level.
  */
 
@@ -51,6 +52,11 @@ jest.mock('../../utils/errors', () => ({
     }),
 }));
 
+jest.mock('../../services/ratings', () => ({
+    ratingService: { getAnnotations: jest.fn() },
+    MAX_RATING: 5,
+}));
+
 jest.mock('../../config', () => ({
     config: {
         music: {
@@ -70,11 +76,16 @@ import express from 'express';
 import request from 'supertest';
 import albumRoutes from '../../routes/library/albums';
 import { prisma } from '../../utils/db';
+import { ratingService } from '../../services/ratings';
 import fs from 'fs';
 
 function makeApp() {
     const app = express();
     app.use(express.json());
+    app.use((req, _res, next) => {
+        req.user = { id: 'user-1', username: 'alice', role: 'user' } as any;
+        next();
+    });
     app.use('/', albumRoutes);
     return app;
 }
@@ -96,7 +107,10 @@ describe('GET /albums -- list albums', () => {
     let app: express.Application;
 
     beforeAll(() => { app = makeApp(); });
-    beforeEach(() => { jest.clearAllMocks(); });
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (ratingService.getAnnotations as jest.Mock).mockResolvedValue(new Map());
+    });
 
     it('returns paginated album list with total', async () => {
         (prisma.ownedAlbum.findMany as jest.Mock).mockResolvedValue([]);
@@ -167,6 +181,24 @@ describe('GET /albums -- list albums', () => {
         expect(res.body.limit).toBe(10000);
     });
 
+    it('filters to starred albums rated at least minRating', async () => {
+        (prisma.album.findMany as jest.Mock).mockResolvedValue([BASE_ALBUM]);
+        (prisma.album.count as jest.Mock).mockResolvedValue(1);
+        (ratingService.getAnnotations as jest.Mock).mockResolvedValue(
+            new Map([['album-1', { starredAt: new Date(), rating: 5 }]])
+        );
+
+        const res = await request(app).get('/albums?filter=all&starred=true&minRating=4');
+        expect(res.status).toBe(200);
+
+        const findManyCall = (prisma.album.findMany as jest.Mock).mock.calls[0][0];
+        expect(findManyCall.where.starredBy).toEqual({ some: { userId: 'user-1' } });
+        expect(findManyCall.where.ratings).toEqual({
+            some: { userId: 'user-1', rating: { gte: 4 } },
+        });
+        expect(res.body.albums[0]).toMatchObject({ starred: true, userRating: 5 });
+    });
+
     it('returns empty array when no albums match', async () => {
         (prisma.ownedAlbum.findMany as jest.Mock).mockResolvedValue([]);
         (prisma.album.findMany as jest.Mock).mockResolvedValue([]);
@@ -0,0 +1,149 @@
+/**
+ * Offline Download Job Route Tests
+ *
+ * Covers the playlist download job: who may download a playlist, which
+ * quality the stream URLs ask for, and how the cache limit is checked
+ * against tracks that aren't downloaded yet.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        playlist: { findUnique: jest.fn() },
+        playlistCollaborator: { findUnique: jest.fn() },
+        userSettings: { findUnique: jest.fn() },
+        cachedTrack: {
+            findMany: jest.fn(),
+            aggregate: jest.fn(),
+        },
+        apiKey: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../services/eventBus', () => ({
+    eventBus: { emit: jest.fn() },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import offlineRoutes from '../../routes/offline';
+import { prisma } from '../../utils/db';
+
+const TEST_SECRET = process.env.JWT_SECRET!;
+
+function createTestApp() {
+    const app = express();
+    app.use(express.json());
+    app.use('/offline', offlineRoutes);
+    return app;
+}
+
+function tokenFor(userId: string): string {
+    return jwt.sign(
+        { userId, username: `user-${userId}`, role: 'user', tokenVersion: 1 },
+        TEST_SECRET,
+        { expiresIn: '24h' }
+    );
+}
+
+const USER_A = 'user-aaaa-1111';
+const USER_B = 'user-bbbb-2222';
+const PLAYLIST_ID = 'playlist-offline-1';
+
+function track(id: string) {
+    return {
+        id,
+        title: `Track ${id}`,
+        trackNo: 1,
+        discNumber: 1,
+        discSubtitle: null,
+        duration: 200,
+        album: {
+            id: 'album-1',
+            title: 'Album',
+            coverUrl: 'cover.jpg',
+            artist: { id: 'artist-1', name: 'Artist' },
+        },
+    };
+}
+
+const playlist = {
+    id: PLAYLIST_ID,
+    userId: USER_A,
+    name: 'Road Trip',
+    isPublic: false,
+    items: [{ track: track('t1') }, { track: track('t2') }, { track: track('t3') }],
+};
+
+describe('POST /offline/playlists/:id/download', () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_A, username: 'user-a', role: 'user', tokenVersion: 1,
+        });
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue(playlist);
+        (prisma.userSettings.findUnique as jest.Mock).mockResolvedValue({
+            userId: USER_A, playbackQuality: 'high', maxCacheSizeMb: 1000,
+        });
+        (prisma.cachedTrack.findMany as jest.Mock).mockResolvedValue([]);
+        (prisma.cachedTrack.aggregate as jest.Mock).mockResolvedValue({ _sum: { fileSizeMb: 0 } });
+    });
+
+    it('returns tracks at the user\'s streaming quality without logging plays', async () => {
+        const res = await request(app)
+            .post(`/offline/playlists/${PLAYLIST_ID}/download`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({});
+
+        expect(res.status).toBe(200);
+        expect(res.body.quality).toBe('high');
+        expect(res.body.tracks.map((t: { trackId: string }) => t.trackId)).toEqual(['t1', 't2', 't3']);
+        expect(res.body.tracks[0].streamUrl).toBe('/library/tracks/t1/stream?quality=high&download=true');
+        expect(res.body.tracks[0].artistName).toBe('Artist');
+    });
+
+    it('only counts tracks that are not cached yet against the limit', async () => {
+        (prisma.userSettings.findUnique as jest.Mock).mockResolvedValue({
+            userId: USER_A, playbackQuality: 'high', maxCacheSizeMb: 25,
+        });
+        (prisma.cachedTrack.findMany as jest.Mock).mockResolvedValue([{ trackId: 't1' }]);
+        (prisma.cachedTrack.aggregate as jest.Mock).mockResolvedValue({ _sum: { fileSizeMb: 10 } });
+
+        const res = await request(app)
+            .post(`/offline/playlists/${PLAYLIST_ID}/download`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({});
+
+        // 10 MB used + 2 uncached tracks x 10 MB = 30 MB > 25 MB
+        expect(res.status).toBe(400);
+        expect(res.body).toEqual(expect.objectContaining({ needed: 20, maxSize: 25 }));
+    });
+
+    it('returns 403 for someone else\'s private playlist', async () => {
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_B, username: 'user-b', role: 'user', tokenVersion: 1,
+        });
+        (prisma.playlistCollaborator.findUnique as jest.Mock).mockResolvedValue(null);
+
+        const res = await request(app)
+            .post(`/offline/playlists/${PLAYLIST_ID}/download`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`)
+            .send({});
+
+        expect(res.status).toBe(403);
+        expect(prisma.cachedTrack.findMany).not.toHaveBeenCalled();
+    });
+});
@@ -30,10 +30,18 @@ jest.mock('../../utils/db', () => ({
         },
         playlistItem: {
             findFirst: jest.fn(),
+            findUnique: jest.fn(),
             create: jest.fn(),
             findMany: jest.fn(),
             deleteMany: jest.fn(),
         },
+        playlistCollaborator: {
+            findUnique: jest.fn(),
+            upsert: jest.fn(),
+        },
+        track: {
+            findUnique: jest.fn(),
+        },
         apiKey: {
             findUnique: jest.fn(),
             update: jest.fn(),
@@ -56,11 +64,22 @@ jest.mock('../../utils/errors', () => ({
     safeError: jest.fn((err: Error) => err.message),
 }));
 
+jest.mock('../../services/eventBus', () => ({
+    eventBus: { emit: jest.fn() },
+}));
+
+jest.mock('../../services/notificationService', () => ({
+    notificationService: { notifyPlaylistInvite: jest.fn() },
+}));
+
 import express from 'express';
 import request from 'supertest';
 import jwt from 'jsonwebtoken';
 import playlistsRoutes from '../../routes/playlists';
 import { prisma } from '../../utils/db';
+import { eventBus } from '../../services/eventBus';
+import { notificationService } from '../../services/notificationService';
+import { smartPlaylistService } from '../../services/smartPlaylists';
 
 const TEST_SECRET = process.env.JWT_SECRET!;
 
@@ -91,6 +110,7 @@ const userAPlaylist = {
     userId: USER_A,
     name: 'User A Playlist',
     isPublic: false,
+    collaborators: [],
     createdAt: new Date(),
     updatedAt: new Date(),
 };
@@ -305,3 +325,198 @@ describe('GET /playlists -- data isolation', () => {
         expect(call.where.userId).toBeUndefined(); // not a global userId filter
     });
 });
+
+// ── Smart playlists -- items follow the rules ────────────────────────────────
+
+describe('Smart playlists -- items are read-only', () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_A, username: 'user-a', role: 'user', tokenVersion: 1,
+        });
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('returns 409 and does NOT add a track to a smart playlist', async () => {
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            smartRules: { rules: { match: 'all', conditions: [] } },
+            items: [],
+        });
+
+        const res = await request(app)
+            .post(`/playlists/${PLAYLIST_ID}/items`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ trackId: 'track-1' });
+
+        expect(res.status).toBe(409);
+        expect(prisma.playlistItem.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects rules on a static playlist without updating it', async () => {
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            smartRules: null,
+        });
+
+        const res = await request(app)
+            .put(`/playlists/${PLAYLIST_ID}`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ smart: { rules: { match: 'all', conditions: [] } } });
+
+        expect(res.status).toBe(400);
+        expect(prisma.playlist.update).not.toHaveBeenCalled();
+    });
+
+    it('does NOT re-evaluate a stale smart playlist for someone without access', async () => {
+        const refresh = jest.spyOn(smartPlaylistService, 'refreshIfStale');
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_B, username: 'user-b', role: 'user', tokenVersion: 1,
+        });
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            smartRules: { rules: { match: 'all', conditions: [] } },
+            smartEvaluatedAt: null,
+        });
+
+        const res = await request(app)
+            .get(`/playlists/${PLAYLIST_ID}`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`);
+
+        expect(res.status).toBe(403);
+        expect(refresh).not.toHaveBeenCalled();
+        refresh.mockRestore();
+    });
+});
+
+// ── Collaborative playlists -- editors change items, viewers only listen ─────
+
+describe('Collaborative playlists -- roles and invites', () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_B, username: 'user-b', role: 'user', tokenVersion: 1,
+        });
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+    });
+
+    function asCollaborator(role: string, status: string) {
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            smartRules: null,
+            items: [],
+            collaborators: [{ userId: USER_B }],
+        });
+        (prisma.playlistCollaborator.findUnique as jest.Mock).mockResolvedValue({
+            playlistId: PLAYLIST_ID, userId: USER_B, role, status,
+        });
+    }
+
+    it('lets an editor add a track, attributes it and notifies every member', async () => {
+        asCollaborator('editor', 'accepted');
+        (prisma.track.findUnique as jest.Mock).mockResolvedValue({ id: 'track-1' });
+        (prisma.playlistItem.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.playlistItem.create as jest.Mock).mockResolvedValue({
+            id: 'item-1',
+            trackId: 'track-1',
+            addedBy: { id: USER_B, username: 'user-b' },
+            track: { album: { coverUrl: null } },
+        });
+
+        const res = await request(app)
+            .post(`/playlists/${PLAYLIST_ID}/items`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`)
+            .send({ trackId: 'track-1' });
+
+        expect(res.status).toBe(200);
+        expect((prisma.playlistItem.create as jest.Mock).mock.calls[0][0].data.addedById).toBe(USER_B);
+        const notified = (eventBus.emit as jest.Mock).mock.calls.map(([event]) => event.userId);
+        expect(notified).toEqual(expect.arrayContaining([USER_A, USER_B]));
+    });
+
+    it.each([
+        ['a viewer', 'viewer', 'accepted'],
+        ['an invitee who has not accepted', 'editor', 'pending'],
+    ])('returns 403 and does NOT add a track for %s', async (_label, role, status) => {
+        asCollaborator(role, status);
+
+        const res = await request(app)
+            .post(`/playlists/${PLAYLIST_ID}/items`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`)
+            .send({ trackId: 'track-1' });
+
+        expect(res.status).toBe(403);
+        expect(prisma.playlistItem.create).not.toHaveBeenCalled();
+    });
+
+    it('lets an accepted collaborator export the rules of a private smart playlist', async () => {
+        asCollaborator('viewer', 'accepted');
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            smartRules: { rules: { match: 'all', conditions: [] } },
+        });
+
+        const res = await request(app)
+            .get(`/playlists/${PLAYLIST_ID}/export`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`);
+
+        expect(res.status).toBe(200);
+    });
+
+    it('returns 403 when someone outside a private smart playlist exports it', async () => {
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            smartRules: { rules: { match: 'all', conditions: [] } },
+        });
+        (prisma.playlistCollaborator.findUnique as jest.Mock).mockResolvedValue(null);
+
+        const res = await request(app)
+            .get(`/playlists/${PLAYLIST_ID}/export`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`);
+
+        expect(res.status).toBe(403);
+    });
+
+    it('lets the owner invite a user by username as a pending collaborator', async () => {
+        (prisma.user.findUnique as jest.Mock)
+            .mockResolvedValueOnce({ id: USER_A, username: 'user-a', role: 'user', tokenVersion: 1 })
+            .mockResolvedValueOnce({ id: USER_B, username: 'user-b' });
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            user: { username: 'user-a' },
+        });
+        (prisma.playlistCollaborator.upsert as jest.Mock).mockResolvedValue({
+            playlistId: PLAYLIST_ID, userId: USER_B, role: 'viewer', status: 'pending',
+        });
+
+        const res = await request(app)
+            .post(`/playlists/${PLAYLIST_ID}/collaborators`)
+            .set('Authorization', `Bearer ${tokenFor(USER_A)}`)
+            .send({ username: 'user-b', role: 'viewer' });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ userId: USER_B, username: 'user-b', role: 'viewer', status: 'pending' });
+        expect(notificationService.notifyPlaylistInvite).toHaveBeenCalledWith(
+            USER_B, 'User A Playlist', PLAYLIST_ID, 'user-a', 'viewer'
+        );
+    });
+
+    it('returns 403 and does NOT invite when a non-owner invites', async () => {
+        (prisma.playlist.findUnique as jest.Mock).mockResolvedValue({
+            ...userAPlaylist,
+            user: { username: 'user-a' },
+        });
+
+        const res = await request(app)
+            .post(`/playlists/${PLAYLIST_ID}/collaborators`)
+            .set('Authorization', `Bearer ${tokenFor(USER_B)}`)
+            .send({ username: 'someone-else' });
+
+        expect(res.status).toBe(403);
+        expect(prisma.playlistCollaborator.upsert).not.toHaveBeenCalled();
+    });
+});
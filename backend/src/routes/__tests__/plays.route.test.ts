@@ -0,0 +1,111 @@
+/**
+ * Play Logging Route Tests
+ *
+ * Plays made offline are sent later with the time they happened. They must
+ * keep that time, and a retried play must not be logged twice.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        track: { findUnique: jest.fn() },
+        play: {
+            findFirst: jest.fn(),
+            create: jest.fn(),
+        },
+        apiKey: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../services/scrobbler', () => ({
+    scrobbleService: { queuePlay: jest.fn().mockResolvedValue(undefined) },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import playRoutes from '../../routes/plays';
+import { prisma } from '../../utils/db';
+import { scrobbleService } from '../../services/scrobbler';
+
+const TEST_SECRET = process.env.JWT_SECRET!;
+const USER_ID = 'user-plays-1';
+
+function createTestApp() {
+    const app = express();
+    app.use(express.json());
+    app.use('/plays', playRoutes);
+    return app;
+}
+
+const token = jwt.sign(
+    { userId: USER_ID, username: 'listener', role: 'user', tokenVersion: 1 },
+    TEST_SECRET,
+    { expiresIn: '24h' }
+);
+
+describe('POST /plays -- queued offline plays', () => {
+    const app = createTestApp();
+    const playedAt = new Date('2026-10-18T21:30:00Z');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: USER_ID, username: 'listener', role: 'user', tokenVersion: 1,
+        });
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+        (prisma.track.findUnique as jest.Mock).mockResolvedValue({ id: 'track-1' });
+    });
+
+    it('logs and scrobbles the play at the time it happened', async () => {
+        (prisma.play.findFirst as jest.Mock).mockResolvedValue(null);
+        (prisma.play.create as jest.Mock).mockResolvedValue({
+            id: 'play-1', userId: USER_ID, trackId: 'track-1', playedAt,
+        });
+
+        const res = await request(app)
+            .post('/plays')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ trackId: 'track-1', playedAt: playedAt.toISOString() });
+
+        expect(res.status).toBe(200);
+        expect(prisma.play.create).toHaveBeenCalledWith({
+            data: { userId: USER_ID, trackId: 'track-1', playedAt },
+        });
+        expect(scrobbleService.queuePlay).toHaveBeenCalledWith(USER_ID, 'track-1', playedAt);
+    });
+
+    it('does not log a retried play twice', async () => {
+        (prisma.play.findFirst as jest.Mock).mockResolvedValue({
+            id: 'play-1', userId: USER_ID, trackId: 'track-1', playedAt,
+        });
+
+        const res = await request(app)
+            .post('/plays')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ trackId: 'track-1', playedAt: playedAt.toISOString() });
+
+        expect(res.status).toBe(200);
+        expect(res.body.id).toBe('play-1');
+        expect(prisma.play.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects plays from the future', async () => {
+        const res = await request(app)
+            .post('/plays')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ trackId: 'track-1', playedAt: new Date(Date.now() + 3600_000).toISOString() });
+
+        expect(res.status).toBe(400);
+        expect(prisma.play.create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Internet Radio Stream Route Tests
+ *
+ * The stream proxy fetches a URL chosen by an admin, so it must not become
+ * a way into the internal network: redirects are followed one hop at a
+ * time and every hop is checked the same way as the saved URL.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        apiKey: { findUnique: jest.fn(), update: jest.fn() },
+        user: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../utils/ssrf', () => ({
+    validateUrlForFetch: jest.fn(),
+}));
+
+jest.mock('../../services/radioStations', () => ({
+    radioStationService: { get: jest.fn() },
+}));
+
+jest.mock('../../services/eventBus', () => ({
+    eventBus: { emit: jest.fn() },
+}));
+
+jest.mock('axios');
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import axios from 'axios';
+import { Readable } from 'stream';
+import radioRoutes from '../../routes/radio';
+import { prisma } from '../../utils/db';
+import { validateUrlForFetch } from '../../utils/ssrf';
+import { radioStationService } from '../../services/radioStations';
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+const TEST_SECRET = process.env.JWT_SECRET!;
+
+function createTestApp() {
+    const app = express();
+    app.use('/radio-stations', radioRoutes);
+    return app;
+}
+
+function tokenFor(userId: string): string {
+    return jwt.sign(
+        { userId, username: `user-${userId}`, role: 'user', tokenVersion: 1 },
+        TEST_SECRET,
+        { expiresIn: '24h' }
+    );
+}
+
+function redirectTo(location: string) {
+    return { status: 302, headers: { location }, data: Readable.from([]) };
+}
+
+describe('GET /radio-stations/:id/stream', () => {
+    const app = createTestApp();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+            id: 'user-1', username: 'user', role: 'user', tokenVersion: 1,
+        });
+        (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+        (radioStationService.get as jest.Mock).mockResolvedValue({
+            id: 'station-1',
+            name: 'KEXP',
+            streamUrl: 'https://radio.example/live',
+        });
+        (validateUrlForFetch as jest.Mock).mockImplementation(async (url: string) =>
+            url.includes('169.254.169.254') ? 'Blocked: internal address' : null
+        );
+    });
+
+    it('follows redirects one hop at a time and checks each one', async () => {
+        mockAxios.get
+            .mockResolvedValueOnce(redirectTo('https://lb.example/live'))
+            .mockResolvedValueOnce({
+                status: 200,
+                headers: { 'content-type': 'audio/aac' },
+                data: Readable.from([Buffer.from('audio')]),
+            });
+
+        const res = await request(app)
+            .get('/radio-stations/station-1/stream')
+            .set('Authorization', `Bearer ${tokenFor('user-1')}`);
+
+        expect(res.status).toBe(200);
+        expect(res.headers['content-type']).toBe('audio/aac');
+        expect(validateUrlForFetch).toHaveBeenCalledWith('https://lb.example/live');
+        expect(mockAxios.get.mock.calls[0][1]).toMatchObject({ maxRedirects: 0 });
+    });
+
+    it('refuses a redirect into the internal network', async () => {
+        mockAxios.get.mockResolvedValueOnce(redirectTo('http://169.254.169.254/latest/meta-data/'));
+
+        const res = await request(app)
+            .get('/radio-stations/station-1/stream')
+            .set('Authorization', `Bearer ${tokenFor('user-1')}`);
+
+        expect(res.status).toBe(400);
+        expect(mockAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up on a redirect loop', async () => {
+        mockAxios.get.mockResolvedValue(redirectTo('/live'));
+
+        const res = await request(app)
+            .get('/radio-stations/station-1/stream')
+            .set('Authorization', `Bearer ${tokenFor('user-1')}`);
+
+        expect(res.status).toBe(502);
+        expect(mockAxios.get).toHaveBeenCalledTimes(6);
+    });
+});
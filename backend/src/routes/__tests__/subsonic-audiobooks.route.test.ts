@@ -0,0 +1,204 @@
+/**
+ * Subsonic Audiobook Route Tests
+ *
+ * Books are served as albums of the Audiobooks music folder with one song
+ * per audio file, requests for music IDs fall through to the music routers,
+ * and audiobook bookmarks are read from and written to listening progress
+ * without asking Audiobookshelf about every book.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        audiobook: { findFirst: jest.fn(), findMany: jest.fn(), groupBy: jest.fn() },
+        audiobookFile: { findMany: jest.fn(), findUnique: jest.fn() },
+        audiobookProgress: { findUnique: jest.fn(), findMany: jest.fn() },
+    },
+}));
+
+jest.mock('../../utils/systemSettings', () => ({
+    getSystemSettings: jest.fn(),
+    getAudiobookSources: jest.fn(),
+}));
+
+jest.mock('../../services/audiobookshelf', () => ({
+    audiobookshelfService: { getAudiobook: jest.fn(), streamAudiobook: jest.fn() },
+}));
+
+jest.mock('../../services/audiobookCache', () => ({
+    audiobookCacheService: { storeTrackLayout: jest.fn() },
+}));
+
+jest.mock('../../services/audiobookProgress', () => ({
+    audiobookProgressService: {
+        saveProgress: jest.fn(),
+        removeProgress: jest.fn(),
+        pullFromAudiobookshelf: jest.fn(),
+    },
+}));
+
+jest.mock('../../services/audioStreaming', () => ({ getAudioStreamingService: jest.fn() }));
+
+jest.mock('../../config', () => ({
+    config: { music: { musicPath: '/tmp/kima-test/music' } },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import {
+    audiobookRouter,
+    getAudiobookBookmarks,
+    saveAudiobookBookmark,
+    deleteAudiobookBookmark,
+} from '../subsonic/audiobooks';
+import { prisma } from '../../utils/db';
+import { getAudiobookSources } from '../../utils/systemSettings';
+import { audiobookProgressService } from '../../services/audiobookProgress';
+import { audiobookshelfService } from '../../services/audiobookshelf';
+
+const mockPrisma = prisma as any;
+const mockSources = getAudiobookSources as jest.Mock;
+const mockProgress = audiobookProgressService as jest.Mocked<typeof audiobookProgressService>;
+
+const book = {
+    id: 'book-1',
+    title: 'Dune',
+    author: 'Frank Herbert',
+    source: 'local',
+    duration: 300,
+    numTracks: 2,
+    publishedYear: 1965,
+    genres: ['Science Fiction'],
+    chapters: [
+        { id: 0, title: 'Book One', start: 0, end: 120 },
+        { id: 1, title: 'Book Two', start: 120, end: 300 },
+    ],
+    localCoverPath: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+const files = [
+    { audiobookId: 'book-1', index: 0, path: '/audiobooks/Dune/01.mp3', startOffset: 0, duration: 120, mimeType: 'audio/mpeg', size: BigInt(1000) },
+    { audiobookId: 'book-1', index: 1, path: '/audiobooks/Dune/02.mp3', startOffset: 120, duration: 180, mimeType: 'audio/mpeg', size: BigInt(2000) },
+];
+
+const progress = {
+    audiobookshelfId: 'book-1',
+    currentTime: 150.5,
+    isFinished: false,
+    createdAt: new Date('2026-01-02T00:00:00Z'),
+    lastPlayedAt: new Date('2026-01-03T00:00:00Z'),
+};
+
+function makeApp() {
+    const app = express();
+    app.use((req, _res, next) => {
+        req.user = { id: 'user-1', username: 'alice', role: 'user' } as any;
+        next();
+    });
+    app.use('/rest', audiobookRouter);
+    app.use('/rest', (_req, res) => res.json({ fallthrough: true }));
+    return app;
+}
+
+function body(res: request.Response) {
+    return res.body['subsonic-response'];
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    mockSources.mockReturnValue(['local']);
+    mockPrisma.audiobook.findFirst.mockResolvedValue(book);
+    mockPrisma.audiobook.findMany.mockResolvedValue([book]);
+    mockPrisma.audiobookFile.findMany.mockResolvedValue(files);
+    mockPrisma.audiobookProgress.findUnique.mockResolvedValue(progress);
+    mockPrisma.audiobookProgress.findMany.mockResolvedValue([progress]);
+});
+
+describe('Subsonic audiobooks', () => {
+    it('serves a book as an album with one song per file', async () => {
+        const res = await request(makeApp()).get('/rest/getAlbum.view?f=json&id=ab-book-1');
+
+        const album = body(res).album;
+        expect(album).toMatchObject({ id: 'ab-book-1', name: 'Dune', artist: 'Frank Herbert', songCount: 2 });
+        expect(album.song.map((s: any) => [s.id, s.title, s.track])).toEqual([
+            ['abt-0-book-1', 'Book One', 1],
+            ['abt-1-book-1', 'Book Two', 2],
+        ]);
+        expect(album.song[0].bookmarkPosition).toBeUndefined();
+        expect(album.song[1]).toMatchObject({ type: 'audiobook', suffix: 'mp3', bookmarkPosition: 30500 });
+        expect(mockPrisma.audiobook.findFirst).toHaveBeenCalledWith({
+            where: { id: 'book-1', source: { in: ['local'] } },
+        });
+    });
+
+    it('leaves music IDs and other folders to the music routers', async () => {
+        let res = await request(makeApp()).get('/rest/getAlbum.view?f=json&id=al-123');
+        expect(res.body).toEqual({ fallthrough: true });
+
+        res = await request(makeApp()).get('/rest/getAlbumList2.view?f=json&type=newest&musicFolderId=1');
+        expect(res.body).toEqual({ fallthrough: true });
+    });
+
+    it('lists books in the audiobook folder and hides them when no source is enabled', async () => {
+        let res = await request(makeApp()).get('/rest/getAlbumList2.view?f=json&type=newest&musicFolderId=2');
+        expect(body(res).albumList2.album).toEqual([expect.objectContaining({ id: 'ab-book-1', name: 'Dune' })]);
+
+        mockSources.mockReturnValue([]);
+        res = await request(makeApp()).get('/rest/getAlbum.view?f=json&id=ab-book-1');
+        expect(body(res).error.code).toBe(70);
+    });
+});
+
+describe('Subsonic audiobook bookmarks', () => {
+    const req = { user: { id: 'user-1', username: 'alice' } } as any;
+
+    it('reports progress as a bookmark in the file it falls in', async () => {
+        const bookmarks = await getAudiobookBookmarks(req);
+
+        expect(bookmarks).toHaveLength(1);
+        expect(bookmarks[0]).toMatchObject({ '@_position': 30500, '@_username': 'alice' });
+        expect(bookmarks[0].entry['@_id']).toBe('abt-1-book-1');
+        expect(mockProgress.pullFromAudiobookshelf).not.toHaveBeenCalled();
+    });
+
+    it('builds Audiobookshelf bookmarks from the stored layout', async () => {
+        mockSources.mockReturnValue(['audiobookshelf']);
+        const absBook = { ...book, source: 'audiobookshelf', size: null };
+        const singleTrack = { ...absBook, id: 'book-2', numTracks: 1 };
+        mockPrisma.audiobook.findMany.mockResolvedValue([absBook, singleTrack]);
+        mockPrisma.audiobookProgress.findMany.mockResolvedValue([
+            progress,
+            { ...progress, audiobookshelfId: 'book-2', currentTime: 200 },
+        ]);
+
+        const bookmarks = await getAudiobookBookmarks(req);
+
+        expect(bookmarks.map((b) => [b.entry['@_id'], b['@_position']])).toEqual([
+            ['abt-1-book-1', 30500],
+            ['abt-0-book-2', 200000],
+        ]);
+        expect(mockProgress.pullFromAudiobookshelf).toHaveBeenCalledWith('user-1');
+        expect(audiobookshelfService.getAudiobook).not.toHaveBeenCalled();
+    });
+
+    it('saves a bookmark as the position in the whole book', async () => {
+        expect(await saveAudiobookBookmark(req, 'abt-1-book-1', 45000)).toBe(true);
+        expect(mockProgress.saveProgress).toHaveBeenCalledWith('user-1', 'book-1', {
+            currentTime: 165,
+            duration: 300,
+        });
+
+        expect(await saveAudiobookBookmark(req, 'tr-1', 45000)).toBe(false);
+    });
+
+    it('deletes the book progress for audiobook songs only', async () => {
+        expect(await deleteAudiobookBookmark(req, 'abt-0-book-1')).toBe(true);
+        expect(mockProgress.removeProgress).toHaveBeenCalledWith('user-1', 'book-1');
+
+        expect(await deleteAudiobookBookmark(req, 'track-1')).toBe(false);
+    });
+});
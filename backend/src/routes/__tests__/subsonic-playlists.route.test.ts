@@ -0,0 +1,94 @@
+/**
+ * Subsonic Playlist Route Tests
+ *
+ * createPlaylist.view with a playlistId replaces the playlist's items with
+ * the list the client sends, which is also how clients reorder or trim a
+ * playlist. Collaborative playlists must keep who added each track.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        playlist: { findUnique: jest.fn() },
+        playlistItem: { findMany: jest.fn(), deleteMany: jest.fn(), createMany: jest.fn() },
+        playlistCollaborator: { findUnique: jest.fn() },
+        $transaction: jest.fn(),
+    },
+}));
+
+jest.mock('../../utils/logger', () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../services/eventBus', () => ({
+    eventBus: { emit: jest.fn() },
+}));
+
+jest.mock('../../services/smartPlaylists', () => ({
+    smartPlaylistService: { refreshIfStale: jest.fn() },
+}));
+
+jest.mock('../subsonic/annotations', () => ({
+    annotateSongs: jest.fn(async (_userId: string, songs: unknown[]) => songs),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { playlistRouter } from '../subsonic/playlists';
+import { prisma } from '../../utils/db';
+
+const mockPrisma = prisma as any;
+
+function makeApp(userId: string) {
+    const app = express();
+    app.use((req, _res, next) => {
+        req.user = { id: userId, username: userId, role: 'user' } as any;
+        next();
+    });
+    app.use('/rest', playlistRouter);
+    return app;
+}
+
+const PLAYLIST = {
+    id: 'pl-1',
+    userId: 'owner',
+    name: 'Road trip',
+    isPublic: false,
+    smartRules: null,
+};
+
+describe('Subsonic createPlaylist.view', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPrisma.playlist.findUnique.mockImplementation(({ include }: any) =>
+            Promise.resolve(
+                include
+                    ? { ...PLAYLIST, createdAt: new Date(), updatedAt: new Date(), user: { username: 'owner' }, items: [] }
+                    : PLAYLIST
+            )
+        );
+        mockPrisma.playlistCollaborator.findUnique.mockResolvedValue({ role: 'editor', status: 'accepted' });
+        mockPrisma.$transaction.mockResolvedValue([]);
+        mockPrisma.playlistItem.findMany.mockResolvedValue([
+            { trackId: 'track-a', addedById: 'alice' },
+            { trackId: 'track-b', addedById: 'bob' },
+            { trackId: 'track-c', addedById: null },
+        ]);
+    });
+
+    it("keeps each collaborator's attribution when a collaborator reorders and trims the playlist", async () => {
+        const res = await request(makeApp('bob')).get(
+            '/rest/createPlaylist.view?f=json&playlistId=pl-1&songId=track-c&songId=track-a&songId=track-new'
+        );
+
+        expect(res.body['subsonic-response'].status).toBe('ok');
+        expect(mockPrisma.playlistItem.deleteMany).toHaveBeenCalledWith({ where: { playlistId: 'pl-1' } });
+        expect(mockPrisma.playlistItem.createMany).toHaveBeenCalledWith({
+            data: [
+                { playlistId: 'pl-1', trackId: 'track-c', sort: 0, addedById: null },
+                { playlistId: 'pl-1', trackId: 'track-a', sort: 1, addedById: 'alice' },
+                { playlistId: 'pl-1', trackId: 'track-new', sort: 2, addedById: 'bob' },
+            ],
+            skipDuplicates: true,
+        });
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Subsonic Internet Radio Route Tests
+ *
+ * getInternetRadioStations lists the shared station catalogue for every
+ * user; create/update/delete are admin-only and surface validation and
+ * not-found errors with Subsonic error codes.
+ */
+
+jest.mock('../../services/radioStations', () => ({
+    radioStationService: {
+        list: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+    },
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { radioRouter } from '../subsonic/radio';
+import { radioStationService } from '../../services/radioStations';
+import { UserFacingError } from '../../utils/errors';
+
+const mockRadio = radioStationService as jest.Mocked<typeof radioStationService>;
+
+function makeApp(role: 'user' | 'admin' = 'admin') {
+    const app = express();
+    app.use((req, _res, next) => {
+        req.user = { id: 'user-1', username: 'alice', role } as any;
+        next();
+    });
+    app.use('/rest', radioRouter);
+    return app;
+}
+
+function body(res: request.Response) {
+    return res.body['subsonic-response'];
+}
+
+describe('Subsonic internet radio', () => {
+    it('lists stations with homePageUrl only when set', async () => {
+        mockRadio.list.mockResolvedValue([
+            { id: 's1', name: 'KEXP', streamUrl: 'https://kexp.example/aac', homepageUrl: 'https://kexp.org' },
+            { id: 's2', name: 'SomaFM', streamUrl: 'https://soma.example/mp3', homepageUrl: null },
+        ] as any);
+
+        const res = await request(makeApp('user')).get('/rest/getInternetRadioStations.view?f=json');
+
+        const stations = body(res).internetRadioStations.internetRadioStation;
+        expect(stations[0]).toEqual({
+            id: 's1',
+            name: 'KEXP',
+            streamUrl: 'https://kexp.example/aac',
+            homePageUrl: 'https://kexp.org',
+        });
+        expect(stations[1].homePageUrl).toBeUndefined();
+    });
+
+    it('requires admin to create stations', async () => {
+        const res = await request(makeApp('user')).get(
+            '/rest/createInternetRadioStation.view?f=json&name=X&streamUrl=https://x.example/s'
+        );
+
+        expect(body(res).error.code).toBe(50);
+        expect(mockRadio.create).not.toHaveBeenCalled();
+    });
+
+    it('creates stations and reports SSRF rejections as errors', async () => {
+        let res = await request(makeApp()).get(
+            '/rest/createInternetRadioStation.view?f=json&name=KEXP&streamUrl=https://kexp.example/aac&homepageUrl=https://kexp.org'
+        );
+        expect(body(res).status).toBe('ok');
+        expect(mockRadio.create).toHaveBeenCalledWith('user-1', {
+            name: 'KEXP',
+            streamUrl: 'https://kexp.example/aac',
+            homepageUrl: 'https://kexp.org',
+        });
+
+        mockRadio.create.mockRejectedValueOnce(new UserFacingError('Invalid stream URL: Blocked: internal address'));
+        res = await request(makeApp()).get(
+            '/rest/createInternetRadioStation.view?f=json&name=LAN&streamUrl=http://10.0.0.2/s'
+        );
+        expect(body(res).error).toMatchObject({ code: 0, message: 'Invalid stream URL: Blocked: internal address' });
+
+        res = await request(makeApp()).get('/rest/createInternetRadioStation.view?f=json&name=X');
+        expect(body(res).error.code).toBe(10);
+    });
+
+    it('returns not found for unknown stations on update and delete', async () => {
+        mockRadio.update.mockResolvedValue(null);
+        mockRadio.delete.mockResolvedValue(false);
+
+        let res = await request(makeApp()).get(
+            '/rest/updateInternetRadioStation.view?f=json&id=nope&name=X&streamUrl=https://x.example/s'
+        );
+        expect(body(res).error.code).toBe(70);
+
+        res = await request(makeApp()).get('/rest/deleteInternetRadioStation.view?f=json&id=nope');
+        expect(body(res).error.code).toBe(70);
+    });
+});
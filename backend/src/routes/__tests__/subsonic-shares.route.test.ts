@@ -0,0 +1,187 @@
+/**
+ * Subsonic Share Route Tests
+ *
+ * createShare/getShares/updateShare/deleteShare are backed by the same
+ * ShareLink rows as the web UI. Covers id resolution (track/album/playlist),
+ * multi-id shares becoming an ad-hoc "tracks" collection, and that users can
+ * only edit or revoke their own shares.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        shareLink: {
+            findMany: jest.fn(),
+            findFirst: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            deleteMany: jest.fn(),
+            count: jest.fn(),
+        },
+        track: { findUnique: jest.fn(), findMany: jest.fn() },
+        album: { findUnique: jest.fn() },
+        playlist: { findUnique: jest.fn() },
+        playlistItem: { findMany: jest.fn() },
+    },
+}));
+
+jest.mock('../../utils/systemSettings', () => ({
+    getSystemSettings: jest.fn().mockResolvedValue({ publicUrl: 'https://music.example.com/' }),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { shareRouter } from '../subsonic/shares';
+import { prisma } from '../../utils/db';
+
+const mockPrisma = prisma as any;
+
+function makeApp() {
+    const app = express();
+    app.use((req, _res, next) => {
+        req.user = { id: 'user-1', username: 'alice', role: 'user' } as any;
+        next();
+    });
+    app.use('/rest', shareRouter);
+    return app;
+}
+
+const SHARE = {
+    id: 'share-1',
+    token: 'tok',
+    entityType: 'track',
+    entityId: 'track-1',
+    createdBy: 'user-1',
+    expiresAt: null,
+    maxPlays: null,
+    playCount: 4,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    description: 'For Bob',
+    trackIds: [],
+    lastVisitedAt: null,
+};
+
+function body(res: request.Response) {
+    return res.body['subsonic-response'];
+}
+
+describe('Subsonic shares', () => {
+    beforeEach(() => {
+        mockPrisma.track.findUnique.mockResolvedValue(null);
+        mockPrisma.album.findUnique.mockResolvedValue(null);
+        mockPrisma.playlist.findUnique.mockResolvedValue(null);
+        mockPrisma.track.findMany.mockResolvedValue([]);
+        mockPrisma.shareLink.count.mockResolvedValue(0);
+        mockPrisma.shareLink.create.mockImplementation(({ data }: any) =>
+            Promise.resolve({ ...SHARE, ...data, id: 'share-new' })
+        );
+    });
+
+    describe('createShare', () => {
+        it('shares a single album as an album link', async () => {
+            mockPrisma.album.findUnique.mockResolvedValue({ id: 'album-1' });
+
+            const res = await request(makeApp()).get('/rest/createShare.view?f=json&id=album-1&description=Hi');
+
+            expect(body(res).status).toBe('ok');
+            expect(mockPrisma.shareLink.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    entityType: 'album',
+                    entityId: 'album-1',
+                    description: 'Hi',
+                    createdBy: 'user-1',
+                }),
+            });
+            expect(body(res).shares.share[0].url).toMatch(/^https:\/\/music\.example\.com\/share\/.+/);
+        });
+
+        it('turns several ids into an ad-hoc track collection', async () => {
+            mockPrisma.track.findUnique.mockImplementation(({ where }: any) =>
+                Promise.resolve(where.id.startsWith('track') ? { id: where.id } : null)
+            );
+            mockPrisma.playlist.findUnique.mockResolvedValue({ userId: 'user-1', isPublic: false });
+            mockPrisma.playlistItem.findMany.mockResolvedValue([{ trackId: 'track-2' }, { trackId: 'track-3' }]);
+
+            await request(makeApp()).get('/rest/createShare.view?f=json&id=track-2&id=pl-1&expires=1893456000000');
+
+            expect(mockPrisma.shareLink.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    entityType: 'tracks',
+                    entityId: 'track-2',
+                    trackIds: ['track-2', 'track-3'],
+                    expiresAt: new Date(1893456000000),
+                }),
+            });
+        });
+
+        it("refuses to publish someone else's playlist on its own", async () => {
+            mockPrisma.playlist.findUnique.mockResolvedValue({ userId: 'user-2', isPublic: true });
+
+            const res = await request(makeApp()).get('/rest/createShare.view?f=json&id=pl-1');
+
+            expect(body(res).error.code).toBe(50);
+            expect(mockPrisma.shareLink.create).not.toHaveBeenCalled();
+        });
+
+        it('returns not found for unknown ids', async () => {
+            const res = await request(makeApp()).get('/rest/createShare.view?f=json&id=nope');
+
+            expect(body(res).error.code).toBe(70);
+        });
+    });
+
+    describe('getShares', () => {
+        it('lists own shares with visit count from playCount', async () => {
+            mockPrisma.shareLink.findMany.mockResolvedValue([SHARE]);
+
+            const res = await request(makeApp()).get('/rest/getShares.view?f=json');
+
+            expect(mockPrisma.shareLink.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { createdBy: 'user-1' } })
+            );
+            expect(body(res).shares.share[0]).toMatchObject({
+                id: 'share-1',
+                description: 'For Bob',
+                username: 'alice',
+                visitCount: 4,
+            });
+        });
+    });
+
+    describe('updateShare', () => {
+        it('updates description and clears expiry with expires=0', async () => {
+            mockPrisma.shareLink.findFirst.mockResolvedValue(SHARE);
+
+            await request(makeApp()).get('/rest/updateShare.view?f=json&id=share-1&description=New&expires=0');
+
+            expect(mockPrisma.shareLink.update).toHaveBeenCalledWith({
+                where: { id: 'share-1' },
+                data: { description: 'New', expiresAt: null },
+            });
+        });
+
+        it("does not touch another user's share", async () => {
+            mockPrisma.shareLink.findFirst.mockResolvedValue(null);
+
+            const res = await request(makeApp()).get('/rest/updateShare.view?f=json&id=share-1&description=x');
+
+            expect(mockPrisma.shareLink.findFirst).toHaveBeenCalledWith({
+                where: { id: 'share-1', createdBy: 'user-1' },
+            });
+            expect(body(res).error.code).toBe(70);
+            expect(mockPrisma.shareLink.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deleteShare', () => {
+        it('revokes only shares owned by the caller', async () => {
+            mockPrisma.shareLink.deleteMany.mockResolvedValue({ count: 1 });
+
+            const res = await request(makeApp()).get('/rest/deleteShare.view?f=json&id=share-1');
+
+            expect(mockPrisma.shareLink.deleteMany).toHaveBeenCalledWith({
+                where: { id: 'share-1', createdBy: 'user-1' },
+            });
+            expect(body(res).status).toBe('ok');
+        });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Subsonic Starred/Rating Route Tests
+ *
+ * star/unstar accept song, album and artist ids; setRating stores a real 1-5
+ * rating instead of toggling the liked state; getStarred2 lists starred
+ * artists and albums alongside songs, annotated with the user's ratings.
+ */
+
+jest.mock('../../utils/db', () => ({
+    prisma: {
+        likedTrack: { findMany: jest.fn() },
+        starredAlbum: { findMany: jest.fn() },
+        starredArtist: { findMany: jest.fn() },
+    },
+}));
+
+jest.mock('../../services/ratings', () => ({
+    ratingService: {
+        resolveType: jest.fn(),
+        star: jest.fn(),
+        unstar: jest.fn(),
+        setRating: jest.fn(),
+        getAnnotations: jest.fn(),
+    },
+    isValidRating: (rating: number) => Number.isInteger(rating) && rating >= 0 && rating <= 5,
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { starredRouter } from '../subsonic/starred';
+import { prisma } from '../../utils/db';
+import { ratingService } from '../../services/ratings';
+
+const mockPrisma = prisma as any;
+const mockRatings = ratingService as jest.Mocked<typeof ratingService>;
+
+function makeApp() {
+    const app = express();
+    app.use((req, _res, next) => {
+        req.user = { id: 'user-1', username: 'alice', role: 'user' } as any;
+        next();
+    });
+    app.use('/rest', starredRouter);
+    return app;
+}
+
+function body(res: request.Response) {
+    return res.body['subsonic-response'];
+}
+
+const ARTIST = {
+    id: 'artist-1',
+    name: 'Radiohead',
+    displayName: null,
+    heroUrl: null,
+    libraryAlbumCount: 3,
+    genres: ['rock'],
+    userGenres: null,
+};
+
+describe('Subsonic starring and ratings', () => {
+    beforeEach(() => {
+        mockRatings.resolveType.mockResolvedValue(null);
+        mockRatings.star.mockResolvedValue(undefined);
+        mockRatings.getAnnotations.mockResolvedValue(new Map());
+        mockPrisma.likedTrack.findMany.mockResolvedValue([]);
+        mockPrisma.starredAlbum.findMany.mockResolvedValue([]);
+        mockPrisma.starredArtist.findMany.mockResolvedValue([]);
+    });
+
+    it('stars albums and artists via albumId/artistId and resolves bare ids', async () => {
+        mockRatings.resolveType.mockResolvedValue('track');
+
+        const res = await request(makeApp()).get(
+            '/rest/star.view?f=json&id=track-1&albumId=album-1&artistId=artist-1'
+        );
+
+        expect(body(res).status).toBe('ok');
+        expect(mockRatings.star).toHaveBeenCalledWith('user-1', 'track', 'track-1');
+        expect(mockRatings.star).toHaveBeenCalledWith('user-1', 'album', 'album-1');
+        expect(mockRatings.star).toHaveBeenCalledWith('user-1', 'artist', 'artist-1');
+    });
+
+    it('stores the rating for the resolved entity type', async () => {
+        mockRatings.resolveType.mockResolvedValue('album');
+
+        const res = await request(makeApp()).get('/rest/setRating.view?f=json&id=album-1&rating=4');
+
+        expect(body(res).status).toBe('ok');
+        expect(mockRatings.setRating).toHaveBeenCalledWith('user-1', 'album', 'album-1', 4);
+    });
+
+    it('rejects out-of-range ratings and unknown ids', async () => {
+        let res = await request(makeApp()).get('/rest/setRating.view?f=json&id=album-1&rating=9');
+        expect(body(res).error.code).toBe(0);
+
+        res = await request(makeApp()).get('/rest/setRating.view?f=json&id=nope&rating=3');
+        expect(body(res).error.code).toBe(70);
+        expect(mockRatings.setRating).not.toHaveBeenCalled();
+    });
+
+    it('lists starred artists with their ratings in getStarred2', async () => {
+        const starredAt = new Date('2026-02-01T00:00:00Z');
+        mockPrisma.starredArtist.findMany.mockResolvedValue([{ artist: ARTIST, starredAt }]);
+        mockRatings.getAnnotations.mockImplementation(async (_userId, type) =>
+            type === 'artist' ? new Map([['artist-1', { starredAt, rating: 5 }]]) : new Map()
+        );
+
+        const res = await request(makeApp()).get('/rest/getStarred2.view?f=json');
+
+        expect(body(res).starred2.artist[0]).toMatchObject({
+            id: 'artist-1',
+            name: 'Radiohead',
+            starred: starredAt.toISOString(),
+            userRating: 5,
+        });
+        expect(body(res).starred2.song).toBeUndefined();
+    });
+});
@@ -3,6 +3,8 @@ import { logger } from "../utils/logger";
 import { requireAuth } from "../middleware/auth";
 import { prisma } from "../utils/db";
 import crypto from "crypto";
+import { z } from "zod";
+import { normalizeProfileKey } from "../services/transcodeProfiles";
 
 const router = Router();
 
@@ -62,6 +64,7 @@ router.get("/", async (req, res) => {
             select: {
                 id: true,
                 name: true,
+                transcodeProfile: true,
                 lastUsed: true,
                 createdAt: true,
                 // Don't return the actual key for security!
@@ -76,6 +79,43 @@ router.get("/", async (req, res) => {
     }
 });
 
+const updateKeySchema = z.object({
+    // null falls back to the user's own profile
+    transcodeProfile: z
+        .string()
+        .refine((key) => normalizeProfileKey(key) !== null, "Unknown transcoding profile")
+        .transform((key) => normalizeProfileKey(key)!)
+        .nullable(),
+});
+
+router.patch("/:id", async (req, res) => {
+    try {
+        const userId = req.user?.id || req.session?.userId;
+        if (!userId) {
+            return res.status(401).json({ error: "Not authenticated" });
+        }
+        const data = updateKeySchema.parse(req.body);
+
+        // Only allow users to change their own keys
+        const updated = await prisma.apiKey.updateMany({
+            where: { id: req.params.id, userId },
+            data,
+        });
+
+        if (updated.count === 0) {
+            return res.status(404).json({ error: "API key not found" });
+        }
+
+        res.json({ id: req.params.id, ...data });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: "Invalid API key settings", details: error.errors });
+        }
+        logger.error("Update API key error:", error);
+        res.status(500).json({ error: "Failed to update API key" });
+    }
+});
+
 router.delete("/:id", async (req, res) => {
     try {
         // Use req.user.id (set by requireAuth middleware) - supports both session and JWT auth
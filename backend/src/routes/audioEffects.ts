@@ -0,0 +1,72 @@
+import { Router, Request } from "express";
+import { z } from "zod";
+import { logger } from "../utils/logger";
+import { requireAuth } from "../middleware/auth";
+import {
+    audioEffectsSchema,
+    DeviceNotFoundError,
+    getAudioEffects,
+    resetDeviceAudioEffects,
+    saveAudioEffects,
+} from "../services/audioEffects";
+
+const router = Router();
+
+router.use(requireAuth);
+
+const saveSchema = z.object({
+    deviceId: z.string().min(1).optional(),
+    effects: audioEffectsSchema,
+});
+
+// An explicit device wins; otherwise a linked device gets its own settings
+// and the web app (signed in with a session or JWT) gets the account's
+function targetDevice(req: Request, requested: unknown): string | undefined {
+    return typeof requested === "string" && requested ? requested : req.apiKeyId;
+}
+
+// GET /audio-effects?deviceId=
+router.get("/", async (req, res) => {
+    try {
+        const deviceId = targetDevice(req, req.query.deviceId);
+        res.json(await getAudioEffects(req.user!.id, deviceId));
+    } catch (error) {
+        if (error instanceof DeviceNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        logger.error("Get audio effects error:", error);
+        res.status(500).json({ error: "Failed to get audio effects" });
+    }
+});
+
+// PUT /audio-effects
+router.put("/", async (req, res) => {
+    try {
+        const { deviceId, effects } = saveSchema.parse(req.body);
+        res.json(await saveAudioEffects(req.user!.id, effects, targetDevice(req, deviceId)));
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: "Invalid audio effects", details: error.errors });
+        }
+        if (error instanceof DeviceNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        logger.error("Save audio effects error:", error);
+        res.status(500).json({ error: "Failed to save audio effects" });
+    }
+});
+
+// DELETE /audio-effects/devices/:deviceId - follow the account's settings again
+router.delete("/devices/:deviceId", async (req, res) => {
+    try {
+        res.json(await resetDeviceAudioEffects(req.user!.id, req.params.deviceId));
+    } catch (error) {
+        if (error instanceof DeviceNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        logger.error("Reset device audio effects error:", error);
+        res.status(500).json({ error: "Failed to reset audio effects" });
+    }
+});
+
+export default router;
@@ -5,10 +5,13 @@ import { logger } from "../utils/logger";
 import { safeError } from "../utils/errors";
 import { audiobookshelfService } from "../services/audiobookshelf";
 import { audiobookCacheService } from "../services/audiobookCache";
+import { audiobookScannerService } from "../services/audiobookScanner";
+import { audiobookProgressService } from "../services/audiobookProgress";
+import { getAudioStreamingService } from "../services/audioStreaming";
 import { prisma } from "../utils/db";
 import { requireAuthOrToken } from "../middleware/auth";
 import { apiLimiter } from "../middleware/rateLimiter";
-import { getSystemSettings } from "../utils/systemSettings";
+import { getAudiobookSources, getSystemSettings } from "../utils/systemSettings";
 import { notificationService } from "../services/notificationService";
 import { config } from "../config";
 
@@ -27,7 +30,7 @@ router.get(
         try {
             const settings = await getSystemSettings();
 
-            if (!settings?.audiobookshelfEnabled) {
+            if (getAudiobookSources(settings).length === 0) {
                 return res.status(200).json([]);
             }
 
@@ -67,21 +70,36 @@ router.get(
 
 /**
  * POST /audiobooks/sync
- * Manually trigger audiobook sync from Audiobookshelf
+ * Manually trigger audiobook sync from Audiobookshelf and/or a local folder scan
  * Fetches all audiobooks and caches metadata + cover images locally
  */
 router.post("/sync", requireAuthOrToken, apiLimiter, async (req, res) => {
     try {
         const settings = await getSystemSettings();
+        const sources = getAudiobookSources(settings);
 
-        if (!settings?.audiobookshelfEnabled) {
+        if (sources.length === 0) {
             return res
                 .status(400)
-                .json({ error: "Audiobookshelf not enabled" });
+                .json({ error: "Audiobooks not enabled" });
         }
 
         logger.debug("[Audiobooks] Starting manual audiobook sync...");
-        const result = await audiobookCacheService.syncAll();
+        const result = { synced: 0, failed: 0, skipped: 0, errors: [] as string[] };
+        if (sources.includes("audiobookshelf")) {
+            const absResult = await audiobookCacheService.syncAll();
+            result.synced += absResult.synced;
+            result.failed += absResult.failed;
+            result.skipped += absResult.skipped;
+            result.errors.push(...absResult.errors);
+        }
+        if (sources.includes("local") && settings?.audiobookPath) {
+            const localResult = await audiobookScannerService.scan(settings.audiobookPath);
+            result.synced += localResult.synced;
+            result.failed += localResult.failed;
+            result.skipped += localResult.skipped;
+            result.errors.push(...localResult.errors);
+        }
 
         // Check how many have series after sync
         const seriesCount = await prisma.audiobook.count({
@@ -185,8 +203,9 @@ router.get("/debug-series", requireAuthOrToken, async (_req, res) => {
 router.get("/search", requireAuthOrToken, apiLimiter, async (req, res) => {
     try {
         const settings = await getSystemSettings();
+        const sources = getAudiobookSources(settings);
 
-        if (!settings?.audiobookshelfEnabled) {
+        if (sources.length === 0) {
             return res.status(200).json([]);
         }
 
@@ -196,7 +215,42 @@ router.get("/search", requireAuthOrToken, apiLimiter, async (req, res) => {
             return res.status(400).json({ error: "Query parameter required" });
         }
 
-        const results = await audiobookshelfService.searchAudiobooks(q);
+        const results = sources.includes("audiobookshelf")
+            ? await audiobookshelfService.searchAudiobooks(q)
+            : [];
+
+        // Local books are returned in the same shape as Audiobookshelf's results
+        if (sources.includes("local")) {
+            const localBooks = await prisma.audiobook.findMany({
+                where: {
+                    source: "local",
+                    OR: [
+                        { title: { contains: q, mode: "insensitive" } },
+                        { author: { contains: q, mode: "insensitive" } },
+                        { series: { contains: q, mode: "insensitive" } },
+                    ],
+                },
+                orderBy: { title: "asc" },
+                take: 25,
+            });
+            results.push(
+                ...localBooks.map((book) => ({
+                    libraryItem: {
+                        id: book.id,
+                        media: {
+                            duration: book.duration,
+                            metadata: {
+                                title: book.title,
+                                authorName: book.author,
+                                narratorName: book.narrator,
+                                seriesName: book.series,
+                            },
+                        },
+                    },
+                }))
+            );
+        }
+
         res.json(results);
     } catch (error) {
         safeError(res, "Failed to search audiobooks", error);
@@ -211,8 +265,9 @@ router.get("/", requireAuthOrToken, apiLimiter, async (req, res) => {
     logger.debug("[Audiobooks] GET / - fetching audiobooks list");
     try {
         const settings = await getSystemSettings();
+        const sources = getAudiobookSources(settings);
 
-        if (!settings?.audiobookshelfEnabled) {
+        if (sources.length === 0) {
             return res.status(200).json({
                 configured: false,
                 enabled: false,
@@ -222,6 +277,7 @@ router.get("/", requireAuthOrToken, apiLimiter, async (req, res) => {
 
         // Read from cached database instead of hitting Audiobookshelf API
         const audiobooks = await prisma.audiobook.findMany({
+            where: { source: { in: sources } },
             orderBy: { title: "asc" },
         });
 
@@ -297,8 +353,9 @@ router.get(
     async (req, res) => {
         try {
             const settings = await getSystemSettings();
+            const sources = getAudiobookSources(settings);
 
-            if (!settings?.audiobookshelfEnabled) {
+            if (sources.length === 0) {
                 return res.status(200).json([]);
             }
 
@@ -309,6 +366,7 @@ router.get(
             const audiobooks = await prisma.audiobook.findMany({
                 where: {
                     series: decodedSeriesName,
+                    source: { in: sources },
                 },
                 orderBy: {
                     seriesSequence: "asc",
@@ -484,8 +542,9 @@ router.get("/:id/cover", async (req, res) => {
 router.get("/:id", requireAuthOrToken, apiLimiter, async (req, res) => {
     try {
         const settings = await getSystemSettings();
+        const sources = getAudiobookSources(settings);
 
-        if (!settings?.audiobookshelfEnabled) {
+        if (sources.length === 0) {
             return res.status(200).json({ configured: false, enabled: false });
         }
 
@@ -494,13 +553,16 @@ router.get("/:id", requireAuthOrToken, apiLimiter, async (req, res) => {
         // Try to get from cache first
         let audiobook = await prisma.audiobook.findUnique({
             where: { id },
+            include: { files: { orderBy: { index: "asc" } } },
         });
 
-        // If not cached or stale, fetch from API and cache it
+        // If not cached or stale, fetch from API and cache it (local books are kept fresh by the scanner)
         if (
-            !audiobook ||
-            audiobook.lastSyncedAt <
-                new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+            sources.includes("audiobookshelf") &&
+            (!audiobook ||
+                (audiobook.source !== "local" &&
+                    audiobook.lastSyncedAt <
+                        new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)))
         ) {
             logger.debug(
                 `[AUDIOBOOK] Audiobook ${id} not cached or stale, fetching...`
@@ -508,21 +570,38 @@ router.get("/:id", requireAuthOrToken, apiLimiter, async (req, res) => {
             audiobook = await audiobookCacheService.getAudiobook(id);
         }
 
-        if (!audiobook) {
+        if (!audiobook || !sources.includes(audiobook.source)) {
             return res.status(404).json({ error: "Audiobook not found" });
         }
 
-        // Get chapters and audio files from API (these change less frequently)
         let absBook;
-        try {
-            absBook = await audiobookshelfService.getAudiobook(id);
-        } catch (apiError: any) {
-            logger.warn(
-                `  Failed to fetch live data from Audiobookshelf for ${id}, using cached data only:`,
-                apiError.message
-            );
-            // Continue with cached data only if API call fails
-            absBook = { media: { chapters: [], audioFiles: [] } };
+        if (audiobook.source === "local") {
+            // Local books carry their own chapter list and file layout
+            absBook = {
+                media: {
+                    chapters: audiobook.chapters ?? [],
+                    audioFiles: audiobook.files.map((file) => ({
+                        index: file.index,
+                        duration: file.duration,
+                        mimeType: file.mimeType,
+                        metadata: { filename: path.basename(file.path) },
+                    })),
+                    tracks: audiobook.files,
+                },
+            };
+        } else {
+            // Get chapters and audio files from API (these change less frequently)
+            try {
+                absBook = await audiobookshelfService.getAudiobook(id);
+                await audiobookCacheService.storeTrackLayout(id, absBook.media?.tracks ?? []);
+            } catch (apiError: any) {
+                logger.warn(
+                    `  Failed to fetch live data from Audiobookshelf for ${id}, using cached data only:`,
+                    apiError.message
+                );
+                // Continue with cached data only if API call fails
+                absBook = { media: { chapters: [], audioFiles: [] } };
+            }
         }
 
         // Get user's progress
@@ -575,7 +654,7 @@ router.get("/:id", requireAuthOrToken, apiLimiter, async (req, res) => {
 
 /**
  * GET /audiobooks/:id/stream
- * Proxy the audiobook stream with authentication
+ * Serve a local audiobook file, or proxy the Audiobookshelf stream with authentication
  */
 router.get("/:id/stream", requireAuthOrToken, async (req, res) => {
     try {
@@ -585,18 +664,57 @@ router.get("/:id/stream", requireAuthOrToken, async (req, res) => {
         logger.debug(`[Audiobook Stream] User: ${req.user?.id || "unknown"}`);
 
         const settings = await getSystemSettings();
+        const sources = getAudiobookSources(settings);
 
-        if (!settings?.audiobookshelfEnabled) {
-            logger.debug("[Audiobook Stream] Audiobookshelf not enabled");
+        if (sources.length === 0) {
+            logger.debug("[Audiobook Stream] Audiobooks not enabled");
             return res
                 .status(503)
-                .json({ error: "Audiobookshelf is not configured" });
+                .json({ error: "Audiobooks are not configured" });
         }
 
         const { id } = req.params;
         const trackIndex = Math.max(0, parseInt(req.query.trackIndex as string) || 0);
         const rangeHeader = req.headers.range as string | undefined;
 
+        const localBook = await prisma.audiobook.findFirst({
+            where: { id, source: "local" },
+            select: { id: true },
+        });
+        if (localBook) {
+            if (!sources.includes("local")) {
+                return res.status(404).json({ error: "Audiobook not found" });
+            }
+            const file =
+                (await prisma.audiobookFile.findUnique({
+                    where: { audiobookId_index: { audiobookId: id, index: trackIndex } },
+                })) ??
+                (await prisma.audiobookFile.findFirst({
+                    where: { audiobookId: id },
+                    orderBy: { index: "asc" },
+                }));
+            if (!file || !fs.existsSync(file.path)) {
+                return res.status(404).json({ error: "Audio file not found" });
+            }
+
+            const streamingService = getAudioStreamingService(
+                config.music.musicPath,
+                config.music.transcodeCachePath,
+                config.music.transcodeCacheMaxGb
+            );
+            await streamingService.streamFileWithRangeSupport(
+                req,
+                res,
+                file.path,
+                file.mimeType || streamingService.getMimeType(file.path)
+            );
+            return;
+        }
+
+        if (!sources.includes("audiobookshelf")) {
+            return res.status(404).json({ error: "Audiobook not found" });
+        }
+
         logger.debug(
             `[Audiobook Stream] Fetching stream for ${id}, track: ${trackIndex}, range: ${
                 rangeHeader || "none"
@@ -666,10 +784,10 @@ router.post(
         try {
             const settings = await getSystemSettings();
 
-            if (!settings?.audiobookshelfEnabled) {
+            if (getAudiobookSources(settings).length === 0) {
                 return res.status(200).json({
                     success: false,
-                    message: "Audiobookshelf is not configured",
+                    message: "Audiobooks are not configured",
                 });
             }
 
@@ -715,94 +833,14 @@ router.post(
             }
             logger.debug(`   Finished: ${!!isFinished}`);
 
-            // Pull cached metadata to avoid hitting Audiobookshelf for every update
-            const [cachedAudiobook, existingProgress] = await Promise.all([
-                prisma.audiobook.findUnique({
-                    where: { id },
-                    select: {
-                        title: true,
-                        author: true,
-                        coverUrl: true,
-                        duration: true,
-                        libraryId: true,
-                        localCoverPath: true,
-                    },
-                }),
-                prisma.audiobookProgress.findUnique({
-                    where: {
-                        userId_audiobookshelfId: {
-                            userId: req.user!.id,
-                            audiobookshelfId: id,
-                        },
-                    },
-                }),
-            ]);
-
-            const fallbackDuration =
-                durationValue ||
-                cachedAudiobook?.duration ||
-                existingProgress?.duration ||
-                0;
-
-            const metadataTitle =
-                cachedAudiobook?.title ||
-                existingProgress?.title ||
-                "Unknown Title";
-            const metadataAuthor =
-                cachedAudiobook?.author ||
-                existingProgress?.author ||
-                "Unknown Author";
-            const metadataCover =
-                cachedAudiobook?.coverUrl || existingProgress?.coverUrl || null;
-
-            // Update progress in our database
-            const progress = await prisma.audiobookProgress.upsert({
-                where: {
-                    userId_audiobookshelfId: {
-                        userId: req.user!.id,
-                        audiobookshelfId: id,
-                    },
-                },
-                create: {
-                    userId: req.user!.id,
-                    audiobookshelfId: id,
-                    title: metadataTitle,
-                    author: metadataAuthor,
-                    coverUrl: metadataCover,
-                    currentTime,
-                    duration: fallbackDuration,
-                    isFinished: !!isFinished,
-                    lastPlayedAt: new Date(),
-                },
-                update: {
-                    title: metadataTitle,
-                    author: metadataAuthor,
-                    coverUrl: metadataCover,
-                    currentTime,
-                    duration: fallbackDuration,
-                    isFinished: !!isFinished,
-                    lastPlayedAt: new Date(),
-                },
-            });
-
-            logger.debug(`   Progress saved to database`);
+            // Saves locally and pushes to Audiobookshelf for Audiobookshelf books
+            const progress = await audiobookProgressService.saveProgress(
+                req.user!.id,
+                id,
+                { currentTime, duration: durationValue, isFinished: !!isFinished }
+            );
 
-            // Also update progress in Audiobookshelf
-            try {
-                await audiobookshelfService.updateProgress(
-                    id,
-                    currentTime,
-                    fallbackDuration,
-                    isFinished
-                );
-                logger.debug(`   Progress synced to Audiobookshelf`);
-            } catch (error) {
-                logger.error(
-                    "Failed to sync progress to Audiobookshelf:",
-                    error
-                );
-                // Continue anyway - local progress is saved
-            }
+            logger.debug(`   Progress saved`);
 
             res.json({
                 success: true,
@@ -833,10 +871,10 @@ router.delete(
         try {
             const settings = await getSystemSettings();
 
-            if (!settings?.audiobookshelfEnabled) {
+            if (getAudiobookSources(settings).length === 0) {
                 return res.status(200).json({
                     success: false,
-                    message: "Audiobookshelf is not configured",
+                    message: "Audiobooks are not configured",
                 });
             }
 
@@ -846,27 +884,10 @@ router.delete(
             logger.debug(`   User: ${req.user!.username}`);
             logger.debug(`   Audiobook ID: ${id}`);
 
-            // Delete progress from our database
-            await prisma.audiobookProgress.deleteMany({
-                where: {
-                    userId: req.user!.id,
-                    audiobookshelfId: id,
-                },
-            });
-
-            logger.debug(`   Progress removed from database`);
+            // Also resets it in Audiobookshelf for Audiobookshelf books
+            await audiobookProgressService.removeProgress(req.user!.id, id);
 
-            // Also remove progress from Audiobookshelf
-            try {
-                await audiobookshelfService.updateProgress(id, 0, 0, false);
-                logger.debug(`   Progress reset in Audiobookshelf`);
-            } catch (error) {
-                logger.error(
-                    "Failed to reset progress in Audiobookshelf:",
-                    error
-                );
-                // Continue anyway - local progress is deleted
-            }
+            logger.debug(`   Progress removed`);
 
             res.json({
                 success: true,
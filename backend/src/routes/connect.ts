@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { z } from "zod";
+import { logger } from "../utils/logger";
+import { requireAuth } from "../middleware/auth";
+import { eventBus } from "../services/eventBus";
+import { connectSessions, ConnectDeviceNotFoundError } from "../services/connectSessions";
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Same shape and limits as the queue saved in /playback-state
+const queueTrackSchema = z.object({
+    id: z.string().min(1),
+    title: z.string().transform((title) => title.substring(0, 500)),
+    duration: z.number().min(0),
+    artist: z.object({
+        id: z.string().optional(),
+        name: z.string().transform((name) => name.substring(0, 200)),
+    }),
+    album: z.object({
+        id: z.string().optional(),
+        title: z.string().transform((title) => title.substring(0, 500)),
+        coverArt: z
+            .string()
+            .max(1000)
+            .nullish()
+            .transform((coverArt) => coverArt ?? undefined),
+    }),
+});
+
+const queueSchema = z.array(queueTrackSchema).min(1).max(2000);
+const deviceIdSchema = z.string().min(1).max(64);
+
+const commandSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("play") }),
+    z.object({ type: z.literal("pause") }),
+    z.object({ type: z.literal("next") }),
+    z.object({ type: z.literal("previous") }),
+    z.object({ type: z.literal("seek"), position: z.number().min(0) }),
+    z.object({ type: z.literal("volume"), volume: z.number().min(0).max(1) }),
+    z.object({
+        type: z.literal("queue"),
+        tracks: queueSchema,
+        startIndex: z.number().int().min(0).default(0),
+    }),
+    // Asks the target to hand its playback over to another device...
+    z.object({ type: z.literal("transfer"), toDeviceId: deviceIdSchema }),
+    // ...which it does by sending that device its queue and position
+    z.object({
+        type: z.literal("takeover"),
+        fromDeviceId: deviceIdSchema,
+        tracks: queueSchema,
+        startIndex: z.number().int().min(0),
+        position: z.number().min(0),
+        isShuffle: z.boolean().default(false),
+    }),
+]);
+
+const stateSchema = z.object({
+    playbackType: z.enum(["track", "audiobook", "podcast", "radio"]).nullable(),
+    title: z.string().max(500).nullable(),
+    subtitle: z.string().max(500).nullable(),
+    coverUrl: z.string().max(1000).nullable(),
+    isPlaying: z.boolean(),
+    position: z.number().min(0),
+    duration: z.number().min(0),
+    volume: z.number().min(0).max(1),
+});
+
+// GET /connect/devices - players open right now
+router.get("/devices", (req, res) => {
+    res.json({ devices: connectSessions.list(req.user!.id) });
+});
+
+// POST /connect/devices/:deviceId/commands
+router.post("/devices/:deviceId/commands", (req, res) => {
+    try {
+        const userId = req.user!.id;
+        const { deviceId } = req.params;
+        const command = commandSchema.parse(req.body);
+
+        if (!connectSessions.has(userId, deviceId)) {
+            throw new ConnectDeviceNotFoundError();
+        }
+        if (command.type === "transfer" && !connectSessions.has(userId, command.toDeviceId)) {
+            throw new ConnectDeviceNotFoundError();
+        }
+
+        // Every player of the user receives this; only the target acts on it
+        eventBus.emit({
+            type: "connect:command",
+            userId,
+            payload: { targetDeviceId: deviceId, command },
+        });
+        res.status(202).json({ ok: true });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: "Invalid command", details: error.errors });
+        }
+        if (error instanceof ConnectDeviceNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        logger.error("Connect command error:", error);
+        res.status(500).json({ error: "Failed to send command" });
+    }
+});
+
+// POST /connect/devices/:deviceId/state - what a player is doing, for the others to show
+router.post("/devices/:deviceId/state", (req, res) => {
+    try {
+        const state = stateSchema.parse(req.body);
+        res.json(connectSessions.updateState(req.user!.id, req.params.deviceId, state));
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: "Invalid state", details: error.errors });
+        }
+        if (error instanceof ConnectDeviceNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        logger.error("Connect state error:", error);
+        res.status(500).json({ error: "Failed to update state" });
+    }
+});
+
+export default router;
@@ -1941,10 +1941,11 @@ router.delete("/clear", async (req, res) => {
             );
         }
 
-        // Clean up orphaned artists (artists with no albums)
+        // Clean up orphaned artists (no albums, not credited on any track)
         const orphanedArtists = await prisma.artist.findMany({
             where: {
                 albums: { none: {} },
+                credits: { none: {} },
             },
         });
 
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import { eventBus, SSEEvent } from "../services/eventBus";
+import { connectSessions, ConnectDeviceType } from "../services/connectSessions";
 import { logger } from "../utils/logger";
 import { redisClient } from "../utils/redis";
 
@@ -7,10 +8,25 @@ const router = Router();
 
 const connections = new Map<string, Set<Response>>();
 
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const DEVICE_TYPES: ConnectDeviceType[] = ["web", "tv", "mobile"];
+
+// Players pass who they are so other sessions can see and control them;
+// anything else that listens for events (or sends junk) stays anonymous
+function parseDevice(query: Request["query"]) {
+  const id = typeof query.deviceId === "string" ? query.deviceId : "";
+  if (!DEVICE_ID_PATTERN.test(id)) return null;
+
+  const name = typeof query.deviceName === "string" ? query.deviceName.trim().slice(0, 80) : "";
+  const type = DEVICE_TYPES.find((t) => t === query.deviceType) ?? "web";
+  return { id, name: name || "Web player", type };
+}
+
 /**
- * GET /api/events?ticket=<uuid>
+ * GET /api/events?ticket=<uuid>[&deviceId=&deviceName=&deviceType=]
  * SSE endpoint for real-time event streaming.
  * Auth via short-lived, one-time-use ticket obtained from POST /api/events/ticket.
+ * With device details the player is listed for Kima Connect while connected.
  */
 router.get("/", async (req: Request, res: Response) => {
   const ticket = req.query.ticket as string | undefined;
@@ -69,6 +85,12 @@ router.get("/", async (req: Request, res: Response) => {
   };
   const unsubscribe = eventBus.subscribe(listener);
 
+  // Subscribed first so the device gets its own entry in the device list
+  const device = parseDevice(req.query);
+  if (device) {
+    connectSessions.join(userId, device);
+  }
+
   const heartbeat = setInterval(() => {
     if (!safeSend(`: heartbeat\n\n`)) {
       clearInterval(heartbeat);
@@ -79,6 +101,9 @@ router.get("/", async (req: Request, res: Response) => {
   req.on("close", () => {
     clearInterval(heartbeat);
     unsubscribe();
+    if (device) {
+      connectSessions.leave(userId, device.id);
+    }
     const userConns = connections.get(userId);
     if (userConns) {
       userConns.delete(res);
@@ -4,6 +4,9 @@ import { logger } from "../../utils/logger";
 import { deezerService } from "../../services/deezer";
 import { lidarrService } from "../../services/lidarr";
 import { safeError } from "../../utils/errors";
+import { ratingService } from "../../services/ratings";
+import { trackSourcePath } from "../../services/cueSheet";
+import { parseRatingFilter, annotationFields } from "./ratings";
 import { config } from "../../config";
 import path from "path";
 import fs from "fs";
@@ -66,6 +69,17 @@ router.get("/albums", async (req, res) => {
       }
     }
 
+    const userId = req.user!.id;
+    const ratingFilter = parseRatingFilter(req.query);
+    if (ratingFilter.starred) {
+      where.starredBy = { some: { userId } };
+    }
+    if (ratingFilter.minRating) {
+      where.ratings = {
+        some: { userId, rating: { gte: ratingFilter.minRating } },
+      };
+    }
+
     const [albumsData, total] = await Promise.all([
       prisma.album.findMany({
         where,
@@ -85,9 +99,15 @@ router.get("/albums", async (req, res) => {
       prisma.album.count({ where }),
     ]);
 
+    const annotations = await ratingService.getAnnotations(
+      userId,
+      "album",
+      albumsData.map((album) => album.id),
+    );
     const albums = albumsData.map((album) => ({
       ...album,
       coverArt: album.coverUrl,
+      ...annotationFields(annotations.get(album.id)),
     }));
 
     res.json({
@@ -174,12 +194,19 @@ router.get("/albums/:id", async (req, res) => {
       }
     }
 
+    const annotations = await ratingService.getAnnotations(
+      req.user!.id,
+      "album",
+      [album.id],
+    );
+
     res.json({
       ...album,
       artist: artistData,
       owned: isOwned,
       coverArt: album.coverUrl,
       missingTracks,
+      ...annotationFields(annotations.get(album.id)),
     });
   } catch (error) {
     logger.error("Get album error:", error);
@@ -209,9 +236,10 @@ router.delete("/albums/:id", async (req, res) => {
     for (const track of album.tracks) {
       if (track.filePath) {
         try {
+          // CUE tracks share one source file; it goes with the first of them
           const absolutePath = path.join(
             config.music.musicPath,
-            track.filePath,
+            trackSourcePath(track),
           );
 
           if (fs.existsSync(absolutePath)) {
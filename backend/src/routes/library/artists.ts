@@ -17,6 +17,14 @@ import {
   getArtistDisplaySummary,
 } from "../../utils/metadataOverrides";
 import { safeError } from "../../utils/errors";
+import { ratingService } from "../../services/ratings";
+import { trackSourcePath } from "../../services/cueSheet";
+import { trackCreditService } from "../../services/trackCredits";
+import {
+  parseRatingFilter,
+  annotationFields,
+  RatingFilter,
+} from "./ratings";
 import pLimit from "p-limit";
 
 const ARTIST_SORT_MAP: Record<string, any> = {
@@ -29,7 +37,12 @@ const MAX_LIMIT = 10000;
 
 const router = Router();
 
-function buildArtistListWhereSql(filter: string, query: string): Prisma.Sql {
+function buildArtistListWhereSql(
+  filter: string,
+  query: string,
+  userId: string,
+  ratingFilter: RatingFilter,
+): Prisma.Sql {
   const clauses: Prisma.Sql[] = [];
 
   if (filter === "owned") {
@@ -50,6 +63,18 @@ function buildArtistListWhereSql(filter: string, query: string): Prisma.Sql {
     clauses.push(Prisma.sql`a."name" ILIKE ${`%${query}%`}`);
   }
 
+  if (ratingFilter.starred) {
+    clauses.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "StarredArtist" sa WHERE sa."artistId" = a.id AND sa."userId" = ${userId})`,
+    );
+  }
+
+  if (ratingFilter.minRating) {
+    clauses.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "ArtistRating" ar WHERE ar."artistId" = a.id AND ar."userId" = ${userId} AND ar.rating >= ${ratingFilter.minRating})`,
+    );
+  }
+
   if (clauses.length === 0) {
     return Prisma.empty;
   }
@@ -96,10 +121,26 @@ router.get("/artists", async (req, res) => {
       where.name = { contains: query as string, mode: "insensitive" };
     }
 
+    const userId = req.user!.id;
+    const ratingFilter = parseRatingFilter(req.query);
+    if (ratingFilter.starred) {
+      where.starredBy = { some: { userId } };
+    }
+    if (ratingFilter.minRating) {
+      where.ratings = {
+        some: { userId, rating: { gte: ratingFilter.minRating } },
+      };
+    }
+
     const [artists, total] = await prisma.$transaction(
       async (tx) => {
         if (sortBy === "name" || sortBy === "name-desc") {
-          const whereSql = buildArtistListWhereSql(filter as string, query as string);
+          const whereSql = buildArtistListWhereSql(
+            filter as string,
+            query as string,
+            userId,
+            ratingFilter,
+          );
           const direction = sortBy === "name-desc"
             ? Prisma.sql`DESC`
             : Prisma.sql`ASC`;
@@ -183,6 +224,12 @@ router.get("/artists", async (req, res) => {
       })),
     );
 
+    const annotations = await ratingService.getAnnotations(
+      userId,
+      "artist",
+      artists.map((a) => a.id),
+    );
+
     const artistsWithImages = artists.map((artist) => {
       const coverArt = imageMap.get(artist.id) || artist.heroUrl || null;
 
@@ -201,6 +248,7 @@ router.get("/artists", async (req, res) => {
         coverArt,
         albumCount,
         trackCount: artist.totalTrackCount,
+        ...annotationFields(annotations.get(artist.id)),
       };
     });
 
@@ -874,6 +922,8 @@ router.get("/artists/:id", async (req, res) => {
       }
     }
 
+    const appearsOn = await trackCreditService.getAppearsOn(artist.id);
+
     res.json({
       ...artist,
       mbid: artist.mbid?.startsWith("temp-") ? null : artist.mbid,
@@ -882,6 +932,7 @@ router.get("/artists/:id", async (req, res) => {
       genres: getMergedGenres(artist),
       albums: albumsWithOwnership,
       topTracks,
+      appearsOn,
       similarArtists,
     });
   } catch (error) {
@@ -920,7 +971,7 @@ router.delete("/artists/:id", async (req, res) => {
           try {
             const absolutePath = path.join(
               config.music.musicPath,
-              track.filePath,
+              trackSourcePath(track),
             );
 
             if (fs.existsSync(absolutePath)) {
@@ -9,6 +9,7 @@ import tracksRouter from "./tracks";
 import streamingRouter from "./streaming";
 import coverArtRouter from "./coverArt";
 import backfillRouter from "./backfill";
+import ratingsRouter from "./ratings";
 
 const router = Router();
 
@@ -16,12 +17,12 @@ const router = Router();
 router.use(requireAuthOrToken);
 
 // Apply API rate limiter to routes that need it
-// Skip rate limiting for high-traffic endpoints (cover-art, streaming)
+// Skip rate limiting for high-traffic endpoints (cover-art, streaming, HLS segments)
 router.use((req, res, next) => {
   if (req.path.startsWith("/cover-art")) {
     return next();
   }
-  if (req.path.includes("/stream")) {
+  if (req.path.includes("/stream") || req.path.includes("/hls/")) {
     return next();
   }
   return apiLimiter(req, res, next);
@@ -34,5 +35,6 @@ router.use(tracksRouter);
 router.use(streamingRouter);
 router.use(coverArtRouter);
 router.use(backfillRouter);
+router.use(ratingsRouter);
 
 export default router;
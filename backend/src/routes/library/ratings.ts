@@ -0,0 +1,112 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../../utils/db";
+import { safeError } from "../../utils/errors";
+import {
+  ratingService,
+  RatableType,
+  Annotation,
+  MAX_RATING,
+} from "../../services/ratings";
+
+const router = Router();
+
+const ENTITY_TYPES: Record<string, RatableType> = {
+  tracks: "track",
+  albums: "album",
+  artists: "artist",
+};
+
+const ratingSchema = z.object({
+  rating: z.number().int().min(0).max(MAX_RATING),
+});
+
+export interface RatingFilter {
+  starred: boolean;
+  minRating: number | null;
+}
+
+/**
+ * Reads the `starred=true` and `minRating=N` list filters shared by
+ * GET /albums, /artists and /tracks
+ */
+export function parseRatingFilter(query: Record<string, unknown>): RatingFilter {
+  const minRating = parseInt(query.minRating as string, 10);
+  return {
+    starred: query.starred === "true",
+    minRating:
+      Number.isInteger(minRating) && minRating >= 1
+        ? Math.min(minRating, MAX_RATING)
+        : null,
+  };
+}
+
+/**
+ * Flattens an annotation into the `starred`/`userRating` fields list
+ * endpoints return alongside each item
+ */
+export function annotationFields(annotation: Annotation | undefined) {
+  return {
+    starred: !!annotation?.starredAt,
+    userRating: annotation?.rating ?? 0,
+  };
+}
+
+async function entityExists(type: RatableType, id: string): Promise<boolean> {
+  switch (type) {
+    case "track":
+      return !!(await prisma.track.findUnique({ where: { id }, select: { id: true } }));
+    case "album":
+      return !!(await prisma.album.findUnique({ where: { id }, select: { id: true } }));
+    case "artist":
+      return !!(await prisma.artist.findUnique({ where: { id }, select: { id: true } }));
+  }
+}
+
+for (const [segment, type] of Object.entries(ENTITY_TYPES)) {
+  // PUT /library/albums/:id/rating - set a 1-5 rating, 0 clears it
+  router.put(`/${segment}/:id/rating`, async (req, res) => {
+    try {
+      const { rating } = ratingSchema.parse(req.body);
+      if (!(await entityExists(type, req.params.id))) {
+        return res.status(404).json({ error: "Not found" });
+      }
+
+      await ratingService.setRating(req.user!.id, type, req.params.id, rating);
+      res.json({ id: req.params.id, userRating: rating });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid request", details: error.errors });
+      }
+      safeError(res, `Set ${type} rating`, error);
+    }
+  });
+
+  // PUT /library/albums/:id/star
+  router.put(`/${segment}/:id/star`, async (req, res) => {
+    try {
+      if (!(await entityExists(type, req.params.id))) {
+        return res.status(404).json({ error: "Not found" });
+      }
+
+      await ratingService.star(req.user!.id, type, req.params.id);
+      res.json({ id: req.params.id, starred: true });
+    } catch (error) {
+      safeError(res, `Star ${type}`, error);
+    }
+  });
+
+  // DELETE /library/albums/:id/star
+  router.delete(`/${segment}/:id/star`, async (req, res) => {
+    try {
+      await ratingService.unstar(req.user!.id, type, [req.params.id]);
+      res.json({ id: req.params.id, starred: false });
+    } catch (error) {
+      safeError(res, `Unstar ${type}`, error);
+    }
+  });
+}
+
+export default router;
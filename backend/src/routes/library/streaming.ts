@@ -1,8 +1,18 @@
-import { Router, Response } from "express";
+import { Router, Request, Response } from "express";
 import { prisma } from "../../utils/db";
 import { logger } from "../../utils/logger";
 import { config } from "../../config";
 import { getAudioStreamingService } from "../../services/audioStreaming";
+import {
+  HlsSource,
+  getHlsStreamingService,
+  hlsVariants,
+  masterPlaylist,
+  mediaPlaylist,
+  segmentCount,
+} from "../../services/hlsStreaming";
+import { probeSource } from "../../services/transcodeProfiles";
+import { trackSegment, trackSourcePath } from "../../services/cueSheet";
 import path from "path";
 
 const MAX_CONCURRENT_STREAMS = 2;
@@ -70,12 +80,38 @@ setInterval(() => {
   }
 }, STREAM_TTL_MS);
 
+async function logPlay(
+  userId: string,
+  track: { id: string; title: string },
+): Promise<void> {
+  const recentPlay = await prisma.play.findFirst({
+    where: {
+      userId,
+      trackId: track.id,
+      playedAt: {
+        gte: new Date(Date.now() - 30 * 1000),
+      },
+    },
+    orderBy: { playedAt: "desc" },
+  });
+
+  if (!recentPlay) {
+    await prisma.play.create({
+      data: {
+        userId,
+        trackId: track.id,
+      },
+    });
+    logger.debug("[STREAM] Logged new play for track:", track.title);
+  }
+}
+
 const router = Router();
 
 router.get("/tracks/:id/stream", async (req, res) => {
   try {
     logger.debug("[STREAM] Request received for track:", req.params.id);
-    const { quality } = req.query;
+    const { quality, download } = req.query;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -92,27 +128,11 @@ router.get("/tracks/:id/stream", async (req, res) => {
       return res.status(404).json({ error: "Track not found" });
     }
 
-    registerStream(userId, req.params.id, res);
-
-    const recentPlay = await prisma.play.findFirst({
-      where: {
-        userId,
-        trackId: track.id,
-        playedAt: {
-          gte: new Date(Date.now() - 30 * 1000),
-        },
-      },
-      orderBy: { playedAt: "desc" },
-    });
-
-    if (!recentPlay) {
-      await prisma.play.create({
-        data: {
-          userId,
-          trackId: track.id,
-        },
-      });
-      logger.debug("[STREAM] Logged new play for track:", track.title);
+    // Offline downloads aren't plays and mustn't evict what's playing; the
+    // client reports plays of downloaded tracks itself
+    if (download !== "true") {
+      registerStream(userId, req.params.id, res);
+      await logPlay(userId, track);
     }
 
     let requestedQuality: string = "medium";
@@ -126,7 +146,7 @@ router.get("/tracks/:id/stream", async (req, res) => {
     }
 
     const ext = track.filePath
-      ? path.extname(track.filePath).toLowerCase()
+      ? path.extname(trackSourcePath(track)).toLowerCase()
       : "";
     logger.debug(
       `[STREAM] Quality: requested=${
@@ -142,7 +162,7 @@ router.get("/tracks/:id/stream", async (req, res) => {
           config.music.transcodeCacheMaxGb,
         );
 
-        const normalizedFilePath = track.filePath.replace(/\\/g, "/");
+        const normalizedFilePath = trackSourcePath(track).replace(/\\/g, "/");
         const absolutePath = path.join(
           config.music.musicPath,
           normalizedFilePath,
@@ -157,6 +177,7 @@ router.get("/tracks/:id/stream", async (req, res) => {
           requestedQuality as any,
           track.fileModified,
           absolutePath,
+          trackSegment(track),
         );
 
         logger.debug(
@@ -182,7 +203,7 @@ router.get("/tracks/:id/stream", async (req, res) => {
           logger.warn(
             `[STREAM] FFmpeg not available, falling back to original quality`,
           );
-          const fallbackFilePath = track.filePath.replace(/\\/g, "/");
+          const fallbackFilePath = trackSourcePath(track).replace(/\\/g, "/");
           const absolutePath = path.join(
             config.music.musicPath,
             fallbackFilePath,
@@ -200,6 +221,7 @@ router.get("/tracks/:id/stream", async (req, res) => {
               "original",
               track.fileModified,
               absolutePath,
+              trackSegment(track),
             );
 
           await streamingService.streamFileWithRangeSupport(
@@ -224,4 +246,129 @@ router.get("/tracks/:id/stream", async (req, res) => {
   }
 });
 
+// ===================== HLS =====================
+
+async function findHlsSource(trackId: string) {
+  const track = await prisma.track.findUnique({ where: { id: trackId } });
+  if (!track || !track.filePath || !track.fileModified) return null;
+
+  const resolvedMusicPath = path.resolve(config.music.musicPath);
+  const absolutePath = path.resolve(
+    resolvedMusicPath,
+    trackSourcePath(track).replace(/\\/g, "/"),
+  );
+  if (!absolutePath.startsWith(resolvedMusicPath + path.sep)) return null;
+
+  const source: HlsSource = {
+    trackId: track.id,
+    filePath: absolutePath,
+    sourceModified: track.fileModified,
+    duration: track.duration,
+    segment: trackSegment(track),
+  };
+  return {
+    track,
+    source,
+    variants: hlsVariants(await probeSource(absolutePath)),
+  };
+}
+
+// Playlist URIs are relative; the token rides along for players that can't
+// send the session cookie
+function withToken(req: Request, uri: string): string {
+  const token = req.query.token;
+  return typeof token === "string" && token
+    ? `${uri}?token=${encodeURIComponent(token)}`
+    : uri;
+}
+
+router.get("/tracks/:id/hls/master.m3u8", async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const found = await findHlsSource(req.params.id);
+    if (!found) {
+      return res.status(404).json({ error: "Track not found" });
+    }
+    await logPlay(userId, found.track);
+
+    res.set("Content-Type", "application/vnd.apple.mpegurl");
+    res.set("Cache-Control", "no-cache");
+    return res.send(
+      masterPlaylist(found.variants, (variant) =>
+        withToken(req, `${variant.id}/index.m3u8`),
+      ),
+    );
+  } catch (error) {
+    logger.error("HLS master playlist error:", error);
+    res.status(500).json({ error: "Failed to build playlist" });
+  }
+});
+
+router.get("/tracks/:id/hls/:variant/index.m3u8", async (req, res) => {
+  try {
+    const found = await findHlsSource(req.params.id);
+    if (!found) {
+      return res.status(404).json({ error: "Track not found" });
+    }
+    if (!found.variants.some((v) => v.id === req.params.variant)) {
+      return res.status(404).json({ error: "Variant not found" });
+    }
+
+    res.set("Content-Type", "application/vnd.apple.mpegurl");
+    res.set("Cache-Control", "no-cache");
+    return res.send(
+      mediaPlaylist(found.source.duration, (index) =>
+        withToken(req, `${index}.ts`),
+      ),
+    );
+  } catch (error) {
+    logger.error("HLS media playlist error:", error);
+    res.status(500).json({ error: "Failed to build playlist" });
+  }
+});
+
+router.get("/tracks/:id/hls/:variant/:index.ts", async (req, res) => {
+  try {
+    const found = await findHlsSource(req.params.id);
+    const variant = found?.variants.find((v) => v.id === req.params.variant);
+    const index = parseInt(req.params.index, 10);
+    if (
+      !found ||
+      !variant ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= segmentCount(found.source.duration)
+    ) {
+      return res.status(404).json({ error: "Segment not found" });
+    }
+
+    const streamingService = getAudioStreamingService(
+      config.music.musicPath,
+      config.music.transcodeCachePath,
+      config.music.transcodeCacheMaxGb,
+    );
+    const segmentPath = await getHlsStreamingService(
+      config.music.transcodeCachePath,
+      streamingService,
+    ).getSegment(found.source, variant, index);
+
+    await streamingService.streamFileWithRangeSupport(
+      req,
+      res,
+      segmentPath,
+      "video/mp2t",
+    );
+  } catch (error: any) {
+    if (error.code === "FFMPEG_NOT_FOUND") {
+      return res.status(503).json({ error: "Transcoding unavailable" });
+    }
+    logger.error("HLS segment error:", error);
+    res.status(500).json({ error: "Failed to stream segment" });
+  }
+});
+
 export default router;
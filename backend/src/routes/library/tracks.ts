@@ -11,6 +11,9 @@ import {
 } from "../../utils/dateFilters";
 import { shuffleArray } from "../../utils/shuffle";
 import { config } from "../../config";
+import { ratingService } from "../../services/ratings";
+import { replayGainService } from "../../services/replayGain";
+import { parseRatingFilter, annotationFields } from "./ratings";
 import path from "path";
 import fs from "fs";
 
@@ -287,6 +290,18 @@ router.get("/tracks", async (req, res) => {
       where.albumId = albumId as string;
     }
 
+    // Starred tracks are the user's liked tracks
+    const userId = req.user!.id;
+    const ratingFilter = parseRatingFilter(req.query);
+    if (ratingFilter.starred) {
+      where.likedBy = { some: { userId } };
+    }
+    if (ratingFilter.minRating) {
+      where.ratings = {
+        some: { userId, rating: { gte: ratingFilter.minRating } },
+      };
+    }
+
     const [tracksData, total] = await Promise.all([
       prisma.track.findMany({
         where,
@@ -309,12 +324,18 @@ router.get("/tracks", async (req, res) => {
       prisma.track.count({ where }),
     ]);
 
+    const annotations = await ratingService.getAnnotations(
+      userId,
+      "track",
+      tracksData.map((track) => track.id),
+    );
     const tracks = tracksData.map((track) => ({
       ...track,
       album: {
         ...track.album,
         coverArt: track.album.coverUrl,
       },
+      ...annotationFields(annotations.get(track.id)),
     }));
 
     res.json({ tracks, total, offset, limit });
@@ -514,6 +535,20 @@ router.get("/tracks/:id/lyrics", async (req, res) => {
   }
 });
 
+// Track and album gain/peak for the web player's loudness normalization
+router.get("/tracks/:id/replay-gain", async (req, res) => {
+  try {
+    const gain = await replayGainService.getForTrack(req.params.id);
+    if (!gain) {
+      return res.status(404).json({ error: "Track not found" });
+    }
+    res.json(gain);
+  } catch (error) {
+    logger.error("Get replay gain error:", error);
+    res.status(500).json({ error: "Failed to fetch replay gain" });
+  }
+});
+
 router.get("/tracks/:id", async (req, res) => {
   try {
     const track = await prisma.track.findUnique({
@@ -575,7 +610,9 @@ router.delete("/tracks/:id", async (req, res) => {
       return res.status(404).json({ error: "Track not found" });
     }
 
-    if (track.filePath) {
+    // A CUE track's source file holds the whole album, so only the
+    // database row goes
+    if (track.filePath && track.cueStart === null) {
       try {
         const absolutePath = path.join(config.music.musicPath, track.filePath);
 
@@ -3,30 +3,114 @@ import { logger } from "../utils/logger";
 import { requireAuth } from "../middleware/auth";
 import { prisma } from "../utils/db";
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { getPlaylistRole } from "../services/playlistCollaboration";
 
 const router = Router();
 
 router.use(requireAuth);
 
-const downloadAlbumSchema = z.object({
+type OfflineQuality = "original" | "high" | "medium" | "low";
+
+const downloadSchema = z.object({
     quality: z.enum(["original", "high", "medium", "low"]).optional(),
 });
 
+// Rough per-track sizes, used to check the cache limit before downloading
+const AVG_TRACK_SIZE_MB: Record<OfflineQuality, number> = {
+    original: 30, // FLAC
+    high: 10, // MP3 320
+    medium: 6, // MP3 192
+    low: 4, // MP3 128
+};
+
+type DownloadableTrack = Prisma.TrackGetPayload<{
+    include: { album: { include: { artist: { select: { id: true; name: true } } } } };
+}>;
+
+const downloadableTrackInclude = {
+    album: { include: { artist: { select: { id: true, name: true } } } },
+} as const;
+
+/**
+ * Build the list of tracks a client should fetch for offline use, at the
+ * requested quality or the user's streaming quality. Tracks already cached at
+ * that quality don't count against the cache limit again.
+ */
+async function buildDownloadJob(
+    userId: string,
+    quality: OfflineQuality | undefined,
+    tracks: DownloadableTrack[]
+) {
+    const settings = await prisma.userSettings.findUnique({
+        where: { userId },
+    });
+    const selectedQuality: OfflineQuality =
+        quality || (settings?.playbackQuality as OfflineQuality) || "medium";
+
+    const alreadyCached = await prisma.cachedTrack.findMany({
+        where: {
+            userId,
+            quality: selectedQuality,
+            trackId: { in: tracks.map((track) => track.id) },
+        },
+        select: { trackId: true },
+    });
+    const cachedIds = new Set(alreadyCached.map((c) => c.trackId));
+
+    const estimatedSizeMb =
+        tracks.filter((track) => !cachedIds.has(track.id)).length *
+        AVG_TRACK_SIZE_MB[selectedQuality];
+
+    if (settings) {
+        const currentCacheSize = await prisma.cachedTrack.aggregate({
+            where: { userId },
+            _sum: { fileSizeMb: true },
+        });
+
+        const currentSize = currentCacheSize._sum.fileSizeMb || 0;
+
+        if (currentSize + estimatedSizeMb > settings.maxCacheSizeMb) {
+            return {
+                error: {
+                    error: "Cache size limit exceeded",
+                    currentSize,
+                    maxSize: settings.maxCacheSizeMb,
+                    needed: estimatedSizeMb,
+                },
+            };
+        }
+    }
+
+    return {
+        job: {
+            quality: selectedQuality,
+            tracks: tracks.map((track) => ({
+                trackId: track.id,
+                title: track.title,
+                trackNo: track.trackNo,
+                discNumber: track.discNumber,
+                discSubtitle: track.discSubtitle,
+                duration: track.duration,
+                albumId: track.album.id,
+                albumTitle: track.album.title,
+                artistId: track.album.artist.id,
+                artistName: track.album.artist.name,
+                coverUrl: track.album.coverUrl,
+                // download=true keeps the fetch from being logged as a play
+                streamUrl: `/library/tracks/${track.id}/stream?quality=${selectedQuality}&download=true`,
+            })),
+            estimatedSizeMb,
+        },
+    };
+}
+
 // POST /offline/albums/:id/download
 router.post("/albums/:id/download", async (req, res) => {
     try {
         const userId = req.user!.id;
         const albumId = req.params.id;
-        const { quality } = downloadAlbumSchema.parse(req.body);
-
-        // Get user's default quality if not specified
-        let selectedQuality: "original" | "high" | "medium" | "low" = quality || "medium";
-        if (!quality) {
-            const settings = await prisma.userSettings.findUnique({
-                where: { userId },
-            });
-            selectedQuality = (settings?.playbackQuality as "original" | "high" | "medium" | "low") || "medium";
-        }
+        const { quality } = downloadSchema.parse(req.body);
 
         // Get album with tracks
         const album = await prisma.album.findUnique({
@@ -37,6 +121,7 @@ router.post("/albums/:id/download", async (req, res) => {
                         { discNumber: { sort: "asc", nulls: "first" } },
                         { trackNo: "asc" },
                     ],
+                    include: downloadableTrackInclude,
                 },
                 artist: {
                     select: {
@@ -50,71 +135,79 @@ router.post("/albums/:id/download", async (req, res) => {
             return res.status(404).json({ error: "Album not found" });
         }
 
-        // Calculate total size estimate
-        const avgSizeMb: Record<string, number> = {
-            original: 30, // FLAC
-            high: 10, // MP3 320
-            medium: 6, // MP3 192
-            low: 4, // MP3 128
-        };
-
-        const estimatedSizeMb =
-            album.tracks.length * avgSizeMb[selectedQuality];
+        const result = await buildDownloadJob(userId, quality, album.tracks);
+        if (result.error) {
+            return res.status(400).json(result.error);
+        }
 
-        // Check user's cache limit
-        const settings = await prisma.userSettings.findUnique({
-            where: { userId },
+        // Create download job (tracks to be downloaded by the client)
+        res.json({
+            albumId: album.id,
+            albumTitle: album.title,
+            artistName: album.artist.name,
+            ...result.job,
         });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", details: error.errors });
+        }
+        logger.error("Create download job error:", error);
+        res.status(500).json({ error: "Failed to create download job" });
+    }
+});
 
-        if (settings) {
-            const currentCacheSize = await prisma.cachedTrack.aggregate({
-                where: { userId },
-                _sum: { fileSizeMb: true },
-            });
+// POST /offline/playlists/:id/download (saved mixes are playlists too)
+router.post("/playlists/:id/download", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+        const { quality } = downloadSchema.parse(req.body);
 
-            const currentSize = currentCacheSize._sum.fileSizeMb || 0;
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+            include: {
+                items: {
+                    orderBy: { sort: "asc" },
+                    include: { track: { include: downloadableTrackInclude } },
+                },
+            },
+        });
 
-            if (currentSize + estimatedSizeMb > settings.maxCacheSizeMb) {
-                return res.status(400).json({
-                    error: "Cache size limit exceeded",
-                    currentSize,
-                    maxSize: settings.maxCacheSizeMb,
-                    needed: estimatedSizeMb,
-                });
-            }
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
         }
 
-        // Create download job (tracks to be downloaded by mobile client)
-        const downloadJob = {
-            albumId: album.id,
-            albumTitle: album.title,
-            artistName: album.artist.name,
-            quality: selectedQuality,
-            tracks: album.tracks.map((track) => ({
-                trackId: track.id,
-                title: track.title,
-                trackNo: track.trackNo,
-                discNumber: track.discNumber,
-                discSubtitle: track.discSubtitle,
-                duration: track.duration,
-                streamUrl: `/library/tracks/${track.id}/stream?quality=${selectedQuality}`,
-            })),
-            estimatedSizeMb,
-        };
+        if (!playlist.isPublic && !(await getPlaylistRole(playlist, userId))) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        const result = await buildDownloadJob(
+            userId,
+            quality,
+            playlist.items.map((item) => item.track)
+        );
+        if (result.error) {
+            return res.status(400).json(result.error);
+        }
 
-        res.json(downloadJob);
+        res.json({
+            playlistId: playlist.id,
+            playlistName: playlist.name,
+            ...result.job,
+        });
     } catch (error) {
         if (error instanceof z.ZodError) {
             return res
                 .status(400)
                 .json({ error: "Invalid request", details: error.errors });
         }
-        logger.error("Create download job error:", error);
+        logger.error("Create playlist download job error:", error);
         res.status(500).json({ error: "Failed to create download job" });
     }
 });
 
-// POST /offline/tracks/:id/complete (called by mobile after download)
+// POST /offline/tracks/:id/complete (called by the client after download)
 router.post("/tracks/:id/complete", async (req, res) => {
     try {
         const userId = req.user!.id;
@@ -156,6 +249,22 @@ router.post("/tracks/:id/complete", async (req, res) => {
     }
 });
 
+// DELETE /offline/tracks/:id (called by the client after evicting a track)
+router.delete("/tracks/:id", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+
+        const result = await prisma.cachedTrack.deleteMany({
+            where: { userId, trackId: req.params.id },
+        });
+
+        res.json({ deletedCount: result.count });
+    } catch (error) {
+        logger.error("Delete cached track error:", error);
+        res.status(500).json({ error: "Failed to delete cached track" });
+    }
+});
+
 // GET /offline/albums
 router.get("/albums", async (req, res) => {
     try {
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import { Prisma } from "@prisma/client";
 import axios from "axios";
 import { logger } from "../utils/logger";
 import { z } from "zod";
@@ -6,6 +7,19 @@ import { requireAuthOrToken } from "../middleware/auth";
 import { prisma } from "../utils/db";
 import { sessionLog } from "../utils/playlistLogger";
 import { safeError } from "../utils/errors";
+import {
+    smartPlaylistFileSchema,
+    smartPlaylistSchema,
+    smartPlaylistService,
+} from "../services/smartPlaylists";
+import {
+    COLLABORATOR_ROLES,
+    canEditItems,
+    emitPlaylistChange,
+    getPlaylistRole,
+    visiblePlaylistsWhere,
+} from "../services/playlistCollaboration";
+import { notificationService } from "../services/notificationService";
 
 const router = Router();
 
@@ -46,11 +60,25 @@ async function getOwnedPendingTrack(
 const createPlaylistSchema = z.object({
     name: z.string().min(1).max(200),
     isPublic: z.boolean().optional().default(false),
+    // Rules make this a smart playlist whose items follow the library
+    smart: smartPlaylistSchema.optional(),
 });
 
 const updatePlaylistSchema = z.object({
     name: z.string().min(1).max(200).optional(),
     isPublic: z.boolean().optional(),
+    smart: smartPlaylistSchema.optional(),
+});
+
+const SMART_READ_ONLY = "Smart playlists are filled by their rules";
+
+const inviteCollaboratorSchema = z.object({
+    username: z.string().min(1),
+    role: z.enum(COLLABORATOR_ROLES).optional().default("editor"),
+});
+
+const updateCollaboratorSchema = z.object({
+    role: z.enum(COLLABORATOR_ROLES),
 });
 
 const addTrackSchema = z.object({
@@ -78,9 +106,7 @@ router.get("/", async (req, res) => {
         );
 
         const playlists = await prisma.playlist.findMany({
-            where: {
-                OR: [{ userId }, { isPublic: true }],
-            },
+            where: visiblePlaylistsWhere(userId),
             orderBy: { createdAt: "desc" },
             skip: (page - 1) * limit,
             take: limit,
@@ -91,7 +117,14 @@ router.get("/", async (req, res) => {
                     },
                 },
                 _count: {
-                    select: { items: true },
+                    select: {
+                        items: true,
+                        collaborators: { where: { status: "accepted" } },
+                    },
+                },
+                collaborators: {
+                    where: { userId, status: "accepted" },
+                    select: { role: true },
                 },
                 items: {
                     take: 4,
@@ -110,11 +143,17 @@ router.get("/", async (req, res) => {
             },
         });
 
-        const playlistsWithCounts = playlists.map((playlist) => ({
+        const playlistsWithCounts = playlists.map(({ collaborators, ...playlist }) => ({
             ...playlist,
             trackCount: playlist._count.items,
             isOwner: playlist.userId === userId,
+            role:
+                playlist.userId === userId
+                    ? "owner"
+                    : collaborators[0]?.role ?? null,
+            isCollaborative: playlist._count.collaborators > 0,
             isHidden: hiddenPlaylistIds.has(playlist.id),
+            isSmart: !!playlist.smartRules,
         }));
 
         // Debug: log shared playlists with user info
@@ -153,9 +192,15 @@ router.post("/", async (req, res) => {
                 userId,
                 name: data.name,
                 isPublic: data.isPublic,
+                ...(data.smart && { smartRules: data.smart as Prisma.InputJsonValue }),
             },
         });
 
+        if (playlist.smartRules) {
+            const trackCount = await smartPlaylistService.evaluate(playlist);
+            return res.json({ ...playlist, trackCount });
+        }
+
         res.json(playlist);
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -168,6 +213,42 @@ router.post("/", async (req, res) => {
     }
 });
 
+// GET /playlists/invites - Pending collaboration invites for the current user
+router.get("/invites", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const invites = await prisma.playlistCollaborator.findMany({
+            where: { userId: req.user.id, status: "pending" },
+            orderBy: { createdAt: "desc" },
+            include: {
+                playlist: {
+                    select: {
+                        id: true,
+                        name: true,
+                        user: { select: { username: true } },
+                    },
+                },
+            },
+        });
+
+        res.json(
+            invites.map((invite) => ({
+                playlistId: invite.playlist.id,
+                playlistName: invite.playlist.name,
+                owner: invite.playlist.user.username,
+                role: invite.role,
+                invitedAt: invite.createdAt,
+            }))
+        );
+    } catch (error) {
+        logger.error("Get playlist invites error:", error);
+        res.status(500).json({ error: "Failed to get playlist invites" });
+    }
+});
+
 // GET /playlists/:id
 router.get("/:id", async (req, res) => {
     try {
@@ -176,6 +257,40 @@ router.get("/:id", async (req, res) => {
         }
         const userId = req.user.id;
 
+        const access = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+            select: {
+                id: true,
+                userId: true,
+                isPublic: true,
+                smartRules: true,
+                smartEvaluatedAt: true,
+                collaborators: { where: { userId }, select: { role: true, status: true } },
+            },
+        });
+
+        if (!access) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        // Owners, collaborators and invitees (so they can decide) may read
+        // a private playlist
+        const membership = access.collaborators[0];
+        const role =
+            access.userId === userId
+                ? "owner"
+                : membership?.status === "accepted"
+                  ? membership.role
+                  : null;
+        if (!access.isPublic && !role && !membership) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        // Only once access is settled, so strangers can't trigger evaluations
+        if (access.smartRules) {
+            await smartPlaylistService.refreshIfStale(access);
+        }
+
         const playlist = await prisma.playlist.findUnique({
             where: { id: req.params.id },
             include: {
@@ -188,8 +303,13 @@ router.get("/:id", async (req, res) => {
                     where: { userId },
                     select: { id: true },
                 },
+                collaborators: {
+                    include: { user: { select: { username: true } } },
+                    orderBy: { createdAt: "asc" },
+                },
                 items: {
                     include: {
+                        addedBy: { select: { id: true, username: true } },
                         track: {
                             include: {
                                 album: {
@@ -218,11 +338,6 @@ router.get("/:id", async (req, res) => {
             return res.status(404).json({ error: "Playlist not found" });
         }
 
-        // Check access permissions
-        if (!playlist.isPublic && playlist.userId !== userId) {
-            return res.status(403).json({ error: "Access denied" });
-        }
-
         // Format playlist items
         const formattedItems = playlist.items.map((item) => ({
             ...item,
@@ -261,6 +376,21 @@ router.get("/:id", async (req, res) => {
             ...playlist,
             isOwner: playlist.userId === userId,
             isHidden: playlist.hiddenByUsers.length > 0,
+            isSmart: !!playlist.smartRules,
+            role,
+            invitation:
+                membership?.status === "pending"
+                    ? { role: membership.role }
+                    : null,
+            collaborators: playlist.collaborators.map((c) => ({
+                userId: c.userId,
+                username: c.user.username,
+                role: c.role,
+                status: c.status,
+            })),
+            isCollaborative: playlist.collaborators.some(
+                (c) => c.status === "accepted"
+            ),
             trackCount: playlist.items.length,
             pendingCount: playlist.pendingTracks.length,
             items: formattedItems,
@@ -295,14 +425,29 @@ router.put("/:id", async (req, res) => {
             return res.status(403).json({ error: "Access denied" });
         }
 
+        if (data.smart && !existing.smartRules) {
+            return res
+                .status(400)
+                .json({ error: "Only smart playlists have rules" });
+        }
+
         const playlist = await prisma.playlist.update({
             where: { id: req.params.id },
             data: {
                 ...(data.name !== undefined && { name: data.name }),
                 ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+                ...(data.smart && { smartRules: data.smart as Prisma.InputJsonValue }),
             },
         });
 
+        if (data.smart) {
+            const trackCount = await smartPlaylistService.evaluate(playlist);
+            await emitPlaylistChange(playlist.id, "items");
+            return res.json({ ...playlist, trackCount });
+        }
+
+        await emitPlaylistChange(playlist.id, "details");
+
         res.json(playlist);
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -315,6 +460,103 @@ router.put("/:id", async (req, res) => {
     }
 });
 
+// POST /playlists/import - Create a smart playlist from an exported rules file
+router.post("/import", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        const { name, rules, sort, limit } = smartPlaylistFileSchema.parse(req.body);
+
+        const playlist = await prisma.playlist.create({
+            data: {
+                userId: req.user.id,
+                name,
+                smartRules: { rules, sort, limit } as Prisma.InputJsonValue,
+            },
+        });
+        const trackCount = await smartPlaylistService.evaluate(playlist);
+
+        res.json({ ...playlist, trackCount });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res
+                .status(400)
+                .json({ error: "Invalid smart playlist file", details: error.errors });
+        }
+        logger.error("Import smart playlist error:", error);
+        res.status(500).json({ error: "Failed to import smart playlist" });
+    }
+});
+
+// POST /playlists/:id/refresh - Re-run a smart playlist's rules now
+router.post("/:id/refresh", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+        });
+
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        if (playlist.userId !== req.user.id) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        if (!playlist.smartRules) {
+            return res.status(400).json({ error: "Not a smart playlist" });
+        }
+
+        const trackCount = await smartPlaylistService.evaluate(playlist);
+        await emitPlaylistChange(playlist.id, "items");
+
+        res.json({ trackCount });
+    } catch (error) {
+        logger.error("Refresh smart playlist error:", error);
+        res.status(500).json({ error: "Failed to refresh smart playlist" });
+    }
+});
+
+// GET /playlists/:id/export - Download a smart playlist's rules as JSON
+router.get("/:id/export", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+        });
+
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        if (!playlist.isPublic && !(await getPlaylistRole(playlist, req.user.id))) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        if (!playlist.smartRules) {
+            return res.status(400).json({ error: "Not a smart playlist" });
+        }
+
+        const fileName = playlist.name.replace(/[^\w\- ]+/g, "").trim() || "smart-playlist";
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${fileName}.json"`
+        );
+        res.json(smartPlaylistService.toFile(playlist));
+    } catch (error) {
+        logger.error("Export smart playlist error:", error);
+        res.status(500).json({ error: "Failed to export smart playlist" });
+    }
+});
+
 // POST /playlists/:id/hide - Hide any playlist from your view
 router.post("/:id/hide", async (req, res) => {
     try {
@@ -333,8 +575,8 @@ router.post("/:id/hide", async (req, res) => {
             return res.status(404).json({ error: "Playlist not found" });
         }
 
-        // User must own the playlist OR it must be public (shared)
-        if (playlist.userId !== userId && !playlist.isPublic) {
+        // User must own the playlist, collaborate on it OR it must be public (shared)
+        if (!playlist.isPublic && !(await getPlaylistRole(playlist, userId))) {
             return res.status(403).json({ error: "Access denied" });
         }
 
@@ -396,6 +638,9 @@ router.delete("/:id", async (req, res) => {
             return res.status(403).json({ error: "Access denied" });
         }
 
+        // Collaborators are gone once the playlist is, so tell them first
+        await emitPlaylistChange(req.params.id, "deleted");
+
         await prisma.playlist.delete({
             where: { id: req.params.id },
         });
@@ -421,7 +666,7 @@ router.post("/:id/items", async (req, res) => {
         }
         const { trackId } = parsedBody.data;
 
-        // Check ownership
+        // Owners and editors may change the items
         const playlist = await prisma.playlist.findUnique({
             where: { id: req.params.id },
             include: {
@@ -436,10 +681,14 @@ router.post("/:id/items", async (req, res) => {
             return res.status(404).json({ error: "Playlist not found" });
         }
 
-        if (playlist.userId !== userId) {
+        if (!canEditItems(await getPlaylistRole(playlist, userId))) {
             return res.status(403).json({ error: "Access denied" });
         }
 
+        if (playlist.smartRules) {
+            return res.status(409).json({ error: SMART_READ_ONLY });
+        }
+
         // Check if track exists
         const track = await prisma.track.findUnique({
             where: { id: trackId },
@@ -475,8 +724,10 @@ router.post("/:id/items", async (req, res) => {
                 playlistId: req.params.id,
                 trackId,
                 sort: maxSort + 1,
+                addedById: userId,
             },
             include: {
+                addedBy: { select: { id: true, username: true } },
                 track: {
                     include: {
                         album: {
@@ -489,6 +740,8 @@ router.post("/:id/items", async (req, res) => {
             },
         });
 
+        await emitPlaylistChange(req.params.id, "items");
+
         res.json(item);
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -506,7 +759,7 @@ router.delete("/:id/items/:trackId", async (req, res) => {
     try {
         const userId = req.user!.id;
 
-        // Check ownership
+        // Owners and editors may change the items
         const playlist = await prisma.playlist.findUnique({
             where: { id: req.params.id },
         });
@@ -515,10 +768,14 @@ router.delete("/:id/items/:trackId", async (req, res) => {
             return res.status(404).json({ error: "Playlist not found" });
         }
 
-        if (playlist.userId !== userId) {
+        if (!canEditItems(await getPlaylistRole(playlist, userId))) {
             return res.status(403).json({ error: "Access denied" });
         }
 
+        if (playlist.smartRules) {
+            return res.status(409).json({ error: SMART_READ_ONLY });
+        }
+
         await prisma.playlistItem.delete({
             where: {
                 playlistId_trackId: {
@@ -528,6 +785,8 @@ router.delete("/:id/items/:trackId", async (req, res) => {
             },
         });
 
+        await emitPlaylistChange(req.params.id, "items");
+
         res.json({ message: "Track removed from playlist" });
     } catch (error) {
         logger.error("Remove track from playlist error:", error);
@@ -545,7 +804,7 @@ router.put("/:id/items/reorder", async (req, res) => {
             return res.status(400).json({ error: "trackIds must be an array" });
         }
 
-        // Check ownership
+        // Owners and editors may change the items
         const playlist = await prisma.playlist.findUnique({
             where: { id: req.params.id },
         });
@@ -554,10 +813,14 @@ router.put("/:id/items/reorder", async (req, res) => {
             return res.status(404).json({ error: "Playlist not found" });
         }
 
-        if (playlist.userId !== userId) {
+        if (!canEditItems(await getPlaylistRole(playlist, userId))) {
             return res.status(403).json({ error: "Access denied" });
         }
 
+        if (playlist.smartRules) {
+            return res.status(409).json({ error: SMART_READ_ONLY });
+        }
+
         // Update sort order for each track
         const updates = trackIds.map((trackId, index) =>
             prisma.playlistItem.update({
@@ -573,6 +836,8 @@ router.put("/:id/items/reorder", async (req, res) => {
 
         await prisma.$transaction(updates);
 
+        await emitPlaylistChange(req.params.id, "items");
+
         res.json({ message: "Playlist reordered" });
     } catch (error) {
         logger.error("Reorder playlist error:", error);
@@ -580,6 +845,235 @@ router.put("/:id/items/reorder", async (req, res) => {
     }
 });
 
+// GET /playlists/:id/collaborators
+router.get("/:id/collaborators", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        const userId = req.user.id;
+
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+        });
+
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        if (!(await getPlaylistRole(playlist, userId))) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        const collaborators = await prisma.playlistCollaborator.findMany({
+            where: { playlistId: playlist.id },
+            include: { user: { select: { username: true } } },
+            orderBy: { createdAt: "asc" },
+        });
+
+        res.json(
+            collaborators.map((c) => ({
+                userId: c.userId,
+                username: c.user.username,
+                role: c.role,
+                status: c.status,
+            }))
+        );
+    } catch (error) {
+        logger.error("Get playlist collaborators error:", error);
+        res.status(500).json({ error: "Failed to get collaborators" });
+    }
+});
+
+// POST /playlists/:id/collaborators - Invite another user (owner only)
+router.post("/:id/collaborators", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        const userId = req.user.id;
+        const data = inviteCollaboratorSchema.parse(req.body);
+
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+            include: { user: { select: { username: true } } },
+        });
+
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        if (playlist.userId !== userId) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        const invitee = await prisma.user.findUnique({
+            where: { username: data.username },
+            select: { id: true, username: true },
+        });
+
+        if (!invitee) {
+            return res.status(404).json({ error: "User not found" });
+        }
+
+        if (invitee.id === userId) {
+            return res
+                .status(400)
+                .json({ error: "You already own this playlist" });
+        }
+
+        // Re-inviting keeps an accepted collaborator's membership and only
+        // changes their role
+        const collaborator = await prisma.playlistCollaborator.upsert({
+            where: {
+                playlistId_userId: { playlistId: playlist.id, userId: invitee.id },
+            },
+            create: {
+                playlistId: playlist.id,
+                userId: invitee.id,
+                role: data.role,
+            },
+            update: { role: data.role },
+        });
+
+        if (collaborator.status === "pending") {
+            await notificationService.notifyPlaylistInvite(
+                invitee.id,
+                playlist.name,
+                playlist.id,
+                playlist.user.username,
+                data.role
+            );
+        }
+
+        await emitPlaylistChange(playlist.id, "collaborators");
+
+        res.json({
+            userId: invitee.id,
+            username: invitee.username,
+            role: collaborator.role,
+            status: collaborator.status,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", details: error.errors });
+        }
+        logger.error("Invite collaborator error:", error);
+        res.status(500).json({ error: "Failed to invite collaborator" });
+    }
+});
+
+// PATCH /playlists/:id/collaborators/:userId - Change a role (owner only)
+router.patch("/:id/collaborators/:userId", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        const userId = req.user.id;
+        const data = updateCollaboratorSchema.parse(req.body);
+
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+        });
+
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        if (playlist.userId !== userId) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        const result = await prisma.playlistCollaborator.updateMany({
+            where: { playlistId: playlist.id, userId: req.params.userId },
+            data: { role: data.role },
+        });
+
+        if (result.count === 0) {
+            return res.status(404).json({ error: "Collaborator not found" });
+        }
+
+        await emitPlaylistChange(playlist.id, "collaborators");
+
+        res.json({ userId: req.params.userId, role: data.role });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", details: error.errors });
+        }
+        logger.error("Update collaborator error:", error);
+        res.status(500).json({ error: "Failed to update collaborator" });
+    }
+});
+
+// DELETE /playlists/:id/collaborators/:userId - Owner removes someone, or a
+// collaborator leaves / declines their own invite
+router.delete("/:id/collaborators/:userId", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        const userId = req.user.id;
+
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: req.params.id },
+        });
+
+        if (!playlist) {
+            return res.status(404).json({ error: "Playlist not found" });
+        }
+
+        if (playlist.userId !== userId && req.params.userId !== userId) {
+            return res.status(403).json({ error: "Access denied" });
+        }
+
+        // Broadcast before removing so the leaving user's page updates too
+        await emitPlaylistChange(playlist.id, "collaborators");
+
+        const result = await prisma.playlistCollaborator.deleteMany({
+            where: { playlistId: playlist.id, userId: req.params.userId },
+        });
+
+        if (result.count === 0) {
+            return res.status(404).json({ error: "Collaborator not found" });
+        }
+
+        res.json({ message: "Collaborator removed" });
+    } catch (error) {
+        logger.error("Remove collaborator error:", error);
+        res.status(500).json({ error: "Failed to remove collaborator" });
+    }
+});
+
+// POST /playlists/:id/accept-invite
+router.post("/:id/accept-invite", async (req, res) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+        const userId = req.user.id;
+
+        const result = await prisma.playlistCollaborator.updateMany({
+            where: { playlistId: req.params.id, userId, status: "pending" },
+            data: { status: "accepted", acceptedAt: new Date() },
+        });
+
+        if (result.count === 0) {
+            return res.status(404).json({ error: "Invite not found" });
+        }
+
+        await emitPlaylistChange(req.params.id, "collaborators");
+
+        res.json({ message: "Invite accepted" });
+    } catch (error) {
+        logger.error("Accept playlist invite error:", error);
+        res.status(500).json({ error: "Failed to accept invite" });
+    }
+});
+
 /**
  * GET /playlists/:id/pending
  * Get pending tracks for a playlist (tracks from Spotify that haven't been matched yet)
@@ -3,6 +3,7 @@ import { logger } from "../utils/logger";
 import { requireAuth } from "../middleware/auth";
 import { prisma } from "../utils/db";
 import { z } from "zod";
+import { scrobbleService } from "../services/scrobbler";
 
 const router = Router();
 
@@ -10,13 +11,20 @@ router.use(requireAuth);
 
 const playSchema = z.object({
     trackId: z.string(),
+    // When the play happened, for plays queued while the client was offline
+    playedAt: z.coerce
+        .date()
+        .refine((date) => date.getTime() <= Date.now() + 60_000, {
+            message: "playedAt cannot be in the future",
+        })
+        .optional(),
 });
 
 // POST /plays
 router.post("/", async (req, res) => {
     try {
         const userId = req.user!.id;
-        const { trackId } = playSchema.parse(req.body);
+        const { trackId, playedAt } = playSchema.parse(req.body);
 
         // Verify track exists
         const track = await prisma.track.findUnique({
@@ -27,13 +35,28 @@ router.post("/", async (req, res) => {
             return res.status(404).json({ error: "Track not found" });
         }
 
+        // A queued play that was already delivered comes back unchanged, so
+        // clients can safely retry after a dropped response
+        if (playedAt) {
+            const existing = await prisma.play.findFirst({
+                where: { userId, trackId, playedAt },
+            });
+            if (existing) {
+                return res.json(existing);
+            }
+        }
+
         const play = await prisma.play.create({
             data: {
                 userId,
                 trackId,
+                ...(playedAt && { playedAt }),
             },
         });
 
+        // Not awaited: queueing must never delay or fail the play log
+        void scrobbleService.queuePlay(userId, trackId, play.playedAt);
+
         res.json(play);
     } catch (error) {
         if (error instanceof z.ZodError) {
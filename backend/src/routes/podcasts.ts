@@ -1,18 +1,40 @@
 import { Router, Request, Response } from "express";
+import multer from "multer";
+import path from "path";
 import { logger } from "../utils/logger";
 import { requireAuth, requireAuthOrToken } from "../middleware/auth";
 import { prisma } from "../utils/db";
-import { rssParserService } from "../services/rss-parser";
+import { Prisma } from "@prisma/client";
+import { rssParserService, sameJson, toJson } from "../services/rss-parser";
+import { podcastNamespaceService } from "../services/podcastNamespace";
 import { podcastCacheService } from "../services/podcastCache";
 import { parseRangeHeader } from "../utils/rangeParser";
-import { safeError } from "../utils/errors";
+import { safeError, UserFacingError } from "../utils/errors";
 import { validateUrlForFetch } from "../utils/ssrf";
 import { deezerService, mergeAndDedupePodcasts } from "../services/deezer";
+import { podcastSubscriptionService } from "../services/podcastSubscription";
+import { parseOpml } from "../services/opml";
+import { podcastRetentionService } from "../services/podcastRetention";
+import { opmlImportQueue } from "../workers/queues";
 import axios from "axios";
 import fs from "fs";
+import { z } from "zod";
 
 const router = Router();
 
+const opmlUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 2 * 1024 * 1024, files: 1 },
+    fileFilter: (_req, file, cb) => {
+        const ext = path.extname(file.originalname).toLowerCase();
+        if ([".opml", ".xml"].includes(ext)) {
+            cb(null, true);
+        } else {
+            cb(new Error("Only .opml and .xml files are accepted"));
+        }
+    },
+});
+
 /**
  * POST /podcasts/sync-covers
  * Manually trigger podcast cover caching
@@ -86,7 +108,7 @@ router.get("/", requireAuth, async (req, res) => {
                     ? `/podcasts/${podcast.id}/cover`
                     : podcast.imageUrl, // Fallback to original URL if not cached
                 episodeCount: podcast.episodeCount,
-                autoDownloadEpisodes: false, // Per-podcast auto-download not yet implemented
+                autoDownloadEpisodes: sub.autoDownload,
                 episodes: podcast.episodes.map((ep) => ({
                     id: ep.id,
                     title: ep.title,
@@ -574,6 +596,106 @@ router.post("/refresh-all", requireAuth, async (req, res) => {
     }
 });
 
+// One OPML import per user at a time
+const opmlImportJobId = (userId: string) => `opml-import-${userId}`;
+
+/**
+ * POST /podcasts/import/opml
+ * Subscribe to every feed in an uploaded OPML file. Feeds are fetched in a
+ * background job; progress is pushed as podcast-import:progress events.
+ */
+router.post("/import/opml", requireAuth, (req, res, next) => {
+    opmlUpload.single("file")(req, res, (err) => {
+        if (err) {
+            return res.status(400).json({ error: err.message });
+        }
+        next();
+    });
+}, async (req, res) => {
+    try {
+        if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+
+        const feeds = parseOpml(req.file.buffer.toString("utf-8"));
+        if (feeds.length === 0) {
+            return res.status(400).json({ error: "OPML file contains no feeds" });
+        }
+
+        const userId = req.user!.id;
+        const jobId = opmlImportJobId(userId);
+        const existing = await opmlImportQueue.getJob(jobId);
+        if (existing) {
+            const state = await existing.getState();
+            if (state === "active" || state === "waiting" || state === "delayed") {
+                return res.status(409).json({ error: "An import is already running" });
+            }
+            // Finished jobs keep their id until removed; clear it so the import can run again
+            await existing.remove();
+        }
+
+        await opmlImportQueue.add("opml", { userId, feeds }, { jobId });
+        res.status(202).json({ status: "waiting", total: feeds.length });
+    } catch (error) {
+        if (error instanceof UserFacingError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        safeError(res, "Error importing OPML", error);
+    }
+});
+
+/**
+ * GET /podcasts/import/opml
+ * Status of the user's latest OPML import, with per-feed results once done
+ */
+router.get("/import/opml", requireAuth, async (req, res) => {
+    try {
+        const job = await opmlImportQueue.getJob(opmlImportJobId(req.user!.id));
+        if (!job) {
+            return res.json({ status: "none" });
+        }
+
+        res.json({
+            status: await job.getState(),
+            progress: job.progress,
+            result: job.returnvalue,
+            error: job.failedReason,
+        });
+    } catch (error) {
+        safeError(res, "Error getting OPML import status", error);
+    }
+});
+
+/**
+ * GET /podcasts/export/opml
+ * Download the user's subscriptions as an OPML file
+ */
+router.get("/export/opml", requireAuth, async (req, res) => {
+    try {
+        const opml = await podcastSubscriptionService.exportOpml(req.user!.id);
+
+        res.setHeader("Content-Type", "text/x-opml; charset=utf-8");
+        res.setHeader(
+            "Content-Disposition",
+            'attachment; filename="kima-podcasts.opml"'
+        );
+        res.send(opml);
+    } catch (error) {
+        safeError(res, "Error exporting OPML", error);
+    }
+});
+
+/**
+ * GET /podcasts/storage
+ * Storage used by the user's podcast downloads, per show, with each
+ * subscription's download rules
+ */
+router.get("/storage", requireAuth, async (req, res) => {
+    try {
+        res.json(await podcastRetentionService.getStorageUsage(req.user!.id));
+    } catch (error) {
+        safeError(res, "Error getting podcast storage usage", error);
+    }
+});
+
 /**
  * GET /podcasts/:id
  * Get a specific podcast with full details and episodes
@@ -629,6 +751,10 @@ router.get("/:id", requireAuth, async (req, res) => {
             episodeNumber: episode.episodeNumber,
             season: episode.season,
             imageUrl: episode.imageUrl,
+            hasChapters: !!episode.chaptersUrl,
+            hasTranscript: !!episode.transcriptUrl,
+            persons: episode.persons ?? [],
+            funding: episode.funding ?? [],
             isDownloaded: episode.downloads.length > 0,
             progress: episode.progress[0]
                 ? {
@@ -652,8 +778,10 @@ router.get("/:id", requireAuth, async (req, res) => {
             description: podcast.description,
             coverUrl: podcast.imageUrl,
             feedUrl: podcast.feedUrl,
+            persons: podcast.persons ?? [],
+            funding: podcast.funding ?? [],
             genres: [], // Podcast genres not yet stored in database
-            autoDownloadEpisodes: false,
+            autoDownloadEpisodes: subscription.autoDownload,
             episodes: episodesWithProgress,
             isSubscribed: true,
         });
@@ -682,160 +810,24 @@ router.post("/subscribe", requireAuth, async (req, res) => {
         logger.debug(`   Feed URL: ${feedUrl || "N/A"}`);
         logger.debug(`   iTunes ID: ${itunesId || "N/A"}`);
 
-        let finalFeedUrl = feedUrl;
-
-        // If only iTunes ID provided, fetch feed URL from iTunes API
-        if (!finalFeedUrl && itunesId) {
-            logger.debug(`    Looking up feed URL from iTunes...`);
-            const itunesResponse = await axios.get(
-                "https://itunes.apple.com/lookup",
-                {
-                    params: { id: itunesId, entity: "podcast" },
-                }
+        const { podcast, alreadySubscribed } =
+            await podcastSubscriptionService.subscribe(
+                req.user!.id,
+                feedUrl,
+                itunesId
             );
 
-            if (
-                itunesResponse.data.resultCount === 0 ||
-                !itunesResponse.data.results[0].feedUrl
-            ) {
-                return res
-                    .status(404)
-                    .json({ error: "Podcast not found in iTunes" });
-            }
-
-            finalFeedUrl = itunesResponse.data.results[0].feedUrl;
-            logger.debug(`   Found feed URL: ${finalFeedUrl}`);
-        }
-
-        // SSRF validation: block internal/private addresses
-        const ssrfError = await validateUrlForFetch(finalFeedUrl);
-        if (ssrfError) {
-            return res.status(400).json({ error: `Invalid feed URL: ${ssrfError}` });
-        }
-
-        // Check if podcast already exists in database
-        let podcast = await prisma.podcast.findUnique({
-            where: { feedUrl: finalFeedUrl },
-        });
-
-        if (podcast) {
-            logger.debug(`   Podcast exists in database: ${podcast.title}`);
-
-            // Check if user is already subscribed
-            const existingSubscription =
-                await prisma.podcastSubscription.findUnique({
-                    where: {
-                        userId_podcastId: {
-                            userId: req.user!.id,
-                            podcastId: podcast.id,
-                        },
-                    },
-                });
-
-            if (existingSubscription) {
-                logger.debug(`     User already subscribed`);
-                return res.json({
-                    success: true,
-                    podcast: {
-                        id: podcast.id,
-                        title: podcast.title,
-                    },
-                    message: "Already subscribed",
-                });
-            }
-
-            // Subscribe user to existing podcast
-            await prisma.podcastSubscription.create({
-                data: {
-                    userId: req.user!.id,
-                    podcastId: podcast.id,
-                },
-            });
-
-            logger.debug(`   User subscribed to existing podcast`);
-            return res.json({
-                success: true,
-                podcast: {
-                    id: podcast.id,
-                    title: podcast.title,
-                },
-                message: "Subscribed successfully",
-            });
-        }
-
-        // Parse RSS feed to get podcast and episodes
-        logger.debug(`   Parsing RSS feed...`);
-        const subscribeResult = await rssParserService.parseFeed(finalFeedUrl);
-        if (subscribeResult.notModified) {
-            return res.status(500).json({ error: "Unexpected 304 on initial subscribe" });
-        }
-        const { podcast: podcastData, episodes } = subscribeResult;
-
-        // Create podcast in database
-        logger.debug(`    Saving podcast to database...`);
-        const finalItunesId = itunesId || podcastData.itunesId;
-        logger.debug(`   iTunes ID to save: ${finalItunesId || "NONE"}`);
-
-        podcast = await prisma.podcast.create({
-            data: {
-                feedUrl: finalFeedUrl,
-                title: podcastData.title,
-                author: podcastData.author,
-                description: podcastData.description,
-                imageUrl: podcastData.imageUrl,
-                itunesId: finalItunesId,
-                language: podcastData.language,
-                explicit: podcastData.explicit || false,
-                episodeCount: episodes.length,
-                feedEtag: subscribeResult.etag || null,
-                feedLastModified: subscribeResult.lastModified || null,
-            },
-        });
-
-        logger.debug(`   Podcast created: ${podcast.id}`);
-        logger.debug(`   iTunes ID saved: ${podcast.itunesId || "NONE"}`);
-
-        // Save episodes
-        logger.debug(`    Saving ${episodes.length} episodes...`);
-        await prisma.podcastEpisode.createMany({
-            data: episodes.map((ep) => ({
-                podcastId: podcast!.id,
-                guid: ep.guid,
-                title: ep.title,
-                description: ep.description,
-                audioUrl: ep.audioUrl,
-                duration: ep.duration,
-                publishedAt: ep.publishedAt,
-                episodeNumber: ep.episodeNumber,
-                season: ep.season,
-                imageUrl: ep.imageUrl,
-                fileSize: ep.fileSize,
-                mimeType: ep.mimeType,
-            })),
-            skipDuplicates: true,
-        });
-
-        logger.debug(`   Episodes saved`);
-
-        // Subscribe user
-        await prisma.podcastSubscription.create({
-            data: {
-                userId: req.user!.id,
-                podcastId: podcast.id,
-            },
-        });
-
-        logger.debug(`   User subscribed successfully`);
-
         res.json({
             success: true,
-            podcast: {
-                id: podcast.id,
-                title: podcast.title,
-            },
-            message: "Subscribed successfully",
+            podcast,
+            message: alreadySubscribed
+                ? "Already subscribed"
+                : "Subscribed successfully",
         });
     } catch (error) {
+        if (error instanceof UserFacingError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         safeError(res, "Error subscribing to podcast", error);
     }
 });
@@ -928,6 +920,96 @@ router.get("/:id/refresh", requireAuth, async (req, res) => {
     }
 });
 
+const downloadRulesSchema = z.object({
+    autoDownload: z.boolean().optional(),
+    keepLatest: z.number().int().min(1).max(500).nullable().optional(),
+    deletePlayedAfterDays: z.number().int().min(0).max(3650).nullable().optional(),
+    maxStorageMb: z.number().int().min(1).nullable().optional(),
+});
+
+/**
+ * GET /podcasts/:id/download-rules
+ * Auto-download and retention rules for the user's subscription
+ */
+router.get("/:id/download-rules", requireAuth, async (req, res) => {
+    try {
+        res.json(await podcastRetentionService.getRules(req.user!.id, req.params.id));
+    } catch (error) {
+        if (error instanceof UserFacingError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        safeError(res, "Error getting download rules", error);
+    }
+});
+
+/**
+ * PUT /podcasts/:id/download-rules
+ * Update the subscription's rules and apply them straight away. Null clears
+ * a limit.
+ */
+router.put("/:id/download-rules", requireAuth, async (req, res) => {
+    try {
+        const updates = downloadRulesSchema.parse(req.body);
+        res.json(
+            await podcastRetentionService.updateRules(req.user!.id, req.params.id, updates)
+        );
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: "Invalid download rules", details: error.errors });
+        }
+        if (error instanceof UserFacingError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        safeError(res, "Error updating download rules", error);
+    }
+});
+
+/**
+ * GET /podcasts/:podcastId/episodes/:episodeId/chapters
+ * Podcasting 2.0 chapters, fetched from the feed's chapters file on first request
+ */
+router.get("/:podcastId/episodes/:episodeId/chapters", requireAuth, async (req, res) => {
+    try {
+        const { podcastId, episodeId } = req.params;
+
+        const episode = await prisma.podcastEpisode.findFirst({
+            where: { id: episodeId, podcastId },
+            select: { id: true },
+        });
+        if (!episode) {
+            return res.status(404).json({ error: "Episode not found" });
+        }
+
+        const chapters = await podcastNamespaceService.getChapters(episodeId);
+        res.json({ chapters });
+    } catch (error) {
+        safeError(res, "Error fetching chapters", error);
+    }
+});
+
+/**
+ * GET /podcasts/:podcastId/episodes/:episodeId/transcript
+ * Timed transcript segments, fetched from the feed's transcript on first request
+ */
+router.get("/:podcastId/episodes/:episodeId/transcript", requireAuth, async (req, res) => {
+    try {
+        const { podcastId, episodeId } = req.params;
+
+        const episode = await prisma.podcastEpisode.findFirst({
+            where: { id: episodeId, podcastId },
+            select: { id: true },
+        });
+        if (!episode) {
+            return res.status(404).json({ error: "Episode not found" });
+        }
+
+        const segments = await podcastNamespaceService.getTranscript(episodeId);
+        res.json({ segments });
+    } catch (error) {
+        safeError(res, "Error fetching transcript", error);
+    }
+});
+
 /**
  * GET /podcasts/:podcastId/episodes/:episodeId/cache-status
  * Check if a podcast episode is cached locally
@@ -1704,21 +1786,54 @@ export async function refreshPodcastFeed(podcastId: string): Promise<{ newEpisod
             lastRefreshed: new Date(),
             feedEtag: result.etag || null,
             feedLastModified: result.lastModified || null,
+            persons: toJson(result.podcast.persons) ?? Prisma.DbNull,
+            funding: toJson(result.podcast.funding) ?? Prisma.DbNull,
         },
     });
 
-    // Batch fetch all existing GUIDs to avoid N+1 queries
+    // Batch fetch all existing episodes to avoid N+1 queries
     const feedGuids = result.episodes.map(e => e.guid).filter(Boolean);
-    const existingGuids = new Set(
+    const existingEpisodes = new Map(
         (await prisma.podcastEpisode.findMany({
             where: { podcastId, guid: { in: feedGuids } },
-            select: { guid: true },
-        })).map(e => e.guid)
+            select: {
+                id: true,
+                guid: true,
+                chaptersUrl: true,
+                transcriptUrl: true,
+                persons: true,
+                funding: true,
+            },
+        })).map(e => [e.guid, e])
     );
 
     let newEpisodesCount = 0;
     for (const ep of result.episodes) {
-        if (existingGuids.has(ep.guid)) continue;
+        const existing = existingEpisodes.get(ep.guid);
+        if (existing) {
+            // Chapters, transcripts and credits are often added after release
+            const chaptersChanged = (existing.chaptersUrl ?? undefined) !== ep.chaptersUrl;
+            const transcriptChanged = (existing.transcriptUrl ?? undefined) !== ep.transcriptUrl;
+            const creditsChanged =
+                !sameJson(existing.persons, ep.persons) || !sameJson(existing.funding, ep.funding);
+            if (chaptersChanged || transcriptChanged || creditsChanged) {
+                await prisma.podcastEpisode.update({
+                    where: { id: existing.id },
+                    data: {
+                        chaptersUrl: ep.chaptersUrl ?? null,
+                        transcriptUrl: ep.transcriptUrl ?? null,
+                        transcriptType: ep.transcriptType ?? null,
+                        persons: toJson(ep.persons) ?? Prisma.DbNull,
+                        funding: toJson(ep.funding) ?? Prisma.DbNull,
+                        ...(chaptersChanged ? { chapters: Prisma.DbNull, chaptersFetchedAt: null } : {}),
+                        ...(transcriptChanged
+                            ? { transcriptFetchedAt: null, transcriptSegments: { deleteMany: {} } }
+                            : {}),
+                    },
+                });
+            }
+            continue;
+        }
 
         await prisma.podcastEpisode.create({
             data: {
@@ -1734,11 +1849,22 @@ export async function refreshPodcastFeed(podcastId: string): Promise<{ newEpisod
                 imageUrl: ep.imageUrl,
                 fileSize: ep.fileSize,
                 mimeType: ep.mimeType,
+                chaptersUrl: ep.chaptersUrl,
+                transcriptUrl: ep.transcriptUrl,
+                transcriptType: ep.transcriptType,
+                persons: toJson(ep.persons),
+                funding: toJson(ep.funding),
             },
         });
         newEpisodesCount++;
     }
 
+    try {
+        await podcastNamespaceService.cachePodcast(podcastId);
+    } catch (error: any) {
+        logger.warn(`[PODCAST] Chapter/transcript caching failed for ${podcastId}: ${error.message}`);
+    }
+
     return { newEpisodesCount, totalEpisodes: result.episodes.length };
 }
 
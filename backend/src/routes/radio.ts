@@ -0,0 +1,162 @@
+import { Response, Router } from "express";
+import axios from "axios";
+import { z } from "zod";
+import { logger } from "../utils/logger";
+import { requireAdmin, requireAuth, requireAuthOrToken } from "../middleware/auth";
+import { safeError, UserFacingError } from "../utils/errors";
+import { BlockedUrlError, getUntrustedUrl } from "../utils/safeFetch";
+import { IcyMetadataStripper } from "../utils/icyMetadata";
+import { radioStationService } from "../services/radioStations";
+import { eventBus } from "../services/eventBus";
+
+const router = Router();
+
+// Stations often bounce through a load balancer or two before the stream
+const MAX_STREAM_REDIRECTS = 5;
+
+const stationSchema = z.object({
+    name: z.string().min(1).max(200),
+    streamUrl: z.string().url(),
+    homepageUrl: z.string().url().nullable().optional(),
+});
+
+function handleWriteError(res: Response, context: string, error: unknown) {
+    if (error instanceof z.ZodError) {
+        return res
+            .status(400)
+            .json({ error: "Invalid request", details: error.errors });
+    }
+    if (error instanceof UserFacingError) {
+        return res.status(error.statusCode).json({ error: error.message });
+    }
+    safeError(res, context, error);
+}
+
+// GET /radio-stations
+router.get("/", requireAuth, async (_req, res) => {
+    try {
+        const stations = await radioStationService.list();
+        res.json(stations);
+    } catch (error) {
+        safeError(res, "List radio stations", error);
+    }
+});
+
+// POST /radio-stations
+router.post("/", requireAdmin, async (req, res) => {
+    try {
+        const data = stationSchema.parse(req.body);
+        const station = await radioStationService.create(req.user!.id, data);
+        res.status(201).json(station);
+    } catch (error) {
+        handleWriteError(res, "Create radio station", error);
+    }
+});
+
+// PUT /radio-stations/:id
+router.put("/:id", requireAdmin, async (req, res) => {
+    try {
+        const data = stationSchema.parse(req.body);
+        const station = await radioStationService.update(req.params.id, data);
+        if (!station) {
+            return res.status(404).json({ error: "Radio station not found" });
+        }
+        res.json(station);
+    } catch (error) {
+        handleWriteError(res, "Update radio station", error);
+    }
+});
+
+// DELETE /radio-stations/:id
+router.delete("/:id", requireAdmin, async (req, res) => {
+    try {
+        if (!(await radioStationService.delete(req.params.id))) {
+            return res.status(404).json({ error: "Radio station not found" });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        safeError(res, "Delete radio station", error);
+    }
+});
+
+/**
+ * GET /radio-stations/:id/stream
+ * Proxies a live stream to the web player. Requests ICY metadata from the
+ * station, strips it out of the audio and pushes title changes to the
+ * listener as `radio:metadata` SSE events.
+ */
+router.get("/:id/stream", requireAuthOrToken, async (req, res) => {
+    try {
+        const station = await radioStationService.get(req.params.id);
+        if (!station) {
+            return res.status(404).json({ error: "Radio station not found" });
+        }
+
+        const controller = new AbortController();
+        res.on("close", () => {
+            controller.abort();
+        });
+
+        let response;
+        try {
+            // Re-checked at fetch time: DNS may have changed since the station was saved
+            response = await getUntrustedUrl(
+                station.streamUrl,
+                {
+                    headers: { "Icy-MetaData": "1" },
+                    responseType: "stream",
+                    timeout: 15000,
+                    signal: controller.signal,
+                },
+                MAX_STREAM_REDIRECTS
+            );
+        } catch (error) {
+            if (axios.isCancel(error)) return;
+            if (error instanceof BlockedUrlError) {
+                logger.warn(`[RADIO] SSRF blocked: ${error.message}`);
+                return res.status(400).json({ error: "Invalid stream URL" });
+            }
+            logger.warn(`[RADIO] Could not connect to ${station.name}: ${(error as Error).message}`);
+            return res.status(502).json({ error: "Radio station unavailable" });
+        }
+
+        res.writeHead(200, {
+            "Content-Type": response.headers["content-type"] || "audio/mpeg",
+            "Cache-Control": "no-cache, no-store",
+        });
+
+        response.data.on("error", (err: Error) => {
+            if ((err as any).code !== "ERR_STREAM_PREMATURE_CLOSE") {
+                logger.debug(`[RADIO] Stream error for ${station.name}: ${err.message}`);
+            }
+            if (!res.writableEnded) {
+                res.end();
+            }
+        });
+        res.on("close", () => {
+            if (response.data && !response.data.destroyed) {
+                response.data.destroy();
+            }
+        });
+
+        const metaInt = parseInt(response.headers["icy-metaint"] || "0", 10);
+        if (!(metaInt > 0)) {
+            response.data.pipe(res);
+            return;
+        }
+
+        const userId = req.user!.id;
+        const stripper = new IcyMetadataStripper(metaInt, (title) => {
+            eventBus.emit({
+                type: "radio:metadata",
+                userId,
+                payload: { stationId: station.id, title },
+            });
+        });
+        response.data.pipe(stripper).pipe(res);
+    } catch (error) {
+        safeError(res, "Radio stream", error);
+    }
+});
+
+export default router;
@@ -3,7 +3,14 @@ import { logger } from "../utils/logger";
 import { requireAuth, requireAdmin } from "../middleware/auth";
 import { prisma } from "../utils/db";
 import { z } from "zod";
+import { UserSettings } from "@prisma/client";
 import { staleJobCleanupService } from "../services/staleJobCleanup";
+import { lastFmService, LastFmApiError } from "../services/lastfm";
+import { listenBrainzService } from "../services/listenbrainz";
+import { listenImportQueue } from "../workers/queues";
+import { podcastRetentionService } from "../services/podcastRetention";
+import { encrypt } from "../utils/encryption";
+import { normalizeProfileKey } from "../services/transcodeProfiles";
 
 const router = Router();
 
@@ -14,8 +21,39 @@ const settingsSchema = z.object({
     wifiOnly: z.boolean().optional(),
     offlineEnabled: z.boolean().optional(),
     maxCacheSizeMb: z.number().int().min(0).optional(),
+    lastfmScrobbling: z.boolean().optional(),
+    listenbrainzScrobbling: z.boolean().optional(),
+    replayGainMode: z.enum(["off", "track", "album", "auto"]).optional(),
+    replayGainPreamp: z.number().min(-15).max(15).optional(),
+    crossfadeSeconds: z.number().int().min(0).max(12).optional(),
+    podcastStorageLimitMb: z.number().int().min(0).nullable().optional(),
+    transcodeProfile: z
+        .string()
+        .refine((key) => normalizeProfileKey(key) !== null, "Unknown transcoding profile")
+        .transform((key) => normalizeProfileKey(key)!)
+        .nullable()
+        .optional(),
 });
 
+const lastfmSessionSchema = z.object({
+    token: z.string().min(1),
+});
+
+const listenbrainzTokenSchema = z.object({
+    token: z.string().trim().min(1),
+});
+
+// Session keys and tokens never leave the server; the client only learns whether one exists.
+// Audio effects have their own per-device endpoint (/audio-effects).
+function toClientSettings(settings: UserSettings) {
+    const { lastfmSessionKey, listenbrainzToken, audioEffects: _audioEffects, ...rest } = settings;
+    return {
+        ...rest,
+        lastfmConnected: Boolean(lastfmSessionKey),
+        listenbrainzConnected: Boolean(listenbrainzToken),
+    };
+}
+
 // GET /settings
 router.get("/", async (req, res) => {
     try {
@@ -38,7 +76,7 @@ router.get("/", async (req, res) => {
             });
         }
 
-        res.json(settings);
+        res.json(toClientSettings(settings));
     } catch (error) {
         logger.error("Get settings error:", error);
         res.status(500).json({ error: "Failed to get settings" });
@@ -60,7 +98,14 @@ router.post("/", async (req, res) => {
             update: data,
         });
 
-        res.json(settings);
+        // A lowered limit takes effect now rather than at the next feed refresh
+        if (data.podcastStorageLimitMb != null) {
+            await podcastRetentionService.enforceUserLimit(userId).catch((err) => {
+                logger.error("Podcast storage limit enforcement failed:", err);
+            });
+        }
+
+        res.json(toClientSettings(settings));
     } catch (error) {
         if (error instanceof z.ZodError) {
             return res
@@ -72,6 +117,202 @@ router.post("/", async (req, res) => {
     }
 });
 
+// GET /settings/lastfm/auth-url?callback=<url>
+// Step 1 of the Last.fm web auth flow: the client sends the user to this URL,
+// and Last.fm redirects back to `callback` with a one-time token.
+router.get("/lastfm/auth-url", async (req, res) => {
+    try {
+        const callback = req.query.callback as string | undefined;
+        let parsed: URL | null = null;
+        try {
+            parsed = callback ? new URL(callback) : null;
+        } catch {
+            parsed = null;
+        }
+        if (!parsed || (parsed.protocol !== "http:" && parsed.protocol !== "https:")) {
+            return res.status(400).json({ error: "A valid callback URL is required" });
+        }
+
+        if (!(await lastFmService.isScrobblingAvailable())) {
+            return res.status(409).json({
+                error: "Last.fm scrobbling requires an API key and secret in system settings",
+            });
+        }
+
+        res.json({ url: await lastFmService.getAuthUrl(parsed.toString()) });
+    } catch (error) {
+        logger.error("Last.fm auth URL error:", error);
+        res.status(500).json({ error: "Failed to start Last.fm authorization" });
+    }
+});
+
+// POST /settings/lastfm/session
+// Step 2: exchange the token Last.fm handed back for a permanent session key.
+router.post("/lastfm/session", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+        const { token } = lastfmSessionSchema.parse(req.body);
+
+        const { username, sessionKey } = await lastFmService.getSession(token);
+
+        await prisma.userSettings.upsert({
+            where: { userId },
+            create: {
+                userId,
+                lastfmUsername: username,
+                lastfmSessionKey: encrypt(sessionKey),
+            },
+            update: {
+                lastfmUsername: username,
+                lastfmSessionKey: encrypt(sessionKey),
+            },
+        });
+
+        logger.info(`[Last.fm] User ${userId} linked Last.fm account ${username}`);
+        res.json({ username });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", details: error.errors });
+        }
+        if (error instanceof LastFmApiError && !error.isTransient) {
+            // 14 = token not authorized, 15 = token expired
+            return res.status(400).json({ error: `Last.fm rejected the request: ${error.message}` });
+        }
+        logger.error("Last.fm session error:", error);
+        res.status(502).json({ error: "Failed to link Last.fm account" });
+    }
+});
+
+// DELETE /settings/lastfm
+router.delete("/lastfm", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+
+        await prisma.userSettings.updateMany({
+            where: { userId },
+            data: { lastfmUsername: null, lastfmSessionKey: null },
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        logger.error("Last.fm unlink error:", error);
+        res.status(500).json({ error: "Failed to unlink Last.fm account" });
+    }
+});
+
+// PUT /settings/listenbrainz
+// Link a ListenBrainz account with the user token from listenbrainz.org/settings.
+router.put("/listenbrainz", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+        const { token } = listenbrainzTokenSchema.parse(req.body);
+
+        const username = await listenBrainzService.validateToken(token);
+        if (!username) {
+            return res.status(400).json({ error: "ListenBrainz rejected the token" });
+        }
+
+        await prisma.userSettings.upsert({
+            where: { userId },
+            create: {
+                userId,
+                listenbrainzUsername: username,
+                listenbrainzToken: encrypt(token),
+            },
+            update: {
+                listenbrainzUsername: username,
+                listenbrainzToken: encrypt(token),
+            },
+        });
+
+        logger.info(`[ListenBrainz] User ${userId} linked ListenBrainz account ${username}`);
+        res.json({ username });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", details: error.errors });
+        }
+        logger.error("ListenBrainz link error:", error);
+        res.status(502).json({ error: "Failed to link ListenBrainz account" });
+    }
+});
+
+// DELETE /settings/listenbrainz
+router.delete("/listenbrainz", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+
+        await prisma.userSettings.updateMany({
+            where: { userId },
+            data: { listenbrainzUsername: null, listenbrainzToken: null },
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        logger.error("ListenBrainz unlink error:", error);
+        res.status(500).json({ error: "Failed to unlink ListenBrainz account" });
+    }
+});
+
+// One history import per user at a time
+const listenImportJobId = (userId: string) => `listenbrainz-import-${userId}`;
+
+// POST /settings/listenbrainz/import
+// Backfill ListenBrainz history into local play counts.
+router.post("/listenbrainz/import", async (req, res) => {
+    try {
+        const userId = req.user!.id;
+
+        const settings = await prisma.userSettings.findUnique({
+            where: { userId },
+            select: { listenbrainzToken: true },
+        });
+        if (!settings?.listenbrainzToken) {
+            return res.status(409).json({ error: "ListenBrainz account not linked" });
+        }
+
+        const jobId = listenImportJobId(userId);
+        const existing = await listenImportQueue.getJob(jobId);
+        if (existing) {
+            const state = await existing.getState();
+            if (state === "active" || state === "waiting" || state === "delayed") {
+                return res.status(409).json({ error: "An import is already running" });
+            }
+            // Finished jobs keep their id until removed; clear it so the import can run again
+            await existing.remove();
+        }
+
+        await listenImportQueue.add("listenbrainz", { userId }, { jobId });
+        res.status(202).json({ status: "waiting" });
+    } catch (error) {
+        logger.error("ListenBrainz import trigger error:", error);
+        res.status(500).json({ error: "Failed to start import" });
+    }
+});
+
+// GET /settings/listenbrainz/import
+router.get("/listenbrainz/import", async (req, res) => {
+    try {
+        const job = await listenImportQueue.getJob(listenImportJobId(req.user!.id));
+        if (!job) {
+            return res.json({ status: "none" });
+        }
+
+        res.json({
+            status: await job.getState(),
+            progress: job.progress,
+            result: job.returnvalue,
+            error: job.failedReason,
+        });
+    } catch (error) {
+        logger.error("ListenBrainz import status error:", error);
+        res.status(500).json({ error: "Failed to get import status" });
+    }
+});
+
 // POST /settings/cleanup-stale-jobs
 router.post("/cleanup-stale-jobs", requireAdmin, async (req, res) => {
     try {
@@ -8,6 +8,7 @@ import path from "path";
 import fs from "fs";
 import { getLocalImagePath, getResizedImagePath } from "../services/imageStorage";
 import { getAudioStreamingService } from "../services/audioStreaming";
+import { trackSegment, trackSourcePath } from "../services/cueSheet";
 import { config } from "../config";
 
 const router = Router();
@@ -222,6 +223,27 @@ router.get("/:token", shareResolveLimiter, async (req: Request, res: Response) =
                     },
                 },
             });
+        } else if (shareLink.entityType === "tracks") {
+            // Ad-hoc collection (Subsonic multi-id shares): keep the order the tracks were shared in
+            const tracks = await prisma.track.findMany({
+                where: { id: { in: shareLink.trackIds } },
+                include: {
+                    album: {
+                        include: {
+                            artist: { select: { id: true, name: true } },
+                        },
+                    },
+                },
+            });
+            const byId = new Map(tracks.map((t) => [t.id, t]));
+            const ordered = shareLink.trackIds.flatMap((id) => byId.get(id) ?? []);
+            if (ordered.length > 0) {
+                entity = {
+                    id: shareLink.id,
+                    name: shareLink.description || "Shared tracks",
+                    tracks: ordered,
+                };
+            }
         }
 
         if (!entity) {
@@ -330,6 +352,8 @@ router.get("/:token/stream/:trackId", shareStreamLimiter, async (req: Request, r
                 where: { id: trackId, albumId: shareLink.entityId },
             });
             authorized = !!track;
+        } else if (shareLink.entityType === "tracks") {
+            authorized = shareLink.trackIds.includes(trackId);
         }
 
         if (!authorized) {
@@ -338,7 +362,7 @@ router.get("/:token/stream/:trackId", shareStreamLimiter, async (req: Request, r
 
         const track = await prisma.track.findUnique({
             where: { id: trackId },
-            select: { filePath: true },
+            select: { id: true, filePath: true, fileModified: true, cueStart: true, cueEnd: true },
         });
 
         if (!track?.filePath) {
@@ -347,7 +371,7 @@ router.get("/:token/stream/:trackId", shareStreamLimiter, async (req: Request, r
 
         const musicPath = config.music.musicPath;
         const resolvedMusicPath = path.resolve(musicPath);
-        const fullPath = path.resolve(resolvedMusicPath, track.filePath);
+        const fullPath = path.resolve(resolvedMusicPath, trackSourcePath(track));
 
         if (!fullPath.startsWith(resolvedMusicPath + path.sep)) {
             return res.status(403).json({ error: "Access denied" });
@@ -371,7 +395,7 @@ router.get("/:token/stream/:trackId", shareStreamLimiter, async (req: Request, r
                 // Atomic check-and-increment: only succeeds if under the limit
                 const updated = await prisma.$executeRaw`
                     UPDATE "share_links"
-                    SET "playCount" = "playCount" + 1
+                    SET "playCount" = "playCount" + 1, "lastVisitedAt" = NOW()
                     WHERE "id" = ${shareLink.id}
                       AND ("maxPlays" IS NULL OR "playCount" < "maxPlays")
                 `;
@@ -382,17 +406,30 @@ router.get("/:token/stream/:trackId", shareStreamLimiter, async (req: Request, r
             } else {
                 await prisma.shareLink.update({
                     where: { id: shareLink.id },
-                    data: { playCount: { increment: 1 } },
+                    data: { playCount: { increment: 1 }, lastVisitedAt: new Date() },
                 });
             }
         }
 
-        const mimeType = getMimeType(track.filePath);
         const streamingService = getAudioStreamingService(
             config.music.musicPath,
             config.music.transcodeCachePath,
             config.music.transcodeCacheMaxGb,
         );
+        const segment = trackSegment(track);
+        if (segment) {
+            // CUE track: serve the cut from the transcode cache
+            const { filePath, mimeType } = await streamingService.getStreamFilePath(
+                track.id,
+                "original",
+                track.fileModified,
+                fullPath,
+                segment,
+            );
+            await streamingService.streamFileWithRangeSupport(req, res, filePath, mimeType);
+            return;
+        }
+        const mimeType = getMimeType(track.filePath);
         await streamingService.streamFileWithRangeSupport(req, res, fullPath, mimeType);
     } catch (error: any) {
         logger.error(`[Share] Stream error: ${error.message}`);
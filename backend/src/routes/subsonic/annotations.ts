@@ -0,0 +1,96 @@
+// backend/src/routes/subsonic/annotations.ts
+// Adds the per-user `starred` and `userRating` attributes to already-mapped
+// songs, albums and artists, and the OpenSubsonic `artists`/`contributors`
+// credits to songs. Kept out of mappers.ts so the mappers stay pure; call
+// sites annotate a whole list in one batch query per entity type.
+import { ratingService, RatableType } from "../../services/ratings";
+import {
+    trackCreditService,
+    formatDisplayArtist,
+    isPerformingRole,
+} from "../../services/trackCredits";
+
+type Annotated<T> = T & { "@_starred"?: string; "@_userRating"?: number };
+
+async function annotate<T extends { "@_id": string }>(
+    userId: string,
+    type: RatableType,
+    items: T[]
+): Promise<Annotated<T>[]> {
+    const annotations = await ratingService.getAnnotations(
+        userId,
+        type,
+        items.map((item) => item["@_id"])
+    );
+    return items.map((item) => {
+        const a = annotations.get(item["@_id"]);
+        if (!a) return item;
+        return {
+            ...item,
+            "@_starred": a.starredAt?.toISOString(),
+            "@_userRating": a.rating,
+        };
+    });
+}
+
+// Songs keep their album artist in `artist`/`artistId` for older clients;
+// `artists` lists every performing artist and `contributors` everyone else
+async function addCredits<T extends { "@_id": string }>(songs: T[]): Promise<T[]> {
+    const credits = await trackCreditService.getCredits(songs.map((s) => s["@_id"]));
+    return songs.map((song) => {
+        const trackCredits = credits.get(song["@_id"]);
+        if (!trackCredits?.length) return song;
+        const performing = trackCredits.filter((c) => isPerformingRole(c.role));
+        const contributing = trackCredits.filter((c) => !isPerformingRole(c.role));
+        const composers = contributing.filter((c) => c.role === "composer");
+        const artistRef = (artist: { id: string; name: string }) => ({
+            "@_id": artist.id,
+            "@_name": artist.name,
+        });
+        return {
+            ...song,
+            ...(performing.length > 0
+                ? {
+                      artists: performing.map((c) => artistRef(c.artist)),
+                      "@_displayArtist": formatDisplayArtist(performing),
+                  }
+                : {}),
+            ...(contributing.length > 0
+                ? {
+                      contributors: contributing.map((c) => ({
+                          "@_role": c.role,
+                          "@_subRole": c.subRole || undefined,
+                          artist: artistRef(c.artist),
+                      })),
+                  }
+                : {}),
+            ...(composers.length > 0
+                ? { "@_displayComposer": composers.map((c) => c.artist.name).join(", ") }
+                : {}),
+        };
+    });
+}
+
+export async function annotateSongs<T extends { "@_id": string }>(userId: string, songs: T[]) {
+    return annotate(userId, "track", await addCredits(songs));
+}
+
+export function annotateAlbums<T extends { "@_id": string }>(userId: string, albums: T[]) {
+    return annotate(userId, "album", albums);
+}
+
+export function annotateArtists<T extends { "@_id": string }>(userId: string, artists: T[]) {
+    return annotate(userId, "artist", artists);
+}
+
+export async function annotateOne<T extends { "@_id": string }>(
+    userId: string,
+    type: RatableType,
+    item: T
+): Promise<Annotated<T>> {
+    const [annotated] =
+        type === "track"
+            ? await annotateSongs(userId, [item])
+            : await annotate(userId, type, [item]);
+    return annotated;
+}
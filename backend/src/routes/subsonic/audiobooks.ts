@@ -0,0 +1,626 @@
+// backend/src/routes/subsonic/audiobooks.ts
+// Audiobooks as a separate music folder: authors are artists, books are
+// albums and each audio file of a book is a song. Requests for audiobook IDs
+// or the audiobook folder are answered here; everything else falls through
+// to the music routers.
+import { Router, Request, Response, NextFunction } from "express";
+import fs from "fs";
+import path from "path";
+import { Audiobook, AudiobookFile, AudiobookProgress } from "@prisma/client";
+import { prisma } from "../../utils/db";
+import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
+import { getAudiobookSources, getSystemSettings } from "../../utils/systemSettings";
+import { audiobookshelfService } from "../../services/audiobookshelf";
+import { audiobookCacheService } from "../../services/audiobookCache";
+import { audiobookProgressService } from "../../services/audiobookProgress";
+import { getAudioStreamingService } from "../../services/audioStreaming";
+import { logger } from "../../utils/logger";
+import { config } from "../../config";
+import { clamp, mimeToSuffix, parseIntParam, wrap } from "./mappers";
+
+export const audiobookRouter = Router();
+
+export const AUDIOBOOK_FOLDER_ID = 2;
+
+const BOOK_PREFIX = "ab-";
+const AUTHOR_PREFIX = "aba-";
+const PART_ID = /^abt-(\d+)-(.+)$/;
+
+export interface BookPart {
+    index: number;
+    title: string | null;
+    start: number;
+    duration: number;
+    mimeType: string | null;
+    size: number | null;
+    path?: string;
+}
+
+const UNKNOWN_AUTHOR = "Unknown Author";
+
+const authorId = (author: string | null) =>
+    `${AUTHOR_PREFIX}${Buffer.from(author || UNKNOWN_AUTHOR).toString("base64url")}`;
+
+const bookId = (id: string) => `${BOOK_PREFIX}${id}`;
+
+const partId = (book: { id: string }, part: { index: number }) => `abt-${part.index}-${book.id}`;
+
+export function parseAudiobookSongId(id: string): { audiobookId: string; index: number } | null {
+    const match = id.match(PART_ID);
+    return match ? { audiobookId: match[2], index: parseInt(match[1], 10) } : null;
+}
+
+/**
+ * Finds the part a book position falls in and the offset within it.
+ * Positions past the end land at the end of the last part.
+ */
+export function locatePosition(parts: BookPart[], currentTime: number): { part: BookPart; offset: number } | null {
+    if (parts.length === 0) return null;
+    const part =
+        [...parts].reverse().find((p) => currentTime >= p.start) ?? parts[0];
+    return { part, offset: clamp(currentTime - part.start, 0, part.duration) };
+}
+
+async function visibleSources(): Promise<string[]> {
+    return getAudiobookSources(await getSystemSettings());
+}
+
+async function findBook(id: string): Promise<Audiobook | null> {
+    const sources = await visibleSources();
+    if (sources.length === 0) return null;
+    return prisma.audiobook.findFirst({ where: { id, source: { in: sources } } });
+}
+
+function fileToPart(file: AudiobookFile): BookPart {
+    return {
+        index: file.index,
+        title: path.basename(file.path, path.extname(file.path)),
+        start: file.startOffset,
+        duration: file.duration,
+        mimeType: file.mimeType,
+        size: file.size !== null ? Number(file.size) : null,
+        path: file.path,
+    };
+}
+
+/**
+ * The audio files of a book in playback order. Local books are read from
+ * the database; Audiobookshelf tracks are fetched live like the web player
+ * does, and their layout is stored for getBookmarks.
+ */
+async function loadParts(book: Audiobook): Promise<BookPart[]> {
+    if (book.source === "local") {
+        const files = await prisma.audiobookFile.findMany({
+            where: { audiobookId: book.id },
+            orderBy: { index: "asc" },
+        });
+        return files.map(fileToPart);
+    }
+
+    try {
+        const item = await audiobookshelfService.getAudiobook(book.id);
+        const tracks = item.media?.tracks ?? [];
+        await audiobookCacheService.storeTrackLayout(book.id, tracks);
+        return tracks.map((track: any, index: number) => ({
+            index,
+            title: track.title || track.metadata?.filename || null,
+            start: track.startOffset ?? 0,
+            duration: track.duration ?? 0,
+            mimeType: track.mimeType || null,
+            size: track.metadata?.size ?? null,
+        }));
+    } catch (error: any) {
+        logger.warn(`[Subsonic] Could not load Audiobookshelf tracks for ${book.id}: ${error.message}`);
+        return [];
+    }
+}
+
+// A part is named after the chapter starting with it, so a book split into
+// one file per chapter reads like a track list
+function partTitle(book: Audiobook, part: BookPart, partCount: number): string {
+    if (partCount === 1) return book.title;
+    const chapters = Array.isArray(book.chapters) ? (book.chapters as any[]) : [];
+    const chapter = chapters.find((ch) => Math.abs(Number(ch?.start) - part.start) < 1);
+    return chapter?.title || part.title || `Part ${part.index + 1}`;
+}
+
+function mapBookAlbum(book: Audiobook) {
+    return {
+        "@_id": bookId(book.id),
+        "@_name": book.title,
+        "@_artist": book.author || UNKNOWN_AUTHOR,
+        "@_artistId": authorId(book.author),
+        "@_coverArt": bookId(book.id),
+        "@_songCount": book.numTracks ?? 1,
+        "@_duration": Math.round(book.duration ?? 0),
+        "@_year": book.publishedYear || undefined,
+        "@_genre": book.genres[0] || undefined,
+    };
+}
+
+function mapBookSong(book: Audiobook, part: BookPart, partCount: number, progress?: AudiobookProgress | null) {
+    const contentType = part.mimeType || "audio/mpeg";
+    // Clients that resume from bookmarkPosition pick up where the web player stopped
+    const inPart =
+        !!progress &&
+        !progress.isFinished &&
+        progress.currentTime > 0 &&
+        progress.currentTime >= part.start &&
+        progress.currentTime < part.start + part.duration;
+
+    return {
+        "@_id": partId(book, part),
+        "@_parent": bookId(book.id),
+        "@_title": partTitle(book, part, partCount),
+        "@_album": book.title,
+        "@_artist": book.author || UNKNOWN_AUTHOR,
+        "@_isDir": false,
+        "@_coverArt": bookId(book.id),
+        "@_duration": Math.round(part.duration),
+        "@_track": part.index + 1,
+        "@_year": book.publishedYear || undefined,
+        "@_genre": book.genres[0] || undefined,
+        "@_size": part.size ?? undefined,
+        "@_contentType": contentType,
+        "@_suffix": mimeToSuffix(contentType),
+        "@_albumId": bookId(book.id),
+        "@_artistId": authorId(book.author),
+        "@_type": "audiobook",
+        "@_bookmarkPosition": inPart ? Math.round((progress!.currentTime - part.start) * 1000) : undefined,
+    };
+}
+
+async function userProgress(userId: string, audiobookId: string) {
+    return prisma.audiobookProgress.findUnique({
+        where: { userId_audiobookshelfId: { userId, audiobookshelfId: audiobookId } },
+    });
+}
+
+const isAudiobookFolder = (req: Request) =>
+    req.query.musicFolderId === String(AUDIOBOOK_FOLDER_ID);
+
+const queryId = (req: Request) => (req.query.id as string | undefined) ?? "";
+
+/**
+ * Runs the handler for requests that `matches` claims and hands everything
+ * else on to the music routers mounted after this one.
+ */
+function audiobookRoute(
+    matches: (req: Request) => boolean,
+    fn: (req: Request, res: Response) => Promise<void | Response>
+) {
+    const handler = wrap(fn);
+    return (req: Request, res: Response, next: NextFunction) =>
+        matches(req) ? handler(req, res) : next();
+}
+
+// ===================== BROWSING =====================
+
+audiobookRouter.all(["/getArtists.view", "/getIndexes.view"], audiobookRoute(isAudiobookFolder, async (req, res) => {
+    const sources = await visibleSources();
+    const authors = sources.length
+        ? await prisma.audiobook.groupBy({
+              by: ["author"],
+              where: { source: { in: sources } },
+              _count: { _all: true },
+              orderBy: { author: "asc" },
+          })
+        : [];
+
+    const buckets: Record<string, unknown[]> = {};
+    for (const row of authors) {
+        const name = row.author || UNKNOWN_AUTHOR;
+        const first = name[0]?.toUpperCase() ?? "#";
+        const key = /[A-Z]/.test(first) ? first : "#";
+        (buckets[key] ??= []).push({
+            "@_id": authorId(row.author),
+            "@_name": name,
+            "@_albumCount": row._count._all,
+        });
+    }
+
+    const responseKey = req.path.includes("getIndexes") ? "indexes" : "artists";
+    subsonicOk(req, res, {
+        [responseKey]: {
+            "@_ignoredArticles": "",
+            index: Object.entries(buckets)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([name, artist]) => ({ "@_name": name, artist })),
+        },
+    });
+}));
+
+async function booksByAuthor(id: string): Promise<{ name: string; books: Audiobook[] } | null> {
+    const name = Buffer.from(id.slice(AUTHOR_PREFIX.length), "base64url").toString();
+    const sources = await visibleSources();
+    if (sources.length === 0) return null;
+
+    const books = await prisma.audiobook.findMany({
+        where: {
+            source: { in: sources },
+            ...(name === UNKNOWN_AUTHOR ? { OR: [{ author: null }, { author: name }] } : { author: name }),
+        },
+        orderBy: [{ series: "asc" }, { seriesSequence: "asc" }, { title: "asc" }],
+    });
+    return books.length > 0 ? { name, books } : null;
+}
+
+audiobookRouter.all("/getArtist.view", audiobookRoute((req) => queryId(req).startsWith(AUTHOR_PREFIX), async (req, res) => {
+    const id = queryId(req);
+    const author = await booksByAuthor(id);
+    if (!author) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Artist not found");
+
+    subsonicOk(req, res, {
+        artist: {
+            "@_id": id,
+            "@_name": author.name,
+            "@_albumCount": author.books.length,
+            album: author.books.map(mapBookAlbum),
+        },
+    });
+}));
+
+audiobookRouter.all("/getMusicDirectory.view", audiobookRoute((req) => queryId(req).startsWith(BOOK_PREFIX) || queryId(req).startsWith(AUTHOR_PREFIX), async (req, res) => {
+    const id = queryId(req);
+
+    if (id.startsWith(AUTHOR_PREFIX)) {
+        const author = await booksByAuthor(id);
+        if (!author) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Directory not found");
+
+        return subsonicOk(req, res, {
+            directory: {
+                "@_id": id,
+                "@_name": author.name,
+                child: author.books.map((book) => ({
+                    "@_id": bookId(book.id),
+                    "@_parent": id,
+                    "@_isDir": true,
+                    "@_title": book.title,
+                    "@_album": book.title,
+                    "@_artist": author.name,
+                    "@_artistId": id,
+                    "@_coverArt": bookId(book.id),
+                })),
+            },
+        });
+    }
+
+    const book = await findBook(id.slice(BOOK_PREFIX.length));
+    if (!book) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Directory not found");
+
+    const [parts, progress] = await Promise.all([loadParts(book), userProgress(req.user!.id, book.id)]);
+    subsonicOk(req, res, {
+        directory: {
+            "@_id": bookId(book.id),
+            "@_parent": authorId(book.author),
+            "@_name": book.title,
+            ...(parts.length > 0
+                ? { child: parts.map((part) => mapBookSong(book, part, parts.length, progress)) }
+                : {}),
+        },
+    });
+}));
+
+audiobookRouter.all("/getAlbum.view", audiobookRoute((req) => queryId(req).startsWith(BOOK_PREFIX), async (req, res) => {
+    const book = await findBook(queryId(req).slice(BOOK_PREFIX.length));
+    if (!book) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Album not found");
+
+    const [parts, progress] = await Promise.all([loadParts(book), userProgress(req.user!.id, book.id)]);
+    subsonicOk(req, res, {
+        album: {
+            ...mapBookAlbum(book),
+            "@_songCount": parts.length,
+            song: parts.map((part) => mapBookSong(book, part, parts.length, progress)),
+        },
+    });
+}));
+
+audiobookRouter.all("/getSong.view", audiobookRoute((req) => parseAudiobookSongId(queryId(req)) !== null, async (req, res) => {
+    const parsed = parseAudiobookSongId(queryId(req))!;
+
+    const book = await findBook(parsed.audiobookId);
+    const parts = book ? await loadParts(book) : [];
+    const part = parts.find((p) => p.index === parsed.index);
+    if (!book || !part) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
+
+    subsonicOk(req, res, {
+        song: mapBookSong(book, part, parts.length, await userProgress(req.user!.id, book.id)),
+    });
+}));
+
+audiobookRouter.all(["/getAlbumList2.view", "/getAlbumList.view"], audiobookRoute(isAudiobookFolder, async (req, res) => {
+    const type = (req.query.type as string) || "newest";
+    const size = clamp(parseIntParam(req.query.size as string | undefined, 10), 1, 500);
+    const offset = Math.max(0, parseIntParam(req.query.offset as string | undefined, 0));
+    const sources = await visibleSources();
+    const where = { source: { in: sources } };
+
+    let books: Audiobook[] = [];
+    if (sources.length > 0) {
+        switch (type) {
+            case "recent":
+            case "frequent": {
+                // Books the user has listened to, most recent first
+                const progress = await prisma.audiobookProgress.findMany({
+                    where: { userId: req.user!.id, currentTime: { gt: 0 } },
+                    orderBy: { lastPlayedAt: "desc" },
+                    select: { audiobookshelfId: true },
+                });
+                const ids = progress.map((p) => p.audiobookshelfId);
+                const found = await prisma.audiobook.findMany({ where: { ...where, id: { in: ids } } });
+                const byId = new Map(found.map((b) => [b.id, b]));
+                books = ids
+                    .map((id) => byId.get(id))
+                    .filter((b): b is Audiobook => !!b)
+                    .slice(offset, offset + size);
+                break;
+            }
+            case "alphabeticalByName":
+                books = await prisma.audiobook.findMany({ where, orderBy: { title: "asc" }, take: size, skip: offset });
+                break;
+            case "alphabeticalByArtist":
+                books = await prisma.audiobook.findMany({
+                    where,
+                    orderBy: [{ author: "asc" }, { title: "asc" }],
+                    take: size,
+                    skip: offset,
+                });
+                break;
+            case "byYear": {
+                const fromYear = parseInt(req.query.fromYear as string, 10);
+                const toYear = parseInt(req.query.toYear as string, 10);
+                if (isNaN(fromYear) || isNaN(toYear)) {
+                    return subsonicError(req, res, SubsonicError.MISSING_PARAM, "byYear requires fromYear and toYear");
+                }
+                books = await prisma.audiobook.findMany({
+                    where: {
+                        ...where,
+                        publishedYear: { gte: Math.min(fromYear, toYear), lte: Math.max(fromYear, toYear) },
+                    },
+                    orderBy: { publishedYear: fromYear <= toYear ? "asc" : "desc" },
+                    take: size,
+                    skip: offset,
+                });
+                break;
+            }
+            case "byGenre":
+                books = await prisma.audiobook.findMany({
+                    where: { ...where, genres: { has: (req.query.genre as string) || "" } },
+                    orderBy: { title: "asc" },
+                    take: size,
+                    skip: offset,
+                });
+                break;
+            case "random": {
+                const all = await prisma.audiobook.findMany({ where });
+                books = all.sort(() => Math.random() - 0.5).slice(0, size);
+                break;
+            }
+            case "starred":
+                break;
+            default:
+                books = await prisma.audiobook.findMany({
+                    where,
+                    orderBy: { createdAt: "desc" },
+                    take: size,
+                    skip: offset,
+                });
+        }
+    }
+
+    const key = req.path.includes("getAlbumList2") ? "albumList2" : "albumList";
+    subsonicOk(req, res, { [key]: { album: books.map(mapBookAlbum) } });
+}));
+
+audiobookRouter.all(["/search3.view", "/search2.view"], audiobookRoute(isAudiobookFolder, async (req, res) => {
+    const query = ((req.query.query as string | undefined) ?? "").replace(/^"|"$/g, "").trim();
+    const albumCount = clamp(parseIntParam(req.query.albumCount as string | undefined, 20), 0, 500);
+    const albumOffset = Math.max(0, parseIntParam(req.query.albumOffset as string | undefined, 0));
+    const responseKey = req.path.startsWith("/search3") ? "searchResult3" : "searchResult2";
+    const sources = await visibleSources();
+
+    const books =
+        sources.length > 0 && albumCount > 0
+            ? await prisma.audiobook.findMany({
+                  where: {
+                      source: { in: sources },
+                      ...(query
+                          ? {
+                                OR: [
+                                    { title: { contains: query, mode: "insensitive" as const } },
+                                    { author: { contains: query, mode: "insensitive" as const } },
+                                    { series: { contains: query, mode: "insensitive" as const } },
+                                ],
+                            }
+                          : {}),
+                  },
+                  orderBy: { title: "asc" },
+                  take: albumCount,
+                  skip: albumOffset,
+              })
+            : [];
+
+    subsonicOk(req, res, {
+        [responseKey]: books.length > 0 ? { album: books.map(mapBookAlbum) } : {},
+    });
+}));
+
+// ===================== STREAMING =====================
+
+audiobookRouter.all(["/stream.view", "/download.view"], audiobookRoute((req) => parseAudiobookSongId(queryId(req)) !== null, async (req, res) => {
+    const parsed = parseAudiobookSongId(queryId(req))!;
+
+    const book = await findBook(parsed.audiobookId);
+    if (!book) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
+
+    if (book.source === "local") {
+        const file = await prisma.audiobookFile.findUnique({
+            where: { audiobookId_index: { audiobookId: book.id, index: parsed.index } },
+        });
+        if (!file || !fs.existsSync(file.path)) {
+            return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
+        }
+
+        const streamingService = getAudioStreamingService(
+            config.music.musicPath,
+            config.music.transcodeCachePath,
+            config.music.transcodeCacheMaxGb,
+        );
+        return streamingService.streamFileWithRangeSupport(
+            req,
+            res,
+            file.path,
+            file.mimeType || streamingService.getMimeType(file.path),
+        );
+    }
+
+    const { stream, headers, status } = await audiobookshelfService.streamAudiobook(
+        book.id,
+        req.headers.range,
+        parsed.index,
+    );
+    res.status(status || 200);
+    res.setHeader("Content-Type", headers["content-type"] || "audio/mpeg");
+    res.setHeader("Accept-Ranges", headers["accept-ranges"] || "bytes");
+    if (headers["content-length"]) res.setHeader("Content-Length", headers["content-length"]);
+    if (headers["content-range"]) res.setHeader("Content-Range", headers["content-range"]);
+    res.on("close", () => {
+        if (!stream.destroyed) stream.destroy();
+    });
+    stream.on("error", (error: unknown) => {
+        logger.error("[Subsonic] Audiobook stream error:", error);
+        res.end();
+    });
+    stream.pipe(res);
+}));
+
+// Songs share their book's cover, but clients may still ask by song ID
+const coverBookId = (id: string) =>
+    id.startsWith(BOOK_PREFIX) ? id.slice(BOOK_PREFIX.length) : parseAudiobookSongId(id)?.audiobookId;
+
+audiobookRouter.all("/getCoverArt.view", audiobookRoute((req) => !!coverBookId(queryId(req)), async (req, res) => {
+    const audiobookId = coverBookId(queryId(req))!;
+
+    const book = await findBook(audiobookId);
+    const fallback = path.join(config.music.musicPath, "cover-cache", "audiobooks", `${audiobookId}.jpg`);
+    const coverPath = [book?.localCoverPath, fallback].find((p) => p && fs.existsSync(p));
+    if (!book || !coverPath) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Cover art not found");
+    }
+
+    res.setHeader("Cache-Control", "public, max-age=86400");
+    return res.sendFile(coverPath);
+}));
+
+// ===================== BOOKMARKS =====================
+
+/**
+ * The parts of several books from their stored file layout. An
+ * Audiobookshelf book whose layout was never fetched is one part if it has a
+ * single track; only multi-track books get loaded (and stored) live, once.
+ */
+async function storedParts(books: Audiobook[]): Promise<Map<string, BookPart[]>> {
+    const files = await prisma.audiobookFile.findMany({
+        where: { audiobookId: { in: books.map((b) => b.id) } },
+        orderBy: { index: "asc" },
+    });
+    const parts = new Map<string, BookPart[]>();
+    for (const file of files) {
+        const bookParts = parts.get(file.audiobookId) ?? [];
+        bookParts.push(fileToPart(file));
+        parts.set(file.audiobookId, bookParts);
+    }
+
+    for (const book of books) {
+        if (parts.has(book.id) || book.source === "local") continue;
+        parts.set(
+            book.id,
+            (book.numTracks ?? 1) <= 1
+                ? [{
+                      index: 0,
+                      title: null,
+                      start: 0,
+                      duration: book.duration ?? 0,
+                      mimeType: null,
+                      size: book.size !== null ? Number(book.size) : null,
+                  }]
+                : await loadParts(book)
+        );
+    }
+    return parts;
+}
+
+/**
+ * Audiobook bookmarks are the user's AudiobookProgress rows, so a position
+ * saved by a Subsonic client is the one the web player resumes from and the
+ * other way round. Changes made in Audiobookshelf's apps are pulled in first.
+ */
+export async function getAudiobookBookmarks(req: Request) {
+    const userId = req.user!.id;
+    const sources = await visibleSources();
+    if (sources.length === 0) return [];
+
+    if (sources.includes("audiobookshelf")) {
+        await audiobookProgressService.pullFromAudiobookshelf(userId);
+    }
+
+    const progress = await prisma.audiobookProgress.findMany({
+        where: { userId, isFinished: false, currentTime: { gt: 0 } },
+        orderBy: { lastPlayedAt: "desc" },
+    });
+    const books = await prisma.audiobook.findMany({
+        where: { id: { in: progress.map((p) => p.audiobookshelfId) }, source: { in: sources } },
+    });
+    const bookMap = new Map(books.map((b) => [b.id, b]));
+    const partsByBook = await storedParts(books);
+
+    const bookmarks = [];
+    for (const entry of progress) {
+        const book = bookMap.get(entry.audiobookshelfId);
+        if (!book) continue;
+        const parts = partsByBook.get(book.id) ?? [];
+        const located = locatePosition(parts, entry.currentTime);
+        if (!located) continue;
+
+        bookmarks.push({
+            "@_position": Math.round(located.offset * 1000),
+            "@_username": req.user!.username,
+            "@_created": entry.createdAt.toISOString(),
+            "@_changed": entry.lastPlayedAt.toISOString(),
+            entry: mapBookSong(book, located.part, parts.length, entry),
+        });
+    }
+    return bookmarks;
+}
+
+/**
+ * Saves a bookmark on an audiobook song as the book's listening position.
+ * Returns false when the ID is not an audiobook song.
+ */
+export async function saveAudiobookBookmark(req: Request, id: string, positionMs: number): Promise<boolean> {
+    const parsed = parseAudiobookSongId(id);
+    if (!parsed) return false;
+
+    const book = await findBook(parsed.audiobookId);
+    const parts = book ? await loadParts(book) : [];
+    const part = parts.find((p) => p.index === parsed.index);
+    if (!book || !part) return true;
+
+    await audiobookProgressService.saveProgress(req.user!.id, book.id, {
+        currentTime: part.start + Math.max(0, positionMs) / 1000,
+        duration: book.duration ?? undefined,
+    });
+    return true;
+}
+
+/**
+ * Deletes the listening position of the book an audiobook song belongs to.
+ * Returns false when the ID is not an audiobook song.
+ */
+export async function deleteAudiobookBookmark(req: Request, id: string): Promise<boolean> {
+    const parsed = parseAudiobookSongId(id);
+    if (!parsed) return false;
+
+    await audiobookProgressService.removeProgress(req.user!.id, parsed.audiobookId);
+    return true;
+}
@@ -1,40 +1,11 @@
 import { Router, Request, Response } from "express";
 import { prisma } from "../../utils/db";
 import { subsonicError, subsonicOk, SubsonicError } from "../../utils/subsonicResponse";
-import { parseRepeatedQueryParam } from "./mappers";
 
 export const compatRouter = Router();
 
 // Stubs for endpoints not yet fully implemented.
 // Return valid empty responses so strict clients (e.g. Symfonium) don't error.
-compatRouter.all("/getBookmarks.view", (req: Request, res: Response) => {
-    subsonicOk(req, res, { bookmarks: {} });
-});
-
-compatRouter.all("/createBookmark.view", (req: Request, res: Response) => {
-    subsonicOk(req, res);
-});
-
-compatRouter.all("/deleteBookmark.view", (req: Request, res: Response) => {
-    subsonicOk(req, res);
-});
-
-compatRouter.all("/getInternetRadioStations.view", (req: Request, res: Response) => {
-    subsonicOk(req, res, { internetRadioStations: {} });
-});
-
-compatRouter.all("/createInternetRadioStation.view", (req: Request, res: Response) => {
-    subsonicOk(req, res);
-});
-
-compatRouter.all("/updateInternetRadioStation.view", (req: Request, res: Response) => {
-    subsonicOk(req, res);
-});
-
-compatRouter.all("/deleteInternetRadioStation.view", (req: Request, res: Response) => {
-    subsonicOk(req, res);
-});
-
 compatRouter.all("/getAvatar.view", async (req: Request, res: Response) => {
     const username = req.query.username as string | undefined;
     if (!username) {
@@ -61,49 +32,6 @@ compatRouter.all("/getAvatar.view", async (req: Request, res: Response) => {
     return res.send(transparentPng);
 });
 
-compatRouter.all("/getShares.view", (req: Request, res: Response) => {
-    subsonicOk(req, res, { shares: {} });
-});
-
-compatRouter.all("/createShare.view", (req: Request, res: Response) => {
-    const ids = parseRepeatedQueryParam(req.query.id);
-    if (ids.length === 0) {
-        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
-    }
-
-    const created = new Date().toISOString();
-    return subsonicOk(req, res, {
-        shares: {
-            share: [
-                {
-                    "@_id": `kima-${Date.now()}`,
-                    "@_url": `${req.protocol}://${req.get("host")}/share/unsupported`,
-                    "@_description": (req.query.description as string | undefined) || undefined,
-                    "@_username": req.user!.username,
-                    "@_created": created,
-                    "@_visitCount": 0,
-                },
-            ],
-        },
-    });
-});
-
-compatRouter.all("/updateShare.view", (req: Request, res: Response) => {
-    const id = req.query.id as string | undefined;
-    if (!id) {
-        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
-    }
-    subsonicOk(req, res);
-});
-
-compatRouter.all("/deleteShare.view", (req: Request, res: Response) => {
-    const id = req.query.id as string | undefined;
-    if (!id) {
-        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
-    }
-    subsonicOk(req, res);
-});
-
 compatRouter.all("/getChatMessages.view", (req: Request, res: Response) => {
     subsonicOk(req, res, { chatMessages: {} });
 });
@@ -166,24 +94,3 @@ compatRouter.all("/jukeboxControl.view", (req: Request, res: Response) => {
         },
     });
 });
-
-compatRouter.all("/getTranscodeDecision.view", (req: Request, res: Response) => {
-    const mediaId = req.query.mediaId as string | undefined;
-    const mediaType = req.query.mediaType as string | undefined;
-    if (!mediaId) {
-        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: mediaId");
-    }
-    if (!mediaType) {
-        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: mediaType");
-    }
-
-    return subsonicOk(req, res, {
-        transcodeDecision: {
-            canDirectPlay: true,
-            canTranscode: true,
-            transcodeReason: [],
-            errorReason: "",
-            transcodeParams: "",
-        },
-    });
-});
\ No newline at end of file
@@ -5,6 +5,7 @@ import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicRe
 import { prisma } from "../../utils/db";
 import { scanQueue } from "../../workers/queues";
 import { config } from "../../config";
+import { getAudiobookSources, getSystemSettings } from "../../utils/systemSettings";
 
 import { compatRouter } from "./compat";
 import { libraryRouter } from "./library";
@@ -18,6 +19,9 @@ import { lyricsRouter } from "./lyrics";
 import { userManagementRouter } from "./userManagement";
 import { profileRouter } from "./profile";
 import { podcastRouter } from "./podcasts";
+import { shareRouter } from "./shares";
+import { radioRouter } from "./radio";
+import { audiobookRouter, AUDIOBOOK_FOLDER_ID } from "./audiobooks";
 
 export const subsonicRouter = Router();
 
@@ -88,12 +92,14 @@ subsonicRouter.all("/getLicense.view", (req: Request, res: Response) => {
     });
 });
 
-subsonicRouter.all("/getMusicFolders.view", (req: Request, res: Response) => {
-    subsonicOk(req, res, {
-        musicFolders: {
-            musicFolder: [{ "@_id": 1, "@_name": "Music" }],
-        },
-    });
+subsonicRouter.all("/getMusicFolders.view", async (req: Request, res: Response) => {
+    const musicFolder: { "@_id": number; "@_name": string }[] = [{ "@_id": 1, "@_name": "Music" }];
+    // Audiobooks get their own folder so clients keep them apart from music
+    if (getAudiobookSources(await getSystemSettings()).length > 0) {
+        musicFolder.push({ "@_id": AUDIOBOOK_FOLDER_ID, "@_name": "Audiobooks" });
+    }
+
+    subsonicOk(req, res, { musicFolders: { musicFolder } });
 });
 
 // OpenSubsonic extensions advertised by this server.
@@ -106,6 +112,7 @@ subsonicRouter.all("/getOpenSubsonicExtensions.view", (req: Request, res: Respon
             { name: "songLyrics", versions: [1] },
             { name: "indexBasedQueue", versions: [1] },
             { name: "getPodcastEpisode", versions: [1] },
+            { name: "transcoding", versions: [1] },
         ],
     });
 });
@@ -147,6 +154,8 @@ subsonicRouter.all(["/getAlbumInfo.view", "/getAlbumInfo2.view"], (req: Request,
 });
 
 subsonicRouter.use(compatRouter);
+// Claims audiobook IDs and the audiobook folder before the music routers see them
+subsonicRouter.use(audiobookRouter);
 
 subsonicRouter.use(libraryRouter);
 subsonicRouter.use(playbackRouter);
@@ -159,6 +168,8 @@ subsonicRouter.use(lyricsRouter);
 subsonicRouter.use(userManagementRouter);
 subsonicRouter.use(profileRouter);
 subsonicRouter.use(podcastRouter);
+subsonicRouter.use(shareRouter);
+subsonicRouter.use(radioRouter);
 
 // Catch-all: inform clients that an endpoint isn't implemented yet
 subsonicRouter.all("*", (req: Request, res: Response) => {
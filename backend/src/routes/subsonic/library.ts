@@ -1,9 +1,12 @@
 // backend/src/routes/subsonic/library.ts
 import { Router } from "express";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../../utils/db";
 import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
 import { mapArtist, mapAlbum, mapSong, firstArtistGenre, wrap, clamp, parseIntParam } from "./mappers";
+import { annotateSongs, annotateAlbums, annotateArtists, annotateOne } from "./annotations";
 import { normalizeArtistName } from "../../utils/artistNormalization";
+import { buildInstantMix, notDislikedBy } from "../../services/instantMix";
 
 export const libraryRouter = Router();
 
@@ -33,13 +36,18 @@ libraryRouter.all(["/getArtists.view", "/getIndexes.view"], wrap(async (req, res
         },
     });
 
-    const buckets: Record<string, ReturnType<typeof mapArtist>[]> = {};
-    for (const a of artists) {
-        const effective = artistSortKey(a.displayName || a.name);
+    const mapped = await annotateArtists(
+        req.user!.id,
+        artists.map((a) => mapArtist({ ...a, albumCount: a.libraryAlbumCount }))
+    );
+
+    const buckets: Record<string, typeof mapped> = {};
+    for (const a of mapped) {
+        const effective = artistSortKey(a["@_name"]);
         const first = effective[0]?.toUpperCase() ?? "#";
         const key = /[A-Z]/.test(first) ? first : "#";
         if (!buckets[key]) buckets[key] = [];
-        buckets[key].push(mapArtist({ ...a, albumCount: a.libraryAlbumCount }));
+        buckets[key].push(a);
     }
 
     const indexes = Object.entries(buckets)
@@ -114,7 +122,7 @@ libraryRouter.all("/getMusicDirectory.view", wrap(async (req, res) => {
                 "@_id": artist.id,
                 "@_name": artistName,
                 "@_parent": "1",
-                child: artist.albums.map((al) => ({
+                child: await annotateAlbums(req.user!.id, artist.albums.map((al) => ({
                     "@_id": al.id,
                     "@_parent": artist.id,
                     "@_title": al.displayTitle || al.title,
@@ -122,7 +130,7 @@ libraryRouter.all("/getMusicDirectory.view", wrap(async (req, res) => {
                     "@_isDir": true,
                     "@_coverArt": al.id,
                     "@_year": al.year || undefined,
-                })),
+                }))),
             },
         });
     }
@@ -150,9 +158,9 @@ libraryRouter.all("/getMusicDirectory.view", wrap(async (req, res) => {
                 "@_id": album.id,
                 "@_name": album.displayTitle || album.title,
                 "@_parent": album.artist.id,
-                child: album.tracks.map((t) =>
+                child: await annotateSongs(req.user!.id, album.tracks.map((t) =>
                     mapSong(t, album, artistName, album.artist.id, genre)
-                ),
+                )),
             },
         });
     }
@@ -184,12 +192,13 @@ libraryRouter.all("/getArtist.view", wrap(async (req, res) => {
 
     const artistName = artist.displayName || artist.name;
     const genre = firstArtistGenre(artist.genres, artist.userGenres);
+    const userId = req.user!.id;
     subsonicOk(req, res, {
         artist: {
-            ...mapArtist({ ...artist, albumCount: artist.albums.length }),
-            album: artist.albums.map((al) =>
+            ...(await annotateOne(userId, "artist", mapArtist({ ...artist, albumCount: artist.albums.length }))),
+            album: await annotateAlbums(userId, artist.albums.map((al) =>
                 mapAlbum({ ...al, songCount: al._count.tracks, genre }, artistName)
-            ),
+            )),
         },
     });
 }));
@@ -339,12 +348,17 @@ libraryRouter.all("/getAlbum.view", wrap(async (req, res) => {
     const genre = firstArtistGenre(album.artist.genres, album.artist.userGenres);
     const totalDuration = album.tracks.reduce((sum, t) => sum + (t.duration ?? 0), 0);
 
+    const userId = req.user!.id;
     subsonicOk(req, res, {
         album: {
-            ...mapAlbum({ ...album, songCount: album.tracks.length, duration: totalDuration, genre }, artistName),
-            song: album.tracks.map((t) =>
+            ...(await annotateOne(
+                userId,
+                "album",
+                mapAlbum({ ...album, songCount: album.tracks.length, duration: totalDuration, genre }, artistName)
+            )),
+            song: await annotateSongs(userId, album.tracks.map((t) =>
                 mapSong(t, album, artistName, album.artist.id, genre)
-            ),
+            )),
         },
     });
 }));
@@ -374,7 +388,11 @@ libraryRouter.all("/getSong.view", wrap(async (req, res) => {
     const artistName = track.album.artist.displayName || track.album.artist.name;
     const genre = firstArtistGenre(track.album.artist.genres, track.album.artist.userGenres);
     subsonicOk(req, res, {
-        song: mapSong(track, track.album, artistName, track.album.artist.id, genre),
+        song: await annotateOne(
+            req.user!.id,
+            "track",
+            mapSong(track, track.album, artistName, track.album.artist.id, genre)
+        ),
     });
 }));
 
@@ -500,11 +518,7 @@ libraryRouter.all(["/getAlbumList2.view", "/getAlbumList.view"], wrap(async (req
             albums = await prisma.album.findMany({
                 where: {
                     location: "LIBRARY",
-                    tracks: {
-                        some: {
-                            likedBy: { some: { userId } },
-                        },
-                    },
+                    starredBy: { some: { userId } },
                 },
                 orderBy: { title: "asc" },
                 take: size,
@@ -513,6 +527,19 @@ libraryRouter.all(["/getAlbumList2.view", "/getAlbumList.view"], wrap(async (req
             });
             break;
 
+        case "highest": {
+            // Only the user's own ratings; unrated albums are not listed
+            const ratings = await prisma.albumRating.findMany({
+                where: { userId, album: { location: "LIBRARY" } },
+                orderBy: [{ rating: "desc" }, { ratedAt: "desc" }],
+                take: size,
+                skip: offset,
+                include: { album: { include: albumInclude } },
+            });
+            albums = ratings.map((r) => r.album);
+            break;
+        }
+
         case "random": {
             const rows = await prisma.$queryRaw<AlbumWithArtist[]>`
                 SELECT a.id, a.title, a."displayTitle", a.year, a."coverUrl", a."userCoverUrl", a."artistId",
@@ -585,7 +612,7 @@ libraryRouter.all(["/getAlbumList2.view", "/getAlbumList.view"], wrap(async (req
             });
     }
 
-    const albumList = albums.map((a) => {
+    const albumList = await annotateAlbums(userId, albums.map((a) => {
         const artistName = a.artist.displayName || a.artist.name;
         const genre = firstArtistGenre(a.artist.genres, a.artist.userGenres);
         const songCount = a._count?.tracks
@@ -595,7 +622,7 @@ libraryRouter.all(["/getAlbumList2.view", "/getAlbumList.view"], wrap(async (req
             ? a.tracks.reduce((sum, t) => sum + (t.duration ?? 0), 0)
             : Number((a as unknown as { totalDuration?: number | bigint }).totalDuration ?? 0);
         return mapAlbum({ ...a, artistId: a.artist.id, songCount, duration, genre }, artistName);
-    });
+    }));
 
     const key = req.path.includes("getAlbumList2") ? "albumList2" : "albumList";
     subsonicOk(req, res, { [key]: { album: albumList } });
@@ -689,11 +716,28 @@ libraryRouter.all("/getTopSongs.view", wrap(async (req, res) => {
         .filter((t): t is NonNullable<typeof t> => t != null)
         .map((t) => mapSong(t, t.album, effectiveName, artist.id, genre));
 
-    subsonicOk(req, res, { topSongs: { song: songs } });
+    subsonicOk(req, res, { topSongs: { song: await annotateSongs(req.user!.id, songs) } });
 }));
 
 // ===================== SIMILAR SONGS =====================
 
+const similarSongInclude = {
+    album: {
+        include: {
+            artist: { select: { id: true, name: true, displayName: true, genres: true, userGenres: true } },
+        },
+    },
+} as const;
+
+type SimilarSongTrack = Prisma.TrackGetPayload<{ include: typeof similarSongInclude }>;
+
+function mapSimilarSong(t: SimilarSongTrack) {
+    const effectiveName = t.album.artist.displayName || t.album.artist.name;
+    const genre = firstArtistGenre(t.album.artist.genres, t.album.artist.userGenres);
+    return mapSong(t, t.album, effectiveName, t.album.artist.id, genre);
+}
+
+// Symfonium's "Instant Mix" calls these with a track, album or artist id
 libraryRouter.all(["/getSimilarSongs.view", "/getSimilarSongs2.view"], wrap(async (req, res) => {
     const id = req.query.id as string | undefined;
     if (!id) {
@@ -701,8 +745,25 @@ libraryRouter.all(["/getSimilarSongs.view", "/getSimilarSongs2.view"], wrap(asyn
     }
 
     const count = clamp(parseIntParam(req.query.count as string | undefined, 50), 1, 500);
+    const responseKey = req.path.includes("getSimilarSongs2") ? "similarSongs2" : "similarSongs";
+    const userId = req.user!.id;
 
-    // Resolve to an artist ID: id could be a track or an artist
+    const mixIds = await buildInstantMix(userId, id, count);
+    if (mixIds) {
+        const tracks = await prisma.track.findMany({
+            where: { id: { in: mixIds } },
+            include: similarSongInclude,
+        });
+        const trackMap = new Map(tracks.map((t) => [t.id, t]));
+        const songs = await annotateSongs(userId, mixIds
+            .map((trackId) => trackMap.get(trackId))
+            .filter((t): t is SimilarSongTrack => t != null)
+            .map(mapSimilarSong));
+        return subsonicOk(req, res, { [responseKey]: songs.length > 0 ? { song: songs } : {} });
+    }
+
+    // Not analyzed yet: pick songs from Last.fm-similar artists instead.
+    // Resolve to an artist ID: id could be a track, an album or an artist
     let artistId: string | null = null;
 
     const track = await prisma.track.findUnique({
@@ -712,17 +773,25 @@ libraryRouter.all(["/getSimilarSongs.view", "/getSimilarSongs2.view"], wrap(asyn
     if (track) {
         artistId = track.album.artistId;
     } else {
-        const artist = await prisma.artist.findUnique({
+        const album = await prisma.album.findUnique({
             where: { id },
-            select: { id: true },
+            select: { artistId: true },
         });
-        if (artist) {
-            artistId = artist.id;
+        if (album) {
+            artistId = album.artistId;
+        } else {
+            const artist = await prisma.artist.findUnique({
+                where: { id },
+                select: { id: true },
+            });
+            if (artist) {
+                artistId = artist.id;
+            }
         }
     }
 
     if (!artistId) {
-        return subsonicOk(req, res, { similarSongs2: {} });
+        return subsonicOk(req, res, { [responseKey]: {} });
     }
 
     const similarArtists = await prisma.similarArtist.findMany({
@@ -733,7 +802,7 @@ libraryRouter.all(["/getSimilarSongs.view", "/getSimilarSongs2.view"], wrap(asyn
     });
 
     if (similarArtists.length === 0) {
-        return subsonicOk(req, res, { similarSongs2: {} });
+        return subsonicOk(req, res, { [responseKey]: {} });
     }
 
     const similarArtistIds = similarArtists.map((sa) => sa.toArtistId);
@@ -746,15 +815,10 @@ libraryRouter.all(["/getSimilarSongs.view", "/getSimilarSongs2.view"], wrap(asyn
                 location: "LIBRARY",
                 artistId: { in: similarArtistIds },
             },
+            ...(await notDislikedBy(userId)),
         },
         take: overFetch,
-        include: {
-            album: {
-                include: {
-                    artist: { select: { id: true, name: true, displayName: true, genres: true, userGenres: true } },
-                },
-            },
-        },
+        include: similarSongInclude,
     });
 
     // Shuffle using Fisher-Yates
@@ -764,12 +828,7 @@ libraryRouter.all(["/getSimilarSongs.view", "/getSimilarSongs2.view"], wrap(asyn
     }
 
     const selected = candidates.slice(0, count);
-    const songs = selected.map((t) => {
-        const effectiveName = t.album.artist.displayName || t.album.artist.name;
-        const genre = firstArtistGenre(t.album.artist.genres, t.album.artist.userGenres);
-        return mapSong(t, t.album, effectiveName, t.album.artist.id, genre);
-    });
+    const songs = await annotateSongs(userId, selected.map(mapSimilarSong));
 
-    const responseKey = req.path.includes("getSimilarSongs2") ? "similarSongs2" : "similarSongs";
     subsonicOk(req, res, { [responseKey]: songs.length > 0 ? { song: songs } : {} });
 }));
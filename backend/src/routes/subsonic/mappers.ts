@@ -36,6 +36,17 @@ export type TrackRow = {
     filePath: string | null;
     mime: string | null;
     fileSize: number | null;
+    replayGainTrackGain?: number | null;
+    replayGainTrackPeak?: number | null;
+};
+
+type SongAlbum = {
+    id: string;
+    title: string;
+    displayTitle: string | null;
+    year: number | null;
+    replayGainAlbumGain?: number | null;
+    replayGainAlbumPeak?: number | null;
 };
 
 export function mapArtist(a: ArtistRow) {
@@ -64,7 +75,7 @@ export function mapAlbum(album: AlbumRow, artistName: string) {
 
 export function mapSong(
     track: TrackRow,
-    album: { id: string; title: string; displayTitle: string | null; year: number | null },
+    album: SongAlbum,
     artistName: string,
     artistId: string,
     genre?: string | null
@@ -89,9 +100,23 @@ export function mapSong(
         "@_artistId": artistId,
         "@_type": "music",
         "@_genre": genre || undefined,
+        ...mapReplayGain(track, album),
     };
 }
 
+// OpenSubsonic replayGain element; omitted entirely when nothing is known so
+// clients fall back to their own defaults
+function mapReplayGain(track: TrackRow, album: SongAlbum) {
+    const gain = {
+        "@_trackGain": track.replayGainTrackGain ?? undefined,
+        "@_trackPeak": track.replayGainTrackPeak ?? undefined,
+        "@_albumGain": album.replayGainAlbumGain ?? undefined,
+        "@_albumPeak": album.replayGainAlbumPeak ?? undefined,
+    };
+    if (Object.values(gain).every((v) => v === undefined)) return {};
+    return { replayGain: gain };
+}
+
 // Extract the first genre string from an artist's enriched genre array.
 // Prefers userGenres override; falls back to enrichment genres.
 // Tags starting with "_" are internal markers (e.g. "_no_mood_tags") — filtered out.
@@ -147,16 +172,6 @@ export function mimeToSuffix(mime: string | null): string {
     return map[m] || "mp3";
 }
 
-export function bitrateToQuality(
-    maxBitRate: string | undefined
-): "original" | "high" | "medium" | "low" {
-    const br = parseInt(maxBitRate || "0", 10);
-    if (br === 0 || br >= 320) return "original";
-    if (br >= 192) return "high";
-    if (br >= 128) return "medium";
-    return "low";
-}
-
 export function wrap(fn: (req: Request, res: Response) => Promise<void | Response>) {
     return (req: Request, res: Response) => {
         fn(req, res).catch((err: unknown) => {
@@ -5,30 +5,57 @@ import { ListenSource } from "@prisma/client";
 import { prisma } from "../../utils/db";
 import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
 import { getAudioStreamingService } from "../../services/audioStreaming";
+import {
+    ClientInfo,
+    CODEC_SETTINGS,
+    TranscodeProfile,
+    decideTranscode,
+    getConfiguredProfile,
+    parseProfileKey,
+    probeSource,
+    profileForRequest,
+} from "../../services/transcodeProfiles";
+import {
+    HlsSource,
+    getHlsStreamingService,
+    hlsVariants,
+    mediaPlaylist,
+    masterPlaylist,
+    segmentCount,
+} from "../../services/hlsStreaming";
+import { trackSegment, trackSourcePath } from "../../services/cueSheet";
 import { config } from "../../config";
-import { bitrateToQuality, firstArtistGenre, mapSong, wrap } from "./mappers";
+import { firstArtistGenre, mapSong, parseRepeatedQueryParam, wrap } from "./mappers";
 import { normalizeArtistName } from "../../utils/artistNormalization";
+import { scrobbleService } from "../../services/scrobbler";
+import { deleteAudiobookBookmark, getAudiobookBookmarks, saveAudiobookBookmark } from "./audiobooks";
 
 export const playbackRouter = Router();
 
-async function streamTrackById(
-    req: Request,
-    res: Response,
-    id: string,
-    quality: "original" | "high" | "medium" | "low"
-) {
+// Resolves a track's file, refusing paths that escape the music directory
+async function findTrackFile(id: string) {
     const track = await prisma.track.findUnique({ where: { id } });
-    if (!track || !track.filePath) {
-        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
-    }
+    if (!track || !track.filePath) return null;
 
-    const normalizedFilePath = track.filePath.replace(/\\/g, "/");
+    const normalizedFilePath = trackSourcePath(track).replace(/\\/g, "/");
     const resolvedMusicPath = path.resolve(config.music.musicPath);
     const absolutePath = path.resolve(resolvedMusicPath, normalizedFilePath);
 
-    if (!absolutePath.startsWith(resolvedMusicPath + path.sep)) {
+    if (!absolutePath.startsWith(resolvedMusicPath + path.sep)) return null;
+    return { track, absolutePath };
+}
+
+async function streamTrackById(
+    req: Request,
+    res: Response,
+    id: string,
+    profile: TranscodeProfile | null
+) {
+    const found = await findTrackFile(id);
+    if (!found) {
         return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
     }
+    const { track, absolutePath } = found;
 
     const streamingService = getAudioStreamingService(
         config.music.musicPath,
@@ -38,9 +65,10 @@ async function streamTrackById(
 
     const { filePath, mimeType } = await streamingService.getStreamFilePath(
         track.id,
-        quality,
+        profile,
         track.fileModified,
         absolutePath,
+        trackSegment(track),
     );
     await streamingService.streamFileWithRangeSupport(req, res, filePath, mimeType);
 }
@@ -115,36 +143,188 @@ playbackRouter.all("/getNowPlaying.view", wrap(async (req, res) => {
 
 // ===================== STREAMING =====================
 
+// Auth parameters copied onto playlist and segment URIs so clients can fetch them
+const HLS_AUTH_PARAMS = ["u", "p", "t", "s", "v", "c", "f", "apiKey"];
+
+function hlsQuery(req: Request, params: Record<string, string>): string {
+    const query = new URLSearchParams(params);
+    for (const key of HLS_AUTH_PARAMS) {
+        const value = req.query[key];
+        if (typeof value === "string" && value.length > 0) {
+            query.set(key, value);
+        }
+    }
+    return query.toString();
+}
+
+async function findHlsSource(id: string) {
+    const found = await findTrackFile(id);
+    if (!found) return null;
+    const { track, absolutePath } = found;
+
+    const source: HlsSource = {
+        trackId: track.id,
+        filePath: absolutePath,
+        sourceModified: track.fileModified,
+        duration: track.duration,
+        segment: trackSegment(track),
+    };
+    const stream = await probeSource(absolutePath);
+    return { source, variants: hlsVariants(stream) };
+}
+
+// A single bitRate picks that rung's media playlist; several (or none) get a
+// master playlist so the client can switch between them
 playbackRouter.all(["/hls.view", "/hls.m3u8"], wrap(async (req, res) => {
     const id = req.query.id as string | undefined;
     if (!id) {
         return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
     }
 
-    const streamParams = new URLSearchParams();
-    streamParams.set("id", id);
-
-    const bitRateRaw = req.query.bitRate;
-    const firstBitRate = Array.isArray(bitRateRaw) ? bitRateRaw[0] : bitRateRaw;
-    if (typeof firstBitRate === "string" && firstBitRate.trim()) {
-        const numeric = firstBitRate.split("@")[0];
-        streamParams.set("maxBitRate", numeric);
+    const found = await findHlsSource(id);
+    if (!found) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
     }
+    const { source, variants } = found;
 
-    for (const passthroughKey of ["u", "p", "t", "s", "v", "c", "f", "apiKey"]) {
-        const value = req.query[passthroughKey];
-        if (typeof value === "string" && value.length > 0) {
-            streamParams.set(passthroughKey, value);
-        }
+    // bitRate may carry a video size ("128@480x360")
+    const bitRates = parseRepeatedQueryParam(req.query.bitRate)
+        .map((value) => parseInt(value.split("@")[0], 10))
+        .filter((value) => Number.isFinite(value) && value > 0);
+
+    const variantId = req.query.variant as string | undefined;
+    let variant = variantId ? variants.find((v) => v.id === variantId) : undefined;
+    if (variantId && !variant) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Variant not found");
+    }
+    if (!variant && bitRates.length === 1) {
+        const fitting = variants.filter((v) => v.bitrate <= bitRates[0]);
+        variant = fitting[fitting.length - 1] ?? variants[0];
     }
 
-    const streamUrl = `${req.protocol}://${req.get("host")}/rest/stream.view?${streamParams.toString()}`;
-    const playlist = `#EXTM3U\n#EXT-X-VERSION:3\n#EXTINF:-1,${id}\n${streamUrl}\n`;
+    let playlist: string;
+    if (variant) {
+        const variantKey = variant.id;
+        playlist = mediaPlaylist(
+            source.duration,
+            (index) => `hlsSegment.view?${hlsQuery(req, { id, variant: variantKey, index: String(index) })}`
+        );
+    } else {
+        const offered = bitRates.length > 1
+            ? variants.filter((v) => bitRates.some((rate) => v.bitrate <= rate))
+            : variants;
+        playlist = masterPlaylist(
+            offered.length > 0 ? offered : variants.slice(0, 1),
+            (v) => `hls.view?${hlsQuery(req, { id, variant: v.id })}`
+        );
+    }
 
     res.set("Content-Type", "application/vnd.apple.mpegurl");
     return res.send(playlist);
 }));
 
+playbackRouter.all("/hlsSegment.view", wrap(async (req, res) => {
+    const id = req.query.id as string | undefined;
+    const variantId = req.query.variant as string | undefined;
+    const index = parseInt(req.query.index as string, 10);
+    if (!id || !variantId || !Number.isInteger(index)) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id, variant or index");
+    }
+
+    const found = await findHlsSource(id);
+    if (!found) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
+    }
+    const { source, variants } = found;
+    const variant = variants.find((v) => v.id === variantId);
+    if (!variant || index < 0 || index >= segmentCount(source.duration)) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Segment not found");
+    }
+
+    const streamingService = getAudioStreamingService(
+        config.music.musicPath,
+        config.music.transcodeCachePath,
+        config.music.transcodeCacheMaxGb,
+    );
+    const segmentPath = await getHlsStreamingService(config.music.transcodeCachePath, streamingService)
+        .getSegment(source, variant, index);
+    await streamingService.streamFileWithRangeSupport(req, res, segmentPath, "video/mp2t");
+}));
+
+// OpenSubsonic transcoding extension: the client describes what it can play
+// (JSON body) and gets back direct play or the profile to transcode to
+playbackRouter.all("/getTranscodeDecision.view", wrap(async (req, res) => {
+    const mediaId = req.query.mediaId as string | undefined;
+    const mediaType = (req.query.mediaType as string | undefined)?.toLowerCase();
+    if (!mediaId) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: mediaId");
+    }
+    if (!mediaType) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: mediaType");
+    }
+
+    // Podcast episodes are redirected to their feed's file as-is
+    if (mediaType !== "song") {
+        return subsonicOk(req, res, {
+            transcodeDecision: {
+                canDirectPlay: true,
+                canTranscode: false,
+                transcodeReason: [],
+                errorReason: "",
+                transcodeParams: "",
+            },
+        });
+    }
+
+    const found = await findTrackFile(mediaId);
+    if (!found) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
+    }
+
+    const clientInfo: ClientInfo = req.body && typeof req.body === "object" ? req.body : {};
+    const source = await probeSource(found.absolutePath);
+    const decision = decideTranscode(
+        source,
+        clientInfo,
+        await getConfiguredProfile(req.user!.id, req.apiKeyId),
+    );
+
+    const sourceStream = {
+        protocol: "http",
+        container: source.container,
+        codec: source.codec,
+        audioChannels: source.channels ?? undefined,
+        audioBitrate: source.bitrate !== null ? source.bitrate * 1000 : undefined,
+        audioSamplerate: source.sampleRate ?? undefined,
+        audioBitdepth: source.bitDepth ?? undefined,
+    };
+    const transcodeStream = decision.profile
+        ? {
+              protocol: "http",
+              container: CODEC_SETTINGS[decision.profile.codec].container,
+              codec: decision.profile.codec,
+              audioChannels: source.channels ? Math.min(source.channels, 2) : 2,
+              audioBitrate: decision.profile.bitrate * 1000,
+              audioSamplerate:
+                  decision.profile.codec === "opus"
+                      ? 48000
+                      : Math.min(source.sampleRate ?? decision.profile.maxSampleRate, decision.profile.maxSampleRate),
+          }
+        : undefined;
+
+    return subsonicOk(req, res, {
+        transcodeDecision: {
+            canDirectPlay: decision.canDirectPlay,
+            canTranscode: decision.canTranscode,
+            transcodeReason: decision.transcodeReason,
+            errorReason: decision.errorReason,
+            transcodeParams: decision.transcodeParams,
+            sourceStream,
+            ...(transcodeStream ? { transcodeStream } : {}),
+        },
+    });
+}));
+
 playbackRouter.all("/getTranscodeStream.view", wrap(async (req, res) => {
     const mediaId = req.query.mediaId as string | undefined;
     const mediaType = (req.query.mediaType as string | undefined)?.toLowerCase();
@@ -161,8 +341,14 @@ playbackRouter.all("/getTranscodeStream.view", wrap(async (req, res) => {
     }
 
     if (mediaType === "song") {
-        const quality = bitrateToQuality(req.query.maxBitRate as string | undefined);
-        return streamTrackById(req, res, mediaId, quality);
+        // transcodeParams is the profile key handed out by getTranscodeDecision
+        const profile =
+            parseProfileKey(transcodeParams) ??
+            profileForRequest(
+                { maxBitRate: req.query.maxBitRate as string | undefined },
+                await getConfiguredProfile(req.user!.id, req.apiKeyId),
+            );
+        return streamTrackById(req, res, mediaId, profile);
     }
 
     if (mediaType === "podcast") {
@@ -183,16 +369,19 @@ playbackRouter.all("/stream.view", wrap(async (req, res) => {
     const id = req.query.id as string;
     if (!id) return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
 
-    const format = req.query.format as string | undefined;
-    const quality = format === "raw"
-        ? "original"
-        : bitrateToQuality(req.query.maxBitRate as string | undefined);
+    const profile = profileForRequest(
+        {
+            format: req.query.format as string | undefined,
+            maxBitRate: req.query.maxBitRate as string | undefined,
+        },
+        await getConfiguredProfile(req.user!.id, req.apiKeyId),
+    );
 
     // Play logging is handled exclusively by scrobble.view to avoid double-counting.
     // Subsonic clients call scrobble.view on track completion; logging here would produce
     // two Play rows per listen for clients that implement both behaviors (Symfonium, DSub).
 
-    await streamTrackById(req, res, id, quality);
+    await streamTrackById(req, res, id, profile);
 }));
 
 playbackRouter.all("/download.view", wrap(async (req, res) => {
@@ -202,7 +391,7 @@ playbackRouter.all("/download.view", wrap(async (req, res) => {
     const track = await prisma.track.findUnique({ where: { id } });
     if (!track || !track.filePath) return subsonicError(req, res, SubsonicError.NOT_FOUND, "Song not found");
 
-    const normalizedFilePath = track.filePath.replace(/\\/g, "/");
+    const normalizedFilePath = trackSourcePath(track).replace(/\\/g, "/");
     const resolvedMusicPath = path.resolve(config.music.musicPath);
     const absolutePath = path.resolve(resolvedMusicPath, normalizedFilePath);
 
@@ -222,6 +411,7 @@ playbackRouter.all("/download.view", wrap(async (req, res) => {
         "original",
         track.fileModified,
         absolutePath,
+        trackSegment(track),
     );
     await streamingService.streamFileWithRangeSupport(req, res, filePath, mimeType);
 }));
@@ -314,21 +504,41 @@ playbackRouter.all("/getCoverArt.view", wrap(async (req, res) => {
 // ===================== SCROBBLE =====================
 
 playbackRouter.all("/scrobble.view", wrap(async (req, res) => {
-    const id = req.query.id as string;
-    if (!id) return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
+    const ids = parseRepeatedQueryParam(req.query.id);
+    if (ids.length === 0) return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
 
     const userId = req.user!.id;
-    // submission=false means "now playing" notification — skip, we only record completed plays
+    // submission=false is a "now playing" notification: forwarded to linked
+    // scrobbling services but not recorded as a Play
     const submission = req.query.submission !== "false";
+    // Clients batching offline plays send one time per id
+    const times = parseRepeatedQueryParam(req.query.time);
+
+    const tracks = await prisma.track.findMany({
+        where: { id: { in: ids } },
+        select: { id: true },
+    });
+    const known = new Set(tracks.map((t) => t.id));
+
+    if (!submission) {
+        const current = ids[ids.length - 1];
+        if (known.has(current)) {
+            void scrobbleService.queueNowPlaying(userId, current);
+        }
+        return subsonicOk(req, res);
+    }
 
-    if (submission) {
-        const track = await prisma.track.findUnique({ where: { id }, select: { id: true } });
-        if (track) {
-            const timeMs = req.query.time ? parseInt(req.query.time as string, 10) : Date.now();
-            const playedAt = isNaN(timeMs) ? new Date() : new Date(timeMs);
-            await prisma.play
-                .create({ data: { userId, trackId: id, playedAt, source: ListenSource.SUBSONIC } })
-                .catch(() => {});
+    for (let i = 0; i < ids.length; i++) {
+        const id = ids[i];
+        if (!known.has(id)) continue;
+
+        const timeMs = times[i] ? parseInt(times[i], 10) : Date.now();
+        const playedAt = isNaN(timeMs) ? new Date() : new Date(timeMs);
+        const play = await prisma.play
+            .create({ data: { userId, trackId: id, playedAt, source: ListenSource.SUBSONIC } })
+            .catch(() => null);
+        if (play) {
+            void scrobbleService.queuePlay(userId, id, play.playedAt);
         }
     }
 
@@ -429,8 +639,11 @@ playbackRouter.all("/getBookmarks.view", wrap(async (req, res) => {
         };
     });
 
+    // Audiobook positions are kept as listening progress, not SubsonicBookmark rows
+    const bookmark = [...bookmarkEntries, ...(await getAudiobookBookmarks(req))];
+
     return subsonicOk(req, res, {
-        bookmarks: bookmarkEntries.length ? { bookmark: bookmarkEntries } : {},
+        bookmarks: bookmark.length ? { bookmark } : {},
     });
 }));
 
@@ -448,6 +661,8 @@ playbackRouter.all("/createBookmark.view", wrap(async (req, res) => {
         return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Invalid parameter: position");
     }
 
+    if (await saveAudiobookBookmark(req, id, position)) return subsonicOk(req, res);
+
     const comment = (req.query.comment as string) || undefined;
 
     await prisma.subsonicBookmark.upsert({
@@ -464,6 +679,8 @@ playbackRouter.all("/deleteBookmark.view", wrap(async (req, res) => {
     const id = req.query.id as string;
     if (!id) return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
 
+    if (await deleteAudiobookBookmark(req, id)) return subsonicOk(req, res);
+
     await prisma.subsonicBookmark.deleteMany({
         where: { userId, trackId: id },
     });
@@ -2,18 +2,38 @@ import { Router } from "express";
 import { prisma } from "../../utils/db";
 import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
 import { mapSong, wrap } from "./mappers";
+import { annotateSongs } from "./annotations";
+import { smartPlaylistService } from "../../services/smartPlaylists";
+import {
+    canEditItems,
+    emitPlaylistChange,
+    getPlaylistRole,
+    visiblePlaylistsWhere,
+} from "../../services/playlistCollaboration";
 
 export const playlistRouter = Router();
 
+const SMART_READ_ONLY = "Smart playlists are filled by their rules";
+
+// OpenSubsonic marks playlists clients must not edit as readonly: smart
+// playlists, and shared ones the user isn't an owner or editor of
+function playlistAttributes(playlist: { smartRules: unknown }, canEdit: boolean) {
+    if (playlist.smartRules) {
+        return { "@_readonly": true, "@_comment": "Smart playlist" };
+    }
+    return canEdit ? {} : { "@_readonly": true };
+}
+
 // ===================== PLAYLISTS =====================
 
 playlistRouter.all("/getPlaylists.view", wrap(async (req, res) => {
     const userId = req.user!.id;
 
     const playlists = await prisma.playlist.findMany({
-        where: { OR: [{ userId }, { isPublic: true }] },
+        where: visiblePlaylistsWhere(userId),
         include: {
             _count: { select: { items: true } },
+            collaborators: { where: { userId, status: "accepted" }, select: { role: true } },
             items: { select: { track: { select: { duration: true } } } },
             user: { select: { username: true } },
         },
@@ -29,6 +49,7 @@ playlistRouter.all("/getPlaylists.view", wrap(async (req, res) => {
                 "@_duration": Math.round(pl.items.reduce((sum, i) => sum + (i.track.duration ?? 0), 0)),
                 "@_public": pl.isPublic,
                 "@_owner": pl.user.username,
+                ...playlistAttributes(pl, pl.userId === userId || pl.collaborators[0]?.role === "editor"),
             })),
         },
     });
@@ -40,6 +61,24 @@ playlistRouter.all("/getPlaylist.view", wrap(async (req, res) => {
         return subsonicError(req, res, SubsonicError.MISSING_PARAM, "id is required");
     }
 
+    const access = await prisma.playlist.findUnique({
+        where: { id },
+        select: { id: true, userId: true, isPublic: true, smartRules: true, smartEvaluatedAt: true },
+    });
+    if (!access) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Playlist not found");
+    }
+
+    const role = await getPlaylistRole(access, req.user!.id);
+    if (!role && !access.isPublic) {
+        return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Access denied");
+    }
+
+    // Only once access is settled, so strangers can't trigger evaluations
+    if (access.smartRules) {
+        await smartPlaylistService.refreshIfStale(access);
+    }
+
     const playlist = await prisma.playlist.findUnique({
         where: { id },
         include: {
@@ -63,10 +102,6 @@ playlistRouter.all("/getPlaylist.view", wrap(async (req, res) => {
         return subsonicError(req, res, SubsonicError.NOT_FOUND, "Playlist not found");
     }
 
-    if (playlist.userId !== req.user!.id && !playlist.isPublic) {
-        return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Access denied");
-    }
-
     let totalDuration = 0;
     const entries = playlist.items.map((item) => {
         const { track } = item;
@@ -77,6 +112,7 @@ playlistRouter.all("/getPlaylist.view", wrap(async (req, res) => {
         totalDuration += track.duration ?? 0;
         return mapSong(track, album, artistName, artistId);
     });
+    const annotated = await annotateSongs(req.user!.id, entries);
 
     return subsonicOk(req, res, {
         playlist: {
@@ -86,7 +122,8 @@ playlistRouter.all("/getPlaylist.view", wrap(async (req, res) => {
             "@_duration": Math.round(totalDuration),
             "@_public": playlist.isPublic,
             "@_owner": playlist.user.username,
-            ...(entries.length > 0 ? { entry: entries } : {}),
+            ...playlistAttributes(playlist, canEditItems(role)),
+            ...(annotated.length > 0 ? { entry: annotated } : {}),
         },
     });
 }));
@@ -112,20 +149,37 @@ playlistRouter.all("/createPlaylist.view", wrap(async (req, res) => {
         if (!playlist) {
             return subsonicError(req, res, SubsonicError.NOT_FOUND, "Playlist not found");
         }
-        if (playlist.userId !== userId) {
+        if (!canEditItems(await getPlaylistRole(playlist, userId))) {
             return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Access denied");
         }
+        if (playlist.smartRules) {
+            return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, SMART_READ_ONLY);
+        }
+
+        // Clients send the whole list even to reorder or trim it: tracks that
+        // stay keep who added them, only new ones are the caller's
+        const existing = await prisma.playlistItem.findMany({
+            where: { playlistId },
+            select: { trackId: true, addedById: true },
+        });
+        const addedBy = new Map(existing.map((item) => [item.trackId, item.addedById]));
 
         await prisma.$transaction([
             prisma.playlistItem.deleteMany({ where: { playlistId } }),
             ...(songIds.length > 0 ? [
                 prisma.playlistItem.createMany({
-                    data: songIds.map((trackId, index) => ({ playlistId, trackId, sort: index })),
+                    data: songIds.map((trackId, index) => ({
+                        playlistId,
+                        trackId,
+                        sort: index,
+                        addedById: addedBy.has(trackId) ? addedBy.get(trackId) : userId,
+                    })),
                     skipDuplicates: true,
                 }),
             ] : []),
         ]);
         resolvedPlaylistId = playlistId;
+        await emitPlaylistChange(playlistId, "items");
     } else if (name) {
         const playlist = await prisma.playlist.create({
             data: { userId, name, isPublic: false },
@@ -133,7 +187,12 @@ playlistRouter.all("/createPlaylist.view", wrap(async (req, res) => {
 
         if (songIds.length > 0) {
             await prisma.playlistItem.createMany({
-                data: songIds.map((trackId, index) => ({ playlistId: playlist.id, trackId, sort: index })),
+                data: songIds.map((trackId, index) => ({
+                    playlistId: playlist.id,
+                    trackId,
+                    sort: index,
+                    addedById: userId,
+                })),
                 skipDuplicates: true,
             });
         }
@@ -167,6 +226,7 @@ playlistRouter.all("/createPlaylist.view", wrap(async (req, res) => {
         totalDuration += track.duration ?? 0;
         return mapSong(track, album, artistName, artistId);
     });
+    const annotated = await annotateSongs(userId, entries);
 
     return subsonicOk(req, res, {
         playlist: {
@@ -176,7 +236,8 @@ playlistRouter.all("/createPlaylist.view", wrap(async (req, res) => {
             "@_duration": Math.round(totalDuration),
             "@_public": created.isPublic,
             "@_owner": created.user.username,
-            ...(entries.length > 0 ? { entry: entries } : {}),
+            ...playlistAttributes(created, true),
+            ...(annotated.length > 0 ? { entry: annotated } : {}),
         },
     });
 }));
@@ -187,13 +248,23 @@ playlistRouter.all("/updatePlaylist.view", wrap(async (req, res) => {
         return subsonicError(req, res, SubsonicError.MISSING_PARAM, "playlistId is required");
     }
 
+    const userId = req.user!.id;
     const playlist = await prisma.playlist.findUnique({ where: { id: playlistId } });
     if (!playlist) {
         return subsonicError(req, res, SubsonicError.NOT_FOUND, "Playlist not found");
     }
-    if (playlist.userId !== req.user!.id) {
+
+    // Editors may change the songs; name and visibility stay with the owner
+    const role = await getPlaylistRole(playlist, userId);
+    const editsSongs = req.query.songIdToAdd !== undefined || req.query.songIndexToRemove !== undefined;
+    const editsDetails = req.query.name !== undefined || req.query.public !== undefined;
+    if (!canEditItems(role) || (editsDetails && role !== "owner")) {
         return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Access denied");
     }
+    // Renaming is fine, but the songs belong to the rules
+    if (playlist.smartRules && editsSongs) {
+        return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, SMART_READ_ONLY);
+    }
 
     const updateData: { name?: string; isPublic?: boolean } = {};
 
@@ -258,6 +329,7 @@ playlistRouter.all("/updatePlaylist.view", wrap(async (req, res) => {
                         playlistId,
                         trackId,
                         sort: maxSort + 1 + index,
+                        addedById: userId,
                     })),
                     skipDuplicates: true,
                 });
@@ -265,6 +337,10 @@ playlistRouter.all("/updatePlaylist.view", wrap(async (req, res) => {
         });
     }
 
+    if (editsSongs || editsDetails) {
+        await emitPlaylistChange(playlistId, editsSongs ? "items" : "details");
+    }
+
     return subsonicOk(req, res);
 }));
 
@@ -282,6 +358,7 @@ playlistRouter.all("/deletePlaylist.view", wrap(async (req, res) => {
         return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Access denied");
     }
 
+    await emitPlaylistChange(id, "deleted");
     await prisma.playlist.delete({ where: { id } });
 
     return subsonicOk(req, res);
@@ -0,0 +1,105 @@
+// backend/src/routes/subsonic/radio.ts
+// Internet radio stations. Listing is open to every user; like Navidrome,
+// creating/updating/deleting stations requires admin since the catalogue is
+// shared by the whole server.
+import { Request, Response, Router } from "express";
+import { RadioStation } from "@prisma/client";
+import { radioStationService } from "../../services/radioStations";
+import { UserFacingError } from "../../utils/errors";
+import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
+import { wrap } from "./mappers";
+
+export const radioRouter = Router();
+
+function mapStation(station: RadioStation) {
+    return {
+        "@_id": station.id,
+        "@_name": station.name,
+        "@_streamUrl": station.streamUrl,
+        ...(station.homepageUrl ? { "@_homePageUrl": station.homepageUrl } : {}),
+    };
+}
+
+function requireAdmin(req: Request, res: Response): boolean {
+    if (req.user!.role === "admin") return true;
+    subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Admin privileges required");
+    return false;
+}
+
+// Validates the shared create/update params; sends the error itself and
+// returns null when something is missing
+function readStationParams(req: Request, res: Response) {
+    const name = req.query.name as string | undefined;
+    const streamUrl = req.query.streamUrl as string | undefined;
+    if (!streamUrl) {
+        subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: streamUrl");
+        return null;
+    }
+    if (!name) {
+        subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: name");
+        return null;
+    }
+    return { name, streamUrl, homepageUrl: (req.query.homepageUrl as string | undefined) || null };
+}
+
+function handleValidationError(req: Request, res: Response, error: unknown) {
+    if (error instanceof UserFacingError) {
+        return subsonicError(req, res, SubsonicError.GENERIC, error.message);
+    }
+    throw error;
+}
+
+radioRouter.all("/getInternetRadioStations.view", wrap(async (req, res) => {
+    const stations = await radioStationService.list();
+    return subsonicOk(req, res, {
+        internetRadioStations: {
+            internetRadioStation: stations.map(mapStation),
+        },
+    });
+}));
+
+radioRouter.all("/createInternetRadioStation.view", wrap(async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    const params = readStationParams(req, res);
+    if (!params) return;
+
+    try {
+        await radioStationService.create(req.user!.id, params);
+    } catch (error) {
+        return handleValidationError(req, res, error);
+    }
+    return subsonicOk(req, res);
+}));
+
+radioRouter.all("/updateInternetRadioStation.view", wrap(async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    const id = req.query.id as string | undefined;
+    if (!id) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
+    }
+    const params = readStationParams(req, res);
+    if (!params) return;
+
+    try {
+        const station = await radioStationService.update(id, params);
+        if (!station) {
+            return subsonicError(req, res, SubsonicError.NOT_FOUND, "Radio station not found");
+        }
+    } catch (error) {
+        return handleValidationError(req, res, error);
+    }
+    return subsonicOk(req, res);
+}));
+
+radioRouter.all("/deleteInternetRadioStation.view", wrap(async (req, res) => {
+    if (!requireAdmin(req, res)) return;
+    const id = req.query.id as string | undefined;
+    if (!id) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
+    }
+
+    if (!(await radioStationService.delete(id))) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Radio station not found");
+    }
+    return subsonicOk(req, res);
+}));
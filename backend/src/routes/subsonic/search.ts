@@ -4,6 +4,7 @@ import { prisma } from "../../utils/db";
 import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
 import { searchService } from "../../services/search";
 import { wrap, clamp, parseIntParam, firstArtistGenre, mapSong } from "./mappers";
+import { annotateSongs, annotateAlbums, annotateArtists } from "./annotations";
 
 export const searchRouter = Router();
 
@@ -64,18 +65,19 @@ searchRouter.all(["/search3.view", "/search2.view", "/search.view"], wrap(async
         : [];
     const genreMap = new Map(artistGenreRows.map((a) => [a.id, firstArtistGenre(a.genres, a.userGenres)]));
 
+    const userId = req.user!.id;
     const result: Record<string, unknown> = {};
 
     if (artists.length > 0) {
-        result.artist = artists.map((a) => ({
+        result.artist = await annotateArtists(userId, artists.map((a) => ({
             "@_id": a.id,
             "@_name": a.name,
             "@_coverArt": `ar-${a.id}`,
-        }));
+        })));
     }
 
     if (albums.length > 0) {
-        result.album = albums.map((al) => ({
+        result.album = await annotateAlbums(userId, albums.map((al) => ({
             "@_id": al.id,
             "@_name": al.title,
             "@_artist": al.artistName,
@@ -83,11 +85,11 @@ searchRouter.all(["/search3.view", "/search2.view", "/search.view"], wrap(async
             "@_coverArt": al.id,
             "@_year": al.year || undefined,
             "@_genre": genreMap.get(al.artistId) || undefined,
-        }));
+        })));
     }
 
     if (tracks.length > 0) {
-        result.song = tracks.map((t) => ({
+        result.song = await annotateSongs(userId, tracks.map((t) => ({
             "@_id": t.id,
             "@_title": t.title,
             "@_album": t.albumTitle,
@@ -98,7 +100,7 @@ searchRouter.all(["/search3.view", "/search2.view", "/search.view"], wrap(async
             "@_duration": t.duration ? Math.round(t.duration) : 0,
             "@_type": "music",
             "@_genre": genreMap.get(t.artistId) || undefined,
-        }));
+        })));
     }
 
     return subsonicOk(req, res, { [responseKey]: result });
@@ -170,7 +172,7 @@ searchRouter.all("/getRandomSongs.view", wrap(async (req, res) => {
         LIMIT ${size}
     `;
 
-    const songs = rows.map((r) => ({
+    const songs = await annotateSongs(req.user!.id, rows.map((r) => ({
         "@_id": r.id,
         "@_title": r.title,
         "@_album": r.albumTitle,
@@ -186,7 +188,7 @@ searchRouter.all("/getRandomSongs.view", wrap(async (req, res) => {
         "@_size": r.fileSize ?? undefined,
         "@_type": "music",
         "@_genre": firstArtistGenre(r.artistGenres, r.artistUserGenres) || undefined,
-    }));
+    })));
 
     return subsonicOk(req, res, {
         randomSongs: songs.length > 0 ? { song: songs } : {},
@@ -358,95 +360,3 @@ searchRouter.all("/getTopSongs.view", wrap(async (req, res) => {
         topSongs: songs.length > 0 ? { song: songs } : {},
     });
 }));
-
-// ===================== SIMILAR SONGS =====================
-
-searchRouter.all(["/getSimilarSongs2.view", "/getSimilarSongs.view"], wrap(async (req, res) => {
-    const id = req.query.id as string | undefined;
-    if (!id) {
-        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
-    }
-
-    const count = clamp(parseIntParam(req.query.count as string | undefined, 50), 1, 500);
-
-    const similarArtists = await prisma.similarArtist.findMany({
-        where: {
-            fromArtistId: id,
-            toArtist: { libraryAlbumCount: { gt: 0 } },
-        },
-        orderBy: { weight: "desc" },
-        take: 50,
-        select: { toArtistId: true },
-    });
-
-    const artistIds = Array.from(new Set([id, ...similarArtists.map((item) => item.toArtistId)]));
-
-    if (artistIds.length === 0) {
-        const emptyKey = req.path.startsWith("/getSimilarSongs2") ? "similarSongs2" : "similarSongs";
-        return subsonicOk(req, res, { [emptyKey]: {} });
-    }
-
-    const artistIdList = artistIds.map((artistId) => Prisma.sql`${artistId}`);
-
-    const rows = await prisma.$queryRaw<{
-        id: string;
-        title: string;
-        trackNo: number | null;
-        discNumber: number | null;
-        duration: number | null;
-        mime: string | null;
-        fileSize: number | null;
-        albumId: string;
-        albumTitle: string;
-        albumDisplayTitle: string | null;
-        albumYear: number | null;
-        artistId: string;
-        artistName: string;
-        artistDisplayName: string | null;
-        artistGenres: unknown;
-        artistUserGenres: unknown;
-    }[]>`
-        SELECT t.id, t.title, t."trackNo", t."discNumber", t.duration, t.mime, t."fileSize",
-               al.id AS "albumId", al.title AS "albumTitle", al."displayTitle" AS "albumDisplayTitle", al.year AS "albumYear",
-               ar.id AS "artistId", ar.name AS "artistName", ar."displayName" AS "artistDisplayName",
-               ar.genres AS "artistGenres", ar."userGenres" AS "artistUserGenres"
-        FROM "Track" t
-        JOIN "Album" al ON t."albumId" = al.id
-        JOIN "Artist" ar ON al."artistId" = ar.id
-        WHERE al.location = 'LIBRARY'
-          AND al."artistId" IN (${Prisma.join(artistIdList, ", ")})
-        ORDER BY RANDOM()
-        LIMIT ${count}
-    `;
-
-    const songs = rows.map((row) => {
-        const artistName = row.artistDisplayName || row.artistName;
-        const songGenre = firstArtistGenre(row.artistGenres, row.artistUserGenres);
-        return mapSong(
-            {
-                id: row.id,
-                title: row.title,
-                trackNo: row.trackNo,
-                discNumber: row.discNumber,
-                duration: row.duration,
-                filePath: null,
-                mime: row.mime,
-                fileSize: row.fileSize,
-            },
-            {
-                id: row.albumId,
-                title: row.albumTitle,
-                displayTitle: row.albumDisplayTitle,
-                year: row.albumYear,
-            },
-            artistName,
-            row.artistId,
-            songGenre
-        );
-    });
-
-    const responseKey = req.path.startsWith("/getSimilarSongs2") ? "similarSongs2" : "similarSongs";
-    return subsonicOk(req, res, {
-        [responseKey]: songs.length > 0 ? { song: songs } : {},
-    });
-}));
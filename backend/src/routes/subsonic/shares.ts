@@ -0,0 +1,251 @@
+import { Router, Request } from "express";
+import { randomBytes } from "crypto";
+import { ShareLink } from "@prisma/client";
+import { prisma } from "../../utils/db";
+import { getSystemSettings } from "../../utils/systemSettings";
+import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
+import { firstArtistGenre, mapSong, parseRepeatedQueryParam, wrap } from "./mappers";
+
+export const shareRouter = Router();
+
+// Same cap as the web UI's POST /api/share
+const MAX_ACTIVE_SHARES = 500;
+
+type SharedItem = { type: "track" | "album" | "playlist"; id: string; owned?: boolean };
+
+// Shares are served by the web app's /share/:token page, not the Subsonic API,
+// so prefer the admin-configured public URL over whatever host the client used.
+async function shareBaseUrl(req: Request): Promise<string> {
+    const settings = await getSystemSettings();
+    const publicUrl = settings?.publicUrl?.replace(/\/+$/, "");
+    return publicUrl || `${req.protocol}://${req.get("host")}`;
+}
+
+// Subsonic ids are bare cuids, so a shared id may be a track, an album or a playlist
+async function resolveSharedItem(id: string, userId: string): Promise<SharedItem | "forbidden" | null> {
+    const track = await prisma.track.findUnique({ where: { id }, select: { id: true } });
+    if (track) return { type: "track", id };
+
+    const album = await prisma.album.findUnique({ where: { id }, select: { id: true } });
+    if (album) return { type: "album", id };
+
+    const playlist = await prisma.playlist.findUnique({
+        where: { id },
+        select: { userId: true, isPublic: true },
+    });
+    if (playlist) {
+        const owned = playlist.userId === userId;
+        return owned || playlist.isPublic ? { type: "playlist", id, owned } : "forbidden";
+    }
+    return null;
+}
+
+async function trackIdsFor(entityType: string, entityId: string, trackIds: string[]): Promise<string[]> {
+    switch (entityType) {
+        case "track":
+            return [entityId];
+        case "album": {
+            const tracks = await prisma.track.findMany({
+                where: { albumId: entityId },
+                orderBy: [{ discNumber: { sort: "asc", nulls: "first" } }, { trackNo: "asc" }],
+                select: { id: true },
+            });
+            return tracks.map((t) => t.id);
+        }
+        case "playlist": {
+            const items = await prisma.playlistItem.findMany({
+                where: { playlistId: entityId },
+                orderBy: { sort: "asc" },
+                select: { trackId: true },
+            });
+            return items.map((i) => i.trackId);
+        }
+        case "tracks":
+            return trackIds;
+        default:
+            return [];
+    }
+}
+
+async function shareEntries(share: ShareLink) {
+    const ids = await trackIdsFor(share.entityType, share.entityId, share.trackIds);
+    if (ids.length === 0) return [];
+
+    const tracks = await prisma.track.findMany({
+        where: { id: { in: ids } },
+        include: {
+            album: {
+                include: {
+                    artist: { select: { id: true, name: true, displayName: true, genres: true, userGenres: true } },
+                },
+            },
+        },
+    });
+    const byId = new Map(tracks.map((t) => [t.id, t]));
+
+    return ids.flatMap((id) => {
+        const track = byId.get(id);
+        if (!track) return [];
+        const { artist } = track.album;
+        return [
+            mapSong(
+                track,
+                track.album,
+                artist.displayName || artist.name,
+                artist.id,
+                firstArtistGenre(artist.genres, artist.userGenres)
+            ),
+        ];
+    });
+}
+
+async function mapShare(share: ShareLink, username: string, baseUrl: string) {
+    return {
+        "@_id": share.id,
+        "@_url": `${baseUrl}/share/${share.token}`,
+        "@_description": share.description || undefined,
+        "@_username": username,
+        "@_created": share.createdAt.toISOString(),
+        "@_expires": share.expiresAt?.toISOString(),
+        "@_lastVisited": share.lastVisitedAt?.toISOString(),
+        "@_visitCount": share.playCount,
+        entry: await shareEntries(share),
+    };
+}
+
+// `expires` is milliseconds since the epoch; 0 clears the expiry
+function parseExpires(raw: unknown): Date | null | undefined | "invalid" {
+    if (raw === undefined || raw === "") return undefined;
+    const ms = Number(raw);
+    if (!Number.isFinite(ms) || ms < 0) return "invalid";
+    return ms === 0 ? null : new Date(ms);
+}
+
+// ===================== SHARES =====================
+
+shareRouter.all("/getShares.view", wrap(async (req, res) => {
+    const shares = await prisma.shareLink.findMany({
+        where: { createdBy: req.user!.id },
+        orderBy: { createdAt: "desc" },
+    });
+    const baseUrl = await shareBaseUrl(req);
+
+    const mapped = [];
+    for (const share of shares) {
+        mapped.push(await mapShare(share, req.user!.username, baseUrl));
+    }
+    return subsonicOk(req, res, { shares: { share: mapped } });
+}));
+
+shareRouter.all("/createShare.view", wrap(async (req, res) => {
+    const userId = req.user!.id;
+    const ids = [...new Set(parseRepeatedQueryParam(req.query.id))];
+    if (ids.length === 0) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
+    }
+
+    const expires = parseExpires(req.query.expires);
+    if (expires === "invalid") {
+        return subsonicError(req, res, SubsonicError.GENERIC, "Invalid expires value");
+    }
+
+    const items: SharedItem[] = [];
+    for (const id of ids) {
+        const item = await resolveSharedItem(id, userId);
+        if (item === "forbidden") {
+            return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, `Not allowed to share playlist: ${id}`);
+        }
+        if (!item) {
+            return subsonicError(req, res, SubsonicError.NOT_FOUND, `Item not found: ${id}`);
+        }
+        items.push(item);
+    }
+
+    let entity: { entityType: string; entityId: string; trackIds: string[] };
+    if (items.length === 1) {
+        // Like the web UI, only the owner may publish a playlist itself
+        if (items[0].type === "playlist" && !items[0].owned) {
+            return subsonicError(req, res, SubsonicError.NOT_AUTHORIZED, "Not the playlist owner");
+        }
+        entity = { entityType: items[0].type, entityId: items[0].id, trackIds: [] };
+    } else {
+        // Several ids become one ad-hoc collection of their tracks, in the order given
+        const trackIds: string[] = [];
+        for (const item of items) {
+            trackIds.push(...(await trackIdsFor(item.type, item.id, [])));
+        }
+        const unique = [...new Set(trackIds)];
+        if (unique.length === 0) {
+            return subsonicError(req, res, SubsonicError.NOT_FOUND, "Nothing to share");
+        }
+        // entityId points at the first track so the share still has a cover
+        entity = { entityType: "tracks", entityId: unique[0], trackIds: unique };
+    }
+
+    const activeCount = await prisma.shareLink.count({
+        where: {
+            createdBy: userId,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+    });
+    if (activeCount >= MAX_ACTIVE_SHARES) {
+        return subsonicError(req, res, SubsonicError.GENERIC, `Share link limit reached (max ${MAX_ACTIVE_SHARES})`);
+    }
+
+    const description = req.query.description as string | undefined;
+    const share = await prisma.shareLink.create({
+        data: {
+            token: randomBytes(24).toString("base64url"),
+            ...entity,
+            createdBy: userId,
+            description: description?.trim() || null,
+            expiresAt: expires ?? null,
+        },
+    });
+
+    return subsonicOk(req, res, {
+        shares: { share: [await mapShare(share, req.user!.username, await shareBaseUrl(req))] },
+    });
+}));
+
+shareRouter.all("/updateShare.view", wrap(async (req, res) => {
+    const id = req.query.id as string | undefined;
+    if (!id) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
+    }
+
+    const expires = parseExpires(req.query.expires);
+    if (expires === "invalid") {
+        return subsonicError(req, res, SubsonicError.GENERIC, "Invalid expires value");
+    }
+
+    const share = await prisma.shareLink.findFirst({ where: { id, createdBy: req.user!.id } });
+    if (!share) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Share not found");
+    }
+
+    const description = req.query.description as string | undefined;
+    await prisma.shareLink.update({
+        where: { id },
+        data: {
+            ...(description !== undefined ? { description: description.trim() || null } : {}),
+            ...(expires !== undefined ? { expiresAt: expires } : {}),
+        },
+    });
+
+    return subsonicOk(req, res);
+}));
+
+shareRouter.all("/deleteShare.view", wrap(async (req, res) => {
+    const id = req.query.id as string | undefined;
+    if (!id) {
+        return subsonicError(req, res, SubsonicError.MISSING_PARAM, "Required parameter is missing: id");
+    }
+
+    const { count } = await prisma.shareLink.deleteMany({ where: { id, createdBy: req.user!.id } });
+    if (count === 0) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, "Share not found");
+    }
+
+    return subsonicOk(req, res);
+}));
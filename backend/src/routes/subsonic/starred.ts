@@ -1,42 +1,62 @@
 import { Router } from "express";
 import { prisma } from "../../utils/db";
 import { subsonicOk, subsonicError, SubsonicError } from "../../utils/subsonicResponse";
-import { mapSong, firstArtistGenre, wrap, parseRepeatedQueryParam } from "./mappers";
+import { ratingService, isValidRating } from "../../services/ratings";
+import { mapSong, mapAlbum, mapArtist, firstArtistGenre, wrap, parseRepeatedQueryParam } from "./mappers";
+import { annotateSongs, annotateAlbums, annotateArtists } from "./annotations";
 
 export const starredRouter = Router();
 
+const artistSelect = { id: true, name: true, displayName: true, genres: true, userGenres: true } as const;
+
 starredRouter.all(["/getStarred2.view", "/getStarred.view"], wrap(async (req, res) => {
     const userId = req.user!.id;
-    const liked = await prisma.likedTrack.findMany({
-        where: { userId },
-        include: {
-            track: {
-                include: {
-                    album: {
-                        include: {
-                            artist: { select: { id: true, name: true, displayName: true, genres: true, userGenres: true } },
-                        },
+    const [likedTracks, starredAlbums, starredArtists] = await Promise.all([
+        prisma.likedTrack.findMany({
+            where: { userId },
+            include: { track: { include: { album: { include: { artist: { select: artistSelect } } } } } },
+            orderBy: { likedAt: "desc" },
+        }),
+        prisma.starredAlbum.findMany({
+            where: { userId },
+            include: {
+                album: {
+                    include: {
+                        artist: { select: artistSelect },
+                        tracks: { where: { corrupt: false }, select: { duration: true } },
                     },
                 },
             },
-        },
-        orderBy: { likedAt: "desc" },
-    });
+            orderBy: { starredAt: "desc" },
+        }),
+        prisma.starredArtist.findMany({
+            where: { userId },
+            include: { artist: true },
+            orderBy: { starredAt: "desc" },
+        }),
+    ]);
+
+    const songs = await annotateSongs(userId, likedTracks.map(({ track: t }) => {
+        const artistName = t.album.artist.displayName || t.album.artist.name;
+        const genre = firstArtistGenre(t.album.artist.genres, t.album.artist.userGenres);
+        return mapSong(t, t.album, artistName, t.album.artist.id, genre);
+    }));
+    const albums = await annotateAlbums(userId, starredAlbums.map(({ album }) => {
+        const artistName = album.artist.displayName || album.artist.name;
+        const genre = firstArtistGenre(album.artist.genres, album.artist.userGenres);
+        const duration = album.tracks.reduce((sum, t) => sum + (t.duration ?? 0), 0);
+        return mapAlbum({ ...album, songCount: album.tracks.length, duration, genre }, artistName);
+    }));
+    const artists = await annotateArtists(userId, starredArtists.map(({ artist }) =>
+        mapArtist({ ...artist, albumCount: artist.libraryAlbumCount })
+    ));
 
     const key = req.path.includes("getStarred2") ? "starred2" : "starred";
     return subsonicOk(req, res, {
         [key]: {
-            ...(liked.length > 0 ? {
-                song: liked.map((l) => {
-                    const t = l.track;
-                    const artistName = t.album.artist.displayName || t.album.artist.name;
-                    const genre = firstArtistGenre(t.album.artist.genres, t.album.artist.userGenres);
-                    return {
-                        ...mapSong(t, t.album, artistName, t.album.artist.id, genre),
-                        "@_starred": l.likedAt.toISOString(),
-                    };
-                }),
-            } : {}),
+            ...(artists.length > 0 ? { artist: artists } : {}),
+            ...(albums.length > 0 ? { album: albums } : {}),
+            ...(songs.length > 0 ? { song: songs } : {}),
         },
     });
 }));
@@ -52,42 +72,33 @@ starredRouter.all("/setRating.view", wrap(async (req, res) => {
     }
 
     const rating = parseInt(ratingRaw, 10);
-    if (!Number.isInteger(rating) || rating < 0 || rating > 5) {
+    if (!isValidRating(rating)) {
         return subsonicError(req, res, SubsonicError.GENERIC, "rating must be an integer between 0 and 5");
     }
 
-    const userId = req.user!.id;
-    const track = await prisma.track.findUnique({ where: { id }, select: { id: true } });
-
-    // Kima stores binary preference (liked/unliked). Ratings 1..5 map to liked, 0 removes.
-    if (track) {
-        if (rating === 0) {
-            await prisma.likedTrack.deleteMany({ where: { userId, trackId: id } });
-        } else {
-            await prisma.likedTrack.upsert({
-                where: { userId_trackId: { userId, trackId: id } },
-                create: { userId, trackId: id },
-                update: {},
-            });
-        }
+    // Ratings are separate from stars: rating a song no longer likes it
+    const type = await ratingService.resolveType(id);
+    if (!type) {
+        return subsonicError(req, res, SubsonicError.NOT_FOUND, `Item not found: ${id}`);
     }
+    await ratingService.setRating(req.user!.id, type, id, rating);
 
     return subsonicOk(req, res);
 }));
 
-// star.view — only track starring (Kima's LikedTrack model); albumId/artistId params silently ignored
+// `id` may be a song, album or artist; albumId/artistId are the ID3-specific forms
 starredRouter.all("/star.view", wrap(async (req, res) => {
     const userId = req.user!.id;
-    const ids = parseRepeatedQueryParam(req.query.id);
 
-    for (const trackId of ids) {
-        await prisma.likedTrack
-            .upsert({
-                where: { userId_trackId: { userId, trackId } },
-                create: { userId, trackId },
-                update: {},
-            })
-            .catch(() => {}); // Absorbs FK violation if trackId doesn't exist
+    for (const id of parseRepeatedQueryParam(req.query.id)) {
+        const type = await ratingService.resolveType(id);
+        if (type) await ratingService.star(userId, type, id);
+    }
+    for (const albumId of parseRepeatedQueryParam(req.query.albumId)) {
+        await ratingService.star(userId, "album", albumId).catch(() => {}); // Absorbs FK violation for unknown ids
+    }
+    for (const artistId of parseRepeatedQueryParam(req.query.artistId)) {
+        await ratingService.star(userId, "artist", artistId).catch(() => {});
     }
     return subsonicOk(req, res);
 }));
@@ -95,11 +106,12 @@ starredRouter.all("/star.view", wrap(async (req, res) => {
 starredRouter.all("/unstar.view", wrap(async (req, res) => {
     const userId = req.user!.id;
     const ids = parseRepeatedQueryParam(req.query.id);
+    const albumIds = parseRepeatedQueryParam(req.query.albumId);
+    const artistIds = parseRepeatedQueryParam(req.query.artistId);
 
-    if (ids.length > 0) {
-        await prisma.likedTrack.deleteMany({
-            where: { userId, trackId: { in: ids } },
-        });
-    }
+    // Ids are unique across tables, so a bare `id` can be removed from all three without resolving it
+    await ratingService.unstar(userId, "track", ids);
+    await ratingService.unstar(userId, "album", [...ids, ...albumIds]);
+    await ratingService.unstar(userId, "artist", [...ids, ...artistIds]);
     return subsonicOk(req, res);
-}));
\ No newline at end of file
+}));
@@ -69,6 +69,8 @@ const systemSettingsSchema = z.object({
   audiobookshelfEnabled: z.boolean().optional(),
   audiobookshelfUrl: z.string().optional(),
   audiobookshelfApiKey: z.string().nullable().optional(),
+  localAudiobooksEnabled: z.boolean().optional(),
+  audiobookPath: z.string().nullable().optional(),
 
   // Soulseek (direct connection via vendored soulseek-ts)
   soulseekUsername: z.string().nullable().optional(),
@@ -87,6 +89,7 @@ const systemSettingsSchema = z.object({
   // Feature Flags
   autoSync: z.boolean().optional(),
   autoEnrichMetadata: z.boolean().optional(),
+  libraryWatcherEnabled: z.boolean().optional(),
 
   // Advanced Settings
   maxConcurrentDownloads: z.number().optional(),
@@ -265,13 +268,34 @@ router.post("/", async (req, res) => {
       logger.warn("[SYSTEM SETTINGS] Could not reinitialize Fanart service:", err);
     }
 
-    // If Audiobookshelf was disabled, clear all audiobook-related data
+    if (data.libraryWatcherEnabled !== undefined) {
+      try {
+        const { startLibraryWatcher, stopLibraryWatcher } = await import(
+          "../workers/libraryWatcher"
+        );
+        if (data.libraryWatcherEnabled) {
+          startLibraryWatcher();
+        } else {
+          stopLibraryWatcher();
+        }
+      } catch (err) {
+        logger.warn("[SYSTEM SETTINGS] Could not toggle library watcher:", err);
+      }
+    }
+
+    // If Audiobookshelf was disabled, clear its audiobook-related data (local books keep their progress)
     if (data.audiobookshelfEnabled === false) {
       logger.debug(
-        "[CLEANUP] Audiobookshelf disabled - clearing all audiobook data from database",
+        "[CLEANUP] Audiobookshelf disabled - clearing Audiobookshelf audiobook data from database",
       );
       try {
-        const deletedProgress = await prisma.audiobookProgress.deleteMany({});
+        const localBooks = await prisma.audiobook.findMany({
+          where: { source: "local" },
+          select: { id: true },
+        });
+        const deletedProgress = await prisma.audiobookProgress.deleteMany({
+          where: { audiobookshelfId: { notIn: localBooks.map((book) => book.id) } },
+        });
         logger.debug(
           `   Deleted ${deletedProgress.count} audiobook progress entries`,
         );
@@ -281,6 +305,21 @@ router.post("/", async (req, res) => {
       }
     }
 
+    // Scan the local audiobook folder when it is switched on or moved
+    if (
+      settings.localAudiobooksEnabled &&
+      settings.audiobookPath &&
+      (!existingSettings?.localAudiobooksEnabled ||
+        existingSettings.audiobookPath !== settings.audiobookPath)
+    ) {
+      const { audiobookScannerService } = await import(
+        "../services/audiobookScanner"
+      );
+      audiobookScannerService.scan(settings.audiobookPath).catch((err) => {
+        logger.error("[SYSTEM SETTINGS] Local audiobook scan failed:", err);
+      });
+    }
+
     // Write only non-sensitive config to .env for Docker containers.
     // Secrets (API keys, passwords, tokens) are stored encrypted in the
     // database and must NOT be written in plaintext to the .env file.
@@ -0,0 +1,176 @@
+/**
+ * Local audiobook scanner tests
+ *
+ * Verifies metadata.json and OPF sidecars are read into book metadata,
+ * that a folder's files are split into books and ordered by disc and track,
+ * and that chapters are placed on the book's combined timeline.
+ *
+ * Run with: npx jest audiobookScanner.test.ts
+ */
+
+jest.mock("music-metadata", () => ({ parseFile: jest.fn() }), { virtual: true });
+
+jest.mock("../../utils/db", () => ({ prisma: {}, Prisma: {} }));
+
+jest.mock("../../config", () => ({
+    config: { music: { musicPath: "/tmp/kima-test/music" } },
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("../audiobookshelf", () => ({ audiobookshelfService: {} }));
+
+import {
+    ScannedFile,
+    buildChapters,
+    groupBookFiles,
+    parseMetadataJson,
+    parseOpf,
+} from "../audiobookScanner";
+
+describe("parseMetadataJson", () => {
+    it("reads Audiobookshelf metadata with series and chapters", () => {
+        const metadata = parseMetadataJson(
+            JSON.stringify({
+                title: "The Way of Kings",
+                authors: ["Brandon Sanderson"],
+                narrators: ["Michael Kramer", "Kate Reading"],
+                series: ["The Stormlight Archive #1"],
+                publishedYear: "2010",
+                isbn: "9780765326355",
+                genres: ["Fantasy"],
+                chapters: [
+                    { id: 0, start: 0, end: 120.5, title: "Prelude" },
+                    { id: 1, start: 120.5, end: 900, title: "Prologue" },
+                ],
+            })
+        );
+
+        expect(metadata).toMatchObject({
+            title: "The Way of Kings",
+            authors: ["Brandon Sanderson"],
+            narrators: ["Michael Kramer", "Kate Reading"],
+            series: "The Stormlight Archive",
+            seriesSequence: "1",
+            publishedYear: 2010,
+            isbn: "9780765326355",
+            genres: ["Fantasy"],
+        });
+        expect(metadata.chapters).toEqual([
+            { id: 0, title: "Prelude", start: 0, end: 120.5 },
+            { id: 1, title: "Prologue", start: 120.5, end: 900 },
+        ]);
+    });
+});
+
+describe("parseOpf", () => {
+    it("splits creators by role and reads Calibre series meta", () => {
+        const metadata = parseOpf(`<?xml version="1.0" encoding="utf-8"?>
+            <package xmlns="http://www.idpf.org/2007/opf" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
+                <metadata>
+                    <dc:title>Project Hail Mary</dc:title>
+                    <dc:creator opf:role="aut">Andy Weir</dc:creator>
+                    <dc:creator opf:role="nrt">Ray Porter</dc:creator>
+                    <dc:date>2021-05-04</dc:date>
+                    <dc:identifier opf:scheme="ISBN">0593135229</dc:identifier>
+                    <dc:identifier opf:scheme="ASIN">B08G9PRS1K</dc:identifier>
+                    <dc:subject>Science Fiction</dc:subject>
+                    <meta name="calibre:series" content="Standalone"/>
+                    <meta name="calibre:series_index" content="1"/>
+                </metadata>
+            </package>`);
+
+        expect(metadata).toMatchObject({
+            title: "Project Hail Mary",
+            authors: ["Andy Weir"],
+            narrators: ["Ray Porter"],
+            publishedYear: 2021,
+            isbn: "0593135229",
+            asin: "B08G9PRS1K",
+            genres: ["Science Fiction"],
+            series: "Standalone",
+            seriesSequence: "1",
+        });
+    });
+});
+
+describe("groupBookFiles", () => {
+    const file = (name: string, extra: Partial<ScannedFile> = {}): ScannedFile => ({
+        path: `/audiobooks/Book/${name}`,
+        duration: 600,
+        ...extra,
+    });
+
+    it("keeps a folder of parts as one book, ordered by disc, track and name", () => {
+        const groups = groupBookFiles("/audiobooks/Book", [
+            file("CD 2/01.mp3", { album: "Dune", disc: 2, track: 1 }),
+            file("CD 1/10.mp3", { album: "Dune", disc: 1, track: 10 }),
+            file("CD 1/2.mp3", { album: "Dune", disc: 1, track: 2 }),
+        ]);
+
+        expect(groups).toHaveLength(1);
+        expect(groups[0].localPath).toBe("/audiobooks/Book");
+        expect(groups[0].files.map((f) => f.path)).toEqual([
+            "/audiobooks/Book/CD 1/2.mp3",
+            "/audiobooks/Book/CD 1/10.mp3",
+            "/audiobooks/Book/CD 2/01.mp3",
+        ]);
+    });
+
+    it("splits single-file books sharing a folder by album", () => {
+        const groups = groupBookFiles("/audiobooks/Book", [
+            file("Dune Messiah.m4b", { album: "Dune Messiah" }),
+            file("Dune.m4b", { album: "Dune" }),
+        ]);
+
+        expect(groups.map((g) => g.localPath)).toEqual([
+            "/audiobooks/Book/Dune Messiah.m4b",
+            "/audiobooks/Book/Dune.m4b",
+        ]);
+    });
+});
+
+describe("buildChapters", () => {
+    it("offsets embedded chapters by each file's position in the book", () => {
+        const chapters = buildChapters([
+            {
+                path: "/a/1.m4b",
+                duration: 100,
+                chapters: [
+                    { title: "One", start: 0, timeScale: 1000 },
+                    { title: "Two", start: 40000, timeScale: 1000 },
+                ],
+            },
+            {
+                path: "/a/2.m4b",
+                duration: 50,
+                chapters: [{ title: "Three", start: 0, end: 50000, timeScale: 1000 }],
+            },
+        ]);
+
+        expect(chapters).toEqual([
+            { id: 0, title: "One", start: 0, end: 40 },
+            { id: 1, title: "Two", start: 40, end: 100 },
+            { id: 2, title: "Three", start: 100, end: 150 },
+        ]);
+    });
+
+    it("falls back to one chapter per file for multi-file books", () => {
+        const chapters = buildChapters([
+            { path: "/a/Part 1.mp3", duration: 30 },
+            { path: "/a/Part 2.mp3", duration: 45 },
+        ]);
+
+        expect(chapters).toEqual([
+            { id: 0, title: "Part 1", start: 0, end: 30 },
+            { id: 1, title: "Part 2", start: 30, end: 75 },
+        ]);
+    });
+
+    it("prefers sidecar chapters", () => {
+        const sidecar = [{ id: 0, title: "Opening", start: 0, end: 75 }];
+        expect(buildChapters([{ path: "/a/1.mp3", duration: 75 }], sidecar)).toBe(sidecar);
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * CUE sheet tests
+ *
+ * Verifies track offsets are read at 75 frames per second and end at the
+ * next track, that legacy-encoded sheets decode, and that CUE metadata is
+ * layered over the source file's tags.
+ *
+ * Run with: npx jest cueSheet.test.ts
+ */
+
+import {
+    cueTrackMetadata,
+    cueTrackPath,
+    decodeCueSheet,
+    parseCueSheet,
+    trackSegment,
+    trackSourcePath,
+} from "../cueSheet";
+
+const SHEET = [
+    'REM GENRE "Jazz"',
+    "REM DATE 1959",
+    "REM REPLAYGAIN_ALBUM_GAIN -6.20 dB",
+    'PERFORMER "Miles Davis"',
+    'TITLE "Kind of Blue"',
+    'FILE "Kind of Blue.flac" WAVE',
+    "  TRACK 01 AUDIO",
+    '    TITLE "So What"',
+    "    ISRC USSM15900113",
+    "    INDEX 01 00:00:00",
+    "  TRACK 02 AUDIO",
+    '    TITLE "Freddie Freeloader"',
+    "    REM REPLAYGAIN_TRACK_GAIN -5.10 dB",
+    "    INDEX 00 09:20:00",
+    "    INDEX 01 09:22:37",
+    "  TRACK 03 AUDIO",
+    '    TITLE "Blue in Green"',
+    '    PERFORMER "Bill Evans"',
+    "    INDEX 01 19:08:00",
+].join("\r\n");
+
+describe("parseCueSheet", () => {
+    it("reads album fields and per-track offsets", () => {
+        const sheet = parseCueSheet(SHEET);
+
+        expect(sheet).toMatchObject({
+            title: "Kind of Blue",
+            performer: "Miles Davis",
+            year: 1959,
+            genre: "Jazz",
+            replayGainAlbumGain: -6.2,
+        });
+        expect(sheet.files).toHaveLength(1);
+        expect(sheet.files[0].name).toBe("Kind of Blue.flac");
+
+        const [first, second, third] = sheet.files[0].tracks;
+        expect(first).toMatchObject({ number: 1, title: "So What", isrc: "USSM15900113", start: 0 });
+        // INDEX 01, not the pregap, marks the start; 37 frames = 0.49333s
+        expect(second.start).toBeCloseTo(562.4933, 3);
+        expect(first.end).toBe(second.start);
+        expect(second.replayGainGain).toBe(-5.1);
+        expect(third).toMatchObject({ performer: "Bill Evans", start: 1148, end: null });
+    });
+
+    it("skips data tracks and tracks without an INDEX 01", () => {
+        const sheet = parseCueSheet(
+            [
+                'FILE "disc.bin" BINARY',
+                "  TRACK 01 MODE1/2352",
+                "    INDEX 01 00:00:00",
+                "  TRACK 02 AUDIO",
+                "    INDEX 00 01:00:00",
+            ].join("\n")
+        );
+
+        expect(sheet.files[0].tracks).toEqual([]);
+    });
+});
+
+describe("decodeCueSheet", () => {
+    it("falls back to latin1 for sheets that are not UTF-8", () => {
+        const latin1 = Buffer.from('TITLE "Café"', "latin1");
+        expect(decodeCueSheet(latin1)).toBe('TITLE "Café"');
+    });
+
+    it("strips a UTF-8 byte order mark", () => {
+        const utf8 = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('TITLE "Café"')]);
+        expect(decodeCueSheet(utf8)).toBe('TITLE "Café"');
+    });
+});
+
+describe("virtual track paths", () => {
+    it("maps CUE tracks back to their source file and segment", () => {
+        const track = {
+            filePath: cueTrackPath("Miles Davis/Kind of Blue #1.flac", 2),
+            cueStart: 562.5,
+            cueEnd: 1148,
+        };
+
+        expect(trackSourcePath(track)).toBe("Miles Davis/Kind of Blue #1.flac");
+        expect(trackSegment(track)).toEqual({ start: 562.5, end: 1148 });
+    });
+
+    it("leaves ordinary tracks alone even if the name contains #", () => {
+        const track = { filePath: "Artist/Album/#1 Hit.flac", cueStart: null, cueEnd: null };
+
+        expect(trackSourcePath(track)).toBe("Artist/Album/#1 Hit.flac");
+        expect(trackSegment(track)).toBeNull();
+    });
+});
+
+describe("cueTrackMetadata", () => {
+    it("layers CUE fields over the source file's tags", () => {
+        const sheet = parseCueSheet(SHEET);
+        const file = sheet.files[0];
+        const metadata = {
+            format: { duration: 2740, container: "FLAC" },
+            native: { vorbis: [] },
+            common: {
+                title: "Kind of Blue",
+                artist: "Miles Davis",
+                album: "Kind of Blue (Legacy)",
+                lyrics: ["..."],
+                musicbrainz_recordingid: "rec-1",
+                replaygain_track_gain: { dB: -6.8, ratio: 0.457 },
+                track: { no: null, of: null },
+                disk: { no: 1, of: 1 },
+            },
+        } as any;
+
+        const last = cueTrackMetadata(metadata, sheet, file, file.tracks[2]);
+
+        expect(last.format.duration).toBe(2740 - 1148);
+        expect(last.native).toEqual({});
+        expect(last.common).toMatchObject({
+            title: "Blue in Green",
+            artist: "Bill Evans",
+            albumartist: "Miles Davis",
+            album: "Kind of Blue",
+            year: 1959,
+            genre: ["Jazz"],
+            track: { no: 3, of: 3 },
+            disk: { no: 1, of: 1 },
+        });
+        expect(last.common.lyrics).toBeUndefined();
+        expect(last.common.musicbrainz_recordingid).toBeUndefined();
+        expect(last.common.replaygain_track_gain).toBeUndefined();
+        expect(last.common.replaygain_album_gain?.dB).toBe(-6.2);
+    });
+
+    it("uses the whole-file track gain as album gain when the sheet has none", () => {
+        const sheet = parseCueSheet('FILE "a.flac" WAVE\nTRACK 01 AUDIO\nINDEX 01 00:00:00');
+        const metadata = {
+            format: { duration: 100 },
+            native: {},
+            common: { replaygain_track_gain: { dB: -6.8, ratio: 0.457 }, track: {}, disk: {} },
+        } as any;
+
+        const only = cueTrackMetadata(metadata, sheet, sheet.files[0], sheet.files[0].tracks[0]);
+
+        expect(only.common.title).toBe("Track 1");
+        expect(only.common.replaygain_album_gain?.dB).toBe(-6.8);
+        expect(only.format.duration).toBe(100);
+    });
+});
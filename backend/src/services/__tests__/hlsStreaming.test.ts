@@ -0,0 +1,71 @@
+/**
+ * HLS streaming tests
+ *
+ * Verifies the bitrate ladder offered for a source (no rungs above the
+ * source, the original only when it can be remuxed into MPEG-TS) and the
+ * master and media playlists built from it.
+ *
+ * Run with: npx jest hlsStreaming.test.ts
+ */
+
+jest.mock("music-metadata", () => ({ parseFile: jest.fn() }), { virtual: true });
+
+jest.mock("../../utils/db", () => ({ prisma: {} }));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import { SourceStream } from "../transcodeProfiles";
+import { hlsVariants, masterPlaylist, mediaPlaylist, segmentCount } from "../hlsStreaming";
+
+const source = (overrides: Partial<SourceStream>): SourceStream => ({
+    container: "flac",
+    codec: "flac",
+    bitrate: 900,
+    sampleRate: 44100,
+    channels: 2,
+    bitDepth: 16,
+    ...overrides,
+});
+
+describe("hlsVariants", () => {
+    it("offers the full AAC ladder for lossless sources, without the original", () => {
+        expect(hlsVariants(source({})).map((v) => v.id)).toEqual(["aac-64", "aac-128", "aac-256"]);
+    });
+
+    it("drops rungs at or above the source bitrate and remuxes MP3 and AAC", () => {
+        const variants = hlsVariants(source({ container: "mp3", codec: "mp3", bitrate: 192 }));
+
+        expect(variants.map((v) => v.id)).toEqual(["aac-64", "aac-128", "original"]);
+        expect(variants[2]).toMatchObject({ bitrate: 192, codecs: "mp4a.40.34", profile: null });
+    });
+
+    it("always keeps the lowest rung", () => {
+        const variants = hlsVariants(source({ container: "m4a", codec: "aac", bitrate: 48 }));
+
+        expect(variants.map((v) => v.id)).toEqual(["original", "aac-64"]);
+    });
+});
+
+describe("playlists", () => {
+    it("lists every segment of a VOD media playlist, with a short last one", () => {
+        const playlist = mediaPlaylist(14, (index) => `${index}.ts`);
+
+        expect(segmentCount(14)).toBe(3);
+        expect(playlist).toContain("#EXT-X-PLAYLIST-TYPE:VOD");
+        expect(playlist.match(/#EXTINF:([\d.]+),/g)).toEqual([
+            "#EXTINF:6.000,",
+            "#EXTINF:6.000,",
+            "#EXTINF:2.000,",
+        ]);
+        expect(playlist.trimEnd().endsWith("2.ts\n#EXT-X-ENDLIST")).toBe(true);
+    });
+
+    it("advertises each variant's bandwidth and codec in the master playlist", () => {
+        const playlist = masterPlaylist(hlsVariants(source({})), (v) => `${v.id}/index.m3u8`);
+
+        expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=140800,CODECS="mp4a.40.2"\naac-128/index.m3u8');
+        expect(playlist.match(/#EXT-X-STREAM-INF/g)).toHaveLength(3);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Instant Mix tests
+ *
+ * Verifies that mixes are built from a track, album or artist seed through
+ * hybrid similarity, that disliked tracks, albums and artists are left out,
+ * that artist-diversity rules hold, and that unanalyzed seeds return null so
+ * the Subsonic route can fall back to artist-based similarity.
+ *
+ * Run with: npx jest instantMix.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        track: { findUnique: jest.fn(), findMany: jest.fn() },
+        dislikedEntity: { findMany: jest.fn() },
+        $queryRaw: jest.fn(),
+    },
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("../hybridSimilarity", () => ({
+    findSimilarTracks: jest.fn(),
+}));
+
+import { prisma } from "../../utils/db";
+import { findSimilarTracks, SimilarTrack } from "../hybridSimilarity";
+import { applyArtistDiversity, buildInstantMix } from "../instantMix";
+
+const mockPrisma = prisma as unknown as {
+    track: { findUnique: jest.Mock; findMany: jest.Mock };
+    dislikedEntity: { findMany: jest.Mock };
+    $queryRaw: jest.Mock;
+};
+const mockFindSimilar = findSimilarTracks as jest.Mock;
+
+function similar(id: string, artistId: string, similarity: number): SimilarTrack {
+    return {
+        id,
+        title: id,
+        distance: 1 - similarity,
+        similarity,
+        albumId: `album-${artistId}`,
+        albumTitle: "Album",
+        albumCoverUrl: null,
+        artistId,
+        artistName: artistId,
+    };
+}
+
+describe("applyArtistDiversity", () => {
+    it("caps each artist's share and avoids back-to-back repeats", () => {
+        const candidates = [
+            similar("a1", "a", 0.99),
+            similar("a2", "a", 0.98),
+            similar("a3", "a", 0.97),
+            similar("b1", "b", 0.9),
+            similar("c1", "c", 0.8),
+        ];
+
+        const mix = applyArtistDiversity(candidates, 10);
+
+        // 10% of 10 is 1, so the floor of 2 per artist applies
+        expect(mix.map((t) => t.id)).toEqual(["a1", "b1", "a2", "c1"]);
+    });
+
+    it("repeats an artist only when nothing else is left", () => {
+        const mix = applyArtistDiversity([similar("a1", "a", 0.9), similar("a2", "a", 0.8)], 5);
+
+        expect(mix.map((t) => t.id)).toEqual(["a1", "a2"]);
+    });
+});
+
+describe("buildInstantMix", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPrisma.dislikedEntity.findMany.mockResolvedValue([]);
+    });
+
+    it("returns null for an unanalyzed track so callers can fall back", async () => {
+        mockPrisma.track.findUnique.mockResolvedValue({ id: "seed" });
+        mockPrisma.$queryRaw.mockResolvedValue([]);
+
+        await expect(buildInstantMix("user-1", "seed", 20)).resolves.toBeNull();
+        expect(mockFindSimilar).not.toHaveBeenCalled();
+    });
+
+    it("seeds an album mix from analyzed tracks and leaves the album out", async () => {
+        mockPrisma.track.findUnique.mockResolvedValue(null);
+        mockPrisma.track.findMany
+            .mockResolvedValueOnce([{ id: "t1" }, { id: "t2" }, { id: "t3" }, { id: "t4" }])
+            .mockResolvedValueOnce([{ id: "x1" }, { id: "y1" }]);
+        mockPrisma.$queryRaw.mockResolvedValue([{ track_id: "t2" }, { track_id: "t4" }]);
+        mockFindSimilar
+            .mockResolvedValueOnce([similar("t3", "self", 0.99), similar("x1", "x", 0.7)])
+            .mockResolvedValueOnce([similar("x1", "x", 0.6), similar("y1", "y", 0.8)]);
+
+        const mix = await buildInstantMix("user-1", "album-1", 20);
+
+        expect(mockFindSimilar).toHaveBeenCalledWith("t2", 60);
+        expect(mockFindSimilar).toHaveBeenCalledWith("t4", 60);
+        expect(mix).toEqual(["y1", "x1"]);
+    });
+
+    it("drops disliked tracks, albums and artists", async () => {
+        mockPrisma.track.findUnique.mockResolvedValue({ id: "seed" });
+        mockPrisma.$queryRaw.mockResolvedValue([{ track_id: "seed" }]);
+        mockPrisma.dislikedEntity.findMany.mockResolvedValue([
+            { entityType: "track", entityId: "x1" },
+            { entityType: "album", entityId: "album-9" },
+            { entityType: "artist", entityId: "artist-9" },
+        ]);
+        mockFindSimilar.mockResolvedValue([similar("x1", "x", 0.9), similar("y1", "y", 0.8)]);
+        mockPrisma.track.findMany.mockResolvedValue([{ id: "y1" }]);
+
+        const mix = await buildInstantMix("user-1", "seed", 20);
+
+        expect(mockPrisma.track.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: expect.objectContaining({
+                    corrupt: false,
+                    NOT: [
+                        { id: { in: ["x1"] } },
+                        { albumId: { in: ["album-9"] } },
+                        { album: { artistId: { in: ["artist-9"] } } },
+                    ],
+                }),
+            })
+        );
+        expect(mix).toEqual(["y1"]);
+    });
+});
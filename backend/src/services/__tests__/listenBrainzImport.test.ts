@@ -0,0 +1,133 @@
+/**
+ * ListenBrainzImportService Tests
+ *
+ * Verifies history import pages backward through ListenBrainz, matches each
+ * distinct listen once, and never duplicates plays that already exist
+ * (including listens Kima itself submitted).
+ *
+ * Run with: npx jest listenBrainzImport.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        userSettings: { findUnique: jest.fn() },
+        play: { findMany: jest.fn(), createMany: jest.fn() },
+    },
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("../../utils/encryption", () => ({
+    decrypt: jest.fn((value: string) => `decrypted:${value}`),
+}));
+
+jest.mock("../listenbrainz", () => ({
+    LISTENBRAINZ_MAX_PAGE: 2,
+    listenBrainzService: { getListens: jest.fn() },
+}));
+
+jest.mock("../trackIdentity", () => ({
+    trackIdentityService: { matchListen: jest.fn() },
+}));
+
+import { listenBrainzImportService } from "../listenBrainzImport";
+import { prisma } from "../../utils/db";
+import { listenBrainzService } from "../listenbrainz";
+import { trackIdentityService } from "../trackIdentity";
+
+const mockSettings = prisma.userSettings.findUnique as jest.Mock;
+const mockFindPlays = prisma.play.findMany as jest.Mock;
+const mockCreatePlays = prisma.play.createMany as jest.Mock;
+const mockGetListens = listenBrainzService.getListens as jest.Mock;
+const mockMatch = trackIdentityService.matchListen as jest.Mock;
+
+const listen = (listenedAt: number, track: string, artist = "Artist") => ({
+    listened_at: listenedAt,
+    track_metadata: { artist_name: artist, track_name: track, release_name: "Album" },
+});
+
+describe("ListenBrainzImportService", () => {
+    beforeEach(() => {
+        mockSettings.mockResolvedValue({ listenbrainzToken: "enc-token", listenbrainzUsername: "lb-user" });
+        mockGetListens.mockReset().mockResolvedValue([]);
+        mockFindPlays.mockResolvedValue([]);
+        mockCreatePlays.mockImplementation(({ data }) => Promise.resolve({ count: data.length }));
+        mockMatch.mockImplementation(({ title }) =>
+            Promise.resolve(title === "Unknown" ? null : `track-${title}`)
+        );
+    });
+
+    it("refuses to run without a linked account", async () => {
+        mockSettings.mockResolvedValue({ listenbrainzToken: null, listenbrainzUsername: null });
+
+        await expect(listenBrainzImportService.importHistory("user-1")).rejects.toThrow("not linked");
+    });
+
+    it("pages backward using the oldest listen of each page", async () => {
+        mockGetListens
+            .mockResolvedValueOnce([listen(2000, "A"), listen(1900, "B")])
+            .mockResolvedValueOnce([listen(1800, "A")]);
+
+        const result = await listenBrainzImportService.importHistory("user-1");
+
+        expect(mockGetListens).toHaveBeenNthCalledWith(1, "lb-user", "decrypted:enc-token", undefined);
+        expect(mockGetListens).toHaveBeenNthCalledWith(2, "lb-user", "decrypted:enc-token", 1900);
+        expect(result).toEqual({ fetched: 3, matched: 3, imported: 3, skipped: 0 });
+    });
+
+    it("matches each distinct listen only once", async () => {
+        mockGetListens.mockResolvedValueOnce([listen(2000, "A"), listen(1900, "A")]);
+
+        await listenBrainzImportService.importHistory("user-1");
+
+        expect(mockMatch).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips unmatched listens and plays that already exist", async () => {
+        mockGetListens.mockResolvedValueOnce([listen(2000, "A"), listen(1900, "Unknown")]);
+        // A local play of the same track within the same second
+        mockFindPlays.mockResolvedValue([{ trackId: "track-A", playedAt: new Date(2000 * 1000 + 450) }]);
+
+        const result = await listenBrainzImportService.importHistory("user-1");
+
+        expect(result).toEqual({ fetched: 2, matched: 1, imported: 0, skipped: 1 });
+        expect(mockCreatePlays).not.toHaveBeenCalled();
+    });
+
+    it("hands the recording MBID ListenBrainz mapped to the matcher", async () => {
+        mockGetListens.mockResolvedValueOnce([
+            {
+                listened_at: 2000,
+                track_metadata: {
+                    artist_name: "Artist",
+                    track_name: "A",
+                    additional_info: { recording_mbid: "submitted-mbid" },
+                    mbid_mapping: { recording_mbid: "mapped-mbid" },
+                },
+            },
+        ]);
+
+        await listenBrainzImportService.importHistory("user-1");
+
+        expect(mockMatch).toHaveBeenCalledWith(expect.objectContaining({ recordingMbid: "mapped-mbid" }));
+    });
+
+    it("imports plays with the LISTENBRAINZ source", async () => {
+        mockGetListens.mockResolvedValueOnce([listen(2000, "A")]);
+
+        await listenBrainzImportService.importHistory("user-1");
+
+        expect(mockCreatePlays).toHaveBeenCalledWith({
+            data: [
+                {
+                    userId: "user-1",
+                    trackId: "track-A",
+                    playedAt: new Date(2000 * 1000),
+                    source: "LISTENBRAINZ",
+                },
+            ],
+        });
+    });
+});
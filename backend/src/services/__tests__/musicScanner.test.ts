@@ -47,7 +47,12 @@ jest.mock('music-metadata', () => ({ parseFile: jest.fn() }), { virtual: true })
 
 // p-queue is mapped to a CJS mock in jest.config.js -- no extra mock needed
 
-import { MusicScannerService } from '../musicScanner';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MusicScannerService, computeContentHash } from '../musicScanner';
+import { parseFile } from 'music-metadata';
+import { prisma } from '../../utils/db';
 import {
     normalizeArtistName,
     canonicalizeVariousArtists,
@@ -67,6 +72,10 @@ class TestableMusicScanner extends MusicScannerService {
     public normalize(str: string): string {
         return (this as any).normalizeForMatching(str);
     }
+
+    public relink(absolutePath: string, relativePath: string, size: number, hash: string, candidates: any[], cueStart: number | null = null): Promise<boolean> {
+        return (this as any).relinkMovedTrack(absolutePath, relativePath, size, hash, cueStart, candidates);
+    }
 }
 
 const scanner = new TestableMusicScanner();
@@ -106,6 +115,120 @@ describe('MusicScannerService.isDiscoveryPath', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// relinkMovedTrack
+// ---------------------------------------------------------------------------
+
+describe('MusicScannerService.relinkMovedTrack', () => {
+    const moved = {
+        id: 't1',
+        filePath: 'Old/Album/01.flac',
+        fileModified: null,
+        fileSize: 1000,
+        contentHash: 'abc',
+        cueStart: null,
+        duration: 200,
+        title: 'Song',
+        trackNo: 1,
+        isrc: 'USRC17607839',
+    };
+
+    beforeEach(() => {
+        (parseFile as jest.Mock).mockResolvedValue({
+            format: { duration: 200.4 },
+            common: { title: 'Song', track: { no: 1 } },
+        });
+    });
+
+    it('relinks on an identical content fingerprint without reading tags', async () => {
+        const candidates = [moved];
+
+        await expect(scanner.relink('/music/New/Album/01.flac', 'New/Album/01.flac', 1000, 'abc', candidates)).resolves.toBe(true);
+
+        expect(parseFile).not.toHaveBeenCalled();
+        expect(prisma.track.update).toHaveBeenCalledWith({
+            where: { id: 't1' },
+            data: { filePath: 'New/Album/01.flac' },
+        });
+        expect(candidates).toHaveLength(0);
+    });
+
+    it('relinks a retagged file on size, duration, title and track number', async () => {
+        const candidates = [{ ...moved, isrc: null }];
+
+        await expect(scanner.relink('/music/a.flac', 'a.flac', 1000, 'def', candidates)).resolves.toBe(true);
+        expect(candidates).toHaveLength(0);
+    });
+
+    it('relinks a re-encoded file on ISRC and duration', async () => {
+        (parseFile as jest.Mock).mockResolvedValue({
+            format: { duration: 201.2 },
+            common: { title: 'Song (Remaster)', track: { no: 3 }, isrc: ['USRC17607839'] },
+        });
+
+        await expect(scanner.relink('/music/a.mp3', 'a.mp3', 4000, 'def', [moved])).resolves.toBe(true);
+    });
+
+    it('leaves a different recording alone', async () => {
+        (parseFile as jest.Mock).mockResolvedValue({
+            format: { duration: 200 },
+            common: { title: 'Other Song', track: { no: 1 } },
+        });
+
+        await expect(scanner.relink('/music/a.flac', 'a.flac', 1000, 'def', [moved])).resolves.toBe(false);
+        expect(prisma.track.update).not.toHaveBeenCalled();
+    });
+
+    it('only relinks a CUE track to the same track of a moved rip', async () => {
+        const cueTracks = [
+            { ...moved, id: 'c1', filePath: 'Old/rip.flac#1', cueStart: 0 },
+            { ...moved, id: 'c2', filePath: 'Old/rip.flac#2', cueStart: 200 },
+        ];
+
+        await expect(scanner.relink('/music/New/rip.flac', 'New/rip.flac#2', 1000, 'abc', cueTracks, 200)).resolves.toBe(true);
+        expect(prisma.track.update).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { id: 'c2' } })
+        );
+        // Tag matching never pairs a CUE track with an ordinary file
+        await expect(scanner.relink('/music/a.flac', 'a.flac', 1000, 'def', cueTracks)).resolves.toBe(false);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// computeContentHash
+// ---------------------------------------------------------------------------
+
+describe('computeContentHash', () => {
+    let dir: string;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kima-hash-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('depends on content, not on the file name', async () => {
+        const data = Buffer.alloc(200 * 1024, 7);
+        fs.writeFileSync(path.join(dir, 'a.flac'), data);
+        fs.writeFileSync(path.join(dir, 'b.flac'), data);
+        data[data.length - 1] = 8;
+        fs.writeFileSync(path.join(dir, 'c.flac'), data);
+
+        const [a, b, c] = await Promise.all(
+            ['a.flac', 'b.flac', 'c.flac'].map((f) => computeContentHash(path.join(dir, f), data.length))
+        );
+        expect(a).toBe(b);
+        expect(c).not.toBe(a);
+    });
+
+    it('handles files smaller than one chunk', async () => {
+        fs.writeFileSync(path.join(dir, 'small.mp3'), 'tiny');
+        await expect(computeContentHash(path.join(dir, 'small.mp3'), 4)).resolves.toMatch(/^[0-9a-f]{40}$/);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // normalizeForMatching
 // ---------------------------------------------------------------------------
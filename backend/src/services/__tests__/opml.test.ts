@@ -0,0 +1,163 @@
+/**
+ * OPML import/export tests
+ *
+ * Verifies feeds are collected from nested category outlines and
+ * deduplicated, that exported lists round-trip through the parser, and that
+ * an import reports each feed's outcome without one bad feed stopping the
+ * rest.
+ *
+ * Run with: npx jest opml.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        podcast: {
+            findUnique: jest.fn(),
+            create: jest.fn(),
+        },
+        podcastEpisode: {
+            createMany: jest.fn(),
+        },
+        podcastSubscription: {
+            findUnique: jest.fn(),
+            create: jest.fn(),
+            findMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../config", () => ({ APP_VERSION: "test" }));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("../../utils/ssrf", () => ({
+    validateUrlForFetch: jest.fn(),
+}));
+
+jest.mock("../rss-parser", () => ({
+    ...jest.requireActual("../rss-parser"),
+    rssParserService: { parseFeed: jest.fn() },
+}));
+
+import { buildOpml, parseOpml } from "../opml";
+import { podcastSubscriptionService } from "../podcastSubscription";
+import { prisma } from "../../utils/db";
+import { validateUrlForFetch } from "../../utils/ssrf";
+import { rssParserService } from "../rss-parser";
+
+const mockPrisma = prisma as any;
+const mockValidateUrl = validateUrlForFetch as jest.Mock;
+const mockParseFeed = rssParserService.parseFeed as jest.Mock;
+
+describe("parseOpml", () => {
+    it("collects feeds from nested outlines once each", () => {
+        const feeds = parseOpml(`<?xml version="1.0"?>
+            <opml version="1.0">
+                <head><title>Subscriptions</title></head>
+                <body>
+                    <outline text="News">
+                        <outline type="rss" text="The Daily" xmlUrl="https://feeds.example.com/daily" />
+                        <outline text="Tech">
+                            <outline type="rss" title="Hard Fork" text="hf" xmlUrl="https://feeds.example.com/hardfork" />
+                        </outline>
+                    </outline>
+                    <outline type="rss" text="The Daily (again)" xmlUrl="https://feeds.example.com/daily" />
+                </body>
+            </opml>`);
+
+        expect(feeds).toEqual([
+            { feedUrl: "https://feeds.example.com/daily", title: "The Daily" },
+            { feedUrl: "https://feeds.example.com/hardfork", title: "Hard Fork" },
+        ]);
+    });
+
+    it("rejects files that are not OPML", () => {
+        expect(() => parseOpml("<rss><channel /></rss>")).toThrow("File is not valid OPML");
+    });
+});
+
+describe("buildOpml", () => {
+    it("escapes titles and URLs so the export parses back", () => {
+        const feeds = [
+            { feedUrl: "https://example.com/feed?a=1&b=2", title: "Tom & Jerry <Live>" },
+            { feedUrl: "https://example.com/other" },
+        ];
+
+        const xml = buildOpml("Kima podcast subscriptions", feeds);
+
+        expect(xml).toContain('xmlUrl="https://example.com/feed?a=1&amp;b=2"');
+        expect(parseOpml(xml)).toEqual([
+            feeds[0],
+            { feedUrl: "https://example.com/other", title: "https://example.com/other" },
+        ]);
+    });
+});
+
+describe("PodcastSubscriptionService.importFeeds", () => {
+    it("reports subscribed, already subscribed and failed feeds", async () => {
+        mockValidateUrl.mockImplementation((url: string) =>
+            Promise.resolve(url.includes("localhost") ? "Private addresses are not allowed" : null)
+        );
+        mockPrisma.podcast.findUnique.mockImplementation(({ where }: any) =>
+            Promise.resolve(
+                where.feedUrl === "https://known.example/feed" ? { id: "p-known", title: "Known" } : null
+            )
+        );
+        mockPrisma.podcastSubscription.findUnique.mockImplementation(({ where }: any) =>
+            Promise.resolve(where.userId_podcastId.podcastId === "p-known" ? { id: "sub" } : null)
+        );
+        mockParseFeed.mockImplementation((url: string) =>
+            url.includes("broken")
+                ? Promise.reject(new Error("Request failed with status code 404"))
+                : Promise.resolve({
+                      notModified: false,
+                      podcast: { title: "New Show" },
+                      episodes: [],
+                  })
+        );
+        mockPrisma.podcast.create.mockResolvedValue({ id: "p-new", title: "New Show" });
+        const onProgress = jest.fn();
+
+        const result = await podcastSubscriptionService.importFeeds(
+            "u1",
+            [
+                { feedUrl: "https://known.example/feed" },
+                { feedUrl: "https://new.example/feed" },
+                { feedUrl: "http://localhost:8080/feed", title: "Internal" },
+                { feedUrl: "https://broken.example/feed" },
+            ],
+            onProgress
+        );
+
+        expect(result).toMatchObject({
+            total: 4,
+            processed: 4,
+            subscribed: 1,
+            alreadySubscribed: 1,
+            failed: 2,
+        });
+        expect(result.feeds).toEqual([
+            { feedUrl: "https://known.example/feed", title: "Known", status: "already_subscribed", podcastId: "p-known" },
+            { feedUrl: "https://new.example/feed", title: "New Show", status: "subscribed", podcastId: "p-new" },
+            {
+                feedUrl: "http://localhost:8080/feed",
+                title: "Internal",
+                status: "failed",
+                error: "Invalid feed URL: Private addresses are not allowed",
+            },
+            {
+                feedUrl: "https://broken.example/feed",
+                title: undefined,
+                status: "failed",
+                error: "Request failed with status code 404",
+            },
+        ]);
+        expect(mockPrisma.podcastSubscription.create).toHaveBeenCalledTimes(1);
+        expect(mockPrisma.podcastSubscription.create).toHaveBeenCalledWith({
+            data: { userId: "u1", podcastId: "p-new" },
+        });
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ processed: 4 }));
+    });
+});
@@ -0,0 +1,205 @@
+/**
+ * Podcasting 2.0 namespace tests
+ *
+ * Verifies chapters, transcripts, persons and funding are read from feeds,
+ * that chapter files and WebVTT/SRT/JSON transcripts parse into timed
+ * entries, that word-level JSON transcripts are merged into sentences, and
+ * that stored tag lists aren't seen as changed just because jsonb reordered
+ * their keys, and that a feed's document URLs can't redirect the server
+ * into the internal network.
+ *
+ * Run with: npx jest podcastNamespace.test.ts
+ */
+
+jest.mock("axios");
+
+jest.mock("../../config", () => ({ APP_VERSION: "test" }));
+
+jest.mock("../../utils/db", () => ({
+    prisma: { podcastEpisode: { findUnique: jest.fn(), update: jest.fn() } },
+    Prisma: {},
+}));
+
+jest.mock("../../utils/ssrf", () => ({
+    validateUrlForFetch: jest.fn(async (url: string) =>
+        url.includes("169.254.169.254") ? "Blocked: internal address" : null
+    ),
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import axios from "axios";
+import { parseChaptersJson, parseTranscript, podcastNamespaceService } from "../podcastNamespace";
+import { rssParserService, sameJson } from "../rss-parser";
+import { prisma } from "../../utils/db";
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+const mockPrisma = prisma as any;
+
+describe("rssParserService namespace tags", () => {
+    it("reads chapters, the best transcript, persons and funding", async () => {
+        mockAxios.get.mockResolvedValue({
+            status: 200,
+            headers: {},
+            data: `<?xml version="1.0"?>
+                <rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+                <channel>
+                    <title>Podcasting 2.0</title>
+                    <podcast:person img="https://example.com/adam.jpg">Adam Curry</podcast:person>
+                    <podcast:funding url="https://example.com/boost">Support the show!</podcast:funding>
+                    <item>
+                        <title>Episode 1</title>
+                        <guid>ep-1</guid>
+                        <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" length="100" />
+                        <podcast:chapters url="https://example.com/ep1.json" type="application/json+chapters" />
+                        <podcast:transcript url="https://example.com/ep1.html" type="text/html" />
+                        <podcast:transcript url="https://example.com/ep1.srt" type="application/x-subrip" />
+                        <podcast:transcript url="https://example.com/ep1.vtt" type="text/vtt" />
+                        <podcast:person role="Guest" href="https://example.com/dave">Dave Jones</podcast:person>
+                    </item>
+                </channel>
+                </rss>`,
+        });
+
+        const result = await rssParserService.parseFeed("https://example.com/feed.xml");
+        if (result.notModified) throw new Error("unexpected 304");
+
+        expect(result.podcast.persons).toEqual([
+            { name: "Adam Curry", role: "host", group: "cast", img: "https://example.com/adam.jpg" },
+        ]);
+        expect(result.podcast.funding).toEqual([
+            { url: "https://example.com/boost", title: "Support the show!" },
+        ]);
+        expect(result.episodes[0]).toMatchObject({
+            chaptersUrl: "https://example.com/ep1.json",
+            transcriptUrl: "https://example.com/ep1.vtt",
+            transcriptType: "text/vtt",
+            persons: [
+                { name: "Dave Jones", role: "guest", group: "cast", href: "https://example.com/dave" },
+            ],
+        });
+        expect(result.episodes[0].funding).toBeUndefined();
+    });
+});
+
+describe("sameJson", () => {
+    const parsed = [{ name: "Dave Jones", role: "guest", group: "cast", href: "https://example.com/dave", img: undefined }];
+
+    it("ignores the key order jsonb hands back", () => {
+        const stored = [{ href: "https://example.com/dave", name: "Dave Jones", role: "guest", group: "cast" }];
+        expect(sameJson(stored, parsed)).toBe(true);
+        expect(sameJson(null, undefined)).toBe(true);
+    });
+
+    it("still notices real changes", () => {
+        const stored = [{ href: "https://example.com/dave", name: "Dave Jones", role: "host", group: "cast" }];
+        expect(sameJson(stored, parsed)).toBe(false);
+        expect(sameJson(stored, undefined)).toBe(false);
+    });
+});
+
+describe("podcastNamespaceService document fetches", () => {
+    beforeEach(() => {
+        mockAxios.get.mockReset();
+        mockPrisma.podcastEpisode.findUnique.mockResolvedValue({
+            id: "ep-1",
+            chaptersUrl: "https://cdn.example.com/ep1.json",
+            chapters: null,
+            chaptersFetchedAt: null,
+        });
+    });
+
+    it("follows a chapters redirect only after checking where it goes", async () => {
+        mockAxios.get
+            .mockResolvedValueOnce({ status: 302, headers: { location: "/v2/ep1.json" }, data: "" })
+            .mockResolvedValueOnce({
+                status: 200,
+                headers: {},
+                data: JSON.stringify({ version: "1.2.0", chapters: [{ startTime: 0, title: "Intro" }] }),
+            });
+
+        await expect(podcastNamespaceService.getChapters("ep-1")).resolves.toEqual([
+            { startTime: 0, title: "Intro" },
+        ]);
+        expect(mockAxios.get.mock.calls[1][0]).toBe("https://cdn.example.com/v2/ep1.json");
+        expect(mockAxios.get.mock.calls[0][1]).toMatchObject({ maxRedirects: 0 });
+    });
+
+    it("refuses a chapters redirect into the internal network", async () => {
+        mockAxios.get.mockResolvedValueOnce({
+            status: 302,
+            headers: { location: "http://169.254.169.254/latest/meta-data/" },
+            data: "",
+        });
+
+        await expect(podcastNamespaceService.getChapters("ep-1")).resolves.toEqual([]);
+        expect(mockAxios.get).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("parseChaptersJson", () => {
+    it("sorts chapters and drops ones hidden from the table of contents", () => {
+        expect(
+            parseChaptersJson({
+                version: "1.2.0",
+                chapters: [
+                    { startTime: 120.5, title: "News", url: "https://example.com/news" },
+                    { startTime: 0, title: "Intro", img: "https://example.com/intro.jpg" },
+                    { startTime: 60, title: "Artwork only", toc: false },
+                ],
+            })
+        ).toEqual([
+            { startTime: 0, title: "Intro", img: "https://example.com/intro.jpg" },
+            { startTime: 120.5, title: "News", url: "https://example.com/news" },
+        ]);
+    });
+});
+
+describe("parseTranscript", () => {
+    it("reads WebVTT cues with voice tags and cue settings", () => {
+        const vtt = [
+            "WEBVTT",
+            "",
+            "1",
+            "00:00:01.000 --> 00:00:04.500 align:start",
+            "<v Adam Curry>Welcome to the show.</v>",
+            "",
+            "01:02.250 --> 01:05.000",
+            "It's <i>Boostagram</i> time.",
+        ].join("\n");
+
+        expect(parseTranscript(vtt, "text/vtt")).toEqual([
+            { startTime: 1, endTime: 4.5, speaker: "Adam Curry", text: "Welcome to the show." },
+            { startTime: 62.25, endTime: 65, text: "It's Boostagram time." },
+        ]);
+    });
+
+    it("reads SRT cues", () => {
+        const srt = "1\r\n00:00:00,500 --> 00:00:02,000\r\nHello\r\nthere\r\n\r\n2\r\n00:00:02,000 --> 00:00:03,000\r\nBye";
+
+        expect(parseTranscript(srt, "application/x-subrip")).toEqual([
+            { startTime: 0.5, endTime: 2, text: "Hello there" },
+            { startTime: 2, endTime: 3, text: "Bye" },
+        ]);
+    });
+
+    it("merges word-level JSON segments into sentences per speaker", () => {
+        const json = JSON.stringify({
+            version: "1.0.0",
+            segments: [
+                { speaker: "Adam", startTime: 0, endTime: 0.4, body: "Hello" },
+                { speaker: "Adam", startTime: 0.4, endTime: 0.9, body: "everybody." },
+                { speaker: "Adam", startTime: 1, endTime: 1.3, body: "Welcome" },
+                { speaker: "Dave", startTime: 1.5, endTime: 1.8, body: "Hi" },
+            ],
+        });
+
+        expect(parseTranscript(json, "application/json")).toEqual([
+            { startTime: 0, endTime: 0.9, speaker: "Adam", text: "Hello everybody." },
+            { startTime: 1, endTime: 1.3, speaker: "Adam", text: "Welcome" },
+            { startTime: 1.5, endTime: 1.8, speaker: "Dave", text: "Hi" },
+        ]);
+    });
+});
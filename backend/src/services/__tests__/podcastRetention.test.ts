@@ -0,0 +1,158 @@
+/**
+ * Podcast download rule tests
+ *
+ * Verifies which downloads the keep-newest, delete-played and per-podcast
+ * storage rules remove, which episodes auto-download picks up within the
+ * podcast and user limits, and that a shared cached file is only deleted
+ * with its last download record.
+ *
+ * Run with: npx jest podcastRetention.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        podcastDownload: {
+            delete: jest.fn(),
+            count: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../config", () => ({
+    config: { music: { transcodeCachePath: "/tmp/kima-test/transcodes" } },
+    USER_AGENT: "test",
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("fs/promises", () => ({
+    unlink: jest.fn().mockResolvedValue(undefined),
+}));
+
+import fs from "fs/promises";
+import { prisma } from "../../utils/db";
+import { removeDownload } from "../podcastDownload";
+import { DownloadRules, PlanEpisode, planDownloads } from "../podcastRetention";
+
+const mockPrisma = prisma as any;
+const mockUnlink = fs.unlink as jest.Mock;
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const NO_RULES: DownloadRules = {
+    autoDownload: false,
+    keepLatest: null,
+    deletePlayedAfterDays: null,
+    maxStorageMb: null,
+};
+
+// Newest first: ep1 published yesterday, ep5 five days ago
+function episodes(overrides: Record<string, Partial<PlanEpisode>> = {}): PlanEpisode[] {
+    return [1, 2, 3, 4, 5].map((n) => ({
+        id: `ep${n}`,
+        publishedAt: daysAgo(n),
+        sizeMb: 50,
+        finishedAt: null,
+        downloadId: null,
+        ...overrides[`ep${n}`],
+    }));
+}
+
+describe("planDownloads", () => {
+    it("keeps only the newest N downloads and drops ones played long ago", () => {
+        const plan = planDownloads({
+            rules: { ...NO_RULES, keepLatest: 2, deletePlayedAfterDays: 7 },
+            episodes: episodes({
+                ep1: { downloadId: "d1", finishedAt: daysAgo(1) },
+                ep2: { downloadId: "d2", finishedAt: daysAgo(10) },
+                ep4: { downloadId: "d4" },
+            }),
+            subscribedAt: daysAgo(30),
+            userFreeMb: Infinity,
+            now: NOW,
+        });
+
+        expect(plan).toEqual({ remove: ["d2", "d4"], download: [] });
+    });
+
+    it("trims the oldest downloads over the podcast's storage limit", () => {
+        const plan = planDownloads({
+            rules: { ...NO_RULES, maxStorageMb: 120 },
+            episodes: episodes({
+                ep1: { downloadId: "d1" },
+                ep2: { downloadId: "d2" },
+                ep3: { downloadId: "d3" },
+            }),
+            subscribedAt: daysAgo(30),
+            userFreeMb: Infinity,
+            now: NOW,
+        });
+
+        expect(plan.remove).toEqual(["d3"]);
+    });
+
+    it("auto-downloads the newest unplayed episodes within the limits", () => {
+        const plan = planDownloads({
+            rules: { ...NO_RULES, autoDownload: true, keepLatest: 4, maxStorageMb: 150 },
+            episodes: episodes({
+                ep1: { downloadId: "d1" },
+                ep2: { finishedAt: daysAgo(1) },
+            }),
+            subscribedAt: daysAgo(30),
+            userFreeMb: Infinity,
+            now: NOW,
+        });
+
+        // ep1 is already downloaded, ep2 was played, ep5 is outside the newest 4
+        // and only two 50MB episodes fit next to ep1
+        expect(plan).toEqual({ remove: [], download: ["ep3", "ep4"] });
+    });
+
+    it("without keep-newest, only downloads episodes released since subscribing", () => {
+        const plan = planDownloads({
+            rules: { ...NO_RULES, autoDownload: true },
+            episodes: episodes(),
+            subscribedAt: daysAgo(2.5),
+            userFreeMb: Infinity,
+            now: NOW,
+        });
+
+        expect(plan.download).toEqual(["ep1", "ep2"]);
+    });
+
+    it("stops at the user's storage limit, counting space freed by removals", () => {
+        const plan = planDownloads({
+            rules: { ...NO_RULES, autoDownload: true, keepLatest: 3 },
+            episodes: episodes({ ep5: { downloadId: "d5" } }),
+            subscribedAt: daysAgo(30),
+            userFreeMb: 60,
+            now: NOW,
+        });
+
+        expect(plan).toEqual({ remove: ["d5"], download: ["ep1", "ep2"] });
+    });
+});
+
+describe("removeDownload", () => {
+    beforeEach(() => jest.clearAllMocks());
+
+    it("keeps the cached file while another user's download uses it", async () => {
+        mockPrisma.podcastDownload.count.mockResolvedValue(1);
+
+        await removeDownload({ id: "d1", episodeId: "ep1", localPath: "/cache/ep1.mp3" });
+
+        expect(mockPrisma.podcastDownload.delete).toHaveBeenCalledWith({ where: { id: "d1" } });
+        expect(mockUnlink).not.toHaveBeenCalled();
+    });
+
+    it("deletes the cached file with its last download", async () => {
+        mockPrisma.podcastDownload.count.mockResolvedValue(0);
+
+        await removeDownload({ id: "d1", episodeId: "ep1", localPath: "/cache/ep1.mp3" });
+
+        expect(mockUnlink).toHaveBeenCalledWith("/cache/ep1.mp3");
+    });
+});
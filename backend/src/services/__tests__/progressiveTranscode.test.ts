@@ -0,0 +1,210 @@
+/**
+ * Progressive transcoding tests
+ *
+ * Verifies that an MP3 transcode is served while ffmpeg is still writing it:
+ * getStreamFilePath returns as soon as the transcode starts, concurrent
+ * listeners share one ffmpeg run, ranges wait for the bytes they need, the
+ * response fills the estimated Content-Length, and a file that outgrows the
+ * estimate is never cut short.
+ *
+ * Run with: npx jest progressiveTranscode.test.ts
+ */
+
+import type { Request, Response } from "express";
+
+// A stand-in for fluent-ffmpeg: save() creates the output file and the test
+// appends to it and finishes the run by hand
+const mockRuns: Array<{ write: (data: string) => void; finish: () => void }> = [];
+const mockOutputOptions: string[][] = [];
+
+jest.mock("fluent-ffmpeg", () => {
+    const fs = jest.requireActual("fs");
+    const ffmpeg = jest.fn(() => {
+        const handlers: Record<string, () => void> = {};
+        const command: Record<string, unknown> = new Proxy(
+            {},
+            {
+                get: (_target, prop) => {
+                    if (prop === "on") {
+                        return (event: string, handler: () => void) => {
+                            handlers[event] = handler;
+                            return command;
+                        };
+                    }
+                    if (prop === "outputOptions") {
+                        return (options: string[]) => {
+                            mockOutputOptions.push(options);
+                            return command;
+                        };
+                    }
+                    if (prop === "save") {
+                        return (output: string) => {
+                            fs.writeFileSync(output, "");
+                            mockRuns.push({
+                                write: (data) => fs.appendFileSync(output, data),
+                                finish: () => handlers.end(),
+                            });
+                            handlers.start();
+                            return command;
+                        };
+                    }
+                    return () => command;
+                },
+            }
+        );
+        return command;
+    });
+    return { __esModule: true, default: Object.assign(ffmpeg, { setFfmpegPath: jest.fn() }) };
+});
+
+jest.mock("music-metadata", () => ({ parseFile: jest.fn() }), { virtual: true });
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        transcodedFile: {
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            upsert: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import express from "express";
+import request from "supertest";
+import ffmpeg from "fluent-ffmpeg";
+import { parseFile } from "music-metadata";
+import { prisma } from "../../utils/db";
+import { AudioStreamingService } from "../audioStreaming";
+
+// 2 s at 128 kbps with the MP3 margin, plus header room
+const ESTIMATED_SIZE = Math.ceil(2 * 128 * 125 * 1.01) + 32 * 1024;
+
+const binary = (res: request.Response, callback: (err: Error | null, body: Buffer) => void) => {
+    const chunks: Buffer[] = [];
+    res.on("data", (chunk: Buffer) => chunks.push(chunk));
+    res.on("end", () => callback(null, Buffer.concat(chunks)));
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("progressive transcoding", () => {
+    let cacheDir: string;
+    let service: AudioStreamingService;
+    let app: express.Express;
+    let servedPath = "";
+
+    beforeAll(() => {
+        cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "kima-transcode-"));
+        service = new AudioStreamingService("/music", cacheDir, 10);
+        app = express();
+        app.get("/stream", (req: Request, res: Response) => {
+            service.streamFileWithRangeSupport(req, res, servedPath, "audio/mpeg");
+        });
+
+        (parseFile as jest.Mock).mockResolvedValue({
+            format: { bitrate: 900000, sampleRate: 44100, duration: 2 },
+        });
+        (prisma.transcodedFile.findFirst as jest.Mock).mockResolvedValue(null);
+        (prisma.transcodedFile.findMany as jest.Mock).mockResolvedValue([]);
+        (prisma.transcodedFile.upsert as jest.Mock).mockResolvedValue({});
+    });
+
+    afterAll(() => {
+        service.destroy();
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it("streams a running transcode to every listener and pads it to the estimate", async () => {
+        const first = await service.getStreamFilePath("track-1", "low", new Date(), "/music/a.flac");
+        const second = await service.getStreamFilePath("track-1", "low", new Date(), "/music/a.flac");
+
+        expect(second.filePath).toBe(first.filePath);
+        expect(first.mimeType).toBe("audio/mpeg");
+        expect(ffmpeg).toHaveBeenCalledTimes(1);
+        // Embedded cover art must not end up in the output
+        expect(mockOutputOptions[0]).toContain("-vn");
+        servedPath = first.filePath;
+
+        // Nothing is written yet, so the range waits for ffmpeg
+        const ranged = request(app)
+            .get("/stream")
+            .set("Range", "bytes=0-9")
+            .buffer(true)
+            .parse(binary)
+            .then((res) => res);
+        await sleep(50);
+        mockRuns[0].write("0123456789abcdef");
+
+        const rangedRes = await ranged;
+        expect(rangedRes.status).toBe(206);
+        expect(rangedRes.headers["content-range"]).toBe(`bytes 0-9/${ESTIMATED_SIZE}`);
+        expect(rangedRes.body.toString()).toBe("0123456789");
+
+        const full = request(app)
+            .get("/stream")
+            .buffer(true)
+            .parse(binary)
+            .then((res) => res);
+        await sleep(50);
+        mockRuns[0].write("ghij");
+        mockRuns[0].finish();
+
+        const fullRes = await full;
+        expect(fullRes.status).toBe(200);
+        expect(fullRes.headers["content-length"]).toBe(String(ESTIMATED_SIZE));
+        expect(fullRes.body.length).toBe(ESTIMATED_SIZE);
+        expect(fullRes.body.subarray(0, 20).toString()).toBe("0123456789abcdefghij");
+        expect(fullRes.body.subarray(20).every((byte: number) => byte === 0)).toBe(true);
+        expect(prisma.transcodedFile.upsert).toHaveBeenCalledWith(
+            expect.objectContaining({
+                create: expect.objectContaining({ trackId: "track-1", quality: "mp3-128", cacheSize: 20 }),
+            })
+        );
+    });
+
+    it("serves the finished file with its real size", async () => {
+        const res = await request(app).get("/stream").buffer(true).parse(binary);
+
+        expect(res.status).toBe(200);
+        expect(res.headers["content-length"]).toBe("20");
+    });
+
+    it("aborts rather than truncates when the file outgrows the estimate", async () => {
+        const { filePath } = await service.getStreamFilePath("track-2", "low", new Date(), "/music/b.flac");
+        servedPath = filePath;
+        const run = mockRuns[1];
+
+        const first = request(app)
+            .get("/stream")
+            .buffer(true)
+            .parse(binary)
+            .then(
+                () => "completed",
+                () => "aborted"
+            );
+        await sleep(50);
+        run.write("x".repeat(ESTIMATED_SIZE));
+        await sleep(250);
+        run.write("tail");
+
+        await expect(first).resolves.toBe("aborted");
+
+        // Later requests wait for the whole file instead of trusting the estimate
+        const retry = request(app).get("/stream").set("Range", "bytes=100-").buffer(true).parse(binary);
+        const retried = retry.then((res) => res);
+        await sleep(50);
+        run.finish();
+
+        const res = await retried;
+        expect(res.status).toBe(206);
+        expect(res.headers["content-range"]).toBe(`bytes 100-${ESTIMATED_SIZE + 3}/${ESTIMATED_SIZE + 4}`);
+        expect(res.body.subarray(-4).toString()).toBe("tail");
+    });
+});
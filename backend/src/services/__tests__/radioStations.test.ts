@@ -0,0 +1,134 @@
+/**
+ * RadioStationService Tests
+ *
+ * Verifies stream and homepage URLs go through the SSRF check before a
+ * station is saved, and that the ICY stripper hands the player clean audio
+ * while reporting StreamTitle changes once each.
+ *
+ * Run with: npx jest radioStations.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        radioStation: {
+            findMany: jest.fn(),
+            findUnique: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            deleteMany: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../utils/ssrf", () => ({
+    validateUrlForFetch: jest.fn(),
+}));
+
+import { radioStationService } from "../radioStations";
+import { IcyMetadataStripper, parseIcyTitle } from "../../utils/icyMetadata";
+import { validateUrlForFetch } from "../../utils/ssrf";
+import { prisma } from "../../utils/db";
+
+const mockPrisma = prisma as any;
+const mockValidate = validateUrlForFetch as jest.MockedFunction<typeof validateUrlForFetch>;
+
+function metaBlock(text: string): Buffer {
+    const length = Math.ceil(text.length / 16);
+    const block = Buffer.alloc(1 + length * 16);
+    block[0] = length;
+    block.write(text, 1, "utf8");
+    return block;
+}
+
+async function runStripper(metaInt: number, chunks: Buffer[]) {
+    const titles: string[] = [];
+    const stripper = new IcyMetadataStripper(metaInt, (title) => titles.push(title));
+    const output: Buffer[] = [];
+    stripper.on("data", (chunk: Buffer) => output.push(chunk));
+    const done = new Promise((resolve) => stripper.on("end", resolve));
+    for (const chunk of chunks) stripper.write(chunk);
+    stripper.end();
+    await done;
+    return { audio: Buffer.concat(output).toString(), titles };
+}
+
+describe("RadioStationService", () => {
+    beforeEach(() => {
+        mockValidate.mockResolvedValue(null);
+        mockPrisma.radioStation.create.mockImplementation(({ data }: any) =>
+            Promise.resolve({ id: "station-1", ...data })
+        );
+    });
+
+    it("trims input and records the creating user", async () => {
+        await radioStationService.create("user-1", {
+            name: "  KEXP  ",
+            streamUrl: "https://kexp.streamguys1.com/kexp160.aac",
+            homepageUrl: "",
+        });
+
+        expect(mockPrisma.radioStation.create).toHaveBeenCalledWith({
+            data: {
+                name: "KEXP",
+                streamUrl: "https://kexp.streamguys1.com/kexp160.aac",
+                homepageUrl: null,
+                createdBy: "user-1",
+            },
+        });
+    });
+
+    it("rejects internal stream and homepage URLs", async () => {
+        mockValidate.mockResolvedValueOnce("Blocked: internal address");
+        await expect(
+            radioStationService.create("user-1", { name: "LAN", streamUrl: "http://10.0.0.5/stream" })
+        ).rejects.toThrow("Invalid stream URL");
+
+        mockValidate.mockResolvedValueOnce(null).mockResolvedValueOnce("Blocked hostname: localhost");
+        await expect(
+            radioStationService.create("user-1", {
+                name: "Station",
+                streamUrl: "https://example.com/stream",
+                homepageUrl: "http://localhost/",
+            })
+        ).rejects.toThrow("Invalid homepage URL");
+
+        expect(mockPrisma.radioStation.create).not.toHaveBeenCalled();
+    });
+
+    it("returns null when updating a missing station", async () => {
+        mockPrisma.radioStation.findUnique.mockResolvedValue(null);
+
+        await expect(
+            radioStationService.update("nope", { name: "X", streamUrl: "https://example.com/s" })
+        ).resolves.toBeNull();
+        expect(mockPrisma.radioStation.update).not.toHaveBeenCalled();
+    });
+});
+
+describe("ICY metadata", () => {
+    it("parses StreamTitle, including titles with apostrophes", () => {
+        expect(parseIcyTitle("StreamTitle='Artist - Song';StreamUrl='';\0\0\0")).toBe("Artist - Song");
+        expect(parseIcyTitle("StreamTitle='Don't Stop';")).toBe("Don't Stop");
+        expect(parseIcyTitle("StreamTitle='';")).toBeNull();
+    });
+
+    it("strips metadata blocks split across chunks and reports each title once", async () => {
+        const first = metaBlock("StreamTitle='Artist - One';");
+        const stream = Buffer.concat([
+            Buffer.from("aaaa"),
+            first,
+            Buffer.from("bbbb"),
+            Buffer.from([0]),
+            Buffer.from("cccc"),
+            metaBlock("StreamTitle='Artist - One';"),
+            Buffer.from("dddd"),
+            metaBlock("StreamTitle='Artist - Two';"),
+            Buffer.from("ee"),
+        ]);
+        // Split mid-block so the parser has to carry state between chunks
+        const { audio, titles } = await runStripper(4, [stream.subarray(0, 7), stream.subarray(7)]);
+
+        expect(audio).toBe("aaaabbbbccccddddee");
+        expect(titles).toEqual(["Artist - One", "Artist - Two"]);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * RatingService Tests
+ *
+ * Verifies 1-5 ratings stay independent of stars, that annotations merge
+ * star and rating state per id, and that a track's own rating overrides its
+ * album's when picking highly rated tracks.
+ *
+ * Run with: npx jest ratings.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        track: { findUnique: jest.fn(), findMany: jest.fn() },
+        album: { findUnique: jest.fn() },
+        artist: { findUnique: jest.fn() },
+        likedTrack: { findMany: jest.fn(), upsert: jest.fn(), deleteMany: jest.fn() },
+        trackRating: { findMany: jest.fn(), upsert: jest.fn(), deleteMany: jest.fn() },
+        albumRating: { findMany: jest.fn(), upsert: jest.fn(), deleteMany: jest.fn() },
+    },
+}));
+
+import { ratingService } from "../ratings";
+import { prisma } from "../../utils/db";
+
+const mockPrisma = prisma as any;
+
+describe("RatingService", () => {
+    beforeEach(() => {
+        mockPrisma.track.findUnique.mockResolvedValue(null);
+        mockPrisma.album.findUnique.mockResolvedValue(null);
+        mockPrisma.artist.findUnique.mockResolvedValue(null);
+        mockPrisma.likedTrack.findMany.mockResolvedValue([]);
+        mockPrisma.trackRating.findMany.mockResolvedValue([]);
+        mockPrisma.albumRating.findMany.mockResolvedValue([]);
+        mockPrisma.track.findMany.mockResolvedValue([]);
+    });
+
+    it("resolves a bare id to the entity type it belongs to", async () => {
+        mockPrisma.album.findUnique.mockImplementation(({ where }: any) =>
+            Promise.resolve(where.id === "album-1" ? { id: "album-1" } : null)
+        );
+
+        await expect(ratingService.resolveType("album-1")).resolves.toBe("album");
+        await expect(ratingService.resolveType("nope")).resolves.toBeNull();
+    });
+
+    it("rates a track without starring it", async () => {
+        await ratingService.setRating("user-1", "track", "track-1", 4);
+
+        expect(mockPrisma.trackRating.upsert).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: { userId_trackId: { userId: "user-1", trackId: "track-1" } },
+                create: { userId: "user-1", trackId: "track-1", rating: 4 },
+            })
+        );
+        expect(mockPrisma.likedTrack.upsert).not.toHaveBeenCalled();
+    });
+
+    it("clears a rating with 0 and rejects out-of-range values", async () => {
+        await ratingService.setRating("user-1", "album", "album-1", 0);
+
+        expect(mockPrisma.albumRating.deleteMany).toHaveBeenCalledWith({
+            where: { userId: "user-1", albumId: "album-1" },
+        });
+        await expect(ratingService.setRating("user-1", "album", "album-1", 6)).rejects.toThrow(
+            "Invalid rating"
+        );
+    });
+
+    it("merges star and rating state per id", async () => {
+        const likedAt = new Date("2026-01-01T00:00:00Z");
+        mockPrisma.likedTrack.findMany.mockResolvedValue([{ trackId: "track-1", likedAt }]);
+        mockPrisma.trackRating.findMany.mockResolvedValue([
+            { trackId: "track-1", rating: 5 },
+            { trackId: "track-2", rating: 2 },
+        ]);
+
+        const annotations = await ratingService.getAnnotations("user-1", "track", [
+            "track-1",
+            "track-2",
+            "track-3",
+        ]);
+
+        expect(annotations.get("track-1")).toEqual({ starredAt: likedAt, rating: 5 });
+        expect(annotations.get("track-2")).toEqual({ rating: 2 });
+        expect(annotations.has("track-3")).toBe(false);
+    });
+
+    it("includes unrated tracks on highly rated albums but not tracks rated down", async () => {
+        mockPrisma.trackRating.findMany.mockResolvedValue([
+            { trackId: "track-1", rating: 5 },
+            { trackId: "track-2", rating: 2 },
+        ]);
+        mockPrisma.albumRating.findMany.mockResolvedValue([{ albumId: "album-1" }]);
+        mockPrisma.track.findMany.mockResolvedValue([{ id: "track-2" }, { id: "track-3" }]);
+
+        const ids = await ratingService.getHighlyRatedTrackIds("user-1");
+
+        expect(mockPrisma.albumRating.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { userId: "user-1", rating: { gte: 4 } } })
+        );
+        expect(ids).toEqual(["track-1", "track-3"]);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * ReplayGainService Tests
+ *
+ * Verifies REPLAYGAIN_* tags are read as dB gains and linear peaks, that
+ * album gain is derived from measured track gains only once every track is
+ * measured, and that tagged album gain is never overwritten.
+ *
+ * Run with: npx jest replayGain.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        album: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        track: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+import { readReplayGainTags, replayGainService } from "../replayGain";
+import { mapSong } from "../../routes/subsonic/mappers";
+import { prisma } from "../../utils/db";
+
+const mockPrisma = prisma as any;
+
+const baseTrack = {
+    id: "t1",
+    title: "Song",
+    trackNo: 1,
+    discNumber: 1,
+    duration: 200,
+    filePath: "a/b.flac",
+    mime: "FLAC",
+    fileSize: 1000,
+};
+const baseAlbum = { id: "al1", title: "Album", displayTitle: null, year: 2020 };
+
+describe("readReplayGainTags", () => {
+    it("reads gains in dB and peaks as linear ratios", () => {
+        const info = readReplayGainTags({
+            replaygain_track_gain: { dB: -7.2, ratio: 0.19 },
+            replaygain_track_peak: { dB: -0.1, ratio: 0.988 },
+            replaygain_album_gain: { dB: -6.5, ratio: 0.22 },
+        } as any);
+
+        expect(info).toEqual({ trackGain: -7.2, trackPeak: 0.988, albumGain: -6.5, albumPeak: null });
+    });
+
+    it("returns nulls for untagged files", () => {
+        expect(readReplayGainTags({} as any)).toEqual({
+            trackGain: null,
+            trackPeak: null,
+            albumGain: null,
+            albumPeak: null,
+        });
+    });
+});
+
+describe("ReplayGainService.deriveAlbumGain", () => {
+    it("combines track loudness by duration and keeps the highest peak", async () => {
+        // -8 dB gain = -10 LUFS, -2 dB gain = -16 LUFS; equal durations
+        mockPrisma.album.findUnique.mockResolvedValue({
+            replayGainSource: null,
+            tracks: [
+                { duration: 180, replayGainTrackGain: -8, replayGainTrackPeak: 0.9 },
+                { duration: 180, replayGainTrackGain: -2, replayGainTrackPeak: 0.97 },
+            ],
+        });
+
+        await expect(replayGainService.deriveAlbumGain("al1")).resolves.toBe(true);
+
+        // Power mean of -10 and -16 LUFS is about -12.04 LUFS -> -5.96 dB
+        expect(mockPrisma.album.update).toHaveBeenCalledWith({
+            where: { id: "al1" },
+            data: { replayGainAlbumGain: -5.96, replayGainAlbumPeak: 0.97, replayGainSource: "r128" },
+        });
+    });
+
+    it("waits until every track has been measured", async () => {
+        mockPrisma.album.findUnique.mockResolvedValue({
+            replayGainSource: null,
+            tracks: [
+                { duration: 180, replayGainTrackGain: -8, replayGainTrackPeak: 0.9 },
+                { duration: 200, replayGainTrackGain: null, replayGainTrackPeak: null },
+            ],
+        });
+
+        await expect(replayGainService.deriveAlbumGain("al1")).resolves.toBe(false);
+        expect(mockPrisma.album.update).not.toHaveBeenCalled();
+    });
+
+    it("never overwrites tagged album gain", async () => {
+        mockPrisma.album.findUnique.mockResolvedValue({
+            replayGainSource: "tags",
+            tracks: [{ duration: 180, replayGainTrackGain: -8, replayGainTrackPeak: 0.9 }],
+        });
+
+        await expect(replayGainService.deriveAlbumGain("al1")).resolves.toBe(false);
+        expect(mockPrisma.album.update).not.toHaveBeenCalled();
+    });
+});
+
+describe("Subsonic replayGain", () => {
+    it("exposes track and album gain on songs", () => {
+        const song = mapSong(
+            { ...baseTrack, replayGainTrackGain: -7.2, replayGainTrackPeak: 0.988 },
+            { ...baseAlbum, replayGainAlbumGain: -6.5, replayGainAlbumPeak: null },
+            "Artist",
+            "ar1"
+        );
+
+        expect(song.replayGain).toEqual({
+            "@_trackGain": -7.2,
+            "@_trackPeak": 0.988,
+            "@_albumGain": -6.5,
+            "@_albumPeak": undefined,
+        });
+    });
+
+    it("omits replayGain when nothing has been measured", () => {
+        const song = mapSong(baseTrack, baseAlbum, "Artist", "ar1");
+        expect(song).not.toHaveProperty("replayGain");
+    });
+});
@@ -0,0 +1,281 @@
+/**
+ * ScrobbleService Tests
+ *
+ * Verifies listens are only queued for linked accounts and that the worker
+ * entrypoint lets transient Last.fm/ListenBrainz failures retry while
+ * permanent ones (revoked session, reset token) unlink the account and stop
+ * retrying.
+ *
+ * Run with: npx jest scrobbler.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        userSettings: {
+            findUnique: jest.fn(),
+            update: jest.fn(),
+        },
+        track: {
+            findUnique: jest.fn(),
+        },
+    },
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("../../utils/encryption", () => ({
+    decrypt: jest.fn((value: string) => `decrypted:${value}`),
+}));
+
+jest.mock("../../workers/queues", () => ({
+    scrobbleQueue: { add: jest.fn() },
+}));
+
+jest.mock("../lastfm", () => {
+    class LastFmApiError extends Error {
+        constructor(public code: number, message: string) {
+            super(message);
+        }
+        get isTransient() {
+            return [8, 11, 16, 29].includes(this.code);
+        }
+    }
+    return {
+        LastFmApiError,
+        lastFmService: {
+            scrobble: jest.fn(),
+            updateNowPlaying: jest.fn(),
+        },
+    };
+});
+
+jest.mock("../listenbrainz", () => {
+    class ListenBrainzApiError extends Error {
+        constructor(public status: number | null, message: string) {
+            super(message);
+        }
+        get isTransient() {
+            return this.status === null || this.status === 429 || this.status >= 500;
+        }
+    }
+    return {
+        ListenBrainzApiError,
+        listenBrainzService: { submitListens: jest.fn() },
+    };
+});
+
+import { UnrecoverableError } from "bullmq";
+import { scrobbleService } from "../scrobbler";
+import { prisma } from "../../utils/db";
+import { scrobbleQueue } from "../../workers/queues";
+import { lastFmService, LastFmApiError } from "../lastfm";
+import { listenBrainzService, ListenBrainzApiError } from "../listenbrainz";
+
+const mockSettings = prisma.userSettings.findUnique as jest.Mock;
+const mockSettingsUpdate = prisma.userSettings.update as jest.Mock;
+const mockTrack = prisma.track.findUnique as jest.Mock;
+const mockAdd = scrobbleQueue.add as jest.Mock;
+const mockScrobble = lastFmService.scrobble as jest.Mock;
+const mockSubmitListens = listenBrainzService.submitListens as jest.Mock;
+
+const linked = {
+    lastfmSessionKey: "enc-key",
+    lastfmScrobbling: true,
+    listenbrainzToken: null,
+    listenbrainzScrobbling: true,
+};
+
+const track = {
+    id: "track-1",
+    title: "Song",
+    displayTitle: null,
+    trackNo: 3,
+    displayTrackNo: null,
+    duration: 215,
+    isrc: "GBAYE0601498",
+    album: {
+        title: "Album",
+        displayTitle: null,
+        artist: { name: "Artist", displayName: null },
+    },
+};
+
+describe("ScrobbleService", () => {
+    describe("queuePlay", () => {
+        it("does nothing when the user has no linked account", async () => {
+            mockSettings.mockResolvedValue({ lastfmSessionKey: null, lastfmScrobbling: true });
+
+            await scrobbleService.queuePlay("user-1", "track-1", new Date());
+
+            expect(mockAdd).not.toHaveBeenCalled();
+        });
+
+        it("does nothing when scrobbling is paused", async () => {
+            mockSettings.mockResolvedValue({ lastfmSessionKey: "enc-key", lastfmScrobbling: false });
+
+            await scrobbleService.queuePlay("user-1", "track-1", new Date());
+
+            expect(mockAdd).not.toHaveBeenCalled();
+        });
+
+        it("queues a job with a deterministic id per listen", async () => {
+            mockSettings.mockResolvedValue(linked);
+            const playedAt = new Date("2026-01-01T12:00:00Z");
+
+            await scrobbleService.queuePlay("user-1", "track-1", playedAt);
+
+            expect(mockAdd).toHaveBeenCalledWith(
+                "scrobble",
+                expect.objectContaining({
+                    provider: "lastfm",
+                    kind: "scrobble",
+                    playedAt: playedAt.toISOString(),
+                }),
+                { jobId: `lastfm-user-1-track-1-${playedAt.getTime()}` }
+            );
+        });
+
+        it("queues one job per linked provider", async () => {
+            mockSettings.mockResolvedValue({ ...linked, listenbrainzToken: "enc-token" });
+
+            await scrobbleService.queuePlay("user-1", "track-1", new Date());
+
+            expect(mockAdd.mock.calls.map(([, data]) => data.provider)).toEqual([
+                "lastfm",
+                "listenbrainz",
+            ]);
+        });
+
+        it("swallows queue errors so play logging is never affected", async () => {
+            mockSettings.mockResolvedValue(linked);
+            mockAdd.mockRejectedValueOnce(new Error("redis down"));
+
+            await expect(
+                scrobbleService.queuePlay("user-1", "track-1", new Date())
+            ).resolves.toBeUndefined();
+        });
+    });
+
+    describe("submit", () => {
+        const job = {
+            provider: "lastfm" as const,
+            kind: "scrobble" as const,
+            userId: "user-1",
+            trackId: "track-1",
+            playedAt: "2026-01-01T12:00:00.000Z",
+        };
+
+        beforeEach(() => {
+            mockTrack.mockResolvedValue(track);
+            mockSettings.mockResolvedValue(linked);
+        });
+
+        it("submits with the decrypted session key and track metadata", async () => {
+            mockScrobble.mockResolvedValue(true);
+
+            await scrobbleService.submit(job);
+
+            expect(mockScrobble).toHaveBeenCalledWith(
+                "decrypted:enc-key",
+                expect.objectContaining({ artist: "Artist", track: "Song", album: "Album", duration: 215 }),
+                new Date(job.playedAt)
+            );
+        });
+
+        it("skips tracks shorter than 30 seconds", async () => {
+            mockTrack.mockResolvedValue({ ...track, duration: 20 });
+
+            await scrobbleService.submit(job);
+
+            expect(mockScrobble).not.toHaveBeenCalled();
+        });
+
+        it("drops the job when the track was deleted", async () => {
+            mockTrack.mockResolvedValue(null);
+
+            await expect(scrobbleService.submit(job)).resolves.toBeUndefined();
+            expect(mockScrobble).not.toHaveBeenCalled();
+        });
+
+        it("rethrows transient errors so BullMQ retries", async () => {
+            mockScrobble.mockRejectedValue(new LastFmApiError(11, "Service offline"));
+
+            const error = await scrobbleService.submit(job).catch((e) => e);
+
+            expect(error).toBeInstanceOf(LastFmApiError);
+            expect(error).not.toBeInstanceOf(UnrecoverableError);
+        });
+
+        it("unlinks the account and stops retrying on an invalid session key", async () => {
+            mockScrobble.mockRejectedValue(new LastFmApiError(9, "Invalid session key"));
+
+            await expect(scrobbleService.submit(job)).rejects.toBeInstanceOf(UnrecoverableError);
+            expect(mockSettingsUpdate).toHaveBeenCalledWith({
+                where: { userId: "user-1" },
+                data: { lastfmSessionKey: null, lastfmUsername: null },
+            });
+        });
+    });
+
+    describe("submit (ListenBrainz)", () => {
+        const job = {
+            provider: "listenbrainz" as const,
+            kind: "scrobble" as const,
+            userId: "user-1",
+            trackId: "track-1",
+            playedAt: "2026-01-01T12:00:00.000Z",
+        };
+
+        beforeEach(() => {
+            mockTrack.mockResolvedValue(track);
+            mockSettings.mockResolvedValue({ listenbrainzToken: "enc-token", listenbrainzScrobbling: true });
+        });
+
+        it("submits a single listen with whole-second timestamp and ISRC", async () => {
+            await scrobbleService.submit(job);
+
+            expect(mockSubmitListens).toHaveBeenCalledWith("decrypted:enc-token", "single", [
+                {
+                    listened_at: Date.parse(job.playedAt) / 1000,
+                    track_metadata: expect.objectContaining({
+                        artist_name: "Artist",
+                        track_name: "Song",
+                        release_name: "Album",
+                        additional_info: expect.objectContaining({
+                            duration_ms: 215000,
+                            isrc: "GBAYE0601498",
+                        }),
+                    }),
+                },
+            ]);
+        });
+
+        it("sends now-playing without a timestamp", async () => {
+            await scrobbleService.submit({ ...job, kind: "nowPlaying", playedAt: undefined });
+
+            const [, listenType, [listen]] = mockSubmitListens.mock.calls[0];
+            expect(listenType).toBe("playing_now");
+            expect(listen.listened_at).toBeUndefined();
+        });
+
+        it("rethrows rate limiting so BullMQ retries", async () => {
+            mockSubmitListens.mockRejectedValue(new ListenBrainzApiError(429, "Too many requests"));
+
+            const error = await scrobbleService.submit(job).catch((e) => e);
+
+            expect(error).toBeInstanceOf(ListenBrainzApiError);
+        });
+
+        it("unlinks the account when the token is rejected", async () => {
+            mockSubmitListens.mockRejectedValue(new ListenBrainzApiError(401, "Invalid token"));
+
+            await expect(scrobbleService.submit(job)).rejects.toBeInstanceOf(UnrecoverableError);
+            expect(mockSettingsUpdate).toHaveBeenCalledWith({
+                where: { userId: "user-1" },
+                data: { listenbrainzToken: null, listenbrainzUsername: null },
+            });
+        });
+    });
+});
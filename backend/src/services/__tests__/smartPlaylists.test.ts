@@ -0,0 +1,218 @@
+/**
+ * Smart playlist rule tests
+ *
+ * Verifies that rule files validate operators and values per field, that
+ * AND/OR groups compile to the matching Prisma track filter, and that rules
+ * and sorts over play counts and ratings handle tracks that were never
+ * played or rated.
+ *
+ * Run with: npx jest smartPlaylists.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({ prisma: {} }));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+    SmartRuleContext,
+    compileSmartRules,
+    smartPlaylistFileSchema,
+    smartPlaylistSchema,
+    smartPlaylistService,
+} from "../smartPlaylists";
+import { prisma } from "../../utils/db";
+
+const now = new Date("2026-10-19T00:00:00Z");
+
+const ctx: SmartRuleContext = {
+    userId: "user-1",
+    now,
+    plays: {
+        counts: new Map([
+            ["often", 12],
+            ["once", 1],
+        ]),
+        lastPlayed: new Map(),
+    },
+};
+
+describe("smartPlaylistSchema", () => {
+    it("accepts nested groups with sort and limit", () => {
+        const parsed = smartPlaylistSchema.parse({
+            rules: {
+                match: "all",
+                conditions: [
+                    { field: "genre", operator: "is", value: "Techno" },
+                    {
+                        match: "any",
+                        conditions: [
+                            { field: "bpm", operator: "inTheRange", value: [120, 130] },
+                            { field: "key", operator: "is", value: "A minor" },
+                        ],
+                    },
+                ],
+            },
+            sort: { field: "energy" },
+            limit: 50,
+        });
+
+        expect(parsed.sort).toEqual({ field: "energy", order: "asc" });
+    });
+
+    it("rejects unknown fields, wrong operators and mistyped values", () => {
+        const rules = (condition: object) => ({ rules: { match: "all", conditions: [condition] } });
+
+        expect(smartPlaylistSchema.safeParse(rules({ field: "color", operator: "is", value: "red" })).success).toBe(false);
+        expect(smartPlaylistSchema.safeParse(rules({ field: "year", operator: "contains", value: 1990 })).success).toBe(false);
+        expect(smartPlaylistSchema.safeParse(rules({ field: "energy", operator: "gt", value: "high" })).success).toBe(false);
+        expect(smartPlaylistSchema.safeParse(rules({ field: "key", operator: "is", value: "H" })).success).toBe(false);
+        expect(smartPlaylistSchema.safeParse(rules({ field: "lastPlayed", operator: "inTheLast", value: -3 })).success).toBe(false);
+        expect(smartPlaylistSchema.safeParse(rules({ field: "rating", operator: "gt", value: 6 })).success).toBe(false);
+        expect(smartPlaylistSchema.safeParse(rules({ field: "rating", operator: "inTheRange", value: [3, 5] })).success).toBe(true);
+    });
+
+    it("requires a name in rule files", () => {
+        const file = { version: 1, rules: { match: "all", conditions: [] } };
+
+        expect(smartPlaylistFileSchema.safeParse(file).success).toBe(false);
+        expect(smartPlaylistFileSchema.safeParse({ ...file, name: "Everything" }).success).toBe(true);
+    });
+});
+
+describe("compileSmartRules", () => {
+    it("combines groups with AND and OR", () => {
+        const where = compileSmartRules(
+            {
+                match: "all",
+                conditions: [
+                    { field: "energy", operator: "gt", value: 0.7 },
+                    {
+                        match: "any",
+                        conditions: [
+                            { field: "liked", operator: "is", value: true },
+                            { field: "key", operator: "isNot", value: "Am" },
+                        ],
+                    },
+                ],
+            },
+            ctx
+        );
+
+        expect(where).toEqual({
+            AND: [
+                { energy: { gt: 0.7 } },
+                {
+                    OR: [
+                        { likedBy: { some: { userId: "user-1" } } },
+                        { NOT: { key: "A", keyScale: { equals: "minor", mode: "insensitive" } } },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it("matches years by the album's effective year", () => {
+        const where = compileSmartRules(
+            { match: "all", conditions: [{ field: "year", operator: "inTheRange", value: [1999, 1990] }] },
+            ctx
+        );
+        const year = { gte: 1990, lte: 1999 };
+
+        expect(where).toEqual({
+            AND: [
+                {
+                    album: {
+                        OR: [
+                            { displayYear: year },
+                            { displayYear: null, originalYear: year },
+                            { displayYear: null, originalYear: null, year },
+                        ],
+                    },
+                },
+            ],
+        });
+    });
+
+    it("counts never-played tracks as zero plays", () => {
+        const rare = compileSmartRules(
+            { match: "all", conditions: [{ field: "playCount", operator: "lt", value: 5 }] },
+            ctx
+        );
+        const frequent = compileSmartRules(
+            { match: "all", conditions: [{ field: "playCount", operator: "gt", value: 5 }] },
+            ctx
+        );
+
+        expect(rare).toEqual({ AND: [{ id: { notIn: ["often"] } }] });
+        expect(frequent).toEqual({ AND: [{ id: { in: ["often"] } }] });
+    });
+
+    it("counts unrated tracks as zero stars", () => {
+        const unloved = compileSmartRules(
+            { match: "all", conditions: [{ field: "rating", operator: "lt", value: 3 }] },
+            ctx
+        );
+        const favourites = compileSmartRules(
+            { match: "all", conditions: [{ field: "rating", operator: "gt", value: 3 }] },
+            ctx
+        );
+
+        expect(unloved).toEqual({ AND: [{ ratings: { none: { userId: "user-1", NOT: { rating: { lt: 3 } } } } }] });
+        expect(favourites).toEqual({ AND: [{ ratings: { some: { userId: "user-1", rating: { gt: 3 } } } }] });
+    });
+
+    it("scopes play dates to the owner and measures days from now", () => {
+        const where = compileSmartRules(
+            {
+                match: "any",
+                conditions: [
+                    { field: "lastPlayed", operator: "notInTheLast", value: 30 },
+                    { field: "dateAdded", operator: "inTheLast", value: 7 },
+                ],
+            },
+            ctx
+        );
+
+        expect(where).toEqual({
+            OR: [
+                { plays: { none: { userId: "user-1", playedAt: { gte: new Date("2026-09-19T00:00:00Z") } } } },
+                { album: { lastSynced: { gte: new Date("2026-10-12T00:00:00Z") } } },
+            ],
+        });
+    });
+});
+
+describe("smartPlaylistService.evaluate", () => {
+    it("sorts by the owner's ratings with unrated tracks last", async () => {
+        const createMany = jest.fn();
+        Object.assign(prisma, {
+            track: { findMany: jest.fn().mockResolvedValue([{ id: "unrated" }, { id: "three" }, { id: "five" }]) },
+            trackRating: {
+                findMany: jest.fn().mockResolvedValue([
+                    { trackId: "three", rating: 3 },
+                    { trackId: "five", rating: 5 },
+                ]),
+            },
+            playlistItem: { deleteMany: jest.fn(), createMany },
+            playlist: { update: jest.fn() },
+            $transaction: jest.fn().mockResolvedValue([]),
+        });
+
+        await smartPlaylistService.evaluate({
+            id: "playlist-1",
+            userId: "user-1",
+            smartRules: { rules: { match: "all", conditions: [] }, sort: { field: "rating", order: "desc" } },
+        });
+
+        expect((prisma as any).trackRating.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { userId: "user-1" } })
+        );
+        expect(createMany.mock.calls[0][0].data.map((item: { trackId: string }) => item.trackId)).toEqual([
+            "five",
+            "three",
+            "unrated",
+        ]);
+    });
+});
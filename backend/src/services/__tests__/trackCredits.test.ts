@@ -0,0 +1,170 @@
+/**
+ * Track credit tests
+ *
+ * Verifies featured artists are split out of ARTIST tags and titles while
+ * band names stay whole, that role tags and PERFORMER instruments become
+ * credits, and that credited names resolve to existing artists before new
+ * ones are created.
+ *
+ * Run with: npx jest trackCredits.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        artist: {
+            findUnique: jest.fn(),
+            findFirst: jest.fn(),
+            create: jest.fn(),
+        },
+        trackArtist: {
+            deleteMany: jest.fn(),
+            createMany: jest.fn(),
+        },
+        $transaction: jest.fn(),
+    },
+}));
+
+import {
+    formatDisplayArtist,
+    readTagCredits,
+    splitArtistNames,
+    trackCreditService,
+} from "../trackCredits";
+import { prisma } from "../../utils/db";
+
+const mockPrisma = prisma as any;
+
+function metadata(common: Record<string, unknown>, native: Record<string, unknown[]> = {}) {
+    return { format: {}, native, common: { track: {}, disk: {}, ...common } } as any;
+}
+
+describe("splitArtistNames", () => {
+    it("splits collaborations but keeps band names whole", () => {
+        expect(splitArtistNames("CHVRCHES & Robert Smith")).toEqual(["CHVRCHES", "Robert Smith"]);
+        expect(splitArtistNames("Earth, Wind & Fire")).toEqual(["Earth, Wind & Fire"]);
+        expect(splitArtistNames("Of Mice & Men")).toEqual(["Of Mice & Men"]);
+    });
+});
+
+describe("readTagCredits", () => {
+    it("files everyone after feat. as featured", () => {
+        const credits = readTagCredits(
+            metadata({ artist: "Calvin Harris feat. Rihanna", title: "This Is What You Came For" })
+        );
+
+        expect(credits).toEqual([
+            { name: "Calvin Harris", role: "primary", mbid: undefined },
+            { name: "Rihanna", role: "featured", mbid: undefined },
+        ]);
+    });
+
+    it("reads featured artists from the title", () => {
+        const credits = readTagCredits(
+            metadata({ artist: "Gorillaz", title: "Feel Good Inc. (feat. De La Soul)" })
+        );
+
+        expect(credits.map((c) => [c.name, c.role])).toEqual([
+            ["Gorillaz", "primary"],
+            ["De La Soul", "featured"],
+        ]);
+    });
+
+    it("prefers a multi-value ARTISTS tag and pairs it with artist MBIDs", () => {
+        const credits = readTagCredits(
+            metadata({
+                artist: "Daft Punk feat. Pharrell Williams",
+                artists: ["Daft Punk", "Pharrell Williams"],
+                musicbrainz_artistid: ["mbid-daft", "mbid-pharrell"],
+            })
+        );
+
+        expect(credits).toEqual([
+            { name: "Daft Punk", role: "primary", mbid: "mbid-daft" },
+            { name: "Pharrell Williams", role: "featured", mbid: "mbid-pharrell" },
+        ]);
+    });
+
+    it("turns role tags and PERFORMER instruments into credits", () => {
+        const credits = readTagCredits(
+            metadata(
+                {
+                    artist: "Berliner Philharmoniker",
+                    composer: ["Ludwig van Beethoven"],
+                    conductor: ["Herbert von Karajan"],
+                },
+                { vorbis: [{ id: "PERFORMER", value: "Anne-Sophie Mutter (Violin)" }] }
+            )
+        );
+
+        expect(credits).toEqual([
+            { name: "Berliner Philharmoniker", role: "primary", mbid: undefined },
+            { name: "Ludwig van Beethoven", role: "composer" },
+            { name: "Herbert von Karajan", role: "conductor" },
+            { name: "Anne-Sophie Mutter", role: "performer", subRole: "violin" },
+        ]);
+    });
+});
+
+describe("formatDisplayArtist", () => {
+    it("joins primary artists and appends featured ones", () => {
+        const credit = (name: string, role: "primary" | "featured") => ({
+            role,
+            subRole: "",
+            artist: { id: name, name },
+        });
+
+        expect(
+            formatDisplayArtist([
+                credit("A", "primary"),
+                credit("B", "primary"),
+                credit("C", "featured"),
+            ])
+        ).toBe("A & B feat. C");
+    });
+});
+
+describe("TrackCreditService.setCredits", () => {
+    beforeEach(() => {
+        mockPrisma.trackArtist.deleteMany.mockReturnValue("delete");
+        mockPrisma.trackArtist.createMany.mockReturnValue("create");
+        mockPrisma.$transaction.mockResolvedValue([]);
+    });
+
+    it("matches the album artist and existing artists before creating new ones", async () => {
+        mockPrisma.artist.findUnique.mockResolvedValue(null);
+        mockPrisma.artist.findFirst.mockImplementation(({ where }: any) =>
+            Promise.resolve(where.normalizedName === "rihanna" ? { id: "ar-rihanna" } : null)
+        );
+        mockPrisma.artist.create.mockResolvedValue({ id: "ar-new" });
+
+        await trackCreditService.setCredits(
+            "t1",
+            "tags",
+            [
+                { name: "Calvin Harris", role: "primary" },
+                { name: "Rihanna", role: "featured" },
+                { name: "Taylor Swift", role: "composer", mbid: "mbid-taylor" },
+                { name: "Rihanna", role: "featured" },
+            ],
+            { id: "ar-calvin", name: "Calvin Harris" }
+        );
+
+        expect(mockPrisma.artist.create).toHaveBeenCalledTimes(1);
+        expect(mockPrisma.artist.create).toHaveBeenCalledWith(
+            expect.objectContaining({
+                data: expect.objectContaining({ name: "Taylor Swift", mbid: "mbid-taylor" }),
+            })
+        );
+        expect(mockPrisma.trackArtist.deleteMany).toHaveBeenCalledWith({
+            where: { trackId: "t1", source: "tags" },
+        });
+        expect(mockPrisma.trackArtist.createMany).toHaveBeenCalledWith({
+            data: [
+                { trackId: "t1", artistId: "ar-calvin", role: "primary", subRole: "", position: 0, source: "tags" },
+                { trackId: "t1", artistId: "ar-rihanna", role: "featured", subRole: "", position: 0, source: "tags" },
+                { trackId: "t1", artistId: "ar-new", role: "composer", subRole: "", position: 0, source: "tags" },
+            ],
+            skipDuplicates: true,
+        });
+    });
+});
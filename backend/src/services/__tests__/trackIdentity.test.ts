@@ -0,0 +1,68 @@
+/**
+ * TrackIdentityService.matchListen Tests
+ *
+ * Verifies that external listens match by MusicBrainz recording before any
+ * text matching, and that the normalized title match still prefers the
+ * listen's album when the library holds several copies of a track.
+ *
+ * Run with: npx jest trackIdentity.test.ts
+ */
+
+jest.mock("../../utils/db", () => ({
+    prisma: {
+        track: { findFirst: jest.fn(), findMany: jest.fn() },
+        album: { findFirst: jest.fn() },
+    },
+}));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock("../songlink", () => ({ songLinkService: {} }));
+jest.mock("../musicbrainz", () => ({ musicBrainzService: {} }));
+
+import { trackIdentityService } from "../trackIdentity";
+import { prisma } from "../../utils/db";
+
+const mockFindTrack = prisma.track.findFirst as jest.Mock;
+const mockFindTracks = prisma.track.findMany as jest.Mock;
+
+describe("trackIdentityService.matchListen", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockFindTrack.mockResolvedValue(null);
+        mockFindTracks.mockResolvedValue([
+            { id: "single", title: "Song", displayTitle: null, album: { title: "Single", displayTitle: null } },
+            { id: "album", title: "Song (Remastered)", displayTitle: null, album: { title: "Album", displayTitle: null } },
+        ]);
+    });
+
+    it("matches by recording MBID before looking at the text", async () => {
+        mockFindTrack.mockResolvedValueOnce({ id: "tagged" });
+
+        const trackId = await trackIdentityService.matchListen({
+            artist: "Artist",
+            title: "Completely different title",
+            recordingMbid: "recording-1",
+        });
+
+        expect(trackId).toBe("tagged");
+        expect(mockFindTrack).toHaveBeenCalledWith({
+            where: { recordingMbid: "recording-1", album: { location: "LIBRARY" } },
+            select: { id: true },
+        });
+        expect(mockFindTracks).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the title when no track carries the recording", async () => {
+        const trackId = await trackIdentityService.matchListen({
+            artist: "Artist",
+            title: "Song",
+            album: "Album",
+            recordingMbid: "untagged-recording",
+        });
+
+        expect(trackId).toBe("album");
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Transcoding profile tests
+ *
+ * Verifies profile keys round-trip and snap to the codec's bitrates, that
+ * Subsonic format/maxBitRate combine with the configured profile, and that
+ * OpenSubsonic transcode decisions pick direct play or a supported codec.
+ *
+ * Run with: npx jest transcodeProfiles.test.ts
+ */
+
+jest.mock("music-metadata", () => ({ parseFile: jest.fn() }), { virtual: true });
+
+jest.mock("../../utils/db", () => ({ prisma: {} }));
+
+jest.mock("../../utils/logger", () => ({
+    logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+    SourceStream,
+    TRANSCODE_PRESETS,
+    decideTranscode,
+    parseProfileKey,
+    profileForRequest,
+    profileKey,
+} from "../transcodeProfiles";
+
+const opus96 = TRANSCODE_PRESETS["opus-96"];
+
+describe("parseProfileKey", () => {
+    it("round-trips preset keys and rounds bitrates down to a codec step", () => {
+        expect(profileKey(parseProfileKey("aac-256")!)).toBe("aac-256");
+        expect(parseProfileKey("OPUS-100")).toEqual({ codec: "opus", bitrate: 96, maxSampleRate: 48000 });
+        expect(profileKey(parseProfileKey("mp3-192-44100")!)).toBe("mp3-192-44100");
+    });
+
+    it("rejects unknown codecs and sample rates", () => {
+        expect(parseProfileKey("flac-900")).toBeNull();
+        expect(parseProfileKey("mp3-192-96000")).toBeNull();
+        expect(parseProfileKey("high")).toBeNull();
+    });
+});
+
+describe("profileForRequest", () => {
+    it("streams the original when nothing is configured or requested", () => {
+        expect(profileForRequest({}, null)).toBeNull();
+        expect(profileForRequest({ maxBitRate: "320" }, null)).toBeNull();
+        expect(profileForRequest({ format: "raw" }, opus96)).toBeNull();
+    });
+
+    it("caps MP3 by maxBitRate when no profile is configured", () => {
+        expect(profileForRequest({ maxBitRate: "200" }, null)).toMatchObject({ codec: "mp3", bitrate: 192 });
+    });
+
+    it("uses the requested format with the configured bitrate when codecs match", () => {
+        expect(profileForRequest({ format: "opus" }, opus96)).toMatchObject({ codec: "opus", bitrate: 96 });
+        expect(profileForRequest({ format: "aac" }, opus96)).toMatchObject({ codec: "aac", bitrate: 256 });
+        expect(profileForRequest({ format: "aac", maxBitRate: "128" }, null)).toMatchObject({
+            codec: "aac",
+            bitrate: 128,
+        });
+    });
+
+    it("keeps the configured codec and lowers its bitrate to maxBitRate", () => {
+        expect(profileForRequest({}, opus96)).toBe(opus96);
+        expect(profileForRequest({ maxBitRate: "64" }, opus96)).toMatchObject({ codec: "opus", bitrate: 64 });
+        expect(profileForRequest({ maxBitRate: "320" }, opus96)).toMatchObject({ codec: "opus", bitrate: 96 });
+    });
+});
+
+describe("decideTranscode", () => {
+    const flac: SourceStream = {
+        container: "flac",
+        codec: "flac",
+        bitrate: 900,
+        sampleRate: 44100,
+        channels: 2,
+        bitDepth: 16,
+    };
+
+    it("direct plays what the client supports", () => {
+        const decision = decideTranscode(
+            flac,
+            { directPlayProfiles: [{ containers: ["flac"], audioCodecs: ["flac"], protocols: ["http"] }] },
+            null
+        );
+
+        expect(decision).toMatchObject({ canDirectPlay: true, transcodeParams: "", profile: null });
+    });
+
+    it("transcodes to the first supported codec when the container is not playable", () => {
+        const decision = decideTranscode(
+            flac,
+            {
+                maxTranscodingAudioBitrate: 128000,
+                directPlayProfiles: [{ containers: ["mp3"], audioCodecs: ["mp3"], protocols: ["http"] }],
+                transcodingProfiles: [
+                    { container: "ts", audioCodec: "ac3", protocol: "hls" },
+                    { container: "m4a", audioCodec: "aac", protocol: "http" },
+                ],
+            },
+            null
+        );
+
+        expect(decision).toMatchObject({
+            canDirectPlay: false,
+            canTranscode: true,
+            transcodeReason: ["ContainerNotSupported"],
+            transcodeParams: "aac-128",
+        });
+    });
+
+    it("applies codec limitations and the configured profile's bitrate cap", () => {
+        const limited = decideTranscode(
+            { ...flac, bitDepth: 24, sampleRate: 96000 },
+            {
+                directPlayProfiles: [{ containers: ["flac"], audioCodecs: ["flac"] }],
+                codecProfiles: [
+                    {
+                        type: "AudioCodec",
+                        name: "flac",
+                        limitations: [{ name: "audioBitdepth", comparison: "LessThanEqual", values: ["16"] }],
+                    },
+                ],
+                transcodingProfiles: [{ container: "ogg", audioCodec: "opus", protocol: "http" }],
+            },
+            opus96
+        );
+        expect(limited.transcodeReason).toEqual(
+            expect.arrayContaining(["AudioBitDepthNotSupported", "AudioBitrateNotSupported"])
+        );
+        expect(limited.transcodeParams).toBe("opus-96");
+
+        const unsupported = decideTranscode(flac, { directPlayProfiles: [], transcodingProfiles: [] }, null);
+        expect(unsupported).toMatchObject({ canDirectPlay: false, canTranscode: false });
+        expect(unsupported.errorReason).not.toBe("");
+    });
+});
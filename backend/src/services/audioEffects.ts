@@ -0,0 +1,138 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../utils/db";
+
+/**
+ * The web player's EQ and effects chain: a 10-band graphic EQ with preamp,
+ * an optional AutoEQ headphone correction, a limiter and mono downmix.
+ *
+ * Every user has an account-wide setting, and each linked device (an API
+ * key, the identity device linking hands out) can override it, the same way
+ * a key's transcoding profile overrides the user's.
+ */
+
+// 31 Hz to 16 kHz, one band per octave
+export const EQ_BAND_COUNT = 10;
+const MAX_BAND_GAIN_DB = 12;
+// AutoEQ profiles use ten filters or fewer; leave room for hand-made ones
+const MAX_HEADPHONE_FILTERS = 20;
+
+const bandGain = z.number().min(-MAX_BAND_GAIN_DB).max(MAX_BAND_GAIN_DB);
+
+const eqFilterSchema = z.object({
+    type: z.enum(["peaking", "lowshelf", "highshelf"]),
+    frequency: z.number().min(10).max(24000),
+    gain: z.number().min(-30).max(30),
+    q: z.number().min(0.05).max(30),
+});
+
+export const audioEffectsSchema = z.object({
+    enabled: z.boolean(),
+    // A built-in preset id, or "custom" once bands are edited by hand
+    preset: z.string().min(1).max(50),
+    preamp: bandGain,
+    bands: z.array(bandGain).length(EQ_BAND_COUNT),
+    headphone: z
+        .object({
+            name: z.string().trim().min(1).max(200),
+            preamp: z.number().min(-30).max(MAX_BAND_GAIN_DB),
+            filters: z.array(eqFilterSchema).min(1).max(MAX_HEADPHONE_FILTERS),
+        })
+        .nullable(),
+    limiter: z.boolean(),
+    mono: z.boolean(),
+});
+
+export type AudioEffects = z.infer<typeof audioEffectsSchema>;
+
+export const DEFAULT_AUDIO_EFFECTS: AudioEffects = {
+    enabled: false,
+    preset: "flat",
+    preamp: 0,
+    bands: Array(EQ_BAND_COUNT).fill(0),
+    headphone: null,
+    limiter: false,
+    mono: false,
+};
+
+export interface ResolvedAudioEffects {
+    effects: AudioEffects;
+    // Whether the device has its own settings or follows the account's
+    source: "device" | "account";
+}
+
+export class DeviceNotFoundError extends Error {
+    constructor() {
+        super("Device not found");
+        this.name = "DeviceNotFoundError";
+    }
+}
+
+// Stored values were validated on write, but the schema may have grown since
+function parseStored(value: Prisma.JsonValue | null | undefined): AudioEffects | null {
+    if (value === null || value === undefined) return null;
+    const parsed = audioEffectsSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+}
+
+async function findDevice(userId: string, deviceId: string) {
+    const device = await prisma.apiKey.findFirst({
+        where: { id: deviceId, userId },
+        select: { id: true, audioEffects: true },
+    });
+    if (!device) throw new DeviceNotFoundError();
+    return device;
+}
+
+/**
+ * The effects a device plays with: its own if it has any, otherwise the
+ * account's. Without a device, the account's.
+ */
+export async function getAudioEffects(
+    userId: string,
+    deviceId?: string
+): Promise<ResolvedAudioEffects> {
+    if (deviceId) {
+        const device = await findDevice(userId, deviceId);
+        const own = parseStored(device.audioEffects);
+        if (own) return { effects: own, source: "device" };
+    }
+
+    const settings = await prisma.userSettings.findUnique({
+        where: { userId },
+        select: { audioEffects: true },
+    });
+    return {
+        effects: parseStored(settings?.audioEffects) ?? DEFAULT_AUDIO_EFFECTS,
+        source: "account",
+    };
+}
+
+export async function saveAudioEffects(
+    userId: string,
+    effects: AudioEffects,
+    deviceId?: string
+): Promise<ResolvedAudioEffects> {
+    if (deviceId) {
+        await findDevice(userId, deviceId);
+        await prisma.apiKey.update({ where: { id: deviceId }, data: { audioEffects: effects } });
+        return { effects, source: "device" };
+    }
+
+    await prisma.userSettings.upsert({
+        where: { userId },
+        create: { userId, audioEffects: effects },
+        update: { audioEffects: effects },
+    });
+    return { effects, source: "account" };
+}
+
+/** Drop a device's own settings so it follows the account's again */
+export async function resetDeviceAudioEffects(
+    userId: string,
+    deviceId: string
+): Promise<ResolvedAudioEffects> {
+    await findDevice(userId, deviceId);
+    await prisma.apiKey.update({ where: { id: deviceId }, data: { audioEffects: Prisma.DbNull } });
+    return getAudioEffects(userId, deviceId);
+}
@@ -11,32 +11,60 @@ import PQueue from "p-queue";
 import { AppError, ErrorCode, ErrorCategory } from "../utils/errors";
 import { parseRangeHeader } from "../utils/rangeParser";
 import { parseFile } from "music-metadata";
+import type { AudioSegment } from "./cueSheet";
+import {
+    CODEC_SETTINGS,
+    QUALITY_PROFILES,
+    TranscodeCodec,
+    TranscodeProfile,
+    profileKey,
+} from "./transcodeProfiles";
 
 // Set FFmpeg path to bundled binary
 ffmpeg.setFfmpegPath(ffmpegPath.path);
 
-// Quality settings
-export const QUALITY_SETTINGS = {
-    original: { bitrate: null, format: null }, // No transcoding
-    high: { bitrate: 320, format: "mp3" },
-    medium: { bitrate: 192, format: "mp3" },
-    low: { bitrate: 128, format: "mp3" },
-} as const;
-
-export type Quality = keyof typeof QUALITY_SETTINGS;
+// The web player's quality names; "original" means no transcoding
+export type Quality = "original" | keyof typeof QUALITY_PROFILES;
 
 interface StreamFileInfo {
     filePath: string;
     mimeType: string;
 }
 
+// Codecs whose output plays while it's still being written, with how far
+// over the nominal bitrate the file can run: LAME is CBR, libopus is VBR.
+// AAC is left out because +faststart only writes its index at the end.
+const PROGRESSIVE_SIZE_FACTOR: Partial<Record<TranscodeCodec, number>> = {
+    mp3: 1.01,
+    opus: 1.15,
+};
+
+// Room for the container header and tags on top of the audio itself
+const PROGRESSIVE_HEADER_BYTES = 32 * 1024;
+
+const GROWING_FILE_POLL_MS = 100;
+const GROWING_FILE_CHUNK_BYTES = 64 * 1024;
+
+interface InFlightTranscode {
+    promise: Promise<string>;
+    /** Resolves once ffmpeg is running, rejects if it never starts */
+    started: Promise<void>;
+    cachePath: string;
+    /** Content-Length promised while the file grows; null waits for the whole file */
+    estimatedSize: number | null;
+    /** The file grew past the estimate; later requests wait for the whole file */
+    overflowed: boolean;
+    done: boolean;
+    failed: boolean;
+}
+
 export class AudioStreamingService {
     private transcodeQueue = new PQueue({ concurrency: 3 });
     private musicPath: string;
     private transcodeCachePath: string;
     private transcodeCacheMaxGb: number;
     private evictionInterval: NodeJS.Timeout | null = null;
-    private inFlightTranscodes = new Map<string, Promise<string>>();
+    private inFlightTranscodes = new Map<string, InFlightTranscode>();
 
     constructor(
         musicPath: string,
@@ -61,18 +89,32 @@ export class AudioStreamingService {
     }
 
     /**
-     * Get file path for streaming (either original or transcoded)
+     * Get file path for streaming (either original or transcoded). Accepts a
+     * quality name or a transcoding profile. A segment (CUE track) is always
+     * cut into the cache; "original" quality cuts it losslessly to FLAC.
+     *
+     * MP3 and Opus transcodes return as soon as ffmpeg starts: the path is
+     * then the growing cache file, which streamFileWithRangeSupport serves
+     * while it's written. Concurrent requests share one running transcode.
      */
     async getStreamFilePath(
         trackId: string,
-        quality: Quality,
+        quality: Quality | TranscodeProfile | null,
         sourceModified: Date,
-        sourceAbsolutePath: string
+        sourceAbsolutePath: string,
+        segment: AudioSegment | null = null
     ): Promise<StreamFileInfo> {
-        logger.debug(`[AudioStreaming] Request: trackId=${trackId}, quality=${quality}, source=${path.basename(sourceAbsolutePath)}`);
+        const profile =
+            quality === null || quality === "original"
+                ? null
+                : typeof quality === "string"
+                  ? QUALITY_PROFILES[quality]
+                  : quality;
+        const cacheKey = profile ? profileKey(profile) : "original";
+        logger.debug(`[AudioStreaming] Request: trackId=${trackId}, profile=${cacheKey}, source=${path.basename(sourceAbsolutePath)}`);
         
         // If original quality requested, return source file
-        if (quality === "original") {
+        if (!profile && !segment) {
             const mimeType = this.getMimeType(sourceAbsolutePath);
             logger.debug(`[AudioStreaming] Serving original: mimeType=${mimeType}`);
             return {
@@ -84,32 +126,35 @@ export class AudioStreamingService {
         // Check if we have a valid cached transcode
         const cachedPath = await this.getCachedTranscode(
             trackId,
-            quality,
+            cacheKey,
             sourceModified
         );
 
         if (cachedPath) {
             logger.debug(
-                `[STREAM] Using cached transcode: ${quality} (${cachedPath})`
+                `[STREAM] Using cached transcode: ${cacheKey} (${cachedPath})`
             );
             return {
                 filePath: cachedPath,
-                mimeType: "audio/mpeg",
+                mimeType: this.getMimeType(cachedPath),
             };
         }
 
         // Check source file bitrate to avoid pointless upsampling
-        const targetBitrate = QUALITY_SETTINGS[quality].bitrate;
-        if (targetBitrate) {
+        let sourceSampleRate: number | null = null;
+        let sourceDuration: number | null = null;
+        if (profile) {
             try {
                 const metadata = await parseFile(sourceAbsolutePath);
                 const sourceBitrate = metadata.format.bitrate
                     ? Math.round(metadata.format.bitrate / 1000)
                     : null;
+                sourceSampleRate = metadata.format.sampleRate ?? null;
+                sourceDuration = metadata.format.duration ?? null;
 
-                if (sourceBitrate && sourceBitrate <= targetBitrate) {
+                if (!segment && sourceBitrate && sourceBitrate <= profile.bitrate) {
                     logger.debug(
-                        `[STREAM] Source bitrate (${sourceBitrate}kbps) <= target (${targetBitrate}kbps), serving original`
+                        `[STREAM] Source bitrate (${sourceBitrate}kbps) <= target (${profile.bitrate}kbps), serving original`
                     );
                     return {
                         filePath: sourceAbsolutePath,
@@ -136,37 +181,95 @@ export class AudioStreamingService {
         }
 
         // Transcode to cache (deduplicated for concurrent requests)
-        const dedupeKey = `${trackId}-${quality}`;
-        let transcodedPath: string;
+        const dedupeKey = `${trackId}-${cacheKey}`;
+        let transcode = this.inFlightTranscodes.get(dedupeKey);
 
-        if (this.inFlightTranscodes.has(dedupeKey)) {
-            logger.debug(`[STREAM] Waiting for in-flight transcode: ${dedupeKey}`);
-            transcodedPath = await this.inFlightTranscodes.get(dedupeKey)!;
+        if (transcode) {
+            logger.debug(`[STREAM] Joining in-flight transcode: ${dedupeKey}`);
         } else {
             logger.debug(
-                `[STREAM] Transcoding to ${quality} quality: ${sourceAbsolutePath}`
+                `[STREAM] Transcoding to ${cacheKey}: ${sourceAbsolutePath}`
             );
-            const promise = this.transcodeToCache(trackId, quality, sourceAbsolutePath, sourceModified);
-            this.inFlightTranscodes.set(dedupeKey, promise);
-            try {
-                transcodedPath = await promise;
-            } finally {
-                this.inFlightTranscodes.delete(dedupeKey);
-            }
+            const length = segment
+                ? (segment.end ?? sourceDuration ?? NaN) - segment.start
+                : sourceDuration;
+            const sizeFactor = profile ? PROGRESSIVE_SIZE_FACTOR[profile.codec] : undefined;
+            const estimatedSize =
+                profile && sizeFactor && length && length > 0
+                    ? Math.ceil(length * profile.bitrate * 125 * sizeFactor) + PROGRESSIVE_HEADER_BYTES
+                    : null;
+
+            let markStarted = () => {};
+            const started = new Promise<void>((resolve) => {
+                markStarted = resolve;
+            });
+            const promise = this.transcodeToCache(
+                trackId,
+                profile,
+                sourceAbsolutePath,
+                sourceModified,
+                segment,
+                sourceSampleRate,
+                () => markStarted()
+            );
+            const entry: InFlightTranscode = {
+                promise,
+                started: Promise.race([started, promise]).then(() => undefined),
+                cachePath: path.join(this.transcodeCachePath, this.cacheFileName(trackId, profile)),
+                estimatedSize,
+                overflowed: false,
+                done: false,
+                failed: false,
+            };
+            // Only progressive callers wait on this; the others see the failure through promise
+            entry.started.catch(() => {});
+            promise
+                .then(
+                    () => {
+                        entry.done = true;
+                    },
+                    () => {
+                        entry.done = true;
+                        entry.failed = true;
+                    }
+                )
+                .finally(() => this.inFlightTranscodes.delete(dedupeKey));
+            this.inFlightTranscodes.set(dedupeKey, entry);
+            transcode = entry;
+        }
+
+        if (transcode.estimatedSize !== null) {
+            await transcode.started;
+            return {
+                filePath: transcode.cachePath,
+                mimeType: this.getMimeType(transcode.cachePath),
+            };
         }
 
+        const transcodedPath = await transcode.promise;
         return {
             filePath: transcodedPath,
-            mimeType: "audio/mpeg",
+            mimeType: this.getMimeType(transcodedPath),
         };
     }
 
+    /** Cache file name for a transcode; CUE tracks at original quality are cut to FLAC */
+    private cacheFileName(trackId: string, profile: TranscodeProfile | null): string {
+        const quality = profile ? profileKey(profile) : "original";
+        const extension = profile ? CODEC_SETTINGS[profile.codec].extension : "flac";
+        const hash = crypto
+            .createHash("md5")
+            .update(`${trackId}-${quality}`)
+            .digest("hex");
+        return `${hash}.${extension}`;
+    }
+
     /**
      * Get cached transcode if it exists and is valid
      */
     private async getCachedTranscode(
         trackId: string,
-        quality: Quality,
+        quality: string,
         sourceModified: Date
     ): Promise<string | null> {
         const cached = await prisma.transcodedFile.findFirst({
@@ -218,12 +321,28 @@ export class AudioStreamingService {
      */
     private async transcodeToCache(
         trackId: string,
-        quality: Quality,
+        profile: TranscodeProfile | null,
         sourcePath: string,
-        sourceModified: Date
+        sourceModified: Date,
+        segment: AudioSegment | null = null,
+        sourceSampleRate: number | null = null,
+        onStart: () => void = () => {}
     ): Promise<string> {
-        const settings = QUALITY_SETTINGS[quality];
-        if (!settings.bitrate || !settings.format) {
+        const quality = profile ? profileKey(profile) : "original";
+        // Cutting a CUE track at original quality re-encodes losslessly
+        const codec = profile ? CODEC_SETTINGS[profile.codec] : null;
+        const settings = codec
+            ? {
+                  bitrate: profile!.bitrate,
+                  format: codec.format,
+                  extension: codec.extension,
+                  codec: codec.encoder,
+                  outputOptions: codec.outputOptions,
+              }
+            : segment
+              ? { bitrate: null, format: "flac", extension: "flac", codec: "flac", outputOptions: [] }
+              : null;
+        if (!settings) {
             throw new AppError(
                 ErrorCode.INVALID_CONFIG,
                 ErrorCategory.FATAL,
@@ -231,21 +350,44 @@ export class AudioStreamingService {
             );
         }
 
+        // libopus always encodes at 48 kHz, so only other codecs are capped
+        const sampleRate =
+            profile && profile.codec !== "opus" && sourceSampleRate && sourceSampleRate > profile.maxSampleRate
+                ? profile.maxSampleRate
+                : null;
+
         // Generate cache file path
-        const hash = crypto
-            .createHash("md5")
-            .update(`${trackId}-${quality}`)
-            .digest("hex");
-        const cacheFileName = `${hash}.${settings.format}`;
+        const cacheFileName = this.cacheFileName(trackId, profile);
         const cachePath = path.join(this.transcodeCachePath, cacheFileName);
 
+        // A leftover partial file would be served until ffmpeg truncates it
+        await fs.promises.rm(cachePath, { force: true });
+
         return new Promise((resolve, reject) => {
             try {
-                ffmpeg(sourcePath)
-                    .audioBitrate(settings.bitrate)
-                    .audioCodec("libmp3lame")
+                const command = ffmpeg(sourcePath);
+                if (segment) {
+                    command.seekInput(segment.start);
+                    if (segment.end !== null) {
+                        command.duration(segment.end - segment.start);
+                    }
+                }
+                if (settings.bitrate) {
+                    command.audioBitrate(settings.bitrate);
+                }
+                if (sampleRate) {
+                    command.audioFrequency(sampleRate);
+                }
+                if (settings.outputOptions.length > 0) {
+                    command.outputOptions(settings.outputOptions);
+                }
+                command
+                    .audioCodec(settings.codec)
                     .format(settings.format)
+                    .on("start", () => onStart())
                     .on("error", (err) => {
+                        // Don't leave a partial file behind in the cache
+                        fs.promises.unlink(cachePath).catch(() => {});
                         // Check if error is due to missing FFmpeg
                         const errorMsg = err.message.toLowerCase();
                         if (
@@ -327,6 +469,10 @@ export class AudioStreamingService {
         });
     }
 
+    getCacheMaxGb(): number {
+        return this.transcodeCacheMaxGb;
+    }
+
     /**
      * Get total cache size in GB
      */
@@ -361,10 +507,10 @@ export class AudioStreamingService {
         for (const file of cached) {
             if (currentSize <= targetGb) break;
 
-            // Delete file from disk
+            // Delete file from disk (HLS entries are segment directories)
             const fullPath = path.join(this.transcodeCachePath, file.cachePath);
             try {
-                await fs.promises.unlink(fullPath);
+                await fs.promises.rm(fullPath, { recursive: true, force: true });
             } catch (err) {
                 logger.warn(`[CACHE] Failed to delete ${fullPath}:`, err);
             }
@@ -414,6 +560,17 @@ export class AudioStreamingService {
         filePath: string,
         mimeType: string
     ): Promise<void> {
+        const growing = [...this.inFlightTranscodes.values()].find(
+            (transcode) => transcode.cachePath === filePath && transcode.estimatedSize !== null && !transcode.done
+        );
+        if (growing && !growing.overflowed) {
+            return this.streamGrowingFile(req, res, growing, mimeType);
+        }
+        if (growing) {
+            // The estimate was wrong, so only the finished file has a length to trust
+            await growing.promise.catch(() => {});
+        }
+
         try {
             // Get file stats for size
             const stats = await fsPromises.stat(filePath);
@@ -492,6 +649,141 @@ export class AudioStreamingService {
         }
     }
 
+    /**
+     * Serve a transcode that is still being written. Lengths are based on the
+     * estimated final size; reads past what's written wait for ffmpeg, and a
+     * file that comes out short is padded with zeros, which MP3 and Ogg
+     * decoders skip. Not cacheable, since the length is only an estimate.
+     *
+     * A file that grows past the estimate can't fit the promised length, so
+     * that response is aborted rather than ended: the player re-requests the
+     * rest, which then waits for the finished file.
+     */
+    private async streamGrowingFile(
+        req: Request,
+        res: Response,
+        transcode: InFlightTranscode,
+        mimeType: string
+    ): Promise<void> {
+        const totalSize = transcode.estimatedSize!;
+        const range = req.headers.range;
+        let start = 0;
+        let end = totalSize - 1;
+
+        if (range) {
+            const parsed = parseRangeHeader(range, totalSize);
+            if (!parsed.ok) {
+                res.status(416).set({ "Content-Range": `bytes */${totalSize}` });
+                res.end();
+                return;
+            }
+            start = parsed.start;
+            end = parsed.end;
+        }
+
+        const headers: Record<string, string> = {
+            "Content-Type": mimeType,
+            "Accept-Ranges": "bytes",
+            "Cache-Control": "no-store",
+            "Content-Length": (end - start + 1).toString(),
+        };
+        if (req.headers.origin) {
+            headers["Access-Control-Allow-Origin"] = req.headers.origin;
+            headers["Access-Control-Allow-Credentials"] = "true";
+        }
+        if (range) {
+            res.status(206);
+            headers["Content-Range"] = `bytes ${start}-${end}/${totalSize}`;
+        } else {
+            res.status(200);
+        }
+        res.set(headers);
+
+        const wait = () => new Promise((resolve) => setTimeout(resolve, GROWING_FILE_POLL_MS));
+        const drained = () =>
+            new Promise<void>((resolve) => {
+                const done = () => {
+                    res.off("drain", done);
+                    res.off("close", done);
+                    resolve();
+                };
+                res.on("drain", done);
+                res.on("close", done);
+            });
+        let handle: fsPromises.FileHandle | null = null;
+        let position = start;
+
+        try {
+            while (!handle) {
+                if (res.destroyed || transcode.failed) break;
+                handle = await fsPromises.open(transcode.cachePath, "r").catch(() => null);
+                if (!handle) await wait();
+            }
+
+            const toEstimate = end === totalSize - 1;
+            while (handle && position <= end && !res.destroyed) {
+                // Checked before reading so the last bytes aren't missed
+                const finished = transcode.done;
+                // The last promised byte waits for ffmpeg: once it's sent the
+                // response counts as complete and can no longer be aborted
+                const limit = toEstimate && !finished ? end - 1 : end;
+
+                if (toEstimate && (finished || position > limit)) {
+                    const { size } = await handle.stat();
+                    if (size > totalSize) {
+                        transcode.overflowed = true;
+                        logger.warn(
+                            `[AudioStreaming] Transcode outgrew its estimate (${size} > ${totalSize}): ${transcode.cachePath}`
+                        );
+                        res.destroy();
+                        return;
+                    }
+                }
+                if (position > limit) {
+                    await wait();
+                    continue;
+                }
+
+                const chunk = Buffer.alloc(Math.min(GROWING_FILE_CHUNK_BYTES, limit - position + 1));
+                const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+
+                if (bytesRead > 0) {
+                    position += bytesRead;
+                    if (!res.write(chunk.subarray(0, bytesRead))) {
+                        await drained();
+                    }
+                } else if (finished) {
+                    break;
+                } else {
+                    await wait();
+                }
+            }
+
+            if (transcode.failed) {
+                logger.error(`[AudioStreaming] Transcode failed mid-stream: ${transcode.cachePath}`);
+                res.destroy();
+                return;
+            }
+            while (position <= end && !res.destroyed) {
+                const padding = Buffer.alloc(Math.min(GROWING_FILE_CHUNK_BYTES, end - position + 1));
+                position += padding.length;
+                if (!res.write(padding)) {
+                    await drained();
+                }
+            }
+            res.end();
+        } catch (err) {
+            logger.error(`[AudioStreaming] Failed to stream ${transcode.cachePath}:`, err);
+            if (!res.headersSent) {
+                res.status(500).end();
+            } else {
+                res.destroy();
+            }
+        } finally {
+            await handle?.close();
+        }
+    }
+
     /**
      * Cleanup resources
      */
@@ -18,6 +18,30 @@ interface SyncResult {
     errors: string[];
 }
 
+/**
+ * Split a series string into name and sequence, e.g. "Series Name #2".
+ * Strings without a recognisable sequence are used whole as the name.
+ */
+export function parseSeriesName(value: string): { series: string | null; sequence: string | null } {
+    const seriesStr = value.trim();
+
+    const sequencePatterns = [
+        /^(.+?)\s*#(\d+(?:\.\d+)?)\s*$/, // "Series Name #1" or "Series Name #1.5"
+        /^(.+?)\s*,?\s*Book\s*(\d+(?:\.\d+)?)\s*$/i, // "Series Name Book 1" or "Series Name, Book 1"
+        /^(.+?)\s*,?\s*Vol\.?\s*(\d+(?:\.\d+)?)\s*$/i, // "Series Name Vol 1" or "Series Name, Vol. 1"
+        /^(.+?)\s*\((\d+(?:\.\d+)?)\)\s*$/, // "Series Name (1)"
+    ];
+
+    for (const pattern of sequencePatterns) {
+        const match = seriesStr.match(pattern);
+        if (match) {
+            return { series: match[1].trim(), sequence: match[2] };
+        }
+    }
+
+    return { series: seriesStr || null, sequence: null };
+}
+
 export class AudiobookCacheService {
     private coverCacheDir: string;
     private coverCacheAvailable: boolean = false;
@@ -149,31 +173,7 @@ export class AudiobookCacheService {
         let seriesSequence: string | null = null;
 
         if (metadata.seriesName && typeof metadata.seriesName === "string") {
-            const seriesStr = metadata.seriesName.trim();
-
-            const sequencePatterns = [
-                /^(.+?)\s*#(\d+(?:\.\d+)?)\s*$/, // "Series Name #1" or "Series Name #1.5"
-                /^(.+?)\s*,?\s*Book\s*(\d+(?:\.\d+)?)\s*$/i, // "Series Name Book 1" or "Series Name, Book 1"
-                /^(.+?)\s*,?\s*Vol\.?\s*(\d+(?:\.\d+)?)\s*$/i, // "Series Name Vol 1" or "Series Name, Vol. 1"
-                /^(.+?)\s*\((\d+(?:\.\d+)?)\)\s*$/, // "Series Name (1)"
-            ];
-
-            let matched = false;
-            for (const pattern of sequencePatterns) {
-                const match = seriesStr.match(pattern);
-                if (match) {
-                    series = match[1].trim();
-                    seriesSequence = match[2];
-                    matched = true;
-                    break;
-                }
-            }
-
-            // If no sequence pattern matched, use the whole string as series name
-            if (!matched && seriesStr) {
-                series = seriesStr;
-                seriesSequence = null;
-            }
+            ({ series, sequence: seriesSequence } = parseSeriesName(metadata.seriesName));
         }
 
         if (!series) {
@@ -394,6 +394,48 @@ export class AudiobookCacheService {
         return audiobook;
     }
 
+    /**
+     * Remember the track layout of an Audiobookshelf book as AudiobookFile
+     * rows, so lists that need it (Subsonic bookmarks) don't have to ask
+     * Audiobookshelf for every book. Refreshed whenever a book is fetched
+     * live; unchanged layouts are left alone.
+     */
+    async storeTrackLayout(audiobookId: string, tracks: any[]): Promise<void> {
+        const files = tracks.map((track: any, index: number) => ({
+            audiobookId,
+            index,
+            path: track.metadata?.path || track.metadata?.filename || track.title || `Track ${index + 1}`,
+            duration: track.duration ?? 0,
+            startOffset: track.startOffset ?? 0,
+            size: track.metadata?.size != null ? BigInt(track.metadata.size) : null,
+            mimeType: track.mimeType || null,
+        }));
+
+        try {
+            const stored = await prisma.audiobookFile.findMany({
+                where: { audiobookId },
+                orderBy: { index: "asc" },
+                select: { path: true, duration: true, startOffset: true },
+            });
+            const unchanged =
+                stored.length === files.length &&
+                stored.every(
+                    (file, i) =>
+                        file.path === files[i].path &&
+                        file.duration === files[i].duration &&
+                        file.startOffset === files[i].startOffset
+                );
+            if (unchanged) return;
+
+            await prisma.$transaction([
+                prisma.audiobookFile.deleteMany({ where: { audiobookId } }),
+                prisma.audiobookFile.createMany({ data: files }),
+            ]);
+        } catch (error: any) {
+            logger.warn(`[AUDIOBOOK] Could not store track layout for ${audiobookId}: ${error.message}`);
+        }
+    }
+
     /**
      * Clean up old cached covers that are no longer in database
      */
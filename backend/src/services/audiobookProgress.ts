@@ -0,0 +1,144 @@
+import { AudiobookProgress } from "@prisma/client";
+import { audiobookshelfService } from "./audiobookshelf";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/db";
+
+/**
+ * Keeps AudiobookProgress in step with Audiobookshelf. Every client that
+ * moves a book's position (the web player, Subsonic bookmarks) writes through
+ * here so the change reaches Audiobookshelf too; local books are only
+ * tracked in Kima.
+ */
+
+export interface ProgressUpdate {
+    currentTime: number;
+    duration?: number;
+    isFinished?: boolean;
+}
+
+export class AudiobookProgressService {
+    /**
+     * Save a user's position in a book and push it to Audiobookshelf.
+     * Title, author and cover are copied from the cached book so the
+     * progress row can be listed without another lookup.
+     */
+    async saveProgress(
+        userId: string,
+        audiobookId: string,
+        update: ProgressUpdate
+    ): Promise<AudiobookProgress> {
+        const [cachedAudiobook, existingProgress] = await Promise.all([
+            prisma.audiobook.findUnique({
+                where: { id: audiobookId },
+                select: { title: true, author: true, coverUrl: true, duration: true, source: true },
+            }),
+            prisma.audiobookProgress.findUnique({
+                where: { userId_audiobookshelfId: { userId, audiobookshelfId: audiobookId } },
+            }),
+        ]);
+
+        const duration =
+            update.duration || cachedAudiobook?.duration || existingProgress?.duration || 0;
+        const metadata = {
+            title: cachedAudiobook?.title || existingProgress?.title || "Unknown Title",
+            author: cachedAudiobook?.author || existingProgress?.author || "Unknown Author",
+            coverUrl: cachedAudiobook?.coverUrl || existingProgress?.coverUrl || null,
+            currentTime: update.currentTime,
+            duration,
+            isFinished: !!update.isFinished,
+            lastPlayedAt: new Date(),
+        };
+
+        const progress = await prisma.audiobookProgress.upsert({
+            where: { userId_audiobookshelfId: { userId, audiobookshelfId: audiobookId } },
+            create: { userId, audiobookshelfId: audiobookId, ...metadata },
+            update: metadata,
+        });
+
+        if (cachedAudiobook?.source !== "local") {
+            try {
+                await audiobookshelfService.updateProgress(
+                    audiobookId,
+                    update.currentTime,
+                    duration,
+                    !!update.isFinished
+                );
+            } catch (error) {
+                // Local progress is saved either way
+                logger.error("Failed to sync progress to Audiobookshelf:", error);
+            }
+        }
+
+        return progress;
+    }
+
+    /**
+     * Forget a user's position in a book and reset it in Audiobookshelf.
+     */
+    async removeProgress(userId: string, audiobookId: string): Promise<void> {
+        await prisma.audiobookProgress.deleteMany({
+            where: { userId, audiobookshelfId: audiobookId },
+        });
+
+        const book = await prisma.audiobook.findUnique({
+            where: { id: audiobookId },
+            select: { source: true },
+        });
+        if (book?.source === "local") return;
+
+        try {
+            await audiobookshelfService.updateProgress(audiobookId, 0, 0, false);
+        } catch (error) {
+            logger.error("Failed to reset progress in Audiobookshelf:", error);
+        }
+    }
+
+    /**
+     * Bring in positions changed in Audiobookshelf's own apps. Only books the
+     * user has already started are updated: the Audiobookshelf account is
+     * shared by the whole server, so its progress must not appear as every
+     * user's. Returns how many books were updated.
+     */
+    async pullFromAudiobookshelf(userId: string): Promise<number> {
+        let remote: any[];
+        try {
+            remote = await audiobookshelfService.getAllProgress();
+        } catch (error: any) {
+            logger.warn(`[AUDIOBOOK PROGRESS] Could not read Audiobookshelf progress: ${error.message}`);
+            return 0;
+        }
+
+        const remoteById = new Map(
+            remote
+                .filter((entry) => entry?.libraryItemId && !entry.episodeId)
+                .map((entry) => [entry.libraryItemId as string, entry])
+        );
+        if (remoteById.size === 0) return 0;
+
+        const local = await prisma.audiobookProgress.findMany({
+            where: { userId, audiobookshelfId: { in: [...remoteById.keys()] } },
+        });
+
+        let updated = 0;
+        for (const progress of local) {
+            const entry = remoteById.get(progress.audiobookshelfId)!;
+            const changedAt = new Date(entry.lastUpdate ?? 0);
+            if (changedAt <= progress.lastPlayedAt) continue;
+
+            await prisma.audiobookProgress.update({
+                where: { id: progress.id },
+                data: {
+                    currentTime: entry.currentTime ?? progress.currentTime,
+                    duration: entry.duration || progress.duration,
+                    isFinished: !!entry.isFinished,
+                    lastPlayedAt: changedAt,
+                },
+            });
+            updated++;
+        }
+        return updated;
+    }
+}
+
+// Singleton instance
+export const audiobookProgressService = new AudiobookProgressService();
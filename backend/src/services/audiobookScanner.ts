@@ -0,0 +1,646 @@
+import * as fs from "fs";
+import * as path from "path";
+import { XMLParser } from "fast-xml-parser";
+import { parseFile } from "music-metadata";
+import type { IAudioMetadata, IChapter } from "music-metadata";
+import { logger } from "../utils/logger";
+import { prisma, Prisma } from "../utils/db";
+import { config } from "../config";
+import { parseSeriesName } from "./audiobookCache";
+
+/**
+ * Scans a local folder into the Audiobook table so audiobooks work without
+ * an Audiobookshelf server. Books are either a single chaptered file (M4B)
+ * or a folder of parts; metadata comes from tags, with an Audiobookshelf
+ * metadata.json or a Calibre/OPF sidecar taking precedence when present.
+ */
+
+export const AUDIOBOOK_EXTENSIONS = new Set([
+    ".m4b",
+    ".m4a",
+    ".mp3",
+    ".aac",
+    ".ogg",
+    ".opus",
+    ".flac",
+]);
+
+const MIME_TYPES: Record<string, string> = {
+    ".m4b": "audio/mp4",
+    ".m4a": "audio/mp4",
+    ".mp3": "audio/mpeg",
+    ".aac": "audio/aac",
+    ".ogg": "audio/ogg",
+    ".opus": "audio/opus",
+    ".flac": "audio/flac",
+};
+
+const COVER_NAMES = ["cover", "folder", "front"];
+const COVER_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+
+// "CD 1", "Disc 2", "Part 03" - parts of the book in the parent folder
+const DISC_FOLDER = /^(?:cd|dis[ck]|part|pt)\s*[-_.]?\s*\d+$/i;
+
+export interface LocalChapter {
+    id: number;
+    title: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Book metadata read from a metadata.json or OPF sidecar. Every field is
+ * optional so tags can fill whatever the sidecar leaves out.
+ */
+export interface SidecarMetadata {
+    title?: string;
+    authors?: string[];
+    narrators?: string[];
+    series?: string;
+    seriesSequence?: string;
+    description?: string;
+    publisher?: string;
+    publishedYear?: number;
+    isbn?: string;
+    asin?: string;
+    language?: string;
+    genres?: string[];
+    chapters?: LocalChapter[];
+}
+
+export interface ScannedFile {
+    path: string;
+    album?: string;
+    disc?: number | null;
+    track?: number | null;
+    duration: number;
+    chapters?: IChapter[];
+    sampleRate?: number;
+}
+
+export interface BookGroup<T extends ScannedFile = ScannedFile> {
+    localPath: string;
+    files: T[];
+}
+
+export interface LocalScanResult {
+    synced: number;
+    failed: number;
+    skipped: number;
+    removed: number;
+    errors: string[];
+}
+
+const opfParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    // ISBNs and years must stay strings
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name) => ["creator", "identifier", "subject", "meta"].includes(name),
+});
+
+const text = (value: unknown): string | undefined => {
+    const raw =
+        typeof value === "object" && value !== null ? (value as any)["#text"] : value;
+    if (raw === undefined || raw === null) return undefined;
+    const trimmed = String(raw).trim();
+    return trimmed || undefined;
+};
+
+const strings = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : [])
+        .map((item) => text(typeof item === "object" && item?.name ? item.name : item))
+        .filter((item): item is string => !!item);
+
+const year = (value: unknown): number | undefined => {
+    const match = text(value)?.match(/\d{4}/);
+    return match ? parseInt(match[0], 10) : undefined;
+};
+
+/**
+ * Reads an Audiobookshelf-style metadata.json. Series entries are either
+ * "Name #2" strings or { name, sequence } objects.
+ */
+export function parseMetadataJson(content: string): SidecarMetadata {
+    const data = JSON.parse(content);
+    if (typeof data !== "object" || data === null) return {};
+
+    const result: SidecarMetadata = {
+        title: text(data.title),
+        authors: strings(data.authors),
+        narrators: strings(data.narrators),
+        description: text(data.description),
+        publisher: text(data.publisher),
+        publishedYear: year(data.publishedYear ?? data.publishedDate),
+        isbn: text(data.isbn),
+        asin: text(data.asin),
+        language: text(data.language),
+        genres: strings(data.genres),
+    };
+
+    const series = Array.isArray(data.series) ? data.series[0] : data.series;
+    if (typeof series === "string") {
+        const parsed = parseSeriesName(series);
+        result.series = parsed.series ?? undefined;
+        result.seriesSequence = parsed.sequence ?? undefined;
+    } else if (series?.name) {
+        result.series = text(series.name);
+        result.seriesSequence = text(series.sequence);
+    }
+
+    if (Array.isArray(data.chapters) && data.chapters.length > 0) {
+        result.chapters = data.chapters
+            .filter((ch: any) => Number.isFinite(Number(ch?.start)))
+            .map((ch: any, i: number) => ({
+                id: i,
+                title: text(ch.title) ?? `Chapter ${i + 1}`,
+                start: Number(ch.start),
+                end: Number(ch.end) || 0,
+            }));
+    }
+
+    return result;
+}
+
+/**
+ * Reads the Dublin Core metadata of an OPF file, as written by Calibre and
+ * most audiobook taggers. Creators are split into authors and narrators by
+ * their role attribute; Calibre's series meta tags supply the series.
+ */
+export function parseOpf(content: string): SidecarMetadata {
+    const doc = opfParser.parse(content);
+    const metadata = doc?.package?.metadata;
+    if (!metadata) return {};
+
+    const creators: any[] = metadata.creator ?? [];
+    const byRole = (role: string) =>
+        creators
+            .filter((c) => (text(c?.["@_role"]) ?? "aut").toLowerCase() === role)
+            .map(text)
+            .filter((name): name is string => !!name);
+
+    const identifiers: any[] = metadata.identifier ?? [];
+    const identifier = (scheme: string) =>
+        text(
+            identifiers.find((id) => text(id?.["@_scheme"])?.toUpperCase() === scheme)
+        );
+
+    const metas: any[] = metadata.meta ?? [];
+    const meta = (name: string) =>
+        text(metas.find((m) => m?.["@_name"] === name)?.["@_content"]);
+
+    return {
+        title: text(metadata.title),
+        authors: byRole("aut"),
+        narrators: byRole("nrt"),
+        description: text(metadata.description),
+        publisher: text(metadata.publisher),
+        publishedYear: year(metadata.date),
+        isbn: identifier("ISBN"),
+        asin: identifier("ASIN") ?? identifier("AMAZON"),
+        language: text(metadata.language),
+        genres: (metadata.subject ?? []).map(text).filter((g: any): g is string => !!g),
+        series: meta("calibre:series"),
+        seriesSequence: meta("calibre:series_index"),
+    };
+}
+
+/**
+ * Splits the audio files of one folder into books. Files sharing an album
+ * tag belong together; when the folder holds a single book its path is the
+ * folder, otherwise each book is keyed by its first file so the key stays
+ * stable across rescans. Parts are ordered by disc, track, then filename.
+ */
+export function groupBookFiles<T extends ScannedFile>(dir: string, files: T[]): BookGroup<T>[] {
+    const byAlbum = new Map<string, T[]>();
+    for (const file of files) {
+        const key = file.album?.trim().toLowerCase() ?? "";
+        byAlbum.set(key, [...(byAlbum.get(key) ?? []), file]);
+    }
+
+    const sorted = [...byAlbum.values()].map((group) =>
+        [...group].sort(
+            (a, b) =>
+                (a.disc ?? 0) - (b.disc ?? 0) ||
+                (a.track ?? 0) - (b.track ?? 0) ||
+                a.path.localeCompare(b.path, undefined, { numeric: true })
+        )
+    );
+
+    if (sorted.length === 1) {
+        return [{ localPath: dir, files: sorted[0] }];
+    }
+    return sorted
+        .map((group) => ({ localPath: group[0].path, files: group }))
+        .sort((a, b) => a.localPath.localeCompare(b.localPath, undefined, { numeric: true }));
+}
+
+const chapterSeconds = (value: number, chapter: IChapter, sampleRate?: number) => {
+    if (chapter.timeScale) return value / chapter.timeScale;
+    if (chapter.sampleOffset !== undefined && sampleRate) {
+        return chapter.sampleOffset / sampleRate;
+    }
+    return value / 1000;
+};
+
+/**
+ * Builds the book's chapter list on the combined timeline. Sidecar chapters
+ * win, then chapters embedded in the files (offset by each file's position),
+ * then one chapter per file for multi-part books.
+ */
+export function buildChapters(
+    files: ScannedFile[],
+    sidecarChapters?: LocalChapter[]
+): LocalChapter[] {
+    if (sidecarChapters && sidecarChapters.length > 0) {
+        return sidecarChapters;
+    }
+
+    const chapters: LocalChapter[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const embedded = file.chapters ?? [];
+        embedded.forEach((chapter, i) => {
+            const start = chapterSeconds(chapter.start, chapter, file.sampleRate);
+            const next = embedded[i + 1];
+            const end =
+                chapter.end !== undefined
+                    ? chapterSeconds(chapter.end, chapter, file.sampleRate)
+                    : next
+                      ? chapterSeconds(next.start, next, file.sampleRate)
+                      : file.duration;
+            chapters.push({
+                id: chapters.length,
+                title: chapter.title || `Chapter ${chapters.length + 1}`,
+                start: offset + start,
+                end: offset + end,
+            });
+        });
+        offset += file.duration;
+    }
+    if (chapters.length > 0) return chapters;
+
+    if (files.length < 2) return [];
+    offset = 0;
+    return files.map((file, i) => {
+        const start = offset;
+        offset += file.duration;
+        return {
+            id: i,
+            title: path.basename(file.path, path.extname(file.path)),
+            start,
+            end: offset,
+        };
+    });
+}
+
+/**
+ * Looks up a custom tag by name across tag formats: ID3 TXXX frames, MP4
+ * freeform atoms and Vorbis comments all end in the bare field name.
+ */
+function nativeTag(metadata: IAudioMetadata, name: string): string | undefined {
+    for (const tags of Object.values(metadata.native)) {
+        for (const tag of tags) {
+            const id = tag.id.split(":").pop()?.toUpperCase();
+            if (id === name) {
+                const value = text(
+                    typeof tag.value === "object" && tag.value !== null
+                        ? (tag.value as any).text ?? tag.value
+                        : tag.value
+                );
+                if (value) return value;
+            }
+        }
+    }
+    return undefined;
+}
+
+interface ParsedFile extends ScannedFile {
+    metadata: IAudioMetadata;
+    size: number;
+    mtimeMs: number;
+}
+
+interface ScanDir {
+    files: string[];
+    sidecars: string[];
+}
+
+export class AudiobookScannerService {
+    private coverCacheDir = path.join(config.music.musicPath, "cover-cache", "audiobooks");
+    private scanning = false;
+
+    /**
+     * Scan the audiobook folder and sync the local books in the database.
+     * Folders whose files have not changed since the last scan are skipped;
+     * books whose files are gone are removed.
+     */
+    async scan(rootPath: string): Promise<LocalScanResult> {
+        const result: LocalScanResult = { synced: 0, failed: 0, skipped: 0, removed: 0, errors: [] };
+
+        if (this.scanning) {
+            logger.debug("[AUDIOBOOK SCAN] Scan already running, skipping");
+            return result;
+        }
+        this.scanning = true;
+
+        try {
+            await fs.promises.access(rootPath);
+            logger.debug(`[AUDIOBOOK SCAN] Scanning ${rootPath}`);
+
+            const dirs = await this.collectDirs(rootPath);
+            const existing = await prisma.audiobook.findMany({
+                where: { source: "local" },
+                select: { id: true, localPath: true, lastSyncedAt: true, files: { select: { path: true } } },
+            });
+            const seen = new Set<string>();
+
+            for (const [dir, scanDir] of dirs) {
+                try {
+                    const unchanged = await this.unchangedBooks(scanDir, existing);
+                    if (unchanged) {
+                        unchanged.forEach((localPath) => seen.add(localPath));
+                        result.skipped += unchanged.length;
+                        continue;
+                    }
+
+                    const synced = await this.syncDir(dir, scanDir);
+                    synced.forEach((localPath) => seen.add(localPath));
+                    result.synced += synced.length;
+                } catch (error: any) {
+                    result.failed++;
+                    const message = `Failed to scan ${dir}: ${error.message}`;
+                    result.errors.push(message);
+                    logger.error(`[AUDIOBOOK SCAN] ${message}`);
+                    // Keep what we had rather than dropping the book on a read error
+                    existing
+                        .filter((book) => book.files.some((f) => scanDir.files.includes(f.path)))
+                        .forEach((book) => seen.add(book.localPath!));
+                }
+            }
+
+            const stale = existing.filter((book) => !seen.has(book.localPath!));
+            if (stale.length > 0) {
+                await prisma.audiobook.deleteMany({ where: { id: { in: stale.map((b) => b.id) } } });
+                result.removed = stale.length;
+            }
+
+            logger.info(
+                `[AUDIOBOOK SCAN] Synced ${result.synced}, skipped ${result.skipped}, removed ${result.removed}, failed ${result.failed}`
+            );
+            return result;
+        } finally {
+            this.scanning = false;
+        }
+    }
+
+    /**
+     * Collect audio files and sidecars per book folder. Disc folders are
+     * folded into their parent so a book split over "CD 1", "CD 2" is one.
+     */
+    private async collectDirs(rootPath: string): Promise<Map<string, ScanDir>> {
+        const dirs = new Map<string, ScanDir>();
+        const entryFor = (dir: string) => {
+            const bookDir =
+                dir !== rootPath && DISC_FOLDER.test(path.basename(dir)) ? path.dirname(dir) : dir;
+            if (!dirs.has(bookDir)) dirs.set(bookDir, { files: [], sidecars: [] });
+            return dirs.get(bookDir)!;
+        };
+
+        const walk = async (dir: string) => {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    if (!entry.name.startsWith(".")) await walk(fullPath);
+                } else if (entry.isFile()) {
+                    const ext = path.extname(entry.name).toLowerCase();
+                    if (AUDIOBOOK_EXTENSIONS.has(ext)) {
+                        entryFor(dir).files.push(fullPath);
+                    } else if (entry.name === "metadata.json" || ext === ".opf") {
+                        entryFor(dir).sidecars.push(fullPath);
+                    }
+                }
+            }
+        };
+        await walk(rootPath);
+
+        for (const [dir, scanDir] of dirs) {
+            if (scanDir.files.length === 0) dirs.delete(dir);
+        }
+        return dirs;
+    }
+
+    /**
+     * Returns the books of a folder if none of its files or sidecars changed
+     * since they were last synced, or null when the folder needs a rescan.
+     */
+    private async unchangedBooks(
+        scanDir: ScanDir,
+        existing: { localPath: string | null; lastSyncedAt: Date; files: { path: string }[] }[]
+    ): Promise<string[] | null> {
+        const current = new Set(scanDir.files);
+        const books = existing.filter((book) => book.files.some((f) => current.has(f.path)));
+        const known = books.flatMap((book) => book.files.map((f) => f.path));
+        if (books.length === 0 || known.length !== current.size || !known.every((p) => current.has(p))) {
+            return null;
+        }
+
+        const syncedAt = Math.min(...books.map((book) => book.lastSyncedAt.getTime()));
+        for (const file of [...scanDir.files, ...scanDir.sidecars]) {
+            const stat = await fs.promises.stat(file);
+            if (stat.mtimeMs > syncedAt) return null;
+        }
+        return books.map((book) => book.localPath!);
+    }
+
+    private async syncDir(dir: string, scanDir: ScanDir): Promise<string[]> {
+        const parsed: ParsedFile[] = [];
+        for (const filePath of scanDir.files) {
+            const [metadata, stat] = await Promise.all([
+                parseFile(filePath, { includeChapters: true }),
+                fs.promises.stat(filePath),
+            ]);
+            parsed.push({
+                path: filePath,
+                album: metadata.common.album,
+                disc: metadata.common.disk?.no,
+                track: metadata.common.track?.no,
+                duration: metadata.format.duration ?? 0,
+                chapters: metadata.format.chapters,
+                sampleRate: metadata.format.sampleRate,
+                metadata,
+                size: stat.size,
+                mtimeMs: stat.mtimeMs,
+            });
+        }
+
+        const groups = groupBookFiles(dir, parsed);
+        // Sidecars describe the folder, so they only apply to a single book
+        const sidecar = groups.length === 1 ? await this.readSidecars(scanDir.sidecars) : {};
+        const cover = groups.length === 1 ? await this.findCoverImage(dir) : null;
+
+        for (const group of groups) {
+            await this.syncBook(group, sidecar, cover);
+        }
+        return groups.map((group) => group.localPath);
+    }
+
+    private async readSidecars(sidecars: string[]): Promise<SidecarMetadata> {
+        // metadata.json is more complete than OPF, so it is applied last
+        const isJson = (file: string) => (path.basename(file) === "metadata.json" ? 1 : 0);
+        const ordered = [...sidecars].sort((a, b) => isJson(a) - isJson(b));
+        let merged: SidecarMetadata = {};
+        for (const file of ordered) {
+            try {
+                const content = await fs.promises.readFile(file, "utf-8");
+                const data = file.endsWith(".json") ? parseMetadataJson(content) : parseOpf(content);
+                merged = {
+                    ...merged,
+                    ...Object.fromEntries(
+                        Object.entries(data).filter(
+                            ([, v]) => v !== undefined && !(Array.isArray(v) && v.length === 0)
+                        )
+                    ),
+                };
+            } catch (error: any) {
+                logger.warn(`[AUDIOBOOK SCAN] Ignoring unreadable sidecar ${file}: ${error.message}`);
+            }
+        }
+        return merged;
+    }
+
+    private async findCoverImage(dir: string): Promise<string | null> {
+        const names = await fs.promises.readdir(dir);
+        const match = names.find((name) => {
+            const ext = path.extname(name).toLowerCase();
+            const base = path.basename(name, path.extname(name)).toLowerCase();
+            return COVER_EXTENSIONS.includes(ext) && COVER_NAMES.includes(base);
+        });
+        return match ? path.join(dir, match) : null;
+    }
+
+    private async syncBook(
+        group: BookGroup<ParsedFile>,
+        sidecar: SidecarMetadata,
+        coverImage: string | null
+    ): Promise<void> {
+        const first = group.files[0].metadata;
+        const common = first.common;
+        const isFolder = group.localPath !== group.files[0].path;
+
+        const title =
+            sidecar.title ??
+            common.album ??
+            (group.files.length === 1 ? common.title : undefined) ??
+            path.basename(group.localPath, isFolder ? "" : path.extname(group.localPath));
+
+        const author = sidecar.authors?.length
+            ? sidecar.authors.join(", ")
+            : common.albumartist ?? common.artist ?? null;
+        const narrator = sidecar.narrators?.length
+            ? sidecar.narrators.join(", ")
+            : common.composer?.join(", ") || nativeTag(first, "NARRATOR") || null;
+
+        let series = sidecar.series ?? null;
+        let seriesSequence = sidecar.seriesSequence ?? null;
+        if (!series) {
+            const tagSeries = nativeTag(first, "SERIES");
+            if (tagSeries) {
+                ({ series, sequence: seriesSequence } = parseSeriesName(tagSeries));
+                seriesSequence = nativeTag(first, "SERIES-PART") ?? seriesSequence;
+            } else if (common.movement) {
+                series = common.movement;
+                seriesSequence = common.movementIndex?.no?.toString() ?? null;
+            }
+        }
+
+        const description =
+            sidecar.description ??
+            common.description?.[0] ??
+            common.longDescription ??
+            common.comment?.[0]?.text ??
+            null;
+        const asin =
+            sidecar.asin ?? common.asin ?? nativeTag(first, "ASIN") ?? nativeTag(first, "AUDIBLE_ASIN") ?? null;
+        const genres = sidecar.genres?.length ? sidecar.genres : common.genre ?? [];
+
+        let startOffset = 0;
+        const files = group.files.map((file, index) => {
+            const row = {
+                index,
+                path: file.path,
+                duration: file.duration,
+                startOffset,
+                size: BigInt(file.size),
+                mimeType: MIME_TYPES[path.extname(file.path).toLowerCase()] ?? "audio/mpeg",
+            };
+            startOffset += file.duration;
+            return row;
+        });
+        const chapters = buildChapters(group.files, sidecar.chapters);
+
+        const data = {
+            title,
+            author,
+            narrator,
+            description,
+            publishedYear: sidecar.publishedYear ?? common.year ?? null,
+            publisher: sidecar.publisher ?? common.publisher?.[0] ?? null,
+            series,
+            seriesSequence,
+            duration: startOffset,
+            numTracks: files.length,
+            numChapters: chapters.length,
+            size: files.reduce((sum, f) => sum + f.size, BigInt(0)),
+            isbn: sidecar.isbn ?? null,
+            asin,
+            language: sidecar.language ?? common.language ?? null,
+            genres,
+            chapters: chapters as unknown as Prisma.InputJsonValue,
+            audioUrl: group.localPath,
+            source: "local",
+            lastSyncedAt: new Date(),
+        };
+
+        const book = await prisma.audiobook.upsert({
+            where: { localPath: group.localPath },
+            create: { ...data, localPath: group.localPath },
+            update: data,
+        });
+
+        await prisma.$transaction([
+            prisma.audiobookFile.deleteMany({ where: { audiobookId: book.id } }),
+            prisma.audiobookFile.createMany({
+                data: files.map((file) => ({ ...file, audiobookId: book.id })),
+            }),
+        ]);
+
+        const localCoverPath = coverImage ?? (await this.cacheEmbeddedCover(book.id, group.files));
+        if (localCoverPath !== book.localCoverPath) {
+            await prisma.audiobook.update({ where: { id: book.id }, data: { localCoverPath } });
+        }
+
+        logger.debug(`[AUDIOBOOK SCAN] Synced: ${title} (${files.length} file(s), ${chapters.length} chapters)`);
+    }
+
+    private async cacheEmbeddedCover(audiobookId: string, files: ParsedFile[]): Promise<string | null> {
+        const picture = files.map((f) => f.metadata.common.picture?.[0]).find(Boolean);
+        if (!picture) return null;
+
+        try {
+            await fs.promises.mkdir(this.coverCacheDir, { recursive: true });
+            const filePath = path.join(this.coverCacheDir, `${audiobookId}.jpg`);
+            await fs.promises.writeFile(filePath, Buffer.from(picture.data));
+            return filePath;
+        } catch (error: any) {
+            logger.warn(`[AUDIOBOOK SCAN] Failed to cache cover for ${audiobookId}: ${error.message}`);
+            return null;
+        }
+    }
+}
+
+// Singleton instance
+export const audiobookScannerService = new AudiobookScannerService();
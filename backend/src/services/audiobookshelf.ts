@@ -232,6 +232,15 @@ class AudiobookshelfService {
         return response.data;
     }
 
+    /**
+     * Get the user's progress for every item they have started
+     */
+    async getAllProgress(): Promise<any[]> {
+        await this.ensureInitialized();
+        const response = await this.client!.get("/api/me");
+        return response.data?.mediaProgress || [];
+    }
+
     /**
      * Update user's progress for an audiobook
      */
@@ -0,0 +1,112 @@
+import { eventBus } from "./eventBus";
+
+export type ConnectDeviceType = "web" | "tv" | "mobile";
+
+export interface ConnectPlayerState {
+    playbackType: "track" | "audiobook" | "podcast" | "radio" | null;
+    title: string | null;
+    subtitle: string | null;
+    coverUrl: string | null;
+    isPlaying: boolean;
+    position: number;
+    duration: number;
+    volume: number;
+    updatedAt: string;
+}
+
+export interface ConnectDevice {
+    id: string;
+    name: string;
+    type: ConnectDeviceType;
+    connectedAt: string;
+    state: ConnectPlayerState | null;
+}
+
+interface DeviceSession {
+    device: ConnectDevice;
+    // A device can briefly hold two streams while its event source reconnects
+    connections: number;
+}
+
+export class ConnectDeviceNotFoundError extends Error {
+    constructor() {
+        super("Device is not connected");
+        this.name = "ConnectDeviceNotFoundError";
+    }
+}
+
+/**
+ * Players that are open right now, per user. Every player registers while
+ * its event stream is connected, which is what lets one session see and
+ * control the others. Nothing here is persisted: a device that goes away
+ * simply drops out of the list.
+ */
+class ConnectSessions {
+    private users = new Map<string, Map<string, DeviceSession>>();
+
+    join(userId: string, device: Omit<ConnectDevice, "connectedAt" | "state">): void {
+        let devices = this.users.get(userId);
+        if (!devices) {
+            devices = new Map();
+            this.users.set(userId, devices);
+        }
+
+        const existing = devices.get(device.id);
+        if (existing) {
+            existing.connections++;
+            existing.device.name = device.name;
+            existing.device.type = device.type;
+        } else {
+            devices.set(device.id, {
+                device: { ...device, connectedAt: new Date().toISOString(), state: null },
+                connections: 1,
+            });
+        }
+        this.broadcast(userId);
+    }
+
+    leave(userId: string, deviceId: string): void {
+        const devices = this.users.get(userId);
+        const session = devices?.get(deviceId);
+        if (!devices || !session) return;
+
+        if (--session.connections > 0) return;
+        devices.delete(deviceId);
+        if (devices.size === 0) {
+            this.users.delete(userId);
+        }
+        this.broadcast(userId);
+    }
+
+    has(userId: string, deviceId: string): boolean {
+        return this.users.get(userId)?.has(deviceId) ?? false;
+    }
+
+    list(userId: string): ConnectDevice[] {
+        return Array.from(this.users.get(userId)?.values() ?? [], (session) => session.device);
+    }
+
+    updateState(
+        userId: string,
+        deviceId: string,
+        state: Omit<ConnectPlayerState, "updatedAt">
+    ): ConnectDevice {
+        const session = this.users.get(userId)?.get(deviceId);
+        if (!session) {
+            throw new ConnectDeviceNotFoundError();
+        }
+        session.device.state = { ...state, updatedAt: new Date().toISOString() };
+        this.broadcast(userId);
+        return session.device;
+    }
+
+    private broadcast(userId: string): void {
+        eventBus.emit({
+            type: "connect:devices",
+            userId,
+            payload: { devices: this.list(userId) },
+        });
+    }
+}
+
+export const connectSessions = new ConnectSessions();
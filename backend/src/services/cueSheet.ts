@@ -0,0 +1,257 @@
+import type { IAudioMetadata } from "music-metadata";
+
+/**
+ * CUE sheet support for single-file albums (one FLAC/APE/WV rip plus a .cue).
+ *
+ * Each CUE track becomes a virtual Track row whose filePath is the source
+ * file plus "#<track number>" (filePath stays unique) and whose cueStart /
+ * cueEnd hold the offsets in seconds. Anything that opens the audio goes
+ * through trackSourcePath() and trackSegment().
+ */
+
+const FRAMES_PER_SECOND = 75;
+
+export interface CueTrack {
+    number: number;
+    title: string | null;
+    performer: string | null;
+    isrc: string | null;
+    /** INDEX 01 in seconds */
+    start: number;
+    /** Next track's INDEX 01 in the same FILE; null runs to the end of the file */
+    end: number | null;
+    replayGainGain: number | null;
+    replayGainPeak: number | null;
+}
+
+export interface CueFile {
+    name: string;
+    tracks: CueTrack[];
+}
+
+export interface CueSheet {
+    title: string | null;
+    performer: string | null;
+    year: number | null;
+    genre: string | null;
+    replayGainAlbumGain: number | null;
+    replayGainAlbumPeak: number | null;
+    files: CueFile[];
+}
+
+export interface AudioSegment {
+    start: number;
+    end: number | null;
+}
+
+/** Cue sheets are often written in a legacy code page rather than UTF-8 */
+export function decodeCueSheet(buffer: Buffer): string {
+    try {
+        return new TextDecoder("utf-8", { fatal: true })
+            .decode(buffer)
+            .replace(/^\uFEFF/, "");
+    } catch {
+        return buffer.toString("latin1");
+    }
+}
+
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    const match = trimmed.match(/^"(.*)"/);
+    return match ? match[1] : trimmed;
+}
+
+function parseTime(value: string): number | null {
+    const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})$/);
+    if (!match) return null;
+    const [, min, sec, frames] = match.map(Number);
+    return min * 60 + sec + frames / FRAMES_PER_SECOND;
+}
+
+function parseNumber(value: string): number | null {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function parseCueSheet(text: string): CueSheet {
+    const sheet: CueSheet = {
+        title: null,
+        performer: null,
+        year: null,
+        genre: null,
+        replayGainAlbumGain: null,
+        replayGainAlbumPeak: null,
+        files: [],
+    };
+    let file: CueFile | null = null;
+    let track: CueTrack | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const space = line.indexOf(" ");
+        if (space === -1) continue;
+        const command = line.slice(0, space).toUpperCase();
+        const rest = line.slice(space + 1);
+
+        switch (command) {
+            case "FILE":
+                // FILE "name.flac" WAVE -- the type keyword follows the name
+                file = { name: unquote(rest.replace(/\s+\w+$/, "")), tracks: [] };
+                sheet.files.push(file);
+                track = null;
+                break;
+            case "TRACK": {
+                const number = parseInt(rest, 10);
+                if (!file || !Number.isFinite(number) || !/AUDIO/i.test(rest)) {
+                    track = null;
+                    break;
+                }
+                track = {
+                    number,
+                    title: null,
+                    performer: null,
+                    isrc: null,
+                    start: -1,
+                    end: null,
+                    replayGainGain: null,
+                    replayGainPeak: null,
+                };
+                file.tracks.push(track);
+                break;
+            }
+            case "INDEX": {
+                const [index, time] = rest.trim().split(/\s+/);
+                const seconds = time ? parseTime(time) : null;
+                if (track && parseInt(index, 10) === 1 && seconds !== null) {
+                    track.start = seconds;
+                }
+                break;
+            }
+            case "TITLE":
+                if (track) track.title = unquote(rest) || null;
+                else sheet.title = unquote(rest) || null;
+                break;
+            case "PERFORMER":
+                if (track) track.performer = unquote(rest) || null;
+                else sheet.performer = unquote(rest) || null;
+                break;
+            case "ISRC":
+                if (track) track.isrc = unquote(rest) || null;
+                break;
+            case "REM": {
+                const remSpace = rest.indexOf(" ");
+                if (remSpace === -1) break;
+                const key = rest.slice(0, remSpace).toUpperCase();
+                const value = unquote(rest.slice(remSpace + 1));
+                if (key === "DATE") {
+                    const year = parseInt(value, 10);
+                    sheet.year = Number.isFinite(year) ? year : null;
+                } else if (key === "GENRE") {
+                    sheet.genre = value || null;
+                } else if (key === "REPLAYGAIN_ALBUM_GAIN") {
+                    sheet.replayGainAlbumGain = parseNumber(value);
+                } else if (key === "REPLAYGAIN_ALBUM_PEAK") {
+                    sheet.replayGainAlbumPeak = parseNumber(value);
+                } else if (track && key === "REPLAYGAIN_TRACK_GAIN") {
+                    track.replayGainGain = parseNumber(value);
+                } else if (track && key === "REPLAYGAIN_TRACK_PEAK") {
+                    track.replayGainPeak = parseNumber(value);
+                }
+                break;
+            }
+        }
+    }
+
+    for (const cueFile of sheet.files) {
+        cueFile.tracks = cueFile.tracks
+            .filter((t) => t.start >= 0)
+            .sort((a, b) => a.start - b.start);
+        cueFile.tracks.forEach((t, i) => {
+            t.end = cueFile.tracks[i + 1]?.start ?? null;
+        });
+    }
+
+    return sheet;
+}
+
+export function cueTrackPath(sourcePath: string, trackNumber: number): string {
+    return `${sourcePath}#${trackNumber}`;
+}
+
+/** Relative path of the file that holds a track's audio */
+export function trackSourcePath(track: {
+    filePath: string;
+    cueStart?: number | null;
+}): string {
+    if (track.cueStart == null) return track.filePath;
+    const hash = track.filePath.lastIndexOf("#");
+    return hash === -1 ? track.filePath : track.filePath.slice(0, hash);
+}
+
+export function trackSegment(track: {
+    cueStart?: number | null;
+    cueEnd?: number | null;
+}): AudioSegment | null {
+    if (track.cueStart == null) return null;
+    return { start: track.cueStart, end: track.cueEnd ?? null };
+}
+
+function ratio(dB: number) {
+    return { dB, ratio: Math.pow(10, dB / 20) };
+}
+
+function peak(value: number) {
+    return { dB: 20 * Math.log10(value), ratio: value };
+}
+
+/**
+ * Metadata for one CUE track, layered over the tags of the source file.
+ * Whole-file tags that only make sense per track (lyrics, ISRC, recording
+ * IDs, track gain) are dropped; the source file's own track gain covers
+ * the whole album, so it becomes the album gain when the sheet has none.
+ */
+export function cueTrackMetadata(
+    metadata: IAudioMetadata,
+    sheet: CueSheet,
+    file: CueFile,
+    track: CueTrack
+): IAudioMetadata {
+    const common = metadata.common;
+    const fileDuration = metadata.format.duration ?? 0;
+    const end = track.end ?? fileDuration;
+
+    return {
+        ...metadata,
+        format: {
+            ...metadata.format,
+            duration: Math.max(end - track.start, 0),
+        },
+        native: {},
+        common: {
+            ...common,
+            title: track.title ?? `Track ${track.number}`,
+            artist: track.performer ?? sheet.performer ?? common.artist,
+            albumartist: sheet.performer ?? common.albumartist ?? common.artist,
+            album: sheet.title ?? common.album,
+            year: sheet.year ?? common.year,
+            genre: sheet.genre ? [sheet.genre] : common.genre,
+            track: { no: track.number, of: file.tracks.length },
+            isrc: track.isrc ? [track.isrc] : undefined,
+            musicbrainz_recordingid: undefined,
+            musicbrainz_trackid: undefined,
+            lyrics: undefined,
+            replaygain_track_gain:
+                track.replayGainGain !== null ? ratio(track.replayGainGain) : undefined,
+            replaygain_track_peak:
+                track.replayGainPeak !== null ? peak(track.replayGainPeak) : undefined,
+            replaygain_album_gain:
+                sheet.replayGainAlbumGain !== null
+                    ? ratio(sheet.replayGainAlbumGain)
+                    : common.replaygain_album_gain ?? common.replaygain_track_gain,
+            replaygain_album_peak:
+                sheet.replayGainAlbumPeak !== null
+                    ? peak(sheet.replayGainAlbumPeak)
+                    : common.replaygain_album_peak ?? common.replaygain_track_peak,
+        },
+    };
+}
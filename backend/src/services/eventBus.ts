@@ -13,11 +13,16 @@ export type SSEEventType =
     | "scan:progress"
     | "scan:complete"
     | "import:progress"
+    | "podcast-import:progress"
     | "discover:progress"
     | "discover:complete"
     | "preview:progress"
     | "preview:complete"
-    | "enrichment:progress";
+    | "enrichment:progress"
+    | "radio:metadata"
+    | "playlist:updated"
+    | "connect:devices"
+    | "connect:command";
 
 export interface SSEEvent {
     type: SSEEventType;
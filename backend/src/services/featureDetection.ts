@@ -11,6 +11,7 @@ export interface AvailableFeatures {
     musicCNN: boolean;
     vibeEmbeddings: boolean;
     audiobookshelfEnabled: boolean;
+    audiobooksEnabled: boolean;
 }
 
 const HEARTBEAT_TTL = 300000; // 5 minutes
@@ -26,17 +27,17 @@ class FeatureDetectionService {
             return this.cache;
         }
 
-        const [musicCNN, vibeEmbeddings, audiobookshelfEnabled] = await Promise.all([
+        const [musicCNN, vibeEmbeddings, audiobooks] = await Promise.all([
             this.checkMusicCNN(),
             this.checkCLAP(),
-            this.checkAudiobookshelf(),
+            this.checkAudiobooks(),
         ]);
 
-        this.cache = { musicCNN, vibeEmbeddings, audiobookshelfEnabled };
+        this.cache = { musicCNN, vibeEmbeddings, ...audiobooks };
         this.lastCheck = now;
 
         logger.debug(
-            `[FEATURE-DETECTION] Features: musicCNN=${musicCNN}, vibeEmbeddings=${vibeEmbeddings}, audiobookshelf=${audiobookshelfEnabled}`
+            `[FEATURE-DETECTION] Features: musicCNN=${musicCNN}, vibeEmbeddings=${vibeEmbeddings}, audiobookshelf=${audiobooks.audiobookshelfEnabled}, audiobooks=${audiobooks.audiobooksEnabled}`
         );
 
         return this.cache;
@@ -96,16 +97,22 @@ class FeatureDetectionService {
         }
     }
 
-    private async checkAudiobookshelf(): Promise<boolean> {
+    private async checkAudiobooks(): Promise<
+        Pick<AvailableFeatures, "audiobookshelfEnabled" | "audiobooksEnabled">
+    > {
         try {
             const settings = await prisma.systemSettings.findUnique({
                 where: { id: "default" },
-                select: { audiobookshelfEnabled: true },
+                select: { audiobookshelfEnabled: true, localAudiobooksEnabled: true },
             });
-            return settings?.audiobookshelfEnabled ?? false;
+            const audiobookshelfEnabled = settings?.audiobookshelfEnabled ?? false;
+            return {
+                audiobookshelfEnabled,
+                audiobooksEnabled: audiobookshelfEnabled || (settings?.localAudiobooksEnabled ?? false),
+            };
         } catch (error) {
-            logger.error("[FEATURE-DETECTION] Error checking Audiobookshelf:", error);
-            return false;
+            logger.error("[FEATURE-DETECTION] Error checking audiobooks:", error);
+            return { audiobookshelfEnabled: false, audiobooksEnabled: false };
         }
     }
 
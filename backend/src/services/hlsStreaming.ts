@@ -0,0 +1,425 @@
+import { promises as fsPromises } from "fs";
+import * as path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import ffmpegPath from "@ffmpeg-installer/ffmpeg";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { AppError, ErrorCode, ErrorCategory } from "../utils/errors";
+import { AudioStreamingService } from "./audioStreaming";
+import type { AudioSegment } from "./cueSheet";
+import { SourceStream, TranscodeProfile, parseProfileKey } from "./transcodeProfiles";
+
+// Set FFmpeg path to bundled binary
+ffmpeg.setFfmpegPath(ffmpegPath.path);
+
+/**
+ * Segmented HLS. Each variant of a track is cut into fixed-length MPEG-TS
+ * segments by an ffmpeg job that starts at whichever segment the player asks
+ * for, so seeking never waits for the whole file to transcode. Segments live
+ * in one cache directory per track and variant, registered as a
+ * TranscodedFile so the transcode cache's LRU eviction covers them too.
+ */
+
+export const HLS_SEGMENT_SECONDS = 6;
+
+/** Encoded rungs of the bitrate ladder, lowest first */
+const HLS_LADDER = ["aac-64", "aac-128", "aac-256"];
+
+// Every encoded rung shares one sample rate so switching between them is seamless
+const HLS_SAMPLE_RATE = 44100;
+
+// A running job is reused when the requested segment is at most this far
+// ahead of what it has written; further away it's cheaper to start over
+const LOOKAHEAD_SEGMENTS = 3;
+
+const SEGMENT_WAIT_MS = 30_000;
+const SEGMENT_POLL_MS = 100;
+const TOUCH_INTERVAL_MS = 60_000;
+
+// MPEG-TS packs audio in 188-byte packets, roughly 10% over the audio bitrate
+const TS_OVERHEAD = 1.1;
+
+export interface HlsVariant {
+    /** Profile key of the rung, or "original" for the remuxed source */
+    id: string;
+    /** Audio bitrate in kbps */
+    bitrate: number;
+    /** Peak bits per second, as the master playlist advertises it */
+    bandwidth: number;
+    /** RFC 6381 codec string */
+    codecs: string;
+    /** null copies the source audio into the segments */
+    profile: TranscodeProfile | null;
+}
+
+export interface HlsSource {
+    trackId: string;
+    /** Absolute path of the file the audio is read from */
+    filePath: string;
+    sourceModified: Date;
+    /** Seconds */
+    duration: number;
+    /** The track's span within the file, for CUE tracks */
+    segment: AudioSegment | null;
+}
+
+// MPEG-TS only carries MP3 and AAC without re-encoding
+const COPYABLE_CODECS: Record<string, string> = {
+    mp3: "mp4a.40.34",
+    aac: "mp4a.40.2",
+};
+
+/**
+ * The variants offered for a source: the AAC rungs below the source's own
+ * bitrate (never fewer than the lowest), plus the original audio when it
+ * can be remuxed as is.
+ */
+export function hlsVariants(source: SourceStream): HlsVariant[] {
+    const variants: HlsVariant[] = HLS_LADDER.map((key) => parseProfileKey(key)!)
+        .filter((profile, index) => index === 0 || !source.bitrate || profile.bitrate < source.bitrate)
+        .map((profile) => ({
+            id: `aac-${profile.bitrate}`,
+            bitrate: profile.bitrate,
+            bandwidth: Math.round(profile.bitrate * 1000 * TS_OVERHEAD),
+            codecs: "mp4a.40.2",
+            profile,
+        }));
+
+    const copyCodec = COPYABLE_CODECS[source.codec];
+    if (copyCodec && source.bitrate) {
+        variants.push({
+            id: "original",
+            bitrate: source.bitrate,
+            bandwidth: Math.round(source.bitrate * 1000 * TS_OVERHEAD),
+            codecs: copyCodec,
+            profile: null,
+        });
+    }
+
+    return variants.sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+export function segmentCount(duration: number): number {
+    return Math.max(1, Math.ceil(duration / HLS_SEGMENT_SECONDS));
+}
+
+export function masterPlaylist(variants: HlsVariant[], uriFor: (variant: HlsVariant) => string): string {
+    const lines = ["#EXTM3U", "#EXT-X-VERSION:3"];
+    for (const variant of variants) {
+        lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},CODECS="${variant.codecs}"`);
+        lines.push(uriFor(variant));
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+/**
+ * A VOD playlist listing every segment up front. Segments that don't exist
+ * yet are cut when they're requested.
+ */
+export function mediaPlaylist(duration: number, uriFor: (index: number) => string): string {
+    const lines = [
+        "#EXTM3U",
+        "#EXT-X-VERSION:3",
+        `#EXT-X-TARGETDURATION:${HLS_SEGMENT_SECONDS}`,
+        "#EXT-X-MEDIA-SEQUENCE:0",
+        "#EXT-X-PLAYLIST-TYPE:VOD",
+    ];
+    const count = segmentCount(duration);
+    for (let index = 0; index < count; index++) {
+        const length = Math.min(HLS_SEGMENT_SECONDS, duration - index * HLS_SEGMENT_SECONDS);
+        lines.push(`#EXTINF:${Math.max(length, 0.001).toFixed(3)},`);
+        lines.push(uriFor(index));
+    }
+    lines.push("#EXT-X-ENDLIST");
+    return `${lines.join("\n")}\n`;
+}
+
+interface SegmentJob {
+    command: ffmpeg.FfmpegCommand;
+    /** The playlist ffmpeg rewrites each time it completes a segment */
+    playlistPath: string;
+    /** First segment the job writes */
+    start: number;
+    /** First segment the job hasn't completed */
+    frontier: number;
+    finished: boolean;
+    error: Error | null;
+}
+
+export class HlsStreamingService {
+    private jobs = new Map<string, SegmentJob>();
+    private lastTouched = new Map<string, number>();
+
+    constructor(
+        private transcodeCachePath: string,
+        private streaming: AudioStreamingService
+    ) {}
+
+    /**
+     * Returns the path of a segment, cutting it first if needed.
+     */
+    async getSegment(source: HlsSource, variant: HlsVariant, index: number): Promise<string> {
+        const relativeDir = path.join("hls", source.trackId, variant.id);
+        const dir = path.join(this.transcodeCachePath, relativeDir);
+        const key = `${source.trackId}/${variant.id}`;
+
+        await this.touchCache(key, source, variant, relativeDir, dir);
+
+        let job = this.jobs.get(key);
+        if (job) {
+            await this.readFrontier(job);
+        }
+        // ffmpeg writes segments in order, so only the one at a running job's
+        // frontier (or just past it, if the playlist lags) can be half written
+        const writing = job && index >= job.frontier && index <= job.frontier + 1;
+        const segmentPath = path.join(dir, `${index}.ts`);
+        if (!writing && (await exists(segmentPath))) return segmentPath;
+
+        if (!job || index < job.start || index > job.frontier + LOOKAHEAD_SEGMENTS) {
+            job = await this.startJob(key, source, variant, relativeDir, dir, index);
+        }
+
+        return this.waitForSegment(key, job, segmentPath, index);
+    }
+
+    /**
+     * Keeps the variant's cache entry current: drops segments cut from an
+     * older version of the source and bumps the LRU timestamp, at most once
+     * a minute per variant.
+     */
+    private async touchCache(
+        key: string,
+        source: HlsSource,
+        variant: HlsVariant,
+        relativeDir: string,
+        dir: string
+    ): Promise<void> {
+        const now = Date.now();
+        if (now - (this.lastTouched.get(key) ?? 0) < TOUCH_INTERVAL_MS) return;
+        this.lastTouched.set(key, now);
+
+        const cached = await prisma.transcodedFile.findUnique({ where: { cachePath: relativeDir } });
+        if (cached && cached.sourceModified < source.sourceModified) {
+            logger.debug(`[HLS] Cache stale for ${key}, removing...`);
+            this.stopJob(key);
+            await fsPromises.rm(dir, { recursive: true, force: true });
+            await prisma.transcodedFile.delete({ where: { id: cached.id } });
+        } else if (cached) {
+            await prisma.transcodedFile.update({
+                where: { id: cached.id },
+                data: { lastAccessed: new Date() },
+            });
+            return;
+        }
+
+        await prisma.transcodedFile.create({
+            data: {
+                trackId: source.trackId,
+                quality: `hls-${variant.id}`,
+                cachePath: relativeDir,
+                cacheSize: 0,
+                sourceModified: source.sourceModified,
+                lastAccessed: new Date(),
+            },
+        });
+    }
+
+    private async startJob(
+        key: string,
+        source: HlsSource,
+        variant: HlsVariant,
+        relativeDir: string,
+        dir: string,
+        index: number
+    ): Promise<SegmentJob> {
+        this.stopJob(key);
+
+        const currentSize = await this.streaming.getCacheSize();
+        const maxGb = this.streaming.getCacheMaxGb();
+        if (currentSize > maxGb * 0.9) {
+            await this.streaming.evictCache(maxGb * 0.8);
+        }
+        await fsPromises.mkdir(dir, { recursive: true });
+
+        const offset = index * HLS_SEGMENT_SECONDS;
+        const command = ffmpeg(source.filePath).seekInput((source.segment?.start ?? 0) + offset);
+        if (source.segment && source.segment.end !== null) {
+            command.duration(source.segment.end - source.segment.start - offset);
+        }
+        if (variant.profile) {
+            command.audioCodec("aac").audioBitrate(variant.profile.bitrate).audioFrequency(HLS_SAMPLE_RATE);
+        } else {
+            command.audioCodec("copy");
+        }
+
+        const job: SegmentJob = {
+            command,
+            playlistPath: path.join(dir, `job-${index}.m3u8`),
+            start: index,
+            frontier: index,
+            finished: false,
+            error: null,
+        };
+        this.jobs.set(key, job);
+
+        const finish = async (error: Error | null, interrupted: boolean) => {
+            job.finished = true;
+            job.error = error;
+            if (this.jobs.get(key) === job) {
+                this.jobs.delete(key);
+            }
+            // An interrupted job leaves the segment it was writing incomplete
+            await this.readFrontier(job);
+            if (interrupted) {
+                await fsPromises.rm(path.join(dir, `${job.frontier}.ts`), { force: true });
+            }
+            await fsPromises.rm(job.playlistPath, { force: true });
+            await this.recordSize(relativeDir, dir);
+        };
+        const settle = (error: Error | null, interrupted: boolean) => {
+            finish(error, interrupted).catch((err) => {
+                logger.warn(`[HLS] Failed to clean up after ${key}:`, err);
+            });
+        };
+
+        logger.debug(`[HLS] Cutting ${key} from segment ${index}`);
+        command
+            .noVideo()
+            .format("hls")
+            .outputOptions([
+                "-hls_time", String(HLS_SEGMENT_SECONDS),
+                "-hls_list_size", "0",
+                "-hls_segment_type", "mpegts",
+                "-start_number", String(index),
+                "-hls_segment_filename", path.join(dir, "%d.ts"),
+                "-output_ts_offset", String(offset),
+            ])
+            .on("error", (err) => {
+                if (job.finished) return;
+                // Replaced by a job for a seek elsewhere in the track
+                if (this.jobs.get(key) !== job) {
+                    settle(null, true);
+                    return;
+                }
+                logger.error(`[HLS] Segmenting ${key} failed: ${err.message}`);
+                const errorMsg = err.message.toLowerCase();
+                settle(
+                    errorMsg.includes("ffmpeg") && errorMsg.includes("not found")
+                        ? new AppError(
+                              ErrorCode.FFMPEG_NOT_FOUND,
+                              ErrorCategory.FATAL,
+                              "FFmpeg not installed. Please install FFmpeg to enable transcoding.",
+                              { trackId: source.trackId, quality: variant.id }
+                          )
+                        : new AppError(
+                              ErrorCode.TRANSCODE_FAILED,
+                              ErrorCategory.RECOVERABLE,
+                              `Segmenting failed: ${err.message}`,
+                              { trackId: source.trackId, quality: variant.id }
+                          ),
+                    true
+                );
+            })
+            .on("end", () => settle(null, false))
+            .save(job.playlistPath);
+
+        return job;
+    }
+
+    private stopJob(key: string): void {
+        const job = this.jobs.get(key);
+        if (!job) return;
+        this.jobs.delete(key);
+        if (!job.finished) {
+            job.command.kill("SIGKILL");
+        }
+    }
+
+    /** Moves the frontier past the segments the job's playlist lists */
+    private async readFrontier(job: SegmentJob): Promise<void> {
+        const playlist = await fsPromises.readFile(job.playlistPath, "utf8").catch(() => "");
+        for (const match of playlist.matchAll(/^(\d+)\.ts$/gm)) {
+            job.frontier = Math.max(job.frontier, parseInt(match[1], 10) + 1);
+        }
+    }
+
+    private async waitForSegment(
+        key: string,
+        job: SegmentJob,
+        segmentPath: string,
+        index: number
+    ): Promise<string> {
+        const deadline = Date.now() + SEGMENT_WAIT_MS;
+
+        while (Date.now() < deadline) {
+            await this.readFrontier(job);
+            if (index < job.frontier) return segmentPath;
+            if (job.error) throw job.error;
+            if (job.finished) {
+                // Another request may have restarted the variant's job from
+                // an earlier segment; keep waiting on that one instead
+                const next = this.jobs.get(key);
+                if (next && next !== job && next.start <= index) {
+                    job = next;
+                    continue;
+                }
+                throw new AppError(
+                    ErrorCode.FILE_NOT_FOUND,
+                    ErrorCategory.RECOVERABLE,
+                    `Segment ${index} was not produced`,
+                    { segmentPath }
+                );
+            }
+            await new Promise((resolve) => setTimeout(resolve, SEGMENT_POLL_MS));
+        }
+
+        throw new AppError(
+            ErrorCode.TRANSCODE_FAILED,
+            ErrorCategory.TRANSIENT,
+            `Timed out waiting for segment ${index}`,
+            { segmentPath }
+        );
+    }
+
+    private async recordSize(relativeDir: string, dir: string): Promise<void> {
+        const entries = await fsPromises.readdir(dir).catch(() => [] as string[]);
+        let size = 0;
+        for (const entry of entries) {
+            if (!entry.endsWith(".ts")) continue;
+            const stats = await fsPromises.stat(path.join(dir, entry)).catch(() => null);
+            size += stats?.size ?? 0;
+        }
+        await prisma.transcodedFile.updateMany({
+            where: { cachePath: relativeDir },
+            data: { cacheSize: size },
+        });
+    }
+
+    /**
+     * Stop all running segment jobs
+     */
+    destroy(): void {
+        for (const key of [...this.jobs.keys()]) {
+            this.stopJob(key);
+        }
+    }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    return fsPromises.access(filePath).then(
+        () => true,
+        () => false
+    );
+}
+
+let singletonInstance: HlsStreamingService | null = null;
+
+export function getHlsStreamingService(
+    transcodeCachePath: string,
+    streaming: AudioStreamingService
+): HlsStreamingService {
+    if (!singletonInstance) {
+        singletonInstance = new HlsStreamingService(transcodeCachePath, streaming);
+    }
+    return singletonInstance;
+}
@@ -0,0 +1,178 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { findSimilarTracks, SimilarTrack } from "./hybridSimilarity";
+
+export type InstantMixSeedType = "track" | "album" | "artist";
+
+// More seeds add query cost without changing the mix much
+const MAX_SEED_TRACKS = 3;
+// Similar tracks fetched per seed, relative to the requested count, so the
+// filters and diversity rules still leave enough to choose from
+const CANDIDATE_MULTIPLIER = 3;
+// No artist may fill more than this share of a mix, with a floor for short mixes
+const MAX_ARTIST_SHARE = 0.1;
+const MIN_TRACKS_PER_ARTIST = 2;
+
+interface MixSeed {
+    type: InstantMixSeedType;
+    // Tracks the mix is built from, in album/track order
+    trackIds: string[];
+    // Tracks left out of the mix: the seed track, or the whole seed album
+    excludeIds: string[];
+}
+
+/**
+ * A track filter that drops everything the user disliked: the tracks
+ * themselves, tracks on disliked albums and tracks by disliked artists
+ */
+export async function notDislikedBy(userId: string): Promise<Prisma.TrackWhereInput> {
+    const dislikes = await prisma.dislikedEntity.findMany({
+        where: { userId },
+        select: { entityType: true, entityId: true },
+    });
+    if (dislikes.length === 0) return {};
+
+    const idsOf = (type: string) =>
+        dislikes.filter((d) => d.entityType === type).map((d) => d.entityId);
+    const tracks = idsOf("track");
+    const albums = idsOf("album");
+    const artists = idsOf("artist");
+
+    const excluded: Prisma.TrackWhereInput[] = [];
+    if (tracks.length > 0) excluded.push({ id: { in: tracks } });
+    if (albums.length > 0) excluded.push({ albumId: { in: albums } });
+    if (artists.length > 0) excluded.push({ album: { artistId: { in: artists } } });
+    return excluded.length > 0 ? { NOT: excluded } : {};
+}
+
+async function resolveSeed(seedId: string): Promise<MixSeed | null> {
+    const track = await prisma.track.findUnique({ where: { id: seedId }, select: { id: true } });
+    if (track) {
+        return { type: "track", trackIds: [track.id], excludeIds: [track.id] };
+    }
+
+    const albumTracks = await prisma.track.findMany({
+        where: { albumId: seedId, corrupt: false },
+        orderBy: [{ discNumber: "asc" }, { trackNo: "asc" }],
+        select: { id: true },
+    });
+    if (albumTracks.length > 0) {
+        const ids = albumTracks.map((t) => t.id);
+        return { type: "album", trackIds: ids, excludeIds: ids };
+    }
+
+    const artistTracks = await prisma.track.findMany({
+        where: { corrupt: false, album: { artistId: seedId, location: "LIBRARY" } },
+        orderBy: [{ album: { year: "asc" } }, { discNumber: "asc" }, { trackNo: "asc" }],
+        select: { id: true },
+        take: 500,
+    });
+    if (artistTracks.length > 0) {
+        return { type: "artist", trackIds: artistTracks.map((t) => t.id), excludeIds: [] };
+    }
+
+    return null;
+}
+
+/**
+ * Up to MAX_SEED_TRACKS analyzed tracks, spread evenly over the seed so a
+ * whole album or discography is represented rather than its first songs
+ */
+async function pickEmbeddedSeeds(trackIds: string[]): Promise<string[]> {
+    const rows = await prisma.$queryRaw<Array<{ track_id: string }>>`
+        SELECT track_id FROM track_embeddings WHERE track_id = ANY(${trackIds})
+    `;
+    const embedded = new Set(rows.map((r) => r.track_id));
+    const candidates = trackIds.filter((id) => embedded.has(id));
+    if (candidates.length <= MAX_SEED_TRACKS) return candidates;
+
+    const step = candidates.length / MAX_SEED_TRACKS;
+    return Array.from({ length: MAX_SEED_TRACKS }, (_, i) => candidates[Math.floor(i * step)]);
+}
+
+/**
+ * Order candidates (best first) into a mix of at most `count` tracks: no
+ * artist takes more than its share, and the same artist never plays twice in
+ * a row while another candidate is left
+ */
+export function applyArtistDiversity(candidates: SimilarTrack[], count: number): SimilarTrack[] {
+    const maxPerArtist = Math.max(MIN_TRACKS_PER_ARTIST, Math.ceil(count * MAX_ARTIST_SHARE));
+    const perArtist = new Map<string, number>();
+    const remaining: SimilarTrack[] = [];
+    for (const candidate of candidates) {
+        const taken = perArtist.get(candidate.artistId) ?? 0;
+        if (taken >= maxPerArtist) continue;
+        perArtist.set(candidate.artistId, taken + 1);
+        remaining.push(candidate);
+    }
+
+    const mix: SimilarTrack[] = [];
+    while (mix.length < count && remaining.length > 0) {
+        const previousArtist = mix[mix.length - 1]?.artistId;
+        const next = remaining.findIndex((c) => c.artistId !== previousArtist);
+        mix.push(remaining.splice(next === -1 ? 0 : next, 1)[0]);
+    }
+    return mix;
+}
+
+/**
+ * Build an "Instant Mix" from a track, album or artist using the same hybrid
+ * CLAP/feature similarity as the Vibe page.
+ *
+ * Returns track IDs in play order, or null when the seed hasn't been analyzed
+ * yet (or no analyzer is available) so callers can fall back to artist-based
+ * similarity.
+ */
+export async function buildInstantMix(
+    userId: string,
+    seedId: string,
+    count: number
+): Promise<string[] | null> {
+    const seed = await resolveSeed(seedId);
+    if (!seed) return null;
+
+    const seedTrackIds = await pickEmbeddedSeeds(seed.trackIds);
+    if (seedTrackIds.length === 0) {
+        logger.debug(`[INSTANT-MIX] No embeddings for ${seed.type} ${seedId}, falling back`);
+        return null;
+    }
+
+    const results = await Promise.all(
+        seedTrackIds.map((id) => findSimilarTracks(id, count * CANDIDATE_MULTIPLIER))
+    );
+
+    // A track close to several seeds keeps its best score
+    const exclude = new Set([...seed.excludeIds, ...seedTrackIds]);
+    const byId = new Map<string, SimilarTrack>();
+    for (const track of results.flat()) {
+        if (exclude.has(track.id)) continue;
+        const existing = byId.get(track.id);
+        if (!existing || Number(track.similarity) > Number(existing.similarity)) {
+            byId.set(track.id, track);
+        }
+    }
+    if (byId.size === 0) return null;
+
+    const playable = await prisma.track.findMany({
+        where: {
+            id: { in: Array.from(byId.keys()) },
+            corrupt: false,
+            album: { location: "LIBRARY" },
+            ...(await notDislikedBy(userId)),
+        },
+        select: { id: true },
+    });
+    const allowed = new Set(playable.map((t) => t.id));
+
+    const ranked = Array.from(byId.values())
+        .filter((t) => allowed.has(t.id))
+        .sort((a, b) => Number(b.similarity) - Number(a.similarity));
+    if (ranked.length === 0) return null;
+
+    const mix = applyArtistDiversity(ranked, count);
+    logger.debug(
+        `[INSTANT-MIX] ${mix.length} tracks from ${seedTrackIds.length} seed(s) of ${seed.type} ${seedId}`
+    );
+    return mix.map((t) => t.id);
+}
@@ -1,4 +1,5 @@
 import axios, { AxiosInstance } from "axios";
+import crypto from "crypto";
 import { logger } from "../utils/logger";
 import * as fuzz from "fuzzball";
 import { config } from "../config";
@@ -17,9 +18,36 @@ interface SimilarArtist {
     url: string;
 }
 
+/** Track metadata sent with authenticated scrobble / now-playing calls */
+export interface LastFmScrobbleTrack {
+    artist: string;
+    track: string;
+    album?: string;
+    albumArtist?: string;
+    trackNumber?: number;
+    duration?: number; // seconds
+}
+
+/**
+ * Error returned by an authenticated Last.fm write call.
+ * `code` is the Last.fm API error code (e.g. 9 = invalid session key).
+ */
+export class LastFmApiError extends Error {
+    constructor(public code: number, message: string) {
+        super(message);
+        this.name = "LastFmApiError";
+    }
+
+    /** Codes Last.fm documents as "try again later" */
+    get isTransient(): boolean {
+        return [8, 11, 16, 29].includes(this.code);
+    }
+}
+
 class LastFmService {
     private client: AxiosInstance;
     private apiKey: string;
+    private apiSecret: string | undefined;
     private initialized = false;
     private cache: CacheWrapper;
 
@@ -61,6 +89,8 @@ class LastFmService {
     private async ensureInitialized() {
         if (this.initialized) return;
 
+        this.apiSecret = undefined;
+
         try {
             const settings = await this.getSettings();
 
@@ -76,6 +106,7 @@ class LastFmService {
             } else {
                 logger.warn("Last.fm API key not available");
             }
+            this.apiSecret = settings.apiSecret || undefined;
         } catch (err) {
             if (err instanceof Error && err.message === 'Last.fm is disabled') {
                 logger.warn("Last.fm is disabled in settings");
@@ -107,6 +138,133 @@ class LastFmService {
         return response.data;
     }
 
+    /**
+     * Compute api_sig for an authenticated call: all params except `format`
+     * sorted by name and concatenated as name+value, followed by the secret.
+     */
+    private sign(params: Record<string, string>, secret: string): string {
+        const payload = Object.keys(params)
+            .filter((key) => key !== "format" && key !== "callback")
+            .sort()
+            .map((key) => `${key}${params[key]}`)
+            .join("");
+        return crypto
+            .createHash("md5")
+            .update(payload + secret, "utf8")
+            .digest("hex");
+    }
+
+    private async signedPost<T = any>(params: Record<string, string>): Promise<T> {
+        await this.ensureInitialized();
+        if (!this.apiSecret) {
+            throw new LastFmApiError(10, "Last.fm API secret not configured");
+        }
+
+        const body: Record<string, string> = { ...params, api_key: this.apiKey };
+        body.api_sig = this.sign(body, this.apiSecret);
+        body.format = "json";
+
+        try {
+            const response = await rateLimiter.execute(
+                "lastfm",
+                () =>
+                    this.client.post<T>("/", new URLSearchParams(body).toString(), {
+                        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                    }),
+                { skipRetry: true }
+            );
+            const data: any = response.data;
+            if (data?.error) {
+                throw new LastFmApiError(data.error, data.message || "Last.fm error");
+            }
+            return response.data;
+        } catch (error: any) {
+            if (error instanceof LastFmApiError) throw error;
+            const data = error.response?.data;
+            if (data?.error) {
+                throw new LastFmApiError(data.error, data.message || "Last.fm error");
+            }
+            // Network failure or 5xx without a Last.fm body: treat as "service offline"
+            throw new LastFmApiError(11, error.message || "Last.fm unreachable");
+        }
+    }
+
+    /**
+     * Whether user-level features (account linking, scrobbling) are usable.
+     * They need an API secret, which the built-in default key doesn't ship with.
+     */
+    async isScrobblingAvailable(): Promise<boolean> {
+        await this.ensureInitialized();
+        return Boolean(this.apiKey && this.apiSecret);
+    }
+
+    /**
+     * URL the user visits to grant Kima access to their Last.fm account.
+     * Last.fm redirects back to `callbackUrl` with a `token` query parameter.
+     */
+    async getAuthUrl(callbackUrl: string): Promise<string> {
+        await this.ensureInitialized();
+        const params = new URLSearchParams({ api_key: this.apiKey, cb: callbackUrl });
+        return `https://www.last.fm/api/auth/?${params.toString()}`;
+    }
+
+    /**
+     * Exchange an auth token for a permanent session key (auth.getSession)
+     */
+    async getSession(token: string): Promise<{ username: string; sessionKey: string }> {
+        const data = await this.signedPost<any>({ method: "auth.getSession", token });
+        const session = data?.session;
+        if (!session?.key || !session?.name) {
+            throw new LastFmApiError(4, "Last.fm returned no session");
+        }
+        return { username: session.name, sessionKey: session.key };
+    }
+
+    private trackParams(track: LastFmScrobbleTrack): Record<string, string> {
+        const params: Record<string, string> = {
+            artist: track.artist,
+            track: track.track,
+        };
+        if (track.album) params.album = track.album;
+        if (track.albumArtist) params.albumArtist = track.albumArtist;
+        if (track.trackNumber) params.trackNumber = String(track.trackNumber);
+        if (track.duration) params.duration = String(Math.round(track.duration));
+        return params;
+    }
+
+    async updateNowPlaying(sessionKey: string, track: LastFmScrobbleTrack): Promise<void> {
+        await this.signedPost({
+            method: "track.updateNowPlaying",
+            sk: sessionKey,
+            ...this.trackParams(track),
+        });
+    }
+
+    /**
+     * Submit a single completed listen. Returns false when Last.fm accepted
+     * the request but ignored the scrobble (e.g. timestamp too old).
+     */
+    async scrobble(
+        sessionKey: string,
+        track: LastFmScrobbleTrack,
+        playedAt: Date
+    ): Promise<boolean> {
+        const data = await this.signedPost<any>({
+            method: "track.scrobble",
+            sk: sessionKey,
+            timestamp: String(Math.floor(playedAt.getTime() / 1000)),
+            ...this.trackParams(track),
+        });
+
+        const ignored = parseInt(data?.scrobbles?.["@attr"]?.ignored ?? "0", 10);
+        if (ignored > 0) {
+            const reason = normalizeToArray(data.scrobbles.scrobble)[0]?.ignoredMessage?.["#text"];
+            logger.warn(`[Last.fm] Scrobble ignored for "${track.artist} - ${track.track}": ${reason || "unknown reason"}`);
+            return false;
+        }
+        return true;
+    }
+
     async getSimilarArtists(
         artistMbid: string,
         artistName: string,
@@ -0,0 +1,143 @@
+import { ListenSource } from "@prisma/client";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { decrypt } from "../utils/encryption";
+import { listenBrainzService, ListenBrainzListen, LISTENBRAINZ_MAX_PAGE } from "./listenbrainz";
+import { trackIdentityService } from "./trackIdentity";
+
+export interface ListenImportProgress {
+    fetched: number;
+    matched: number;
+    imported: number;
+    /** Listens with no matching library track */
+    skipped: number;
+}
+
+/**
+ * Backfills a user's ListenBrainz history into Play rows so play-count based
+ * mixes (Top Tracks, Rediscover) have the full history, not just plays made
+ * through Kima.
+ *
+ * Imported rows use source LISTENBRAINZ and are never queued for scrobbling.
+ * Re-running is safe: listens already present (same track, same second) are
+ * skipped, which also covers listens Kima itself submitted.
+ */
+class ListenBrainzImportService {
+    async importHistory(
+        userId: string,
+        onProgress?: (progress: ListenImportProgress) => Promise<void> | void
+    ): Promise<ListenImportProgress> {
+        const settings = await prisma.userSettings.findUnique({
+            where: { userId },
+            select: { listenbrainzToken: true, listenbrainzUsername: true },
+        });
+        if (!settings?.listenbrainzToken || !settings.listenbrainzUsername) {
+            throw new Error("ListenBrainz account not linked");
+        }
+
+        const token = decrypt(settings.listenbrainzToken);
+        const progress: ListenImportProgress = { fetched: 0, matched: 0, imported: 0, skipped: 0 };
+        // Listening histories repeat the same tracks constantly; match each once
+        const matchCache = new Map<string, string | null>();
+        let maxTs: number | undefined;
+
+        while (true) {
+            const listens = await listenBrainzService.getListens(
+                settings.listenbrainzUsername,
+                token,
+                maxTs
+            );
+            if (listens.length === 0) break;
+
+            progress.fetched += listens.length;
+            const plays: { trackId: string; playedAt: Date }[] = [];
+
+            for (const listen of listens) {
+                if (!listen.listened_at) continue;
+                const trackId = await this.matchCached(listen, matchCache);
+                if (!trackId) {
+                    progress.skipped++;
+                    continue;
+                }
+                progress.matched++;
+                plays.push({ trackId, playedAt: new Date(listen.listened_at * 1000) });
+            }
+
+            progress.imported += await this.insertNewPlays(userId, plays);
+
+            const oldest = Math.min(...listens.map((l) => l.listened_at ?? Infinity));
+            // Guard against a page that doesn't move the cursor backward
+            if (!Number.isFinite(oldest) || (maxTs !== undefined && oldest >= maxTs)) break;
+            maxTs = oldest;
+
+            await onProgress?.({ ...progress });
+            if (listens.length < LISTENBRAINZ_MAX_PAGE) break;
+        }
+
+        logger.info(
+            `[ListenBrainz] Imported ${progress.imported} plays for user ${userId} ` +
+                `(${progress.fetched} fetched, ${progress.matched} matched, ${progress.skipped} unmatched)`
+        );
+        return progress;
+    }
+
+    private async matchCached(
+        listen: ListenBrainzListen,
+        cache: Map<string, string | null>
+    ): Promise<string | null> {
+        const meta = listen.track_metadata;
+        const key = `${meta.artist_name}|${meta.track_name}|${meta.release_name ?? ""}`.toLowerCase();
+        if (cache.has(key)) return cache.get(key)!;
+
+        const info = meta.additional_info ?? {};
+        const trackId = await trackIdentityService.matchListen({
+            artist: meta.artist_name,
+            title: meta.track_name,
+            album: meta.release_name,
+            isrc: info.isrc,
+            recordingMbid: meta.mbid_mapping?.recording_mbid ?? info.recording_mbid,
+            artistMbids: meta.mbid_mapping?.artist_mbids ?? info.artist_mbids,
+            releaseGroupMbid: info.release_group_mbid,
+        });
+        cache.set(key, trackId);
+        return trackId;
+    }
+
+    private async insertNewPlays(
+        userId: string,
+        plays: { trackId: string; playedAt: Date }[]
+    ): Promise<number> {
+        if (plays.length === 0) return 0;
+
+        const times = plays.map((p) => p.playedAt.getTime());
+        const existing = await prisma.play.findMany({
+            where: {
+                userId,
+                playedAt: {
+                    gte: new Date(Math.min(...times)),
+                    // Local plays keep milliseconds; listens are whole seconds
+                    lt: new Date(Math.max(...times) + 1000),
+                },
+            },
+            select: { trackId: true, playedAt: true },
+        });
+
+        const playKey = (trackId: string, playedAt: Date) =>
+            `${trackId}:${Math.floor(playedAt.getTime() / 1000)}`;
+        const seen = new Set(existing.map((p) => playKey(p.trackId, p.playedAt)));
+
+        const data = [];
+        for (const play of plays) {
+            const key = playKey(play.trackId, play.playedAt);
+            if (seen.has(key)) continue;
+            seen.add(key);
+            data.push({ userId, ...play, source: ListenSource.LISTENBRAINZ });
+        }
+
+        if (data.length === 0) return 0;
+        const result = await prisma.play.createMany({ data });
+        return result.count;
+    }
+}
+
+export const listenBrainzImportService = new ListenBrainzImportService();
@@ -0,0 +1,151 @@
+import axios, { AxiosInstance } from "axios";
+import { APP_VERSION, USER_AGENT } from "../config";
+import { rateLimiter } from "./rateLimiter";
+
+export interface ListenBrainzTrackMetadata {
+    artist_name: string;
+    track_name: string;
+    release_name?: string;
+    additional_info?: {
+        duration_ms?: number;
+        tracknumber?: number;
+        isrc?: string;
+        recording_mbid?: string;
+        release_group_mbid?: string;
+        artist_mbids?: string[];
+        [key: string]: unknown;
+    };
+    /** Present on listens ListenBrainz has mapped to MusicBrainz server-side */
+    mbid_mapping?: {
+        recording_mbid?: string;
+        release_mbid?: string;
+        artist_mbids?: string[];
+    };
+}
+
+export interface ListenBrainzListen {
+    /** Unix seconds; omitted for playing_now */
+    listened_at?: number;
+    track_metadata: ListenBrainzTrackMetadata;
+}
+
+export type ListenType = "single" | "playing_now" | "import";
+
+/**
+ * Error from the ListenBrainz API. `status` is null for network failures.
+ */
+export class ListenBrainzApiError extends Error {
+    constructor(public status: number | null, message: string) {
+        super(message);
+        this.name = "ListenBrainzApiError";
+    }
+
+    get isTransient(): boolean {
+        return this.status === null || this.status === 429 || this.status >= 500;
+    }
+}
+
+// ListenBrainz caps both submission payloads and listen pages at 1000
+export const LISTENBRAINZ_MAX_PAGE = 1000;
+
+class ListenBrainzService {
+    private client: AxiosInstance;
+
+    constructor() {
+        this.client = axios.create({
+            baseURL: "https://api.listenbrainz.org/1/",
+            timeout: 15000,
+            headers: { "User-Agent": USER_AGENT },
+        });
+    }
+
+    private toApiError(error: any): ListenBrainzApiError {
+        if (error instanceof ListenBrainzApiError) return error;
+        const status: number | undefined = error.response?.status;
+        const message = error.response?.data?.error || error.message || "ListenBrainz request failed";
+        return new ListenBrainzApiError(status ?? null, message);
+    }
+
+    private authHeaders(token: string) {
+        return { Authorization: `Token ${token}` };
+    }
+
+    /**
+     * Check a user token and return the ListenBrainz username it belongs to
+     */
+    async validateToken(token: string): Promise<string | null> {
+        try {
+            const response = await rateLimiter.execute("listenbrainz", () =>
+                this.client.get("validate-token", { headers: this.authHeaders(token) })
+            );
+            return response.data?.valid ? response.data.user_name : null;
+        } catch (error: any) {
+            if (error.response?.status === 400 || error.response?.status === 401) {
+                return null;
+            }
+            throw this.toApiError(error);
+        }
+    }
+
+    /**
+     * Submit listens. `single` and `playing_now` take exactly one listen;
+     * `import` takes up to LISTENBRAINZ_MAX_PAGE.
+     */
+    async submitListens(
+        token: string,
+        listenType: ListenType,
+        listens: ListenBrainzListen[]
+    ): Promise<void> {
+        const payload = listens.map((listen) => ({
+            ...listen,
+            track_metadata: {
+                ...listen.track_metadata,
+                additional_info: {
+                    ...listen.track_metadata.additional_info,
+                    media_player: "Kima",
+                    submission_client: "Kima",
+                    submission_client_version: APP_VERSION,
+                },
+            },
+        }));
+
+        try {
+            await rateLimiter.execute(
+                "listenbrainz",
+                () =>
+                    this.client.post(
+                        "submit-listens",
+                        { listen_type: listenType, payload },
+                        { headers: this.authHeaders(token) }
+                    ),
+                { skipRetry: true }
+            );
+        } catch (error) {
+            throw this.toApiError(error);
+        }
+    }
+
+    /**
+     * One page of a user's listens, newest first, strictly older than `maxTs`
+     */
+    async getListens(
+        username: string,
+        token: string,
+        maxTs?: number,
+        count = LISTENBRAINZ_MAX_PAGE
+    ): Promise<ListenBrainzListen[]> {
+        try {
+            const response = await rateLimiter.execute("listenbrainz", () =>
+                this.client.get(`user/${encodeURIComponent(username)}/listens`, {
+                    params: { count, ...(maxTs ? { max_ts: maxTs } : {}) },
+                    headers: this.authHeaders(token),
+                })
+            );
+            return response.data?.payload?.listens ?? [];
+        } catch (error) {
+            throw this.toApiError(error);
+        }
+    }
+}
+
+export const listenBrainzService = new ListenBrainzService();
@@ -2,6 +2,7 @@ import { prisma } from "../../utils/db";
 import { logger } from "../../utils/logger";
 import { normalizeArtistName } from "../../utils/artistNormalization";
 import { lastFmService } from "../lastfm";
+import { ratingService } from "../ratings";
 import {
     ProgrammaticMix,
     getMixColor,
@@ -61,6 +62,47 @@ export async function generateTopTracksMix(
     };
 }
 
+export async function generateTopRatedMix(
+    userId: string,
+    today: string
+): Promise<ProgrammaticMix | null> {
+    // Tracks rated 4+ directly, or unrated tracks on albums rated 4+
+    const ratedIds = await ratingService.getHighlyRatedTrackIds(userId, 4);
+    if (ratedIds.length < 5) return null;
+
+    const tracks = await prisma.track.findMany({
+        where: { id: { in: ratedIds }, album: { location: "LIBRARY" } },
+        include: {
+            album: { select: { coverUrl: true } },
+        },
+    });
+    if (tracks.length < 5) return null;
+
+    // Seeded so the mix is stable for the day
+    let random = getSeededRandom(`top-rated-${today}`);
+    const shuffled = tracks.sort(() => {
+        random = (random * 9301 + 49297) % 233280;
+        return random / 233280 - 0.5;
+    });
+
+    const selectedTracks = shuffled.slice(0, TRACK_LIMIT);
+    const coverUrls = selectedTracks
+        .filter((t) => t.album.coverUrl)
+        .slice(0, 4)
+        .map((t) => t.album.coverUrl!);
+
+    return {
+        id: `top-rated-${today}`,
+        type: "top-rated",
+        name: "4+ Stars",
+        description: "Tracks and albums you rated highly",
+        trackIds: selectedTracks.map((t) => t.id),
+        coverUrls,
+        trackCount: selectedTracks.length,
+        color: getMixColor("top-rated"),
+    };
+}
+
 export async function generateRediscoverMix(
     userId: string,
     today: string
@@ -87,6 +87,8 @@ export const MIX_COLORS: Record<string, string> = {
     genre: "linear-gradient(to bottom, rgba(63, 63, 70, 0.5), rgba(30, 41, 59, 0.4), rgba(17, 24, 39, 0.4))",
     "top-tracks":
         "linear-gradient(to bottom, rgba(6, 95, 70, 0.5), rgba(17, 94, 89, 0.4), rgba(15, 23, 42, 0.4))",
+    "top-rated":
+        "linear-gradient(to bottom, rgba(180, 83, 9, 0.5), rgba(146, 64, 14, 0.4), rgba(15, 23, 42, 0.4))",
     rediscover:
         "linear-gradient(to bottom, rgba(55, 48, 163, 0.5), rgba(76, 29, 149, 0.4), rgba(15, 23, 42, 0.4))",
     "artist-similar":
@@ -42,6 +42,7 @@ import {
 import { generateDayMix } from "./timeMixes";
 import {
     generateTopTracksMix,
+    generateTopRatedMix,
     generateRediscoverMix,
     generateArtistSimilarMix,
     generateRandomDiscoveryMix,
@@ -85,6 +86,11 @@ export class ProgrammaticPlaylistService {
                 weight: 1,
                 name: "Top Tracks Mix",
             },
+            {
+                fn: () => generateTopRatedMix(userId, today + seedSuffix),
+                weight: 1,
+                name: "Top Rated Mix",
+            },
             {
                 fn: () => generateRediscoverMix(userId, today + seedSuffix),
                 weight: 1,
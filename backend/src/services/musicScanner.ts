@@ -1,8 +1,9 @@
 import * as fs from "fs";
+import * as crypto from "crypto";
 import { logger } from "../utils/logger";
 import * as path from "path";
 import { parseFile } from "music-metadata";
-import { prisma } from "../utils/db";
+import { prisma, Prisma } from "../utils/db";
 import PQueue from "p-queue";
 import { CoverArtExtractor } from "./coverArtExtractor";
 import { deezerService } from "./deezer";
@@ -19,9 +20,21 @@ import {
 } from "../utils/artistNormalization";
 import { backfillAllArtistCounts } from "./artistCountsService";
 import { checkLocalArtistImage } from "./imageStorage";
+import { readReplayGainTags } from "./replayGain";
+import {
+    CueFile,
+    CueSheet,
+    CueTrack,
+    cueTrackMetadata,
+    cueTrackPath,
+    decodeCueSheet,
+    parseCueSheet,
+    trackSourcePath,
+} from "./cueSheet";
+import { readTagCredits, trackCreditService } from "./trackCredits";
 
 // Supported audio formats
-const AUDIO_EXTENSIONS = new Set([
+export const AUDIO_EXTENSIONS = new Set([
     ".mp3",
     ".flac",
     ".m4a",
@@ -41,10 +54,71 @@ interface ScanProgress {
     errors: Array<{ file: string; error: string }>;
 }
 
-interface ScanResult {
+const CONTENT_HASH_CHUNK = 64 * 1024;
+
+/**
+ * Cheap content fingerprint: SHA-1 over the size and the first and last
+ * 64 KiB. Identical for a file that was only moved or renamed; any re-encode
+ * or tag rewrite changes it.
+ */
+export async function computeContentHash(
+    filePath: string,
+    size: number
+): Promise<string> {
+    const hash = crypto.createHash("sha1").update(String(size));
+    const handle = await fs.promises.open(filePath, "r");
+    try {
+        const head = Buffer.alloc(Math.min(CONTENT_HASH_CHUNK, size));
+        await handle.read(head, 0, head.length, 0);
+        hash.update(head);
+        if (size > CONTENT_HASH_CHUNK) {
+            const tailLength = Math.min(CONTENT_HASH_CHUNK, size - CONTENT_HASH_CHUNK);
+            const tail = Buffer.alloc(tailLength);
+            await handle.read(tail, 0, tailLength, size - tailLength);
+            hash.update(tail);
+        }
+    } finally {
+        await handle.close();
+    }
+    return hash.digest("hex");
+}
+
+// Fields the scanner compares files against (and matches moved files on)
+const SCANNED_TRACK_SELECT = {
+    id: true,
+    filePath: true,
+    fileModified: true,
+    fileSize: true,
+    contentHash: true,
+    cueStart: true,
+    duration: true,
+    title: true,
+    trackNo: true,
+    isrc: true,
+} as const;
+
+type ScannedTrack = Prisma.TrackGetPayload<{ select: typeof SCANNED_TRACK_SELECT }>;
+
+/** One CUE track inside a single-file album */
+interface CueEntry {
+    sheet: CueSheet;
+    file: CueFile;
+    track: CueTrack;
+    sheetModified: Date;
+}
+
+/** A track-to-be: a whole audio file, or one CUE track within it */
+interface ScanEntry {
+    absolutePath: string;
+    relativePath: string;
+    cue?: CueEntry;
+}
+
+export interface ScanResult {
     tracksAdded: number;
     tracksUpdated: number;
     tracksRemoved: number;
+    tracksMoved: number;
     tracksCorrupt: number;
     errors: Array<{ file: string; error: string }>;
     duration: number;
@@ -70,52 +144,186 @@ export class MusicScannerService {
      */
     async scanLibrary(musicPath: string): Promise<ScanResult> {
         const startTime = Date.now();
-        const result: ScanResult = {
-            tracksAdded: 0,
-            tracksUpdated: 0,
-            tracksRemoved: 0,
-            tracksCorrupt: 0,
-            errors: [],
-            duration: 0,
-        };
+        const result = this.emptyResult();
 
         logger.debug(`Starting library scan: ${musicPath}`);
 
         // Step 1: Find all audio files
         const audioFiles = await this.findAudioFiles(musicPath);
         logger.debug(`Found ${audioFiles.length} audio files`);
+        const entries = await this.buildScanEntries(musicPath, audioFiles);
 
         // Step 2: Get existing tracks from database
         const existingTracks = await prisma.track.findMany({
-            select: {
-                id: true,
-                filePath: true,
-                fileModified: true,
+            select: SCANNED_TRACK_SELECT,
+        });
+
+        // Step 3: Find tracks whose files are gone (they may have moved)
+        const missingTracks = await this.findMissingTracks(
+            musicPath,
+            existingTracks,
+            entries
+        );
+
+        // Step 4: Process each audio file, relinking moved files
+        await this.processFiles(
+            musicPath,
+            entries,
+            existingTracks,
+            result,
+            missingTracks
+        );
+
+        // Step 5: Remove tracks whose files are gone and weren't moved
+        await this.removeTracks(missingTracks, result);
+
+        // Steps 6-7: Clean up orphaned albums and artists
+        await this.cleanupOrphans();
+
+        return this.finishScan(result, startTime);
+    }
+
+    /**
+     * Incremental scan of specific directories or files (relative to
+     * musicPath), used by the library watcher instead of walking the whole
+     * tree. Moves are only detected between the given paths.
+     */
+    async scanPaths(
+        musicPath: string,
+        relativePaths: string[]
+    ): Promise<ScanResult> {
+        const startTime = Date.now();
+        const result = this.emptyResult();
+        const root = path.resolve(musicPath);
+
+        const targets = [...new Set(relativePaths)]
+            .map((p) => p.replace(/\\/g, "/").replace(/\/+$/, ""))
+            .filter((p) => {
+                const resolved = path.resolve(root, p);
+                return resolved !== root && resolved.startsWith(root + path.sep);
+            });
+        if (targets.length === 0) {
+            return this.finishScan(result, startTime);
+        }
+
+        logger.debug(`Starting incremental scan of ${targets.length} path(s)`);
+
+        const audioFiles: string[] = [];
+        for (const target of targets) {
+            const absolutePath = path.join(root, target);
+            const stats = await fs.promises.stat(absolutePath).catch(() => null);
+            if (stats?.isDirectory()) {
+                audioFiles.push(...(await this.findAudioFiles(absolutePath)));
+            } else if (
+                stats?.isFile() &&
+                AUDIO_EXTENSIONS.has(path.extname(absolutePath).toLowerCase())
+            ) {
+                audioFiles.push(absolutePath);
+            }
+        }
+
+        const existingTracks = await prisma.track.findMany({
+            where: {
+                OR: targets.flatMap((target) => [
+                    { filePath: target },
+                    { filePath: { startsWith: `${target}/` } },
+                    { filePath: { startsWith: `${target}#` } },
+                ]),
             },
+            select: SCANNED_TRACK_SELECT,
         });
 
+        if (audioFiles.length === 0 && existingTracks.length === 0) {
+            result.duration = Date.now() - startTime;
+            return result;
+        }
+
+        const entries = await this.buildScanEntries(root, audioFiles);
+        const missingTracks = await this.findMissingTracks(
+            root,
+            existingTracks,
+            entries
+        );
+
+        // New files claim their match out of missingTracks as they go
+        await this.processFiles(
+            root,
+            entries,
+            existingTracks,
+            result,
+            missingTracks
+        );
+        await this.removeTracks(missingTracks, result);
+        await this.cleanupOrphans();
+
+        return this.finishScan(result, startTime);
+    }
+
+    private emptyResult(): ScanResult {
+        return {
+            tracksAdded: 0,
+            tracksUpdated: 0,
+            tracksRemoved: 0,
+            tracksMoved: 0,
+            tracksCorrupt: 0,
+            errors: [],
+            duration: 0,
+        };
+    }
+
+    private finishScan(result: ScanResult, startTime: number): ScanResult {
+        result.duration = Date.now() - startTime;
+        logger.debug(
+            `Scan complete: +${result.tracksAdded} ~${result.tracksUpdated} -${result.tracksRemoved} moved:${result.tracksMoved} corrupt:${result.tracksCorrupt} (${result.duration}ms)`
+        );
+
+        // Update artist counts in background (non-blocking)
+        // This ensures denormalized counts are accurate after scan
+        backfillAllArtistCounts().catch((err) => {
+            logger.error("[Scan] Artist counts update failed:", err);
+        });
+
+        return result;
+    }
+
+    /**
+     * Add or update tracks for the given files. A file with no track at its
+     * path is first matched against moveCandidates (tracks whose files
+     * disappeared); a match is re-pointed at the new path instead of
+     * creating a new track, and removed from the list.
+     */
+    private async processFiles(
+        musicPath: string,
+        entries: ScanEntry[],
+        existingTracks: ScannedTrack[],
+        result: ScanResult,
+        moveCandidates: ScannedTrack[]
+    ): Promise<void> {
         const tracksByPath = new Map(
             existingTracks.map((t) => [t.filePath, t])
         );
 
-        // Step 3: Process each audio file
         let filesScanned = 0;
         const progress: ScanProgress = {
             filesScanned: 0,
-            filesTotal: audioFiles.length,
+            filesTotal: entries.length,
             currentFile: "",
             errors: [],
         };
 
-        for (const audioFile of audioFiles) {
+        for (const entry of entries) {
+            const { absolutePath: audioFile, relativePath, cue } = entry;
             await this.scanQueue.add(async () => {
                 try {
-                    const relativePath = path.relative(musicPath, audioFile);
                     progress.currentFile = relativePath;
                     this.progressCallback?.(progress);
 
                     const stats = await fs.promises.stat(audioFile);
-                    const fileModified = stats.mtime;
+                    // Editing the cue sheet changes its tracks too
+                    const fileModified =
+                        cue && cue.sheetModified > stats.mtime
+                            ? cue.sheetModified
+                            : stats.mtime;
 
                     // Skip 0-byte files (incomplete downloads, stubs)
                     if (stats.size === 0) {
@@ -132,13 +340,45 @@ export class MusicScannerService {
                             existingTrack.fileModified &&
                             existingTrack.fileModified >= fileModified
                         ) {
-                            // File hasn't changed, skip
+                            // File hasn't changed, skip (but fingerprint
+                            // tracks scanned before fingerprints existed)
+                            if (!existingTrack.contentHash) {
+                                await prisma.track.update({
+                                    where: { id: existingTrack.id },
+                                    data: {
+                                        contentHash: await computeContentHash(
+                                            audioFile,
+                                            stats.size
+                                        ),
+                                    },
+                                });
+                            }
                             filesScanned++;
                             progress.filesScanned = filesScanned;
                             return;
                         }
+                    }
+
+                    const contentHash = await computeContentHash(
+                        audioFile,
+                        stats.size
+                    );
+
+                    if (existingTrack) {
                         // File changed, will update
                         result.tracksUpdated++;
+                    } else if (
+                        moveCandidates.length > 0 &&
+                        (await this.relinkMovedTrack(
+                            audioFile,
+                            relativePath,
+                            stats.size,
+                            contentHash,
+                            cue?.track.start ?? null,
+                            moveCandidates
+                        ))
+                    ) {
+                        result.tracksMoved++;
                     } else {
                         // New file
                         result.tracksAdded++;
@@ -148,7 +388,9 @@ export class MusicScannerService {
                     await this.processAudioFile(
                         audioFile,
                         relativePath,
-                        musicPath
+                        musicPath,
+                        contentHash,
+                        cue
                     );
                 } catch (err: any) {
                     const error = {
@@ -159,7 +401,6 @@ export class MusicScannerService {
                     progress.errors.push(error);
                     logger.error(`Error processing ${audioFile}:`, err);
 
-                    const relativePath = path.relative(musicPath, audioFile);
                     const existingTrack = tracksByPath.get(relativePath);
                     if (existingTrack) {
                         await prisma.track.update({
@@ -178,99 +419,184 @@ export class MusicScannerService {
         }
 
         await this.scanQueue.onIdle();
+    }
 
-        // Step 4: Remove tracks for files that no longer exist
-        const scannedPaths = new Set(
-            audioFiles.map((f) => path.relative(musicPath, f))
-        );
-        let tracksToRemove = existingTracks.filter(
-            (t) => !scannedPaths.has(t.filePath)
+    /**
+     * Re-point a vanished track at a new file instead of creating a new one,
+     * so plays, likes, playlist entries and analysis stay attached. Matches,
+     * strongest first: identical content fingerprint, same ISRC and length,
+     * or same size, length, title and track number. CUE tracks share their
+     * source file, so they only match on fingerprint plus start offset.
+     * Returns true when the track was moved; processAudioFile then refreshes
+     * it in place through the filePath upsert.
+     */
+    private async relinkMovedTrack(
+        absolutePath: string,
+        relativePath: string,
+        fileSize: number,
+        contentHash: string,
+        cueStart: number | null,
+        candidates: ScannedTrack[]
+    ): Promise<boolean> {
+        let index = candidates.findIndex(
+            (c) => c.contentHash === contentHash && c.cueStart === cueStart
         );
 
-        if (tracksToRemove.length > 0) {
-            // Safety: verify files are truly missing (guard against path normalization issues)
-            const beforeCount = tracksToRemove.length;
-            const existChecks = await Promise.all(
-                tracksToRemove.map(async (t) => {
-                    const fullPath = path.join(musicPath, t.filePath);
-                    try {
-                        await fs.promises.access(fullPath);
-                        return { track: t, exists: true };
-                    } catch {
-                        return { track: t, exists: false };
-                    }
-                })
-            );
-            tracksToRemove = existChecks.filter((c) => !c.exists).map((c) => c.track);
-            const pathMismatches = beforeCount - tracksToRemove.length;
-            if (pathMismatches > 0) {
-                logger.debug(
-                    `${pathMismatches} track(s) had path mismatches but files exist on disk (skipped removal)`
+        if (index === -1 && cueStart === null) {
+            const metadata = await parseFile(absolutePath);
+            const duration = Math.floor(metadata.format.duration || 0);
+            const title =
+                sanitizeTagString(metadata.common.title) ||
+                path.basename(relativePath, path.extname(relativePath));
+            const trackNo = metadata.common.track.no || 0;
+            const isrc =
+                metadata.common.isrc?.[0]?.split(/[;,]/)[0]?.trim() || null;
+
+            // No await between here and the splice: concurrent files can't
+            // claim the same track
+            if (isrc) {
+                index = candidates.findIndex(
+                    (c) =>
+                        c.cueStart === null &&
+                        c.isrc === isrc &&
+                        Math.abs(c.duration - duration) <= 1
                 );
             }
+            if (index === -1) {
+                index = candidates.findIndex(
+                    (c) =>
+                        c.cueStart === null &&
+                        c.fileSize === fileSize &&
+                        c.duration === duration &&
+                        c.title === title &&
+                        c.trackNo === trackNo
+                );
+            }
+        }
+        if (index === -1) return false;
+        const [track] = candidates.splice(index, 1);
+
+        await prisma.track.update({
+            where: { id: track.id },
+            data: { filePath: relativePath },
+        });
+        logger.debug(`[Scanner] Moved: ${track.filePath} -> ${relativePath}`);
+        return true;
+    }
+
+    /**
+     * Tracks that were not found in this scan and whose files are really
+     * gone from disk
+     */
+    private async findMissingTracks(
+        musicPath: string,
+        tracks: ScannedTrack[],
+        entries: ScanEntry[]
+    ): Promise<ScannedTrack[]> {
+        const scannedPaths = new Set(entries.map((e) => e.relativePath));
+        const notScanned = tracks.filter((t) => !scannedPaths.has(t.filePath));
+        if (notScanned.length === 0) return [];
+
+        // A file that is now split by a cue sheet (or a cue track whose
+        // sheet changed) still exists on disk but its track is gone
+        const cueSources = new Set(
+            entries
+                .filter((e) => e.cue)
+                .map((e) => path.relative(musicPath, e.absolutePath))
+        );
 
-            if (tracksToRemove.length > 0) {
-                // Convert playlist-referenced tracks to pending entries before deletion
-                const playlistItems = await prisma.playlistItem.findMany({
-                    where: { trackId: { in: tracksToRemove.map((t) => t.id) } },
+        // Safety: verify files are truly missing (guard against path normalization issues)
+        const existChecks = await Promise.all(
+            notScanned.map(async (t) => {
+                if (t.cueStart !== null || cueSources.has(t.filePath)) {
+                    return { track: t, exists: false };
+                }
+                const fullPath = path.join(musicPath, t.filePath);
+                try {
+                    await fs.promises.access(fullPath);
+                    return { track: t, exists: true };
+                } catch {
+                    return { track: t, exists: false };
+                }
+            })
+        );
+        const missing = existChecks.filter((c) => !c.exists).map((c) => c.track);
+        const pathMismatches = notScanned.length - missing.length;
+        if (pathMismatches > 0) {
+            logger.debug(
+                `${pathMismatches} track(s) had path mismatches but files exist on disk (skipped removal)`
+            );
+        }
+        return missing;
+    }
+
+    private async removeTracks(
+        tracksToRemove: ScannedTrack[],
+        result: ScanResult
+    ): Promise<void> {
+        if (tracksToRemove.length === 0) return;
+
+        // Convert playlist-referenced tracks to pending entries before deletion
+        const playlistItems = await prisma.playlistItem.findMany({
+            where: { trackId: { in: tracksToRemove.map((t) => t.id) } },
+            select: {
+                playlistId: true,
+                sort: true,
+                track: {
                     select: {
-                        playlistId: true,
-                        sort: true,
-                        track: {
+                        title: true,
+                        album: {
                             select: {
                                 title: true,
-                                album: {
-                                    select: {
-                                        title: true,
-                                        artist: { select: { name: true } },
-                                    },
-                                },
+                                artist: { select: { name: true } },
                             },
                         },
                     },
-                });
-
-                if (playlistItems.length > 0) {
-                    logger.debug(
-                        `Converting ${playlistItems.length} playlist reference(s) to pending entries (missing from disk)`
-                    );
-                    for (const item of playlistItems) {
-                        const artistName = item.track.album.artist.name;
-                        const trackTitle = item.track.title;
-                        await prisma.playlistPendingTrack.upsert({
-                            where: {
-                                playlistId_spotifyArtist_spotifyTitle: {
-                                    playlistId: item.playlistId,
-                                    spotifyArtist: artistName,
-                                    spotifyTitle: trackTitle,
-                                },
-                            },
-                            create: {
-                                playlistId: item.playlistId,
-                                spotifyArtist: artistName,
-                                spotifyTitle: trackTitle,
-                                spotifyAlbum: item.track.album.title,
-                                sort: item.sort,
-                                missingFromDisk: true,
-                            },
-                            update: {
-                                missingFromDisk: true,
-                                spotifyAlbum: item.track.album.title,
-                                sort: item.sort,
-                            },
-                        });
-                    }
-                }
+                },
+            },
+        });
 
-                await prisma.track.deleteMany({
-                    where: { id: { in: tracksToRemove.map((t) => t.id) } },
+        if (playlistItems.length > 0) {
+            logger.debug(
+                `Converting ${playlistItems.length} playlist reference(s) to pending entries (missing from disk)`
+            );
+            for (const item of playlistItems) {
+                const artistName = item.track.album.artist.name;
+                const trackTitle = item.track.title;
+                await prisma.playlistPendingTrack.upsert({
+                    where: {
+                        playlistId_spotifyArtist_spotifyTitle: {
+                            playlistId: item.playlistId,
+                            spotifyArtist: artistName,
+                            spotifyTitle: trackTitle,
+                        },
+                    },
+                    create: {
+                        playlistId: item.playlistId,
+                        spotifyArtist: artistName,
+                        spotifyTitle: trackTitle,
+                        spotifyAlbum: item.track.album.title,
+                        sort: item.sort,
+                        missingFromDisk: true,
+                    },
+                    update: {
+                        missingFromDisk: true,
+                        spotifyAlbum: item.track.album.title,
+                        sort: item.sort,
+                    },
                 });
-                result.tracksRemoved = tracksToRemove.length;
-                logger.debug(`Removed ${tracksToRemove.length} missing tracks`);
             }
         }
 
-        // Step 5: Clean up orphaned albums (albums with no tracks)
+        await prisma.track.deleteMany({
+            where: { id: { in: tracksToRemove.map((t) => t.id) } },
+        });
+        result.tracksRemoved = tracksToRemove.length;
+        logger.debug(`Removed ${tracksToRemove.length} missing tracks`);
+    }
+
+    private async cleanupOrphans(): Promise<void> {
+        // Clean up orphaned albums (albums with no tracks)
         const orphanedAlbums = await prisma.album.findMany({
             where: {
                 tracks: { none: {} },
@@ -287,10 +613,11 @@ export class MusicScannerService {
             });
         }
 
-        // Step 6: Clean up orphaned artists (artists with no albums)
+        // Clean up orphaned artists (no albums, not credited on any track)
         const orphanedArtists = await prisma.artist.findMany({
             where: {
                 albums: { none: {} },
+                credits: { none: {} },
             },
             select: { id: true, name: true },
         });
@@ -309,19 +636,6 @@ export class MusicScannerService {
                 },
             });
         }
-
-        result.duration = Date.now() - startTime;
-        logger.debug(
-            `Scan complete: +${result.tracksAdded} ~${result.tracksUpdated} -${result.tracksRemoved} corrupt:${result.tracksCorrupt} (${result.duration}ms)`
-        );
-
-        // Update artist counts in background (non-blocking)
-        // This ensures denormalized counts are accurate after scan
-        backfillAllArtistCounts().catch((err) => {
-            logger.error("[Scan] Artist counts update failed:", err);
-        });
-
-        return result;
     }
 
     /**
@@ -561,16 +875,98 @@ export class MusicScannerService {
     }
 
     /**
-     * Process a single audio file and update database
+     * Split single-file albums into their CUE tracks. A .cue next to the
+     * audio is matched to its FILE entry by name, falling back to the same
+     * base name with another extension (rips are often converted after the
+     * sheet was written). FILE entries with a single track are left as
+     * ordinary files.
+     */
+    private async buildScanEntries(
+        musicPath: string,
+        audioFiles: string[]
+    ): Promise<ScanEntry[]> {
+        const filesByDir = new Map<string, string[]>();
+        for (const file of audioFiles) {
+            const dir = path.dirname(file);
+            filesByDir.set(dir, [...(filesByDir.get(dir) ?? []), file]);
+        }
+
+        const cueByFile = new Map<string, Omit<CueEntry, "track">>();
+        for (const [dir, files] of filesByDir) {
+            let cueNames: string[];
+            try {
+                cueNames = (await fs.promises.readdir(dir)).filter(
+                    (name) => path.extname(name).toLowerCase() === ".cue"
+                );
+            } catch {
+                continue;
+            }
+
+            for (const cueName of cueNames) {
+                const cuePath = path.join(dir, cueName);
+                try {
+                    const [buffer, cueStats] = await Promise.all([
+                        fs.promises.readFile(cuePath),
+                        fs.promises.stat(cuePath),
+                    ]);
+                    const sheet = parseCueSheet(decodeCueSheet(buffer));
+                    for (const file of sheet.files) {
+                        if (file.tracks.length < 2) continue;
+                        const name = path.basename(file.name.replace(/\\/g, "/"));
+                        const stem = path.parse(name).name.toLowerCase();
+                        const audioFile =
+                            files.find(
+                                (f) => path.basename(f).toLowerCase() === name.toLowerCase()
+                            ) ??
+                            files.find(
+                                (f) => path.parse(f).name.toLowerCase() === stem
+                            );
+                        if (audioFile && !cueByFile.has(audioFile)) {
+                            cueByFile.set(audioFile, {
+                                sheet,
+                                file,
+                                sheetModified: cueStats.mtime,
+                            });
+                        }
+                    }
+                } catch (err) {
+                    logger.warn(`[Scanner] Could not read cue sheet ${cuePath}:`, err);
+                }
+            }
+        }
+
+        return audioFiles.flatMap((absolutePath): ScanEntry[] => {
+            const relativePath = path.relative(musicPath, absolutePath);
+            const cue = cueByFile.get(absolutePath);
+            if (!cue) return [{ absolutePath, relativePath }];
+            return cue.file.tracks.map((track) => ({
+                absolutePath,
+                relativePath: cueTrackPath(relativePath, track.number),
+                cue: { ...cue, track },
+            }));
+        });
+    }
+
+    /**
+     * Process a single audio file (or one CUE track in it) and update database
      */
     private async processAudioFile(
         absolutePath: string,
         relativePath: string,
-        musicPath: string
+        musicPath: string,
+        contentHash: string,
+        cue?: CueEntry
     ): Promise<void> {
         // Extract metadata
-        const metadata = await parseFile(absolutePath);
+        const fileMetadata = await parseFile(absolutePath);
+        const metadata = cue
+            ? cueTrackMetadata(fileMetadata, cue.sheet, cue.file, cue.track)
+            : fileMetadata;
         const stats = await fs.promises.stat(absolutePath);
+        const fileModified =
+            cue && cue.sheetModified > stats.mtime
+                ? cue.sheetModified
+                : stats.mtime;
 
         // Parse basic info
         const title =
@@ -589,8 +985,20 @@ export class MusicScannerService {
         const discSubtitle = sanitizeTagString(discSubtitleInput) || null;
         const duration = Math.floor(metadata.format.duration || 0);
         const mime = metadata.format.codec || "audio/mpeg";
+        const recordingMbid = metadata.common.musicbrainz_recordingid || null;
         const rawIsrc = metadata.common.isrc?.[0] || null;
         const isrc = rawIsrc?.split(/[;,]/)[0]?.trim() || null;
+        // Tagged ReplayGain wins; tracks without it get an EBU R128
+        // measurement from the audio analyzer instead
+        const replayGain = readReplayGainTags(metadata.common);
+        const trackGainData =
+            replayGain.trackGain !== null
+                ? {
+                      replayGainTrackGain: replayGain.trackGain,
+                      replayGainTrackPeak: replayGain.trackPeak,
+                      replayGainSource: "tags",
+                  }
+                : {};
 
         // Artist and album info
         // IMPORTANT: Prefer albumartist over artist to keep albums grouped under the primary artist
@@ -1009,10 +1417,15 @@ export class MusicScannerService {
                 duration,
                 mime,
                 filePath: relativePath,
-                fileModified: stats.mtime,
+                fileModified,
                 fileSize: stats.size,
+                contentHash,
+                cueStart: cue?.track.start ?? null,
+                cueEnd: cue?.track.end ?? null,
+                recordingMbid,
                 isrc,
                 isrcSource: isrc ? "id3" : null,
+                ...trackGainData,
             },
             update: {
                 albumId: album.id,
@@ -1022,13 +1435,49 @@ export class MusicScannerService {
                 discSubtitle,
                 duration,
                 mime,
-                fileModified: stats.mtime,
+                fileModified,
                 fileSize: stats.size,
+                contentHash,
+                cueStart: cue?.track.start ?? null,
+                cueEnd: cue?.track.end ?? null,
+                recordingMbid,
                 corrupt: false,
                 ...(isrc ? { isrc, isrcSource: "id3" as const } : {}),
+                ...trackGainData,
             },
         });
 
+        if (
+            replayGain.albumGain !== null &&
+            (album.replayGainAlbumGain !== replayGain.albumGain ||
+                album.replayGainSource !== "tags")
+        ) {
+            await prisma.album.update({
+                where: { id: album.id },
+                data: {
+                    replayGainAlbumGain: replayGain.albumGain,
+                    replayGainAlbumPeak: replayGain.albumPeak,
+                    replayGainSource: "tags",
+                },
+            });
+        }
+
+        // Featured artists, composers and other credits. The album artist
+        // stands in as primary artist for files without an artist tag.
+        try {
+            const credits = readTagCredits(metadata);
+            if (!credits.some((c) => c.role === "primary")) {
+                credits.unshift({ name: artist.name, role: "primary", artistId: artist.id });
+            }
+            await trackCreditService.setCredits(track.id, "tags", credits, {
+                id: artist.id,
+                name: artist.name,
+            });
+        } catch (error) {
+            // Non-critical -- the track is still filed under its album artist
+            logger.debug(`[Scanner] Failed to store credits for ${relativePath}:`, error);
+        }
+
         // Extract embedded lyrics
         try {
             let plainLyrics: string | null = null;
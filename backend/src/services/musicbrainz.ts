@@ -3,6 +3,31 @@ import { logger } from "../utils/logger";
 import { redisClient } from "../utils/redis";
 import { rateLimiter } from "./rateLimiter";
 import { USER_AGENT } from "../config";
+import type { Credit, CreditRole } from "./trackCredits";
+
+// MusicBrainz relationship types -> credit roles
+const RECORDING_RELATION_ROLES: Record<string, CreditRole> = {
+    instrument: "performer",
+    vocal: "performer",
+    performer: "performer",
+    conductor: "conductor",
+    remixer: "remixer",
+    producer: "producer",
+    engineer: "engineer",
+    recording: "engineer",
+    mix: "mixer",
+    "mix-DJ": "djmixer",
+    arranger: "arranger",
+    "instrument arranger": "arranger",
+    "vocal arranger": "arranger",
+};
+
+const WORK_RELATION_ROLES: Record<string, CreditRole> = {
+    composer: "composer",
+    lyricist: "lyricist",
+    writer: "writer",
+    arranger: "arranger",
+};
 
 class MusicBrainzService {
     private client: AxiosInstance;
@@ -901,6 +926,66 @@ class MusicBrainzService {
             }
         });
     }
+    /**
+     * Artist credits for a recording: the artist credit (anyone after a
+     * "feat." join phrase is featured), performer/producer/engineer
+     * relationships on the recording and composer/lyricist relationships on
+     * the works it records.
+     */
+    async getRecordingCredits(recordingId: string): Promise<Credit[] | null> {
+        const cacheKey = `mb:recording:credits:${recordingId}`;
+        return this.cachedRequest(cacheKey, async () => {
+            try {
+                const response = await this.rateLimitedGet(`/recording/${recordingId}`, {
+                    params: {
+                        fmt: "json",
+                        inc: "artist-credits+artist-rels+work-rels+work-level-rels",
+                    },
+                });
+                const data = response.data;
+                const credits: Credit[] = [];
+
+                let featuring = false;
+                for (const ac of data["artist-credit"] || []) {
+                    credits.push({
+                        name: ac.artist?.name || ac.name,
+                        mbid: ac.artist?.id,
+                        role: featuring ? "featured" : "primary",
+                    });
+                    if (/\b(feat\.?|ft\.|featuring)\s*$/i.test(ac.joinphrase || "")) {
+                        featuring = true;
+                    }
+                }
+
+                const relationCredit = (rel: any, roles: Record<string, CreditRole>) => {
+                    const role = roles[rel.type];
+                    if (!role || !rel.artist) return;
+                    let subRole = "";
+                    if (rel.type === "instrument") subRole = rel.attributes?.[0] ?? "";
+                    if (rel.type === "vocal") subRole = rel.attributes?.[0] ?? "vocals";
+                    credits.push({ name: rel.artist.name, mbid: rel.artist.id, role, subRole });
+                };
+
+                for (const rel of data.relations || []) {
+                    if (rel["target-type"] === "artist") {
+                        relationCredit(rel, RECORDING_RELATION_ROLES);
+                    } else if (rel["target-type"] === "work") {
+                        for (const workRel of rel.work?.relations || []) {
+                            if (workRel["target-type"] === "artist") {
+                                relationCredit(workRel, WORK_RELATION_ROLES);
+                            }
+                        }
+                    }
+                }
+
+                return credits;
+            } catch (err: any) {
+                logger.warn(`MusicBrainz recording credits failed for ${recordingId}:`, err.message);
+                return null;
+            }
+        });
+    }
+
     /**
      * Get ISRCs for a recording MBID.
      * Returns the first ISRC or null.
@@ -8,6 +8,7 @@ export type NotificationType =
     | "download_failed"
     | "playlist_ready"
     | "import_complete"
+    | "playlist_invite"
     | "error";
 
 export interface CreateNotificationParams {
@@ -236,6 +237,25 @@ class NotificationService {
         });
     }
 
+    /**
+     * Notify user that someone invited them to collaborate on a playlist
+     */
+    async notifyPlaylistInvite(
+        userId: string,
+        playlistName: string,
+        playlistId: string,
+        ownerName: string,
+        role: string
+    ) {
+        return this.create({
+            userId,
+            type: "playlist_invite",
+            title: "Playlist Invite",
+            message: `${ownerName} invited you to "${playlistName}" as ${role === "editor" ? "an editor" : "a viewer"}`,
+            metadata: { playlistId, playlistName, role },
+        });
+    }
+
     /**
      * System notification (cache cleared, sync complete, etc.)
      */
@@ -0,0 +1,91 @@
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+import { UserFacingError } from "../utils/errors";
+
+export interface OpmlFeed {
+    feedUrl: string;
+    title?: string;
+    htmlUrl?: string;
+}
+
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    // Titles like "1" or "true" must stay strings
+    parseAttributeValue: false,
+    isArray: (name) => name === "outline",
+});
+
+const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    suppressEmptyNode: true,
+    format: true,
+});
+
+/**
+ * Reads podcast feeds from an OPML subscription list.
+ *
+ * Apps nest feeds under category outlines to any depth, so every outline
+ * with an xmlUrl is collected regardless of where it sits. Feeds listed
+ * twice are returned once, keeping the first entry's title.
+ */
+export function parseOpml(content: string): OpmlFeed[] {
+    let doc: any;
+    try {
+        doc = parser.parse(content);
+    } catch {
+        throw new UserFacingError("File is not valid OPML", 400, "INVALID_INPUT");
+    }
+    if (!doc?.opml) {
+        throw new UserFacingError("File is not valid OPML", 400, "INVALID_INPUT");
+    }
+
+    const feeds: OpmlFeed[] = [];
+    const seen = new Set<string>();
+
+    const visit = (outlines: any[] | undefined) => {
+        for (const outline of outlines ?? []) {
+            if (typeof outline !== "object" || outline === null) continue;
+
+            const feedUrl = String(outline["@_xmlUrl"] ?? outline["@_xmlurl"] ?? "").trim();
+            if (feedUrl && !seen.has(feedUrl)) {
+                seen.add(feedUrl);
+                const title = outline["@_title"] ?? outline["@_text"];
+                feeds.push({
+                    feedUrl,
+                    ...(title ? { title: String(title) } : {}),
+                    ...(outline["@_htmlUrl"] ? { htmlUrl: String(outline["@_htmlUrl"]) } : {}),
+                });
+            }
+            visit(outline.outline);
+        }
+    };
+    visit(doc.opml.body?.outline);
+
+    return feeds;
+}
+
+/**
+ * Writes an OPML 2.0 subscription list that podcast apps can import.
+ */
+export function buildOpml(title: string, feeds: OpmlFeed[], createdAt = new Date()): string {
+    return builder.build({
+        "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+        opml: {
+            "@_version": "2.0",
+            head: {
+                title,
+                dateCreated: createdAt.toUTCString(),
+            },
+            body: {
+                outline: feeds.map((feed) => ({
+                    "@_type": "rss",
+                    "@_text": feed.title ?? feed.feedUrl,
+                    "@_title": feed.title ?? feed.feedUrl,
+                    "@_xmlUrl": feed.feedUrl,
+                    ...(feed.htmlUrl ? { "@_htmlUrl": feed.htmlUrl } : {}),
+                })),
+            },
+        },
+    });
+}
@@ -0,0 +1,69 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { eventBus } from "./eventBus";
+
+export const COLLABORATOR_ROLES = ["editor", "viewer"] as const;
+
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
+export type PlaylistRole = "owner" | CollaboratorRole;
+
+/**
+ * Playlists another user can see: their own, public ones and those they
+ * accepted an invite to
+ */
+export function visiblePlaylistsWhere(userId: string): Prisma.PlaylistWhereInput {
+    return {
+        OR: [
+            { userId },
+            { isPublic: true },
+            { collaborators: { some: { userId, status: "accepted" } } },
+        ],
+    };
+}
+
+export function canEditItems(role: PlaylistRole | null): boolean {
+    return role === "owner" || role === "editor";
+}
+
+/**
+ * The user's role on a playlist, or null when they're neither the owner nor
+ * an accepted collaborator (public playlists are readable by anyone, but
+ * reading doesn't make someone a member).
+ */
+export async function getPlaylistRole(
+    playlist: { id: string; userId: string },
+    userId: string
+): Promise<PlaylistRole | null> {
+    if (playlist.userId === userId) return "owner";
+
+    const collaborator = await prisma.playlistCollaborator.findUnique({
+        where: { playlistId_userId: { playlistId: playlist.id, userId } },
+    });
+    if (!collaborator || collaborator.status !== "accepted") return null;
+    return collaborator.role as CollaboratorRole;
+}
+
+/**
+ * Tell the owner and every accepted collaborator that a playlist changed,
+ * so open playlist pages refetch
+ */
+export async function emitPlaylistChange(playlistId: string, change: string): Promise<void> {
+    try {
+        const playlist = await prisma.playlist.findUnique({
+            where: { id: playlistId },
+            select: {
+                userId: true,
+                collaborators: { where: { status: "accepted" }, select: { userId: true } },
+            },
+        });
+        if (!playlist) return;
+
+        const userIds = new Set([playlist.userId, ...playlist.collaborators.map((c) => c.userId)]);
+        for (const userId of userIds) {
+            eventBus.emit({ type: "playlist:updated", userId, payload: { playlistId, change } });
+        }
+    } catch (error) {
+        logger.error(`[PLAYLIST] Failed to broadcast change to ${playlistId}:`, error);
+    }
+}
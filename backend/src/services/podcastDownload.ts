@@ -196,6 +196,19 @@ async function performDownload(
         const existingCached = await validateCachedFile(episodeId);
         if (existingCached) {
             logger.debug(`[PODCAST-DL] Episode ${episodeId} already cached, skipping download`);
+            // Another user's download: record it for this user too so it counts
+            // towards their storage and their retention rules
+            const stats = await fs.stat(existingCached);
+            await prisma.podcastDownload.upsert({
+                where: { userId_episodeId: { userId, episodeId } },
+                create: {
+                    userId,
+                    episodeId,
+                    localPath: existingCached,
+                    fileSizeMb: stats.size / 1024 / 1024,
+                },
+                update: { lastAccessedAt: new Date() },
+            });
             return;
         }
         
@@ -381,9 +394,32 @@ async function performDownload(
     }
 }
 
+/**
+ * Remove one user's download of an episode. The cached file is shared by
+ * every user who downloaded the episode, so it is only deleted once no other
+ * download record points at it.
+ */
+export async function removeDownload(download: {
+    id: string;
+    episodeId: string;
+    localPath: string;
+}): Promise<void> {
+    await prisma.podcastDownload.delete({ where: { id: download.id } });
+
+    const remaining = await prisma.podcastDownload.count({
+        where: { episodeId: download.episodeId },
+    });
+    if (remaining === 0) {
+        await fs.unlink(download.localPath).catch(() => {});
+    }
+}
+
 /**
  * Clean up cached episodes older than 30 days
  * Should be called periodically (e.g., daily)
+ *
+ * Downloads from subscriptions with auto-download on are left alone: their
+ * podcast's retention rules decide when they go.
  */
 export async function cleanupExpiredCache(): Promise<{ deleted: number; freedMb: number }> {
     logger.debug('[PODCAST-DL] Starting cache cleanup...');
@@ -392,24 +428,29 @@ export async function cleanupExpiredCache(): Promise<{ deleted: number; freedMb:
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
     // Find expired downloads
-    const expiredDownloads = await prisma.podcastDownload.findMany({
-        where: {
-            lastAccessedAt: { lt: thirtyDaysAgo }
-        }
-    });
+    const [candidates, managed] = await Promise.all([
+        prisma.podcastDownload.findMany({
+            where: {
+                lastAccessedAt: { lt: thirtyDaysAgo }
+            },
+            include: { episode: { select: { podcastId: true } } },
+        }),
+        prisma.podcastSubscription.findMany({
+            where: { autoDownload: true },
+            select: { userId: true, podcastId: true },
+        }),
+    ]);
+    const managedKeys = new Set(managed.map((s) => `${s.userId}:${s.podcastId}`));
+    const expiredDownloads = candidates.filter(
+        (d) => !managedKeys.has(`${d.userId}:${d.episode.podcastId}`)
+    );
     
     let deleted = 0;
     let freedMb = 0;
     
     for (const download of expiredDownloads) {
         try {
-            // Delete file from disk
-            await fs.unlink(download.localPath).catch(() => {});
-            
-            // Delete database record
-            await prisma.podcastDownload.delete({
-                where: { id: download.id }
-            });
+            await removeDownload(download);
             
             deleted++;
             freedMb += download.fileSizeMb;
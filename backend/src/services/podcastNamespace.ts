@@ -0,0 +1,284 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { getUntrustedUrl } from "../utils/safeFetch";
+import { APP_VERSION } from "../config";
+
+export interface PodcastChapter {
+    startTime: number;
+    endTime?: number;
+    title: string;
+    img?: string;
+    url?: string;
+}
+
+export interface TranscriptSegment {
+    startTime: number;
+    endTime: number;
+    speaker?: string;
+    text: string;
+}
+
+// Chapter files and transcripts of multi-hour shows stay well under this
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Word-level JSON transcripts are merged into segments about this long
+const MAX_MERGED_SEGMENT_SECONDS = 15;
+
+/**
+ * Reads a Podcasting 2.0 JSON chapters file. Chapters marked toc=false are
+ * silent markers (e.g. artwork changes) and are left out.
+ */
+export function parseChaptersJson(data: unknown): PodcastChapter[] {
+    const raw = (data as any)?.chapters;
+    if (!Array.isArray(raw)) return [];
+
+    const chapters: PodcastChapter[] = [];
+    for (const chapter of raw) {
+        const startTime = Number(chapter?.startTime);
+        if (!Number.isFinite(startTime) || chapter.toc === false) continue;
+        const endTime = Number(chapter.endTime);
+        chapters.push({
+            startTime,
+            ...(Number.isFinite(endTime) ? { endTime } : {}),
+            title: typeof chapter.title === "string" ? chapter.title : "",
+            ...(typeof chapter.img === "string" ? { img: chapter.img } : {}),
+            ...(typeof chapter.url === "string" ? { url: chapter.url } : {}),
+        });
+    }
+    return chapters.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Parses "HH:MM:SS.mmm", "MM:SS.mmm" or the SRT "HH:MM:SS,mmm" form
+ */
+function parseTimestamp(value: string): number {
+    const parts = value.trim().replace(",", ".").split(":").map(Number);
+    if (parts.some((p) => !Number.isFinite(p))) return NaN;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Parses WebVTT and SRT cue files, which differ only in their header and
+ * timestamp separator. Speaker names come from WebVTT voice tags.
+ */
+function parseCues(content: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    const blocks = content.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split("\n");
+        const timingIndex = lines.findIndex((line) => line.includes("-->"));
+        if (timingIndex === -1) continue;
+
+        const [start, end] = lines[timingIndex].split("-->");
+        const startTime = parseTimestamp(start);
+        // Cue settings ("align:start") follow the end timestamp
+        const endTime = parseTimestamp(end.trim().split(/\s+/)[0]);
+        if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) continue;
+
+        const raw = lines.slice(timingIndex + 1).join(" ");
+        const speaker = raw.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/)?.[1]?.trim();
+        const text = raw.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+        if (!text) continue;
+
+        segments.push({ startTime, endTime, ...(speaker ? { speaker } : {}), text });
+    }
+    return segments;
+}
+
+/**
+ * Reads a Podcasting 2.0 JSON transcript. These are often word-level, so
+ * consecutive segments from one speaker are merged into sentence-sized
+ * segments for display and search.
+ */
+function parseJsonTranscript(data: unknown): TranscriptSegment[] {
+    const raw = (data as any)?.segments;
+    if (!Array.isArray(raw)) return [];
+
+    const segments: TranscriptSegment[] = [];
+    let current: TranscriptSegment | null = null;
+
+    for (const segment of raw) {
+        const startTime = Number(segment?.startTime);
+        const endTime = Number(segment?.endTime);
+        const text = typeof segment?.body === "string" ? segment.body.trim() : "";
+        if (!Number.isFinite(startTime) || !text) continue;
+        const speaker = typeof segment.speaker === "string" ? segment.speaker : undefined;
+
+        const continues =
+            current &&
+            current.speaker === speaker &&
+            !/[.?!]$/.test(current.text) &&
+            startTime - current.startTime < MAX_MERGED_SEGMENT_SECONDS;
+
+        if (current && continues) {
+            current.text += ` ${text}`;
+            current.endTime = Number.isFinite(endTime) ? endTime : current.endTime;
+            continue;
+        }
+
+        current = {
+            startTime,
+            endTime: Number.isFinite(endTime) ? endTime : startTime,
+            ...(speaker ? { speaker } : {}),
+            text,
+        };
+        segments.push(current);
+    }
+    return segments;
+}
+
+export function parseTranscript(content: string, type: string): TranscriptSegment[] {
+    if (type === "application/json") {
+        try {
+            return parseJsonTranscript(JSON.parse(content));
+        } catch {
+            return [];
+        }
+    }
+    return parseCues(content);
+}
+
+/**
+ * Fetches and caches the documents Podcasting 2.0 feeds link to instead of
+ * embedding: chapter files and transcripts.
+ *
+ * Chapters are stored on the episode; transcripts are stored as segments
+ * with a search vector so episode search can find the moment a phrase is
+ * said. Each document is fetched once -- a failed fetch is not retried
+ * until the feed points the episode at a new URL.
+ */
+class PodcastNamespaceService {
+    async getChapters(episodeId: string): Promise<PodcastChapter[]> {
+        const episode = await prisma.podcastEpisode.findUnique({
+            where: { id: episodeId },
+            select: { id: true, chaptersUrl: true, chapters: true, chaptersFetchedAt: true },
+        });
+        if (!episode?.chaptersUrl) return [];
+        if (episode.chaptersFetchedAt) {
+            return (episode.chapters as unknown as PodcastChapter[] | null) ?? [];
+        }
+        return this.cacheChapters(episode.id, episode.chaptersUrl);
+    }
+
+    async getTranscript(episodeId: string): Promise<TranscriptSegment[]> {
+        const episode = await prisma.podcastEpisode.findUnique({
+            where: { id: episodeId },
+            select: { id: true, transcriptUrl: true, transcriptType: true, transcriptFetchedAt: true },
+        });
+        if (!episode?.transcriptUrl) return [];
+        if (!episode.transcriptFetchedAt) {
+            await this.cacheTranscript(episode.id, episode.transcriptUrl, episode.transcriptType);
+        }
+
+        const segments = await prisma.podcastTranscriptSegment.findMany({
+            where: { episodeId },
+            orderBy: { startTime: "asc" },
+            select: { startTime: true, endTime: true, speaker: true, text: true },
+        });
+        return segments.map((s) => ({
+            startTime: s.startTime,
+            endTime: s.endTime,
+            ...(s.speaker ? { speaker: s.speaker } : {}),
+            text: s.text,
+        }));
+    }
+
+    /**
+     * Caches chapters and transcripts for a podcast's newest episodes that
+     * have not been fetched yet. Runs after each feed refresh, so a large
+     * back catalogue is worked through a batch at a time.
+     */
+    async cachePodcast(podcastId: string, limit = 10): Promise<number> {
+        const episodes = await prisma.podcastEpisode.findMany({
+            where: {
+                podcastId,
+                OR: [
+                    { chaptersUrl: { not: null }, chaptersFetchedAt: null },
+                    { transcriptUrl: { not: null }, transcriptFetchedAt: null },
+                ],
+            },
+            orderBy: { publishedAt: "desc" },
+            take: limit,
+            select: {
+                id: true,
+                chaptersUrl: true,
+                chaptersFetchedAt: true,
+                transcriptUrl: true,
+                transcriptType: true,
+                transcriptFetchedAt: true,
+            },
+        });
+
+        for (const episode of episodes) {
+            if (episode.chaptersUrl && !episode.chaptersFetchedAt) {
+                await this.cacheChapters(episode.id, episode.chaptersUrl);
+            }
+            if (episode.transcriptUrl && !episode.transcriptFetchedAt) {
+                await this.cacheTranscript(episode.id, episode.transcriptUrl, episode.transcriptType);
+            }
+        }
+        return episodes.length;
+    }
+
+    private async cacheChapters(episodeId: string, url: string): Promise<PodcastChapter[]> {
+        let chapters: PodcastChapter[] = [];
+        try {
+            chapters = parseChaptersJson(JSON.parse(await this.fetchDocument(url)));
+        } catch (error: any) {
+            logger.warn(`[Podcasts] Failed to fetch chapters for episode ${episodeId}: ${error.message}`);
+        }
+
+        await prisma.podcastEpisode.update({
+            where: { id: episodeId },
+            data: {
+                chapters: chapters.length > 0
+                    ? (chapters as unknown as Prisma.InputJsonValue)
+                    : Prisma.DbNull,
+                chaptersFetchedAt: new Date(),
+            },
+        });
+        return chapters;
+    }
+
+    private async cacheTranscript(episodeId: string, url: string, type: string | null): Promise<void> {
+        let segments: TranscriptSegment[] = [];
+        try {
+            segments = parseTranscript(await this.fetchDocument(url), type ?? "text/vtt");
+        } catch (error: any) {
+            logger.warn(`[Podcasts] Failed to fetch transcript for episode ${episodeId}: ${error.message}`);
+        }
+
+        await prisma.$transaction([
+            prisma.podcastTranscriptSegment.deleteMany({ where: { episodeId } }),
+            prisma.podcastTranscriptSegment.createMany({
+                data: segments.map((s) => ({
+                    episodeId,
+                    startTime: s.startTime,
+                    endTime: s.endTime,
+                    speaker: s.speaker ?? null,
+                    text: s.text,
+                })),
+            }),
+            prisma.podcastEpisode.update({
+                where: { id: episodeId },
+                data: { transcriptFetchedAt: new Date() },
+            }),
+        ]);
+    }
+
+    private async fetchDocument(url: string): Promise<string> {
+        const response = await getUntrustedUrl(url, {
+            headers: {
+                "User-Agent": `Kima/${APP_VERSION} (+https://github.com/Chevron7Locked/kima-hub; podcast aggregator)`,
+            },
+            timeout: 30000,
+            maxContentLength: MAX_DOCUMENT_BYTES,
+            responseType: "text",
+        });
+        return typeof response.data === "string" ? response.data : String(response.data);
+    }
+}
+
+export const podcastNamespaceService = new PodcastNamespaceService();
@@ -0,0 +1,402 @@
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { UserFacingError } from "../utils/errors";
+import { downloadInBackground, removeDownload } from "./podcastDownload";
+
+export interface DownloadRules {
+    autoDownload: boolean;
+    keepLatest: number | null;
+    deletePlayedAfterDays: number | null;
+    maxStorageMb: number | null;
+}
+
+export interface PlanEpisode {
+    id: string;
+    publishedAt: Date;
+    /** Size of the download, or an estimate when it has not been downloaded */
+    sizeMb: number;
+    /** When the user finished the episode, if they have */
+    finishedAt: Date | null;
+    /** The user's download of this episode, if there is one */
+    downloadId: string | null;
+}
+
+export interface PlanInput {
+    rules: DownloadRules;
+    /** Episodes of the podcast, newest first */
+    episodes: PlanEpisode[];
+    subscribedAt: Date;
+    /** Room left under the user's storage limit (Infinity when unlimited) */
+    userFreeMb: number;
+    now: Date;
+}
+
+export interface DownloadPlan {
+    /** Download records to delete */
+    remove: string[];
+    /** Episodes to download, newest first */
+    download: string[];
+}
+
+export interface PodcastStorageUsage {
+    podcastId: string;
+    title: string;
+    coverUrl: string | null;
+    subscribed: boolean;
+    usedMb: number;
+    downloadedEpisodes: number;
+    rules: DownloadRules | null;
+}
+
+export interface StorageUsage {
+    usedMb: number;
+    limitMb: number | null;
+    podcasts: PodcastStorageUsage[];
+}
+
+// Feeds rarely give sizes for unreleased files; 128 kbps is a typical podcast bitrate
+const ESTIMATED_MB_PER_SECOND = 128 / 8 / 1024;
+
+// Downloads started per subscription per refresh; later refreshes pick up the rest
+const MAX_DOWNLOADS_PER_RUN = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RULE_FIELDS = {
+    autoDownload: true,
+    keepLatest: true,
+    deletePlayedAfterDays: true,
+    maxStorageMb: true,
+} as const;
+
+function hasRules(rules: DownloadRules): boolean {
+    return (
+        rules.autoDownload ||
+        rules.keepLatest !== null ||
+        rules.deletePlayedAfterDays !== null ||
+        rules.maxStorageMb !== null
+    );
+}
+
+/**
+ * Decides which of a user's downloads of one podcast to delete and which
+ * episodes to download next.
+ *
+ * Downloads outside the newest `keepLatest` episodes and episodes finished
+ * more than `deletePlayedAfterDays` ago are deleted first. The rest are kept
+ * newest first until `maxStorageMb` is reached. With auto-download on, the
+ * newest `keepLatest` episodes (or, without that rule, every episode
+ * published since the user subscribed) are downloaded newest first, skipping
+ * finished ones and stopping at the first that would not fit in the podcast
+ * or user limit.
+ */
+export function planDownloads(input: PlanInput): DownloadPlan {
+    const { rules, episodes, subscribedAt, now } = input;
+    const keep =
+        rules.keepLatest !== null
+            ? new Set(episodes.slice(0, rules.keepLatest).map((e) => e.id))
+            : null;
+    const playedCutoff =
+        rules.deletePlayedAfterDays !== null
+            ? now.getTime() - rules.deletePlayedAfterDays * DAY_MS
+            : null;
+
+    const remove: string[] = [];
+    let freedMb = 0;
+    let podcastUsedMb = 0;
+
+    for (const episode of episodes) {
+        if (!episode.downloadId) continue;
+
+        const outsideKeep = keep !== null && !keep.has(episode.id);
+        const playedLongAgo =
+            playedCutoff !== null &&
+            episode.finishedAt !== null &&
+            episode.finishedAt.getTime() <= playedCutoff;
+        const overPodcastLimit =
+            rules.maxStorageMb !== null && podcastUsedMb + episode.sizeMb > rules.maxStorageMb;
+
+        if (outsideKeep || playedLongAgo || overPodcastLimit) {
+            remove.push(episode.downloadId);
+            freedMb += episode.sizeMb;
+        } else {
+            podcastUsedMb += episode.sizeMb;
+        }
+    }
+
+    const download: string[] = [];
+    if (rules.autoDownload) {
+        let userFreeMb = input.userFreeMb + freedMb;
+        const candidates = keep
+            ? episodes.filter((e) => keep.has(e.id))
+            : episodes.filter((e) => e.publishedAt >= subscribedAt);
+
+        for (const episode of candidates) {
+            if (episode.downloadId || episode.finishedAt) continue;
+            if (rules.maxStorageMb !== null && podcastUsedMb + episode.sizeMb > rules.maxStorageMb) break;
+            if (episode.sizeMb > userFreeMb) break;
+
+            download.push(episode.id);
+            podcastUsedMb += episode.sizeMb;
+            userFreeMb -= episode.sizeMb;
+        }
+    }
+
+    return { remove, download };
+}
+
+/**
+ * Per-subscription download rules: auto-download new episodes, keep only the
+ * newest N downloaded, delete played episodes after X days and cap the
+ * storage one podcast may use. A per-user limit (UserSettings) caps all of a
+ * user's podcast downloads together.
+ *
+ * Rules are applied by the podcast refresh worker after each feed refresh,
+ * and straight away when a user changes them.
+ */
+class PodcastRetentionService {
+    async getRules(userId: string, podcastId: string): Promise<DownloadRules> {
+        const subscription = await prisma.podcastSubscription.findUnique({
+            where: { userId_podcastId: { userId, podcastId } },
+            select: RULE_FIELDS,
+        });
+        if (!subscription) {
+            throw new UserFacingError("Not subscribed to this podcast", 404, "NOT_FOUND");
+        }
+        return subscription;
+    }
+
+    async updateRules(
+        userId: string,
+        podcastId: string,
+        updates: Partial<DownloadRules>
+    ): Promise<DownloadRules> {
+        await this.getRules(userId, podcastId);
+
+        const rules = await prisma.podcastSubscription.update({
+            where: { userId_podcastId: { userId, podcastId } },
+            data: updates,
+            select: RULE_FIELDS,
+        });
+
+        await this.applyForSubscription(userId, podcastId);
+        await this.enforceUserLimit(userId);
+        return rules;
+    }
+
+    /**
+     * Applies every subscriber's rules for a podcast. Called after each feed
+     * refresh so new episodes are downloaded and old ones expire.
+     */
+    async applyRules(podcastId: string): Promise<void> {
+        const subscriptions = await prisma.podcastSubscription.findMany({
+            where: {
+                podcastId,
+                OR: [
+                    { autoDownload: true },
+                    { keepLatest: { not: null } },
+                    { deletePlayedAfterDays: { not: null } },
+                    { maxStorageMb: { not: null } },
+                ],
+            },
+            select: { userId: true },
+        });
+
+        for (const { userId } of subscriptions) {
+            try {
+                await this.applyForSubscription(userId, podcastId);
+                await this.enforceUserLimit(userId);
+            } catch (error: any) {
+                logger.error(
+                    `[PODCAST-DL] Failed to apply download rules for user ${userId}, podcast ${podcastId}: ${error.message}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Deletes the user's least recently played downloads until they are back
+     * under their storage limit. Needed when the limit is lowered, or when
+     * streamed episodes were cached past it.
+     */
+    async enforceUserLimit(userId: string): Promise<number> {
+        const settings = await prisma.userSettings.findUnique({
+            where: { userId },
+            select: { podcastStorageLimitMb: true },
+        });
+        const limitMb = settings?.podcastStorageLimitMb;
+        if (limitMb == null) return 0;
+
+        const downloads = await prisma.podcastDownload.findMany({
+            where: { userId },
+            orderBy: { lastAccessedAt: "asc" },
+            select: { id: true, episodeId: true, localPath: true, fileSizeMb: true },
+        });
+        let usedMb = downloads.reduce((sum, d) => sum + d.fileSizeMb, 0);
+
+        let removed = 0;
+        for (const download of downloads) {
+            if (usedMb <= limitMb) break;
+            await removeDownload(download);
+            usedMb -= download.fileSizeMb;
+            removed++;
+        }
+
+        if (removed > 0) {
+            logger.info(`[PODCAST-DL] Removed ${removed} downloads to keep user ${userId} under ${limitMb}MB`);
+        }
+        return removed;
+    }
+
+    async getStorageUsage(userId: string): Promise<StorageUsage> {
+        const [settings, subscriptions, downloads] = await Promise.all([
+            prisma.userSettings.findUnique({
+                where: { userId },
+                select: { podcastStorageLimitMb: true },
+            }),
+            prisma.podcastSubscription.findMany({
+                where: { userId },
+                select: {
+                    ...RULE_FIELDS,
+                    podcast: {
+                        select: { id: true, title: true, imageUrl: true, localCoverPath: true },
+                    },
+                },
+            }),
+            prisma.podcastDownload.findMany({
+                where: { userId },
+                select: {
+                    fileSizeMb: true,
+                    episode: {
+                        select: {
+                            podcast: {
+                                select: { id: true, title: true, imageUrl: true, localCoverPath: true },
+                            },
+                        },
+                    },
+                },
+            }),
+        ]);
+
+        const usage = new Map<string, PodcastStorageUsage>();
+        const entryFor = (podcast: {
+            id: string;
+            title: string;
+            imageUrl: string | null;
+            localCoverPath: string | null;
+        }) => {
+            let entry = usage.get(podcast.id);
+            if (!entry) {
+                entry = {
+                    podcastId: podcast.id,
+                    title: podcast.title,
+                    coverUrl: podcast.localCoverPath ? `/podcasts/${podcast.id}/cover` : podcast.imageUrl,
+                    subscribed: false,
+                    usedMb: 0,
+                    downloadedEpisodes: 0,
+                    rules: null,
+                };
+                usage.set(podcast.id, entry);
+            }
+            return entry;
+        };
+
+        for (const { podcast, ...rules } of subscriptions) {
+            const entry = entryFor(podcast);
+            entry.subscribed = true;
+            entry.rules = rules;
+        }
+        for (const download of downloads) {
+            const entry = entryFor(download.episode.podcast);
+            entry.usedMb += download.fileSizeMb;
+            entry.downloadedEpisodes++;
+        }
+
+        const podcasts = [...usage.values()].sort(
+            (a, b) => b.usedMb - a.usedMb || a.title.localeCompare(b.title)
+        );
+        return {
+            usedMb: podcasts.reduce((sum, p) => sum + p.usedMb, 0),
+            limitMb: settings?.podcastStorageLimitMb ?? null,
+            podcasts,
+        };
+    }
+
+    private async applyForSubscription(userId: string, podcastId: string): Promise<void> {
+        const subscription = await prisma.podcastSubscription.findUnique({
+            where: { userId_podcastId: { userId, podcastId } },
+            select: { ...RULE_FIELDS, subscribedAt: true },
+        });
+        if (!subscription) return;
+        const { subscribedAt, ...rules } = subscription;
+        if (!hasRules(rules)) return;
+
+        const [episodes, downloads, finished, settings, total] = await Promise.all([
+            prisma.podcastEpisode.findMany({
+                where: { podcastId },
+                orderBy: { publishedAt: "desc" },
+                select: { id: true, audioUrl: true, publishedAt: true, duration: true, fileSize: true },
+            }),
+            prisma.podcastDownload.findMany({
+                where: { userId, episode: { podcastId } },
+                select: { id: true, episodeId: true, localPath: true, fileSizeMb: true },
+            }),
+            prisma.podcastProgress.findMany({
+                where: { userId, isFinished: true, episode: { podcastId } },
+                select: { episodeId: true, lastPlayedAt: true },
+            }),
+            prisma.userSettings.findUnique({
+                where: { userId },
+                select: { podcastStorageLimitMb: true },
+            }),
+            prisma.podcastDownload.aggregate({
+                where: { userId },
+                _sum: { fileSizeMb: true },
+            }),
+        ]);
+
+        const downloadByEpisode = new Map(downloads.map((d) => [d.episodeId, d]));
+        const finishedAt = new Map(finished.map((p) => [p.episodeId, p.lastPlayedAt]));
+        const limitMb = settings?.podcastStorageLimitMb;
+
+        const plan = planDownloads({
+            rules,
+            subscribedAt,
+            now: new Date(),
+            userFreeMb: limitMb == null ? Infinity : limitMb - (total._sum.fileSizeMb ?? 0),
+            episodes: episodes.map((episode) => {
+                const download = downloadByEpisode.get(episode.id);
+                return {
+                    id: episode.id,
+                    publishedAt: episode.publishedAt,
+                    sizeMb:
+                        download?.fileSizeMb ??
+                        (episode.fileSize
+                            ? episode.fileSize / 1024 / 1024
+                            : episode.duration * ESTIMATED_MB_PER_SECOND),
+                    finishedAt: finishedAt.get(episode.id) ?? null,
+                    downloadId: download?.id ?? null,
+                };
+            }),
+        });
+
+        const downloadsById = new Map(downloads.map((d) => [d.id, d]));
+        for (const id of plan.remove) {
+            await removeDownload(downloadsById.get(id)!);
+        }
+
+        const audioUrls = new Map(episodes.map((e) => [e.id, e.audioUrl]));
+        for (const episodeId of plan.download.slice(0, MAX_DOWNLOADS_PER_RUN)) {
+            downloadInBackground(episodeId, audioUrls.get(episodeId)!, userId);
+        }
+
+        if (plan.remove.length > 0 || plan.download.length > 0) {
+            logger.debug(
+                `[PODCAST-DL] Rules for user ${userId}, podcast ${podcastId}: ` +
+                    `removed ${plan.remove.length}, downloading ${Math.min(plan.download.length, MAX_DOWNLOADS_PER_RUN)}`
+            );
+        }
+    }
+}
+
+export const podcastRetentionService = new PodcastRetentionService();
@@ -0,0 +1,247 @@
+import axios from "axios";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { validateUrlForFetch } from "../utils/ssrf";
+import { UserFacingError } from "../utils/errors";
+import { chunkArray } from "../utils/async";
+import { rssParserService, toJson } from "./rss-parser";
+import { buildOpml, OpmlFeed } from "./opml";
+
+export interface SubscribeResult {
+    podcast: { id: string; title: string };
+    alreadySubscribed: boolean;
+}
+
+export type OpmlFeedStatus = "subscribed" | "already_subscribed" | "failed";
+
+export interface OpmlFeedResult {
+    feedUrl: string;
+    title?: string;
+    status: OpmlFeedStatus;
+    podcastId?: string;
+    error?: string;
+}
+
+export interface OpmlImportProgress {
+    total: number;
+    processed: number;
+    subscribed: number;
+    alreadySubscribed: number;
+    failed: number;
+}
+
+export interface OpmlImportResult extends OpmlImportProgress {
+    feeds: OpmlFeedResult[];
+}
+
+// Feeds fetched in parallel during an OPML import
+const IMPORT_CONCURRENCY = 5;
+
+/**
+ * Podcast subscriptions by feed URL, shared by the subscribe endpoint and
+ * OPML import/export.
+ *
+ * Feeds already in the catalogue (subscribed to by another user) are reused
+ * without refetching; new feeds are SSRF-checked, parsed and stored with
+ * their episodes before the subscription is created.
+ */
+class PodcastSubscriptionService {
+    async subscribe(userId: string, feedUrl?: string, itunesId?: string): Promise<SubscribeResult> {
+        let finalFeedUrl = feedUrl;
+
+        // If only iTunes ID provided, fetch feed URL from iTunes API
+        if (!finalFeedUrl && itunesId) {
+            logger.debug(`    Looking up feed URL from iTunes...`);
+            const itunesResponse = await axios.get("https://itunes.apple.com/lookup", {
+                params: { id: itunesId, entity: "podcast" },
+            });
+
+            if (
+                itunesResponse.data.resultCount === 0 ||
+                !itunesResponse.data.results[0].feedUrl
+            ) {
+                throw new UserFacingError("Podcast not found in iTunes", 404, "NOT_FOUND");
+            }
+
+            finalFeedUrl = itunesResponse.data.results[0].feedUrl as string;
+            logger.debug(`   Found feed URL: ${finalFeedUrl}`);
+        }
+        if (!finalFeedUrl) {
+            throw new UserFacingError("feedUrl or itunesId is required", 400, "INVALID_INPUT");
+        }
+
+        // SSRF validation: block internal/private addresses
+        const ssrfError = await validateUrlForFetch(finalFeedUrl);
+        if (ssrfError) {
+            throw new UserFacingError(`Invalid feed URL: ${ssrfError}`, 400, "INVALID_URL");
+        }
+
+        // Check if podcast already exists in database
+        let podcast = await prisma.podcast.findUnique({
+            where: { feedUrl: finalFeedUrl },
+        });
+
+        if (podcast) {
+            logger.debug(`   Podcast exists in database: ${podcast.title}`);
+        } else {
+            podcast = await this.createPodcast(finalFeedUrl, itunesId);
+        }
+
+        const existingSubscription = await prisma.podcastSubscription.findUnique({
+            where: { userId_podcastId: { userId, podcastId: podcast.id } },
+        });
+        if (!existingSubscription) {
+            await prisma.podcastSubscription.create({
+                data: { userId, podcastId: podcast.id },
+            });
+            logger.debug(`   User subscribed successfully`);
+        }
+
+        return {
+            podcast: { id: podcast.id, title: podcast.title },
+            alreadySubscribed: !!existingSubscription,
+        };
+    }
+
+    /**
+     * Subscribes to every feed in an OPML file. A feed that fails to fetch or
+     * validate is reported and skipped; it never aborts the rest.
+     */
+    async importFeeds(
+        userId: string,
+        feeds: OpmlFeed[],
+        onProgress?: (progress: OpmlImportProgress) => Promise<void> | void
+    ): Promise<OpmlImportResult> {
+        const progress: OpmlImportProgress = {
+            total: feeds.length,
+            processed: 0,
+            subscribed: 0,
+            alreadySubscribed: 0,
+            failed: 0,
+        };
+        const results: OpmlFeedResult[] = [];
+
+        for (const batch of chunkArray(feeds, IMPORT_CONCURRENCY)) {
+            const settled = await Promise.allSettled(
+                batch.map((feed) => this.subscribe(userId, feed.feedUrl))
+            );
+
+            settled.forEach((outcome, i) => {
+                const feed = batch[i];
+                if (outcome.status === "fulfilled") {
+                    const { podcast, alreadySubscribed } = outcome.value;
+                    if (alreadySubscribed) progress.alreadySubscribed++;
+                    else progress.subscribed++;
+                    results.push({
+                        feedUrl: feed.feedUrl,
+                        title: podcast.title,
+                        status: alreadySubscribed ? "already_subscribed" : "subscribed",
+                        podcastId: podcast.id,
+                    });
+                } else {
+                    progress.failed++;
+                    const reason = outcome.reason;
+                    results.push({
+                        feedUrl: feed.feedUrl,
+                        title: feed.title,
+                        status: "failed",
+                        error: reason instanceof Error ? reason.message : String(reason),
+                    });
+                }
+            });
+
+            progress.processed += batch.length;
+            await onProgress?.({ ...progress });
+        }
+
+        logger.info(
+            `[Podcasts] OPML import for user ${userId}: ${progress.subscribed} subscribed, ` +
+                `${progress.alreadySubscribed} already subscribed, ${progress.failed} failed`
+        );
+        return { ...progress, feeds: results };
+    }
+
+    async exportOpml(userId: string): Promise<string> {
+        const subscriptions = await prisma.podcastSubscription.findMany({
+            where: { userId },
+            include: { podcast: { select: { title: true, feedUrl: true } } },
+            orderBy: { podcast: { title: "asc" } },
+        });
+
+        return buildOpml(
+            "Kima podcast subscriptions",
+            subscriptions.map((s) => ({ feedUrl: s.podcast.feedUrl, title: s.podcast.title }))
+        );
+    }
+
+    private async createPodcast(feedUrl: string, itunesId?: string) {
+        // Parse RSS feed to get podcast and episodes
+        logger.debug(`   Parsing RSS feed...`);
+        const feed = await rssParserService.parseFeed(feedUrl);
+        if (feed.notModified) {
+            throw new Error("Unexpected 304 on initial subscribe");
+        }
+        const { podcast: podcastData, episodes } = feed;
+
+        const finalItunesId = itunesId || podcastData.itunesId;
+        let podcast;
+        try {
+            podcast = await prisma.podcast.create({
+                data: {
+                    feedUrl,
+                    title: podcastData.title,
+                    author: podcastData.author,
+                    description: podcastData.description,
+                    imageUrl: podcastData.imageUrl,
+                    itunesId: finalItunesId,
+                    language: podcastData.language,
+                    explicit: podcastData.explicit || false,
+                    episodeCount: episodes.length,
+                    feedEtag: feed.etag || null,
+                    feedLastModified: feed.lastModified || null,
+                    persons: toJson(podcastData.persons),
+                    funding: toJson(podcastData.funding),
+                },
+            });
+        } catch (error) {
+            // Another subscriber added the same feed while this one was being fetched
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+                const existing = await prisma.podcast.findUnique({ where: { feedUrl } });
+                if (existing) return existing;
+            }
+            throw error;
+        }
+
+        logger.debug(`   Podcast created: ${podcast.id}`);
+
+        // Save episodes
+        await prisma.podcastEpisode.createMany({
+            data: episodes.map((ep) => ({
+                podcastId: podcast.id,
+                guid: ep.guid,
+                title: ep.title,
+                description: ep.description,
+                audioUrl: ep.audioUrl,
+                duration: ep.duration,
+                publishedAt: ep.publishedAt,
+                episodeNumber: ep.episodeNumber,
+                season: ep.season,
+                imageUrl: ep.imageUrl,
+                fileSize: ep.fileSize,
+                mimeType: ep.mimeType,
+                chaptersUrl: ep.chaptersUrl,
+                transcriptUrl: ep.transcriptUrl,
+                transcriptType: ep.transcriptType,
+                persons: toJson(ep.persons),
+                funding: toJson(ep.funding),
+            })),
+            skipDuplicates: true,
+        });
+
+        logger.debug(`    Saved ${episodes.length} episodes`);
+        return podcast;
+    }
+}
+
+export const podcastSubscriptionService = new PodcastSubscriptionService();
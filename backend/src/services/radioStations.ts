@@ -0,0 +1,76 @@
+import { RadioStation } from "@prisma/client";
+import { prisma } from "../utils/db";
+import { validateUrlForFetch } from "../utils/ssrf";
+import { UserFacingError } from "../utils/errors";
+
+export interface RadioStationInput {
+    name: string;
+    streamUrl: string;
+    homepageUrl?: string | null;
+}
+
+/**
+ * Server-wide internet radio catalogue, shared by the web player and
+ * Subsonic clients (get/create/update/deleteInternetRadioStation).
+ *
+ * Stream URLs are fetched server-side by the web player's proxy, so both
+ * URLs go through the SSRF check on every write.
+ */
+class RadioStationService {
+    async list(): Promise<RadioStation[]> {
+        return prisma.radioStation.findMany({ orderBy: { name: "asc" } });
+    }
+
+    async get(id: string): Promise<RadioStation | null> {
+        return prisma.radioStation.findUnique({ where: { id } });
+    }
+
+    async create(userId: string, input: RadioStationInput): Promise<RadioStation> {
+        const data = await this.validate(input);
+        return prisma.radioStation.create({ data: { ...data, createdBy: userId } });
+    }
+
+    /**
+     * Returns null when the station does not exist
+     */
+    async update(id: string, input: RadioStationInput): Promise<RadioStation | null> {
+        const existing = await this.get(id);
+        if (!existing) return null;
+
+        const data = await this.validate(input);
+        return prisma.radioStation.update({ where: { id }, data });
+    }
+
+    /**
+     * Returns false when the station does not exist
+     */
+    async delete(id: string): Promise<boolean> {
+        const { count } = await prisma.radioStation.deleteMany({ where: { id } });
+        return count > 0;
+    }
+
+    private async validate(input: RadioStationInput) {
+        const name = input.name.trim();
+        if (!name) {
+            throw new UserFacingError("Station name is required", 400, "INVALID_INPUT");
+        }
+
+        const streamUrl = input.streamUrl.trim();
+        const streamError = await validateUrlForFetch(streamUrl);
+        if (streamError) {
+            throw new UserFacingError(`Invalid stream URL: ${streamError}`, 400, "INVALID_URL");
+        }
+
+        const homepageUrl = input.homepageUrl?.trim() || null;
+        if (homepageUrl) {
+            const homepageError = await validateUrlForFetch(homepageUrl);
+            if (homepageError) {
+                throw new UserFacingError(`Invalid homepage URL: ${homepageError}`, 400, "INVALID_URL");
+            }
+        }
+
+        return { name, streamUrl, homepageUrl };
+    }
+}
+
+export const radioStationService = new RadioStationService();
@@ -29,6 +29,7 @@ interface ServiceConfig {
     coverart: RateLimitConfig;
     lrclib: RateLimitConfig;
     songlink: RateLimitConfig;
+    listenbrainz: RateLimitConfig;
 }
 
 // Service-specific rate limit configurations
@@ -82,6 +83,13 @@ const SERVICE_CONFIGS: ServiceConfig = {
         maxRetries: 2,
         baseDelay: 1000,
     },
+    listenbrainz: {
+        intervalCap: 2, // ListenBrainz allows ~30 requests per 10s per token
+        interval: 1000,
+        concurrency: 2,
+        maxRetries: 3,
+        baseDelay: 2000,
+    },
 };
 
 type ServiceName = keyof ServiceConfig;
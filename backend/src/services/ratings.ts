@@ -0,0 +1,225 @@
+import { prisma } from "../utils/db";
+
+export type RatableType = "track" | "album" | "artist";
+
+export interface Annotation {
+    starredAt?: Date;
+    /** 1-5; absent when unrated */
+    rating?: number;
+}
+
+export const MAX_RATING = 5;
+
+export function isValidRating(rating: number): boolean {
+    return Number.isInteger(rating) && rating >= 0 && rating <= MAX_RATING;
+}
+
+/**
+ * Per-user stars and 1-5 ratings for tracks, albums and artists.
+ *
+ * Starring and rating are independent: a starred track is a LikedTrack (the
+ * same "liked" state mixes and the web UI already use), while ratings live in
+ * their own tables so rating something never stars it and vice versa.
+ */
+class RatingService {
+    /**
+     * Subsonic ids are bare cuids, so an id may be a track, an album or an artist
+     */
+    async resolveType(id: string): Promise<RatableType | null> {
+        const track = await prisma.track.findUnique({ where: { id }, select: { id: true } });
+        if (track) return "track";
+        const album = await prisma.album.findUnique({ where: { id }, select: { id: true } });
+        if (album) return "album";
+        const artist = await prisma.artist.findUnique({ where: { id }, select: { id: true } });
+        if (artist) return "artist";
+        return null;
+    }
+
+    async star(userId: string, type: RatableType, id: string): Promise<void> {
+        switch (type) {
+            case "track":
+                await prisma.likedTrack.upsert({
+                    where: { userId_trackId: { userId, trackId: id } },
+                    create: { userId, trackId: id },
+                    update: {},
+                });
+                return;
+            case "album":
+                await prisma.starredAlbum.upsert({
+                    where: { userId_albumId: { userId, albumId: id } },
+                    create: { userId, albumId: id },
+                    update: {},
+                });
+                return;
+            case "artist":
+                await prisma.starredArtist.upsert({
+                    where: { userId_artistId: { userId, artistId: id } },
+                    create: { userId, artistId: id },
+                    update: {},
+                });
+                return;
+        }
+    }
+
+    async unstar(userId: string, type: RatableType, ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        switch (type) {
+            case "track":
+                await prisma.likedTrack.deleteMany({ where: { userId, trackId: { in: ids } } });
+                return;
+            case "album":
+                await prisma.starredAlbum.deleteMany({ where: { userId, albumId: { in: ids } } });
+                return;
+            case "artist":
+                await prisma.starredArtist.deleteMany({ where: { userId, artistId: { in: ids } } });
+                return;
+        }
+    }
+
+    /**
+     * Set a 1-5 rating; 0 clears it
+     */
+    async setRating(userId: string, type: RatableType, id: string, rating: number): Promise<void> {
+        if (!isValidRating(rating)) {
+            throw new Error(`Invalid rating: ${rating}`);
+        }
+
+        switch (type) {
+            case "track":
+                if (rating === 0) {
+                    await prisma.trackRating.deleteMany({ where: { userId, trackId: id } });
+                } else {
+                    await prisma.trackRating.upsert({
+                        where: { userId_trackId: { userId, trackId: id } },
+                        create: { userId, trackId: id, rating },
+                        update: { rating, ratedAt: new Date() },
+                    });
+                }
+                return;
+            case "album":
+                if (rating === 0) {
+                    await prisma.albumRating.deleteMany({ where: { userId, albumId: id } });
+                } else {
+                    await prisma.albumRating.upsert({
+                        where: { userId_albumId: { userId, albumId: id } },
+                        create: { userId, albumId: id, rating },
+                        update: { rating, ratedAt: new Date() },
+                    });
+                }
+                return;
+            case "artist":
+                if (rating === 0) {
+                    await prisma.artistRating.deleteMany({ where: { userId, artistId: id } });
+                } else {
+                    await prisma.artistRating.upsert({
+                        where: { userId_artistId: { userId, artistId: id } },
+                        create: { userId, artistId: id, rating },
+                        update: { rating, ratedAt: new Date() },
+                    });
+                }
+                return;
+        }
+    }
+
+    /**
+     * Star and rating state for a batch of entities, keyed by id. Entities
+     * that are neither starred nor rated are absent from the map.
+     */
+    async getAnnotations(
+        userId: string,
+        type: RatableType,
+        ids: string[]
+    ): Promise<Map<string, Annotation>> {
+        const result = new Map<string, Annotation>();
+        const unique = [...new Set(ids)];
+        if (unique.length === 0) return result;
+
+        const add = (id: string, patch: Annotation) => {
+            result.set(id, { ...result.get(id), ...patch });
+        };
+
+        switch (type) {
+            case "track": {
+                const [stars, ratings] = await Promise.all([
+                    prisma.likedTrack.findMany({
+                        where: { userId, trackId: { in: unique } },
+                        select: { trackId: true, likedAt: true },
+                    }),
+                    prisma.trackRating.findMany({
+                        where: { userId, trackId: { in: unique } },
+                        select: { trackId: true, rating: true },
+                    }),
+                ]);
+                stars.forEach((s) => add(s.trackId, { starredAt: s.likedAt }));
+                ratings.forEach((r) => add(r.trackId, { rating: r.rating }));
+                break;
+            }
+            case "album": {
+                const [stars, ratings] = await Promise.all([
+                    prisma.starredAlbum.findMany({
+                        where: { userId, albumId: { in: unique } },
+                        select: { albumId: true, starredAt: true },
+                    }),
+                    prisma.albumRating.findMany({
+                        where: { userId, albumId: { in: unique } },
+                        select: { albumId: true, rating: true },
+                    }),
+                ]);
+                stars.forEach((s) => add(s.albumId, { starredAt: s.starredAt }));
+                ratings.forEach((r) => add(r.albumId, { rating: r.rating }));
+                break;
+            }
+            case "artist": {
+                const [stars, ratings] = await Promise.all([
+                    prisma.starredArtist.findMany({
+                        where: { userId, artistId: { in: unique } },
+                        select: { artistId: true, starredAt: true },
+                    }),
+                    prisma.artistRating.findMany({
+                        where: { userId, artistId: { in: unique } },
+                        select: { artistId: true, rating: true },
+                    }),
+                ]);
+                stars.forEach((s) => add(s.artistId, { starredAt: s.starredAt }));
+                ratings.forEach((r) => add(r.artistId, { rating: r.rating }));
+                break;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Tracks the user rates at least `minRating`, either directly or through
+     * their album. A track's own rating always wins, so a 2-star track on a
+     * 5-star album is excluded.
+     */
+    async getHighlyRatedTrackIds(userId: string, minRating = 4): Promise<string[]> {
+        const [trackRatings, albumRatings] = await Promise.all([
+            prisma.trackRating.findMany({
+                where: { userId },
+                select: { trackId: true, rating: true },
+            }),
+            prisma.albumRating.findMany({
+                where: { userId, rating: { gte: minRating } },
+                select: { albumId: true },
+            }),
+        ]);
+
+        const ratedTrackIds = new Set(trackRatings.map((r) => r.trackId));
+        const ids = trackRatings.filter((r) => r.rating >= minRating).map((r) => r.trackId);
+
+        if (albumRatings.length > 0) {
+            const albumTracks = await prisma.track.findMany({
+                where: { albumId: { in: albumRatings.map((r) => r.albumId) } },
+                select: { id: true },
+            });
+            for (const track of albumTracks) {
+                if (!ratedTrackIds.has(track.id)) ids.push(track.id);
+            }
+        }
+
+        return ids;
+    }
+}
+
+export const ratingService = new RatingService();
@@ -0,0 +1,126 @@
+import type { ICommonTagsResult } from "music-metadata";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+
+/** ReplayGain 2.0 reference level: gain = REFERENCE - integrated loudness */
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+export type ReplayGainSource = "tags" | "r128";
+
+export interface ReplayGainInfo {
+    trackGain: number | null;
+    trackPeak: number | null;
+    albumGain: number | null;
+    albumPeak: number | null;
+}
+
+function finite(value: number | undefined): number | null {
+    return value !== undefined && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * REPLAYGAIN_* tags as parsed by music-metadata. Gains are in dB, peaks are
+ * linear sample amplitudes (1.0 = full scale).
+ */
+export function readReplayGainTags(common: ICommonTagsResult): ReplayGainInfo {
+    return {
+        trackGain: finite(common.replaygain_track_gain?.dB),
+        trackPeak: finite(common.replaygain_track_peak?.ratio),
+        albumGain: finite(common.replaygain_album_gain?.dB),
+        albumPeak: finite(common.replaygain_album_peak?.ratio),
+    };
+}
+
+/**
+ * Track and album gain for playback. Gains come from file tags when the
+ * scanner found them, otherwise from the audio analyzer's EBU R128 pass.
+ */
+class ReplayGainService {
+    async getForTrack(trackId: string): Promise<ReplayGainInfo | null> {
+        const track = await prisma.track.findUnique({
+            where: { id: trackId },
+            select: {
+                replayGainTrackGain: true,
+                replayGainTrackPeak: true,
+                album: {
+                    select: { replayGainAlbumGain: true, replayGainAlbumPeak: true },
+                },
+            },
+        });
+        if (!track) return null;
+
+        return {
+            trackGain: track.replayGainTrackGain,
+            trackPeak: track.replayGainTrackPeak,
+            albumGain: track.album.replayGainAlbumGain,
+            albumPeak: track.album.replayGainAlbumPeak,
+        };
+    }
+
+    /**
+     * Derive album gain from measured track gains once every track on the
+     * album has one. Album loudness is the duration-weighted power mean of
+     * the track loudnesses, which matches measuring the album as one
+     * programme closely enough for playback. Albums with tagged gain are
+     * left alone.
+     */
+    async deriveAlbumGain(albumId: string): Promise<boolean> {
+        const album = await prisma.album.findUnique({
+            where: { id: albumId },
+            select: {
+                replayGainSource: true,
+                tracks: {
+                    select: {
+                        duration: true,
+                        replayGainTrackGain: true,
+                        replayGainTrackPeak: true,
+                    },
+                },
+            },
+        });
+        if (!album || album.replayGainSource === "tags" || album.tracks.length === 0) {
+            return false;
+        }
+        if (album.tracks.some((t) => t.replayGainTrackGain === null)) {
+            return false;
+        }
+
+        let weightedPower = 0;
+        let totalWeight = 0;
+        let peak: number | null = null;
+        for (const track of album.tracks) {
+            const weight = Math.max(track.duration, 1);
+            const loudness = REPLAYGAIN_REFERENCE_LUFS - track.replayGainTrackGain!;
+            weightedPower += weight * Math.pow(10, loudness / 10);
+            totalWeight += weight;
+            if (track.replayGainTrackPeak !== null) {
+                peak = Math.max(peak ?? 0, track.replayGainTrackPeak);
+            }
+        }
+        const albumLoudness = 10 * Math.log10(weightedPower / totalWeight);
+        const albumGain = Math.round((REPLAYGAIN_REFERENCE_LUFS - albumLoudness) * 100) / 100;
+
+        await prisma.album.update({
+            where: { id: albumId },
+            data: {
+                replayGainAlbumGain: albumGain,
+                replayGainAlbumPeak: peak,
+                replayGainSource: "r128",
+            },
+        });
+        logger.debug(`[ReplayGain] Album ${albumId}: ${albumGain} dB from ${album.tracks.length} tracks`);
+        return true;
+    }
+
+    async deriveAlbumGainForTrack(trackId: string): Promise<void> {
+        const track = await prisma.track.findUnique({
+            where: { id: trackId },
+            select: { albumId: true },
+        });
+        if (track) {
+            await this.deriveAlbumGain(track.albumId);
+        }
+    }
+}
+
+export const replayGainService = new ReplayGainService();
@@ -1,8 +1,24 @@
 import Parser from "rss-parser";
 import axios from "axios";
+import { Prisma } from "@prisma/client";
 import { logger } from "../utils/logger";
 import { APP_VERSION } from "../config";
 
+/** podcast:person -- a host, guest or other contributor */
+export interface PodcastPerson {
+    name: string;
+    role: string;
+    group: string;
+    img?: string;
+    href?: string;
+}
+
+/** podcast:funding -- a donation or membership link */
+export interface PodcastFunding {
+    url: string;
+    title: string;
+}
+
 interface RSSPodcast {
     title: string;
     author?: string;
@@ -11,6 +27,8 @@ interface RSSPodcast {
     language?: string;
     explicit?: boolean;
     itunesId?: string;
+    persons?: PodcastPerson[];
+    funding?: PodcastFunding[];
 }
 
 interface RSSEpisode {
@@ -25,8 +43,47 @@ interface RSSEpisode {
     imageUrl?: string;
     fileSize?: number; // bytes
     mimeType?: string;
+    chaptersUrl?: string;
+    transcriptUrl?: string;
+    transcriptType?: string;
+    persons?: PodcastPerson[];
+    funding?: PodcastFunding[];
+}
+
+/**
+ * Prisma value for an optional namespace tag list; absent lists stay NULL
+ */
+export function toJson(value?: PodcastPerson[] | PodcastFunding[]): Prisma.InputJsonValue | undefined {
+    return value ? (value as unknown as Prisma.InputJsonValue) : undefined;
 }
 
+// Key order isn't kept by jsonb, so objects are compared with sorted keys
+function canonicalJson(value: unknown): string {
+    return JSON.stringify(value ?? null, (_key, v) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+            : v
+    );
+}
+
+/**
+ * Whether a namespace tag list read back from the database matches the one
+ * parsed from the feed
+ */
+export function sameJson(stored: Prisma.JsonValue | null, value?: PodcastPerson[] | PodcastFunding[]): boolean {
+    return canonicalJson(stored) === canonicalJson(value);
+}
+
+// Transcript formats with timings, best first. HTML and plain text
+// transcripts have no timestamps and are ignored.
+const TRANSCRIPT_TYPES = [
+    "application/json",
+    "text/vtt",
+    "application/x-subrip",
+    "application/srt",
+    "text/srt",
+];
+
 interface ParsedPodcastFeed {
     podcast: RSSPodcast;
     episodes: RSSEpisode[];
@@ -60,6 +117,8 @@ class RSSParserService {
                     ["itunes:image", "itunesImage"] as any,
                     ["itunes:explicit", "itunesExplicit"] as any,
                     ["itunes:type", "itunesType"] as any,
+                    ["podcast:person", "podcastPersons", { keepArray: true }] as any,
+                    ["podcast:funding", "podcastFunding", { keepArray: true }] as any,
                 ],
                 item: [
                     ["itunes:author", "itunesAuthor"] as any,
@@ -68,6 +127,10 @@ class RSSParserService {
                     ["itunes:episode", "itunesEpisode"] as any,
                     ["itunes:season", "itunesSeason"] as any,
                     ["itunes:explicit", "itunesExplicit"] as any,
+                    ["podcast:chapters", "podcastChapters"] as any,
+                    ["podcast:transcript", "podcastTranscripts", { keepArray: true }] as any,
+                    ["podcast:person", "podcastPersons", { keepArray: true }] as any,
+                    ["podcast:funding", "podcastFunding", { keepArray: true }] as any,
                 ],
             },
         });
@@ -120,6 +183,8 @@ class RSSParserService {
                 language: feed.language || undefined,
                 explicit: this.parseExplicit((feed as any).itunesExplicit),
                 itunesId: this.extractItunesId(feed),
+                persons: this.extractPersons((feed as any).podcastPersons),
+                funding: this.extractFunding((feed as any).podcastFunding),
             };
 
             logger.debug(`   Podcast: ${podcast.title}`);
@@ -139,6 +204,10 @@ class RSSParserService {
                             return null;
                         }
 
+                        const transcript = this.selectTranscript(
+                            (item as any).podcastTranscripts
+                        );
+
                         const episode: RSSEpisode = {
                             guid: item.guid || item.link || item.title || "",
                             title: item.title || "Unknown Episode",
@@ -167,6 +236,11 @@ class RSSParserService {
                                 ? parseInt(audioEnclosure.length)
                                 : undefined,
                             mimeType: audioEnclosure.type || "audio/mpeg",
+                            chaptersUrl: (item as any).podcastChapters?.$?.url,
+                            transcriptUrl: transcript?.url,
+                            transcriptType: transcript?.type,
+                            persons: this.extractPersons((item as any).podcastPersons),
+                            funding: this.extractFunding((item as any).podcastFunding),
                         };
 
                         return episode;
@@ -228,6 +302,61 @@ class RSSParserService {
         return undefined;
     }
 
+    /**
+     * Read podcast:person tags. The element text is the name; role and
+     * group default to "host" and "cast" per the namespace spec.
+     */
+    private extractPersons(tags?: any[]): PodcastPerson[] | undefined {
+        if (!Array.isArray(tags)) return undefined;
+
+        const persons: PodcastPerson[] = [];
+        for (const tag of tags) {
+            const name = (typeof tag === "string" ? tag : tag?._)?.trim();
+            if (!name) continue;
+            const attrs = tag.$ ?? {};
+            persons.push({
+                name,
+                role: (attrs.role || "host").toLowerCase(),
+                group: (attrs.group || "cast").toLowerCase(),
+                ...(attrs.img ? { img: attrs.img } : {}),
+                ...(attrs.href ? { href: attrs.href } : {}),
+            });
+        }
+        return persons.length > 0 ? persons : undefined;
+    }
+
+    /**
+     * Read podcast:funding tags; the element text is the link label
+     */
+    private extractFunding(tags?: any[]): PodcastFunding[] | undefined {
+        if (!Array.isArray(tags)) return undefined;
+
+        const funding: PodcastFunding[] = [];
+        for (const tag of tags) {
+            const url = tag?.$?.url;
+            if (!url) continue;
+            funding.push({ url, title: (tag._ || "Support").trim() });
+        }
+        return funding.length > 0 ? funding : undefined;
+    }
+
+    /**
+     * Pick the transcript with the most useful timing format
+     */
+    private selectTranscript(tags?: any[]): { url: string; type: string } | undefined {
+        if (!Array.isArray(tags)) return undefined;
+
+        let best: { url: string; type: string; rank: number } | undefined;
+        for (const tag of tags) {
+            const url = tag?.$?.url;
+            const type = tag?.$?.type?.toLowerCase();
+            const rank = TRANSCRIPT_TYPES.indexOf(type);
+            if (!url || rank === -1) continue;
+            if (!best || rank < best.rank) best = { url, type, rank };
+        }
+        return best ? { url: best.url, type: best.type } : undefined;
+    }
+
     /**
      * Find audio enclosure in episode
      */
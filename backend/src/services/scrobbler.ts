@@ -0,0 +1,230 @@
+import { UnrecoverableError } from "bullmq";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { decrypt } from "../utils/encryption";
+import { scrobbleQueue } from "../workers/queues";
+import { lastFmService, LastFmApiError, LastFmScrobbleTrack } from "./lastfm";
+import { listenBrainzService, ListenBrainzApiError } from "./listenbrainz";
+
+export type ScrobbleProvider = "lastfm" | "listenbrainz";
+
+interface ScrobbleTrack extends LastFmScrobbleTrack {
+    isrc?: string;
+}
+
+export interface ScrobbleJobData {
+    provider: ScrobbleProvider;
+    kind: "scrobble" | "nowPlaying";
+    userId: string;
+    trackId: string;
+    /** ISO timestamp of when the listen started (scrobbles only) */
+    playedAt?: string;
+}
+
+// Last.fm ignores listens of tracks shorter than 30 seconds; ListenBrainz
+// has no minimum but we keep both services' histories consistent
+const MIN_SCROBBLE_DURATION_SEC = 30;
+
+/**
+ * Fans local listens out to the external services a user has linked.
+ *
+ * Plays are never submitted inline: every submission goes through the
+ * `scrobble` BullMQ queue so provider outages are retried with backoff
+ * instead of dropping the listen.
+ */
+class ScrobbleService {
+    private async getLinkedProviders(userId: string): Promise<ScrobbleProvider[]> {
+        const settings = await prisma.userSettings.findUnique({
+            where: { userId },
+            select: {
+                lastfmSessionKey: true,
+                lastfmScrobbling: true,
+                listenbrainzToken: true,
+                listenbrainzScrobbling: true,
+            },
+        });
+        if (!settings) return [];
+
+        const providers: ScrobbleProvider[] = [];
+        if (settings.lastfmSessionKey && settings.lastfmScrobbling) {
+            providers.push("lastfm");
+        }
+        if (settings.listenbrainzToken && settings.listenbrainzScrobbling) {
+            providers.push("listenbrainz");
+        }
+        return providers;
+    }
+
+    /**
+     * Queue a completed listen for every linked provider.
+     * Safe to call for users without linked accounts (no-op).
+     */
+    async queuePlay(userId: string, trackId: string, playedAt: Date): Promise<void> {
+        try {
+            const providers = await this.getLinkedProviders(userId);
+            for (const provider of providers) {
+                const data: ScrobbleJobData = {
+                    provider,
+                    kind: "scrobble",
+                    userId,
+                    trackId,
+                    playedAt: playedAt.toISOString(),
+                };
+                // Deterministic jobId: a client resubmitting the same listen doesn't double-scrobble
+                await scrobbleQueue.add("scrobble", data, {
+                    jobId: `${provider}-${userId}-${trackId}-${playedAt.getTime()}`,
+                });
+            }
+        } catch (error) {
+            logger.error(`[Scrobble] Failed to queue play for user ${userId}:`, error);
+        }
+    }
+
+    /**
+     * Queue a now-playing update. These are only meaningful for a few minutes,
+     * so they are attempted once and never retried.
+     */
+    async queueNowPlaying(userId: string, trackId: string): Promise<void> {
+        try {
+            const providers = await this.getLinkedProviders(userId);
+            for (const provider of providers) {
+                const data: ScrobbleJobData = { provider, kind: "nowPlaying", userId, trackId };
+                await scrobbleQueue.add("now-playing", data, {
+                    attempts: 1,
+                    removeOnComplete: true,
+                    removeOnFail: true,
+                });
+            }
+        } catch (error) {
+            logger.error(`[Scrobble] Failed to queue now-playing for user ${userId}:`, error);
+        }
+    }
+
+    private async loadTrack(trackId: string): Promise<ScrobbleTrack | null> {
+        const track = await prisma.track.findUnique({
+            where: { id: trackId },
+            include: {
+                album: {
+                    include: { artist: { select: { name: true, displayName: true } } },
+                },
+            },
+        });
+        if (!track) return null;
+
+        const artistName = track.album.artist.displayName || track.album.artist.name;
+        return {
+            artist: artistName,
+            track: track.displayTitle || track.title,
+            album: track.album.displayTitle || track.album.title,
+            albumArtist: artistName,
+            trackNumber: track.displayTrackNo ?? track.trackNo ?? undefined,
+            duration: track.duration || undefined,
+            isrc: track.isrc || undefined,
+        };
+    }
+
+    /**
+     * Worker entrypoint. Throws to let BullMQ retry transient failures;
+     * throws UnrecoverableError for failures a retry can't fix.
+     */
+    async submit(data: ScrobbleJobData): Promise<void> {
+        const track = await this.loadTrack(data.trackId);
+        if (!track) {
+            logger.debug(`[Scrobble] Track ${data.trackId} no longer exists, dropping ${data.kind}`);
+            return;
+        }
+
+        if (data.kind === "scrobble" && (track.duration ?? 0) < MIN_SCROBBLE_DURATION_SEC) {
+            return;
+        }
+
+        switch (data.provider) {
+            case "lastfm":
+                return this.submitLastFm(data, track);
+            case "listenbrainz":
+                return this.submitListenBrainz(data, track);
+        }
+    }
+
+    private async submitLastFm(data: ScrobbleJobData, track: ScrobbleTrack): Promise<void> {
+        const settings = await prisma.userSettings.findUnique({
+            where: { userId: data.userId },
+            select: { lastfmSessionKey: true, lastfmScrobbling: true },
+        });
+        // Account unlinked (or scrobbling paused) since the job was queued
+        if (!settings?.lastfmSessionKey || !settings.lastfmScrobbling) return;
+
+        const sessionKey = decrypt(settings.lastfmSessionKey);
+
+        try {
+            if (data.kind === "nowPlaying") {
+                await lastFmService.updateNowPlaying(sessionKey, track);
+            } else {
+                await lastFmService.scrobble(sessionKey, track, new Date(data.playedAt!));
+            }
+        } catch (error) {
+            if (!(error instanceof LastFmApiError) || error.isTransient) {
+                throw error;
+            }
+
+            // 9 = invalid session key: the user revoked access on last.fm
+            if (error.code === 9) {
+                logger.warn(`[Scrobble] Last.fm session for user ${data.userId} revoked, unlinking`);
+                await prisma.userSettings.update({
+                    where: { userId: data.userId },
+                    data: { lastfmSessionKey: null, lastfmUsername: null },
+                });
+            }
+            throw new UnrecoverableError(`Last.fm error ${error.code}: ${error.message}`);
+        }
+    }
+
+    private async submitListenBrainz(data: ScrobbleJobData, track: ScrobbleTrack): Promise<void> {
+        const settings = await prisma.userSettings.findUnique({
+            where: { userId: data.userId },
+            select: { listenbrainzToken: true, listenbrainzScrobbling: true },
+        });
+        if (!settings?.listenbrainzToken || !settings.listenbrainzScrobbling) return;
+
+        const token = decrypt(settings.listenbrainzToken);
+        const listen = {
+            ...(data.kind === "scrobble"
+                ? { listened_at: Math.floor(new Date(data.playedAt!).getTime() / 1000) }
+                : {}),
+            track_metadata: {
+                artist_name: track.artist,
+                track_name: track.track,
+                release_name: track.album,
+                additional_info: {
+                    duration_ms: track.duration ? track.duration * 1000 : undefined,
+                    tracknumber: track.trackNumber,
+                    isrc: track.isrc,
+                },
+            },
+        };
+
+        try {
+            await listenBrainzService.submitListens(
+                token,
+                data.kind === "nowPlaying" ? "playing_now" : "single",
+                [listen]
+            );
+        } catch (error) {
+            if (!(error instanceof ListenBrainzApiError) || error.isTransient) {
+                throw error;
+            }
+
+            // 401 = token was reset on listenbrainz.org
+            if (error.status === 401) {
+                logger.warn(`[Scrobble] ListenBrainz token for user ${data.userId} rejected, unlinking`);
+                await prisma.userSettings.update({
+                    where: { userId: data.userId },
+                    data: { listenbrainzToken: null, listenbrainzUsername: null },
+                });
+            }
+            throw new UnrecoverableError(`ListenBrainz error ${error.status}: ${error.message}`);
+        }
+    }
+}
+
+export const scrobbleService = new ScrobbleService();
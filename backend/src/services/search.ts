@@ -62,6 +62,9 @@ export interface EpisodeSearchResult {
     duration: number;
     audioUrl: string;
     rank: number;
+    /** Where the query is said, when it matched the transcript */
+    transcriptTime?: number | null;
+    transcriptText?: string | null;
 }
 
 export interface AudiobookSearchResult {
@@ -301,10 +304,17 @@ export class SearchService {
     }: SearchOptions): Promise<TrackSearchResult[]> {
         const results = await prisma.track.findMany({
             where: {
-                title: {
-                    contains: query,
-                    mode: "insensitive",
-                },
+                OR: [
+                    { title: { contains: query, mode: "insensitive" } },
+                    {
+                        credits: {
+                            some: {
+                                role: { in: ["primary", "featured"] },
+                                artist: { name: { contains: query, mode: "insensitive" } },
+                            },
+                        },
+                    },
+                ],
             },
             select: {
                 id: true,
@@ -371,6 +381,15 @@ export class SearchService {
         LEFT JOIN "Album" a ON t."albumId" = a.id
         LEFT JOIN "Artist" ar ON a."artistId" = ar.id
         WHERE t."searchVector" @@ to_tsquery('english', ${tsquery})
+           -- Tracks filed under another album artist that this artist is credited on
+           OR EXISTS (
+             SELECT 1 FROM "TrackArtist" ta
+             JOIN "Artist" ca ON ca.id = ta."artistId"
+             WHERE ta."trackId" = t.id
+               AND ta.role IN ('primary', 'featured')
+               AND ta."artistId" <> a."artistId"
+               AND ca."searchVector" @@ to_tsquery('english', ${tsquery})
+           )
         ORDER BY rank DESC, t.title ASC
         LIMIT ${limit}
         OFFSET ${offset}
@@ -445,6 +464,13 @@ export class SearchService {
                             mode: "insensitive",
                         },
                     },
+                    {
+                        transcriptSegments: {
+                            some: {
+                                text: { contains: query, mode: "insensitive" },
+                            },
+                        },
+                    },
                 ],
             },
             select: {
@@ -460,6 +486,12 @@ export class SearchService {
                         title: true,
                     },
                 },
+                transcriptSegments: {
+                    where: { text: { contains: query, mode: "insensitive" } },
+                    orderBy: { startTime: "asc" },
+                    take: 1,
+                    select: { startTime: true, text: true },
+                },
             },
             take: limit,
             skip: offset,
@@ -478,6 +510,8 @@ export class SearchService {
             duration: r.duration,
             audioUrl: r.audioUrl,
             rank: 0,
+            transcriptTime: r.transcriptSegments[0]?.startTime ?? null,
+            transcriptText: r.transcriptSegments[0]?.text ?? null,
         }));
     }
 
@@ -496,7 +530,19 @@ export class SearchService {
         }
 
         try {
+            // Transcript matches carry the best-matching segment so the
+            // episode can be played from the moment the phrase is said
             const results = await prisma.$queryRaw<EpisodeSearchResult[]>`
+        WITH transcript_hits AS (
+          SELECT DISTINCT ON (s."episodeId")
+            s."episodeId",
+            s."startTime",
+            s.text,
+            ts_rank(s."searchVector", to_tsquery('english', ${tsquery})) AS rank
+          FROM "PodcastTranscriptSegment" s
+          WHERE s."searchVector" @@ to_tsquery('english', ${tsquery})
+          ORDER BY s."episodeId", rank DESC, s."startTime"
+        )
         SELECT
           e.id,
           e.title,
@@ -506,10 +552,17 @@ export class SearchService {
           e.duration,
           e."audioUrl",
           p.title as "podcastTitle",
-          ts_rank(e."searchVector", to_tsquery('english', ${tsquery})) AS rank
+          GREATEST(
+            COALESCE(ts_rank(e."searchVector", to_tsquery('english', ${tsquery})), 0),
+            COALESCE(t.rank, 0) * 0.5
+          ) AS rank,
+          t."startTime" AS "transcriptTime",
+          t.text AS "transcriptText"
         FROM "PodcastEpisode" e
         LEFT JOIN "Podcast" p ON e."podcastId" = p.id
+        LEFT JOIN transcript_hits t ON t."episodeId" = e.id
         WHERE e."searchVector" @@ to_tsquery('english', ${tsquery})
+          OR t."episodeId" IS NOT NULL
         ORDER BY rank DESC, e."publishedAt" DESC
         LIMIT ${limit}
         OFFSET ${offset}
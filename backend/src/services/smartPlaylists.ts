@@ -0,0 +1,494 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import { shuffleArray } from "../utils/shuffle";
+import { MAX_RATING, isValidRating } from "./ratings";
+
+/**
+ * Smart playlists are ordinary Playlist rows carrying a rule set in
+ * `smartRules`. Evaluating the rules rewrites the playlist's items, so every
+ * reader (web UI, Subsonic, sharing) sees a normal track list; only editing
+ * the items by hand is refused.
+ */
+
+export const MAX_SMART_PLAYLIST_TRACKS = 5000;
+// Rules over plays and dates drift with time, so reads re-evaluate past this
+const SMART_PLAYLIST_MAX_AGE_MS = 15 * 60 * 1000;
+const MAX_RULE_DEPTH = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NUMBER_OPERATORS = ["is", "isNot", "gt", "lt", "inTheRange"] as const;
+const TEXT_OPERATORS = ["is", "isNot", "contains", "notContains"] as const;
+const DATE_OPERATORS = ["inTheLast", "notInTheLast", "before", "after"] as const;
+
+const SCORE_FIELDS = [
+    "bpm",
+    "energy",
+    "valence",
+    "arousal",
+    "danceability",
+    "moodHappy",
+    "moodSad",
+    "moodRelaxed",
+    "moodAggressive",
+    "moodParty",
+    "moodAcoustic",
+    "moodElectronic",
+] as const;
+
+const FIELD_OPERATORS: Record<string, readonly string[]> = {
+    genre: TEXT_OPERATORS,
+    artist: TEXT_OPERATORS,
+    key: ["is", "isNot"],
+    year: NUMBER_OPERATORS,
+    playCount: NUMBER_OPERATORS,
+    rating: NUMBER_OPERATORS,
+    ...Object.fromEntries(SCORE_FIELDS.map((field) => [field, NUMBER_OPERATORS])),
+    lastPlayed: DATE_OPERATORS,
+    dateAdded: DATE_OPERATORS,
+    liked: ["is"],
+};
+
+export const SMART_SORT_FIELDS = [
+    "title",
+    "artist",
+    "album",
+    "year",
+    "bpm",
+    "energy",
+    "valence",
+    "danceability",
+    "dateAdded",
+    "playCount",
+    "lastPlayed",
+    "rating",
+    "random",
+] as const;
+
+const conditionSchema = z
+    .object({
+        field: z.string().refine((field) => field in FIELD_OPERATORS, "Unknown field"),
+        operator: z.string(),
+        value: z.union([z.string(), z.number(), z.boolean(), z.tuple([z.number(), z.number()])]),
+    })
+    .superRefine((condition, ctx) => {
+        const operators = FIELD_OPERATORS[condition.field];
+        if (!operators) return;
+        if (!operators.includes(condition.operator)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["operator"],
+                message: `${condition.field} supports ${operators.join(", ")}`,
+            });
+            return;
+        }
+        const problem = valueProblem(condition.field, condition.operator, condition.value);
+        if (problem) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: problem });
+        }
+    });
+
+export type SmartCondition = z.infer<typeof conditionSchema>;
+
+// A type rather than an interface so a rule set is assignable to Prisma JSON
+export type SmartRuleGroup = {
+    match: "all" | "any";
+    conditions: Array<SmartCondition | SmartRuleGroup>;
+};
+
+const ruleGroupSchema: z.ZodType<SmartRuleGroup> = z.lazy(() =>
+    z.object({
+        match: z.enum(["all", "any"]),
+        conditions: z.array(z.union([ruleGroupSchema, conditionSchema])).max(50),
+    })
+);
+
+export const smartPlaylistSchema = z.object({
+    rules: ruleGroupSchema.refine(
+        (rules) => ruleDepth(rules) <= MAX_RULE_DEPTH,
+        `Rule groups can nest at most ${MAX_RULE_DEPTH} levels deep`
+    ),
+    sort: z
+        .object({
+            field: z.enum(SMART_SORT_FIELDS),
+            order: z.enum(["asc", "desc"]).default("asc"),
+        })
+        .optional(),
+    limit: z.number().int().min(1).max(MAX_SMART_PLAYLIST_TRACKS).optional(),
+});
+
+export type SmartPlaylistRules = z.infer<typeof smartPlaylistSchema>;
+
+/** The JSON file users import and export */
+export const smartPlaylistFileSchema = smartPlaylistSchema.extend({
+    version: z.literal(1).optional(),
+    name: z.string().min(1).max(200),
+});
+
+export type SmartPlaylistFile = z.infer<typeof smartPlaylistFileSchema>;
+
+function isGroup(rule: SmartCondition | SmartRuleGroup): rule is SmartRuleGroup {
+    return "conditions" in rule;
+}
+
+function ruleDepth(group: SmartRuleGroup): number {
+    return 1 + Math.max(0, ...group.conditions.filter(isGroup).map(ruleDepth));
+}
+
+function usesField(group: SmartRuleGroup, field: string): boolean {
+    return group.conditions.some((rule) =>
+        isGroup(rule) ? usesField(rule, field) : rule.field === field
+    );
+}
+
+function valueProblem(field: string, operator: string, value: SmartCondition["value"]): string | null {
+    if (field === "liked") {
+        return typeof value === "boolean" ? null : "liked takes true or false";
+    }
+    if (operator === "inTheRange") {
+        return Array.isArray(value) ? null : "inTheRange takes [min, max]";
+    }
+    if (operator === "inTheLast" || operator === "notInTheLast") {
+        return typeof value === "number" && Number.isInteger(value) && value > 0
+            ? null
+            : `${operator} takes a number of days`;
+    }
+    if (operator === "before" || operator === "after") {
+        return typeof value === "string" && !isNaN(Date.parse(value)) ? null : `${operator} takes a date`;
+    }
+    if (field === "key") {
+        return typeof value === "string" && parseKey(value) ? null : "key takes a key such as \"A minor\" or \"F#\"";
+    }
+    if (field === "genre" || field === "artist") {
+        return typeof value === "string" && value.trim() ? null : `${field} takes text`;
+    }
+    if (field === "rating") {
+        const stars = Array.isArray(value) ? value : [value];
+        return stars.every((n) => typeof n === "number" && isValidRating(n))
+            ? null
+            : `rating takes 0 to ${MAX_RATING} stars`;
+    }
+    return typeof value === "number" ? null : `${field} takes a number`;
+}
+
+/** "Am", "A minor", "F#" -> key and optional scale as stored by the analyzer */
+function parseKey(value: string): { key: string; scale?: "major" | "minor" } | null {
+    const match = value.trim().match(/^([A-Ga-g])([#b]?)\s*(m|min|minor|maj|major)?$/);
+    if (!match) return null;
+    const key = match[1].toUpperCase() + match[2];
+    if (!match[3]) return { key };
+    return { key, scale: match[3].startsWith("maj") ? "major" : "minor" };
+}
+
+/** Per-user play statistics the rules and sorts over plays need */
+export interface SmartPlayStats {
+    counts: Map<string, number>;
+    lastPlayed: Map<string, Date>;
+}
+
+export interface SmartRuleContext {
+    userId: string;
+    now: Date;
+    plays: SmartPlayStats;
+}
+
+function numberFilter(operator: string, value: SmartCondition["value"]) {
+    switch (operator) {
+        case "is":
+            return { equals: value as number };
+        case "isNot":
+            return { not: value as number };
+        case "gt":
+            return { gt: value as number };
+        case "lt":
+            return { lt: value as number };
+        default: {
+            const [min, max] = value as [number, number];
+            return { gte: Math.min(min, max), lte: Math.max(min, max) };
+        }
+    }
+}
+
+function numberMatches(operator: string, value: SmartCondition["value"], n: number): boolean {
+    switch (operator) {
+        case "is":
+            return n === value;
+        case "isNot":
+            return n !== value;
+        case "gt":
+            return n > (value as number);
+        case "lt":
+            return n < (value as number);
+        default: {
+            const [min, max] = value as [number, number];
+            return n >= Math.min(min, max) && n <= Math.max(min, max);
+        }
+    }
+}
+
+function textFilter(operator: string, value: string): Prisma.StringFilter {
+    return operator === "contains" || operator === "notContains"
+        ? { contains: value, mode: "insensitive" }
+        : { equals: value, mode: "insensitive" };
+}
+
+function dateCutoff(operator: string, value: SmartCondition["value"], now: Date): Date {
+    return operator === "inTheLast" || operator === "notInTheLast"
+        ? new Date(now.getTime() - (value as number) * DAY_MS)
+        : new Date(value as string);
+}
+
+function compileCondition(condition: SmartCondition, ctx: SmartRuleContext): Prisma.TrackWhereInput {
+    const { field, operator, value } = condition;
+    const negated = operator === "isNot" || operator === "notContains";
+
+    switch (field) {
+        case "genre": {
+            const name = textFilter(operator, value as string);
+            const match: Prisma.TrackWhereInput = {
+                OR: [
+                    { trackGenres: { some: { genre: { name } } } },
+                    // Last.fm tags are stored lowercased and only match whole
+                    ...(name.equals ? [{ lastfmTags: { has: (value as string).toLowerCase() } }] : []),
+                ],
+            };
+            return negated ? { NOT: match } : match;
+        }
+        case "artist": {
+            const name = textFilter(operator, value as string);
+            const match: Prisma.TrackWhereInput = {
+                album: { artist: { OR: [{ name }, { displayName: name }] } },
+            };
+            return negated ? { NOT: match } : match;
+        }
+        case "key": {
+            const parsed = parseKey(value as string)!;
+            const match: Prisma.TrackWhereInput = {
+                key: parsed.key,
+                ...(parsed.scale && { keyScale: { equals: parsed.scale, mode: "insensitive" } }),
+            };
+            return negated ? { NOT: match } : match;
+        }
+        case "year": {
+            // Same precedence as getEffectiveYear: user override, first release, file tag
+            const year = numberFilter(operator, value);
+            return {
+                album: {
+                    OR: [
+                        { displayYear: year },
+                        { displayYear: null, originalYear: year },
+                        { displayYear: null, originalYear: null, year },
+                    ],
+                },
+            };
+        }
+        case "playCount": {
+            // Never-played tracks have no Play rows, so a rule that holds for
+            // zero plays is phrased as "not one of the tracks it fails for"
+            const ids = [...ctx.plays.counts.entries()];
+            if (numberMatches(operator, value, 0)) {
+                return {
+                    id: { notIn: ids.filter(([, count]) => !numberMatches(operator, value, count)).map(([id]) => id) },
+                };
+            }
+            return { id: { in: ids.filter(([, count]) => numberMatches(operator, value, count)).map(([id]) => id) } };
+        }
+        case "rating": {
+            // Unrated tracks count as zero stars, so "less than 3" includes them
+            const stars = numberFilter(operator, value);
+            return numberMatches(operator, value, 0)
+                ? { ratings: { none: { userId: ctx.userId, NOT: { rating: stars } } } }
+                : { ratings: { some: { userId: ctx.userId, rating: stars } } };
+        }
+        case "lastPlayed": {
+            const cutoff = dateCutoff(operator, value, ctx.now);
+            const playedSince = { userId: ctx.userId, playedAt: { gte: cutoff } };
+            switch (operator) {
+                case "inTheLast":
+                case "after":
+                    return { plays: { some: playedSince } };
+                case "notInTheLast":
+                    return { plays: { none: playedSince } };
+                default:
+                    return { AND: [{ plays: { some: { userId: ctx.userId } } }, { plays: { none: playedSince } }] };
+            }
+        }
+        case "dateAdded": {
+            // Albums keep the lastSynced stamp from their first scan, which is
+            // what "newest" already sorts by
+            const cutoff = dateCutoff(operator, value, ctx.now);
+            const added = operator === "inTheLast" || operator === "after" ? { gte: cutoff } : { lt: cutoff };
+            return { album: { lastSynced: added } };
+        }
+        case "liked":
+            return value
+                ? { likedBy: { some: { userId: ctx.userId } } }
+                : { likedBy: { none: { userId: ctx.userId } } };
+        default:
+            return { [field]: numberFilter(operator, value) };
+    }
+}
+
+/**
+ * Translate a rule group into a track filter. Plays and ratings are per
+ * user, so rules over them read from the owner's statistics and stars.
+ */
+export function compileSmartRules(group: SmartRuleGroup, ctx: SmartRuleContext): Prisma.TrackWhereInput {
+    const compiled = group.conditions.map((rule) =>
+        isGroup(rule) ? compileSmartRules(rule, ctx) : compileCondition(rule, ctx)
+    );
+    if (compiled.length === 0) return {};
+    return group.match === "all" ? { AND: compiled } : { OR: compiled };
+}
+
+const DATABASE_SORTS: Partial<Record<(typeof SMART_SORT_FIELDS)[number], (order: Prisma.SortOrder) => Prisma.TrackOrderByWithRelationInput>> = {
+    title: (order) => ({ title: order }),
+    artist: (order) => ({ album: { artist: { name: order } } }),
+    album: (order) => ({ album: { title: order } }),
+    year: (order) => ({ album: { year: { sort: order, nulls: "last" } } }),
+    bpm: (order) => ({ bpm: { sort: order, nulls: "last" } }),
+    energy: (order) => ({ energy: { sort: order, nulls: "last" } }),
+    valence: (order) => ({ valence: { sort: order, nulls: "last" } }),
+    danceability: (order) => ({ danceability: { sort: order, nulls: "last" } }),
+    dateAdded: (order) => ({ album: { lastSynced: order } }),
+};
+
+class SmartPlaylistService {
+    private async getPlayStats(userId: string): Promise<SmartPlayStats> {
+        const rows = await prisma.play.groupBy({
+            by: ["trackId"],
+            where: { userId },
+            _count: { _all: true },
+            _max: { playedAt: true },
+        });
+        const stats: SmartPlayStats = { counts: new Map(), lastPlayed: new Map() };
+        for (const row of rows) {
+            stats.counts.set(row.trackId, row._count._all);
+            if (row._max.playedAt) stats.lastPlayed.set(row.trackId, row._max.playedAt);
+        }
+        return stats;
+    }
+
+    private async getRatings(userId: string): Promise<Map<string, number>> {
+        const rows = await prisma.trackRating.findMany({
+            where: { userId },
+            select: { trackId: true, rating: true },
+        });
+        return new Map(rows.map((row) => [row.trackId, row.rating]));
+    }
+
+    /** Run the rules and replace the playlist's items with the result */
+    async evaluate(playlist: { id: string; userId: string; smartRules: Prisma.JsonValue }): Promise<number> {
+        const definition = smartPlaylistSchema.parse(playlist.smartRules);
+        const sortField = definition.sort?.field;
+        const order = definition.sort?.order ?? "asc";
+        const limit = definition.limit ?? MAX_SMART_PLAYLIST_TRACKS;
+
+        const needsPlays =
+            usesField(definition.rules, "playCount") || sortField === "playCount" || sortField === "lastPlayed";
+        const plays = needsPlays
+            ? await this.getPlayStats(playlist.userId)
+            : { counts: new Map(), lastPlayed: new Map() };
+
+        const where: Prisma.TrackWhereInput = {
+            AND: [
+                { album: { location: "LIBRARY" } },
+                compileSmartRules(definition.rules, { userId: playlist.userId, now: new Date(), plays }),
+            ],
+        };
+
+        const databaseSort = sortField ? DATABASE_SORTS[sortField] : undefined;
+        let trackIds: string[];
+        if (!sortField || databaseSort) {
+            const tracks = await prisma.track.findMany({
+                where,
+                select: { id: true },
+                orderBy: databaseSort
+                    ? [databaseSort(order), { id: "asc" }]
+                    : [{ album: { artist: { name: "asc" } } }, { album: { title: "asc" } }, { discNumber: "asc" }, { trackNo: "asc" }],
+                take: limit,
+            });
+            trackIds = tracks.map((t) => t.id);
+        } else {
+            const tracks = await prisma.track.findMany({ where, select: { id: true } });
+            trackIds = tracks.map((t) => t.id);
+            if (sortField === "random") {
+                trackIds = shuffleArray(trackIds);
+            } else {
+                const direction = order === "asc" ? 1 : -1;
+                const ratings = sortField === "rating" ? await this.getRatings(playlist.userId) : null;
+                const sortValue = (id: string) =>
+                    ratings
+                        ? ratings.get(id) ?? 0
+                        : sortField === "playCount"
+                          ? plays.counts.get(id) ?? 0
+                          : plays.lastPlayed.get(id)?.getTime() ?? 0;
+                trackIds.sort((a, b) => (sortValue(a) - sortValue(b)) * direction);
+            }
+            trackIds = trackIds.slice(0, limit);
+        }
+
+        await prisma.$transaction([
+            prisma.playlistItem.deleteMany({ where: { playlistId: playlist.id } }),
+            prisma.playlistItem.createMany({
+                data: trackIds.map((trackId, index) => ({ playlistId: playlist.id, trackId, sort: index })),
+            }),
+            prisma.playlist.update({
+                where: { id: playlist.id },
+                data: { smartEvaluatedAt: new Date() },
+            }),
+        ]);
+
+        logger.debug(`[SMART PLAYLIST] ${playlist.id} matched ${trackIds.length} tracks`);
+        return trackIds.length;
+    }
+
+    /**
+     * Re-evaluate a smart playlist that hasn't been refreshed recently.
+     * Readers call this before loading items; failures keep the last result.
+     */
+    async refreshIfStale(playlist: {
+        id: string;
+        userId: string;
+        smartRules: Prisma.JsonValue;
+        smartEvaluatedAt: Date | null;
+    }): Promise<void> {
+        if (!playlist.smartRules) return;
+        if (playlist.smartEvaluatedAt && Date.now() - playlist.smartEvaluatedAt.getTime() < SMART_PLAYLIST_MAX_AGE_MS) {
+            return;
+        }
+        try {
+            await this.evaluate(playlist);
+        } catch (error) {
+            logger.error(`[SMART PLAYLIST] Failed to refresh ${playlist.id}:`, error);
+        }
+    }
+
+    /** Re-evaluate every smart playlist, e.g. after a library scan */
+    async refreshAll(): Promise<{ refreshed: number; failed: number }> {
+        const playlists = await prisma.playlist.findMany({
+            where: { smartRules: { not: Prisma.DbNull } },
+            select: { id: true, userId: true, smartRules: true },
+        });
+
+        let refreshed = 0;
+        let failed = 0;
+        for (const playlist of playlists) {
+            try {
+                await this.evaluate(playlist);
+                refreshed++;
+            } catch (error) {
+                failed++;
+                logger.error(`[SMART PLAYLIST] Failed to refresh ${playlist.id}:`, error);
+            }
+        }
+        return { refreshed, failed };
+    }
+
+    toFile(playlist: { name: string; smartRules: Prisma.JsonValue }): SmartPlaylistFile {
+        return { version: 1, name: playlist.name, ...smartPlaylistSchema.parse(playlist.smartRules) };
+    }
+}
+
+export const smartPlaylistService = new SmartPlaylistService();
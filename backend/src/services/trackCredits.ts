@@ -0,0 +1,398 @@
+import type { IAudioMetadata } from "music-metadata";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+import {
+    areArtistNamesSimilar,
+    extractPrimaryArtist,
+    normalizeArtistName,
+    sanitizeTagString,
+} from "../utils/artistNormalization";
+
+/**
+ * "primary" and "featured" are the performing artists of a track; the other
+ * roles follow the OpenSubsonic contributor roles.
+ */
+export type CreditRole =
+    | "primary"
+    | "featured"
+    | "remixer"
+    | "composer"
+    | "lyricist"
+    | "writer"
+    | "arranger"
+    | "conductor"
+    | "performer"
+    | "producer"
+    | "engineer"
+    | "mixer"
+    | "djmixer";
+
+export type CreditSource = "tags" | "musicbrainz";
+
+export interface Credit {
+    name: string;
+    role: CreditRole;
+    /** Instrument for performers */
+    subRole?: string;
+    mbid?: string;
+    /** Set when the artist is already known (e.g. the album artist) */
+    artistId?: string;
+}
+
+export interface TrackCredit {
+    role: CreditRole;
+    subRole: string;
+    artist: { id: string; name: string };
+}
+
+const ROLE_ORDER: CreditRole[] = [
+    "primary",
+    "featured",
+    "remixer",
+    "composer",
+    "lyricist",
+    "writer",
+    "arranger",
+    "conductor",
+    "performer",
+    "producer",
+    "engineer",
+    "mixer",
+    "djmixer",
+];
+
+const PERFORMING_ROLES: CreditRole[] = ["primary", "featured"];
+
+// Multi-value tags that map straight onto a role
+const ROLE_TAGS: Array<[keyof IAudioMetadata["common"], CreditRole]> = [
+    ["composer", "composer"],
+    ["lyricist", "lyricist"],
+    ["writer", "writer"],
+    ["arranger", "arranger"],
+    ["conductor", "conductor"],
+    ["remixer", "remixer"],
+    ["producer", "producer"],
+    ["engineer", "engineer"],
+    ["mixer", "mixer"],
+    ["djmixer", "djmixer"],
+];
+
+const FEATURING = /\s+(?:feat\.?|ft\.?|featuring)\s+/i;
+const TITLE_FEATURING = /[([]\s*(?:feat\.?|ft\.?|featuring)\s+([^)\]]+)[)\]]/i;
+const SEPARATOR = /^\s*(?:feat\.?|ft\.?|featuring|x|&|and|with|,)\s*/i;
+
+/**
+ * Split a collaboration string into artist names, keeping band names such as
+ * "Earth, Wind & Fire" whole (same rules as extractPrimaryArtist).
+ */
+export function splitArtistNames(value: string): string[] {
+    const names: string[] = [];
+    let rest = value.trim();
+    while (rest) {
+        const first = extractPrimaryArtist(rest);
+        if (!rest.startsWith(first) || first === rest) {
+            names.push(rest);
+            break;
+        }
+        names.push(first);
+        rest = rest.slice(first.length).replace(SEPARATOR, "").trim();
+    }
+    return names;
+}
+
+function splitValues(values: string[] | string | undefined): string[] {
+    if (!values) return [];
+    return (Array.isArray(values) ? values : [values])
+        .flatMap((v) => v.split(/\s*;\s*/))
+        .map((v) => sanitizeTagString(v))
+        .filter(Boolean);
+}
+
+/**
+ * Credits from a file's tags. Performing artists come from the ARTISTS tag
+ * when it holds several names, otherwise from splitting ARTIST; anyone after
+ * "feat." in ARTIST or the title is a featured artist. PERFORMER tags in the
+ * "Name (instrument)" form become performer credits.
+ */
+export function readTagCredits(metadata: IAudioMetadata): Credit[] {
+    const common = metadata.common;
+    const credits: Credit[] = [];
+
+    const [mainPart, ...featParts] = sanitizeTagString(common.artist).split(FEATURING);
+    const featured = featParts.flatMap(splitArtistNames);
+    const titleFeat = sanitizeTagString(common.title).match(TITLE_FEATURING);
+    if (titleFeat) featured.push(...splitArtistNames(titleFeat[1]));
+    const featuredKeys = new Set(featured.map(normalizeArtistName));
+
+    const artistsTag = splitValues(common.artists);
+    const primary =
+        artistsTag.length > 1
+            ? artistsTag.filter((name) => !featuredKeys.has(normalizeArtistName(name)))
+            : mainPart
+              ? splitArtistNames(mainPart)
+              : [];
+
+    // Picard writes MUSICBRAINZ_ARTISTID in the same order as ARTISTS
+    const mbids = common.musicbrainz_artistid ?? [];
+    const mbidFor = (name: string) => {
+        const index = artistsTag.indexOf(name);
+        return index !== -1 && mbids.length === artistsTag.length ? mbids[index] : undefined;
+    };
+
+    for (const name of primary) {
+        credits.push({ name, role: "primary", mbid: mbidFor(name) });
+    }
+    for (const name of featured) {
+        credits.push({ name, role: "featured", mbid: mbidFor(name) });
+    }
+
+    for (const [tag, role] of ROLE_TAGS) {
+        for (const name of splitValues(common[tag] as string[] | undefined)) {
+            credits.push({ name, role });
+        }
+    }
+
+    for (const tags of Object.values(metadata.native ?? {})) {
+        for (const tag of tags) {
+            if (tag.id.toUpperCase() !== "PERFORMER" || typeof tag.value !== "string") {
+                continue;
+            }
+            const match = tag.value.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+            const name = sanitizeTagString(match ? match[1] : tag.value);
+            if (name) {
+                credits.push({
+                    name,
+                    role: "performer",
+                    subRole: match ? match[2].trim().toLowerCase() : "",
+                });
+            }
+        }
+    }
+
+    return credits;
+}
+
+export function isPerformingRole(role: string): boolean {
+    return (PERFORMING_ROLES as string[]).includes(role);
+}
+
+/** "A & B feat. C" from primary and featured credits */
+export function formatDisplayArtist(credits: TrackCredit[]): string {
+    const join = (names: string[]) =>
+        names.length > 1
+            ? `${names.slice(0, -1).join(", ")} & ${names[names.length - 1]}`
+            : names.join("");
+    const primary = join(credits.filter((c) => c.role === "primary").map((c) => c.artist.name));
+    const featured = join(credits.filter((c) => c.role === "featured").map((c) => c.artist.name));
+    return featured ? `${primary} feat. ${featured}` : primary;
+}
+
+/**
+ * Track-to-artist credits with roles, filled from file tags by the scanner
+ * and from MusicBrainz recording relationships by track enrichment. Each
+ * source replaces only its own rows, so a rescan never wipes MusicBrainz
+ * credits and vice versa.
+ *
+ * Credited artists that are not album artists get an Artist row of their
+ * own (for their "Appears on" page); they have no albums, so they stay out
+ * of artist lists and enrichment.
+ */
+class TrackCreditService {
+    async setCredits(
+        trackId: string,
+        source: CreditSource,
+        credits: Credit[],
+        albumArtist?: { id: string; name: string }
+    ): Promise<void> {
+        const artistIds = new Map<string, string>();
+        const rows = new Map<string, {
+            trackId: string;
+            artistId: string;
+            role: string;
+            subRole: string;
+            position: number;
+            source: string;
+        }>();
+        const positions = new Map<string, number>();
+
+        for (const credit of credits) {
+            const cacheKey = `${credit.mbid ?? ""}|${normalizeArtistName(credit.name)}`;
+            let artistId = credit.artistId ?? artistIds.get(cacheKey);
+            if (!artistId) {
+                artistId = await this.resolveArtist(credit, albumArtist);
+                artistIds.set(cacheKey, artistId);
+            }
+
+            const subRole = credit.subRole ?? "";
+            const key = `${artistId}|${credit.role}|${subRole}`;
+            if (rows.has(key)) continue;
+            const position = positions.get(credit.role) ?? 0;
+            positions.set(credit.role, position + 1);
+            rows.set(key, { trackId, artistId, role: credit.role, subRole, position, source });
+        }
+
+        await prisma.$transaction([
+            prisma.trackArtist.deleteMany({ where: { trackId, source } }),
+            // A credit both sources agree on is stored once
+            prisma.trackArtist.createMany({ data: [...rows.values()], skipDuplicates: true }),
+        ]);
+    }
+
+    /**
+     * Match a credited name to an Artist: by MBID, then by the album artist
+     * the scanner already resolved (it tolerates spelling variants), then
+     * by normalized name. Unknown artists are created with a temp MBID.
+     */
+    private async resolveArtist(
+        credit: Credit,
+        albumArtist?: { id: string; name: string }
+    ): Promise<string> {
+        if (credit.mbid) {
+            const byMbid = await prisma.artist.findUnique({
+                where: { mbid: credit.mbid },
+                select: { id: true },
+            });
+            if (byMbid) return byMbid.id;
+        }
+
+        if (albumArtist && areArtistNamesSimilar(credit.name, albumArtist.name, 95)) {
+            return albumArtist.id;
+        }
+
+        const normalizedName = normalizeArtistName(credit.name);
+        const byName = await prisma.artist.findFirst({
+            where: { normalizedName },
+            select: { id: true },
+        });
+        if (byName) return byName.id;
+
+        try {
+            const created = await prisma.artist.create({
+                data: {
+                    name: credit.name,
+                    normalizedName,
+                    mbid: credit.mbid ?? `temp-${Date.now()}-${Math.random()}`,
+                    enrichmentStatus: "pending",
+                },
+                select: { id: true },
+            });
+            return created.id;
+        } catch (error: any) {
+            // Another scan worker created the same MBID first
+            if (error.code === "P2002" && credit.mbid) {
+                const existing = await prisma.artist.findUnique({
+                    where: { mbid: credit.mbid },
+                    select: { id: true },
+                });
+                if (existing) return existing.id;
+            }
+            throw error;
+        }
+    }
+
+    /** Credits per track, performing roles first */
+    async getCredits(trackIds: string[]): Promise<Map<string, TrackCredit[]>> {
+        const result = new Map<string, TrackCredit[]>();
+        if (trackIds.length === 0) return result;
+
+        const rows = await prisma.trackArtist.findMany({
+            where: { trackId: { in: trackIds } },
+            select: {
+                trackId: true,
+                role: true,
+                subRole: true,
+                position: true,
+                source: true,
+                artist: { select: { id: true, name: true, displayName: true } },
+            },
+        });
+
+        rows.sort(
+            (a, b) =>
+                ROLE_ORDER.indexOf(a.role as CreditRole) - ROLE_ORDER.indexOf(b.role as CreditRole) ||
+                // Tags are what the user curated; list them before MusicBrainz additions
+                (a.source === b.source ? 0 : a.source === "tags" ? -1 : 1) ||
+                a.position - b.position
+        );
+
+        for (const row of rows) {
+            const list = result.get(row.trackId) ?? [];
+            if (
+                !list.some(
+                    (c) => c.artist.id === row.artist.id && c.role === row.role && c.subRole === row.subRole
+                )
+            ) {
+                list.push({
+                    role: row.role as CreditRole,
+                    subRole: row.subRole,
+                    artist: { id: row.artist.id, name: row.artist.displayName || row.artist.name },
+                });
+            }
+            result.set(row.trackId, list);
+        }
+        return result;
+    }
+
+    /**
+     * Library tracks an artist is credited on that are filed under another
+     * album artist, with the roles they were credited for
+     */
+    async getAppearsOn(artistId: string, limit = 50) {
+        const tracks = await prisma.track.findMany({
+            where: {
+                credits: { some: { artistId } },
+                album: { artistId: { not: artistId }, location: "LIBRARY" },
+            },
+            select: {
+                id: true,
+                title: true,
+                displayTitle: true,
+                duration: true,
+                album: {
+                    select: {
+                        id: true,
+                        title: true,
+                        displayTitle: true,
+                        coverUrl: true,
+                        year: true,
+                        artist: { select: { id: true, name: true, displayName: true } },
+                    },
+                },
+                credits: {
+                    where: { artistId },
+                    select: { role: true, subRole: true },
+                },
+            },
+            orderBy: [{ album: { year: { sort: "desc", nulls: "last" } } }, { trackNo: "asc" }],
+            take: limit,
+        });
+
+        return tracks.map(({ credits, ...track }) => ({
+            ...track,
+            roles: [...new Set(credits.map((c) => c.role))].sort(
+                (a, b) => ROLE_ORDER.indexOf(a as CreditRole) - ROLE_ORDER.indexOf(b as CreditRole)
+            ),
+        }));
+    }
+
+    /**
+     * Re-point credits when a duplicate artist is merged into another;
+     * credits the target already has are dropped with the duplicate.
+     */
+    async mergeArtistCredits(fromArtistId: string, toArtistId: string): Promise<void> {
+        const moved = await prisma.$executeRaw`
+            UPDATE "TrackArtist" ta SET "artistId" = ${toArtistId}
+            WHERE ta."artistId" = ${fromArtistId}
+              AND NOT EXISTS (
+                SELECT 1 FROM "TrackArtist" t
+                WHERE t."trackId" = ta."trackId" AND t."artistId" = ${toArtistId}
+                  AND t.role = ta.role AND t."subRole" = ta."subRole"
+              )
+        `;
+        if (moved > 0) {
+            logger.debug(`[Credits] Moved ${moved} credits from ${fromArtistId} to ${toArtistId}`);
+        }
+    }
+}
+
+export const trackCreditService = new TrackCreditService();
@@ -2,6 +2,18 @@ import { prisma } from "../utils/db";
 import { logger } from "../utils/logger";
 import { songLinkService, SongLinkResult } from "./songlink";
 import { musicBrainzService } from "./musicbrainz";
+import { normalizeString, normalizeTrackTitle, normalizeAlbumForMatching } from "../utils/normalization";
+import { normalizeArtistName, extractPrimaryArtist } from "../utils/artistNormalization";
+
+export interface ListenIdentity {
+    artist: string;
+    title: string;
+    album?: string | null;
+    isrc?: string | null;
+    recordingMbid?: string | null;
+    artistMbids?: string[];
+    releaseGroupMbid?: string | null;
+}
 
 export interface ResolvedTrack {
     sourceUrl: string;
@@ -160,6 +172,82 @@ class TrackIdentityService {
             artistName: track.album.artist.name,
         };
     }
+
+    /**
+     * Match an external listen (ListenBrainz, Last.fm history) to a library track.
+     * Tries the MusicBrainz recording, then ISRC, then the release group, then
+     * the artist (by MBID or normalized name) with a normalized title,
+     * preferring the listen's album when several copies of a track exist.
+     * Returns null rather than guessing.
+     */
+    async matchListen(listen: ListenIdentity): Promise<string | null> {
+        if (listen.recordingMbid) {
+            const byRecording = await prisma.track.findFirst({
+                where: { recordingMbid: listen.recordingMbid, album: { location: "LIBRARY" } },
+                select: { id: true },
+            });
+            if (byRecording) return byRecording.id;
+        }
+
+        if (listen.isrc) {
+            const byIsrc = await this.findTrackByIsrc(listen.isrc.toUpperCase());
+            if (byIsrc) return byIsrc.id;
+        }
+
+        const title = normalizeTrackTitle(listen.title);
+        if (!title) return null;
+        const matchesTitle = (track: { title: string; displayTitle: string | null }) =>
+            normalizeTrackTitle(track.title) === title ||
+            (!!track.displayTitle && normalizeTrackTitle(track.displayTitle) === title);
+
+        if (listen.releaseGroupMbid) {
+            const album = await prisma.album.findFirst({
+                where: { rgMbid: listen.releaseGroupMbid, location: "LIBRARY" },
+                select: { tracks: { select: { id: true, title: true, displayTitle: true } } },
+            });
+            const track = album?.tracks.find(matchesTitle);
+            if (track) return track.id;
+        }
+
+        const artistName = normalizeArtistName(extractPrimaryArtist(listen.artist));
+        const artistMbids = listen.artistMbids ?? [];
+        if (!artistName && artistMbids.length === 0) return null;
+
+        const candidates = await prisma.track.findMany({
+            where: {
+                album: {
+                    location: "LIBRARY",
+                    artist: {
+                        OR: [
+                            ...(artistMbids.length > 0 ? [{ mbid: { in: artistMbids } }] : []),
+                            ...(artistName ? [{ normalizedName: artistName }] : []),
+                        ],
+                    },
+                },
+            },
+            select: {
+                id: true,
+                title: true,
+                displayTitle: true,
+                album: { select: { title: true, displayTitle: true } },
+            },
+        });
+
+        const matches = candidates.filter(matchesTitle);
+        if (matches.length === 0) return null;
+
+        if (listen.album) {
+            const album = normalizeString(normalizeAlbumForMatching(listen.album));
+            const sameAlbum = matches.find(
+                (track) =>
+                    normalizeString(normalizeAlbumForMatching(track.album.title)) === album ||
+                    (!!track.album.displayTitle &&
+                        normalizeString(normalizeAlbumForMatching(track.album.displayTitle)) === album)
+            );
+            if (sameAlbum) return sameAlbum.id;
+        }
+        return matches[0].id;
+    }
 }
 
 export const trackIdentityService = new TrackIdentityService();
@@ -0,0 +1,424 @@
+import * as path from "path";
+import { parseFile } from "music-metadata";
+import { prisma } from "../utils/db";
+import { logger } from "../utils/logger";
+
+/**
+ * Transcoding profiles: which codec, bitrate and sample-rate cap a stream is
+ * transcoded to. A profile's key ("opus-128") is what the transcode cache and
+ * the settings store, so two profiles never share a cached file.
+ */
+
+export type TranscodeCodec = "mp3" | "opus" | "aac";
+
+export interface TranscodeProfile {
+    codec: TranscodeCodec;
+    /** Target bitrate in kbps */
+    bitrate: number;
+    /** Higher source sample rates are resampled down to this (Hz) */
+    maxSampleRate: number;
+}
+
+interface CodecSettings {
+    encoder: string;
+    /** FFmpeg muxer */
+    format: string;
+    /** Cache file extension, also what getMimeType keys on */
+    extension: string;
+    container: string;
+    defaultBitrate: number;
+    /** Bitrates requests are rounded down to, highest first */
+    bitrates: number[];
+    /** Options the muxer needs for a file that streams with range requests */
+    outputOptions: string[];
+}
+
+export const CODEC_SETTINGS: Record<TranscodeCodec, CodecSettings> = {
+    mp3: {
+        encoder: "libmp3lame",
+        format: "mp3",
+        extension: "mp3",
+        container: "mp3",
+        defaultBitrate: 320,
+        bitrates: [320, 256, 192, 160, 128, 96, 64],
+        // Cover art would otherwise be muxed in as an attached picture,
+        // making the file larger than the progressive size estimate
+        outputOptions: ["-vn"],
+    },
+    opus: {
+        encoder: "libopus",
+        format: "ogg",
+        extension: "opus",
+        container: "ogg",
+        defaultBitrate: 128,
+        bitrates: [192, 160, 128, 96, 64, 48, 32],
+        // Cover art would otherwise be encoded as a video stream
+        outputOptions: ["-vn"],
+    },
+    aac: {
+        encoder: "aac",
+        format: "ipod",
+        extension: "m4a",
+        container: "m4a",
+        defaultBitrate: 256,
+        bitrates: [320, 256, 192, 160, 128, 96, 64],
+        outputOptions: ["-vn", "-movflags", "+faststart"],
+    },
+};
+
+const DEFAULT_MAX_SAMPLE_RATE = 48000;
+
+export const TRANSCODE_CODECS = Object.keys(CODEC_SETTINGS) as TranscodeCodec[];
+
+/** Profiles offered in settings, keyed by profile key */
+export const TRANSCODE_PRESETS: Record<string, TranscodeProfile> = Object.fromEntries(
+    (
+        [
+            ["mp3", 320],
+            ["mp3", 192],
+            ["mp3", 128],
+            ["opus", 160],
+            ["opus", 128],
+            ["opus", 96],
+            ["opus", 64],
+            ["aac", 256],
+            ["aac", 192],
+            ["aac", 128],
+        ] as [TranscodeCodec, number][]
+    ).map(([codec, bitrate]) => {
+        const profile = { codec, bitrate, maxSampleRate: DEFAULT_MAX_SAMPLE_RATE };
+        return [profileKey(profile), profile];
+    })
+);
+
+/** The web player's quality names, kept as MP3 profiles */
+export const QUALITY_PROFILES: Record<"high" | "medium" | "low", TranscodeProfile> = {
+    high: TRANSCODE_PRESETS["mp3-320"],
+    medium: TRANSCODE_PRESETS["mp3-192"],
+    low: TRANSCODE_PRESETS["mp3-128"],
+};
+
+export function profileKey(profile: TranscodeProfile): string {
+    const key = `${profile.codec}-${profile.bitrate}`;
+    return profile.maxSampleRate === DEFAULT_MAX_SAMPLE_RATE ? key : `${key}-${profile.maxSampleRate}`;
+}
+
+/**
+ * Parses a profile key ("opus-96", "aac-128-44100"). Bitrates are rounded
+ * down to the codec's steps so arbitrary keys can't fill the cache with
+ * near-duplicates. Returns null for anything that isn't a profile key.
+ */
+export function parseProfileKey(key: string | null | undefined): TranscodeProfile | null {
+    const match = key?.trim().toLowerCase().match(/^(mp3|opus|aac)-(\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+
+    const codec = match[1] as TranscodeCodec;
+    const maxSampleRate = match[3] ? parseInt(match[3], 10) : DEFAULT_MAX_SAMPLE_RATE;
+    if (maxSampleRate < 8000 || maxSampleRate > DEFAULT_MAX_SAMPLE_RATE) return null;
+
+    return { codec, bitrate: snapBitrate(codec, parseInt(match[2], 10)), maxSampleRate };
+}
+
+/** The canonical key for a profile key, or null if it isn't one */
+export function normalizeProfileKey(key: string): string | null {
+    const profile = parseProfileKey(key);
+    return profile ? profileKey(profile) : null;
+}
+
+function snapBitrate(codec: TranscodeCodec, bitrate: number): number {
+    const steps = CODEC_SETTINGS[codec].bitrates;
+    return steps.find((step) => step <= bitrate) ?? steps[steps.length - 1];
+}
+
+function isCodec(value: string): value is TranscodeCodec {
+    return (TRANSCODE_CODECS as string[]).includes(value);
+}
+
+/**
+ * Picks the profile for a Subsonic stream request. An explicit `format`
+ * chooses the codec and `maxBitRate` caps the bitrate; whatever the request
+ * leaves open comes from the profile configured for the user or API key.
+ * Returns null to stream the original file.
+ */
+export function profileForRequest(
+    params: { format?: string; maxBitRate?: string },
+    configured: TranscodeProfile | null
+): TranscodeProfile | null {
+    const format = params.format?.trim().toLowerCase();
+    const maxBitRate = parseInt(params.maxBitRate || "0", 10) || 0;
+
+    if (format === "raw") return null;
+
+    if (format && isCodec(format)) {
+        const preferred =
+            configured?.codec === format ? configured.bitrate : CODEC_SETTINGS[format].defaultBitrate;
+        return {
+            codec: format,
+            bitrate: snapBitrate(format, maxBitRate > 0 ? Math.min(maxBitRate, preferred) : preferred),
+            maxSampleRate: configured?.maxSampleRate ?? DEFAULT_MAX_SAMPLE_RATE,
+        };
+    }
+
+    if (maxBitRate <= 0) return configured;
+
+    // Without a configured profile a 320k cap is as good as lossless, as before
+    if (!configured) {
+        return maxBitRate >= 320 ? null : { ...QUALITY_PROFILES.high, bitrate: snapBitrate("mp3", maxBitRate) };
+    }
+    return {
+        ...configured,
+        bitrate: snapBitrate(configured.codec, Math.min(maxBitRate, configured.bitrate)),
+    };
+}
+
+/**
+ * The profile Subsonic streams default to: the API key's own profile if it
+ * has one, otherwise the user's. Null means original quality.
+ */
+export async function getConfiguredProfile(
+    userId: string,
+    apiKeyId?: string
+): Promise<TranscodeProfile | null> {
+    if (apiKeyId) {
+        const key = await prisma.apiKey.findUnique({
+            where: { id: apiKeyId },
+            select: { transcodeProfile: true },
+        });
+        if (key?.transcodeProfile) return parseProfileKey(key.transcodeProfile);
+    }
+
+    const settings = await prisma.userSettings.findUnique({
+        where: { userId },
+        select: { transcodeProfile: true },
+    });
+    return parseProfileKey(settings?.transcodeProfile);
+}
+
+// ===================== OPENSUBSONIC TRANSCODE DECISION =====================
+
+export interface SourceStream {
+    container: string;
+    codec: string;
+    /** kbps */
+    bitrate: number | null;
+    sampleRate: number | null;
+    channels: number | null;
+    bitDepth: number | null;
+}
+
+// music-metadata names codecs the way the file does ("MPEG 1 Layer 3",
+// "Vorbis I"); clients use the short names
+function normalizeCodec(codec: string | undefined, container: string): string {
+    const name = (codec || container).toLowerCase();
+    if (/layer 3/.test(name)) return "mp3";
+    if (/vorbis/.test(name)) return "vorbis";
+    if (/aac/.test(name)) return "aac";
+    if (/pcm/.test(name)) return "pcm";
+    return name.split(/\s/)[0];
+}
+
+/**
+ * Reads what a client would receive when playing a file directly. Fields
+ * that can't be read stay null and are treated as unknown.
+ */
+export async function probeSource(filePath: string): Promise<SourceStream> {
+    const container = path.extname(filePath).slice(1).toLowerCase() || "unknown";
+    try {
+        const { format } = await parseFile(filePath);
+        return {
+            container,
+            codec: normalizeCodec(format.codec, container),
+            bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : null,
+            sampleRate: format.sampleRate ?? null,
+            channels: format.numberOfChannels ?? null,
+            bitDepth: format.bitsPerSample ?? null,
+        };
+    } catch (err) {
+        logger.warn(`[TRANSCODE] Failed to read ${filePath}:`, err);
+        return { container, codec: container, bitrate: null, sampleRate: null, channels: null, bitDepth: null };
+    }
+}
+
+interface DirectPlayProfile {
+    containers?: string[];
+    audioCodecs?: string[];
+    protocols?: string[];
+    maxAudioChannels?: number;
+}
+
+interface TranscodingProfile {
+    container?: string;
+    audioCodec?: string;
+    protocol?: string;
+    maxAudioChannels?: number;
+}
+
+interface CodecLimitation {
+    name?: string;
+    comparison?: string;
+    values?: string[];
+    required?: boolean;
+}
+
+export interface ClientInfo {
+    name?: string;
+    platform?: string;
+    maxAudioBitrate?: number;
+    maxTranscodingAudioBitrate?: number;
+    directPlayProfiles?: DirectPlayProfile[];
+    transcodingProfiles?: TranscodingProfile[];
+    codecProfiles?: { type?: string; name?: string; limitations?: CodecLimitation[] }[];
+}
+
+export interface TranscodeDecision {
+    canDirectPlay: boolean;
+    canTranscode: boolean;
+    transcodeReason: string[];
+    errorReason: string;
+    /** Passed back by the client to getTranscodeStream */
+    transcodeParams: string;
+    profile: TranscodeProfile | null;
+}
+
+// The spec gives bitrates in bit/s; some clients send kbit/s
+const toKbps = (value: number | undefined) =>
+    !value || value <= 0 ? null : value >= 10000 ? Math.round(value / 1000) : value;
+
+const listMatches = (list: string[] | undefined, value: string) =>
+    !list || list.length === 0 || list.some((v) => v === "*" || v.toLowerCase() === value.toLowerCase());
+
+// Container and codec names clients use for what we can produce
+const CODEC_ALIASES: Record<string, TranscodeCodec> = {
+    mp3: "mp3",
+    opus: "opus",
+    aac: "aac",
+    m4a: "aac",
+    mp4: "aac",
+};
+
+function limitationFails(limitation: CodecLimitation, source: SourceStream): boolean {
+    const actual: Record<string, number | null> = {
+        audiobitrate: source.bitrate !== null ? source.bitrate * 1000 : null,
+        audiosamplerate: source.sampleRate,
+        audiochannels: source.channels,
+        audiobitdepth: source.bitDepth,
+    };
+    const value = actual[(limitation.name ?? "").toLowerCase()];
+    if (value === undefined || value === null) return !!limitation.required;
+
+    const limits = (limitation.values ?? []).map(Number).filter((v) => !isNaN(v));
+    if (limits.length === 0) return false;
+    switch ((limitation.comparison ?? "").toLowerCase()) {
+        case "equals":
+            return !limits.includes(value);
+        case "notequals":
+            return limits.includes(value);
+        case "lessthanequal":
+            return value > Math.min(...limits);
+        case "greaterthanequal":
+            return value < Math.max(...limits);
+        default:
+            return false;
+    }
+}
+
+const LIMITATION_REASONS: Record<string, string> = {
+    audiobitrate: "AudioBitrateNotSupported",
+    audiosamplerate: "AudioSampleRateNotSupported",
+    audiochannels: "AudioChannelsNotSupported",
+    audiobitdepth: "AudioBitDepthNotSupported",
+};
+
+/**
+ * Decides between direct play and a transcode for an OpenSubsonic
+ * getTranscodeDecision request. The configured profile caps the bitrate
+ * a client may direct play at and is the starting point for a transcode.
+ */
+export function decideTranscode(
+    source: SourceStream,
+    client: ClientInfo,
+    configured: TranscodeProfile | null
+): TranscodeDecision {
+    const reasons = new Set<string>();
+
+    const directProfiles = (client.directPlayProfiles ?? []).filter((p) => listMatches(p.protocols, "http"));
+    if (directProfiles.length === 0) reasons.add("ContainerNotSupported");
+    else if (!directProfiles.some((p) => listMatches(p.containers, source.container))) {
+        reasons.add("ContainerNotSupported");
+    } else if (
+        !directProfiles.some(
+            (p) => listMatches(p.containers, source.container) && listMatches(p.audioCodecs, source.codec)
+        )
+    ) {
+        reasons.add("AudioCodecNotSupported");
+    } else if (
+        !directProfiles.some(
+            (p) =>
+                listMatches(p.containers, source.container) &&
+                listMatches(p.audioCodecs, source.codec) &&
+                (!p.maxAudioChannels || !source.channels || source.channels <= p.maxAudioChannels)
+        )
+    ) {
+        reasons.add("AudioChannelsNotSupported");
+    }
+
+    for (const codecProfile of client.codecProfiles ?? []) {
+        if (codecProfile.name && codecProfile.name.toLowerCase() !== source.codec.toLowerCase()) continue;
+        for (const limitation of codecProfile.limitations ?? []) {
+            if (limitationFails(limitation, source)) {
+                reasons.add(LIMITATION_REASONS[(limitation.name ?? "").toLowerCase()] ?? "AudioCodecNotSupported");
+            }
+        }
+    }
+
+    const caps = [toKbps(client.maxAudioBitrate), configured?.bitrate ?? null].filter(
+        (v): v is number => v !== null
+    );
+    if (source.bitrate !== null && caps.some((cap) => source.bitrate! > cap)) {
+        reasons.add("AudioBitrateNotSupported");
+    }
+
+    if (reasons.size === 0) {
+        return {
+            canDirectPlay: true,
+            canTranscode: false,
+            transcodeReason: [],
+            errorReason: "",
+            transcodeParams: "",
+            profile: null,
+        };
+    }
+
+    const target = (client.transcodingProfiles ?? [])
+        .filter((p) => !p.protocol || p.protocol.toLowerCase() === "http")
+        .map((p) => CODEC_ALIASES[(p.audioCodec || p.container || "").toLowerCase()])
+        .find((codec): codec is TranscodeCodec => !!codec);
+
+    if (!target) {
+        return {
+            canDirectPlay: false,
+            canTranscode: false,
+            transcodeReason: [...reasons],
+            errorReason: "No supported transcoding profile",
+            transcodeParams: "",
+            profile: null,
+        };
+    }
+
+    const preferred = configured?.codec === target ? configured.bitrate : CODEC_SETTINGS[target].defaultBitrate;
+    const transcodeCap = toKbps(client.maxTranscodingAudioBitrate) ?? toKbps(client.maxAudioBitrate);
+    const profile: TranscodeProfile = {
+        codec: target,
+        bitrate: snapBitrate(target, transcodeCap ? Math.min(transcodeCap, preferred) : preferred),
+        maxSampleRate: configured?.maxSampleRate ?? DEFAULT_MAX_SAMPLE_RATE,
+    };
+
+    return {
+        canDirectPlay: false,
+        canTranscode: true,
+        transcodeReason: [...reasons],
+        errorReason: "",
+        transcodeParams: profileKey(profile),
+        profile,
+    };
+}
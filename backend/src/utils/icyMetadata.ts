@@ -0,0 +1,82 @@
+import { Transform, TransformCallback } from "stream";
+
+/**
+ * Extracts StreamTitle from an ICY metadata block, e.g.
+ * `StreamTitle='Artist - Title';StreamUrl='';` padded with NULs.
+ * Returns null when the block carries no title.
+ */
+export function parseIcyTitle(block: string): string | null {
+    const match = block.replace(/\0+$/, "").match(/StreamTitle='(.*?)';/s);
+    const title = match?.[1]?.trim();
+    return title ? title : null;
+}
+
+/**
+ * Removes interleaved ICY metadata from a Shoutcast/Icecast stream so the
+ * browser receives plain audio.
+ *
+ * When a client sends `Icy-MetaData: 1`, the server inserts a metadata block
+ * after every `icy-metaint` audio bytes: one length byte (N), then N * 16
+ * bytes of metadata. `onTitle` fires whenever the title changes.
+ */
+export class IcyMetadataStripper extends Transform {
+    private audioRemaining: number;
+    private metaLength = -1;
+    private metaChunks: Buffer[] = [];
+    private metaReceived = 0;
+    private lastTitle: string | null = null;
+
+    constructor(
+        private readonly metaInt: number,
+        private readonly onTitle: (title: string) => void
+    ) {
+        super();
+        this.audioRemaining = metaInt;
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        let offset = 0;
+
+        while (offset < chunk.length) {
+            if (this.audioRemaining > 0) {
+                const take = Math.min(this.audioRemaining, chunk.length - offset);
+                this.push(chunk.subarray(offset, offset + take));
+                offset += take;
+                this.audioRemaining -= take;
+                continue;
+            }
+
+            if (this.metaLength < 0) {
+                this.metaLength = chunk[offset] * 16;
+                offset += 1;
+                if (this.metaLength === 0) {
+                    this.resetBlock();
+                }
+                continue;
+            }
+
+            const take = Math.min(this.metaLength - this.metaReceived, chunk.length - offset);
+            this.metaChunks.push(chunk.subarray(offset, offset + take));
+            this.metaReceived += take;
+            offset += take;
+
+            if (this.metaReceived === this.metaLength) {
+                const title = parseIcyTitle(Buffer.concat(this.metaChunks).toString("utf8"));
+                if (title && title !== this.lastTitle) {
+                    this.lastTitle = title;
+                    this.onTitle(title);
+                }
+                this.resetBlock();
+            }
+        }
+
+        callback();
+    }
+
+    private resetBlock(): void {
+        this.metaLength = -1;
+        this.metaChunks = [];
+        this.metaReceived = 0;
+        this.audioRemaining = this.metaInt;
+    }
+}
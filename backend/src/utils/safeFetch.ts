@@ -0,0 +1,48 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { validateUrlForFetch } from "./ssrf";
+
+/** A URL, or a redirect it led to, that server-side fetches must not reach */
+export class BlockedUrlError extends Error {
+    constructor(url: string, reason: string) {
+        super(`${reason} (${url})`);
+        this.name = "BlockedUrlError";
+    }
+}
+
+/**
+ * GET a URL that came from outside (a feed, a radio station), following
+ * redirects by hand so every hop gets the same SSRF check as the first one.
+ * Letting axios follow them would allow a public host to bounce the request
+ * into the internal network.
+ */
+export async function getUntrustedUrl<T = any>(
+    url: string,
+    config: AxiosRequestConfig = {},
+    maxRedirects = 5
+): Promise<AxiosResponse<T>> {
+    let current = url;
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+        const ssrfError = await validateUrlForFetch(current);
+        if (ssrfError) {
+            throw new BlockedUrlError(current, ssrfError);
+        }
+
+        const response = await axios.get<T>(current, {
+            ...config,
+            maxRedirects: 0,
+            validateStatus: (status) => status >= 200 && status < 400,
+        });
+        if (response.status < 300) {
+            return response;
+        }
+
+        // A streamed redirect body would otherwise hold its connection open
+        (response.data as { destroy?: () => void } | undefined)?.destroy?.();
+        const location = response.headers.location;
+        if (!location) {
+            throw new Error(`Redirect without a location (${response.status})`);
+        }
+        current = new URL(location, current).toString();
+    }
+    throw new Error("Too many redirects");
+}
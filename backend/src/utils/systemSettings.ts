@@ -81,3 +81,16 @@ export async function getSystemSettings(forceRefresh = false) {
     cacheExpiry = now + CACHE_TTL_MS;
     return { ...decrypted };
 }
+
+/**
+ * Audiobook backends that are switched on: "audiobookshelf" and/or "local".
+ * Books from a disabled backend stay in the database but are hidden.
+ */
+export function getAudiobookSources(
+    settings: { audiobookshelfEnabled?: boolean; localAudiobooksEnabled?: boolean } | null,
+): string[] {
+    const sources: string[] = [];
+    if (settings?.audiobookshelfEnabled) sources.push("audiobookshelf");
+    if (settings?.localAudiobooksEnabled) sources.push("local");
+    return sources;
+}
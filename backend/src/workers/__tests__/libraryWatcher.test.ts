@@ -0,0 +1,90 @@
+/**
+ * Tests for the library watcher
+ *
+ * Changes are debounced per album directory, directories that settle
+ * together are queued as one scan, and non-audio files are ignored.
+ */
+
+jest.mock("fs", () => ({
+    ...jest.requireActual("fs"),
+    statSync: jest.fn(),
+}));
+jest.mock("../queues", () => ({ scanQueue: { add: jest.fn() } }));
+jest.mock("../../config", () => ({ config: { music: { musicPath: "/music" } } }));
+jest.mock("../../services/musicScanner", () => ({
+    AUDIO_EXTENSIONS: new Set([".flac", ".mp3"]),
+}));
+
+import * as fs from "fs";
+import { LibraryWatcher } from "../libraryWatcher";
+
+describe("LibraryWatcher", () => {
+    let enqueue: jest.Mock;
+    let watcher: LibraryWatcher;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        enqueue = jest.fn().mockResolvedValue(undefined);
+        watcher = new LibraryWatcher("/music", enqueue);
+    });
+
+    afterEach(() => {
+        watcher.stop();
+        jest.useRealTimers();
+    });
+
+    it("waits for a directory to go quiet before scanning it", () => {
+        watcher.handleChange("Artist/Album/01.flac");
+        jest.advanceTimersByTime(8000);
+        watcher.handleChange("Artist/Album/02.flac");
+        jest.advanceTimersByTime(8000);
+        expect(enqueue).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(5000);
+        expect(enqueue).toHaveBeenCalledTimes(1);
+        expect(enqueue).toHaveBeenCalledWith(["Artist/Album"]);
+    });
+
+    it("queues both sides of a move in one scan", () => {
+        (fs.statSync as jest.Mock).mockImplementation(() => {
+            throw new Error("ENOENT");
+        });
+
+        watcher.handleChange("Old Artist/Album/01.flac");
+        watcher.handleChange("New Artist");
+        watcher.handleChange("New Artist/Album/01.flac");
+        jest.advanceTimersByTime(12000);
+
+        // The child directory is covered by its parent's scan
+        expect(enqueue).toHaveBeenCalledTimes(1);
+        expect(enqueue).toHaveBeenCalledWith(["New Artist", "Old Artist/Album"]);
+    });
+
+    it("ignores hidden paths and non-audio files", () => {
+        (fs.statSync as jest.Mock).mockReturnValue({ isDirectory: () => false });
+
+        watcher.handleChange("Artist/Album/cover.jpg");
+        watcher.handleChange("Artist/.Album/01.flac");
+        watcher.handleChange(".trash/01.flac");
+        jest.advanceTimersByTime(20000);
+
+        expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("treats dotted names that are directories as directories", () => {
+        (fs.statSync as jest.Mock).mockReturnValue({ isDirectory: () => true });
+
+        watcher.handleChange("Artist/Hits Vol. 2");
+        jest.advanceTimersByTime(12000);
+
+        expect(enqueue).toHaveBeenCalledWith(["Artist/Hits Vol. 2"]);
+    });
+
+    it("drops pending changes when stopped", () => {
+        watcher.handleChange("Artist/Album/01.flac");
+        watcher.stop();
+        jest.advanceTimersByTime(20000);
+
+        expect(enqueue).not.toHaveBeenCalled();
+    });
+});
@@ -3,6 +3,7 @@ import { vibeQueue } from "./enrichmentQueues";
 import { prisma } from "../utils/db";
 import { config } from "../config";
 import { logger } from "../utils/logger";
+import { replayGainService } from "../services/replayGain";
 
 const CHANNEL = "audio:analysis:complete";
 // Resume vibe embeddings after this many ms of Essentia silence.
@@ -116,6 +117,12 @@ export async function startAudioCompletionSubscriber(): Promise<void> {
 
         if (event.status !== "complete" || !event.trackId) return;
 
+        // Album gain can only be derived once every track on the album has
+        // a measured track gain, so re-check as each analysis lands
+        replayGainService.deriveAlbumGainForTrack(event.trackId).catch((err: Error) => {
+            logger.warn(`[AudioSub] Album gain derivation failed for ${event.trackId}: ${err.message}`);
+        });
+
         // Skip vibe queuing when enrichment is stopped/paused
         if (enrichmentHalted) return;
 
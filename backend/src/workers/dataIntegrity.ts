@@ -12,6 +12,7 @@
 
 import { logger } from "../utils/logger";
 import { prisma } from "../utils/db";
+import { trackCreditService } from "../services/trackCredits";
 
 interface IntegrityReport {
     expiredExclusions: number;
@@ -314,6 +315,7 @@ export async function runDataIntegrityCheck(): Promise<IntegrityReport> {
                 where: { artistId: tempArtist.id },
                 data: { artistId: realArtist.id },
             });
+            await trackCreditService.mergeArtistCredits(tempArtist.id, realArtist.id);
 
             // Delete SimilarArtist relations
             await prisma.similarArtist.deleteMany({
@@ -337,10 +339,11 @@ export async function runDataIntegrityCheck(): Promise<IntegrityReport> {
         }
     }
 
-    // 8. Clean up orphaned artists (no albums)
+    // 8. Clean up orphaned artists (no albums, not credited on any track)
     const orphanedArtists = await prisma.artist.findMany({
         where: {
             albums: { none: {} },
+            credits: { none: {} },
         },
     });
 
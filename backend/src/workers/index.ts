@@ -4,10 +4,16 @@ import {
     scanQueue,
     discoverQueue,
     importQueue,
+    scrobbleQueue,
+    listenImportQueue,
+    opmlImportQueue,
 } from "./queues";
 import { processScan } from "./processors/scanProcessor";
 import { processDiscoverWeekly } from "./processors/discoverProcessor";
 import { processImportJob } from "./processors/importProcessor";
+import { processScrobble } from "./processors/scrobbleProcessor";
+import { processListenImport } from "./processors/listenImportProcessor";
+import { processOpmlImport } from "./processors/opmlImportProcessor";
 import { createWorkerConnection } from "./enrichmentQueues";
 import { spotifyImportService } from "../services/spotifyImport";
 import {
@@ -29,6 +35,8 @@ import {
     stopDataCleanupCron,
 } from "./dataCleanup";
 import { runDataIntegrityCheck } from "./dataIntegrity";
+import { startLibraryWatcher, stopLibraryWatcher } from "./libraryWatcher";
+import { getSystemSettings } from "../utils/systemSettings";
 import { simpleDownloadManager } from "../services/simpleDownloadManager";
 import { queueCleaner } from "../jobs/queueCleaner";
 import { enrichmentStateService } from "../services/enrichmentState";
@@ -59,6 +67,24 @@ const importWorker = new Worker(
     }
 );
 
+const scrobbleWorker = new Worker("scrobble", processScrobble, {
+    connection: createWorkerConnection(),
+    concurrency: 2,
+    lockDuration: 60000,
+});
+
+const listenImportWorker = new Worker("listen-import", processListenImport, {
+    connection: createWorkerConnection(),
+    concurrency: 1,
+    lockDuration: 300000, // 5 minutes -- ListenBrainz pages are rate limited
+});
+
+const opmlImportWorker = new Worker("opml-import", processOpmlImport, {
+    connection: createWorkerConnection(),
+    concurrency: 1,
+    lockDuration: 300000, // 5 minutes -- slow feeds hold up a whole batch
+});
+
 // Register download queue callback for unavailable albums
 downloadQueueManager.onUnavailableAlbum(async (info) => {
     logger.debug(
@@ -120,7 +146,7 @@ startMoodBucketWorker().catch((err) => {
 // Event handlers for scan worker
 scanWorker.on("completed", (job, result) => {
     logger.debug(
-        `Scan job ${job.id} completed: +${result.tracksAdded} ~${result.tracksUpdated} -${result.tracksRemoved}`
+        `Scan job ${job.id} completed: +${result.tracksAdded} ~${result.tracksUpdated} -${result.tracksRemoved} moved:${result.tracksMoved}`
     );
 });
 
@@ -179,6 +205,39 @@ importWorker.on("error", (err) => {
     logger.error("[ImportWorker] Worker error:", err.message);
 });
 
+// Event handlers for scrobble worker
+scrobbleWorker.on("failed", (job, err) => {
+    if (!job) return;
+    const message = `[ScrobbleWorker] ${job.data.provider} ${job.data.kind} for user ${job.data.userId} failed (attempt ${job.attemptsMade}): ${err.message}`;
+    if (job.attemptsMade >= (job.opts.attempts ?? 1)) {
+        logger.error(message);
+    } else {
+        logger.warn(message);
+    }
+});
+
+scrobbleWorker.on("error", (err) => {
+    logger.error("[ScrobbleWorker] Worker error:", err.message);
+});
+
+// Event handlers for listen import worker
+listenImportWorker.on("failed", (job, err) => {
+    logger.error(`[ListenImportWorker] Import for user ${job?.data.userId} failed: ${err.message}`);
+});
+
+listenImportWorker.on("error", (err) => {
+    logger.error("[ListenImportWorker] Worker error:", err.message);
+});
+
+// Event handlers for OPML import worker
+opmlImportWorker.on("failed", (job, err) => {
+    logger.error(`[OpmlImportWorker] Import for user ${job?.data.userId} failed: ${err.message}`);
+});
+
+opmlImportWorker.on("error", (err) => {
+    logger.error("[OpmlImportWorker] Worker error:", err.message);
+});
+
 logger.debug("BullMQ workers registered and event handlers attached");
 
 // Start Discovery Weekly cron scheduler (Sundays at 8 PM)
@@ -187,6 +246,17 @@ startDiscoverWeeklyCron();
 // Start data cleanup cron scheduler (daily at 2 AM)
 startDataCleanupCron();
 
+// Start the library watcher if enabled (toggled at runtime from system settings)
+getSystemSettings()
+    .then((settings) => {
+        if (settings?.libraryWatcherEnabled) {
+            startLibraryWatcher();
+        }
+    })
+    .catch((err) => {
+        logger.error("Failed to read library watcher setting:", err);
+    });
+
 // Running guards to prevent pile-up when tasks take longer than their interval
 let dataIntegrityRunning = false;
 let reconciliationRunning = false;
@@ -392,6 +462,9 @@ export async function shutdownWorkers(): Promise<void> {
     // Stop data cleanup cron
     stopDataCleanupCron();
 
+    // Stop library watcher
+    stopLibraryWatcher();
+
     // Shutdown download queue manager
     downloadQueueManager.shutdown();
 
@@ -402,11 +475,32 @@ export async function shutdownWorkers(): Promise<void> {
     timeouts.length = 0;
 
     // Close workers first so in-flight jobs complete, then close queues
-    await Promise.all([scanWorker.close(), discoverWorker.close(), importWorker.close()]);
-    await Promise.all([scanQueue.close(), discoverQueue.close(), importQueue.close()]);
+    await Promise.all([
+        scanWorker.close(),
+        discoverWorker.close(),
+        importWorker.close(),
+        scrobbleWorker.close(),
+        listenImportWorker.close(),
+        opmlImportWorker.close(),
+    ]);
+    await Promise.all([
+        scanQueue.close(),
+        discoverQueue.close(),
+        importQueue.close(),
+        scrobbleQueue.close(),
+        listenImportQueue.close(),
+        opmlImportQueue.close(),
+    ]);
 
     logger.debug("Workers shutdown complete");
 }
 
 // Export queues for use in other modules
-export { scanQueue, discoverQueue, importQueue };
+export {
+    scanQueue,
+    discoverQueue,
+    importQueue,
+    scrobbleQueue,
+    listenImportQueue,
+    opmlImportQueue,
+};
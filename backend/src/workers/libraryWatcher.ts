@@ -0,0 +1,161 @@
+/**
+ * Library Watcher
+ *
+ * Watches the music directory for changes and queues incremental scans of
+ * just the affected album directories, so files dropped in by hand or by
+ * other tools show up without a full library scan.
+ *
+ * Writers (taggers, copies, downloads) touch files many times in a row, so a
+ * directory is only scanned once it has been quiet for SETTLE_MS. Directories
+ * that settle close together go into one job, which keeps both sides of a
+ * move in the same scan and lets the scanner relink the tracks instead of
+ * deleting and re-adding them.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../utils/logger";
+import { config } from "../config";
+import { scanQueue } from "./queues";
+import { AUDIO_EXTENSIONS } from "../services/musicScanner";
+
+const SETTLE_MS = 10_000;
+const BATCH_MS = 1_000;
+
+export class LibraryWatcher {
+    private watcher: fs.FSWatcher | null = null;
+    private settleTimers = new Map<string, NodeJS.Timeout>();
+    private ready = new Set<string>();
+    private batchTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly musicPath: string,
+        private readonly enqueue: (paths: string[]) => Promise<unknown>
+    ) {}
+
+    get running(): boolean {
+        return this.watcher !== null;
+    }
+
+    start(): void {
+        if (this.watcher) return;
+        this.watcher = fs.watch(
+            this.musicPath,
+            { recursive: true, persistent: false },
+            (_event, filename) => {
+                if (filename) this.handleChange(filename.toString());
+            }
+        );
+        this.watcher.on("error", (err) => {
+            logger.error("[LibraryWatcher] Watch error:", err);
+        });
+        logger.info(`[LibraryWatcher] Watching ${this.musicPath}`);
+    }
+
+    stop(): void {
+        this.watcher?.close();
+        this.watcher = null;
+        for (const timer of this.settleTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.settleTimers.clear();
+        if (this.batchTimer) clearTimeout(this.batchTimer);
+        this.batchTimer = null;
+        this.ready.clear();
+    }
+
+    /** Filename is relative to musicPath, as reported by fs.watch */
+    handleChange(filename: string): void {
+        const target = this.scanTarget(filename);
+        if (!target) return;
+
+        const existing = this.settleTimers.get(target);
+        if (existing) clearTimeout(existing);
+        this.settleTimers.set(
+            target,
+            setTimeout(() => this.settle(target), SETTLE_MS)
+        );
+    }
+
+    /**
+     * Directory (relative to musicPath) to rescan for a changed path. Audio
+     * files and cue sheets map to their album directory; anything without an extension may
+     * be a directory that was created, moved or deleted, so it is scanned
+     * itself. Other files (covers, lyrics, partial downloads) are ignored.
+     */
+    private scanTarget(filename: string): string | null {
+        const relative = path.normalize(filename).replace(/\\/g, "/");
+        const segments = relative.split("/");
+        if (segments.some((s) => s === ".." || s.startsWith("."))) {
+            return null;
+        }
+
+        const ext = path.extname(relative).toLowerCase();
+        if (AUDIO_EXTENSIONS.has(ext) || ext === ".cue") {
+            const dir = path.posix.dirname(relative);
+            return dir === "." ? relative : dir;
+        }
+        if (ext) {
+            // A directory name can contain a dot ("Vol. 2"), so only skip
+            // paths that are files. A path that is gone may have been a
+            // directory; scanning it is a no-op if nothing was stored there.
+            try {
+                if (!fs.statSync(path.join(this.musicPath, relative)).isDirectory()) {
+                    return null;
+                }
+            } catch {
+                return relative;
+            }
+        }
+        return relative;
+    }
+
+    private settle(target: string): void {
+        this.settleTimers.delete(target);
+        this.ready.add(target);
+        if (this.batchTimer) clearTimeout(this.batchTimer);
+        this.batchTimer = setTimeout(() => this.flush(), BATCH_MS);
+    }
+
+    private flush(): void {
+        this.batchTimer = null;
+        // A parent directory's scan already covers its children
+        const targets = [...this.ready].sort();
+        this.ready.clear();
+        const paths = targets.filter(
+            (t, i) => !targets.slice(0, i).some((p) => t.startsWith(`${p}/`))
+        );
+        if (paths.length === 0) return;
+
+        logger.debug(`[LibraryWatcher] Queueing scan of ${paths.join(", ")}`);
+        this.enqueue(paths).catch((err) => {
+            logger.error("[LibraryWatcher] Failed to queue scan:", err);
+        });
+    }
+}
+
+let libraryWatcher: LibraryWatcher | null = null;
+
+export function startLibraryWatcher(): void {
+    if (libraryWatcher?.running) return;
+    libraryWatcher = new LibraryWatcher(config.music.musicPath, (paths) =>
+        scanQueue.add("scan", {
+            userId: "system",
+            source: "library-watcher",
+            paths,
+        })
+    );
+    try {
+        libraryWatcher.start();
+    } catch (err) {
+        logger.error("[LibraryWatcher] Failed to start:", err);
+        libraryWatcher = null;
+    }
+}
+
+export function stopLibraryWatcher(): void {
+    if (!libraryWatcher) return;
+    libraryWatcher.stop();
+    libraryWatcher = null;
+    logger.info("[LibraryWatcher] Stopped");
+}
@@ -2,6 +2,7 @@ import { Worker, Job } from "bullmq";
 import { createWorkerConnection, QUEUE_NAMES } from "./enrichmentQueues";
 import { refreshPodcastFeed } from "../routes/podcasts";
 import { enrichmentFailureService } from "../services/enrichmentFailureService";
+import { podcastRetentionService } from "../services/podcastRetention";
 import { logger } from "../utils/logger";
 
 export interface PodcastJobData {
@@ -16,6 +17,8 @@ export function startPodcastEnrichmentWorker(): Worker {
             const { podcastId, podcastTitle } = job.data;
             logger.debug(`[PodcastWorker] Processing ${podcastId} (${podcastTitle})`);
             await refreshPodcastFeed(podcastId);
+            // Download new episodes and expire old ones per subscriber rules
+            await podcastRetentionService.applyRules(podcastId);
         },
         {
             connection: createWorkerConnection(),
@@ -0,0 +1,17 @@
+import type { Job } from "bullmq";
+import {
+    listenBrainzImportService,
+    ListenImportProgress,
+} from "../../services/listenBrainzImport";
+
+export interface ListenImportJobData {
+    userId: string;
+}
+
+export async function processListenImport(
+    job: Job<ListenImportJobData>
+): Promise<ListenImportProgress> {
+    return listenBrainzImportService.importHistory(job.data.userId, (progress) =>
+        job.updateProgress(progress)
+    );
+}
@@ -0,0 +1,27 @@
+import type { Job } from "bullmq";
+import { eventBus } from "../../services/eventBus";
+import { OpmlFeed } from "../../services/opml";
+import {
+    podcastSubscriptionService,
+    OpmlImportResult,
+} from "../../services/podcastSubscription";
+
+export interface OpmlImportJobData {
+    userId: string;
+    feeds: OpmlFeed[];
+}
+
+export async function processOpmlImport(
+    job: Job<OpmlImportJobData>
+): Promise<OpmlImportResult> {
+    const { userId, feeds } = job.data;
+
+    return podcastSubscriptionService.importFeeds(userId, feeds, async (progress) => {
+        await job.updateProgress(progress);
+        eventBus.emit({
+            type: "podcast-import:progress",
+            userId,
+            payload: { ...progress },
+        });
+    });
+}
@@ -145,12 +145,14 @@ export interface ScanJobData {
     downloadId?: string; // Optional: Lidarr download ID for precise job linking
     discoveryBatchId?: string; // Optional: Discovery Weekly batch ID
     spotifyImportJobId?: string; // Optional: Spotify Import job ID
+    paths?: string[]; // Optional: only rescan these directories/files (relative to musicPath)
 }
 
 export interface ScanJobResult {
     tracksAdded: number;
     tracksUpdated: number;
     tracksRemoved: number;
+    tracksMoved: number;
     tracksCorrupt: number;
     errors: Array<{ file: string; error: string }>;
     duration: number;
@@ -168,6 +170,7 @@ export async function processScan(
         downloadId,
         discoveryBatchId,
         spotifyImportJobId,
+        paths,
     } = job.data;
 
     logger.debug(`\n═══════════════════════════════════════════════`);
@@ -215,10 +218,16 @@ export async function processScan(
     // Use provided music path or fall back to config
     const scanPath = musicPath || config.music.musicPath;
 
-    logger.debug(`[ScanJob ${job.id}] Scanning path: ${scanPath}`);
+    logger.debug(
+        paths?.length
+            ? `[ScanJob ${job.id}] Scanning ${paths.length} path(s) under ${scanPath}`
+            : `[ScanJob ${job.id}] Scanning path: ${scanPath}`
+    );
 
     try {
-        const result = await scanner.scanLibrary(scanPath);
+        const result = paths?.length
+            ? await scanner.scanPaths(scanPath, paths)
+            : await scanner.scanLibrary(scanPath);
 
         await job.updateProgress(100);
 
@@ -228,13 +237,13 @@ export async function processScan(
                 userId,
                 payload: {
                     jobId: String(job.id),
-                    result: { tracksAdded: result.tracksAdded, tracksUpdated: result.tracksUpdated, tracksRemoved: result.tracksRemoved, tracksCorrupt: result.tracksCorrupt },
+                    result: { tracksAdded: result.tracksAdded, tracksUpdated: result.tracksUpdated, tracksRemoved: result.tracksRemoved, tracksMoved: result.tracksMoved, tracksCorrupt: result.tracksCorrupt },
                 },
             });
         }
 
         logger.debug(
-            `[ScanJob ${job.id}] Scan complete: +${result.tracksAdded} ~${result.tracksUpdated} -${result.tracksRemoved} corrupt:${result.tracksCorrupt}`
+            `[ScanJob ${job.id}] Scan complete: +${result.tracksAdded} ~${result.tracksUpdated} -${result.tracksRemoved} moved:${result.tracksMoved} corrupt:${result.tracksCorrupt}`
         );
 
         // If this scan was triggered by a download completion, mark download jobs as completed
@@ -479,7 +488,7 @@ export async function processScan(
                 await notificationService.notifySystem(
                     userId,
                     "Library Scan Complete",
-                    `Added ${result.tracksAdded} tracks, updated ${result.tracksUpdated}, removed ${result.tracksRemoved}${result.tracksCorrupt > 0 ? `, ${result.tracksCorrupt} corrupt` : ""}`
+                    `Added ${result.tracksAdded} tracks, updated ${result.tracksUpdated}, removed ${result.tracksRemoved}${result.tracksMoved > 0 ? `, ${result.tracksMoved} moved` : ""}${result.tracksCorrupt > 0 ? `, ${result.tracksCorrupt} corrupt` : ""}`
                 );
             } catch (error) {
                 logger.error(
@@ -565,6 +574,23 @@ export async function processScan(
             }
         }
 
+        // Re-evaluate smart playlists so their rules see the scanned library
+        if (shouldReconcile || result.tracksRemoved > 0) {
+            try {
+                const { smartPlaylistService } = await import(
+                    "../../services/smartPlaylists"
+                );
+                const smartResult = await smartPlaylistService.refreshAll();
+                if (smartResult.refreshed > 0 || smartResult.failed > 0) {
+                    logger.info(
+                        `[SCAN] Smart playlists refreshed: ${smartResult.refreshed} (${smartResult.failed} failed)`
+                    );
+                }
+            } catch (error) {
+                logger.error('[SCAN] Smart playlist refresh failed:', error);
+            }
+        }
+
         // Trigger mood tag collection for new tracks whose artists are already enriched
         // This ensures Last.fm mood tags are collected immediately after scan, not waiting 30s for background worker
         if (result.tracksAdded > 0) {
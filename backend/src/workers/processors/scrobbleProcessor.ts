@@ -0,0 +1,6 @@
+import type { Job } from "bullmq";
+import { scrobbleService, ScrobbleJobData } from "../../services/scrobbler";
+
+export async function processScrobble(job: Job<ScrobbleJobData>): Promise<void> {
+    await scrobbleService.submit(job.data);
+}
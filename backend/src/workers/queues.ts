@@ -42,6 +42,51 @@ export const importQueue = new Queue("playlist-import", {
     },
 });
 
-export const queues = [scanQueue, discoverQueue, importQueue];
+// Outbound listen submissions (Last.fm, ListenBrainz). Long exponential backoff so a provider
+// outage of a day or more still ends in a delivered scrobble.
+export const scrobbleQueue = new Queue("scrobble", {
+    connection: getConnectionOptions(),
+    defaultJobOptions: {
+        ...defaultJobOptions,
+        attempts: 12,
+        backoff: { type: "exponential" as const, delay: 60000 },
+        removeOnComplete: { count: 200, age: 86400 },
+        removeOnFail: { count: 500 },
+    },
+});
+
+// One-off listening history imports (ListenBrainz). Not retried: starting an
+// import again reads the whole history from the newest listen, but listens
+// that were already imported are skipped, so nothing is counted twice.
+export const listenImportQueue = new Queue("listen-import", {
+    connection: getConnectionOptions(),
+    defaultJobOptions: {
+        ...defaultJobOptions,
+        attempts: 1,
+        removeOnComplete: { count: 50, age: 7 * 86400 },
+        removeOnFail: { count: 50, age: 7 * 86400 },
+    },
+});
+
+// Podcast OPML imports. Not retried: feeds already subscribed are reported
+// as such, so a failed import can simply be uploaded again.
+export const opmlImportQueue = new Queue("opml-import", {
+    connection: getConnectionOptions(),
+    defaultJobOptions: {
+        ...defaultJobOptions,
+        attempts: 1,
+        removeOnComplete: { count: 50, age: 7 * 86400 },
+        removeOnFail: { count: 50, age: 7 * 86400 },
+    },
+});
+
+export const queues = [
+    scanQueue,
+    discoverQueue,
+    importQueue,
+    scrobbleQueue,
+    listenImportQueue,
+    opmlImportQueue,
+];
 
-logger.debug("BullMQ queues initialized (library-scan-v2, discover-weekly-v2, playlist-import)");
+logger.debug("BullMQ queues initialized (library-scan-v2, discover-weekly-v2, playlist-import, scrobble, listen-import, opml-import)");
@@ -43,6 +43,8 @@ import { featureDetection } from "../services/featureDetection";
 import { musicBrainzService } from "../services/musicbrainz";
 import { trackIdentityService } from "../services/trackIdentity";
 import { precomputeProjection } from "../services/umapProjection";
+import { trackSourcePath } from "../services/cueSheet";
+import { trackCreditService } from "../services/trackCredits";
 
 // Configuration
 const ARTIST_BATCH_SIZE = 10;
@@ -851,7 +853,7 @@ export async function enrichSingleTrack(trackId: string): Promise<void> {
         include: {
             album: {
                 include: {
-                    artist: { select: { name: true } },
+                    artist: { select: { id: true, name: true } },
                 },
             },
         },
@@ -890,6 +892,7 @@ export async function enrichSingleTrack(trackId: string): Promise<void> {
     }
 
     // ISRC enrichment: if track has no ISRC, try MusicBrainz lookup
+    let recordingMbid = track.recordingMbid;
     if (!track.isrc) {
         try {
             const recording = await musicBrainzService.searchRecording(
@@ -897,6 +900,7 @@ export async function enrichSingleTrack(trackId: string): Promise<void> {
                 track.album.artist.name,
             );
             if (recording) {
+                recordingMbid ??= recording.trackMbid || null;
                 const isrcData = await musicBrainzService.getRecordingIsrc(recording.trackMbid);
                 if (isrcData) {
                     await trackIdentityService.storeIsrc(track.id, isrcData, "musicbrainz");
@@ -914,6 +918,21 @@ export async function enrichSingleTrack(trackId: string): Promise<void> {
             logger.debug(`[Track Enrichment] ISRC lookup failed for ${track.title}: ${err}`);
         }
     }
+
+    // Recording credits (performers, composers, ...) on top of the tagged ones
+    if (recordingMbid) {
+        try {
+            const credits = await musicBrainzService.getRecordingCredits(recordingMbid);
+            if (credits && credits.length > 0) {
+                await trackCreditService.setCredits(track.id, "musicbrainz", credits, {
+                    id: track.album.artist.id,
+                    name: track.album.artist.name,
+                });
+            }
+        } catch (err) {
+            logger.debug(`[Track Enrichment] Credit lookup failed for ${track.title}: ${err}`);
+        }
+    }
 }
 
 /**
@@ -1146,7 +1165,7 @@ async function executeScanPhase(): Promise<number> {
             scanStatus: "pending",
             corrupt: false,
         },
-        select: { id: true, filePath: true, title: true },
+        select: { id: true, filePath: true, cueStart: true, title: true },
         take: SCAN_BATCH_SIZE,
         orderBy: { fileModified: "desc" },
     });
@@ -1161,7 +1180,9 @@ async function executeScanPhase(): Promise<number> {
     for (const track of tracks) {
         if (await shouldHaltCycle()) return validated;
 
-        const fullPath = path.join(musicPath, track.filePath);
+        // CUE tracks are validated (and analyzed) through their source file
+        const sourcePath = trackSourcePath(track);
+        const fullPath = path.join(musicPath, sourcePath);
         const result = await validateAudioHeader(fullPath);
 
         if (result.valid) {
@@ -1171,7 +1192,7 @@ async function executeScanPhase(): Promise<number> {
             });
             await redis.rpush(
                 "audio:scan:queue",
-                JSON.stringify({ trackId: track.id, filePath: track.filePath }),
+                JSON.stringify({ trackId: track.id, filePath: sourcePath }),
             );
             validated++;
         } else {
@@ -1202,13 +1223,13 @@ async function executeScanPhase(): Promise<number> {
     const RECHECK_BATCH = 20;
     const recheckTracks = await prisma.track.findMany({
         where: { scanStatus: "valid", analysisStatus: "pending" },
-        select: { id: true, filePath: true },
+        select: { id: true, filePath: true, cueStart: true },
         take: RECHECK_BATCH,
         orderBy: { updatedAt: "asc" },
     });
 
     for (const track of recheckTracks) {
-        const recheckPath = path.join(musicPath, track.filePath);
+        const recheckPath = path.join(musicPath, trackSourcePath(track));
         try {
             await fs.promises.access(recheckPath, fs.constants.R_OK);
         } catch {
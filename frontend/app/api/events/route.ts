@@ -31,7 +31,8 @@ export async function GET(request: NextRequest) {
     let backendResponse: Response;
     try {
         backendResponse = await fetch(
-            `${backendUrl}/api/events?ticket=${encodeURIComponent(ticket)}`,
+            // Pass everything on: players add their Kima Connect device details
+            `${backendUrl}/api/events?${request.nextUrl.searchParams}`,
             {
                 headers: {
                     Accept: "text/event-stream",
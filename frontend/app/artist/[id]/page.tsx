@@ -16,7 +16,7 @@ import { useToast } from "@/lib/toast-context";
 import { useArtistData } from "@/features/artist/hooks/useArtistData";
 import { useArtistActions } from "@/features/artist/hooks/useArtistActions";
 import { useDownloadActions } from "@/features/artist/hooks/useDownloadActions";
-import type { Track, Album } from "@/features/artist/types";
+import type { Track, Album, CreditedTrack } from "@/features/artist/types";
 import { useTrackPreview } from "@/hooks/useTrackPreview";
 
 // Components
@@ -24,6 +24,7 @@ import { ArtistHero } from "@/features/artist/components/ArtistHero";
 import { ArtistActionBar } from "@/features/artist/components/ArtistActionBar";
 import { ArtistBio } from "@/features/artist/components/ArtistBio";
 import { PopularTracks } from "@/features/artist/components/PopularTracks";
+import { AppearsOn } from "@/features/artist/components/AppearsOn";
 import { Discography } from "@/features/artist/components/Discography";
 import { AvailableAlbums } from "@/features/artist/components/AvailableAlbums";
 import { SimilarArtists } from "@/features/artist/components/SimilarArtists";
@@ -120,6 +121,31 @@ export default function ArtistPage() {
         playTracks(formattedTracks, Math.max(0, startIndex));
     }
 
+    // Play track handler (for tracks the artist is credited on)
+    function handlePlayCreditedTrack(track: CreditedTrack) {
+        if (!artist?.appearsOn) return;
+
+        const formattedTracks = artist.appearsOn.map((t: CreditedTrack) => ({
+            id: t.id,
+            title: t.displayTitle ?? t.title,
+            artist: {
+                name: t.album.artist.displayName || t.album.artist.name,
+                id: t.album.artist.id,
+            },
+            album: {
+                title: t.album.displayTitle ?? t.album.title,
+                coverArt: t.album.coverUrl ?? undefined,
+                id: t.album.id,
+            },
+            duration: t.duration,
+        }));
+
+        const startIndex = formattedTracks.findIndex(
+            (t: { id: string }) => t.id === track.id,
+        );
+        playTracks(formattedTracks, Math.max(0, startIndex));
+    }
+
     // Download album handler
     function handleDownloadAlbum(album: Album, e: React.MouseEvent) {
         downloadAlbum(album, artist?.name || "", e);
@@ -253,6 +279,15 @@ export default function ArtistPage() {
                         onSortChange={setSortBy}
                     />
 
+                    {/* Tracks filed under other artists */}
+                    {artist.appearsOn && artist.appearsOn.length > 0 && (
+                        <AppearsOn
+                            tracks={artist.appearsOn}
+                            currentTrackId={currentTrack?.id}
+                            onPlayTrack={handlePlayCreditedTrack}
+                        />
+                    )}
+
                     {/* Available Albums to Download */}
                     <AvailableAlbums
                         albums={availableAlbums}
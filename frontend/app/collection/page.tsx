@@ -45,6 +45,8 @@ export default function LibraryPage() {
 
     // Filter state (owned = your library, discovery = discovery weekly artists)
     const [filter, setFilter] = useState<LibraryFilter>("owned");
+    const [starred, setStarred] = useState(false);
+    const [minRating, setMinRating] = useState(0);
 
     // Sort and pagination state
     const [sortBy, setSortBy] = useState<SortOption>("name");
@@ -66,6 +68,8 @@ export default function LibraryPage() {
     const artistsQuery = useLibraryArtistsQuery({
         filter,
         sortBy,
+        starred,
+        minRating,
         limit: itemsPerPage,
         page: currentPage,
         enabled: activeTab === "artists",
@@ -74,6 +78,8 @@ export default function LibraryPage() {
     const albumsQuery = useLibraryAlbumsQuery({
         filter,
         sortBy,
+        starred,
+        minRating,
         limit: itemsPerPage,
         page: currentPage,
         enabled: activeTab === "albums",
@@ -81,6 +87,8 @@ export default function LibraryPage() {
 
     const tracksQuery = useLibraryTracksQuery({
         sortBy,
+        starred,
+        minRating,
         limit: itemsPerPage,
         page: currentPage,
         enabled: activeTab === "tracks",
@@ -215,7 +223,7 @@ export default function LibraryPage() {
     // Reset page when filter or sort changes
     useEffect(() => {
         setCurrentPage(1);
-    }, [filter, sortBy, itemsPerPage]);
+    }, [filter, sortBy, itemsPerPage, starred, minRating]);
 
     // Get total items and pages from pagination
     const totalItems = pagination.total;
@@ -368,7 +376,11 @@ export default function LibraryPage() {
                         filter={filter}
                         sortBy={sortBy}
                         itemsPerPage={itemsPerPage}
+                        starred={starred}
+                        minRating={minRating}
                         onFilterChange={setFilter}
+                        onStarredChange={setStarred}
+                        onMinRatingChange={setMinRating}
                         onSortChange={setSortBy}
                         onItemsPerPageChange={setItemsPerPage}
                         onShuffleLibrary={handleShuffleLibrary}
@@ -7,6 +7,7 @@ import { api } from "@/lib/api";
 import { useAudioState, useAudioPlayback, useAudioControls } from "@/lib/audio-context";
 import { GradientSpinner } from "@/components/ui/GradientSpinner";
 import { Play, Pause, Music, Shuffle, Save, ListPlus } from "lucide-react";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
 import { cn } from "@/utils/cn";
 import { formatTime } from "@/utils/formatTime";
 import { shuffleArray } from "@/utils/shuffle";
@@ -136,6 +137,21 @@ export default function MixPage() {
         toast.success(`Added ${track.title} to queue`);
     };
 
+    // Mixes are regenerated, so only a saved copy can be downloaded
+    const resolveSavedPlaylistId = async (): Promise<string | null> => {
+        try {
+            const result = await api.saveMixAsPlaylist(mixId);
+            window.dispatchEvent(new Event("playlist-created"));
+            return result.id;
+        } catch (error: unknown) {
+            const err = error as { status?: number; data?: { playlistId?: string } };
+            if (err?.status === 409 && err?.data?.playlistId) {
+                return err.data.playlistId;
+            }
+            throw error;
+        }
+    };
+
     const handleSaveAsPlaylist = async () => {
         if (!mix) return;
 
@@ -287,6 +303,14 @@ export default function MixPage() {
                             {isSaving ? "Saving..." : "Save as Playlist"}
                         </span>
                     </button>
+
+                    {mix.tracks && mix.tracks.length > 0 && (
+                        <OfflineDownloadButton
+                            kind="playlist"
+                            name={mix.name}
+                            resolveSourceId={resolveSavedPlaylistId}
+                        />
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { AlertCircle, ArrowDownToLine, Disc3, ListMusic, Loader2, Play, Trash2 } from "lucide-react";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { useAudioControls, Track as AudioTrack } from "@/lib/audio-context";
+import { useToast } from "@/lib/toast-context";
+import { api } from "@/lib/api";
+import { OFFLINE_COVER_SIZE, OfflineCollection, removeFromOffline } from "@/lib/offline";
+import { useOfflineDownloads } from "@/hooks/useOfflineDownloads";
+
+function formatSize(bytes: number): string {
+    const mb = bytes / (1024 * 1024);
+    return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+}
+
+const ERROR_LABELS: Record<NonNullable<OfflineCollection["error"]>, string> = {
+    wifi: "Paused until Wi-Fi",
+    quota: "Storage limit reached",
+    failed: "Some tracks failed",
+};
+
+/**
+ * Albums and playlists stored on this device. Works without a connection:
+ * everything shown here comes from the service worker's local store.
+ */
+export default function OfflinePage() {
+    const { playTracks } = useAudioControls();
+    const { toast } = useToast();
+    const { collections, tracks, progress, isLoading, maxCacheSizeMb } = useOfflineDownloads();
+    const [removingId, setRemovingId] = useState<string | null>(null);
+
+    const usedBytes = Array.from(tracks.values()).reduce((sum, track) => sum + track.sizeBytes, 0);
+
+    const handlePlay = (collection: OfflineCollection) => {
+        const playable: AudioTrack[] = collection.trackIds.flatMap((trackId) => {
+            const track = tracks.get(trackId);
+            if (!track) return [];
+            return [
+                {
+                    id: track.trackId,
+                    title: track.title,
+                    artist: { name: track.artistName, id: track.artistId },
+                    album: {
+                        title: track.albumTitle,
+                        coverArt: track.coverArt ?? undefined,
+                        id: track.albumId,
+                    },
+                    duration: track.duration,
+                },
+            ];
+        });
+        if (playable.length === 0) {
+            toast.error("No tracks downloaded yet");
+            return;
+        }
+        playTracks(playable, 0);
+    };
+
+    const handleRemove = async (collection: OfflineCollection) => {
+        setRemovingId(collection.id);
+        try {
+            await removeFromOffline(collection.id);
+            toast.success(`Removed "${collection.name}" from this device`);
+        } finally {
+            setRemovingId(null);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-[#0a0a0a]">
+            <div className="max-w-4xl mx-auto p-4 md:p-8 space-y-6">
+                <div className="mb-8">
+                    <div className="flex items-center gap-3 mb-2">
+                        <ArrowDownToLine className="w-8 h-8 text-[#fca200]" />
+                        <h1 className="text-3xl md:text-4xl font-bold text-white">Downloads</h1>
+                    </div>
+                    <p className="text-gray-400">
+                        {formatSize(usedBytes)} of {formatSize(maxCacheSizeMb * 1024 * 1024)} used on
+                        this device
+                    </p>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="w-6 h-6 animate-spin text-white/40" />
+                    </div>
+                ) : collections.length === 0 ? (
+                    <EmptyState
+                        icon={<ArrowDownToLine />}
+                        title="Nothing downloaded"
+                        description="Download albums, playlists and saved mixes to listen without a connection"
+                    />
+                ) : (
+                    <div className="divide-y divide-white/5">
+                        {collections.map((collection) => {
+                            const current = progress[collection.id];
+                            const downloaded = collection.trackIds.filter((id) => tracks.has(id)).length;
+                            const href =
+                                collection.kind === "album"
+                                    ? `/album/${collection.sourceId}`
+                                    : `/playlist/${collection.sourceId}`;
+
+                            return (
+                                <div key={collection.id} className="flex items-center gap-4 py-3">
+                                    <div className="relative w-14 h-14 shrink-0 rounded overflow-hidden bg-white/5 flex items-center justify-center">
+                                        {collection.coverArt ? (
+                                            <Image
+                                                src={api.getCoverArtUrl(collection.coverArt, OFFLINE_COVER_SIZE)}
+                                                alt={collection.name}
+                                                fill
+                                                sizes="56px"
+                                                className="object-cover"
+                                                unoptimized
+                                            />
+                                        ) : collection.kind === "album" ? (
+                                            <Disc3 className="w-6 h-6 text-white/30" />
+                                        ) : (
+                                            <ListMusic className="w-6 h-6 text-white/30" />
+                                        )}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <Link
+                                            href={href}
+                                            className="block text-sm font-medium text-white truncate hover:underline"
+                                        >
+                                            {collection.name}
+                                        </Link>
+                                        <p className="text-xs font-mono text-white/30 uppercase tracking-wider">
+                                            {collection.kind} &middot; {downloaded}/{collection.trackIds.length}{" "}
+                                            tracks &middot; {collection.quality}
+                                        </p>
+                                        {current ? (
+                                            <p className="text-xs text-[#fca200] mt-0.5">
+                                                Downloading {current.completed}/{current.total}
+                                            </p>
+                                        ) : (
+                                            collection.error && (
+                                                <p className="flex items-center gap-1 text-xs text-amber-400 mt-0.5">
+                                                    <AlertCircle className="w-3 h-3" />
+                                                    {ERROR_LABELS[collection.error]}
+                                                </p>
+                                            )
+                                        )}
+                                    </div>
+                                    <button
+                                        onClick={() => handlePlay(collection)}
+                                        disabled={downloaded === 0}
+                                        className="h-9 w-9 rounded-full bg-[#fca200] flex items-center justify-center hover:scale-105 transition-all disabled:opacity-40 disabled:hover:scale-100"
+                                        title="Play"
+                                    >
+                                        <Play className="w-4 h-4 fill-current text-black ml-0.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleRemove(collection)}
+                                        disabled={removingId === collection.id}
+                                        className="h-8 w-8 rounded-full hover:bg-white/10 flex items-center justify-center text-white/40 hover:text-red-400 transition-all"
+                                        title="Remove from this device"
+                                    >
+                                        {removingId === collection.id ? (
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                        ) : (
+                                            <Trash2 className="w-4 h-4" />
+                                        )}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -4,7 +4,10 @@ import { useState, useMemo, useRef, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Image from "next/image";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
-import { api } from "@/lib/api";
+import { SmartPlaylistEditor } from "@/components/SmartPlaylistEditor";
+import { PlaylistCollaborators } from "@/components/PlaylistCollaborators";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
+import { api, SmartPlaylistRules } from "@/lib/api";
 import { useAudioState, useAudioPlayback, useAudioControls, Track as AudioTrack } from "@/lib/audio-context";
 import { useAudioController } from "@/lib/audio-controller-context";
 import { cn } from "@/utils/cn";
@@ -13,6 +16,7 @@ import { formatTime } from "@/utils/formatTime";
 import { queryKeys, usePlaylistQuery, useRemoveFromPlaylistMutation, useDeletePlaylistMutation, useUpdatePlaylistMutation } from "@/hooks/useQueries";
 import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/lib/toast-context";
+import { useAuth } from "@/lib/auth-context";
 import { GradientSpinner } from "@/components/ui/GradientSpinner";
 import {
     Play,
@@ -37,6 +41,10 @@ import {
     Globe,
     Lock,
     FileX,
+    Sparkles,
+    SlidersHorizontal,
+    Download,
+    Users,
 } from "lucide-react";
 import { useTrackFormat } from "@/hooks/useTrackFormat";
 import { formatTrackDisplay } from "@/lib/track-format";
@@ -62,6 +70,7 @@ interface PlaylistItem {
     track: Track;
     type?: "track";
     sort?: number;
+    addedBy?: { id: string; username: string } | null;
 }
 
 interface PendingTrack {
@@ -84,6 +93,7 @@ export default function PlaylistDetailPage() {
     const router = useRouter();
     const queryClient = useQueryClient();
     const { toast } = useToast();
+    const { user } = useAuth();
     const { currentTrack } = useAudioState();
     const { format: trackFormat } = useTrackFormat();
     const { isPlaying } = useAudioPlayback();
@@ -107,6 +117,10 @@ export default function PlaylistDetailPage() {
     const [shareLoading, setShareLoading] = useState(false);
     const [shareCopied, setShareCopied] = useState(false);
     const [showSharePopover, setShowSharePopover] = useState(false);
+    const [showRulesEditor, setShowRulesEditor] = useState(false);
+    const [isRefreshingSmart, setIsRefreshingSmart] = useState(false);
+    const [showCollaborators, setShowCollaborators] = useState(false);
+    const [isAnsweringInvite, setIsAnsweringInvite] = useState(false);
     const previewAudioRef = useRef<HTMLAudioElement | null>(null);
 
     useEffect(() => {
@@ -246,6 +260,29 @@ export default function PlaylistDetailPage() {
     const { data: playlist, isLoading } = usePlaylistQuery(playlistId);
 
     const isShared = playlist?.isOwner === false;
+    // Owners and editors may add, remove and reorder; smart playlists follow their rules
+    const canEdit =
+        (playlist?.role === "owner" || playlist?.role === "editor") && !playlist?.isSmart;
+
+    const handleInviteResponse = async (accept: boolean) => {
+        if (!user) return;
+        setIsAnsweringInvite(true);
+        try {
+            if (accept) {
+                await api.acceptPlaylistInvite(playlistId);
+                queryClient.invalidateQueries({ queryKey: queryKeys.playlist(playlistId) });
+                queryClient.invalidateQueries({ queryKey: queryKeys.playlists() });
+                toast.success("You joined the playlist");
+            } else {
+                await api.removeCollaborator(playlistId, user.id);
+                router.push("/playlists");
+            }
+        } catch {
+            toast.error("Failed to answer the invite");
+        } finally {
+            setIsAnsweringInvite(false);
+        }
+    };
 
     const handleToggleHide = async () => {
         if (!playlist) return;
@@ -291,6 +328,46 @@ export default function PlaylistDetailPage() {
         }
     };
 
+    const handleRefreshSmart = async () => {
+        setIsRefreshingSmart(true);
+        try {
+            const result = await api.refreshSmartPlaylist(playlistId);
+            queryClient.invalidateQueries({ queryKey: queryKeys.playlist(playlistId) });
+            queryClient.invalidateQueries({ queryKey: queryKeys.playlists() });
+            toast.success(`${result.trackCount} ${result.trackCount === 1 ? "song matches" : "songs match"} the rules`);
+        } catch {
+            toast.error("Failed to refresh smart playlist");
+        } finally {
+            setIsRefreshingSmart(false);
+        }
+    };
+
+    const handleSaveRules = async (smart: SmartPlaylistRules) => {
+        try {
+            await updatePlaylist({ playlistId, data: { smart } });
+            setShowRulesEditor(false);
+            toast.success("Rules saved");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save rules");
+        }
+    };
+
+    const handleExportSmart = async () => {
+        try {
+            const file = await api.exportSmartPlaylist(playlistId);
+            const url = URL.createObjectURL(
+                new Blob([JSON.stringify(file, null, 2)], { type: "application/json" })
+            );
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `${file.name}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch {
+            toast.error("Failed to export rules");
+        }
+    };
+
     const coverUrls = useMemo(() => {
         if (!playlist?.items || playlist.items.length === 0) return [];
 
@@ -529,7 +606,13 @@ export default function PlaylistDetailPage() {
                         <div className="flex items-center gap-2 mb-4">
                             <div className="w-1.5 h-1.5 bg-[#fca208] rounded-full" />
                             <span className="text-xs font-mono text-white/50 uppercase tracking-wider">
-                                {isShared ? "Public Playlist" : "Playlist"}
+                                {playlist.isSmart
+                                    ? "Smart Playlist"
+                                    : playlist.isCollaborative
+                                      ? "Collaborative Playlist"
+                                      : isShared
+                                        ? "Public Playlist"
+                                        : "Playlist"}
                             </span>
                         </div>
 
@@ -705,8 +788,71 @@ export default function PlaylistDetailPage() {
                         </button>
                     )}
 
+                    {playlist.items && playlist.items.length > 0 && (
+                        <OfflineDownloadButton
+                            kind="playlist"
+                            sourceId={playlist.id}
+                            name={playlist.name}
+                            className="rounded-lg"
+                        />
+                    )}
+
                     <div className="flex-1" />
 
+                    {/* Smart playlist controls */}
+                    {playlist.isSmart && playlist.isOwner && (
+                        <>
+                            <button
+                                onClick={handleRefreshSmart}
+                                disabled={isRefreshingSmart}
+                                className={cn(
+                                    "h-8 w-8 rounded-lg flex items-center justify-center text-white/30 hover:text-white/60 transition-all",
+                                    isRefreshingSmart && "opacity-50 cursor-not-allowed"
+                                )}
+                                title="Refresh from rules"
+                            >
+                                <RefreshCw className={cn("w-5 h-5", isRefreshingSmart && "animate-spin")} />
+                            </button>
+                            <button
+                                onClick={() => setShowRulesEditor(!showRulesEditor)}
+                                className={cn(
+                                    "h-8 w-8 rounded-lg flex items-center justify-center transition-all",
+                                    showRulesEditor
+                                        ? "text-[#fca208]"
+                                        : "text-white/30 hover:text-white/60"
+                                )}
+                                title="Edit rules"
+                            >
+                                <SlidersHorizontal className="w-5 h-5" />
+                            </button>
+                        </>
+                    )}
+                    {playlist.isSmart && (
+                        <button
+                            onClick={handleExportSmart}
+                            className="h-8 w-8 rounded-lg flex items-center justify-center text-white/30 hover:text-white/60 transition-all"
+                            title="Export rules as JSON"
+                        >
+                            <Download className="w-5 h-5" />
+                        </button>
+                    )}
+
+                    {/* Collaborators */}
+                    {playlist.role && (
+                        <button
+                            onClick={() => setShowCollaborators(!showCollaborators)}
+                            className={cn(
+                                "h-8 w-8 rounded-lg flex items-center justify-center transition-all",
+                                showCollaborators
+                                    ? "text-[#fca208]"
+                                    : "text-white/30 hover:text-white/60"
+                            )}
+                            title="Collaborators"
+                        >
+                            <Users className="w-5 h-5" />
+                        </button>
+                    )}
+
                     {/* Share Button */}
                     {playlist.isOwner && (
                         <div className="relative" data-share-popover>
@@ -844,6 +990,73 @@ export default function PlaylistDetailPage() {
             {/* Track Listing */}
             <div className="px-4 md:px-8 pb-32">
                 <div className="max-w-[1800px] mx-auto">
+                    {/* Pending invite */}
+                    {playlist.invitation && (
+                        <div className="mb-4 px-4 py-2 bg-[#fca208]/10 border border-[#fca208]/20 rounded-lg flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-2 min-w-0">
+                                <Users className="w-4 h-4 text-[#fca208] shrink-0" />
+                                <span className="text-xs font-mono text-white/70 uppercase tracking-wider truncate">
+                                    {playlist.user?.username} invited you to{" "}
+                                    {playlist.invitation.role === "editor" ? "edit" : "listen to"} this playlist
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                                <button
+                                    onClick={() => handleInviteResponse(true)}
+                                    disabled={isAnsweringInvite}
+                                    className="px-3 py-1 text-xs font-black uppercase tracking-wider rounded bg-[#fca208] text-black hover:bg-[#f97316] transition-colors disabled:opacity-50"
+                                >
+                                    Accept
+                                </button>
+                                <button
+                                    onClick={() => handleInviteResponse(false)}
+                                    disabled={isAnsweringInvite}
+                                    className="px-3 py-1 text-xs font-mono uppercase tracking-wider text-white/40 hover:text-white/70 transition-colors disabled:opacity-50"
+                                >
+                                    Decline
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Collaborators */}
+                    {playlist.role && showCollaborators && (
+                        <div className="mb-4 p-4 rounded-lg bg-white/[0.02] border border-white/10">
+                            <div className="flex items-center gap-2 mb-3">
+                                <Users className="w-3.5 h-3.5 text-[#fca208]" />
+                                <span className="text-xs font-mono text-white/50 uppercase tracking-wider">
+                                    People on this playlist
+                                </span>
+                            </div>
+                            <PlaylistCollaborators
+                                playlistId={playlistId}
+                                ownerName={playlist.user?.username}
+                                isOwner={playlist.isOwner}
+                                collaborators={playlist.collaborators ?? []}
+                                onLeave={() => router.push("/playlists")}
+                            />
+                        </div>
+                    )}
+
+                    {/* Smart playlist rules */}
+                    {playlist.isSmart && showRulesEditor && (
+                        <div className="mb-4 p-4 rounded-lg bg-white/[0.02] border border-white/10">
+                            <div className="flex items-center gap-2 mb-3">
+                                <Sparkles className="w-3.5 h-3.5 text-[#fca208]" />
+                                <span className="text-xs font-mono text-white/50 uppercase tracking-wider">
+                                    Songs are picked by these rules
+                                </span>
+                            </div>
+                            <SmartPlaylistEditor
+                                initial={playlist.smartRules}
+                                submitLabel="Save"
+                                isSubmitting={isUpdatingPlaylist}
+                                onSubmit={handleSaveRules}
+                                onCancel={() => setShowRulesEditor(false)}
+                            />
+                        </div>
+                    )}
+
                     {/* Pending tracks notice */}
                     {playlist.pendingCount > 0 && (
                         <div className="mb-4 px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center justify-between">
@@ -1075,6 +1288,11 @@ export default function PlaylistDetailPage() {
                                                         </p>
                                                         <p className="text-[10px] font-mono text-white/40 truncate uppercase tracking-wider">
                                                             {playlistItem.track.album.artist.name}
+                                                            {playlist.isCollaborative && playlistItem.addedBy && (
+                                                                <span className="normal-case text-white/25">
+                                                                    {" "}· added by {playlistItem.addedBy.username}
+                                                                </span>
+                                                            )}
                                                         </p>
                                                     </div>
                                                 </div>
@@ -1099,7 +1317,7 @@ export default function PlaylistDetailPage() {
                                                     <span className="text-[10px] font-mono text-white/30 w-12 text-right uppercase tracking-wider">
                                                         {formatTime(playlistItem.track.duration)}
                                                     </span>
-                                                    {playlist.isOwner && (
+                                                    {canEdit && (
                                                         <button
                                                             className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-white/10 text-white/30 hover:text-red-400 transition-all"
                                                             onClick={(e) => {
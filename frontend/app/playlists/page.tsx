@@ -22,12 +22,16 @@ import {
     Loader2,
     X,
     Check,
+    Sparkles,
+    Upload,
+    Users,
 } from "lucide-react";
 import { GradientSpinner } from "@/components/ui/GradientSpinner";
-import { api } from "@/lib/api";
+import { SmartPlaylistEditor } from "@/components/SmartPlaylistEditor";
+import { api, SmartPlaylistRules } from "@/lib/api";
 import { cn } from "@/utils/cn";
 
-type ActionPanel = "create" | "importUrl" | "importFile" | null;
+type ActionPanel = "create" | "smart" | "importUrl" | "importFile" | null;
 
 interface PlaylistItem {
     id: string;
@@ -45,6 +49,8 @@ interface Playlist {
     items?: PlaylistItem[];
     isOwner?: boolean;
     isHidden?: boolean;
+    isSmart?: boolean;
+    isCollaborative?: boolean;
     user?: {
         username: string;
     };
@@ -179,6 +185,24 @@ function PlaylistCard({
                         greyed={isHiddenView}
                     />
 
+                    {playlist.isSmart && (
+                        <div
+                            className="absolute top-2 left-2 w-7 h-7 rounded-lg flex items-center justify-center bg-black/60 text-[#fca208]"
+                            title="Smart playlist"
+                        >
+                            <Sparkles className="w-3.5 h-3.5" />
+                        </div>
+                    )}
+
+                    {playlist.isCollaborative && !playlist.isSmart && (
+                        <div
+                            className="absolute top-2 left-2 w-7 h-7 rounded-lg flex items-center justify-center bg-black/60 text-[#fca208]"
+                            title="Collaborative playlist"
+                        >
+                            <Users className="w-3.5 h-3.5" />
+                        </div>
+                    )}
+
                     {isShared && (
                         <button
                             onClick={handleToggleHide}
@@ -328,6 +352,102 @@ function CreatePanel({ onClose }: { onClose: () => void }) {
     );
 }
 
+function SmartPanel({ onClose }: { onClose: () => void }) {
+    const router = useRouter();
+    const queryClient = useQueryClient();
+    const [name, setName] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const openPlaylist = (result: { id?: string }) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.playlists() });
+        onClose();
+        if (result?.id) {
+            router.push(`/playlist/${result.id}`);
+        }
+    };
+
+    const handleCreate = async (smart: SmartPlaylistRules) => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            setError("Give the playlist a name");
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            openPlaylist(await api.createSmartPlaylist(trimmed, smart));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to create smart playlist");
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const contents = JSON.parse(await file.text());
+            openPlaylist(await api.importSmartPlaylist(contents));
+        } catch (err) {
+            setError(
+                err instanceof SyntaxError
+                    ? "That file isn't valid JSON"
+                    : err instanceof Error
+                      ? err.message
+                      : "Failed to import smart playlist"
+            );
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Smart playlist name..."
+                    className="flex-1 min-w-[180px] px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-[#fca208]/50 focus:ring-1 focus:ring-[#fca208]/30"
+                    disabled={isSubmitting}
+                />
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImport}
+                    className="hidden"
+                />
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-mono uppercase tracking-wider border border-white/10 text-white/50 hover:text-white/70 hover:border-white/20 transition-colors disabled:opacity-40"
+                >
+                    <Upload className="w-3.5 h-3.5" />
+                    Import rules
+                </button>
+            </div>
+            <SmartPlaylistEditor
+                submitLabel="Create"
+                isSubmitting={isSubmitting}
+                onSubmit={handleCreate}
+                onCancel={onClose}
+            />
+            {error && (
+                <p className="text-xs font-mono text-red-400">{error}</p>
+            )}
+        </div>
+    );
+}
+
 function ImportUrlPanel({ onClose }: { onClose: () => void }) {
     const [url, setUrl] = useState("");
     const [error, setError] = useState<string | null>(null);
@@ -849,6 +969,12 @@ export default function PlaylistsPage() {
                             onClick={() => toggleAction("create")}
                             primary
                         />
+                        <ActionButton
+                            icon={Sparkles}
+                            label="Smart"
+                            active={activeAction === "smart"}
+                            onClick={() => toggleAction("smart")}
+                        />
                         <ActionButton
                             icon={Link2}
                             label="Import URL"
@@ -876,6 +1002,9 @@ export default function PlaylistsPage() {
                             {activeAction === "create" && (
                                 <CreatePanel onClose={() => setActiveAction(null)} />
                             )}
+                            {activeAction === "smart" && (
+                                <SmartPanel onClose={() => setActiveAction(null)} />
+                            )}
                             {activeAction === "importUrl" && (
                                 <ImportUrlPanel onClose={() => setActiveAction(null)} />
                             )}
@@ -105,6 +105,7 @@ export default function PodcastDetailPage() {
                 <PodcastActionBar
                     isSubscribed={isSubscribed}
                     feedUrl={podcast?.feedUrl || previewData?.feedUrl}
+                    funding={podcast?.funding}
                     colors={colors}
                     isSubscribing={isSubscribing}
                     showDeleteConfirm={showDeleteConfirm}
@@ -10,6 +10,7 @@ import { GradientSpinner } from "@/components/ui/GradientSpinner";
 import { usePodcastsQuery, useTopPodcastsQuery, queryKeys } from "@/hooks/useQueries";
 import Image from "next/image";
 import { cn } from "@/utils/cn";
+import { OpmlImportExport } from "@/features/podcast/components/OpmlImportExport";
 
 const getProxiedImageUrl = (imageUrl: string | undefined): string | null => {
     if (!imageUrl) return null;
@@ -327,14 +328,17 @@ export default function PodcastsPage() {
                                             </div>
                                         </div>
                                     ) : (
-                                        <button
-                                            onClick={() => setShowRssInput(true)}
-                                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/5 border border-transparent hover:border-white/10 transition-all text-xs font-mono uppercase tracking-wider"
-                                            title="Add podcast by RSS feed URL"
-                                        >
-                                            <Rss className="w-3.5 h-3.5" />
-                                            <span className="hidden md:inline">Add RSS Feed</span>
-                                        </button>
+                                        <div className="flex items-start gap-1 flex-wrap">
+                                            <button
+                                                onClick={() => setShowRssInput(true)}
+                                                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/5 border border-transparent hover:border-white/10 transition-all text-xs font-mono uppercase tracking-wider"
+                                                title="Add podcast by RSS feed URL"
+                                            >
+                                                <Rss className="w-3.5 h-3.5" />
+                                                <span className="hidden md:inline">Add RSS Feed</span>
+                                            </button>
+                                            <OpmlImportExport />
+                                        </div>
                                     )}
                                 </div>
                             </div>
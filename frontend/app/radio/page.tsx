@@ -14,6 +14,7 @@ import {
     useRadioPlayer,
 } from "@/features/home/radioData";
 import type { RadioStation } from "@/features/home/radioData";
+import { InternetRadioSection } from "@/features/radio/components/InternetRadioSection";
 
 function RadioStationCard({
     station,
@@ -250,6 +251,8 @@ export default function RadioPage() {
                             </section>
                         )}
 
+                        <InternetRadioSection />
+
                         {/* Info panel */}
                         <section>
                             <div className="relative overflow-hidden rounded-lg border-2 border-white/10 bg-gradient-to-br from-[#0f0f0f] to-[#0a0a0a] p-8">
@@ -12,6 +12,7 @@ import { LibraryAlbumsGrid } from "@/features/search/components/LibraryAlbumsGri
 import { LibraryPodcastsGrid } from "@/features/search/components/LibraryPodcastsGrid";
 import { LibraryAudiobooksGrid } from "@/features/search/components/LibraryAudiobooksGrid";
 import { LibraryTracksList } from "@/features/search/components/LibraryTracksList";
+import { LibraryEpisodesList } from "@/features/search/components/LibraryEpisodesList";
 import { SimilarArtistsGrid } from "@/features/search/components/SimilarArtistsGrid";
 import { AliasResolutionBanner } from "@/features/search/components/AliasResolutionBanner";
 import { UnifiedSongsList } from "@/features/search/components/UnifiedSongsList";
@@ -298,6 +299,21 @@ export default function SearchPage() {
                                 </section>
                             )}
 
+                        {/* Podcast Episodes */}
+                        {hasSearched &&
+                            showLibrary &&
+                            (libraryResults?.episodes?.length ?? 0) > 0 && (
+                                <section>
+                                    <h2 className="text-2xl font-black tracking-tight flex items-center gap-3 mb-6">
+                                        <span className="w-1 h-8 bg-gradient-to-b from-[#3b82f6] to-[#2563eb] rounded-full" />
+                                        Episodes
+                                    </h2>
+                                    <LibraryEpisodesList
+                                        episodes={libraryResults!.episodes!}
+                                    />
+                                </section>
+                            )}
+
                         {/* Audiobooks Grid */}
                         {hasSearched &&
                             showLibrary &&
@@ -15,6 +15,9 @@ import {
 import { AccountSection } from "@/features/settings/components/sections/AccountSection";
 import { SubsonicSection } from "@/features/settings/components/sections/SubsonicSection";
 import { PlaybackSection } from "@/features/settings/components/sections/PlaybackSection";
+import { EqualizerSection } from "@/features/settings/components/sections/EqualizerSection";
+import { ScrobblingSection } from "@/features/settings/components/sections/ScrobblingSection";
+import { PodcastDownloadsSection } from "@/features/settings/components/sections/PodcastDownloadsSection";
 import { DownloadPreferencesSection } from "@/features/settings/components/sections/DownloadPreferencesSection";
 import { LidarrSection } from "@/features/settings/components/sections/LidarrSection";
 import { AudiobookshelfSection } from "@/features/settings/components/sections/AudiobookshelfSection";
@@ -30,6 +33,9 @@ const sidebarItems: SidebarItem[] = [
     { id: "account", label: "Account" },
     { id: "subsonic", label: "Native Apps" },
     { id: "playback", label: "Playback" },
+    { id: "equalizer", label: "Equalizer" },
+    { id: "scrobbling", label: "Scrobbling" },
+    { id: "podcast-downloads", label: "Podcast Downloads" },
     { id: "download-preferences", label: "Download Preferences", adminOnly: true },
     { id: "lidarr", label: "Download Services", adminOnly: true },
     { id: "audiobookshelf", label: "Media Servers", adminOnly: true },
@@ -54,6 +60,7 @@ export default function SettingsPage() {
         settings: userSettings,
         updateSettings: updateUserSettings,
         saveSettings: saveUserSettings,
+        loadSettings: loadUserSettings,
     } = useSettingsData();
 
     // System settings hook (only used if admin)
@@ -138,12 +145,31 @@ export default function SettingsPage() {
                 <AccountSection />
 
                 {/* Native Apps - Subsonic */}
-                <SubsonicSection />
+                <SubsonicSection
+                    settings={userSettings}
+                    onUpdate={updateUserSettings}
+                />
 
                 {/* Playback Section */}
                 <PlaybackSection
-                    value={userSettings.playbackQuality}
-                    onChange={(quality) => updateUserSettings({ playbackQuality: quality })}
+                    settings={userSettings}
+                    onUpdate={updateUserSettings}
+                />
+
+                {/* Equalizer - saves on its own, per account or device */}
+                <EqualizerSection />
+
+                {/* Scrobbling - Last.fm */}
+                <ScrobblingSection
+                    settings={userSettings}
+                    onUpdate={updateUserSettings}
+                    onAccountChange={loadUserSettings}
+                />
+
+                {/* Podcast Downloads */}
+                <PodcastDownloadsSection
+                    settings={userSettings}
+                    onUpdate={updateUserSettings}
                 />
 
                 {/* Admin-only sections */}
@@ -32,7 +32,7 @@ interface ShareTrack {
 }
 
 interface ShareData {
-    entityType: "playlist" | "track" | "album";
+    entityType: "playlist" | "track" | "album" | "tracks";
     entity: {
         id: string;
         name?: string;
@@ -59,6 +59,9 @@ function getCoverUrl(shareData: ShareData): string | null {
     if (shareData.entityType === "track") {
         return entity.album?.coverUrl || null;
     }
+    if (shareData.entityType === "tracks") {
+        return entity.tracks?.[0]?.album?.coverUrl || null;
+    }
     return null;
 }
 
@@ -67,7 +70,7 @@ function getTracksFromEntity(shareData: ShareData): ShareTrack[] {
     if (shareData.entityType === "playlist") {
         return entity.items?.map((item) => item.track).filter(Boolean) || [];
     }
-    if (shareData.entityType === "album") {
+    if (shareData.entityType === "album" || shareData.entityType === "tracks") {
         return entity.tracks || [];
     }
     if (shareData.entityType === "track") {
@@ -88,8 +91,8 @@ function getEntityTitle(shareData: ShareData): string {
 }
 
 function getEntitySubtitle(shareData: ShareData): string {
-    if (shareData.entityType === "playlist") {
-        const count = shareData.entity.items?.length || 0;
+    if (shareData.entityType === "playlist" || shareData.entityType === "tracks") {
+        const count = shareData.entity.items?.length ?? shareData.entity.tracks?.length ?? 0;
         return `${count} track${count !== 1 ? "s" : ""}`;
     }
     if (shareData.entityType === "album") {
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, ArrowDownToLine, CheckCircle2, Loader2 } from "lucide-react";
+import { useToast } from "@/lib/toast-context";
+import { useOfflineDownloads } from "@/hooks/useOfflineDownloads";
+import {
+    downloadForOffline,
+    offlineCollectionId,
+    OfflineCollectionKind,
+    removeFromOffline,
+} from "@/lib/offline";
+import { cn } from "@/utils/cn";
+
+interface OfflineDownloadButtonProps {
+    kind: OfflineCollectionKind;
+    name: string;
+    // Known up front for albums and playlists; mixes are saved as a playlist first
+    sourceId?: string;
+    resolveSourceId?: () => Promise<string | null>;
+    className?: string;
+}
+
+/**
+ * Download an album or playlist to this device, or remove it again.
+ * Hidden unless offline downloads are enabled in settings.
+ */
+export function OfflineDownloadButton({
+    kind,
+    name,
+    sourceId,
+    resolveSourceId,
+    className,
+}: OfflineDownloadButtonProps) {
+    const { toast } = useToast();
+    const { collections, progress, offlineEnabled, wifiOnly, maxCacheSizeMb } = useOfflineDownloads();
+    const [resolvedId, setResolvedId] = useState<string | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+
+    const id = sourceId ?? resolvedId;
+    const collectionKey = id ? offlineCollectionId(kind, id) : null;
+    const collection = collections.find((c) => c.id === collectionKey);
+    const current = collectionKey ? progress[collectionKey] : undefined;
+    const isDownloading = isStarting || !!current || collection?.status === "downloading";
+
+    if (!offlineEnabled) return null;
+
+    const handleDownload = async () => {
+        setIsStarting(true);
+        try {
+            const targetId = id ?? (await resolveSourceId?.()) ?? null;
+            if (!targetId) return;
+            setResolvedId(targetId);
+            await downloadForOffline(kind, targetId, name, { wifiOnly, maxCacheSizeMb });
+            toast.success(`Downloading "${name}" for offline listening`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to start download");
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!collectionKey) return;
+        await removeFromOffline(collectionKey);
+        toast.success(`Removed "${name}" from this device`);
+    };
+
+    const needsRetry = collection?.status === "paused" || collection?.status === "error";
+    const retryTitle =
+        collection?.error === "wifi"
+            ? "Paused until Wi-Fi — tap to resume"
+            : collection?.error === "quota"
+              ? "Storage limit reached — tap to retry"
+              : "Some tracks failed — tap to retry";
+
+    return (
+        <button
+            onClick={collection?.status === "complete" ? handleRemove : handleDownload}
+            disabled={isDownloading}
+            className={cn(
+                "h-8 min-w-8 px-1.5 rounded-full hover:bg-white/10 flex items-center justify-center gap-1 transition-all",
+                collection?.status === "complete" ? "text-[#fca200]" : "text-white/60 hover:text-white",
+                className
+            )}
+            title={
+                isDownloading
+                    ? "Downloading..."
+                    : collection?.status === "complete"
+                      ? "Downloaded — tap to remove from this device"
+                      : needsRetry
+                        ? retryTitle
+                        : "Download for offline"
+            }
+        >
+            {isDownloading ? (
+                <>
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    {current && (
+                        <span className="text-[10px] font-mono">
+                            {current.completed}/{current.total}
+                        </span>
+                    )}
+                </>
+            ) : collection?.status === "complete" ? (
+                <CheckCircle2 className="w-5 h-5" />
+            ) : needsRetry ? (
+                <AlertCircle className="w-5 h-5 text-amber-400" />
+            ) : (
+                <ArrowDownToLine className="w-5 h-5" />
+            )}
+        </button>
+    );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, LogOut, UserPlus, X } from "lucide-react";
+import { api, CollaboratorRole, PlaylistCollaborator } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/lib/toast-context";
+import { queryKeys } from "@/hooks/useQueries";
+
+const inputClass =
+    "px-2.5 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-white placeholder:text-white/30 focus:outline-none focus:border-[#fca208]/50";
+
+const ROLE_LABELS: Record<CollaboratorRole, string> = {
+    editor: "Can edit",
+    viewer: "Can listen",
+};
+
+interface PlaylistCollaboratorsProps {
+    playlistId: string;
+    ownerName: string;
+    isOwner: boolean;
+    collaborators: PlaylistCollaborator[];
+    onLeave: () => void;
+}
+
+/**
+ * Members of a shared playlist. Owners invite people on this instance by
+ * username and manage roles; collaborators can only leave.
+ */
+export function PlaylistCollaborators({
+    playlistId,
+    ownerName,
+    isOwner,
+    collaborators,
+    onLeave,
+}: PlaylistCollaboratorsProps) {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const { user } = useAuth();
+    const [username, setUsername] = useState("");
+    const [role, setRole] = useState<CollaboratorRole>("editor");
+    const [isInviting, setIsInviting] = useState(false);
+    const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.playlist(playlistId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.playlists() });
+    };
+
+    const handleInvite = async () => {
+        const name = username.trim();
+        if (!name) return;
+        setIsInviting(true);
+        try {
+            await api.inviteCollaborator(playlistId, name, role);
+            setUsername("");
+            refresh();
+            toast.success(`Invited ${name}`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to invite user");
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRoleChange = async (userId: string, nextRole: CollaboratorRole) => {
+        setBusyUserId(userId);
+        try {
+            await api.updateCollaborator(playlistId, userId, nextRole);
+            refresh();
+        } catch {
+            toast.error("Failed to change role");
+        } finally {
+            setBusyUserId(null);
+        }
+    };
+
+    const handleRemove = async (userId: string) => {
+        setBusyUserId(userId);
+        try {
+            await api.removeCollaborator(playlistId, userId);
+            if (userId === user?.id) {
+                onLeave();
+                return;
+            }
+            refresh();
+        } catch {
+            toast.error("Failed to remove collaborator");
+        } finally {
+            setBusyUserId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-3 text-sm">
+                <span className="flex-1 truncate text-white">{ownerName}</span>
+                <span className="text-[10px] font-mono text-white/40 uppercase tracking-wider">Owner</span>
+            </div>
+
+            {collaborators.map((collaborator) => (
+                <div key={collaborator.userId} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 truncate text-white">
+                        {collaborator.username}
+                        {collaborator.status === "pending" && (
+                            <span className="ml-2 text-[10px] font-mono text-white/30 uppercase tracking-wider">
+                                Invited
+                            </span>
+                        )}
+                    </span>
+                    {isOwner ? (
+                        <select
+                            value={collaborator.role}
+                            disabled={busyUserId === collaborator.userId}
+                            onChange={(e) =>
+                                handleRoleChange(collaborator.userId, e.target.value as CollaboratorRole)
+                            }
+                            className={inputClass}
+                        >
+                            <option value="editor">{ROLE_LABELS.editor}</option>
+                            <option value="viewer">{ROLE_LABELS.viewer}</option>
+                        </select>
+                    ) : (
+                        <span className="text-[10px] font-mono text-white/40 uppercase tracking-wider">
+                            {ROLE_LABELS[collaborator.role]}
+                        </span>
+                    )}
+                    {(isOwner || collaborator.userId === user?.id) && (
+                        <button
+                            type="button"
+                            onClick={() => handleRemove(collaborator.userId)}
+                            disabled={busyUserId === collaborator.userId}
+                            className="p-1 rounded text-white/30 hover:text-red-400 transition-colors"
+                            title={isOwner ? "Remove" : "Leave playlist"}
+                        >
+                            {busyUserId === collaborator.userId ? (
+                                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            ) : isOwner ? (
+                                <X className="w-3.5 h-3.5" />
+                            ) : (
+                                <LogOut className="w-3.5 h-3.5" />
+                            )}
+                        </button>
+                    )}
+                </div>
+            ))}
+
+            {isOwner && (
+                <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-white/5">
+                    <input
+                        type="text"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") handleInvite();
+                        }}
+                        placeholder="Username"
+                        className={inputClass}
+                    />
+                    <select
+                        value={role}
+                        onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+                        className={inputClass}
+                    >
+                        <option value="editor">{ROLE_LABELS.editor}</option>
+                        <option value="viewer">{ROLE_LABELS.viewer}</option>
+                    </select>
+                    <button
+                        type="button"
+                        onClick={handleInvite}
+                        disabled={isInviting || !username.trim()}
+                        className="px-3 py-1.5 rounded-lg text-xs font-black bg-[#fca208] text-black hover:bg-[#f97316] transition-colors uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        {isInviting ? (
+                            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : (
+                            <UserPlus className="w-3.5 h-3.5" />
+                        )}
+                        Invite
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X, Loader2, Check, FolderPlus } from "lucide-react";
+import type { SmartCondition, SmartPlaylistRules, SmartRuleGroup } from "@/lib/api";
+import { cn } from "@/utils/cn";
+
+type FieldKind = "text" | "key" | "number" | "score" | "date" | "boolean";
+
+const FIELDS: Array<{ value: string; label: string; kind: FieldKind }> = [
+    { value: "genre", label: "Genre", kind: "text" },
+    { value: "artist", label: "Artist", kind: "text" },
+    { value: "year", label: "Year", kind: "number" },
+    { value: "bpm", label: "BPM", kind: "number" },
+    { value: "key", label: "Key", kind: "key" },
+    { value: "energy", label: "Energy", kind: "score" },
+    { value: "valence", label: "Valence", kind: "score" },
+    { value: "arousal", label: "Arousal", kind: "score" },
+    { value: "danceability", label: "Danceability", kind: "score" },
+    { value: "moodHappy", label: "Mood: happy", kind: "score" },
+    { value: "moodSad", label: "Mood: sad", kind: "score" },
+    { value: "moodRelaxed", label: "Mood: relaxed", kind: "score" },
+    { value: "moodAggressive", label: "Mood: aggressive", kind: "score" },
+    { value: "moodParty", label: "Mood: party", kind: "score" },
+    { value: "moodAcoustic", label: "Mood: acoustic", kind: "score" },
+    { value: "moodElectronic", label: "Mood: electronic", kind: "score" },
+    { value: "playCount", label: "Play count", kind: "number" },
+    { value: "lastPlayed", label: "Last played", kind: "date" },
+    { value: "rating", label: "Rating", kind: "number" },
+    { value: "dateAdded", label: "Date added", kind: "date" },
+    { value: "liked", label: "Liked", kind: "boolean" },
+];
+
+const NUMBER_OPERATORS = [
+    { value: "is", label: "is" },
+    { value: "isNot", label: "is not" },
+    { value: "gt", label: "greater than" },
+    { value: "lt", label: "less than" },
+    { value: "inTheRange", label: "between" },
+];
+
+const OPERATORS: Record<FieldKind, Array<{ value: string; label: string }>> = {
+    text: [
+        { value: "is", label: "is" },
+        { value: "isNot", label: "is not" },
+        { value: "contains", label: "contains" },
+        { value: "notContains", label: "does not contain" },
+    ],
+    key: [
+        { value: "is", label: "is" },
+        { value: "isNot", label: "is not" },
+    ],
+    number: NUMBER_OPERATORS,
+    score: NUMBER_OPERATORS,
+    date: [
+        { value: "inTheLast", label: "in the last (days)" },
+        { value: "notInTheLast", label: "not in the last (days)" },
+        { value: "before", label: "before" },
+        { value: "after", label: "after" },
+    ],
+    boolean: [{ value: "is", label: "is" }],
+};
+
+const SORT_FIELDS = [
+    { value: "", label: "Artist & album" },
+    { value: "title", label: "Title" },
+    { value: "artist", label: "Artist" },
+    { value: "album", label: "Album" },
+    { value: "year", label: "Year" },
+    { value: "bpm", label: "BPM" },
+    { value: "energy", label: "Energy" },
+    { value: "valence", label: "Valence" },
+    { value: "danceability", label: "Danceability" },
+    { value: "dateAdded", label: "Date added" },
+    { value: "playCount", label: "Play count" },
+    { value: "lastPlayed", label: "Last played" },
+    { value: "rating", label: "Rating" },
+    { value: "random", label: "Random" },
+];
+
+const inputClass =
+    "px-2.5 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-white placeholder:text-white/30 focus:outline-none focus:border-[#fca208]/50";
+
+function kindOf(field: string): FieldKind {
+    return FIELDS.find((f) => f.value === field)?.kind ?? "text";
+}
+
+function defaultValue(kind: FieldKind, operator: string): SmartCondition["value"] {
+    if (kind === "boolean") return true;
+    if (operator === "inTheRange") return kind === "score" ? [0, 1] : [0, 0];
+    if (operator === "inTheLast" || operator === "notInTheLast") return 30;
+    if (operator === "before" || operator === "after") return new Date().toISOString().slice(0, 10);
+    if (kind === "score") return 0.5;
+    if (kind === "number") return 0;
+    return "";
+}
+
+function newCondition(field = "genre"): SmartCondition {
+    const kind = kindOf(field);
+    const operator = OPERATORS[kind][0].value;
+    return { field, operator, value: defaultValue(kind, operator) };
+}
+
+function isGroup(rule: SmartCondition | SmartRuleGroup): rule is SmartRuleGroup {
+    return "conditions" in rule;
+}
+
+function ValueInput({
+    condition,
+    onChange,
+}: {
+    condition: SmartCondition;
+    onChange: (value: SmartCondition["value"]) => void;
+}) {
+    const kind = kindOf(condition.field);
+    const step = kind === "score" ? 0.05 : 1;
+
+    if (kind === "boolean") {
+        return (
+            <select
+                value={condition.value ? "true" : "false"}
+                onChange={(e) => onChange(e.target.value === "true")}
+                className={inputClass}
+            >
+                <option value="true">yes</option>
+                <option value="false">no</option>
+            </select>
+        );
+    }
+
+    if (condition.operator === "inTheRange") {
+        const [min, max] = condition.value as [number, number];
+        return (
+            <div className="flex items-center gap-1.5">
+                <input
+                    type="number"
+                    step={step}
+                    value={min}
+                    onChange={(e) => onChange([Number(e.target.value), max])}
+                    className={cn(inputClass, "w-20")}
+                />
+                <span className="text-xs text-white/30">and</span>
+                <input
+                    type="number"
+                    step={step}
+                    value={max}
+                    onChange={(e) => onChange([min, Number(e.target.value)])}
+                    className={cn(inputClass, "w-20")}
+                />
+            </div>
+        );
+    }
+
+    if (condition.operator === "before" || condition.operator === "after") {
+        return (
+            <input
+                type="date"
+                value={condition.value as string}
+                onChange={(e) => onChange(e.target.value)}
+                className={inputClass}
+            />
+        );
+    }
+
+    if (kind === "text" || kind === "key") {
+        return (
+            <input
+                type="text"
+                value={condition.value as string}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder={kind === "key" ? "e.g. A minor" : ""}
+                className={cn(inputClass, "w-40")}
+            />
+        );
+    }
+
+    return (
+        <input
+            type="number"
+            step={step}
+            min={kind === "date" ? 1 : undefined}
+            value={condition.value as number}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className={cn(inputClass, "w-24")}
+        />
+    );
+}
+
+function ConditionRow({
+    condition,
+    onChange,
+    onRemove,
+}: {
+    condition: SmartCondition;
+    onChange: (condition: SmartCondition) => void;
+    onRemove: () => void;
+}) {
+    const kind = kindOf(condition.field);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select
+                value={condition.field}
+                onChange={(e) => onChange(newCondition(e.target.value))}
+                className={inputClass}
+            >
+                {FIELDS.map((f) => (
+                    <option key={f.value} value={f.value}>
+                        {f.label}
+                    </option>
+                ))}
+            </select>
+            <select
+                value={condition.operator}
+                onChange={(e) =>
+                    onChange({
+                        ...condition,
+                        operator: e.target.value,
+                        value: defaultValue(kind, e.target.value),
+                    })
+                }
+                className={inputClass}
+            >
+                {OPERATORS[kind].map((op) => (
+                    <option key={op.value} value={op.value}>
+                        {op.label}
+                    </option>
+                ))}
+            </select>
+            <ValueInput condition={condition} onChange={(value) => onChange({ ...condition, value })} />
+            <button
+                type="button"
+                onClick={onRemove}
+                className="p-1 rounded text-white/30 hover:text-red-400 transition-colors"
+                title="Remove rule"
+            >
+                <X className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+}
+
+function GroupEditor({
+    group,
+    nested = false,
+    onChange,
+    onRemove,
+}: {
+    group: SmartRuleGroup;
+    nested?: boolean;
+    onChange: (group: SmartRuleGroup) => void;
+    onRemove?: () => void;
+}) {
+    const updateAt = (index: number, rule: SmartCondition | SmartRuleGroup) =>
+        onChange({ ...group, conditions: group.conditions.map((r, i) => (i === index ? rule : r)) });
+    const removeAt = (index: number) =>
+        onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+    return (
+        <div className={cn("space-y-2", nested && "pl-3 border-l-2 border-[#fca208]/30")}>
+            <div className="flex items-center gap-2">
+                <select
+                    value={group.match}
+                    onChange={(e) => onChange({ ...group, match: e.target.value as SmartRuleGroup["match"] })}
+                    className={inputClass}
+                >
+                    <option value="all">Match all of</option>
+                    <option value="any">Match any of</option>
+                </select>
+                {onRemove && (
+                    <button
+                        type="button"
+                        onClick={onRemove}
+                        className="p-1 rounded text-white/30 hover:text-red-400 transition-colors"
+                        title="Remove group"
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {group.conditions.map((rule, index) =>
+                isGroup(rule) ? (
+                    <GroupEditor
+                        key={index}
+                        group={rule}
+                        nested
+                        onChange={(g) => updateAt(index, g)}
+                        onRemove={() => removeAt(index)}
+                    />
+                ) : (
+                    <ConditionRow
+                        key={index}
+                        condition={rule}
+                        onChange={(c) => updateAt(index, c)}
+                        onRemove={() => removeAt(index)}
+                    />
+                )
+            )}
+
+            <div className="flex items-center gap-3">
+                <button
+                    type="button"
+                    onClick={() => onChange({ ...group, conditions: [...group.conditions, newCondition()] })}
+                    className="flex items-center gap-1 text-xs font-mono uppercase tracking-wider text-[#fca208] hover:text-[#f97316] transition-colors"
+                >
+                    <Plus className="w-3 h-3" />
+                    Rule
+                </button>
+                {!nested && (
+                    <button
+                        type="button"
+                        onClick={() =>
+                            onChange({
+                                ...group,
+                                conditions: [
+                                    ...group.conditions,
+                                    { match: group.match === "all" ? "any" : "all", conditions: [newCondition()] },
+                                ],
+                            })
+                        }
+                        className="flex items-center gap-1 text-xs font-mono uppercase tracking-wider text-white/40 hover:text-white/70 transition-colors"
+                    >
+                        <FolderPlus className="w-3 h-3" />
+                        Group
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export function SmartPlaylistEditor({
+    initial,
+    submitLabel,
+    isSubmitting,
+    onSubmit,
+    onCancel,
+}: {
+    initial?: SmartPlaylistRules;
+    submitLabel: string;
+    isSubmitting: boolean;
+    onSubmit: (rules: SmartPlaylistRules) => void;
+    onCancel: () => void;
+}) {
+    const [rules, setRules] = useState<SmartRuleGroup>(
+        initial?.rules ?? { match: "all", conditions: [newCondition()] }
+    );
+    const [sortField, setSortField] = useState(initial?.sort?.field ?? "");
+    const [sortOrder, setSortOrder] = useState<"asc" | "desc">(initial?.sort?.order ?? "asc");
+    const [limit, setLimit] = useState(initial?.limit ? String(initial.limit) : "");
+
+    const handleSubmit = () => {
+        const parsedLimit = parseInt(limit, 10);
+        onSubmit({
+            rules,
+            ...(sortField && { sort: { field: sortField, order: sortOrder } }),
+            ...(parsedLimit > 0 && { limit: parsedLimit }),
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <GroupEditor group={rules} onChange={setRules} />
+
+            <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-white/5">
+                <span className="text-xs font-mono text-white/40 uppercase tracking-wider">Sort by</span>
+                <select value={sortField} onChange={(e) => setSortField(e.target.value)} className={inputClass}>
+                    {SORT_FIELDS.map((f) => (
+                        <option key={f.value} value={f.value}>
+                            {f.label}
+                        </option>
+                    ))}
+                </select>
+                {sortField && sortField !== "random" && (
+                    <select
+                        value={sortOrder}
+                        onChange={(e) => setSortOrder(e.target.value as "asc" | "desc")}
+                        className={inputClass}
+                    >
+                        <option value="asc">ascending</option>
+                        <option value="desc">descending</option>
+                    </select>
+                )}
+                <span className="text-xs font-mono text-white/40 uppercase tracking-wider ml-2">Limit</span>
+                <input
+                    type="number"
+                    min={1}
+                    value={limit}
+                    onChange={(e) => setLimit(e.target.value)}
+                    placeholder="No limit"
+                    className={cn(inputClass, "w-24")}
+                />
+                <div className="flex-1" />
+                <button
+                    type="button"
+                    onClick={handleSubmit}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 rounded-lg text-xs font-black bg-[#fca208] text-black hover:bg-[#f97316] transition-colors uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                    {isSubmitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                    {submitLabel}
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-3 py-2 rounded-lg text-xs font-mono text-white/40 hover:text-white/70 transition-colors"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+}
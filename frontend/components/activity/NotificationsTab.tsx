@@ -146,6 +146,7 @@ export function NotificationsTab() {
                 return <AlertCircle className="w-4 h-4 text-red-400" />;
             case "playlist_ready":
             case "import_complete":
+            case "playlist_invite":
                 return <ListMusic className="w-4 h-4 text-[#ecb200]" />;
             case "system":
             default:
@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useEffect, useRef, useState } from "react";
-import { Settings, RefreshCw, LogOut, Compass, X, Radio } from "lucide-react";
+import { Settings, RefreshCw, LogOut, Compass, X, Radio, ArrowDownToLine } from "lucide-react";
 import { useQueryClient } from "@tanstack/react-query";
 import { cn } from "@/utils/cn";
 import { api } from "@/lib/api";
@@ -164,6 +164,25 @@ export function MobileSidebar({ isOpen, onClose }: MobileSidebarProps) {
                                 Radio
                             </span>
                         </Link>
+
+                        <Link
+                            href="/offline"
+                            aria-current={
+                                pathname === "/offline" ? "page" : undefined
+                            }
+                            aria-label="Downloads"
+                            className={cn(
+                                "flex items-center gap-3 px-3 py-3 rounded-lg transition-colors",
+                                pathname === "/offline" ?
+                                    "bg-white/10 text-white"
+                                :   "text-gray-400 hover:text-white hover:bg-white/5",
+                            )}
+                        >
+                            <ArrowDownToLine className="w-5 h-5" />
+                            <span className="text-[15px] font-medium">
+                                Downloads
+                            </span>
+                        </Link>
                     </div>
 
                     {/* Actions Section */}
@@ -21,9 +21,10 @@ const allNavigation = [
     { name: "Radio", href: "/radio", feature: null },
     { name: "Discovery", href: "/discover", feature: null },
     { name: "Vibe", href: "/vibe", feature: null },
-    { name: "Audiobooks", href: "/audiobooks", feature: "audiobookshelfEnabled" as const },
+    { name: "Audiobooks", href: "/audiobooks", feature: "audiobooksEnabled" as const },
     { name: "Podcasts", href: "/podcasts", feature: null },
     { name: "Browse", href: "/browse/playlists", feature: null },
+    { name: "Downloads", href: "/offline", feature: null },
 ];
 
 interface Playlist {
@@ -41,9 +42,9 @@ export function Sidebar() {
     const queryClient = useQueryClient();
     const { isAuthenticated } = useAuth();
     const { toast } = useToast();
-    const { currentTrack, currentAudiobook, currentPodcast, playbackType } =
+    const { currentTrack, currentAudiobook, currentPodcast, currentRadio, playbackType } =
         useAudioState();
-    const { audiobookshelfEnabled } = useFeatures();
+    const { audiobooksEnabled } = useFeatures();
     const isMobile = useIsMobile();
     const isTablet = useIsTablet();
     const isMobileOrTablet = isMobile || isTablet;
@@ -183,7 +184,8 @@ export function Sidebar() {
                             {(
                                 !currentTrack &&
                                 !currentAudiobook &&
-                                !currentPodcast
+                                !currentPodcast &&
+                                !currentRadio
                             ) ?
                                 <p className="text-sm text-gray-400 font-medium">
                                     Stream Your Way
@@ -208,6 +210,11 @@ export function Sidebar() {
                                             currentPodcast
                                         ) ?
                                             currentPodcast.podcastTitle
+                                        : (
+                                            playbackType === "radio" &&
+                                            currentRadio
+                                        ) ?
+                                            currentRadio.name
                                         :   ""}
                                     </span>
                                 </div>
@@ -270,7 +277,7 @@ export function Sidebar() {
                 </div>
                 <div className="space-y-0.5">
                     {allNavigation.filter((item) =>
-                        item.feature === null || (item.feature === "audiobookshelfEnabled" && audiobookshelfEnabled)
+                        item.feature === null || (item.feature === "audiobooksEnabled" && audiobooksEnabled)
                     ).map((item, index) => {
                         const isActive = pathname === item.href;
 
@@ -48,6 +48,7 @@ export function TVLayout({ children }: { children: React.ReactNode }) {
         currentTrack,
         currentAudiobook,
         currentPodcast,
+        currentRadio,
         playbackType,
         isPlaying,
         pause,
@@ -84,7 +85,7 @@ export function TVLayout({ children }: { children: React.ReactNode }) {
         durationRef.current = duration;
     }, [duration]);
 
-    const hasMedia = !!(currentTrack || currentAudiobook || currentPodcast);
+    const hasMedia = !!(currentTrack || currentAudiobook || currentPodcast || currentRadio);
 
     let title = "";
     let artist = "";
@@ -108,6 +109,9 @@ export function TVLayout({ children }: { children: React.ReactNode }) {
         coverUrl = currentPodcast.coverUrl
             ? api.getCoverArtUrl(currentPodcast.coverUrl, 96)
             : null;
+    } else if (playbackType === "radio" && currentRadio) {
+        title = currentRadio.name;
+        artist = "Internet Radio";
     }
 
     // CRITICAL: Clamp currentTime to prevent display of invalid times
@@ -0,0 +1,362 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import Image from "next/image";
+import {
+    ArrowDownToLine,
+    Laptop,
+    MonitorSpeaker,
+    Music as MusicIcon,
+    Pause,
+    Play,
+    Send,
+    SkipBack,
+    SkipForward,
+    Smartphone,
+    Tv,
+    Volume2,
+} from "lucide-react";
+import { cn } from "@/utils/cn";
+import { formatTime } from "@/utils/formatTime";
+import { api, ConnectCommand, ConnectDevice, ConnectDeviceType } from "@/lib/api";
+import { dispatchConnectCommand, getConnectIdentity } from "@/lib/connect";
+import { useAudioState } from "@/lib/audio-state-context";
+import { useAudioController } from "@/lib/audio-controller-context";
+import { useConnectDevices } from "@/hooks/useConnect";
+import { useToast } from "@/lib/toast-context";
+
+// How long "Transfer playback here" waits for the music to arrive
+const TRANSFER_TIMEOUT_MS = 5000;
+
+const DEVICE_ICONS: Record<ConnectDeviceType, typeof Laptop> = {
+    web: Laptop,
+    tv: Tv,
+    mobile: Smartphone,
+};
+
+// Reports come in on changes and every few seconds; fill in the gaps
+function estimatePosition(device: ConnectDevice, now: number): number {
+    const state = device.state;
+    if (!state) return 0;
+    if (!state.isPlaying) return state.position;
+    const elapsed = Math.max(0, (now - new Date(state.updatedAt).getTime()) / 1000);
+    return state.duration > 0 ? Math.min(state.position + elapsed, state.duration) : state.position + elapsed;
+}
+
+interface ConnectDevicePickerProps {
+    size?: "sm" | "md";
+}
+
+/**
+ * Kima Connect: the user's other open players, to watch and control from
+ * here, send this queue to, or pull their playback over to this device.
+ */
+export function ConnectDevicePicker({ size = "md" }: ConnectDevicePickerProps) {
+    const { data: devices = [] } = useConnectDevices();
+    const { playbackType, queue } = useAudioState();
+    const controller = useAudioController();
+    const { toast } = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const popoverRef = useRef<HTMLDivElement>(null);
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const transferRef = useRef<{ timeout: ReturnType<typeof setTimeout>; onPlay: () => void } | null>(null);
+
+    const selected = devices.find((device) => device.id === selectedId) ?? null;
+    const isRemotePlaying = devices.some((device) => device.state?.isPlaying);
+
+    // Close on outside click or Escape
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (e: MouseEvent) => {
+            if (
+                popoverRef.current && !popoverRef.current.contains(e.target as Node) &&
+                buttonRef.current && !buttonRef.current.contains(e.target as Node)
+            ) {
+                setIsOpen(false);
+            }
+        };
+
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === "Escape") setIsOpen(false);
+        };
+
+        document.addEventListener("mousedown", handleClick);
+        document.addEventListener("keydown", handleKey);
+        return () => {
+            document.removeEventListener("mousedown", handleClick);
+            document.removeEventListener("keydown", handleKey);
+        };
+    }, [isOpen]);
+
+    // Keep remote positions moving while they're on screen
+    useEffect(() => {
+        if (!isOpen) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [isOpen]);
+
+    useEffect(() => () => {
+        if (transferRef.current) {
+            clearTimeout(transferRef.current.timeout);
+            controller?.off("play", transferRef.current.onPlay);
+        }
+    }, [controller]);
+
+    const send = (device: ConnectDevice, command: ConnectCommand) => {
+        api.sendConnectCommand(device.id, command).catch(() => {
+            toast.error(`${device.name} is no longer connected`);
+        });
+    };
+
+    const transferHere = (device: ConnectDevice) => {
+        if (!controller || transferRef.current) return;
+
+        const onPlay = () => {
+            if (!transferRef.current) return;
+            clearTimeout(transferRef.current.timeout);
+            controller.off("play", onPlay);
+            transferRef.current = null;
+        };
+        const timeout = setTimeout(() => {
+            controller.off("play", onPlay);
+            transferRef.current = null;
+            toast.error(`Couldn't transfer playback from ${device.name}`);
+        }, TRANSFER_TIMEOUT_MS);
+        transferRef.current = { timeout, onPlay };
+        controller.on("play", onPlay);
+
+        send(device, { type: "transfer", toDeviceId: getConnectIdentity().id });
+        setIsOpen(false);
+    };
+
+    // The receiver on this device hands the queue over, same as when asked remotely
+    const transferThere = (device: ConnectDevice) => {
+        dispatchConnectCommand({ type: "transfer", toDeviceId: device.id });
+        setIsOpen(false);
+    };
+
+    const iconSize = size === "sm" ? "w-3.5 h-3.5" : "w-4 h-4";
+
+    return (
+        <div className="relative">
+            <button
+                ref={buttonRef}
+                onClick={() => setIsOpen(!isOpen)}
+                className={cn(
+                    "transition-all duration-200 hover:scale-110 flex items-center gap-1",
+                    isRemotePlaying
+                        ? "text-brand hover:text-brand-hover"
+                        : "text-gray-400 hover:text-white"
+                )}
+                aria-label="Devices"
+                aria-expanded={isOpen}
+                aria-haspopup="dialog"
+                title="Devices"
+            >
+                <MonitorSpeaker className={iconSize} />
+            </button>
+
+            {isOpen && (
+                <div
+                    ref={popoverRef}
+                    role="dialog"
+                    aria-label="Devices"
+                    className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-2xl overflow-hidden z-50"
+                >
+                    <div className="px-3 py-2 border-b border-white/[0.06]">
+                        <span className="text-xs text-gray-400 font-medium uppercase tracking-wider">Devices</span>
+                        <p className="text-[11px] text-gray-500 truncate">
+                            This device: {getConnectIdentity().name}
+                        </p>
+                    </div>
+
+                    {devices.length === 0 ? (
+                        <p className="px-3 py-4 text-sm text-gray-400">
+                            Open Kima on another device to control it from here.
+                        </p>
+                    ) : (
+                        <div className="p-1.5 max-h-64 overflow-y-auto">
+                            {devices.map((device) => {
+                                const Icon = DEVICE_ICONS[device.type];
+                                const isSelected = device.id === selectedId;
+                                return (
+                                    <button
+                                        key={device.id}
+                                        onClick={() => setSelectedId(isSelected ? null : device.id)}
+                                        className={cn(
+                                            "w-full flex items-center gap-2.5 text-left px-3 py-2 rounded transition-colors hover:bg-white/[0.06]",
+                                            isSelected && "bg-white/[0.06]"
+                                        )}
+                                    >
+                                        <Icon
+                                            className={cn(
+                                                "w-4 h-4 flex-shrink-0",
+                                                device.state?.isPlaying ? "text-brand" : "text-gray-400"
+                                            )}
+                                        />
+                                        <span className="min-w-0">
+                                            <span className="block text-sm text-white truncate">{device.name}</span>
+                                            <span className="block text-xs text-gray-500 truncate">
+                                                {device.state?.title
+                                                    ? [device.state.title, device.state.subtitle].filter(Boolean).join(" · ")
+                                                    : "Idle"}
+                                            </span>
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {selected && (
+                        <RemoteControls
+                            key={selected.id}
+                            device={selected}
+                            position={estimatePosition(selected, now)}
+                            canSendQueue={playbackType === "track" && queue.length > 0}
+                            onCommand={(command) => send(selected, command)}
+                            onTransferHere={() => transferHere(selected)}
+                            onTransferThere={() => transferThere(selected)}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface RemoteControlsProps {
+    device: ConnectDevice;
+    position: number;
+    canSendQueue: boolean;
+    onCommand: (command: ConnectCommand) => void;
+    onTransferHere: () => void;
+    onTransferThere: () => void;
+}
+
+function RemoteControls({
+    device,
+    position,
+    canSendQueue,
+    onCommand,
+    onTransferHere,
+    onTransferThere,
+}: RemoteControlsProps) {
+    const state = device.state;
+    // Sliders show the drag, and send once it's let go
+    const [seekDraft, setSeekDraft] = useState<number | null>(null);
+    const [volumeDraft, setVolumeDraft] = useState<number | null>(null);
+
+    const commitSeek = () => {
+        if (seekDraft === null) return;
+        onCommand({ type: "seek", position: seekDraft });
+        setSeekDraft(null);
+    };
+    const commitVolume = () => {
+        if (volumeDraft === null) return;
+        onCommand({ type: "volume", volume: volumeDraft });
+        setVolumeDraft(null);
+    };
+
+    const buttonClass = "text-gray-300 hover:text-white transition-colors disabled:text-gray-600";
+    const actionClass =
+        "flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded text-xs text-gray-300 hover:bg-white/[0.06] hover:text-white transition-colors disabled:text-gray-600 disabled:hover:bg-transparent";
+
+    return (
+        <div className="px-3 py-3 border-t border-white/[0.06] space-y-3">
+            {state?.title && (
+                <div className="flex items-center gap-2.5">
+                    <div className="relative w-10 h-10 flex-shrink-0 bg-[#2a2a2a] rounded overflow-hidden flex items-center justify-center">
+                        {state.coverUrl ? (
+                            <Image
+                                src={api.getCoverArtUrl(state.coverUrl, 100)}
+                                alt={state.title}
+                                fill
+                                sizes="40px"
+                                className="object-cover"
+                                unoptimized
+                            />
+                        ) : (
+                            <MusicIcon className="w-4 h-4 text-gray-500" />
+                        )}
+                    </div>
+                    <div className="min-w-0">
+                        <p className="text-sm text-white truncate">{state.title}</p>
+                        {state.subtitle && <p className="text-xs text-gray-400 truncate">{state.subtitle}</p>}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex items-center justify-center gap-6">
+                <button onClick={() => onCommand({ type: "previous" })} className={buttonClass} aria-label="Previous">
+                    <SkipBack className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => onCommand({ type: state?.isPlaying ? "pause" : "play" })}
+                    className="w-8 h-8 rounded-full bg-white text-black flex items-center justify-center hover:scale-105 transition-transform"
+                    aria-label={state?.isPlaying ? `Pause ${device.name}` : `Play on ${device.name}`}
+                >
+                    {state?.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+                </button>
+                <button onClick={() => onCommand({ type: "next" })} className={buttonClass} aria-label="Next">
+                    <SkipForward className="w-4 h-4" />
+                </button>
+            </div>
+
+            {state && state.duration > 0 && (
+                <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-mono tabular-nums text-gray-500 w-9 text-right">
+                        {formatTime(seekDraft ?? position)}
+                    </span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={state.duration}
+                        step={1}
+                        value={seekDraft ?? position}
+                        onChange={(e) => setSeekDraft(parseFloat(e.target.value))}
+                        onPointerUp={commitSeek}
+                        onKeyUp={commitSeek}
+                        aria-label={`Position on ${device.name}`}
+                        className="flex-1 h-1 rounded-full appearance-none cursor-pointer bg-white/15 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2.5 [&::-webkit-slider-thumb]:h-2.5 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                    <span className="text-[10px] font-mono tabular-nums text-gray-500 w-9">
+                        {formatTime(state.duration)}
+                    </span>
+                </div>
+            )}
+
+            {state && (
+                <div className="flex items-center gap-2">
+                    <Volume2 className="w-3.5 h-3.5 text-gray-400" />
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={(volumeDraft ?? state.volume) * 100}
+                        onChange={(e) => setVolumeDraft(parseInt(e.target.value) / 100)}
+                        onPointerUp={commitVolume}
+                        onKeyUp={commitVolume}
+                        aria-label={`Volume on ${device.name}`}
+                        className="flex-1 h-1 rounded-full appearance-none cursor-pointer bg-white/15 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2.5 [&::-webkit-slider-thumb]:h-2.5 [&::-webkit-slider-thumb]:bg-[#eab308] [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                </div>
+            )}
+
+            <div className="flex gap-1">
+                {/* Only a music queue can move between devices */}
+                <button onClick={onTransferHere} disabled={state?.playbackType !== "track"} className={actionClass}>
+                    <ArrowDownToLine className="w-3.5 h-3.5" />
+                    Transfer here
+                </button>
+                <button onClick={onTransferThere} disabled={!canSendQueue} className={actionClass}>
+                    <Send className="w-3.5 h-3.5" />
+                    Play my queue there
+                </button>
+            </div>
+        </div>
+    );
+}
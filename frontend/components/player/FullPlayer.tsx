@@ -41,7 +41,10 @@ import { useFeatures } from "@/lib/features-context";
 import { formatTime, formatTimeRemaining } from "@/utils/formatTime";
 import { SeekSlider } from "./SeekSlider";
 import { SleepTimer } from "./SleepTimer";
+import { ConnectDevicePicker } from "./ConnectDevicePicker";
+import { SpectrumVisualizer } from "./SpectrumVisualizer";
 import { useLyricsToggle } from "@/hooks/useLyricsToggle";
+import { useEpisodeChapters } from "@/features/podcast/hooks/useEpisodeChapters";
 
 
 export function FullPlayer() {
@@ -91,6 +94,7 @@ export function FullPlayer() {
     const [showPlaylistSelector, setShowPlaylistSelector] = useState(false);
     const { vibeEmbeddings, loading: featuresLoading } = useFeatures();
     const { handleLyricsToggle, isLyricsActive } = useLyricsToggle({ isMobile: false });
+    const chapters = useEpisodeChapters();
     const { mutateAsync: addToPlaylist } = useAddToPlaylistMutation();
 
     const currentTrackFeatures = queue[currentIndex]?.audioFeatures || null;
@@ -114,7 +118,8 @@ export function FullPlayer() {
             <div className="bg-black border-t border-white/[0.08] h-24">
                 {/* Brand accent line */}
                 <div className="absolute top-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-brand/40 to-transparent" />
-                <div className="flex items-center h-full px-6 gap-6">
+                <SpectrumVisualizer isPlaying={isPlaying} className="absolute inset-0 w-full h-full" />
+                <div className="relative flex items-center h-full px-6 gap-6">
                     {/* Artwork & Info */}
                     <div className="flex items-center gap-4 w-80">
                         {mediaLink ? (
@@ -202,6 +207,7 @@ export function FullPlayer() {
                             )}
                         </div>
                         <SleepTimer />
+                        <ConnectDevicePicker />
                     </div>
 
                     {/* Controls */}
@@ -410,8 +416,8 @@ export function FullPlayer() {
                                 </button>
                             )}
 
-                            {/* Lyrics Toggle */}
-                            {playbackType === "track" && (
+                            {/* Lyrics / Transcript Toggle */}
+                            {(playbackType === "track" || playbackType === "podcast") && (
                                 <button
                                     onClick={handleLyricsToggle}
                                     className={cn(
@@ -423,8 +429,8 @@ export function FullPlayer() {
                                             : "text-gray-400 hover:text-brand"
                                     )}
                                     disabled={!hasMedia}
-                                    aria-label="Toggle lyrics"
-                                    title="Show lyrics"
+                                    aria-label={playbackType === "podcast" ? "Toggle transcript" : "Toggle lyrics"}
+                                    title={playbackType === "podcast" ? "Show transcript" : "Show lyrics"}
                                 >
                                     <MicVocal className="w-4 h-4" />
                                 </button>
@@ -477,6 +483,7 @@ export function FullPlayer() {
                                 canSeek={canSeek}
                                 hasMedia={hasMedia}
                                 downloadProgress={downloadProgress}
+                                markers={chapters}
                                 variant="default"
                                 className="flex-1"
                             />
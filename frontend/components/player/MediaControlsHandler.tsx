@@ -2,14 +2,17 @@
 
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { useMediaSession } from "@/hooks/useMediaSession";
+import { useConnectReceiver } from "@/hooks/useConnect";
 
 /**
- * Invisible component that registers keyboard shortcuts and Media Session API
+ * Invisible component that registers keyboard shortcuts, Media Session API
+ * and Kima Connect remote control
  * Should be placed at the root level of the app
  */
 export function MediaControlsHandler() {
   useKeyboardShortcuts();
   useMediaSession();
+  useConnectReceiver();
 
   return null; // This component doesn't render anything
 }
@@ -38,6 +38,7 @@ export function MiniPlayer() {
         currentTrack,
         currentAudiobook,
         currentPodcast,
+        currentRadio,
         playbackType,
         isShuffle,
         repeatMode,
@@ -76,7 +77,7 @@ export function MiniPlayer() {
     const [lastMediaId, setLastMediaId] = useState<string | null>(null);
 
     const currentMediaId =
-        currentTrack?.id || currentAudiobook?.id || currentPodcast?.id;
+        currentTrack?.id || currentAudiobook?.id || currentPodcast?.id || currentRadio?.id;
 
     // Reset dismissed/minimized on media change or resume (render-time derived state)
     if (currentMediaId && currentMediaId !== lastMediaId) {
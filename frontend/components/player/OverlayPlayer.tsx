@@ -29,6 +29,7 @@ import { usePlaybackProgress } from "@/hooks/usePlaybackProgress";
 import { useIsMobile, useIsTablet } from "@/hooks/useMediaQuery";
 import { SeekSlider } from "./SeekSlider";
 import { SleepTimer } from "./SleepTimer";
+import { ConnectDevicePicker } from "./ConnectDevicePicker";
 import { useFeatures } from "@/lib/features-context";
 import { MobileLyricsView } from "@/components/lyrics/MobileLyricsView";
 import { useLyricsToggle } from "@/hooks/useLyricsToggle";
@@ -38,6 +39,7 @@ export function OverlayPlayer() {
         currentTrack,
         currentAudiobook,
         currentPodcast,
+        currentRadio,
         playbackType,
         isShuffle,
         repeatMode,
@@ -78,7 +80,7 @@ export function OverlayPlayer() {
     const { handleLyricsToggle, isLyricsActive } = useLyricsToggle({ isMobile: isMobileOrTablet });
     const { title, subtitle, coverUrl, artistLink, mediaLink, hasMedia } = useMediaInfo(500);
 
-    if (!currentTrack && !currentAudiobook && !currentPodcast) return null;
+    if (!currentTrack && !currentAudiobook && !currentPodcast && !currentRadio) return null;
 
     const canSkip = playbackType === "track";
 
@@ -367,6 +369,7 @@ export function OverlayPlayer() {
                     {/* Secondary Controls */}
                     <div className="flex items-center justify-center gap-8">
                         <SleepTimer />
+                        <ConnectDevicePicker />
 
                         <button
                             onClick={toggleShuffle}
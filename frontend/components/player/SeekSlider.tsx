@@ -22,6 +22,8 @@ interface SeekSliderProps {
     showHandle?: boolean;
     /** Variant styling */
     variant?: "default" | "minimal" | "overlay";
+    /** Chapter start times (seconds) drawn as ticks on the track */
+    markers?: { startTime: number; title: string }[];
 }
 
 export function SeekSlider({
@@ -34,6 +36,7 @@ export function SeekSlider({
     className,
     showHandle = true,
     variant = "default",
+    markers,
 }: SeekSliderProps) {
     const [isDragging, setIsDragging] = useState(false);
     const [previewProgress, setPreviewProgress] = useState<number | null>(null);
@@ -177,6 +180,12 @@ export function SeekSlider({
         previewProgress !== null ? previewProgress : progress;
     const isActive = canSeek && hasMedia;
 
+    // Chapter under the drag position
+    const dragTime = (displayProgress / 100) * duration;
+    const dragChapter = isDragging
+        ? markers?.filter((m) => m.startTime <= dragTime).pop()
+        : undefined;
+
     // Determine tooltip text
     const getTooltipText = () => {
         if (!hasMedia) return undefined;
@@ -262,10 +271,23 @@ export function SeekSlider({
                 )}
             </div>
 
+            {/* Chapter markers */}
+            {duration > 0 &&
+                markers
+                    ?.filter((m) => m.startTime > 0 && m.startTime < duration)
+                    .map((marker) => (
+                        <div
+                            key={marker.startTime}
+                            className="absolute top-0 h-full w-0.5 bg-black/60 pointer-events-none"
+                            style={{ left: `${(marker.startTime / duration) * 100}%` }}
+                        />
+                    ))}
+
             {/* Visual feedback when dragging */}
             {isDragging && (
                 <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded pointer-events-none whitespace-nowrap">
                     {Math.floor((displayProgress / 100) * duration)}s
+                    {dragChapter && ` · ${dragChapter.title}`}
                 </div>
             )}
         </div>
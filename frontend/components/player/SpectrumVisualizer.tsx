@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAudioController } from "@/lib/audio-controller-context";
+import { cn } from "@/utils/cn";
+
+const BAR_COUNT = 64;
+const MIN_FREQUENCY = 30;
+const MAX_FREQUENCY = 16000;
+// Retry roughly once a second while the audio graph doesn't exist yet
+const ANALYSER_RETRY_FRAMES = 60;
+
+interface SpectrumVisualizerProps {
+    isPlaying: boolean;
+    className?: string;
+}
+
+/**
+ * Live spectrum of what the player outputs, after the EQ and effects.
+ * Bars are spaced logarithmically so the bass doesn't squeeze into a couple
+ * of them. Nothing is drawn (or computed) while playback is paused.
+ */
+export function SpectrumVisualizer({ isPlaying, className }: SpectrumVisualizerProps) {
+    const controller = useAudioController();
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (!controller || !canvas || !context || !isPlaying) return;
+
+        let analyser = controller.getAnalyser();
+        let data: Uint8Array<ArrayBuffer> | null = null;
+        let framesWithoutAnalyser = 0;
+        let frame = 0;
+
+        const draw = () => {
+            frame = requestAnimationFrame(draw);
+
+            if (!analyser) {
+                if (++framesWithoutAnalyser < ANALYSER_RETRY_FRAMES) return;
+                framesWithoutAnalyser = 0;
+                analyser = controller.getAnalyser();
+                if (!analyser) return;
+            }
+            if (!data || data.length !== analyser.frequencyBinCount) {
+                data = new Uint8Array(analyser.frequencyBinCount);
+            }
+            analyser.getByteFrequencyData(data);
+
+            const dpr = window.devicePixelRatio || 1;
+            const width = Math.round(canvas.clientWidth * dpr);
+            const height = Math.round(canvas.clientHeight * dpr);
+            if (canvas.width !== width || canvas.height !== height) {
+                canvas.width = width;
+                canvas.height = height;
+            }
+            context.clearRect(0, 0, width, height);
+
+            const binHz = analyser.context.sampleRate / analyser.fftSize;
+            const ratio = MAX_FREQUENCY / MIN_FREQUENCY;
+            const slot = width / BAR_COUNT;
+            context.fillStyle = "rgba(252, 162, 0, 0.25)";
+
+            for (let i = 0; i < BAR_COUNT; i++) {
+                const from = Math.floor((MIN_FREQUENCY * Math.pow(ratio, i / BAR_COUNT)) / binHz);
+                const to = Math.max(from + 1, Math.floor((MIN_FREQUENCY * Math.pow(ratio, (i + 1) / BAR_COUNT)) / binHz));
+                let level = 0;
+                for (let bin = from; bin < to && bin < data.length; bin++) {
+                    level = Math.max(level, data[bin]);
+                }
+                const barHeight = (level / 255) * height;
+                context.fillRect(i * slot + 1, height - barHeight, Math.max(1, slot - 2), barHeight);
+            }
+        };
+        frame = requestAnimationFrame(draw);
+
+        return () => {
+            cancelAnimationFrame(frame);
+            context.clearRect(0, 0, canvas.width, canvas.height);
+        };
+    }, [controller, isPlaying]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            aria-hidden="true"
+            className={cn("pointer-events-none", className)}
+        />
+    );
+}
@@ -8,7 +8,7 @@ import { OverlayPlayer } from "./OverlayPlayer";
 import { useEffect, useRef } from "react";
 
 export function UniversalPlayer() {
-    const { playerMode, setPlayerMode, currentTrack, currentAudiobook, currentPodcast, isPlaying } =
+    const { playerMode, setPlayerMode, currentTrack, currentAudiobook, currentPodcast, currentRadio, isPlaying } =
         useAudio();
     const isMobile = useIsMobile();
     const isTablet = useIsTablet();
@@ -25,6 +25,7 @@ export function UniversalPlayer() {
             currentTrack?.id ||
             currentAudiobook?.id ||
             currentPodcast?.id ||
+            currentRadio?.id ||
             null;
 
         const mediaChanged = currentMediaId && currentMediaId !== lastMediaIdRef.current;
@@ -35,9 +36,9 @@ export function UniversalPlayer() {
         }
 
         lastMediaIdRef.current = currentMediaId;
-    }, [currentTrack?.id, currentAudiobook?.id, currentPodcast?.id, isPlaying, isMobileOrTablet, setPlayerMode]);
+    }, [currentTrack?.id, currentAudiobook?.id, currentPodcast?.id, currentRadio?.id, isPlaying, isMobileOrTablet, setPlayerMode]);
 
-    const hasMedia = !!(currentTrack || currentAudiobook || currentPodcast);
+    const hasMedia = !!(currentTrack || currentAudiobook || currentPodcast || currentRadio);
 
     return (
         <>
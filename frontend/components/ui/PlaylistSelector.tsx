@@ -45,7 +45,15 @@ export function PlaylistSelector({
         try {
             setIsLoading(true);
             const data = await api.getPlaylists();
-            setPlaylists(Array.isArray(data) ? data : []);
+            // Only playlists the user may add to; smart playlists fill
+            // themselves from their rules
+            setPlaylists(
+                Array.isArray(data)
+                    ? data.filter(
+                          (p) => !p.isSmart && (p.role === "owner" || p.role === "editor")
+                      )
+                    : []
+            );
         } catch (error) {
             console.error("Failed to load playlists:", error);
         } finally {
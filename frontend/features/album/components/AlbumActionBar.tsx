@@ -3,6 +3,8 @@ import { cn } from "@/utils/cn";
 import type { Album } from "../types";
 import type { AlbumSource } from "../types";
 import type { ColorPalette } from "@/hooks/useImageColor";
+import { AlbumRating } from "./AlbumRating";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
 
 interface AlbumActionBarProps {
     album: Album;
@@ -77,6 +79,15 @@ export function AlbumActionBar({
                     >
                         <ListPlus className="w-5 h-5" />
                     </button>
+
+                    <OfflineDownloadButton kind="album" sourceId={album.id} name={album.title} />
+
+                    <AlbumRating
+                        key={album.id}
+                        albumId={album.id}
+                        starred={album.starred ?? false}
+                        userRating={album.userRating ?? 0}
+                    />
                 </>
             )}
 
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Heart, Star } from "lucide-react";
+import { api } from "@/lib/api";
+import { cn } from "@/utils/cn";
+
+interface AlbumRatingProps {
+    albumId: string;
+    starred: boolean;
+    userRating: number;
+}
+
+/**
+ * Star toggle and 1-5 rating for an album. Clicking the current rating
+ * again clears it. Shares state with Subsonic clients' star/setRating.
+ */
+export function AlbumRating({ albumId, starred: initialStarred, userRating }: AlbumRatingProps) {
+    const queryClient = useQueryClient();
+    const [starred, setStarred] = useState(initialStarred);
+    const [rating, setRating] = useState(userRating);
+    const [hovered, setHovered] = useState(0);
+
+    // Starred/rating filters on the collection page depend on these values
+    const invalidateLists = () =>
+        queryClient.invalidateQueries({ queryKey: ["library", "albums"] });
+
+    const toggleStarred = async () => {
+        const next = !starred;
+        setStarred(next);
+        try {
+            await api.setStarred("albums", albumId, next);
+            invalidateLists();
+        } catch {
+            setStarred(!next);
+        }
+    };
+
+    const rate = async (value: number) => {
+        const previous = rating;
+        const next = value === rating ? 0 : value;
+        setRating(next);
+        try {
+            await api.setRating("albums", albumId, next);
+            invalidateLists();
+        } catch {
+            setRating(previous);
+        }
+    };
+
+    const shown = hovered || rating;
+
+    return (
+        <div className="flex items-center gap-3">
+            <button
+                onClick={toggleStarred}
+                className={cn(
+                    "h-8 w-8 rounded-full hover:bg-white/10 flex items-center justify-center transition-all",
+                    starred ? "text-[#fca200]" : "text-white/60 hover:text-white"
+                )}
+                title={starred ? "Unstar album" : "Star album"}
+                aria-pressed={starred}
+            >
+                <Heart className={cn("w-5 h-5", starred && "fill-current")} />
+            </button>
+
+            <div className="flex items-center" onMouseLeave={() => setHovered(0)}>
+                {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                        key={value}
+                        onClick={() => rate(value)}
+                        onMouseEnter={() => setHovered(value)}
+                        className="p-0.5"
+                        title={value === rating ? "Clear rating" : `Rate ${value} star${value > 1 ? "s" : ""}`}
+                        aria-label={`Rate ${value} out of 5`}
+                    >
+                        <Star
+                            className={cn(
+                                "w-4 h-4 transition-colors",
+                                value <= shown ? "fill-[#fca200] text-[#fca200]" : "text-white/30"
+                            )}
+                        />
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -19,6 +19,8 @@ export interface Album {
     mbid?: string;
     rgMbid?: string;
     owned?: boolean;
+    starred?: boolean;
+    userRating?: number;
     tracks?: Track[];
     missingTracks?: MissingTrack[];
     similarAlbums?: SimilarAlbum[];
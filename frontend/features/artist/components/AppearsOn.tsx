@@ -0,0 +1,143 @@
+import React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Music, Play } from "lucide-react";
+import { cn } from "@/utils/cn";
+import { api } from "@/lib/api";
+import { formatTime } from "@/utils/formatTime";
+import { SectionHeader } from "@/features/home/components/SectionHeader";
+import type { CreditedTrack } from "../types";
+
+interface AppearsOnProps {
+    tracks: CreditedTrack[];
+    currentTrackId: string | undefined;
+    onPlayTrack: (track: CreditedTrack) => void;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+    primary: "Artist",
+    featured: "Featured",
+    djmixer: "DJ mix",
+};
+
+function roleLabel(role: string) {
+    return ROLE_LABELS[role] ?? role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+export const AppearsOn: React.FC<AppearsOnProps> = ({
+    tracks,
+    currentTrackId,
+    onPlayTrack,
+}) => {
+    return (
+        <section>
+            <SectionHeader color="tracks" title="Appears On" />
+            <div data-tv-section="appears-on">
+                {tracks.map((track, index) => {
+                    const isPlaying = currentTrackId === track.id;
+                    const coverUrl = track.album.coverUrl
+                        ? api.getCoverArtUrl(track.album.coverUrl, 80)
+                        : null;
+                    const albumArtist =
+                        track.album.artist.displayName || track.album.artist.name;
+
+                    return (
+                        <div
+                            key={track.id}
+                            data-track-row
+                            data-tv-card
+                            data-tv-card-index={index}
+                            tabIndex={0}
+                            className={cn(
+                                "grid grid-cols-[40px_1fr_auto] md:grid-cols-[40px_minmax(200px,4fr)_minmax(120px,2fr)_80px] gap-4 py-2 rounded-md hover:bg-white/5 transition-colors group cursor-pointer",
+                                isPlaying && "bg-white/10"
+                            )}
+                            onDoubleClick={() => onPlayTrack(track)}
+                        >
+                            <div className="flex items-center justify-center">
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onPlayTrack(track);
+                                    }}
+                                    className="w-8 h-8 flex items-center justify-center"
+                                    aria-label="Play"
+                                >
+                                    <span
+                                        className={cn(
+                                            "text-sm group-hover:hidden",
+                                            isPlaying ? "text-brand" : "text-gray-400"
+                                        )}
+                                    >
+                                        {isPlaying ? (
+                                            <Music className="w-4 h-4 text-brand animate-pulse" />
+                                        ) : (
+                                            index + 1
+                                        )}
+                                    </span>
+                                    <Play className="w-4 h-4 text-white hidden group-hover:block" />
+                                </button>
+                            </div>
+
+                            <div className="flex items-center gap-3 min-w-0">
+                                <div className="w-10 h-10 bg-[#282828] rounded shrink-0 overflow-hidden">
+                                    {coverUrl ? (
+                                        <Image
+                                            src={coverUrl}
+                                            alt={track.album.title}
+                                            width={40}
+                                            height={40}
+                                            className="object-cover"
+                                            unoptimized
+                                        />
+                                    ) : (
+                                        <div className="w-full h-full flex items-center justify-center">
+                                            <Music className="w-5 h-5 text-gray-600" />
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="min-w-0">
+                                    <div
+                                        className={cn(
+                                            "text-sm font-medium truncate",
+                                            isPlaying ? "text-brand" : "text-white"
+                                        )}
+                                    >
+                                        {track.displayTitle ?? track.title}
+                                    </div>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        <Link
+                                            href={`/artist/${track.album.artist.id}`}
+                                            className="hover:underline"
+                                            onClick={(e) => e.stopPropagation()}
+                                        >
+                                            {albumArtist}
+                                        </Link>
+                                        {" · "}
+                                        {track.roles.map(roleLabel).join(", ")}
+                                    </p>
+                                </div>
+                            </div>
+
+                            <div className="hidden md:flex items-center text-sm text-gray-400 min-w-0">
+                                <Link
+                                    href={`/album/${track.album.id}`}
+                                    className="truncate hover:underline"
+                                    onClick={(e) => e.stopPropagation()}
+                                >
+                                    {track.album.displayTitle ?? track.album.title}
+                                </Link>
+                            </div>
+
+                            <div className="flex items-center justify-end">
+                                <span className="text-sm text-gray-400 w-10 text-right font-mono tabular-nums">
+                                    {formatTime(track.duration)}
+                                </span>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </section>
+    );
+};
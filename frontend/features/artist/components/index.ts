@@ -2,6 +2,7 @@ export { ArtistHero } from "./ArtistHero";
 export { ArtistActionBar } from "./ArtistActionBar";
 export { ArtistBio } from "./ArtistBio";
 export { PopularTracks } from "./PopularTracks";
+export { AppearsOn } from "./AppearsOn";
 export { Discography } from "./Discography";
 export { AvailableAlbums } from "./AvailableAlbums";
 export { SimilarArtists } from "./SimilarArtists";
@@ -15,6 +15,7 @@ export interface Artist {
     tags?: string[];
     albums?: Album[];
     topTracks?: Track[];
+    appearsOn?: CreditedTrack[];
     similarArtists?: SimilarArtist[];
     // User overrides (non-destructive edits)
     displayName?: string | null;
@@ -68,6 +69,24 @@ export interface Track {
     hasUserOverrides?: boolean;
 }
 
+// A track filed under another album artist that this artist is credited on
+export interface CreditedTrack {
+    id: string;
+    title: string;
+    displayTitle?: string | null;
+    duration: number;
+    album: {
+        id: string;
+        title: string;
+        displayTitle?: string | null;
+        coverUrl?: string | null;
+        year?: number | null;
+        artist: { id: string; name: string; displayName?: string | null };
+    };
+    /** featured, composer, remixer, ... */
+    roles: string[];
+}
+
 export interface SimilarArtist {
     id: string;
     mbid?: string;
@@ -1,6 +1,6 @@
 "use client";
 
-import { Shuffle } from "lucide-react";
+import { Shuffle, Star } from "lucide-react";
 import { cn } from "@/utils/cn";
 import { LibraryFilter, SortOption } from "@/hooks/useQueries";
 import { Tab } from "../types";
@@ -10,7 +10,11 @@ interface LibraryToolbarProps {
   filter: LibraryFilter;
   sortBy: SortOption;
   itemsPerPage: number;
+  starred: boolean;
+  minRating: number;
   onFilterChange: (filter: LibraryFilter) => void;
+  onStarredChange: (starred: boolean) => void;
+  onMinRatingChange: (minRating: number) => void;
   onSortChange: (sort: SortOption) => void;
   onItemsPerPageChange: (items: number) => void;
   onShuffleLibrary: () => void;
@@ -27,7 +31,11 @@ export function LibraryToolbar({
   filter,
   sortBy,
   itemsPerPage,
+  starred,
+  minRating,
   onFilterChange,
+  onStarredChange,
+  onMinRatingChange,
   onSortChange,
   onItemsPerPageChange,
   onShuffleLibrary,
@@ -56,6 +64,33 @@ export function LibraryToolbar({
         </div>
       )}
 
+      {/* Starred toggle and minimum rating - all tabs */}
+      <button
+        onClick={() => onStarredChange(!starred)}
+        className={cn(
+          "flex items-center gap-1.5 px-4 py-2 text-xs font-black uppercase tracking-wider rounded-lg transition-all",
+          starred
+            ? "bg-[#eab308]/20 text-[#eab308] border-2 border-[#eab308]/40"
+            : "bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 border-2 border-transparent"
+        )}
+      >
+        <Star className={cn("w-3.5 h-3.5", starred && "fill-current")} />
+        Starred
+      </button>
+
+      <select
+        value={minRating}
+        onChange={(e) => onMinRatingChange(Number(e.target.value))}
+        className="bg-[#181818] text-sm font-mono text-gray-300 rounded-lg px-4 py-2 border-2 border-white/10 focus:outline-none focus:border-[#eab308]/50 hover:border-white/20 transition-colors"
+      >
+        <option value={0}>Any rating</option>
+        {[5, 4, 3, 2, 1].map((rating) => (
+          <option key={rating} value={rating}>
+            {rating === 5 ? "5 stars" : `${rating}+ stars`}
+          </option>
+        ))}
+      </select>
+
       {/* Sort dropdown */}
       <select
         value={sortBy}
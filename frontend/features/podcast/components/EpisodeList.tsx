@@ -44,6 +44,8 @@ function EpisodeRow({
         !episode.progress.isFinished &&
         episode.progress.currentTime > 0;
     const hasDescription = episode.description && episode.description.trim().length > 0;
+    const persons = episode.persons ?? [];
+    const canExpand = hasDescription || persons.length > 0;
 
     return (
         <div
@@ -182,7 +184,7 @@ function EpisodeRow({
                 </span>
 
                 {/* Expand description */}
-                {hasDescription && (
+                {canExpand && (
                     <button
                         onClick={(e) => {
                             e.stopPropagation();
@@ -213,15 +215,28 @@ function EpisodeRow({
                 )}
             </div>
 
-            {/* Expanded description */}
-            {expanded && hasDescription && (
-                <div className="px-3 pb-3 pl-[52px]">
-                    <div
-                        className="text-xs text-white/40 leading-relaxed max-w-3xl line-clamp-6 [&_a]:text-[#3b82f6] [&_a]:no-underline [&_a:hover]:underline"
-                        dangerouslySetInnerHTML={{
-                            __html: DOMPurify.sanitize(episode.description || ""),
-                        }}
-                    />
+            {/* Expanded description and credits */}
+            {expanded && canExpand && (
+                <div className="px-3 pb-3 pl-[52px] space-y-2">
+                    {hasDescription && (
+                        <div
+                            className="text-xs text-white/40 leading-relaxed max-w-3xl line-clamp-6 [&_a]:text-[#3b82f6] [&_a]:no-underline [&_a:hover]:underline"
+                            dangerouslySetInnerHTML={{
+                                __html: DOMPurify.sanitize(episode.description || ""),
+                            }}
+                        />
+                    )}
+                    {persons.length > 0 && (
+                        <p className="text-[10px] font-mono text-white/40 uppercase tracking-wider">
+                            {persons.map((person, i) => (
+                                <span key={`${person.name}-${person.role}`}>
+                                    {i > 0 && " · "}
+                                    <span className="text-white/70 normal-case">{person.name}</span>{" "}
+                                    {person.role}
+                                </span>
+                            ))}
+                        </p>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,147 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Loader2, Upload } from "lucide-react";
+import { api } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+import { OpmlImportProgress, OpmlImportStatus } from "../types";
+
+export const opmlImportQueryKey = ["podcast-opml-import"] as const;
+
+const isRunning = (status?: string) =>
+    status === "active" || status === "waiting" || status === "delayed";
+
+export function OpmlImportExport() {
+    const { isAuthenticated } = useAuth();
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showFailures, setShowFailures] = useState(false);
+
+    const { data: importStatus } = useQuery<OpmlImportStatus>({
+        queryKey: opmlImportQueryKey,
+        queryFn: () => api.getPodcastOpmlImportStatus(),
+        enabled: isAuthenticated,
+        // Progress arrives over SSE; polling picks up the final per-feed results
+        refetchInterval: (query) => (isRunning(query.state.data?.status) ? 3000 : false),
+    });
+
+    const running = isRunning(importStatus?.status);
+    const progress =
+        typeof importStatus?.progress === "object"
+            ? (importStatus.progress as OpmlImportProgress)
+            : null;
+    const result = importStatus?.status === "completed" ? importStatus.result : undefined;
+    const failures = result?.feeds.filter((f) => f.status === "failed") ?? [];
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        setError(null);
+        setShowFailures(false);
+        try {
+            const { total } = await api.importPodcastOpml(file);
+            queryClient.setQueryData<OpmlImportStatus>(opmlImportQueryKey, {
+                status: "waiting",
+                progress: { total, processed: 0, subscribed: 0, alreadySubscribed: 0, failed: 0 },
+            });
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "OPML import failed");
+        }
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            const blob = await api.exportPodcastOpml();
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = "kima-podcasts.opml";
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "OPML export failed");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const buttonClass =
+        "flex items-center gap-2 px-3 py-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/5 border border-transparent hover:border-white/10 transition-all text-xs font-mono uppercase tracking-wider disabled:opacity-50";
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center gap-1">
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".opml,.xml"
+                    onChange={handleFileSelected}
+                    className="hidden"
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={running}
+                    className={buttonClass}
+                    title="Subscribe to every feed in an OPML file"
+                >
+                    {running ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    ) : (
+                        <Upload className="w-3.5 h-3.5" />
+                    )}
+                    <span className="hidden md:inline">
+                        {running && progress
+                            ? `Importing ${progress.processed}/${progress.total}`
+                            : "Import OPML"}
+                    </span>
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className={buttonClass}
+                    title="Download your subscriptions as OPML"
+                >
+                    <Download className="w-3.5 h-3.5" />
+                    <span className="hidden md:inline">Export OPML</span>
+                </button>
+            </div>
+
+            {result && (
+                <p className="text-xs font-mono text-gray-500">
+                    Imported {result.subscribed}, {result.alreadySubscribed} already subscribed
+                    {failures.length > 0 && (
+                        <>
+                            ,{" "}
+                            <button
+                                onClick={() => setShowFailures((v) => !v)}
+                                className="text-red-400 hover:underline"
+                            >
+                                {failures.length} failed
+                            </button>
+                        </>
+                    )}
+                </p>
+            )}
+            {showFailures && failures.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto text-xs font-mono text-gray-500 space-y-0.5">
+                    {failures.map((feed) => (
+                        <li key={feed.feedUrl} className="truncate" title={feed.feedUrl}>
+                            {feed.title || feed.feedUrl}: {feed.error}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {importStatus?.status === "failed" && (
+                <p className="text-red-400 text-xs">{importStatus.error || "OPML import failed"}</p>
+            )}
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+        </div>
+    );
+}
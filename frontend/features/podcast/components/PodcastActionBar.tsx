@@ -1,12 +1,14 @@
 "use client";
 
-import { ExternalLink, Trash2, Plus, Loader2, Play, Pause, RefreshCw } from "lucide-react";
+import { ExternalLink, Trash2, Plus, Loader2, Play, Pause, RefreshCw, Heart } from "lucide-react";
 import { cn } from "@/utils/cn";
 import type { ColorPalette } from "@/hooks/useImageColor";
+import { PodcastFunding } from "../types";
 
 interface PodcastActionBarProps {
     isSubscribed: boolean;
     feedUrl?: string;
+    funding?: PodcastFunding[];
     colors: ColorPalette | null;
     isSubscribing: boolean;
     showDeleteConfirm: boolean;
@@ -23,6 +25,7 @@ interface PodcastActionBarProps {
 export function PodcastActionBar({
     isSubscribed,
     feedUrl,
+    funding,
     isSubscribing,
     showDeleteConfirm,
     onSubscribe,
@@ -96,6 +99,21 @@ export function PodcastActionBar({
                 </a>
             )}
 
+            {/* Podcasting 2.0 funding links */}
+            {funding?.map((link) => (
+                <a
+                    key={link.url}
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-white/40 hover:text-white hover:bg-white/5 border border-transparent hover:border-white/10 transition-all text-xs font-mono uppercase tracking-wider"
+                    title={link.title}
+                >
+                    <Heart className="w-3.5 h-3.5" />
+                    <span className="hidden md:inline max-w-[12rem] truncate">{link.title}</span>
+                </a>
+            ))}
+
             <div className="flex-1" />
 
             {/* Remove Podcast */}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useAudioControls } from "@/lib/audio-controls-context";
+import { usePodcastQuery } from "@/hooks/useQueries";
+import { formatTime } from "@/utils/formatTime";
+import { cn } from "@/utils/cn";
+import { useTranscriptSync } from "../hooks/useTranscriptSync";
+import { Episode, Podcast, PodcastPerson } from "../types";
+
+interface TranscriptPanelProps {
+    onBack: () => void;
+}
+
+export function TranscriptPanel({ onBack }: TranscriptPanelProps) {
+    const { podcastId, episodeId, segments, activeIndex, isLoading } =
+        useTranscriptSync();
+    const { seek } = useAudioControls();
+    const { data: podcast } = usePodcastQuery(podcastId ?? undefined);
+
+    const activeRef = useRef<HTMLButtonElement>(null);
+
+    // Episode guests first, then the show's regular hosts
+    const persons = useMemo(() => {
+        const show = podcast as Podcast | null | undefined;
+        const episode = show?.episodes.find((e: Episode) => e.id === episodeId);
+        const seen = new Set<string>();
+        return [...(episode?.persons ?? []), ...(show?.persons ?? [])].filter(
+            (person: PodcastPerson) => {
+                if (seen.has(person.name)) return false;
+                seen.add(person.name);
+                return true;
+            }
+        );
+    }, [podcast, episodeId]);
+
+    // Auto-scroll to active segment
+    useEffect(() => {
+        if (activeRef.current) {
+            activeRef.current.scrollIntoView({
+                behavior: "smooth",
+                block: "center",
+            });
+        }
+    }, [activeIndex]);
+
+    return (
+        <div className="h-full flex flex-col bg-[#0a0a0a]">
+            {/* Header with back button */}
+            <div className="flex items-center gap-3 px-5 py-4 border-b-2 border-white/20">
+                <button
+                    onClick={onBack}
+                    className="border border-white/20 p-2 hover:border-[#a855f7] hover:bg-white/5 transition-colors"
+                    title="Back to activity"
+                >
+                    <ArrowLeft className="w-4 h-4 text-white/60" />
+                </button>
+                <h3 className="text-sm font-black uppercase tracking-wider text-white">
+                    Transcript
+                </h3>
+            </div>
+
+            {/* Episode credits */}
+            {persons.length > 0 && (
+                <div className="px-5 py-3 border-b border-white/10 flex flex-wrap gap-x-4 gap-y-1">
+                    {persons.map((person) => (
+                        <span key={person.name} className="text-xs font-mono text-white/60">
+                            {person.href ? (
+                                <a
+                                    href={person.href}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-white hover:underline"
+                                >
+                                    {person.name}
+                                </a>
+                            ) : (
+                                <span className="text-white">{person.name}</span>
+                            )}{" "}
+                            <span className="uppercase tracking-wider text-[10px]">
+                                {person.role}
+                            </span>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {/* Scrollable Content */}
+            <div className="flex-1 overflow-y-auto p-5">
+                {isLoading && (
+                    <div className="flex items-center justify-center py-20">
+                        <Loader2 className="w-6 h-6 animate-spin text-white/40" />
+                    </div>
+                )}
+
+                {!isLoading && segments.length === 0 && (
+                    <div className="flex items-center justify-center py-20">
+                        <p className="text-sm text-white/30 font-mono">
+                            No transcript available
+                        </p>
+                    </div>
+                )}
+
+                {!isLoading && segments.length > 0 && (
+                    <div className="space-y-1 py-8">
+                        {segments.map((segment, i) => {
+                            const showSpeaker =
+                                segment.speaker &&
+                                segment.speaker !== segments[i - 1]?.speaker;
+                            return (
+                                <button
+                                    key={`${segment.startTime}-${i}`}
+                                    ref={i === activeIndex ? activeRef : undefined}
+                                    onClick={() => seek(segment.startTime)}
+                                    className={cn(
+                                        "block w-full text-left px-2 py-1.5 rounded text-sm text-white transition-opacity duration-300 hover:bg-white/5",
+                                        i === activeIndex ? "opacity-100" : "opacity-40"
+                                    )}
+                                    title={`Jump to ${formatTime(segment.startTime)}`}
+                                >
+                                    {showSpeaker && (
+                                        <span className="block text-[10px] font-mono uppercase tracking-wider text-[#3b82f6] mb-0.5">
+                                            {segment.speaker}
+                                        </span>
+                                    )}
+                                    {segment.text}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAudioState } from "@/lib/audio-state-context";
+import { PodcastChapter } from "../types";
+
+/**
+ * Chapters of the podcast episode that is playing, if its feed publishes any
+ */
+export function useEpisodeChapters(): PodcastChapter[] {
+    const { currentPodcast, playbackType } = useAudioState();
+    const [podcastId, episodeId] =
+        playbackType === "podcast" && currentPodcast ? currentPodcast.id.split(":") : [];
+
+    const { data } = useQuery({
+        queryKey: ["podcast-chapters", podcastId, episodeId],
+        queryFn: () => api.getPodcastEpisodeChapters(podcastId!, episodeId!),
+        enabled: !!podcastId && !!episodeId,
+        staleTime: 60 * 60 * 1000, // 1 hour
+    });
+
+    return useMemo(() => (data?.chapters ?? []) as PodcastChapter[], [data]);
+}
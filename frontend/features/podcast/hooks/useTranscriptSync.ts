@@ -0,0 +1,52 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAudioPlayback } from "@/lib/audio-playback-context";
+import { useAudioState } from "@/lib/audio-state-context";
+import { TranscriptSegment } from "../types";
+import { findActiveIndex } from "../utils";
+
+interface TranscriptSyncState {
+    podcastId: string | null;
+    episodeId: string | null;
+    segments: TranscriptSegment[];
+    activeIndex: number;
+    isLoading: boolean;
+}
+
+/**
+ * Transcript of the playing podcast episode, with the segment being spoken
+ */
+export function useTranscriptSync(): TranscriptSyncState {
+    const { currentTime } = useAudioPlayback();
+    const { currentPodcast, playbackType } = useAudioState();
+    const [podcastId, episodeId] =
+        playbackType === "podcast" && currentPodcast ? currentPodcast.id.split(":") : [];
+
+    const { data, isLoading } = useQuery({
+        queryKey: ["podcast-transcript", podcastId, episodeId],
+        queryFn: () => api.getPodcastEpisodeTranscript(podcastId!, episodeId!),
+        enabled: !!podcastId && !!episodeId,
+        staleTime: 60 * 60 * 1000, // 1 hour
+    });
+
+    const segments = useMemo(
+        () => (data?.segments ?? []) as TranscriptSegment[],
+        [data]
+    );
+
+    const activeIndex = useMemo(
+        () => findActiveIndex(segments, currentTime),
+        [segments, currentTime]
+    );
+
+    return {
+        podcastId: podcastId ?? null,
+        episodeId: episodeId ?? null,
+        segments,
+        activeIndex,
+        isLoading: !!episodeId && isLoading,
+    };
+}
@@ -5,6 +5,34 @@ export interface EpisodeProgress {
     lastPlayedAt: Date;
 }
 
+export interface PodcastPerson {
+    name: string;
+    role: string;
+    group: string;
+    img?: string;
+    href?: string;
+}
+
+export interface PodcastFunding {
+    url: string;
+    title: string;
+}
+
+export interface PodcastChapter {
+    startTime: number;
+    endTime?: number;
+    title: string;
+    img?: string;
+    url?: string;
+}
+
+export interface TranscriptSegment {
+    startTime: number;
+    endTime: number;
+    speaker?: string;
+    text: string;
+}
+
 export interface Episode {
     id: string;
     title: string;
@@ -14,6 +42,10 @@ export interface Episode {
     episodeNumber?: number;
     season?: number;
     progress?: EpisodeProgress;
+    hasChapters?: boolean;
+    hasTranscript?: boolean;
+    persons?: PodcastPerson[];
+    funding?: PodcastFunding[];
 }
 
 export interface Podcast {
@@ -25,6 +57,8 @@ export interface Podcast {
     autoDownloadEpisodes: boolean;
     genres?: string[];
     feedUrl?: string;
+    persons?: PodcastPerson[];
+    funding?: PodcastFunding[];
     episodes: Episode[];
 }
 
@@ -53,3 +87,26 @@ export interface SimilarPodcast {
     coverUrl?: string;
     episodeCount?: number;
 }
+
+export interface OpmlImportProgress {
+    total: number;
+    processed: number;
+    subscribed: number;
+    alreadySubscribed: number;
+    failed: number;
+}
+
+export interface OpmlFeedResult {
+    feedUrl: string;
+    title?: string;
+    status: "subscribed" | "already_subscribed" | "failed";
+    podcastId?: string;
+    error?: string;
+}
+
+export interface OpmlImportStatus {
+    status: string;
+    progress?: OpmlImportProgress | number;
+    result?: OpmlImportProgress & { feeds: OpmlFeedResult[] };
+    error?: string;
+}
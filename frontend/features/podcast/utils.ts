@@ -6,3 +6,22 @@ export function formatDate(dateString: string): string {
         day: "numeric",
     });
 }
+
+/**
+ * Index of the last entry starting at or before `time`, or -1 before the first
+ */
+export function findActiveIndex(entries: { startTime: number }[], time: number): number {
+    let lo = 0;
+    let hi = entries.length - 1;
+
+    while (lo <= hi) {
+        const mid = (lo + hi) >>> 1;
+        if (entries[mid].startTime <= time) {
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+
+    return hi;
+}
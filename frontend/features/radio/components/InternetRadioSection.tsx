@@ -0,0 +1,268 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ExternalLink, Pause, Pencil, Play, Plus, Radio, Trash2 } from "lucide-react";
+import { api, InternetRadioStationData, InternetRadioStationInput } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+import { useAudio } from "@/lib/audio-context";
+import { useToast } from "@/lib/toast-context";
+import { cn } from "@/utils/cn";
+import { useRadioNowPlaying } from "../hooks/useRadioNowPlaying";
+
+const RADIO_STATIONS_KEY = ["radio-stations"];
+
+const EMPTY_FORM: InternetRadioStationInput = { name: "", streamUrl: "", homepageUrl: "" };
+
+function StationForm({
+    initial,
+    onSubmit,
+    onCancel,
+}: {
+    initial: InternetRadioStationInput;
+    onSubmit: (data: InternetRadioStationInput) => Promise<void>;
+    onCancel: () => void;
+}) {
+    const [form, setForm] = useState(initial);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSubmit({
+                name: form.name.trim(),
+                streamUrl: form.streamUrl.trim(),
+                homepageUrl: form.homepageUrl?.trim() || null,
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass =
+        "w-full bg-[#0a0a0a] border border-white/10 rounded px-3 py-2 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-[#fca208]";
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className="grid gap-3 sm:grid-cols-[1fr_2fr_2fr_auto] items-center rounded-lg border-2 border-white/10 bg-[#0f0f0f] p-4"
+        >
+            <input
+                className={inputClass}
+                placeholder="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+            />
+            <input
+                className={inputClass}
+                placeholder="Stream URL"
+                type="url"
+                value={form.streamUrl}
+                onChange={(e) => setForm({ ...form, streamUrl: e.target.value })}
+                required
+            />
+            <input
+                className={inputClass}
+                placeholder="Homepage URL (optional)"
+                type="url"
+                value={form.homepageUrl ?? ""}
+                onChange={(e) => setForm({ ...form, homepageUrl: e.target.value })}
+            />
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-4 py-2 rounded bg-[#fca208] text-black text-sm font-bold disabled:opacity-50"
+                >
+                    Save
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-4 py-2 rounded border border-white/10 text-sm text-white/70 hover:text-white"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
+
+function StationRow({
+    station,
+    isAdmin,
+    onEdit,
+    onDelete,
+}: {
+    station: InternetRadioStationData;
+    isAdmin: boolean;
+    onEdit: () => void;
+    onDelete: () => void;
+}) {
+    const { currentRadio, playbackType, isPlaying, playRadio, pause, resumeWithGesture } = useAudio();
+    const isCurrent = playbackType === "radio" && currentRadio?.id === station.id;
+    const nowPlaying = useRadioNowPlaying(isCurrent ? station.id : null);
+
+    const handlePlay = () => {
+        if (!isCurrent) {
+            playRadio({ id: station.id, name: station.name, homepageUrl: station.homepageUrl });
+        } else if (isPlaying) {
+            pause();
+        } else {
+            resumeWithGesture();
+        }
+    };
+
+    return (
+        <div
+            className={cn(
+                "group flex items-center gap-4 rounded-lg border-2 bg-[#0a0a0a] px-4 py-3 transition-colors",
+                isCurrent ? "border-[#fca208]/60" : "border-white/10 hover:border-white/20"
+            )}
+        >
+            <button
+                onClick={handlePlay}
+                className="w-10 h-10 shrink-0 rounded-lg bg-white flex items-center justify-center"
+                aria-label={isCurrent && isPlaying ? `Pause ${station.name}` : `Play ${station.name}`}
+            >
+                {isCurrent && isPlaying ? (
+                    <Pause className="w-4 h-4 text-black" fill="currentColor" />
+                ) : (
+                    <Play className="w-4 h-4 text-black ml-0.5" fill="currentColor" />
+                )}
+            </button>
+
+            <div className="min-w-0 flex-1">
+                <h3 className="text-sm font-black text-white truncate">{station.name}</h3>
+                <p className="text-xs font-mono text-gray-500 truncate">
+                    {isCurrent && nowPlaying ? nowPlaying : station.streamUrl}
+                </p>
+            </div>
+
+            {station.homepageUrl && (
+                <a
+                    href={station.homepageUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-white/40 hover:text-white"
+                    title="Station homepage"
+                >
+                    <ExternalLink className="w-4 h-4" />
+                </a>
+            )}
+            {isAdmin && (
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={onEdit} className="p-1.5 text-white/40 hover:text-white" title="Edit station">
+                        <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={onDelete} className="p-1.5 text-white/40 hover:text-red-400" title="Delete station">
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Server-wide internet radio stations. Every user can play them; admins
+ * can add, edit and remove stations (the same list Subsonic clients see).
+ */
+export function InternetRadioSection() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const isAdmin = user?.role === "admin";
+    const [editingId, setEditingId] = useState<string | "new" | null>(null);
+
+    const { data: stations = [], isLoading } = useQuery({
+        queryKey: RADIO_STATIONS_KEY,
+        queryFn: () => api.getRadioStations(),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const save = async (data: InternetRadioStationInput) => {
+        try {
+            if (editingId === "new") {
+                await api.createRadioStation(data);
+            } else if (editingId) {
+                await api.updateRadioStation(editingId, data);
+            }
+            setEditingId(null);
+            queryClient.invalidateQueries({ queryKey: RADIO_STATIONS_KEY });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save station");
+        }
+    };
+
+    const remove = async (station: InternetRadioStationData) => {
+        try {
+            await api.deleteRadioStation(station.id);
+            queryClient.invalidateQueries({ queryKey: RADIO_STATIONS_KEY });
+        } catch {
+            toast.error(`Failed to delete ${station.name}`);
+        }
+    };
+
+    if (!isLoading && stations.length === 0 && !isAdmin) return null;
+
+    return (
+        <section>
+            <h2 className="text-2xl font-black tracking-tight flex items-center gap-3 mb-6">
+                <span className="w-1 h-8 bg-gradient-to-b from-[#3b82f6] to-[#2563eb] rounded-full" />
+                <span className="uppercase tracking-tighter">Internet Radio</span>
+                <span className="flex-1 border-t border-white/10" />
+                {isAdmin && editingId === null && (
+                    <button
+                        onClick={() => setEditingId("new")}
+                        className="flex items-center gap-1 text-xs font-mono text-[#3b82f6] hover:text-white"
+                    >
+                        <Plus className="w-3.5 h-3.5" />
+                        Add station
+                    </button>
+                )}
+            </h2>
+
+            <div className="space-y-3">
+                {editingId === "new" && (
+                    <StationForm initial={EMPTY_FORM} onSubmit={save} onCancel={() => setEditingId(null)} />
+                )}
+
+                {!isLoading && stations.length === 0 && editingId !== "new" && (
+                    <div className="flex items-center gap-3 text-sm font-mono text-gray-500">
+                        <Radio className="w-4 h-4" />
+                        No stations yet. Add a Shoutcast or Icecast stream URL to get started.
+                    </div>
+                )}
+
+                <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+                    {stations.map((station) =>
+                        editingId === station.id ? (
+                            <div key={station.id} className="md:col-span-2 xl:col-span-3">
+                                <StationForm
+                                    initial={{
+                                        name: station.name,
+                                        streamUrl: station.streamUrl,
+                                        homepageUrl: station.homepageUrl ?? "",
+                                    }}
+                                    onSubmit={save}
+                                    onCancel={() => setEditingId(null)}
+                                />
+                            </div>
+                        ) : (
+                            <StationRow
+                                key={station.id}
+                                station={station}
+                                isAdmin={isAdmin}
+                                onEdit={() => setEditingId(station.id)}
+                                onDelete={() => remove(station)}
+                            />
+                        )
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,20 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+/**
+ * Current song title (ICY StreamTitle) for an internet radio station.
+ * Populated by useEventSource from `radio:metadata` events while the
+ * station's stream is playing; null until the station reports a title.
+ */
+export function useRadioNowPlaying(stationId: string | null | undefined): string | null {
+    const queryClient = useQueryClient();
+
+    const { data } = useQuery<{ title: string } | null>({
+        queryKey: ["radio-now-playing", stationId],
+        queryFn: () => queryClient.getQueryData(["radio-now-playing", stationId]) ?? null,
+        enabled: !!stationId,
+        staleTime: Infinity,
+        refetchOnWindowFocus: false,
+    });
+
+    return data?.title ?? null;
+}
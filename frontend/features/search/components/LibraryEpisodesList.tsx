@@ -0,0 +1,126 @@
+"use client";
+
+import { Play, Pause } from "lucide-react";
+import Link from "next/link";
+import { useAudio } from "@/lib/audio-context";
+import { cn } from "@/utils/cn";
+import { formatTime } from "@/utils/formatTime";
+import type { Episode } from "../types";
+
+interface LibraryEpisodesListProps {
+    episodes: Episode[];
+}
+
+export function LibraryEpisodesList({ episodes }: LibraryEpisodesListProps) {
+    const { playPodcast, currentPodcast, isPlaying, pause, resumeWithGesture } =
+        useAudio();
+
+    if (!episodes || episodes.length === 0) {
+        return null;
+    }
+
+    const handlePlayEpisode = (episode: Episode) => {
+        const id = `${episode.podcastId}:${episode.id}`;
+
+        if (currentPodcast?.id === id) {
+            if (isPlaying) {
+                pause();
+            } else {
+                resumeWithGesture();
+            }
+            return;
+        }
+
+        // Transcript matches start playback where the phrase is said
+        playPodcast({
+            id,
+            title: episode.title,
+            podcastTitle: episode.podcastTitle,
+            coverUrl: `/podcasts/${episode.podcastId}/cover`,
+            duration: episode.duration,
+            progress:
+                episode.transcriptTime != null
+                    ? {
+                          currentTime: episode.transcriptTime,
+                          progress: 0,
+                          isFinished: false,
+                          lastPlayedAt: new Date(),
+                      }
+                    : null,
+        });
+    };
+
+    return (
+        <div className="space-y-1">
+            {episodes.slice(0, 10).map((episode) => {
+                const isCurrentEpisode =
+                    currentPodcast?.id === `${episode.podcastId}:${episode.id}`;
+                const isPlayingThis = isCurrentEpisode && isPlaying;
+
+                return (
+                    <div
+                        key={episode.id}
+                        className={cn(
+                            "flex items-center gap-3 p-2 rounded-md group transition-colors",
+                            isCurrentEpisode ? "bg-white/10" : "hover:bg-white/5"
+                        )}
+                    >
+                        <button
+                            onClick={() => handlePlayEpisode(episode)}
+                            className="w-8 h-8 flex items-center justify-center flex-shrink-0"
+                            title={
+                                episode.transcriptTime != null
+                                    ? `Play from ${formatTime(episode.transcriptTime)}`
+                                    : "Play episode"
+                            }
+                        >
+                            {isPlayingThis ? (
+                                <Pause className="w-4 h-4 text-[#ecb200]" />
+                            ) : (
+                                <Play
+                                    className={cn(
+                                        "w-4 h-4 ml-0.5",
+                                        isCurrentEpisode ? "text-[#ecb200]" : "text-white"
+                                    )}
+                                />
+                            )}
+                        </button>
+
+                        {/* Episode Info */}
+                        <div className="flex-1 min-w-0">
+                            <p
+                                className={cn(
+                                    "text-sm font-medium truncate",
+                                    isCurrentEpisode ? "text-[#ecb200]" : "text-white"
+                                )}
+                            >
+                                {episode.title}
+                            </p>
+                            <p className="text-xs text-gray-400 truncate">
+                                <Link
+                                    href={`/podcasts/${episode.podcastId}`}
+                                    className="hover:underline hover:text-white"
+                                >
+                                    {episode.podcastTitle}
+                                </Link>
+                            </p>
+                            {episode.transcriptText && (
+                                <p className="text-xs text-gray-500 truncate mt-0.5">
+                                    <span className="font-mono text-[#3b82f6] mr-1.5">
+                                        {formatTime(episode.transcriptTime ?? 0)}
+                                    </span>
+                                    &ldquo;{episode.transcriptText}&rdquo;
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Duration */}
+                        <span className="text-sm text-gray-400 flex-shrink-0">
+                            {formatTime(episode.duration)}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
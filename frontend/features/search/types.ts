@@ -35,6 +35,8 @@ export interface Episode {
     publishedAt: Date | string;
     duration: number;
     audioUrl: string;
+    transcriptTime?: number | null;
+    transcriptText?: string | null;
 }
 
 export interface Audiobook {
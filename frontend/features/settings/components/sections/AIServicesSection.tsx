@@ -113,6 +113,19 @@ export function AIServicesSection({ settings, onUpdate, onTest, isTesting }: AIS
                     />
                 </SettingsRow>
 
+                <SettingsRow
+                    label="Last.fm API Secret (Optional)"
+                    description="Required for users to link their accounts and scrobble"
+                >
+                    <SettingsInput
+                        type="password"
+                        value={settings.lastfmApiSecret || ""}
+                        onChange={(v) => onUpdate({ lastfmApiSecret: v })}
+                        placeholder="Shared secret for your API key"
+                        className="w-64"
+                    />
+                </SettingsRow>
+
                 {settings.lastfmApiKey && (
                     <div className="pt-2">
                         <div className="inline-flex items-center gap-3">
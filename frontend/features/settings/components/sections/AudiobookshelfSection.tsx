@@ -87,6 +87,32 @@ export function AudiobookshelfSection({ settings, onUpdate, onTest, isTesting }:
                     </div>
                 </>
             )}
+
+            <SettingsRow
+                label="Local audiobook folder"
+                description="Scan M4B and MP3 audiobooks from disk, no server needed"
+                htmlFor="local-audiobooks-enabled"
+            >
+                <SettingsToggle
+                    id="local-audiobooks-enabled"
+                    checked={settings.localAudiobooksEnabled}
+                    onChange={(checked) => onUpdate({ localAudiobooksEnabled: checked })}
+                />
+            </SettingsRow>
+
+            {settings.localAudiobooksEnabled && (
+                <SettingsRow
+                    label="Audiobook path"
+                    description="Folder is rescanned when saved and on library sync"
+                >
+                    <SettingsInput
+                        value={settings.audiobookPath}
+                        onChange={(v) => onUpdate({ audiobookPath: v })}
+                        placeholder="/audiobooks"
+                        className="w-64"
+                    />
+                </SettingsRow>
+            )}
         </SettingsSection>
     );
 }
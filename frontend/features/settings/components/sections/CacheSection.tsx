@@ -421,7 +421,7 @@ export function CacheSection({ settings, onUpdate }: CacheSectionProps) {
         syncStartTimeRef.current = Date.now();
         setError(null);
         try {
-            if (settings.audiobookshelfEnabled) {
+            if (settings.audiobookshelfEnabled || settings.localAudiobooksEnabled) {
                 await api.post("/audiobooks/sync", {});
             }
             await api.post("/podcasts/sync-covers", {});
@@ -996,6 +996,20 @@ export function CacheSection({ settings, onUpdate }: CacheSectionProps) {
                     />
                 </SettingsRow>
 
+                <SettingsRow
+                    label="Watch library for changes"
+                    description="Scan albums as soon as files are added, moved or removed"
+                    htmlFor="library-watcher"
+                >
+                    <SettingsToggle
+                        id="library-watcher"
+                        checked={settings.libraryWatcherEnabled}
+                        onChange={(checked) =>
+                            onUpdate({ libraryWatcherEnabled: checked })
+                        }
+                    />
+                </SettingsRow>
+
                 <SettingsRow
                     label="Auto enrich metadata"
                     description="Automatically enrich metadata for new content"
@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Upload, X } from "lucide-react";
+import { SettingsSection, SettingsRow, SettingsSelect, SettingsToggle } from "../ui";
+import { api, AudioEffects, ResolvedAudioEffects } from "@/lib/api";
+import {
+    DEFAULT_AUDIO_EFFECTS,
+    EQ_FREQUENCIES,
+    EQ_MAX_GAIN_DB,
+    EQ_PRESETS,
+    parseAutoEqProfile,
+} from "@/lib/audio-effects";
+import { useEffectsDevice } from "@/hooks/useAudioEffects";
+import { queryKeys } from "@/hooks/useQueries";
+import { InlineStatus, StatusType } from "@/components/ui/InlineStatus";
+
+// Edits are applied to the player at once and saved after a short pause
+const SAVE_DELAY_MS = 500;
+const ACCOUNT = "account";
+
+const presetOptions = [
+    ...EQ_PRESETS.map((preset) => ({ value: preset.id, label: preset.label })),
+    { value: "custom", label: "Custom" },
+];
+
+function formatFrequency(hz: number): string {
+    return hz >= 1000 ? `${hz / 1000}k` : String(hz);
+}
+
+function formatGain(db: number): string {
+    return `${db > 0 ? "+" : ""}${db} dB`;
+}
+
+/**
+ * EQ, headphone correction, limiter and mono downmix for the web player.
+ * Saved for the whole account or for one linked device; unlike the rest of
+ * the settings page it saves as you go, so changes can be heard right away.
+ */
+export function EqualizerSection() {
+    const queryClient = useQueryClient();
+    const [browserDevice, setBrowserDevice] = useEffectsDevice();
+    const [profile, setProfile] = useState<string>(browserDevice ?? ACCOUNT);
+    const [status, setStatus] = useState<StatusType>("idle");
+    const [message, setMessage] = useState("");
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const deviceId = profile === ACCOUNT ? null : profile;
+    const queryKey = queryKeys.audioEffects(deviceId);
+
+    const { data: devices } = useQuery({
+        queryKey: queryKeys.apiKeys(),
+        queryFn: () => api.listApiKeys(),
+        select: (data) => data.apiKeys,
+    });
+    const { data, isLoading } = useQuery({
+        queryKey,
+        queryFn: () => api.getAudioEffects(deviceId),
+    });
+    const effects = data?.effects ?? DEFAULT_AUDIO_EFFECTS;
+
+    useEffect(() => () => {
+        if (saveTimer.current) clearTimeout(saveTimer.current);
+    }, []);
+
+    const update = (changes: Partial<AudioEffects>) => {
+        const next = { ...effects, ...changes };
+        // The player reads the same query, so it follows along live
+        queryClient.setQueryData<ResolvedAudioEffects>(queryKey, {
+            effects: next,
+            source: deviceId ? "device" : "account",
+        });
+
+        if (saveTimer.current) clearTimeout(saveTimer.current);
+        saveTimer.current = setTimeout(async () => {
+            try {
+                await api.saveAudioEffects(next, deviceId);
+                setStatus("idle");
+                // Devices that follow the account may have changed along with it
+                queryClient.invalidateQueries({
+                    predicate: (query) =>
+                        query.queryKey[0] === queryKey[0] && query.queryKey[1] !== queryKey[1],
+                });
+            } catch (error) {
+                setStatus("error");
+                setMessage(error instanceof Error ? error.message : "Failed to save");
+            }
+        }, SAVE_DELAY_MS);
+    };
+
+    const handlePreset = (id: string) => {
+        const preset = EQ_PRESETS.find((p) => p.id === id);
+        update(preset ? { preset: id, bands: preset.bands } : { preset: id });
+    };
+
+    const handleBand = (index: number, gain: number) => {
+        const bands = effects.bands.map((value, i) => (i === index ? gain : value));
+        const preset = EQ_PRESETS.find((p) => p.bands.every((value, i) => value === bands[i]));
+        update({ bands, preset: preset?.id ?? "custom" });
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) return;
+        try {
+            const headphone = parseAutoEqProfile(file.name, await file.text());
+            update({ headphone, enabled: true });
+            setStatus("success");
+            setMessage(`Loaded ${headphone.name}`);
+        } catch (error) {
+            setStatus("error");
+            setMessage(error instanceof Error ? error.message : "Couldn't read that file");
+        }
+    };
+
+    const handleReset = async () => {
+        if (!deviceId) return;
+        try {
+            queryClient.setQueryData(queryKey, await api.resetDeviceAudioEffects(deviceId));
+        } catch {
+            setStatus("error");
+            setMessage("Failed to reset device");
+        }
+    };
+
+    const profileOptions = [
+        { value: ACCOUNT, label: "Account default" },
+        ...(devices ?? []).map((device) => ({ value: device.id, label: device.name })),
+    ];
+
+    return (
+        <SettingsSection
+            id="equalizer"
+            title="Equalizer"
+            description="Tone control for the web player, per account or per device"
+        >
+            <SettingsRow
+                label="Profile"
+                description={
+                    deviceId
+                        ? data?.source === "device"
+                            ? "This device has its own settings"
+                            : "Follows the account default until you change something"
+                        : "Used everywhere without settings of its own"
+                }
+            >
+                <div className="flex items-center gap-2">
+                    {deviceId && data?.source === "device" && (
+                        <button
+                            onClick={handleReset}
+                            className="text-xs font-mono text-white/40 hover:text-white uppercase tracking-wider"
+                        >
+                            Reset
+                        </button>
+                    )}
+                    <SettingsSelect value={profile} onChange={setProfile} options={profileOptions} />
+                </div>
+            </SettingsRow>
+
+            {deviceId && (
+                <SettingsRow
+                    label="Use in this browser"
+                    description="Play this browser with the device's settings instead of the account's"
+                >
+                    <SettingsToggle
+                        checked={browserDevice === deviceId}
+                        onChange={(checked) => setBrowserDevice(checked ? deviceId : null)}
+                    />
+                </SettingsRow>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-6">
+                    <Loader2 className="w-5 h-5 animate-spin text-white/40" />
+                </div>
+            ) : (
+                <>
+                    <SettingsRow label="Enable effects">
+                        <SettingsToggle
+                            checked={effects.enabled}
+                            onChange={(enabled) => update({ enabled })}
+                        />
+                    </SettingsRow>
+
+                    <SettingsRow label="Preset">
+                        <SettingsSelect
+                            value={effects.preset}
+                            onChange={handlePreset}
+                            options={presetOptions}
+                            disabled={!effects.enabled}
+                        />
+                    </SettingsRow>
+
+                    <div className={effects.enabled ? "" : "opacity-50 pointer-events-none"}>
+                        <div className="flex items-end justify-between gap-2 py-3">
+                            <EqSlider
+                                label="Pre"
+                                value={effects.preamp}
+                                onChange={(preamp) => update({ preamp })}
+                            />
+                            <span className="self-stretch border-l border-white/10" />
+                            {EQ_FREQUENCIES.map((frequency, i) => (
+                                <EqSlider
+                                    key={frequency}
+                                    label={formatFrequency(frequency)}
+                                    value={effects.bands[i] ?? 0}
+                                    onChange={(gain) => handleBand(i, gain)}
+                                />
+                            ))}
+                        </div>
+
+                        <SettingsRow
+                            label="Headphone correction"
+                            description={
+                                effects.headphone
+                                    ? `${effects.headphone.name} · ${effects.headphone.filters.length} filters`
+                                    : "Import a ParametricEQ.txt from AutoEQ"
+                            }
+                        >
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".txt,text/plain"
+                                onChange={handleImport}
+                                className="hidden"
+                            />
+                            {effects.headphone ? (
+                                <button
+                                    onClick={() => update({ headphone: null })}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/5 text-xs font-mono uppercase tracking-wider"
+                                >
+                                    <X className="w-3.5 h-3.5" />
+                                    Remove
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => fileInputRef.current?.click()}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/5 text-xs font-mono uppercase tracking-wider"
+                                >
+                                    <Upload className="w-3.5 h-3.5" />
+                                    Import
+                                </button>
+                            )}
+                        </SettingsRow>
+
+                        <SettingsRow
+                            label="Limiter"
+                            description="Catch peaks that boosted bands push into clipping"
+                        >
+                            <SettingsToggle
+                                checked={effects.limiter}
+                                onChange={(limiter) => update({ limiter })}
+                            />
+                        </SettingsRow>
+
+                        <SettingsRow label="Mono" description="Mix both channels together, e.g. for one earbud">
+                            <SettingsToggle checked={effects.mono} onChange={(mono) => update({ mono })} />
+                        </SettingsRow>
+                    </div>
+                </>
+            )}
+
+            <InlineStatus status={status} message={message} onClear={() => setStatus("idle")} />
+        </SettingsSection>
+    );
+}
+
+interface EqSliderProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+}
+
+function EqSlider({ label, value, onChange }: EqSliderProps) {
+    return (
+        <div className="flex flex-col items-center gap-2 flex-1 min-w-0">
+            <span className="text-[10px] font-mono text-white/50">{formatGain(value)}</span>
+            <input
+                type="range"
+                min={-EQ_MAX_GAIN_DB}
+                max={EQ_MAX_GAIN_DB}
+                step={0.5}
+                value={value}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+                aria-label={`${label} gain`}
+                className="h-28 w-1 appearance-none bg-white/10 rounded-full cursor-pointer [writing-mode:vertical-lr] [direction:rtl] [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-[#fca208] [&::-webkit-slider-thumb]:rounded-full"
+            />
+            <span className="text-[10px] font-mono text-white/40 uppercase">{label}</span>
+        </div>
+    );
+}
@@ -1,13 +1,14 @@
 "use client";
 
-import { SettingsSection, SettingsRow, SettingsSelect, SettingsInput } from "../ui";
+import { SettingsSection, SettingsRow, SettingsSelect, SettingsInput, SettingsToggle } from "../ui";
 import { UserSettings } from "../../types";
 import { useTrackFormat } from "@/hooks/useTrackFormat";
 import { formatTrackDisplay } from "@/lib/track-format";
+import { MAX_CROSSFADE_SECONDS } from "@/lib/gapless";
 
 interface PlaybackSectionProps {
-    value: UserSettings["playbackQuality"];
-    onChange: (quality: UserSettings["playbackQuality"]) => void;
+    settings: UserSettings;
+    onUpdate: (updates: Partial<UserSettings>) => void;
 }
 
 const qualityOptions = [
@@ -17,6 +18,31 @@ const qualityOptions = [
     { value: "low", label: "Low (128 kbps)" },
 ];
 
+const replayGainOptions = [
+    { value: "auto", label: "Auto" },
+    { value: "track", label: "Track" },
+    { value: "album", label: "Album" },
+    { value: "off", label: "Off" },
+];
+
+const preampOptions = Array.from({ length: 31 }, (_, i) => {
+    const db = i - 15;
+    return { value: String(db), label: `${db > 0 ? "+" : ""}${db} dB` };
+});
+
+const crossfadeOptions = [
+    { value: "0", label: "Off" },
+    ...Array.from({ length: MAX_CROSSFADE_SECONDS }, (_, i) => ({ value: String(i + 1), label: `${i + 1} s` })),
+];
+
+const cacheSizeOptions = [
+    { value: "1024", label: "1 GB" },
+    { value: "2048", label: "2 GB" },
+    { value: "5120", label: "5 GB" },
+    { value: "10240", label: "10 GB" },
+    { value: "20480", label: "20 GB" },
+];
+
 const SAMPLE_TRACK = {
     title: "Midnight Rain",
     artist: "Taylor Swift",
@@ -24,7 +50,7 @@ const SAMPLE_TRACK = {
     filename: "/music/Taylor Swift/Midnights/04 Midnight Rain.flac",
 };
 
-export function PlaybackSection({ value, onChange }: PlaybackSectionProps) {
+export function PlaybackSection({ settings, onUpdate }: PlaybackSectionProps) {
     const { format, setFormat } = useTrackFormat();
     const preview = formatTrackDisplay(SAMPLE_TRACK, format);
 
@@ -35,11 +61,76 @@ export function PlaybackSection({ value, onChange }: PlaybackSectionProps) {
                 description="Higher quality uses more bandwidth"
             >
                 <SettingsSelect
-                    value={value}
-                    onChange={(v) => onChange(v as UserSettings["playbackQuality"])}
+                    value={settings.playbackQuality}
+                    onChange={(v) => onUpdate({ playbackQuality: v as UserSettings["playbackQuality"] })}
                     options={qualityOptions}
                 />
             </SettingsRow>
+            <SettingsRow
+                label="Volume normalization"
+                description="ReplayGain. Auto uses album gain when playing an album in order, track gain otherwise"
+            >
+                <SettingsSelect
+                    value={settings.replayGainMode}
+                    onChange={(v) => onUpdate({ replayGainMode: v as UserSettings["replayGainMode"] })}
+                    options={replayGainOptions}
+                />
+            </SettingsRow>
+            <SettingsRow
+                label="Pre-amp"
+                description="Extra gain applied on top of ReplayGain"
+            >
+                <SettingsSelect
+                    value={String(settings.replayGainPreamp)}
+                    onChange={(v) => onUpdate({ replayGainPreamp: Number(v) })}
+                    options={preampOptions}
+                    disabled={settings.replayGainMode === "off"}
+                />
+            </SettingsRow>
+            <SettingsRow
+                label="Crossfade"
+                description="Blend into the next track. Tracks from the same album always play gapless"
+            >
+                <SettingsSelect
+                    value={String(settings.crossfadeSeconds)}
+                    onChange={(v) => onUpdate({ crossfadeSeconds: Number(v) })}
+                    options={crossfadeOptions}
+                />
+            </SettingsRow>
+            <SettingsRow
+                label="Offline downloads"
+                description="Download albums and playlists to this device at your streaming quality"
+                htmlFor="offline-enabled"
+            >
+                <SettingsToggle
+                    id="offline-enabled"
+                    checked={settings.offlineEnabled}
+                    onChange={(checked) => onUpdate({ offlineEnabled: checked })}
+                />
+            </SettingsRow>
+            <SettingsRow
+                label="Download on Wi-Fi only"
+                description="Pause downloads on a cellular connection"
+                htmlFor="offline-wifi-only"
+            >
+                <SettingsToggle
+                    id="offline-wifi-only"
+                    checked={settings.wifiOnly}
+                    onChange={(checked) => onUpdate({ wifiOnly: checked })}
+                    disabled={!settings.offlineEnabled}
+                />
+            </SettingsRow>
+            <SettingsRow
+                label="Offline storage limit"
+                description="Downloads stop once this much music is stored"
+            >
+                <SettingsSelect
+                    value={String(settings.maxCacheSizeMb)}
+                    onChange={(v) => onUpdate({ maxCacheSizeMb: Number(v) })}
+                    options={cacheSizeOptions}
+                    disabled={!settings.offlineEnabled}
+                />
+            </SettingsRow>
             <SettingsRow
                 label="Track title format"
                 description="Foobar2000-style format string. Leave empty for default."
@@ -0,0 +1,211 @@
+"use client";
+
+import Image from "next/image";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { SettingsSection, SettingsRow, SettingsSelect, SettingsToggle } from "../ui";
+import {
+    UserSettings,
+    PodcastDownloadRules,
+    PodcastStorage,
+    PodcastStorageUsage,
+} from "../../types";
+import { api } from "@/lib/api";
+
+interface PodcastDownloadsSectionProps {
+    settings: UserSettings;
+    onUpdate: (updates: Partial<UserSettings>) => void;
+}
+
+const storageLimitOptions = [
+    { value: "", label: "Unlimited" },
+    { value: "1024", label: "1 GB" },
+    { value: "2048", label: "2 GB" },
+    { value: "5120", label: "5 GB" },
+    { value: "10240", label: "10 GB" },
+    { value: "20480", label: "20 GB" },
+    { value: "51200", label: "50 GB" },
+];
+
+const keepLatestOptions = [
+    { value: "", label: "All" },
+    ...[1, 3, 5, 10, 25].map((n) => ({ value: String(n), label: `Newest ${n}` })),
+];
+
+const deletePlayedOptions = [
+    { value: "", label: "Never" },
+    { value: "0", label: "Right away" },
+    ...[1, 3, 7, 14, 30].map((n) => ({
+        value: String(n),
+        label: `After ${n} day${n === 1 ? "" : "s"}`,
+    })),
+];
+
+const podcastLimitOptions = [
+    { value: "", label: "No limit" },
+    { value: "500", label: "500 MB" },
+    { value: "1024", label: "1 GB" },
+    { value: "2048", label: "2 GB" },
+    { value: "5120", label: "5 GB" },
+];
+
+function formatStorage(mb: number): string {
+    return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+}
+
+const toValue = (n: number | null) => (n === null ? "" : String(n));
+const fromValue = (v: string) => (v === "" ? null : Number(v));
+
+function PodcastRulesRow({
+    podcast,
+    onChange,
+    disabled,
+}: {
+    podcast: PodcastStorageUsage;
+    onChange: (podcastId: string, rules: Partial<PodcastDownloadRules>) => void;
+    disabled: boolean;
+}) {
+    const { rules } = podcast;
+
+    return (
+        <div className="py-3 border-b border-white/5 last:border-0">
+            <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-white/5 rounded overflow-hidden shrink-0">
+                    {podcast.coverUrl && (
+                        <Image
+                            src={api.getCoverArtUrl(podcast.coverUrl, 80)}
+                            alt={podcast.title}
+                            width={40}
+                            height={40}
+                            className="object-cover w-full h-full"
+                            unoptimized
+                        />
+                    )}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{podcast.title}</p>
+                    <p className="text-xs font-mono text-white/30 uppercase tracking-wider">
+                        {formatStorage(podcast.usedMb)} &middot; {podcast.downloadedEpisodes} episode
+                        {podcast.downloadedEpisodes === 1 ? "" : "s"}
+                        {!podcast.subscribed && " · not subscribed"}
+                    </p>
+                </div>
+                {rules && (
+                    <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-xs font-mono text-white/40 uppercase tracking-wider">
+                            Auto
+                        </span>
+                        <SettingsToggle
+                            checked={rules.autoDownload}
+                            onChange={(checked) => onChange(podcast.podcastId, { autoDownload: checked })}
+                            disabled={disabled}
+                        />
+                    </div>
+                )}
+            </div>
+            {rules && (
+                <div className="flex flex-wrap gap-2 mt-2 ml-[52px]">
+                    <SettingsSelect
+                        value={toValue(rules.keepLatest)}
+                        onChange={(v) => onChange(podcast.podcastId, { keepLatest: fromValue(v) })}
+                        options={keepLatestOptions}
+                        disabled={disabled}
+                    />
+                    <SettingsSelect
+                        value={toValue(rules.deletePlayedAfterDays)}
+                        onChange={(v) =>
+                            onChange(podcast.podcastId, { deletePlayedAfterDays: fromValue(v) })
+                        }
+                        options={deletePlayedOptions}
+                        disabled={disabled}
+                    />
+                    <SettingsSelect
+                        value={toValue(rules.maxStorageMb)}
+                        onChange={(v) => onChange(podcast.podcastId, { maxStorageMb: fromValue(v) })}
+                        options={podcastLimitOptions}
+                        disabled={disabled}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function PodcastDownloadsSection({ settings, onUpdate }: PodcastDownloadsSectionProps) {
+    const queryClient = useQueryClient();
+
+    const { data: storage, isLoading } = useQuery<PodcastStorage>({
+        queryKey: ["podcast-storage"],
+        queryFn: () => api.getPodcastStorage(),
+    });
+
+    // Rules apply as soon as they are saved, so usage is refetched afterwards
+    const updateRules = useMutation({
+        mutationFn: ({ podcastId, rules }: { podcastId: string; rules: Partial<PodcastDownloadRules> }) =>
+            api.updatePodcastDownloadRules(podcastId, rules),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ["podcast-storage"] }),
+    });
+
+    const limitMb = storage?.limitMb ?? null;
+    const usedPercent = storage && limitMb ? Math.min(100, (storage.usedMb / limitMb) * 100) : 0;
+
+    return (
+        <SettingsSection
+            id="podcast-downloads"
+            title="Podcast Downloads"
+            description="Auto-download and retention rules per show"
+        >
+            <SettingsRow
+                label="Storage limit"
+                description="Least recently played downloads are removed above this"
+            >
+                <SettingsSelect
+                    value={toValue(settings.podcastStorageLimitMb ?? null)}
+                    onChange={(v) => onUpdate({ podcastStorageLimitMb: fromValue(v) })}
+                    options={storageLimitOptions}
+                />
+            </SettingsRow>
+
+            <SettingsRow label="Used" description={limitMb ? `of ${formatStorage(limitMb)}` : undefined}>
+                <div className="flex items-center gap-3">
+                    {limitMb !== null && (
+                        <div className="w-32 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-[#fca208] transition-all duration-500"
+                                style={{ width: `${usedPercent}%` }}
+                            />
+                        </div>
+                    )}
+                    <span className="text-xs font-mono text-white/50">
+                        {storage ? formatStorage(storage.usedMb) : "--"}
+                    </span>
+                </div>
+            </SettingsRow>
+
+            {isLoading && (
+                <div className="flex justify-center py-6">
+                    <Loader2 className="w-5 h-5 animate-spin text-white/40" />
+                </div>
+            )}
+
+            {storage && storage.podcasts.length === 0 && (
+                <p className="text-xs font-mono text-white/30 uppercase tracking-wider py-3">
+                    No podcast subscriptions
+                </p>
+            )}
+
+            {storage && storage.podcasts.length > 0 && (
+                <div className="mt-2">
+                    {storage.podcasts.map((podcast) => (
+                        <PodcastRulesRow
+                            key={podcast.podcastId}
+                            podcast={podcast}
+                            onChange={(podcastId, rules) => updateRules.mutate({ podcastId, rules })}
+                            disabled={updateRules.isPending}
+                        />
+                    ))}
+                </div>
+            )}
+        </SettingsSection>
+    );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { SettingsSection, SettingsRow, SettingsToggle, SettingsInput } from "../ui";
+import { UserSettings } from "../../types";
+import { api } from "@/lib/api";
+import { InlineStatus, StatusType } from "@/components/ui/InlineStatus";
+
+interface ScrobblingSectionProps {
+    settings: UserSettings;
+    onUpdate: (updates: Partial<UserSettings>) => void;
+    onAccountChange: () => void;
+}
+
+// Last.fm appends ?token=... to this URL after the user grants access
+const LASTFM_CALLBACK_PARAM = "lastfm";
+
+interface ListenImportStatus {
+    status: "none" | "waiting" | "active" | "completed" | "failed" | string;
+    progress?: { fetched: number; matched: number; imported: number; skipped: number } | number;
+    result?: { fetched: number; matched: number; imported: number; skipped: number };
+    error?: string;
+}
+
+const IMPORT_POLL_MS = 3000;
+
+export function ScrobblingSection({ settings, onUpdate, onAccountChange }: ScrobblingSectionProps) {
+    const [status, setStatus] = useState<StatusType>("idle");
+    const [message, setMessage] = useState("");
+    const [busy, setBusy] = useState(false);
+    const handledCallback = useRef(false);
+
+    const [lbToken, setLbToken] = useState("");
+    const [lbStatus, setLbStatus] = useState<StatusType>("idle");
+    const [lbMessage, setLbMessage] = useState("");
+    const [lbBusy, setLbBusy] = useState(false);
+    const [importStatus, setImportStatus] = useState<ListenImportStatus | null>(null);
+
+    const importRunning = importStatus?.status === "waiting" || importStatus?.status === "active";
+
+    // Pick up an import started in an earlier visit, and poll while one is running
+    useEffect(() => {
+        if (!settings.listenbrainzConnected) return;
+        let cancelled = false;
+        const load = () =>
+            api.get<ListenImportStatus>("/settings/listenbrainz/import")
+                .then((data) => {
+                    if (!cancelled) setImportStatus(data);
+                })
+                .catch(() => {});
+        load();
+        if (!importRunning) return () => { cancelled = true; };
+        const timer = setInterval(load, IMPORT_POLL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+        };
+    }, [settings.listenbrainzConnected, importRunning]);
+
+    // Finish the auth flow when Last.fm redirects back to /settings?lastfm=callback&token=...
+    useEffect(() => {
+        if (handledCallback.current || typeof window === "undefined") return;
+        const params = new URLSearchParams(window.location.search);
+        const token = params.get("token");
+        if (params.get(LASTFM_CALLBACK_PARAM) !== "callback" || !token) return;
+        handledCallback.current = true;
+
+        window.history.replaceState(null, "", `${window.location.pathname}#scrobbling`);
+        document.getElementById("scrobbling")?.scrollIntoView({ behavior: "smooth", block: "start" });
+
+        setBusy(true);
+        setStatus("loading");
+        api.post<{ username: string }>("/settings/lastfm/session", { token })
+            .then((data) => {
+                setStatus("success");
+                setMessage(`Linked as ${data.username}`);
+                onAccountChange();
+            })
+            .catch((error: unknown) => {
+                setStatus("error");
+                setMessage(error instanceof Error ? error.message : "Failed to link account");
+            })
+            .finally(() => setBusy(false));
+    }, [onAccountChange]);
+
+    const handleConnect = async () => {
+        setBusy(true);
+        setStatus("loading");
+        setMessage("");
+        try {
+            const callback = `${window.location.origin}/settings?${LASTFM_CALLBACK_PARAM}=callback`;
+            const data = await api.get<{ url: string }>(
+                `/settings/lastfm/auth-url?callback=${encodeURIComponent(callback)}`
+            );
+            window.location.href = data.url;
+        } catch (error: unknown) {
+            setStatus("error");
+            setMessage(error instanceof Error ? error.message : "Failed to reach Last.fm");
+            setBusy(false);
+        }
+    };
+
+    const handleDisconnect = async () => {
+        setBusy(true);
+        try {
+            await api.delete("/settings/lastfm");
+            setStatus("success");
+            setMessage("Unlinked");
+            onAccountChange();
+        } catch {
+            setStatus("error");
+            setMessage("Failed to unlink account");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleListenBrainzConnect = async () => {
+        setLbBusy(true);
+        setLbStatus("loading");
+        setLbMessage("");
+        try {
+            const data = await api.request<{ username: string }>("/settings/listenbrainz", {
+                method: "PUT",
+                body: JSON.stringify({ token: lbToken }),
+            });
+            setLbToken("");
+            setLbStatus("success");
+            setLbMessage(`Linked as ${data.username}`);
+            onAccountChange();
+        } catch (error: unknown) {
+            setLbStatus("error");
+            setLbMessage(error instanceof Error ? error.message : "Failed to link account");
+        } finally {
+            setLbBusy(false);
+        }
+    };
+
+    const handleListenBrainzDisconnect = async () => {
+        setLbBusy(true);
+        try {
+            await api.delete("/settings/listenbrainz");
+            setImportStatus(null);
+            setLbStatus("success");
+            setLbMessage("Unlinked");
+            onAccountChange();
+        } catch {
+            setLbStatus("error");
+            setLbMessage("Failed to unlink account");
+        } finally {
+            setLbBusy(false);
+        }
+    };
+
+    const handleImport = async () => {
+        try {
+            await api.post("/settings/listenbrainz/import");
+            setImportStatus({ status: "waiting" });
+        } catch (error: unknown) {
+            setLbStatus("error");
+            setLbMessage(error instanceof Error ? error.message : "Failed to start import");
+        }
+    };
+
+    const importProgress =
+        importStatus?.result ??
+        (typeof importStatus?.progress === "object" ? importStatus.progress : undefined);
+
+    let importDescription = "Add your ListenBrainz history to play counts, Top Tracks and Rediscover";
+    if (importRunning) {
+        importDescription = importProgress
+            ? `Importing... ${importProgress.fetched.toLocaleString()} listens read, ${importProgress.imported.toLocaleString()} added`
+            : "Import starting...";
+    } else if (importStatus?.status === "completed" && importProgress) {
+        importDescription = `Last import added ${importProgress.imported.toLocaleString()} plays (${importProgress.skipped.toLocaleString()} listens not in your library)`;
+    } else if (importStatus?.status === "failed") {
+        importDescription = `Last import failed: ${importStatus.error ?? "unknown error"}`;
+    }
+
+    return (
+        <SettingsSection
+            id="scrobbling"
+            title="Scrobbling"
+            description="Send what you play to your listening history services"
+        >
+            <SettingsRow
+                label="Last.fm account"
+                description={
+                    settings.lastfmConnected
+                        ? `Linked as ${settings.lastfmUsername}`
+                        : "Link your account to scrobble plays from the web player and native apps"
+                }
+            >
+                <div className="inline-flex items-center gap-3">
+                    <InlineStatus
+                        status={status}
+                        message={message}
+                        onClear={() => setStatus("idle")}
+                    />
+                    {settings.lastfmConnected ? (
+                        <button
+                            onClick={handleDisconnect}
+                            disabled={busy}
+                            className="text-xs font-mono text-red-400 hover:text-red-300 uppercase tracking-wider transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Unlink
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleConnect}
+                            disabled={busy}
+                            className="px-4 py-2 bg-[#fca208] text-black text-xs font-black rounded-lg uppercase tracking-wider
+                                hover:bg-[#f97316] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Connect Last.fm
+                        </button>
+                    )}
+                </div>
+            </SettingsRow>
+
+            {settings.lastfmConnected && (
+                <SettingsRow
+                    label="Scrobble to Last.fm"
+                    description="Pause without unlinking. Plays made while paused are not sent later."
+                    htmlFor="lastfm-scrobbling"
+                >
+                    <SettingsToggle
+                        id="lastfm-scrobbling"
+                        checked={settings.lastfmScrobbling}
+                        onChange={(checked) => onUpdate({ lastfmScrobbling: checked })}
+                    />
+                </SettingsRow>
+            )}
+
+            <SettingsRow
+                label="ListenBrainz account"
+                description={
+                    settings.listenbrainzConnected
+                        ? `Linked as ${settings.listenbrainzUsername}`
+                        : "Paste the user token from listenbrainz.org/settings"
+                }
+                htmlFor={settings.listenbrainzConnected ? undefined : "listenbrainz-token"}
+            >
+                <div className="inline-flex items-center gap-3">
+                    <InlineStatus
+                        status={lbStatus}
+                        message={lbMessage}
+                        onClear={() => setLbStatus("idle")}
+                    />
+                    {settings.listenbrainzConnected ? (
+                        <button
+                            onClick={handleListenBrainzDisconnect}
+                            disabled={lbBusy}
+                            className="text-xs font-mono text-red-400 hover:text-red-300 uppercase tracking-wider transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Unlink
+                        </button>
+                    ) : (
+                        <>
+                            <SettingsInput
+                                id="listenbrainz-token"
+                                type="password"
+                                value={lbToken}
+                                onChange={setLbToken}
+                                placeholder="User token"
+                                className="w-56"
+                            />
+                            <button
+                                onClick={handleListenBrainzConnect}
+                                disabled={lbBusy || !lbToken.trim()}
+                                className="px-4 py-2 bg-[#fca208] text-black text-xs font-black rounded-lg uppercase tracking-wider
+                                    hover:bg-[#f97316] disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+                            >
+                                Connect
+                            </button>
+                        </>
+                    )}
+                </div>
+            </SettingsRow>
+
+            {settings.listenbrainzConnected && (
+                <>
+                    <SettingsRow
+                        label="Submit to ListenBrainz"
+                        description="Pause without unlinking. Plays made while paused are not sent later."
+                        htmlFor="listenbrainz-scrobbling"
+                    >
+                        <SettingsToggle
+                            id="listenbrainz-scrobbling"
+                            checked={settings.listenbrainzScrobbling}
+                            onChange={(checked) => onUpdate({ listenbrainzScrobbling: checked })}
+                        />
+                    </SettingsRow>
+
+                    <SettingsRow label="Import listening history" description={importDescription}>
+                        <button
+                            onClick={handleImport}
+                            disabled={importRunning}
+                            className="px-4 py-2 bg-white/5 text-white text-xs font-black rounded-lg uppercase tracking-wider
+                                hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+                        >
+                            {importRunning ? "Importing" : "Import"}
+                        </button>
+                    </SettingsRow>
+                </>
+            )}
+        </SettingsSection>
+    );
+}
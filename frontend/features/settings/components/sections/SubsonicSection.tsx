@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { SettingsSection, SettingsRow } from "../ui";
+import { SettingsSection, SettingsRow, SettingsSelect } from "../ui";
+import { UserSettings } from "../../types";
 import { useAuth } from "@/lib/auth-context";
 import { api } from "@/lib/api";
 import { InlineStatus, StatusType } from "@/components/ui/InlineStatus";
@@ -9,11 +10,37 @@ import { InlineStatus, StatusType } from "@/components/ui/InlineStatus";
 interface ApiKey {
     id: string;
     name: string;
+    transcodeProfile: string | null;
     createdAt: string;
     lastUsed: string | null;
 }
 
-export function SubsonicSection() {
+interface SubsonicSectionProps {
+    settings: UserSettings;
+    onUpdate: (updates: Partial<UserSettings>) => void;
+}
+
+const transcodeOptions = [
+    { value: "original", label: "Original" },
+    { value: "opus-160", label: "Opus 160 kbps" },
+    { value: "opus-128", label: "Opus 128 kbps" },
+    { value: "opus-96", label: "Opus 96 kbps" },
+    { value: "opus-64", label: "Opus 64 kbps" },
+    { value: "aac-256", label: "AAC 256 kbps" },
+    { value: "aac-192", label: "AAC 192 kbps" },
+    { value: "aac-128", label: "AAC 128 kbps" },
+    { value: "mp3-320", label: "MP3 320 kbps" },
+    { value: "mp3-192", label: "MP3 192 kbps" },
+    { value: "mp3-128", label: "MP3 128 kbps" },
+];
+
+// A token without its own profile follows the account default
+const tokenTranscodeOptions = [
+    { value: "default", label: "Account default" },
+    ...transcodeOptions,
+];
+
+export function SubsonicSection({ settings, onUpdate }: SubsonicSectionProps) {
     const { user } = useAuth();
 
     const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
@@ -83,6 +110,19 @@ export function SubsonicSection() {
         }
     };
 
+    const handleProfileChange = async (id: string, value: string) => {
+        const transcodeProfile = value === "default" ? null : value;
+        const previous = apiKeys;
+        setApiKeys((prev) => prev.map((k) => (k.id === id ? { ...k, transcodeProfile } : k)));
+        try {
+            await api.updateApiKey(id, { transcodeProfile });
+        } catch {
+            setApiKeys(previous);
+            setStatus("error");
+            setMessage("Failed to update token");
+        }
+    };
+
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text);
     };
@@ -124,6 +164,17 @@ export function SubsonicSection() {
                 </span>
             </SettingsRow>
 
+            <SettingsRow
+                label="Streaming format"
+                description="What apps receive unless they ask for a format themselves. Opus saves the most data on mobile; AAC suits iOS apps"
+            >
+                <SettingsSelect
+                    value={settings.transcodeProfile ?? "original"}
+                    onChange={(v) => onUpdate({ transcodeProfile: v === "original" ? null : v })}
+                    options={transcodeOptions}
+                />
+            </SettingsRow>
+
             {/* Token Generation */}
             <SettingsRow
                 label="API Token"
@@ -194,7 +245,7 @@ export function SubsonicSection() {
             {apiKeys.length > 0 && (
                 <SettingsRow
                     label="Active Tokens"
-                    description="Revoke tokens to disconnect clients"
+                    description="Pick a streaming format per app, or revoke tokens to disconnect clients"
                 >
                     <div className="space-y-2 w-full">
                         {apiKeys.map((key) => (
@@ -209,13 +260,20 @@ export function SubsonicSection() {
                                         {key.lastUsed && ` · Last used ${formatDate(key.lastUsed)}`}
                                     </p>
                                 </div>
-                                <button
-                                    onClick={() => handleRevoke(key.id)}
-                                    disabled={revoking === key.id}
-                                    className="text-xs font-mono text-red-400 hover:text-red-300 uppercase tracking-wider transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                    {revoking === key.id ? "Revoking..." : "Revoke"}
-                                </button>
+                                <div className="flex items-center gap-3 shrink-0">
+                                    <SettingsSelect
+                                        value={key.transcodeProfile ?? "default"}
+                                        onChange={(v) => handleProfileChange(key.id, v)}
+                                        options={tokenTranscodeOptions}
+                                    />
+                                    <button
+                                        onClick={() => handleRevoke(key.id)}
+                                        disabled={revoking === key.id}
+                                        className="text-xs font-mono text-red-400 hover:text-red-300 uppercase tracking-wider transition-colors shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {revoking === key.id ? "Revoking..." : "Revoke"}
+                                    </button>
+                                </div>
                             </div>
                         ))}
                     </div>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useAuth } from "@/lib/auth-context";
+import { queryKeys } from "@/hooks/useQueries";
 import { UserSettings } from "../types";
 
 const defaultSettings: UserSettings = {
@@ -8,10 +10,16 @@ const defaultSettings: UserSettings = {
     wifiOnly: false,
     offlineEnabled: false,
     maxCacheSizeMb: 5120,
+    replayGainMode: "auto",
+    replayGainPreamp: 0,
+    crossfadeSeconds: 0,
+    lastfmScrobbling: true,
+    listenbrainzScrobbling: true,
 };
 
 export function useSettingsData() {
     const { isAuthenticated } = useAuth();
+    const queryClient = useQueryClient();
     const [settings, setSettings] = useState<UserSettings>(defaultSettings);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
@@ -40,6 +48,8 @@ export function useSettingsData() {
             setIsSaving(true);
             await api.updateSettings(newSettings);
             setSettings(newSettings);
+            // The player reads ReplayGain settings from the query cache
+            queryClient.invalidateQueries({ queryKey: queryKeys.userSettings() });
             // No toast - caller shows inline status
         } catch (error) {
             console.error("Failed to save settings:", error);
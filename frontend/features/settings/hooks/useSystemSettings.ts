@@ -13,9 +13,12 @@ const defaultSystemSettings: SystemSettings = {
     fanartEnabled: false,
     fanartApiKey: "",
     lastfmApiKey: "",
+    lastfmApiSecret: "",
     audiobookshelfEnabled: false,
     audiobookshelfUrl: "http://localhost:13378",
     audiobookshelfApiKey: "",
+    localAudiobooksEnabled: false,
+    audiobookPath: "/audiobooks",
     soulseekUsername: "",
     soulseekPassword: "",
     spotifyClientId: "",
@@ -25,6 +28,7 @@ const defaultSystemSettings: SystemSettings = {
     transcodeCacheMaxGb: 10,
     maxCacheSizeMb: 10240,
     autoSync: true,
+    libraryWatcherEnabled: false,
     autoEnrichMetadata: true,
     audioAnalyzerWorkers: 2,
     soulseekConcurrentDownloads: 4,
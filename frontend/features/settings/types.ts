@@ -8,6 +8,45 @@ export interface UserSettings {
     wifiOnly: boolean;
     offlineEnabled: boolean;
     maxCacheSizeMb: number;
+    // Loudness normalization (pre-amp in dB)
+    replayGainMode: "off" | "track" | "album" | "auto";
+    replayGainPreamp: number;
+    // Web player crossfade between unrelated tracks, 0-12 s (0 = off)
+    crossfadeSeconds: number;
+    // Scrobbling (account linking happens through dedicated endpoints)
+    lastfmScrobbling: boolean;
+    lastfmConnected?: boolean;
+    lastfmUsername?: string | null;
+    listenbrainzScrobbling: boolean;
+    listenbrainzConnected?: boolean;
+    listenbrainzUsername?: string | null;
+    // Cap on all podcast downloads together (null = unlimited)
+    podcastStorageLimitMb?: number | null;
+    // Transcoding profile for native apps, e.g. "opus-128" (null = original)
+    transcodeProfile?: string | null;
+}
+
+export interface PodcastDownloadRules {
+    autoDownload: boolean;
+    keepLatest: number | null;
+    deletePlayedAfterDays: number | null;
+    maxStorageMb: number | null;
+}
+
+export interface PodcastStorageUsage {
+    podcastId: string;
+    title: string;
+    coverUrl: string | null;
+    subscribed: boolean;
+    usedMb: number;
+    downloadedEpisodes: number;
+    rules: PodcastDownloadRules | null;
+}
+
+export interface PodcastStorage {
+    usedMb: number;
+    limitMb: number | null;
+    podcasts: PodcastStorageUsage[];
 }
 
 export interface SystemSettings {
@@ -24,10 +63,14 @@ export interface SystemSettings {
     fanartEnabled: boolean;
     fanartApiKey: string;
     lastfmApiKey: string;
+    lastfmApiSecret: string;
     // Audiobookshelf
     audiobookshelfEnabled: boolean;
     audiobookshelfUrl: string;
     audiobookshelfApiKey: string;
+    // Local audiobooks
+    localAudiobooksEnabled: boolean;
+    audiobookPath: string;
     // Soulseek (direct connection via slsk-client)
     soulseekUsername: string;
     soulseekPassword: string;
@@ -41,6 +84,7 @@ export interface SystemSettings {
     transcodeCacheMaxGb: number;
     maxCacheSizeMb: number;
     autoSync: boolean;
+    libraryWatcherEnabled: boolean;
     autoEnrichMetadata: boolean;
     audioAnalyzerWorkers: number;
     soulseekConcurrentDownloads: number;
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { AudioController } from "@/lib/audio-controller";
+import { DEFAULT_AUDIO_EFFECTS } from "@/lib/audio-effects";
+import { queryKeys } from "./useQueries";
+
+const EFFECTS_DEVICE_KEY = "kima_effects_device";
+const EFFECTS_DEVICE_EVENT = "kima-effects-device";
+
+function readEffectsDevice(): string | null {
+    if (typeof window === "undefined") return null;
+    return localStorage.getItem(EFFECTS_DEVICE_KEY);
+}
+
+/**
+ * Which linked device's effects this browser plays with; null for the
+ * account's. Browsers aren't linked devices themselves, so this lets a
+ * desktop hooked up to a hi-fi borrow that device's EQ instead of the one
+ * tuned for earbuds.
+ */
+export function useEffectsDevice(): [string | null, (deviceId: string | null) => void] {
+    const [deviceId, setDeviceId] = useState<string | null>(readEffectsDevice);
+
+    useEffect(() => {
+        const sync = () => setDeviceId(readEffectsDevice());
+        window.addEventListener(EFFECTS_DEVICE_EVENT, sync);
+        window.addEventListener("storage", sync);
+        return () => {
+            window.removeEventListener(EFFECTS_DEVICE_EVENT, sync);
+            window.removeEventListener("storage", sync);
+        };
+    }, []);
+
+    const update = useCallback((next: string | null) => {
+        if (next) {
+            localStorage.setItem(EFFECTS_DEVICE_KEY, next);
+        } else {
+            localStorage.removeItem(EFFECTS_DEVICE_KEY);
+        }
+        window.dispatchEvent(new Event(EFFECTS_DEVICE_EVENT));
+    }, []);
+
+    return [deviceId, update];
+}
+
+/** Applies this browser's EQ and effects to the player */
+export function useAudioEffects(controller: AudioController | null) {
+    const [deviceId, setDeviceId] = useEffectsDevice();
+
+    const { data, error } = useQuery({
+        queryKey: queryKeys.audioEffects(deviceId),
+        queryFn: () => api.getAudioEffects(deviceId),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    // The device was revoked: go back to the account's effects. Any other
+    // failure (server error, timeout, offline) keeps the choice.
+    const deviceNotFound = (error as { status?: number } | null)?.status === 404;
+    useEffect(() => {
+        if (deviceNotFound && deviceId) setDeviceId(null);
+    }, [deviceNotFound, deviceId, setDeviceId]);
+
+    useEffect(() => {
+        controller?.setEffects(data?.effects ?? DEFAULT_AUDIO_EFFECTS);
+    }, [controller, data]);
+}
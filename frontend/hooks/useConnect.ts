@@ -0,0 +1,183 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Track, useAudioState } from "@/lib/audio-state-context";
+import { useAudioPlayback } from "@/lib/audio-playback-context";
+import { useAudioControls } from "@/lib/audio-controls-context";
+import { useAudioController } from "@/lib/audio-controller-context";
+import { useRadioNowPlaying } from "@/features/radio/hooks/useRadioNowPlaying";
+import { api, ConnectCommand, ConnectPlayerState, ConnectQueueTrack } from "@/lib/api";
+import { CONNECT_COMMAND_EVENT, getConnectIdentity } from "@/lib/connect";
+import { queryKeys } from "./useQueries";
+
+// Others extrapolate the position in between, so a slow heartbeat is enough
+const STATE_HEARTBEAT_MS = 15_000;
+// Collapses bursts, e.g. dragging the volume slider
+const STATE_THROTTLE_MS = 500;
+
+/** The user's other open players; kept current by the event stream */
+export function useConnectDevices() {
+    return useQuery({
+        queryKey: queryKeys.connectDevices(),
+        queryFn: async () => (await api.getConnectDevices()).devices,
+        staleTime: Infinity,
+        select: (devices) => devices.filter((device) => device.id !== getConnectIdentity().id),
+    });
+}
+
+/** Trims a queue to what the other device needs to play it */
+export function toConnectQueue(tracks: Track[]): ConnectQueueTrack[] {
+    return tracks.map(({ id, title, duration, artist, album }) => ({
+        id,
+        title,
+        duration,
+        artist: { id: artist.id, name: artist.name },
+        album: { id: album.id, title: album.title, coverArt: album.coverArt },
+    }));
+}
+
+/**
+ * Makes this player controllable from the user's other sessions: runs the
+ * commands sent to it and tells the others what it is playing.
+ */
+export function useConnectReceiver() {
+    const controller = useAudioController();
+    const state = useAudioState();
+    const { isPlaying, currentTime, duration } = useAudioPlayback();
+    const controls = useAudioControls();
+    const radioTitle = useRadioNowPlaying(
+        state.playbackType === "radio" ? state.currentRadio?.id : null
+    );
+
+    const stateRef = useRef(state);
+    const currentTimeRef = useRef(currentTime);
+    const controlsRef = useRef(controls);
+    useEffect(() => { stateRef.current = state; }, [state]);
+    useEffect(() => { currentTimeRef.current = currentTime; }, [currentTime]);
+    useEffect(() => { controlsRef.current = controls; }, [controls]);
+
+    // Like useMediaInfo, but with cover ids: each session adds its own token
+    const { playbackType, currentTrack, currentAudiobook, currentPodcast, currentRadio, volume } = state;
+    const nowPlaying: Pick<ConnectPlayerState, "title" | "subtitle" | "coverUrl"> =
+        playbackType === "track" && currentTrack
+            ? { title: currentTrack.title, subtitle: currentTrack.artist?.name ?? null, coverUrl: currentTrack.album?.coverArt ?? null }
+            : playbackType === "audiobook" && currentAudiobook
+              ? { title: currentAudiobook.title, subtitle: currentAudiobook.author, coverUrl: currentAudiobook.coverUrl ?? null }
+              : playbackType === "podcast" && currentPodcast
+                ? { title: currentPodcast.title, subtitle: currentPodcast.podcastTitle, coverUrl: currentPodcast.coverUrl ?? null }
+                : playbackType === "radio" && currentRadio
+                  ? { title: radioTitle || currentRadio.name, subtitle: radioTitle ? currentRadio.name : "Internet Radio", coverUrl: null }
+                  : { title: null, subtitle: null, coverUrl: null };
+    const { title, subtitle, coverUrl } = nowPlaying;
+
+    // -- Commands --
+    useEffect(() => {
+        if (!controller) return;
+
+        // Once this device is playing the other one can stop, so playback
+        // moves over without a gap (at worst a moment is heard twice)
+        let releaseSource: (() => void) | null = null;
+
+        const takeOver = (command: Extract<ConnectCommand, { type: "takeover" }>) => {
+            if (releaseSource) controller.off("play", releaseSource);
+            const onPlay = () => {
+                controller.off("play", onPlay);
+                releaseSource = null;
+                api.sendConnectCommand(command.fromDeviceId, { type: "pause" }).catch(() => {});
+            };
+            releaseSource = onPlay;
+            controller.on("play", onPlay);
+            controlsRef.current.playTracks(command.tracks, command.startIndex, {
+                startTime: command.position,
+                shuffle: command.isShuffle,
+            });
+        };
+
+        const handOver = (toDeviceId: string) => {
+            const { playbackType, queue, currentIndex, isShuffle } = stateRef.current;
+            // Only the music queue travels; books and podcasts keep their
+            // progress on the server already
+            if (playbackType !== "track" || queue.length === 0) return;
+            api.sendConnectCommand(toDeviceId, {
+                type: "takeover",
+                fromDeviceId: getConnectIdentity().id,
+                tracks: toConnectQueue(queue),
+                startIndex: currentIndex,
+                position: currentTimeRef.current,
+                isShuffle,
+            }).catch(() => {});
+        };
+
+        const onCommand = (event: Event) => {
+            const command = (event as CustomEvent<ConnectCommand>).detail;
+            const current = controlsRef.current;
+            const isTrack = stateRef.current.playbackType === "track";
+
+            switch (command.type) {
+                case "play":
+                    current.resume();
+                    break;
+                case "pause":
+                    current.pause();
+                    break;
+                // Like the media keys: books and podcasts skip 30 seconds instead
+                case "next":
+                    if (isTrack) current.next();
+                    else current.seek(currentTimeRef.current + 30);
+                    break;
+                case "previous":
+                    if (isTrack) current.previous();
+                    else current.seek(Math.max(currentTimeRef.current - 30, 0));
+                    break;
+                case "seek":
+                    current.seek(command.position);
+                    break;
+                case "volume":
+                    current.setVolume(command.volume);
+                    break;
+                case "queue":
+                    current.playTracks(command.tracks, command.startIndex);
+                    break;
+                case "transfer":
+                    handOver(command.toDeviceId);
+                    break;
+                case "takeover":
+                    takeOver(command);
+                    break;
+            }
+        };
+
+        window.addEventListener(CONNECT_COMMAND_EVENT, onCommand);
+        return () => {
+            window.removeEventListener(CONNECT_COMMAND_EVENT, onCommand);
+            if (releaseSource) controller.off("play", releaseSource);
+        };
+    }, [controller]);
+
+    // -- State reports --
+    // Position is only sent with other changes, on seeks and on a heartbeat
+    useEffect(() => {
+        const report = () => {
+            api.reportConnectState(getConnectIdentity().id, {
+                playbackType,
+                title,
+                subtitle,
+                coverUrl,
+                isPlaying,
+                position: currentTimeRef.current,
+                duration,
+                volume,
+            }).catch(() => {
+                // Not registered (yet); the next change or heartbeat retries
+            });
+        };
+
+        const timer = setTimeout(report, STATE_THROTTLE_MS);
+        const heartbeat = isPlaying ? setInterval(report, STATE_HEARTBEAT_MS) : null;
+        controller?.on("seeked", report);
+        return () => {
+            clearTimeout(timer);
+            if (heartbeat) clearInterval(heartbeat);
+            controller?.off("seeked", report);
+        };
+    }, [controller, playbackType, title, subtitle, coverUrl, isPlaying, duration, volume]);
+}
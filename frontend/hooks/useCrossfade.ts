@@ -0,0 +1,23 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { AudioController } from "@/lib/audio-controller";
+import { queryKeys } from "./useQueries";
+
+/**
+ * Applies the user's crossfade length to the web player. It only applies
+ * between unrelated tracks: consecutive tracks from the same album are
+ * prepared as gapless.
+ */
+export function useCrossfade(controller: AudioController | null) {
+    const { data: settings } = useQuery({
+        queryKey: queryKeys.userSettings(),
+        queryFn: () => api.getSettings(),
+        staleTime: 5 * 60 * 1000,
+    });
+    const seconds: number = settings?.crossfadeSeconds ?? 0;
+
+    useEffect(() => {
+        controller?.setCrossfade(seconds);
+    }, [controller, seconds]);
+}
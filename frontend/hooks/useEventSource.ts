@@ -6,6 +6,8 @@ import { useAuth } from "@/lib/auth-context";
 import { useDownloadProgress } from "@/lib/download-progress-context";
 import { searchResultStore } from "@/lib/search-result-store";
 import { api, getApiBaseUrl } from "@/lib/api";
+import { dispatchConnectCommand, getConnectIdentity } from "@/lib/connect";
+import { queryKeys } from "./useQueries";
 
 /**
  * Returns the base URL for SSE connections.
@@ -43,7 +45,15 @@ export function useEventSource() {
                 return;
             }
 
-            const es = new EventSource(`${getSSEBaseUrl()}/api/events?ticket=${ticket}`);
+            // Registers this player with Kima Connect for as long as the stream is open
+            const device = getConnectIdentity();
+            const params = new URLSearchParams({
+                ticket,
+                deviceId: device.id,
+                deviceName: device.name,
+                deviceType: device.type,
+            });
+            const es = new EventSource(`${getSSEBaseUrl()}/api/events?${params}`);
             eventSourceRef.current = es;
 
             es.onmessage = (event) => {
@@ -115,6 +125,12 @@ export function useEventSource() {
                         case "enrichment:progress":
                             queryClient.invalidateQueries({ queryKey: ["enrichment-progress"] });
                             break;
+                        case "radio:metadata":
+                            queryClient.setQueryData(
+                                ["radio-now-playing", data.stationId],
+                                { title: data.title }
+                            );
+                            break;
                         case "import:progress":
                             queryClient.setQueryData(
                                 ["import-status", data.jobId],
@@ -129,6 +145,16 @@ export function useEventSource() {
                                 }));
                             }
                             break;
+                        case "podcast-import:progress":
+                            queryClient.setQueryData(
+                                ["podcast-opml-import"],
+                                { status: "active", progress: data }
+                            );
+                            if (data.processed === data.total) {
+                                queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+                                queryClient.invalidateQueries({ queryKey: ["podcast-opml-import"] });
+                            }
+                            break;
                         case "discover:progress":
                             queryClient.setQueryData(
                                 ["discover-batch-status"],
@@ -154,6 +180,18 @@ export function useEventSource() {
                                 { status: data.error ? "failed" : "completed", preview: data.preview, error: data.error, jobId: data.jobId }
                             );
                             break;
+                        case "playlist:updated":
+                            queryClient.invalidateQueries({ queryKey: ["playlist", data.playlistId] });
+                            queryClient.invalidateQueries({ queryKey: ["playlists"] });
+                            break;
+                        case "connect:devices":
+                            queryClient.setQueryData(queryKeys.connectDevices(), data.devices);
+                            break;
+                        case "connect:command":
+                            if (data.targetDeviceId === getConnectIdentity().id) {
+                                dispatchConnectCommand(data.command);
+                            }
+                            break;
                         case "connected":
                             // Only refetch on reconnect (not initial connect) to avoid
                             // duplicate requests when queries were just fetched on mount.
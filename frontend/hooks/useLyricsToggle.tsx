@@ -4,6 +4,7 @@ import { useCallback, useState } from "react";
 import { useActivityPanelSettings } from "@/lib/activity-panel-settings-context";
 import { useAudioState } from "@/lib/audio-state-context";
 import { LyricsPanel } from "@/components/lyrics/LyricsPanel";
+import { TranscriptPanel } from "@/features/podcast/components/TranscriptPanel";
 
 interface UseLyricsToggleOptions {
     isMobile: boolean;
@@ -11,7 +12,7 @@ interface UseLyricsToggleOptions {
 
 export function useLyricsToggle({ isMobile }: UseLyricsToggleOptions) {
     const { setSettingsContent, settingsOwner } = useActivityPanelSettings();
-    const { currentTrack } = useAudioState();
+    const { currentTrack, playbackType } = useAudioState();
 
     // Mobile: local toggle state for inline crawl. Desktop: activity panel.
     const [mobileActive, setMobileActive] = useState(false);
@@ -45,14 +46,20 @@ export function useLyricsToggle({ isMobile }: UseLyricsToggleOptions) {
             return;
         }
 
-        setSettingsContent(<LyricsPanel onBack={closeLyrics} />, "lyrics");
+        // Podcasts show their transcript in the lyrics slot
+        setSettingsContent(
+            playbackType === "podcast"
+                ? <TranscriptPanel onBack={closeLyrics} />
+                : <LyricsPanel onBack={closeLyrics} />,
+            "lyrics"
+        );
         window.dispatchEvent(new CustomEvent("open-activity-panel"));
         window.dispatchEvent(
             new CustomEvent("set-activity-panel-tab", {
                 detail: { tab: "settings" },
             })
         );
-    }, [setSettingsContent, closeLyrics, settingsOwner, isMobile]);
+    }, [setSettingsContent, closeLyrics, settingsOwner, isMobile, playbackType]);
 
     return { handleLyricsToggle, isLyricsActive };
 }
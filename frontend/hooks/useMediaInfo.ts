@@ -1,6 +1,7 @@
 import { useMemo } from "react";
 import { useAudioState } from "@/lib/audio-context";
 import { api } from "@/lib/api";
+import { useRadioNowPlaying } from "@/features/radio/hooks/useRadioNowPlaying";
 
 export interface MediaInfo {
     title: string;
@@ -17,11 +18,15 @@ export function useMediaInfo(coverSize: number = 100): MediaInfo {
         currentTrack,
         currentAudiobook,
         currentPodcast,
+        currentRadio,
         playbackType,
     } = useAudioState();
+    const radioTitle = useRadioNowPlaying(
+        playbackType === "radio" ? currentRadio?.id : null
+    );
 
     return useMemo(() => {
-        const hasMedia = !!(currentTrack || currentAudiobook || currentPodcast);
+        const hasMedia = !!(currentTrack || currentAudiobook || currentPodcast || currentRadio);
 
         if (playbackType === "track" && currentTrack) {
             const albumLink = currentTrack.album?.id
@@ -72,6 +77,20 @@ export function useMediaInfo(coverSize: number = 100): MediaInfo {
             };
         }
 
+        if (playbackType === "radio" && currentRadio) {
+            // Stations that send ICY metadata show the current song; the
+            // station name moves to the subtitle
+            return {
+                title: radioTitle || currentRadio.name,
+                subtitle: radioTitle ? currentRadio.name : "Internet Radio",
+                coverUrl: null,
+                albumLink: null,
+                artistLink: null,
+                mediaLink: "/radio",
+                hasMedia,
+            };
+        }
+
         return {
             title: "Not Playing",
             subtitle: "Select something to play",
@@ -81,5 +100,5 @@ export function useMediaInfo(coverSize: number = 100): MediaInfo {
             mediaLink: null,
             hasMedia,
         };
-    }, [currentTrack, currentAudiobook, currentPodcast, playbackType, coverSize]);
+    }, [currentTrack, currentAudiobook, currentPodcast, currentRadio, radioTitle, playbackType, coverSize]);
 }
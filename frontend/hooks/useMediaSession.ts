@@ -4,6 +4,7 @@ import { useAudioPlayback } from "@/lib/audio-playback-context";
 import { useAudioControls } from "@/lib/audio-controls-context";
 import { useAudioController } from "@/lib/audio-controller-context";
 import { api } from "@/lib/api";
+import { useRadioNowPlaying } from "@/features/radio/hooks/useRadioNowPlaying";
 
 export function useMediaSession() {
     const controller = useAudioController();
@@ -11,8 +12,12 @@ export function useMediaSession() {
         currentTrack,
         currentAudiobook,
         currentPodcast,
+        currentRadio,
         playbackType,
     } = useAudioState();
+    const radioTitle = useRadioNowPlaying(
+        playbackType === "radio" ? currentRadio?.id : null
+    );
     const { currentTime } = useAudioPlayback();
     const { next, previous, seek } = useAudioControls();
 
@@ -148,7 +153,7 @@ export function useMediaSession() {
     useEffect(() => {
         if (!("mediaSession" in navigator)) return;
 
-        if (!currentTrack && !currentAudiobook && !currentPodcast) {
+        if (!currentTrack && !currentAudiobook && !currentPodcast && !currentRadio) {
             navigator.mediaSession.metadata = null;
             navigator.mediaSession.playbackState = "none";
             return;
@@ -200,10 +205,17 @@ export function useMediaSession() {
                       }))
                     : fallbackArtwork,
             });
+        } else if (playbackType === "radio" && currentRadio) {
+            navigator.mediaSession.metadata = new MediaMetadata({
+                title: radioTitle || currentRadio.name,
+                artist: radioTitle ? currentRadio.name : "Internet Radio",
+                album: "Internet Radio",
+                artwork: fallbackArtwork,
+            });
         } else {
             navigator.mediaSession.metadata = null;
         }
-    }, [currentTrack, currentAudiobook, currentPodcast, playbackType, getAbsoluteUrl]);
+    }, [currentTrack, currentAudiobook, currentPodcast, currentRadio, radioTitle, playbackType, getAbsoluteUrl]);
 
     // Position state for lock screen scrubbing (throttled to every 5s)
     useEffect(() => {
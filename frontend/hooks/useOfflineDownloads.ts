@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import {
+    getOfflineCollections,
+    getOfflineTracks,
+    OfflineCollection,
+    OfflineTrack,
+    subscribeToOffline,
+} from "@/lib/offline";
+import { queryKeys } from "./useQueries";
+
+export interface OfflineProgress {
+    completed: number;
+    total: number;
+}
+
+/**
+ * Downloaded albums and playlists on this device, kept current as the
+ * service worker reports progress
+ */
+export function useOfflineDownloads() {
+    const [collections, setCollections] = useState<OfflineCollection[]>([]);
+    const [tracks, setTracks] = useState<Map<string, OfflineTrack>>(new Map());
+    const [progress, setProgress] = useState<Record<string, OfflineProgress>>({});
+    const [isLoading, setIsLoading] = useState(true);
+
+    const { data: settings } = useQuery({
+        queryKey: queryKeys.userSettings(),
+        queryFn: () => api.getSettings(),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const refresh = useCallback(async () => {
+        try {
+            const [nextCollections, nextTracks] = await Promise.all([
+                getOfflineCollections(),
+                getOfflineTracks(),
+            ]);
+            setCollections(nextCollections);
+            setTracks(nextTracks);
+        } catch {
+            // IndexedDB unavailable (private browsing); nothing is downloaded
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        return subscribeToOffline((message) => {
+            if (message.type === "OFFLINE_PROGRESS") {
+                setProgress((prev) => ({
+                    ...prev,
+                    [message.collectionId]: { completed: message.completed, total: message.total },
+                }));
+            } else if (message.type === "OFFLINE_DONE" || message.type === "OFFLINE_REMOVED") {
+                setProgress((prev) => {
+                    const next = { ...prev };
+                    delete next[message.collectionId];
+                    return next;
+                });
+                refresh();
+            }
+        });
+    }, [refresh]);
+
+    return {
+        collections,
+        tracks,
+        progress,
+        isLoading,
+        refresh,
+        offlineEnabled: settings?.offlineEnabled ?? false,
+        wifiOnly: settings?.wifiOnly ?? false,
+        maxCacheSizeMb: settings?.maxCacheSizeMb ?? 5120,
+    };
+}
@@ -25,11 +25,14 @@ export function usePlaybackProgress() {
 
     const isMultiTrack = playbackType === "audiobook" && (currentAudiobook?.tracks?.length ?? 0) > 1;
 
-    const duration = isMultiTrack
-        ? (currentAudiobook?.duration || playbackDuration || 0)
-        : playbackDuration > 0
-            ? playbackDuration
-            : (currentTrack?.duration || currentAudiobook?.duration || currentPodcast?.duration || 0);
+    // Live radio reports an infinite duration; treat it as unknown
+    const duration = playbackType === "radio"
+        ? 0
+        : isMultiTrack
+            ? (currentAudiobook?.duration || playbackDuration || 0)
+            : playbackDuration > 0
+                ? playbackDuration
+                : (currentTrack?.duration || currentAudiobook?.duration || currentPodcast?.duration || 0);
 
     let time = currentTime;
     if (time <= 0) {
@@ -17,7 +17,7 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@/lib/api";
+import { api, SmartPlaylistRules } from "@/lib/api";
 
 export const queryKeys = {
     // Artist queries
@@ -34,17 +34,23 @@ export const queryKeys = {
         sortBy?: string;
         limit?: number;
         offset?: number;
+        starred?: boolean;
+        minRating?: number;
     }) => ["library", "artists", params] as const,
     libraryAlbums: (params: {
         filter?: string;
         sortBy?: string;
         limit?: number;
         offset?: number;
+        starred?: boolean;
+        minRating?: number;
     }) => ["library", "albums", params] as const,
     libraryTracks: (params: {
         sortBy?: string;
         limit?: number;
         offset?: number;
+        starred?: boolean;
+        minRating?: number;
     }) => ["library", "tracks", params] as const,
     recentlyListened: (limit?: number) =>
         ["library", "recently-listened", limit] as const,
@@ -93,6 +99,15 @@ export const queryKeys = {
     // Library radio data
     libraryGenres: () => ["library", "genres"] as const,
     libraryDecades: () => ["library", "decades"] as const,
+
+    // Playback
+    userSettings: () => ["settings"] as const,
+    replayGain: (trackId: string) => ["replay-gain", trackId] as const,
+    audioEffects: (deviceId: string | null) => ["audio-effects", deviceId ?? "account"] as const,
+    connectDevices: () => ["connect-devices"] as const,
+
+    // Linked devices and Subsonic tokens
+    apiKeys: () => ["api-keys"] as const,
 };
 
 /**
@@ -220,7 +235,13 @@ export function useRecentlyAddedQuery(limit: number = 10) {
 export type LibraryFilter = "owned" | "discovery" | "all";
 export type SortOption = "name" | "name-desc" | "recent" | "tracks";
 
-interface LibraryArtistsParams {
+/** Per-user star/rating filters; 0 means any rating */
+interface LibraryRatingParams {
+    starred?: boolean;
+    minRating?: number;
+}
+
+interface LibraryArtistsParams extends LibraryRatingParams {
     filter?: LibraryFilter;
     sortBy?: SortOption;
     limit?: number;
@@ -228,7 +249,7 @@ interface LibraryArtistsParams {
     enabled?: boolean;
 }
 
-interface LibraryAlbumsParams {
+interface LibraryAlbumsParams extends LibraryRatingParams {
     filter?: LibraryFilter;
     sortBy?: SortOption;
     limit?: number;
@@ -236,7 +257,7 @@ interface LibraryAlbumsParams {
     enabled?: boolean;
 }
 
-interface LibraryTracksParams {
+interface LibraryTracksParams extends LibraryRatingParams {
     sortBy?: SortOption;
     limit?: number;
     page?: number;
@@ -253,12 +274,18 @@ export function useLibraryArtistsQuery({
     sortBy = "name",
     limit = 40,
     page = 1,
+    starred = false,
+    minRating = 0,
     enabled = true,
 }: LibraryArtistsParams = {}) {
     const offset = (page - 1) * limit;
+    const ratingParams = {
+        starred: starred || undefined,
+        minRating: minRating || undefined,
+    };
     return useQuery({
-        queryKey: queryKeys.libraryArtists({ filter, sortBy, limit, offset }),
-        queryFn: () => api.getArtists({ limit, offset, filter, sortBy }),
+        queryKey: queryKeys.libraryArtists({ filter, sortBy, limit, offset, ...ratingParams }),
+        queryFn: () => api.getArtists({ limit, offset, filter, sortBy, ...ratingParams }),
         select: (response) => ({
             artists: response.artists,
             total: response.total,
@@ -284,12 +311,18 @@ export function useLibraryAlbumsQuery({
     sortBy = "name",
     limit = 40,
     page = 1,
+    starred = false,
+    minRating = 0,
     enabled = true,
 }: LibraryAlbumsParams = {}) {
     const offset = (page - 1) * limit;
+    const ratingParams = {
+        starred: starred || undefined,
+        minRating: minRating || undefined,
+    };
     return useQuery({
-        queryKey: queryKeys.libraryAlbums({ filter, sortBy, limit, offset }),
-        queryFn: () => api.getAlbums({ limit, offset, filter, sortBy }),
+        queryKey: queryKeys.libraryAlbums({ filter, sortBy, limit, offset, ...ratingParams }),
+        queryFn: () => api.getAlbums({ limit, offset, filter, sortBy, ...ratingParams }),
         select: (response) => ({
             albums: response.albums,
             total: response.total,
@@ -310,12 +343,18 @@ export function useLibraryTracksQuery({
     sortBy = "name",
     limit = 40,
     page = 1,
+    starred = false,
+    minRating = 0,
     enabled = true,
 }: LibraryTracksParams = {}) {
     const offset = (page - 1) * limit;
+    const ratingParams = {
+        starred: starred || undefined,
+        minRating: minRating || undefined,
+    };
     return useQuery({
-        queryKey: queryKeys.libraryTracks({ sortBy, limit, offset }),
-        queryFn: () => api.getTracks({ limit, offset, sortBy }),
+        queryKey: queryKeys.libraryTracks({ sortBy, limit, offset, ...ratingParams }),
+        queryFn: () => api.getTracks({ limit, offset, sortBy, ...ratingParams }),
         select: (response) => ({
             tracks: response.tracks,
             total: response.total,
@@ -785,7 +824,7 @@ export function useUpdatePlaylistMutation() {
             data,
         }: {
             playlistId: string;
-            data: { name?: string; isPublic?: boolean };
+            data: { name?: string; isPublic?: boolean; smart?: SmartPlaylistRules };
         }) => api.updatePlaylist(playlistId, data),
         onSuccess: (_, variables) => {
             queryClient.invalidateQueries({
@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAudioState } from "@/lib/audio-state-context";
+import { AudioController, ReplayGainMode, replayGainMultiplier } from "@/lib/audio-controller";
+import { queryKeys } from "./useQueries";
+
+/**
+ * Applies the user's ReplayGain mode and pre-amp to whatever track is
+ * playing. Gain values are fetched per track and cached; the next track's
+ * gain is prefetched so it is ready before playback reaches it.
+ */
+export function useReplayGain(controller: AudioController | null) {
+    const { playbackType, currentTrack, queue, currentIndex, isShuffle, shuffleIndices } = useAudioState();
+    const trackId = playbackType === "track" ? currentTrack?.id ?? null : null;
+
+    const { data: settings } = useQuery({
+        queryKey: queryKeys.userSettings(),
+        queryFn: () => api.getSettings(),
+        staleTime: 5 * 60 * 1000,
+    });
+    const mode: ReplayGainMode = settings?.replayGainMode ?? "auto";
+    const preamp: number = settings?.replayGainPreamp ?? 0;
+
+    // Neighbours in play order decide whether "auto" treats this as album playback
+    const order = isShuffle && shuffleIndices.length === queue.length ? shuffleIndices : null;
+    const position = order ? order.indexOf(currentIndex) : currentIndex;
+    const at = (pos: number) => queue[order ? order[pos] : pos];
+    const previousTrack = position > 0 ? at(position - 1) : undefined;
+    const nextTrack = position >= 0 ? at(position + 1) : undefined;
+    const albumId = currentTrack?.album.id;
+    const inAlbumContext =
+        !!albumId && (previousTrack?.album.id === albumId || nextTrack?.album.id === albumId);
+
+    const enabled = mode !== "off";
+    const { data: gain } = useQuery({
+        queryKey: queryKeys.replayGain(trackId ?? ""),
+        queryFn: () => api.getTrackReplayGain(trackId!),
+        enabled: enabled && !!trackId,
+        staleTime: 30 * 60 * 1000,
+        // Keep the previous track's gain until this one loads rather than
+        // jumping to unity gain for a moment
+        placeholderData: (previous) => previous,
+    });
+    useQuery({
+        queryKey: queryKeys.replayGain(nextTrack?.id ?? ""),
+        queryFn: () => api.getTrackReplayGain(nextTrack!.id),
+        enabled: enabled && playbackType === "track" && !!nextTrack,
+        staleTime: 30 * 60 * 1000,
+    });
+
+    useEffect(() => {
+        if (!controller) return;
+        // Audiobooks, podcasts and radio carry no gain information
+        controller.setReplayGain(
+            trackId ? replayGainMultiplier(gain ?? null, mode, preamp, inAlbumContext) : 1
+        );
+    }, [controller, trackId, gain, mode, preamp, inAlbumContext]);
+}
@@ -38,6 +38,161 @@ interface ApiError extends Error {
     data?: Record<string, unknown>;
 }
 
+// Internet radio station as returned by /api/radio-stations
+export interface InternetRadioStationData {
+    id: string;
+    name: string;
+    streamUrl: string;
+    homepageUrl: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface InternetRadioStationInput {
+    name: string;
+    streamUrl: string;
+    homepageUrl?: string | null;
+}
+
+// ReplayGain as returned by /api/library/tracks/:id/replay-gain
+// (gains in dB, peaks as linear amplitude, null when unknown)
+export interface TrackReplayGain {
+    trackGain: number | null;
+    trackPeak: number | null;
+    albumGain: number | null;
+    albumPeak: number | null;
+}
+
+// EQ and effects chain as stored on /api/audio-effects (see the backend's
+// services/audioEffects.ts for the accepted ranges). Gains are in dB.
+export interface EqFilter {
+    type: "peaking" | "lowshelf" | "highshelf";
+    frequency: number;
+    gain: number;
+    q: number;
+}
+
+export interface HeadphoneProfile {
+    name: string;
+    preamp: number;
+    filters: EqFilter[];
+}
+
+export interface AudioEffects {
+    enabled: boolean;
+    preset: string;
+    preamp: number;
+    bands: number[];
+    headphone: HeadphoneProfile | null;
+    limiter: boolean;
+    mono: boolean;
+}
+
+export interface ResolvedAudioEffects {
+    effects: AudioEffects;
+    source: "device" | "account";
+}
+
+// Kima Connect: players open right now, and what can be sent to them
+export type ConnectDeviceType = "web" | "tv" | "mobile";
+
+export interface ConnectPlayerState {
+    playbackType: "track" | "audiobook" | "podcast" | "radio" | null;
+    title: string | null;
+    subtitle: string | null;
+    // A cover id or path, as taken by getCoverArtUrl
+    coverUrl: string | null;
+    isPlaying: boolean;
+    position: number;
+    duration: number;
+    volume: number;
+}
+
+export interface ConnectDevice {
+    id: string;
+    name: string;
+    type: ConnectDeviceType;
+    connectedAt: string;
+    state: (ConnectPlayerState & { updatedAt: string }) | null;
+}
+
+export interface ConnectQueueTrack {
+    id: string;
+    title: string;
+    duration: number;
+    artist: { id?: string; name: string };
+    album: { id?: string; title: string; coverArt?: string };
+}
+
+export type ConnectCommand =
+    | { type: "play" | "pause" | "next" | "previous" }
+    | { type: "seek"; position: number }
+    | { type: "volume"; volume: number }
+    | { type: "queue"; tracks: ConnectQueueTrack[]; startIndex: number }
+    | { type: "transfer"; toDeviceId: string }
+    | {
+          type: "takeover";
+          fromDeviceId: string;
+          tracks: ConnectQueueTrack[];
+          startIndex: number;
+          position: number;
+          isShuffle: boolean;
+      };
+
+// Smart playlist rules as stored on /api/playlists (see the backend's
+// services/smartPlaylists.ts for the fields and operators it accepts)
+export interface SmartCondition {
+    field: string;
+    operator: string;
+    value: string | number | boolean | [number, number];
+}
+
+export interface SmartRuleGroup {
+    match: "all" | "any";
+    conditions: Array<SmartCondition | SmartRuleGroup>;
+}
+
+export interface SmartPlaylistRules {
+    rules: SmartRuleGroup;
+    sort?: { field: string; order: "asc" | "desc" };
+    limit?: number;
+}
+
+export interface OfflineDownloadTrack {
+    trackId: string;
+    title: string;
+    duration: number;
+    albumId: string;
+    albumTitle: string;
+    artistId: string;
+    artistName: string;
+    coverUrl: string | null;
+    streamUrl: string;
+}
+
+export interface OfflineDownloadJob {
+    quality: "original" | "high" | "medium" | "low";
+    tracks: OfflineDownloadTrack[];
+    estimatedSizeMb: number;
+}
+
+export type CollaboratorRole = "editor" | "viewer";
+
+export interface PlaylistCollaborator {
+    userId: string;
+    username: string;
+    role: CollaboratorRole;
+    status: "pending" | "accepted";
+}
+
+export interface PlaylistInvite {
+    playlistId: string;
+    playlistName: string;
+    owner: string;
+    role: CollaboratorRole;
+    invitedAt: string;
+}
+
 interface ServiceTestResult {
     success?: boolean;
     version?: string;
@@ -405,6 +560,8 @@ class ApiClient {
         offset?: number;
         filter?: "owned" | "discovery" | "all";
         sortBy?: string;
+        starred?: boolean;
+        minRating?: number;
     }) {
         return this.request<{
             artists: ApiData[];
@@ -440,7 +597,7 @@ class ApiClient {
         return this.request<{
             status: string;
             progress: number;
-            result?: { tracksAdded: number; tracksUpdated: number; tracksRemoved: number };
+            result?: { tracksAdded: number; tracksUpdated: number; tracksRemoved: number; tracksMoved?: number };
         }>(`/library/scan/status/${jobId}`);
     }
 
@@ -454,6 +611,8 @@ class ApiClient {
         offset?: number;
         filter?: "owned" | "discovery" | "all";
         sortBy?: string;
+        starred?: boolean;
+        minRating?: number;
     }) {
         return this.request<{
             albums: ApiData[];
@@ -472,6 +631,8 @@ class ApiClient {
         limit?: number;
         offset?: number;
         sortBy?: string;
+        starred?: boolean;
+        minRating?: number;
     }) {
         return this.request<{
             tracks: ApiData[];
@@ -481,6 +642,20 @@ class ApiClient {
         }>(`/library/tracks?${toSearchParams(params as Record<string, string | number | boolean | undefined>).toString()}`);
     }
 
+    // Ratings are 1-5; 0 clears the rating
+    async setRating(type: "tracks" | "albums" | "artists", id: string, rating: number) {
+        return this.request<{ id: string; userRating: number }>(`/library/${type}/${id}/rating`, {
+            method: "PUT",
+            body: JSON.stringify({ rating }),
+        });
+    }
+
+    async setStarred(type: "tracks" | "albums" | "artists", id: string, starred: boolean) {
+        return this.request<{ id: string; starred: boolean }>(`/library/${type}/${id}/star`, {
+            method: starred ? "PUT" : "DELETE",
+        });
+    }
+
     async getShuffledTracks(limit?: number) {
         const params = limit ? `?limit=${limit}` : "";
         return this.request<{
@@ -517,6 +692,10 @@ class ApiClient {
         return this.request<ApiData>(`/library/tracks/${id}`);
     }
 
+    async getTrackReplayGain(trackId: string) {
+        return this.request<TrackReplayGain>(`/library/tracks/${trackId}/replay-gain`);
+    }
+
     async getTrackLyrics(trackId: string) {
         return this.request<{
             plainLyrics: string | null;
@@ -545,6 +724,26 @@ class ApiClient {
         return baseUrl;
     }
 
+    /** Absolute URL for a stream path from an offline download job */
+    getOfflineDownloadUrl(streamPath: string): string {
+        const url = `${this.getBaseUrl()}/api${streamPath}`;
+        const token = this.getCurrentToken();
+        if (token) {
+            return `${url}${url.includes("?") ? "&" : "?"}token=${encodeURIComponent(token)}`;
+        }
+        return url;
+    }
+
+    /** Master playlist for adaptive playback; segment URIs carry the token too */
+    getHlsUrl(trackId: string): string {
+        const baseUrl = `${this.getBaseUrl()}/api/library/tracks/${trackId}/hls/master.m3u8`;
+        const token = this.getCurrentToken();
+        if (token) {
+            return `${baseUrl}?token=${encodeURIComponent(token)}`;
+        }
+        return baseUrl;
+    }
+
     /**
      * Get the current token, lazily loading from localStorage if needed.
      * This handles the case where the singleton was created during SSR
@@ -639,6 +838,45 @@ class ApiClient {
         );
     }
 
+    // Offline downloads
+    async createAlbumDownload(albumId: string) {
+        return this.request<OfflineDownloadJob>(`/offline/albums/${albumId}/download`, {
+            method: "POST",
+            body: JSON.stringify({}),
+        });
+    }
+
+    async createPlaylistDownload(playlistId: string) {
+        return this.request<OfflineDownloadJob>(`/offline/playlists/${playlistId}/download`, {
+            method: "POST",
+            body: JSON.stringify({}),
+        });
+    }
+
+    async completeOfflineTrack(trackId: string, quality: string, fileSizeMb: number) {
+        return this.request<ApiData>(`/offline/tracks/${trackId}/complete`, {
+            method: "POST",
+            body: JSON.stringify({
+                localPath: `/offline-audio/${trackId}`,
+                quality,
+                fileSizeMb,
+            }),
+        });
+    }
+
+    async removeOfflineTrack(trackId: string) {
+        return this.request<{ deletedCount: number }>(`/offline/tracks/${trackId}`, {
+            method: "DELETE",
+        });
+    }
+
+    async recordPlay(trackId: string, playedAt?: string) {
+        return this.request<ApiData>("/plays", {
+            method: "POST",
+            body: JSON.stringify({ trackId, playedAt }),
+        });
+    }
+
     // Playlists
     async getPlaylists() {
         return this.request<ApiData[]>("/playlists");
@@ -655,7 +893,33 @@ class ApiClient {
         });
     }
 
-    async updatePlaylist(id: string, data: { name?: string; isPublic?: boolean }) {
+    async createSmartPlaylist(name: string, smart: SmartPlaylistRules) {
+        return this.request<ApiData>("/playlists", {
+            method: "POST",
+            body: JSON.stringify({ name, smart }),
+        });
+    }
+
+    async refreshSmartPlaylist(id: string) {
+        return this.request<{ trackCount: number }>(`/playlists/${id}/refresh`, {
+            method: "POST",
+        });
+    }
+
+    async exportSmartPlaylist(id: string) {
+        return this.request<SmartPlaylistRules & { version: number; name: string }>(
+            `/playlists/${id}/export`
+        );
+    }
+
+    async importSmartPlaylist(file: unknown) {
+        return this.request<ApiData>("/playlists/import", {
+            method: "POST",
+            body: JSON.stringify(file),
+        });
+    }
+
+    async updatePlaylist(id: string, data: { name?: string; isPublic?: boolean; smart?: SmartPlaylistRules }) {
         return this.request<ApiData>(`/playlists/${id}`, {
             method: "PUT",
             body: JSON.stringify(data),
@@ -681,6 +945,38 @@ class ApiClient {
         });
     }
 
+    async getPlaylistInvites() {
+        return this.request<PlaylistInvite[]>("/playlists/invites");
+    }
+
+    async inviteCollaborator(playlistId: string, username: string, role: CollaboratorRole) {
+        return this.request<PlaylistCollaborator>(`/playlists/${playlistId}/collaborators`, {
+            method: "POST",
+            body: JSON.stringify({ username, role }),
+        });
+    }
+
+    async updateCollaborator(playlistId: string, userId: string, role: CollaboratorRole) {
+        return this.request<{ userId: string; role: CollaboratorRole }>(
+            `/playlists/${playlistId}/collaborators/${userId}`,
+            { method: "PATCH", body: JSON.stringify({ role }) }
+        );
+    }
+
+    // Owners remove collaborators; collaborators remove themselves to leave or decline
+    async removeCollaborator(playlistId: string, userId: string) {
+        return this.request<{ message: string }>(
+            `/playlists/${playlistId}/collaborators/${userId}`,
+            { method: "DELETE" }
+        );
+    }
+
+    async acceptPlaylistInvite(playlistId: string) {
+        return this.request<{ message: string }>(`/playlists/${playlistId}/accept-invite`, {
+            method: "POST",
+        });
+    }
+
     async hidePlaylist(playlistId: string) {
         return this.request<{ message: string; isHidden: boolean }>(
             `/playlists/${playlistId}/hide`,
@@ -750,8 +1046,8 @@ class ApiClient {
     }
 
     // System Features
-    async getFeatures(): Promise<{ musicCNN: boolean; vibeEmbeddings: boolean; audiobookshelfEnabled: boolean }> {
-        return this.request<{ musicCNN: boolean; vibeEmbeddings: boolean; audiobookshelfEnabled: boolean }>(
+    async getFeatures(): Promise<{ musicCNN: boolean; vibeEmbeddings: boolean; audiobookshelfEnabled: boolean; audiobooksEnabled: boolean }> {
+        return this.request<{ musicCNN: boolean; vibeEmbeddings: boolean; audiobookshelfEnabled: boolean; audiobooksEnabled: boolean }>(
             "/system/features"
         );
     }
@@ -1094,6 +1390,40 @@ class ApiClient {
         return baseUrl;
     }
 
+    async getRadioStations() {
+        return this.request<InternetRadioStationData[]>("/radio-stations");
+    }
+
+    async createRadioStation(data: InternetRadioStationInput) {
+        return this.request<InternetRadioStationData>("/radio-stations", {
+            method: "POST",
+            body: JSON.stringify(data),
+        });
+    }
+
+    async updateRadioStation(id: string, data: InternetRadioStationInput) {
+        return this.request<InternetRadioStationData>(`/radio-stations/${id}`, {
+            method: "PUT",
+            body: JSON.stringify(data),
+        });
+    }
+
+    async deleteRadioStation(id: string) {
+        return this.request<{ success: boolean }>(`/radio-stations/${id}`, {
+            method: "DELETE",
+        });
+    }
+
+    getRadioStreamUrl(stationId: string): string {
+        const baseUrl = `${this.getBaseUrl()}/api/radio-stations/${stationId}/stream`;
+        // Token as query param for the audio element (supported by requireAuthOrToken)
+        const token = this.getCurrentToken();
+        if (token) {
+            return `${baseUrl}?token=${encodeURIComponent(token)}`;
+        }
+        return baseUrl;
+    }
+
     /**
      * Check if a podcast episode is cached locally
      * Returns { cached: boolean, downloading: boolean, downloadProgress: number | null }
@@ -1138,6 +1468,37 @@ class ApiClient {
         );
     }
 
+    async getPodcastEpisodeChapters(podcastId: string, episodeId: string) {
+        return this.request<{ chapters: ApiData[] }>(
+            `/podcasts/${podcastId}/episodes/${episodeId}/chapters`
+        );
+    }
+
+    async getPodcastEpisodeTranscript(podcastId: string, episodeId: string) {
+        return this.request<{ segments: ApiData[] }>(
+            `/podcasts/${podcastId}/episodes/${episodeId}/transcript`
+        );
+    }
+
+    async getPodcastStorage() {
+        return this.request<ApiData>("/podcasts/storage");
+    }
+
+    async updatePodcastDownloadRules(
+        podcastId: string,
+        rules: {
+            autoDownload?: boolean;
+            keepLatest?: number | null;
+            deletePlayedAfterDays?: number | null;
+            maxStorageMb?: number | null;
+        }
+    ) {
+        return this.request<ApiData>(`/podcasts/${podcastId}/download-rules`, {
+            method: "PUT",
+            body: JSON.stringify(rules),
+        });
+    }
+
     async getSimilarPodcasts(podcastId: string) {
         return this.request<ApiData[]>(`/podcasts/${podcastId}/similar`);
     }
@@ -1191,6 +1552,44 @@ class ApiClient {
         );
     }
 
+    // OPML import (uses raw fetch -- FormData requires browser-set Content-Type)
+    async importPodcastOpml(file: File): Promise<{ status: string; total: number }> {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const response = await fetch(`${this.getBaseUrl()}/api/podcasts/import/opml`, {
+            method: "POST",
+            headers: { Authorization: `Bearer ${this.getToken()}` },
+            body: formData,
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(
+                (error as Record<string, string>).error || "OPML import failed"
+            );
+        }
+
+        return response.json();
+    }
+
+    async getPodcastOpmlImportStatus() {
+        return this.request<ApiData>("/podcasts/import/opml");
+    }
+
+    async exportPodcastOpml(): Promise<Blob> {
+        const response = await fetch(`${this.getBaseUrl()}/api/podcasts/export/opml`, {
+            headers: { Authorization: `Bearer ${this.getToken()}` },
+            credentials: "include",
+        });
+
+        if (!response.ok) {
+            throw new Error("OPML export failed");
+        }
+
+        return response.blob();
+    }
+
     // Playback State (cross-device sync)
     async getPlaybackState() {
         return this.request<ApiData>("/playback-state");
@@ -1544,6 +1943,7 @@ class ApiClient {
         apiKeys: Array<{
             id: string;
             name: string;
+            transcodeProfile: string | null;
             createdAt: string;
             lastUsed: string | null;
         }>;
@@ -1551,6 +1951,54 @@ class ApiClient {
         return this.get("/api-keys");
     }
 
+    async updateApiKey(
+        id: string,
+        data: { transcodeProfile: string | null }
+    ): Promise<{ id: string; transcodeProfile: string | null }> {
+        return this.request(`/api-keys/${id}`, {
+            method: "PATCH",
+            body: JSON.stringify(data),
+        });
+    }
+
+    // Without a deviceId: the account's settings, which the web player uses
+    async getAudioEffects(deviceId?: string | null) {
+        const query = deviceId ? `?deviceId=${encodeURIComponent(deviceId)}` : "";
+        return this.request<ResolvedAudioEffects>(`/audio-effects${query}`);
+    }
+
+    async saveAudioEffects(effects: AudioEffects, deviceId?: string | null) {
+        return this.request<ResolvedAudioEffects>("/audio-effects", {
+            method: "PUT",
+            body: JSON.stringify({ effects, ...(deviceId ? { deviceId } : {}) }),
+        });
+    }
+
+    async resetDeviceAudioEffects(deviceId: string) {
+        return this.request<ResolvedAudioEffects>(
+            `/audio-effects/devices/${encodeURIComponent(deviceId)}`,
+            { method: "DELETE" }
+        );
+    }
+
+    async getConnectDevices() {
+        return this.request<{ devices: ConnectDevice[] }>("/connect/devices");
+    }
+
+    async sendConnectCommand(deviceId: string, command: ConnectCommand) {
+        return this.post<{ ok: boolean }>(
+            `/connect/devices/${encodeURIComponent(deviceId)}/commands`,
+            command
+        );
+    }
+
+    async reportConnectState(deviceId: string, state: ConnectPlayerState) {
+        return this.post<ConnectDevice>(
+            `/connect/devices/${encodeURIComponent(deviceId)}/state`,
+            state
+        );
+    }
+
     async revokeApiKey(id: string): Promise<{ message: string }> {
         return this.delete(`/api-keys/${id}`);
     }
@@ -1,4 +1,4 @@
-export type { PlayerMode, Track, Audiobook, Podcast, AudioFeatures } from "./audio-state-context";
+export type { PlayerMode, Track, Audiobook, Podcast, InternetRadioStation, AudioFeatures } from "./audio-state-context";
 
 export { AudioStateProvider } from "./audio-state-context";
 export { AudioPlaybackProvider } from "./audio-playback-context";
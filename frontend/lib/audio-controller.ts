@@ -1,5 +1,10 @@
 "use client";
 
+import type Hls from "hls.js";
+import type { AudioEffects, TrackReplayGain } from "./api";
+import { AudioEffectsChain, DEFAULT_AUDIO_EFFECTS, isNeutralEffects } from "./audio-effects";
+import { clampCrossfade, decodeTrack, type DecodedTrack } from "./gapless";
+
 export type AudioControllerEvent =
     | "play"
     | "pause"
@@ -10,20 +15,161 @@ export type AudioControllerEvent =
     | "error"
     | "waiting"
     | "seeked"
-    | "needs-resume";
+    | "needs-resume"
+    | "transition";
 
 export type AudioControllerCallback = (data?: unknown) => void;
 
+export type ReplayGainMode = "off" | "track" | "album" | "auto";
+
+/**
+ * Linear gain for a track. "auto" uses album gain when the surrounding queue
+ * items are from the same album (keeping the album's own dynamics between
+ * tracks) and track gain otherwise. A missing gain falls back to the other
+ * one, and the matching peak caps the result so normalization never clips.
+ */
+export function replayGainMultiplier(
+    info: TrackReplayGain | null,
+    mode: ReplayGainMode,
+    preampDb: number,
+    inAlbumContext: boolean
+): number {
+    if (!info || mode === "off") return 1;
+
+    const preferAlbum = mode === "album" || (mode === "auto" && inAlbumContext);
+    const album = { gain: info.albumGain, peak: info.albumPeak };
+    const track = { gain: info.trackGain, peak: info.trackPeak };
+    const [primary, fallback] = preferAlbum ? [album, track] : [track, album];
+    const chosen = primary.gain !== null ? primary : fallback;
+    if (chosen.gain === null) return 1;
+
+    const multiplier = Math.pow(10, (chosen.gain + preampDb) / 20);
+    return chosen.peak && chosen.peak > 0 ? Math.min(multiplier, 1 / chosen.peak) : multiplier;
+}
+
+type NetworkInformation = { type?: string; effectiveType?: string; saveData?: boolean };
+
+/** Cellular, slow or data-saving connections start tracks on HLS */
+function isConstrainedConnection(): boolean {
+    const connection = (navigator as { connection?: NetworkInformation }).connection;
+    if (!connection) return false;
+    return (
+        connection.saveData === true ||
+        connection.type === "cellular" ||
+        ["slow-2g", "2g", "3g"].includes(connection.effectiveType ?? "")
+    );
+}
+
+// How far ahead of a handoff its timer is armed; timeupdate fires every ~250ms
+const TRANSITION_SCHEDULE_WINDOW_S = 1;
+
+// Longer tracks hand over between elements: a decoded one holds its whole
+// PCM in memory (about 130 MB for six minutes of 48 kHz stereo)
+const MAX_DECODED_SECONDS = 6 * 60;
+
+// Decoded playback has no element to report progress, so it's polled
+const DECODED_TICK_MS = 250;
+
+/** The track queued to follow the current one, buffering on the standby element or decoding */
+interface PreparedTrack {
+    key: string;
+    src: string;
+    hlsSrc: string | null;
+    // Consecutive album tracks never fade, whatever the crossfade setting
+    gapless: boolean;
+    decoded: DecodedTrack | null;
+}
+
+/** A decoded track started on the AudioContext clock, with its own fade gain */
+interface ScheduledSource {
+    source: AudioBufferSourceNode;
+    gain: GainNode;
+}
+
+/** The active track when it plays from a decoded buffer instead of an element */
+interface DecodedPlayback {
+    src: string;
+    track: DecodedTrack;
+    // null while paused
+    playing: ScheduledSource | null;
+    // Context time at which position 0 plays, while playing
+    origin: number;
+    // Position while paused
+    position: number;
+}
+
+/** Equal-power fade curve, so the blend doesn't dip in loudness midway */
+function fadeCurve(direction: "in" | "out"): Float32Array {
+    const points = 64;
+    const curve = new Float32Array(points);
+    for (let i = 0; i < points; i++) {
+        const t = i / (points - 1);
+        curve[i] = direction === "in" ? Math.sin((t * Math.PI) / 2) : Math.cos((t * Math.PI) / 2);
+    }
+    return curve;
+}
+
+/**
+ * Playback engine for the web player.
+ *
+ * Two audio elements take turns: the active one plays while the standby one
+ * buffers the next track, and at the end of a track the standby starts and
+ * the roles swap. With a crossfade, audio effects or a visualizer, both
+ * elements run through Web Audio (a fade gain each, then the shared effects
+ * chain) and crossfaded handoffs start early with equal-power fades; without
+ * any of those and without album playback no audio graph exists.
+ *
+ * Album tracks are gapless on the AudioContext clock instead: the next one is
+ * downloaded and decoded, trimmed of its encoder delay and padding, and
+ * started with AudioBufferSourceNode.start(when) exactly where the current
+ * one ends. The run then stays decoded, each track scheduled to the sample
+ * after the previous one, until something that isn't (a skip, another
+ * album, a track too long to decode) loads on an element again. Anything
+ * that can't be decoded falls back to the element handoff.
+ *
+ * Only the active player's events reach listeners; decoded playback emits
+ * the same ones. A handoff the controller starts itself emits "transition"
+ * with the prepared track's key so the queue can move on without loading
+ * anything.
+ */
 export class AudioController {
     private audio: HTMLAudioElement;
+    private standby: HTMLAudioElement;
     private audioSessionSet = false;
+    private standbyUnlocked = false;
     private eventListeners: Map<AudioControllerEvent, Set<AudioControllerCallback>> = new Map();
     private nativeListeners: Array<{ event: string; handler: EventListener }> = [];
-    private prefetchLink: HTMLLinkElement | null = null;
+
+    // Gapless/crossfade state
+    private next: PreparedTrack | null = null;
+    private standbySrc: string | null = null;
+    private transitionTimer: ReturnType<typeof setTimeout> | null = null;
+    private fade: {
+        outgoing: HTMLAudioElement | ScheduledSource;
+        timeout: ReturnType<typeof setTimeout>;
+    } | null = null;
+    private crossfadeSeconds = 0;
+
+    // Decoded gapless state
+    private decoded: DecodedPlayback | null = null;
+    private pendingDecoded: { next: PreparedTrack; scheduled: ScheduledSource; when: number } | null = null;
+    private decodeAbort: AbortController | null = null;
+    private decodedTicker: ReturnType<typeof setInterval> | null = null;
+    private gaplessRequested = false;
+
+    // Web Audio graph: element → fade gain → effects chain → output, and
+    // decoded source → fade gain → decoded volume → effects chain
+    private audioContext: AudioContext | null = null;
+    private fadeGains = new Map<HTMLAudioElement, GainNode>();
+    private decodedVolume: GainNode | null = null;
+    private effectsChain: AudioEffectsChain | null = null;
+    private effects: AudioEffects = DEFAULT_AUDIO_EFFECTS;
+    private analyserRequested = false;
 
     private currentSrc: string | null = null;
     private volume = 1;
     private isMuted = false;
+    private replayGain = 1;
 
     private networkRetryCount = 0;
     private readonly MAX_NETWORK_RETRIES = 3;
@@ -46,6 +192,14 @@ export class AudioController {
     private readonly MAX_STALL_RECOVERIES = 3;
     private autoResumeAfterRecovery = false;
 
+    // HLS state: hlsSrc is the current track's master playlist, if it has one
+    private hls: Hls | null = null;
+    private hlsSrc: string | null = null;
+    private usingHls = false;
+    private hlsLoadId = 0;
+    // Set once a progressive stream stalls; later tracks start on HLS
+    private networkFlaky = false;
+
     // reloadAndPlay failsafe state (tracked for cleanup in destroy())
     private reloadFailsafeTimeout: ReturnType<typeof setTimeout> | null = null;
     private reloadFailsafeListener: (() => void) | null = null;
@@ -54,10 +208,15 @@ export class AudioController {
         this.audio = audio;
         this.audio.preload = "auto";
 
+        this.standby = document.createElement("audio");
+        this.standby.preload = "auto";
+        this.standby.crossOrigin = audio.crossOrigin;
+        this.standby.setAttribute("playsinline", "");
+
         const events: AudioControllerEvent[] = [
             "play", "pause", "ended", "timeupdate",
             "loading", "canplay", "error", "waiting",
-            "seeked", "needs-resume",
+            "seeked", "needs-resume", "transition",
         ];
         events.forEach((e) => this.eventListeners.set(e, new Set()));
 
@@ -94,16 +253,23 @@ export class AudioController {
 
         add("pause", () => {
             this.stopWatchdog();
+            // Reaching the end pauses too, and the handoff is still due then
+            if (!this.audio.ended) {
+                this.clearTransitionTimer();
+            }
             this.emit("pause");
         });
 
         add("ended", () => {
             this.stopWatchdog();
+            // Backstop for a handoff timer that didn't fire in time
+            if (this.startTransition()) return;
             this.emit("ended");
         });
 
         add("timeupdate", () => {
             this.cancelStallGrace();
+            this.scheduleTransition();
             this.emit("timeupdate", { time: this.audio.currentTime });
         });
 
@@ -134,6 +300,7 @@ export class AudioController {
 
         add("seeked", () => {
             this.resetWatchdog();
+            this.clearTransitionTimer();
             this.emit("seeked", { time: this.audio.currentTime });
         });
 
@@ -172,8 +339,7 @@ export class AudioController {
                         const currentTime = this.audio.currentTime;
                         this.retrySeekTime = currentTime > 0 ? currentTime : null;
                         this.autoResumeAfterRecovery = true;
-                        this.audio.src = this.currentSrc;
-                        this.audio.load();
+                        this.reloadSource();
                     }
                 }, delay);
                 return;
@@ -253,11 +419,18 @@ export class AudioController {
             return;
         }
 
+        // A progressive stream that stalls moves to HLS, which can drop to a
+        // lower bitrate instead of stalling again
+        if (!this.usingHls && this.hlsSrc) {
+            console.warn("[AudioController] Switching to HLS after stall");
+            this.networkFlaky = true;
+            this.usingHls = true;
+        }
+
         const currentTime = this.audio.currentTime;
         this.retrySeekTime = currentTime > 0 ? currentTime : null;
         this.autoResumeAfterRecovery = true;
-        this.audio.src = this.currentSrc;
-        this.audio.load();
+        this.reloadSource();
     }
 
     private cancelStallGrace(): void {
@@ -268,9 +441,18 @@ export class AudioController {
     }
 
     async play(): Promise<void> {
-        if (!this.audio.src) return;
+        if (!this.hasSource()) return;
 
         this.setAudioSessionPlayback();
+        this.unlockStandby();
+        this.resumeAudioGraph();
+
+        if (this.decoded) {
+            if (!(await this.resumeDecoded())) {
+                this.emit("needs-resume");
+            }
+            return;
+        }
 
         try {
             await this.audio.play();
@@ -294,10 +476,12 @@ export class AudioController {
     }
 
     async tryResume(): Promise<boolean> {
-        if (!this.audio.src) return false;
+        if (!this.hasSource()) return false;
+        if (this.decoded) return this.resumeDecoded();
         if (!this.audio.paused) return true;
 
         this.setAudioSessionPlayback();
+        this.resumeAudioGraph();
 
         try {
             await this.audio.play();
@@ -309,6 +493,11 @@ export class AudioController {
 
     pause(): void {
         this.autoResumeAfterRecovery = false;
+        this.finishFade();
+        if (this.decoded) {
+            this.pauseDecoded();
+            return;
+        }
         this.audio.pause();
     }
 
@@ -317,6 +506,7 @@ export class AudioController {
             this.resetWatchdog();
         }
         this.cancelStallGrace();
+        this.resumeAudioGraph();
     }
 
     private clearReloadFailsafe(): void {
@@ -342,6 +532,12 @@ export class AudioController {
      */
     reloadAndPlay(): void {
         if (!this.currentSrc) return;
+        if (this.decoded) {
+            // Nothing to reload: restart the source once the context runs again
+            this.stopDecodedSource();
+            this.play();
+            return;
+        }
         const currentTime = this.audio.currentTime;
         this.retrySeekTime = Number.isFinite(currentTime) && currentTime > 0 ? currentTime : null;
         this.autoResumeAfterRecovery = true;
@@ -356,8 +552,7 @@ export class AudioController {
         this.reloadFailsafeListener = onCanPlayOnce;
         this.audio.addEventListener("canplay", onCanPlayOnce);
 
-        this.audio.src = this.currentSrc;
-        this.audio.load();
+        this.reloadSource();
 
         // Safety net: if canplay never fires, notify the UI
         this.reloadFailsafeTimeout = setTimeout(() => {
@@ -370,11 +565,35 @@ export class AudioController {
     }
 
     stop(): void {
+        this.finishFade();
+        if (this.decoded) {
+            this.pauseDecoded();
+            this.decoded.position = 0;
+            return;
+        }
         this.audio.pause();
         this.audio.currentTime = 0;
     }
 
-    load(src: string, autoplay: boolean = false): void {
+    /**
+     * Load a source. hlsSrc is an HLS master playlist for the same audio,
+     * used instead on constrained connections or once a stream has stalled.
+     */
+    load(src: string, autoplay: boolean = false, hlsSrc: string | null = null): void {
+        if (this.decoded) {
+            if (this.decoded.src === src) {
+                if (autoplay && !this.decoded.playing) {
+                    this.play();
+                }
+                return;
+            }
+            this.finishFade();
+            const playing = this.leaveDecoded();
+            if (playing) {
+                this.stopSource(playing);
+            }
+        }
+
         if (this.currentSrc === src && this.audio.readyState >= 2) {
             if (autoplay && this.audio.paused) {
                 this.play();
@@ -382,10 +601,51 @@ export class AudioController {
             return;
         }
 
+        this.finishFade();
+
+        // Skipping to the track that is already decoded or buffering: hand over at once
+        const decodedNext = this.next?.src === src ? this.next.decoded : null;
+        if (this.next && decodedNext && this.canPlayDecoded()) {
+            const next = this.next;
+            this.next = null;
+            this.enterDecoded(next, decodedNext, null, 0);
+            if (autoplay) {
+                this.play();
+            }
+            return;
+        }
+        if (this.next && this.standbySrc === src && this.standby.error === null) {
+            const next = this.next;
+            this.next = null;
+            this.promoteStandby(next);
+            this.releaseElement(this.standby);
+            if (autoplay) {
+                this.play();
+            }
+            if (this.audio.readyState >= 3) {
+                this.emit("canplay", { duration: this.getDuration() });
+            }
+            return;
+        }
+
+        this.clearNext();
         this.cancelNetworkRetry();
         this.stopWatchdog();
         this.cancelStallGrace();
+        this.destroyHls();
         this.currentSrc = src;
+        this.hlsSrc = hlsSrc;
+        this.usingHls = false;
+
+        if (hlsSrc && (this.networkFlaky || isConstrainedConnection())) {
+            this.attachHls().then((attached) => {
+                if (attached && autoplay) {
+                    this.play();
+                }
+            });
+            return;
+        }
+
         this.audio.src = src;
 
         if (autoplay) {
@@ -393,7 +653,96 @@ export class AudioController {
         }
     }
 
+    // -- HLS --
+
+    private hasSource(): boolean {
+        return Boolean(this.audio.src) || this.hls !== null || this.decoded !== null;
+    }
+
+    /**
+     * Play the HLS source, natively where the browser can (Safari) and through
+     * hls.js elsewhere, falling back to the progressive stream if neither
+     * works. Resolves false if another load superseded this one.
+     */
+    private async attachHls(): Promise<boolean> {
+        const src = this.hlsSrc;
+        if (!src) return false;
+        this.destroyHls();
+        this.usingHls = true;
+
+        if (this.audio.canPlayType("application/vnd.apple.mpegurl")) {
+            this.audio.src = src;
+            this.audio.load();
+            return true;
+        }
+
+        const loadId = ++this.hlsLoadId;
+        try {
+            const { default: HlsPlayer } = await import("hls.js");
+            if (loadId !== this.hlsLoadId) return false;
+            if (!HlsPlayer.isSupported()) throw new Error("MediaSource not supported");
+
+            const hls = new HlsPlayer();
+            hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+                if (!data.fatal || this.hls !== hls) return;
+                if (data.type === HlsPlayer.ErrorTypes.MEDIA_ERROR) {
+                    hls.recoverMediaError();
+                    return;
+                }
+                console.warn("[AudioController] HLS failed, falling back to progressive:", data.details);
+                this.fallbackToProgressive();
+            });
+            hls.loadSource(src);
+            hls.attachMedia(this.audio);
+            this.hls = hls;
+            return true;
+        } catch (err) {
+            if (loadId !== this.hlsLoadId) return false;
+            console.warn("[AudioController] HLS unavailable:", err);
+            this.fallbackToProgressive();
+            return true;
+        }
+    }
+
+    private fallbackToProgressive(): void {
+        this.destroyHls();
+        this.usingHls = false;
+        // Don't try HLS again for this track
+        this.hlsSrc = null;
+        if (!this.currentSrc) return;
+
+        const currentTime = this.audio.currentTime;
+        this.retrySeekTime = currentTime > 0 ? currentTime : null;
+        this.autoResumeAfterRecovery = this.autoResumeAfterRecovery || !this.audio.paused;
+        this.audio.src = this.currentSrc;
+        this.audio.load();
+    }
+
+    private destroyHls(): void {
+        // Invalidates any hls.js import still in flight
+        this.hlsLoadId++;
+        if (this.hls) {
+            this.hls.destroy();
+            this.hls = null;
+        }
+    }
+
+    /** Point the element at the current source again, over HLS if it's in use */
+    private reloadSource(): void {
+        if (this.usingHls && this.hlsSrc) {
+            this.attachHls();
+        } else if (this.currentSrc) {
+            this.audio.src = this.currentSrc;
+            this.audio.load();
+        }
+    }
+
     seek(time: number): void {
+        this.finishFade();
+        if (this.decoded) {
+            this.seekDecoded(time);
+            return;
+        }
         const duration = this.audio.duration;
         if (duration && isFinite(duration) && duration > 0) {
             time = Math.max(0, Math.min(time, duration));
@@ -407,36 +756,599 @@ export class AudioController {
         }
     }
 
-    preloadHint(src: string): void {
-        if (this.prefetchLink) {
-            this.prefetchLink.remove();
-            this.prefetchLink = null;
+    // -- Gapless and crossfade --
+
+    /**
+     * Get the track that follows the current one ready. gapless is for
+     * consecutive tracks of the same album: they never crossfade, and one
+     * short enough (duration, in seconds) is decoded to start on the
+     * AudioContext clock. On connections that stream over HLS the next track
+     * loads normally instead.
+     */
+    prepareNext(
+        key: string,
+        src: string,
+        options: { hlsSrc?: string | null; gapless?: boolean; duration?: number } = {}
+    ): void {
+        const hlsSrc = options.hlsSrc ?? null;
+        if (this.usingHls || (hlsSrc && (this.networkFlaky || isConstrainedConnection()))) {
+            this.clearNext();
+            return;
+        }
+
+        const gapless = options.gapless ?? false;
+        if (this.next?.key === key && this.next.src === src && this.next.gapless === gapless) return;
+
+        this.clearNext();
+        this.next = { key, src, hlsSrc, gapless, decoded: null };
+        if (gapless) {
+            this.gaplessRequested = true;
+            this.resumeAudioGraph();
+        }
+        if (gapless && this.canDecode(options.duration)) {
+            this.decodeNext(this.next);
+        } else {
+            this.loadStandby();
+        }
+    }
+
+    clearNext(): void {
+        this.decodeAbort?.abort();
+        this.decodeAbort = null;
+        this.next = null;
+        this.clearTransitionTimer();
+        if (!this.fade && this.standbySrc) {
+            this.releaseElement(this.standby);
+        }
+    }
+
+    /** Crossfade length between unrelated tracks, 0 to turn it off */
+    setCrossfade(seconds: number): void {
+        this.crossfadeSeconds = clampCrossfade(seconds);
+        this.resumeAudioGraph();
+    }
+
+    // -- Effects --
+
+    /** EQ, headphone correction, limiter and mono downmix, applied live */
+    setEffects(effects: AudioEffects): void {
+        this.effects = effects;
+        this.effectsChain?.apply(effects);
+        this.resumeAudioGraph();
+    }
+
+    /**
+     * The analyser at the end of the effects chain, for visualizers. Asking
+     * for it routes playback through Web Audio; null until that is possible
+     * (no AudioContext support, or no play() from a user gesture yet).
+     */
+    getAnalyser(): AnalyserNode | null {
+        this.analyserRequested = true;
+        this.resumeAudioGraph();
+        return this.effectsChain?.analyser ?? null;
+    }
+
+    private loadStandby(): void {
+        // The standby element is still fading out the previous track
+        if (!this.next || this.next.decoded || this.fade || this.standbySrc === this.next.src) return;
+        this.standbySrc = this.next.src;
+        this.standby.src = this.next.src;
+        this.standby.load();
+    }
+
+    private releaseElement(element: HTMLAudioElement): void {
+        element.pause();
+        this.setFadeGain(this.fadeGains.get(element), 1);
+        element.removeAttribute("src");
+        element.load();
+        if (element === this.standby) {
+            this.standbySrc = null;
+        }
+    }
+
+    /** Fade length for the prepared handoff, never more than half the track */
+    private fadeSeconds(): number {
+        if (!this.next || this.next.gapless || !this.canFade()) return 0;
+        const duration = this.getDuration();
+        return duration > 0 ? Math.min(this.crossfadeSeconds, duration / 2) : 0;
+    }
+
+    private scheduleTransition(): void {
+        if (!this.next || this.transitionTimer || this.pendingDecoded || this.fade || !this.isPlaying()) {
+            return;
+        }
+        const duration = this.getDuration();
+        if (duration <= 0) return;
+
+        const startAt = duration - this.fadeSeconds();
+        const rate = this.decoded ? 1 : this.audio.playbackRate || 1;
+        const untilStart = (startAt - this.getCurrentTime()) / rate;
+        if (untilStart > TRANSITION_SCHEDULE_WINDOW_S) return;
+
+        const context = this.audioContext;
+        if (this.next.decoded && context && this.canPlayDecoded()) {
+            // A decoded track's end is known to the sample; an element's only
+            // as well as its clock reports it, which its trailing padding covers
+            const when = this.decoded?.playing
+                ? this.decoded.origin + this.decoded.track.duration
+                : context.currentTime + Math.max(0, untilStart);
+            this.scheduleDecoded(this.next, when);
+            return;
+        }
+
+        this.transitionTimer = setTimeout(() => {
+            this.transitionTimer = null;
+            if (this.isPlaying()) {
+                this.startTransition();
+            }
+        }, Math.max(0, untilStart * 1000));
+    }
+
+    private clearTransitionTimer(): void {
+        if (this.transitionTimer) {
+            clearTimeout(this.transitionTimer);
+            this.transitionTimer = null;
+        }
+        // The prepared track stays decoded and is scheduled again later
+        if (this.pendingDecoded) {
+            this.stopSource(this.pendingDecoded.scheduled);
+            this.pendingDecoded = null;
+        }
+    }
+
+    /**
+     * Start the prepared track, decoded or on the standby element, and make it
+     * the active one. Returns false when there is nothing usable to hand over to.
+     */
+    private startTransition(): boolean {
+        if (this.pendingDecoded) {
+            this.completeDecodedTransition();
+            return true;
+        }
+
+        const next = this.next;
+        if (!next) return false;
+        if (next.decoded && this.audioContext && this.canPlayDecoded()) {
+            // Late, e.g. the decode finished after the handoff was due
+            this.scheduleDecoded(next, this.audioContext.currentTime);
+            this.completeDecodedTransition();
+            return true;
+        }
+        if (this.usingHls || this.standbySrc !== next.src || this.standby.error !== null) return false;
+
+        const fadeSeconds = this.fadeSeconds();
+        this.next = null;
+        this.finishFade();
+
+        const outgoing = this.decoded ? this.leaveDecoded() : this.audio;
+        this.promoteStandby(next);
+
+        if (outgoing && fadeSeconds > 0) {
+            this.rampGain(this.gainOf(outgoing), "out", fadeSeconds);
+            this.rampGain(this.fadeGains.get(this.audio), "in", fadeSeconds);
+            this.fade = {
+                outgoing,
+                timeout: setTimeout(() => this.finishFade(), fadeSeconds * 1000),
+            };
+        } else if (outgoing) {
+            this.releaseOutgoing(outgoing);
+        }
+
+        this.play();
+        this.emit("transition", { key: next.key });
+        if (this.audio.readyState >= 3) {
+            this.emit("canplay", { duration: this.getDuration() });
+        }
+        return true;
+    }
+
+    /** Swap the elements' roles so the standby one becomes the active one */
+    private promoteStandby(next: PreparedTrack): void {
+        this.clearTransitionTimer();
+        this.cancelNetworkRetry();
+        this.stopWatchdog();
+        this.cancelStallGrace();
+        this.clearReloadFailsafe();
+        this.destroyHls();
+        this.detachNativeListeners();
+
+        const previous = this.audio;
+        this.audio = this.standby;
+        this.standby = previous;
+        this.standbySrc = null;
+
+        this.attachNativeListeners();
+        this.currentSrc = next.src;
+        this.hlsSrc = next.hlsSrc;
+        this.usingHls = false;
+        this.applyVolume();
+    }
+
+    /** Complete a running crossfade at once, e.g. when the user skips or seeks */
+    private finishFade(): void {
+        if (!this.fade) return;
+        clearTimeout(this.fade.timeout);
+        const { outgoing } = this.fade;
+        this.fade = null;
+        this.releaseOutgoing(outgoing);
+        this.setFadeGain(this.fadeGains.get(this.audio), 1);
+        this.loadStandby();
+    }
+
+    private releaseOutgoing(outgoing: HTMLAudioElement | ScheduledSource): void {
+        if (outgoing instanceof HTMLAudioElement) {
+            this.releaseElement(outgoing);
+        } else {
+            this.stopSource(outgoing);
+        }
+    }
+
+    private gainOf(outgoing: HTMLAudioElement | ScheduledSource): GainNode | undefined {
+        return outgoing instanceof HTMLAudioElement ? this.fadeGains.get(outgoing) : outgoing.gain;
+    }
+
+    // -- Decoded gapless --
+
+    private canDecode(duration: number | undefined): boolean {
+        return (
+            this.audioContext !== null &&
+            duration !== undefined &&
+            duration > 0 &&
+            duration <= MAX_DECODED_SECONDS &&
+            !this.networkFlaky &&
+            !isConstrainedConnection() &&
+            this.audio.playbackRate === 1
+        );
+    }
+
+    private canPlayDecoded(): boolean {
+        return this.audioContext?.state === "running" && this.decodedVolume !== null;
+    }
+
+    private decodeNext(next: PreparedTrack): void {
+        if (!this.audioContext) return;
+        const abort = new AbortController();
+        this.decodeAbort = abort;
+
+        decodeTrack(this.audioContext, next.src, abort.signal)
+            .then((track) => {
+                if (this.next !== next) return;
+                next.decoded = track;
+                // Once the handoff is this close it can only be scheduled now
+                this.scheduleTransition();
+            })
+            .catch((err) => {
+                if (abort.signal.aborted || this.next !== next) return;
+                console.warn("[AudioController] Couldn't decode the next track, buffering it instead:", err);
+                this.loadStandby();
+            })
+            .finally(() => {
+                if (this.decodeAbort === abort) {
+                    this.decodeAbort = null;
+                }
+            });
+    }
+
+    /** Start the prepared, decoded track at context time when, ahead of taking it over */
+    private scheduleDecoded(next: PreparedTrack, when: number): void {
+        if (!next.decoded) return;
+        const scheduled = this.startSource(next.decoded, when, 0);
+        this.pendingDecoded = { next, scheduled, when };
+
+        // The audio starts on the clock; this only moves the state over
+        const wait = this.audioContext ? (when - this.audioContext.currentTime) * 1000 : 0;
+        this.transitionTimer = setTimeout(() => {
+            this.transitionTimer = null;
+            this.completeDecodedTransition();
+        }, Math.max(0, wait));
+    }
+
+    private completeDecodedTransition(): void {
+        const pending = this.pendingDecoded;
+        if (!pending?.next.decoded) return;
+        this.pendingDecoded = null;
+        this.next = null;
+
+        const fromElement = !this.decoded;
+        this.enterDecoded(pending.next, pending.next.decoded, pending.scheduled, pending.when);
+        if (fromElement) {
+            this.emit("play");
+        }
+        this.emit("transition", { key: pending.next.key });
+        this.emit("canplay", { duration: pending.next.decoded.duration });
+    }
+
+    /**
+     * Make a decoded track the active one, either already started on the
+     * clock (scheduled, playing from origin) or paused at its start
+     */
+    private enterDecoded(
+        next: PreparedTrack,
+        track: DecodedTrack,
+        scheduled: ScheduledSource | null,
+        origin: number
+    ): void {
+        this.clearTransitionTimer();
+
+        const previous = this.decoded;
+        if (previous?.playing) {
+            // It stops by itself at its trimmed end, right where this one starts
+            const outgoing = previous.playing;
+            outgoing.source.onended = () => this.disconnectSource(outgoing);
+        } else if (!previous) {
+            // The element is done with; its events would only confuse listeners now
+            this.cancelNetworkRetry();
+            this.stopWatchdog();
+            this.cancelStallGrace();
+            this.clearReloadFailsafe();
+            this.destroyHls();
+            this.detachNativeListeners();
+            this.releaseElement(this.audio);
+        }
+
+        this.decoded = { src: next.src, track, playing: scheduled, origin, position: 0 };
+        this.currentSrc = next.src;
+        this.hlsSrc = next.hlsSrc;
+        this.usingHls = false;
+        if (scheduled) {
+            this.watchDecodedEnd(scheduled);
+            this.startDecodedTicker();
+        } else {
+            this.emit("canplay", { duration: track.duration });
+        }
+    }
+
+    /**
+     * Hand playback back to the elements. Returns the source still playing,
+     * for the caller to stop or fade out.
+     */
+    private leaveDecoded(): ScheduledSource | null {
+        const decoded = this.decoded;
+        if (!decoded) return null;
+        this.decoded = null;
+        this.clearTransitionTimer();
+        this.stopDecodedTicker();
+        this.attachNativeListeners();
+        return decoded.playing;
+    }
+
+    private startSource(track: DecodedTrack, when: number, offset: number): ScheduledSource {
+        const context = this.audioContext!;
+        const source = context.createBufferSource();
+        source.buffer = track.buffer;
+        const gain = context.createGain();
+        source.connect(gain).connect(this.decodedVolume!);
+        // Only the music plays, so the next track can start where it stops
+        source.start(when, track.start + offset, track.duration - offset);
+        return { source, gain };
+    }
+
+    private stopSource(scheduled: ScheduledSource): void {
+        try {
+            scheduled.source.stop();
+        } catch {
+            // Already stopped
+        }
+        this.disconnectSource(scheduled);
+    }
+
+    private disconnectSource({ source, gain }: ScheduledSource): void {
+        source.onended = null;
+        source.disconnect();
+        gain.disconnect();
+    }
+
+    /** Stop the decoded track where it is, keeping the position */
+    private stopDecodedSource(): void {
+        const decoded = this.decoded;
+        if (!decoded?.playing) return;
+        decoded.position = this.decodedPosition();
+        this.clearTransitionTimer();
+        this.stopSource(decoded.playing);
+        decoded.playing = null;
+    }
+
+    private watchDecodedEnd(scheduled: ScheduledSource): void {
+        scheduled.source.onended = () => {
+            if (this.decoded?.playing !== scheduled) {
+                this.disconnectSource(scheduled);
+                return;
+            }
+            if (this.startTransition()) return;
+
+            this.decoded.position = this.decoded.track.duration;
+            this.decoded.playing = null;
+            this.disconnectSource(scheduled);
+            this.stopDecodedTicker();
+            this.emit("pause");
+            this.emit("ended");
+        };
+    }
+
+    private decodedPosition(): number {
+        const decoded = this.decoded;
+        if (!decoded) return 0;
+        if (!decoded.playing || !this.audioContext) return decoded.position;
+        const position = this.audioContext.currentTime - decoded.origin;
+        return Math.max(0, Math.min(decoded.track.duration, position));
+    }
+
+    /** Play the decoded track from its position once the context runs */
+    private async resumeDecoded(): Promise<boolean> {
+        if (this.decoded?.playing) return true;
+        try {
+            await this.audioContext?.resume();
+        } catch {
+            // Still suspended; reported below
+        }
+
+        if (!this.decoded || !this.canPlayDecoded()) return false;
+        if (this.decoded.playing) return true;
+
+        this.startDecodedAtPosition();
+        this.emit("play");
+        return true;
+    }
+
+    private startDecodedAtPosition(): void {
+        const decoded = this.decoded;
+        const context = this.audioContext;
+        if (!decoded || !context) return;
+
+        const position = decoded.position >= decoded.track.duration ? 0 : decoded.position;
+        decoded.playing = this.startSource(decoded.track, context.currentTime, position);
+        decoded.origin = context.currentTime - position;
+        this.watchDecodedEnd(decoded.playing);
+        this.startDecodedTicker();
+    }
+
+    private pauseDecoded(): void {
+        if (!this.decoded?.playing) return;
+        this.stopDecodedSource();
+        this.stopDecodedTicker();
+        this.emit("pause");
+    }
+
+    private seekDecoded(time: number): void {
+        const decoded = this.decoded;
+        if (!decoded) return;
+        const wasPlaying = decoded.playing !== null;
+        this.stopDecodedSource();
+        decoded.position = Math.max(0, Math.min(time, decoded.track.duration));
+        if (wasPlaying && this.canPlayDecoded()) {
+            this.startDecodedAtPosition();
+        } else if (wasPlaying) {
+            this.stopDecodedTicker();
+            this.emit("pause");
+        }
+        this.emit("seeked", { time: decoded.position });
+    }
+
+    private startDecodedTicker(): void {
+        if (this.decodedTicker) return;
+        this.decodedTicker = setInterval(() => {
+            this.scheduleTransition();
+            this.emit("timeupdate", { time: this.getCurrentTime() });
+        }, DECODED_TICK_MS);
+    }
+
+    private stopDecodedTicker(): void {
+        if (this.decodedTicker) {
+            clearInterval(this.decodedTicker);
+            this.decodedTicker = null;
+        }
+    }
+
+    // -- Web Audio --
+
+    private canFade(): boolean {
+        return this.audioContext?.state === "running" && this.fadeGains.size === 2;
+    }
+
+    // Crossfade, effects, the visualizer and decoded album runs all need the
+    // elements in Web Audio; plain playback leaves them alone
+    private needsAudioGraph(): boolean {
+        return (
+            this.crossfadeSeconds > 0 ||
+            !isNeutralEffects(this.effects) ||
+            this.analyserRequested ||
+            this.gaplessRequested
+        );
+    }
+
+    /**
+     * Route both elements through their fade gain and the effects chain.
+     * An element connected to an AudioContext plays only through it, so this
+     * waits until the context is running: a suspended one would mute them.
+     */
+    private ensureAudioGraph(): void {
+        const context = this.audioContext;
+        if (this.effectsChain || !context || context.state !== "running") return;
+
+        try {
+            const chain = new AudioEffectsChain(context);
+            chain.apply(this.effects);
+            chain.analyser.connect(context.destination);
+            for (const element of [this.audio, this.standby]) {
+                const gain = context.createGain();
+                context.createMediaElementSource(element).connect(gain).connect(chain.input);
+                this.fadeGains.set(element, gain);
+            }
+            const decodedVolume = context.createGain();
+            decodedVolume.connect(chain.input);
+            this.decodedVolume = decodedVolume;
+            this.effectsChain = chain;
+            this.applyVolume();
+        } catch (err) {
+            console.warn("[AudioController] Web Audio unavailable, crossfade and effects disabled:", err);
         }
+    }
+
+    private resumeAudioGraph(): void {
+        if (!this.needsAudioGraph()) return;
 
-        const link = document.createElement("link");
-        link.rel = "prefetch";
-        link.as = "fetch";
-        link.href = src;
-        link.dataset.preloadAudio = "true";
-        document.head.appendChild(link);
-        this.prefetchLink = link;
+        if (!this.audioContext) {
+            const Context =
+                window.AudioContext ??
+                (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+            if (!Context) return;
+            this.audioContext = new Context();
+        }
+
+        if (this.audioContext.state === "running") {
+            this.ensureAudioGraph();
+        } else {
+            this.audioContext
+                .resume()
+                .then(() => this.ensureAudioGraph())
+                .catch(() => {});
+        }
+    }
+
+    private setFadeGain(gain: GainNode | undefined, value: number): void {
+        if (!gain || !this.audioContext) return;
+        gain.gain.cancelScheduledValues(this.audioContext.currentTime);
+        gain.gain.setValueAtTime(value, this.audioContext.currentTime);
+    }
+
+    private rampGain(gain: GainNode | undefined, direction: "in" | "out", seconds: number): void {
+        if (!gain || !this.audioContext) return;
+        const now = this.audioContext.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueCurveAtTime(fadeCurve(direction), now, seconds);
+    }
+
+    /**
+     * iOS only lets an element start playing by itself once it has been
+     * played from a user gesture, so the standby element is touched on the
+     * first play() the user triggers
+     */
+    private unlockStandby(): void {
+        if (this.standbyUnlocked) return;
+        this.standbyUnlocked = true;
+        if (this.standbySrc) return;
+        this.standby.play().catch(() => {});
+        this.standby.pause();
     }
 
     getCurrentTime(): number {
+        if (this.decoded) return this.decodedPosition();
         return this.audio.currentTime || 0;
     }
 
     getDuration(): number {
+        if (this.decoded) return this.decoded.track.duration;
         const d = this.audio.duration;
         return d && isFinite(d) ? d : 0;
     }
 
     isPlaying(): boolean {
+        if (this.decoded) return this.decoded.playing !== null;
         return !this.audio.paused && !this.audio.ended;
     }
 
     hasAudio(): boolean {
-        return this.audio.readyState >= 2;
+        return this.decoded !== null || this.audio.readyState >= 2;
     }
 
     getState(): Readonly<{ currentSrc: string | null; volume: number; isMuted: boolean }> {
@@ -445,14 +1357,33 @@ export class AudioController {
 
     setVolume(volume: number): void {
         this.volume = Math.max(0, Math.min(1, volume));
-        if (!this.isMuted) {
-            this.audio.volume = this.volume;
-        }
+        this.applyVolume();
     }
 
     setMuted(muted: boolean): void {
         this.isMuted = muted;
-        this.audio.volume = muted ? 0 : this.volume;
+        this.applyVolume();
+    }
+
+    /**
+     * Linear ReplayGain multiplier applied on top of the user volume. The
+     * element volume caps at 1, so boosts only use the headroom below it.
+     */
+    setReplayGain(multiplier: number): void {
+        this.replayGain = Math.max(0, multiplier);
+        this.applyVolume();
+    }
+
+    private applyVolume(): void {
+        const volume = this.isMuted ? 0 : Math.min(1, this.volume * this.replayGain);
+        this.audio.volume = volume;
+        if (this.decodedVolume) {
+            this.decodedVolume.gain.value = volume;
+        }
+        // The outgoing track of a crossfade keeps its own gain, but follows mute
+        if (this.fade && this.isMuted && this.fade.outgoing instanceof HTMLAudioElement) {
+            this.fade.outgoing.volume = 0;
+        }
     }
 
     initializeVolume(): void {
@@ -472,7 +1403,7 @@ export class AudioController {
                 this.isMuted = true;
             }
 
-            this.audio.volume = this.isMuted ? 0 : this.volume;
+            this.applyVolume();
         } catch (error) {
             console.error("[AudioController] Failed to initialize from storage:", error);
         }
@@ -512,20 +1443,29 @@ export class AudioController {
         this.stopWatchdog();
         this.cancelStallGrace();
         this.clearReloadFailsafe();
+        this.destroyHls();
+        this.finishFade();
+        const playing = this.leaveDecoded();
+        if (playing) {
+            this.stopSource(playing);
+        }
+        this.clearNext();
+        this.hlsSrc = null;
+        this.usingHls = false;
         this.audio.pause();
         this.audio.removeAttribute("src");
         this.audio.load();
         this.currentSrc = null;
-
-        if (this.prefetchLink) {
-            this.prefetchLink.remove();
-            this.prefetchLink = null;
-        }
     }
 
     destroy(): void {
         this.cleanup();
         this.detachNativeListeners();
+        this.audioContext?.close().catch(() => {});
+        this.audioContext = null;
+        this.fadeGains.clear();
+        this.decodedVolume = null;
+        this.effectsChain = null;
 
         this.eventListeners.clear();
     }
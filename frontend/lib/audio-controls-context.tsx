@@ -16,6 +16,7 @@ import {
     Track,
     Audiobook,
     Podcast,
+    InternetRadioStation,
     PlayerMode,
     VibeOperation,
 } from "./audio-state-context";
@@ -23,12 +24,42 @@ import { OperationConfirmToast } from "@/components/ui/OperationConfirmToast";
 import { useAudioPlayback } from "./audio-playback-context";
 import { api } from "@/lib/api";
 import { useAudioController } from "./audio-controller-context";
+import type { AudioController } from "./audio-controller";
 import { dispatchQueryEvent } from "@/lib/query-events";
+import { useReplayGain } from "@/hooks/useReplayGain";
+import { useCrossfade } from "@/hooks/useCrossfade";
+import { useAudioEffects } from "@/hooks/useAudioEffects";
+import { isTrackOffline, recordOfflinePlay } from "@/lib/offline";
+import { isGaplessPair } from "@/lib/gapless";
+
+// Library tracks carry an HLS alternative for when the connection is poor.
+// Downloaded tracks don't: the service worker serves them from the device.
+function loadTrack(ctrl: AudioController | null, trackId: string, autoplay = false): void {
+    const hlsUrl = isTrackOffline(trackId) ? null : api.getHlsUrl(trackId);
+    ctrl?.load(api.getStreamUrl(trackId), autoplay, hlsUrl);
+}
+
+// Get the next track ready on the controller. Consecutive tracks of the
+// same album always play gapless, never crossfaded.
+function prepareTrack(ctrl: AudioController, track: Track, previous: Track): void {
+    const hlsUrl = isTrackOffline(track.id) ? null : api.getHlsUrl(track.id);
+    ctrl.prepareNext(track.id, api.getStreamUrl(track.id), {
+        hlsSrc: hlsUrl,
+        gapless: isGaplessPair(previous, track),
+        duration: track.duration,
+    });
+}
+
+interface PlayTracksOptions {
+    // Where to start in the first track, e.g. when picking up from another device
+    startTime?: number;
+    shuffle?: boolean;
+}
 
 interface AudioControlsContextType {
     // Track methods
     playTrack: (track: Track) => void;
-    playTracks: (tracks: Track[], startIndex?: number) => void;
+    playTracks: (tracks: Track[], startIndex?: number, options?: PlayTracksOptions) => void;
 
     // Audiobook methods
     playAudiobook: (audiobook: Audiobook) => void;
@@ -37,6 +68,9 @@ interface AudioControlsContextType {
     playPodcast: (podcast: Podcast) => void;
     nextPodcastEpisode: () => void;
 
+    // Radio methods
+    playRadio: (station: InternetRadioStation) => void;
+
     // Playback controls
     pause: () => void;
     resume: () => void;
@@ -82,13 +116,13 @@ const AudioControlsContext = createContext<
     AudioControlsContextType | undefined
 >(undefined);
 
-function getNextTrackInfo(
+function getNextIndex(
     queue: { id: string }[],
     currentIndex: number,
     isShuffle: boolean,
     shuffleIndices: number[],
     repeatMode: "off" | "one" | "all"
-): { id: string } | null {
+): number | null {
     if (queue.length === 0) return null;
 
     let nextIndex: number;
@@ -111,7 +145,7 @@ function getNextTrackInfo(
         }
     }
 
-    return queue[nextIndex] || null;
+    return queue[nextIndex] ? nextIndex : null;
 }
 
 export function AudioControlsProvider({ children }: { children: ReactNode }) {
@@ -149,6 +183,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
     const currentTrackRef = useRef(state.currentTrack);
     const currentAudiobookRef = useRef(state.currentAudiobook);
     const currentPodcastRef = useRef(state.currentPodcast);
+    const currentRadioRef = useRef(state.currentRadio);
     const repeatModeRef = useRef(state.repeatMode);
     const queueRef = useRef(state.queue);
     const isShuffleRef = useRef(state.isShuffle);
@@ -239,6 +274,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             state.setCurrentTrack(track);
             state.setCurrentAudiobook(null);
             state.setCurrentPodcast(null);
+            state.setCurrentRadio(null);
             state.setPodcastEpisodeQueue(null);
             state.setQueue([track]);
             state.setCurrentIndex(0);
@@ -246,14 +282,17 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             state.setShuffleIndices([0]);
             state.setRepeatOneCount(0);
 
-            const streamUrl = api.getStreamUrl(track.id);
-            controllerRef.current?.load(streamUrl, true);
+            loadTrack(controllerRef.current, track.id, true);
         },
         [state]
     );
 
     const playTracks = useCallback(
-        (tracks: Track[], startIndex = 0, { skipOperationCheck = false } = {}) => {
+        (
+            tracks: Track[],
+            startIndex = 0,
+            { skipOperationCheck = false, startTime = 0, shuffle }: PlayTracksOptions & { skipOperationCheck?: boolean } = {}
+        ) => {
             if (tracks.length === 0) return;
 
             if (!skipOperationCheck && state.activeOperation.type !== 'idle') {
@@ -272,18 +311,22 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             state.setPlaybackType("track");
             state.setCurrentAudiobook(null);
             state.setCurrentPodcast(null);
+            state.setCurrentRadio(null);
             state.setPodcastEpisodeQueue(null);
             state.setQueue(tracks);
             state.setCurrentIndex(startIndex);
             state.setCurrentTrack(tracks[startIndex]);
-            setCurrentTimeRef.current(0);
+            pendingStartTimeRef.current = startTime;
+            setCurrentTimeRef.current(startTime);
             state.setRepeatOneCount(0);
             state.setShuffleIndices(
                 generateShuffleIndices(tracks.length, startIndex)
             );
+            if (shuffle !== undefined) {
+                state.setIsShuffle(shuffle);
+            }
 
-            const streamUrl = api.getStreamUrl(tracks[startIndex].id);
-            controllerRef.current?.load(streamUrl, true);
+            loadTrack(controllerRef.current, tracks[startIndex].id, true);
         },
         [state, generateShuffleIndices]
     );
@@ -293,6 +336,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             state.setPlaybackType("audiobook");
             state.setCurrentTrack(null);
             state.setCurrentPodcast(null);
+            state.setCurrentRadio(null);
             state.setPodcastEpisodeQueue(null);
             state.setQueue([]);
             state.setCurrentIndex(0);
@@ -328,6 +372,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             state.setCurrentPodcast(podcast);
             state.setCurrentTrack(null);
             state.setCurrentAudiobook(null);
+            state.setCurrentRadio(null);
             state.setQueue([]);
             state.setCurrentIndex(0);
             state.setShuffleIndices([]);
@@ -343,6 +388,24 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
         [state]
     );
 
+    const playRadio = useCallback(
+        (station: InternetRadioStation) => {
+            state.setPlaybackType("radio");
+            state.setCurrentRadio(station);
+            state.setCurrentTrack(null);
+            state.setCurrentAudiobook(null);
+            state.setCurrentPodcast(null);
+            state.setPodcastEpisodeQueue(null);
+            state.setQueue([]);
+            state.setCurrentIndex(0);
+            state.setShuffleIndices([]);
+            setCurrentTimeRef.current(0);
+
+            controllerRef.current?.load(api.getRadioStreamUrl(station.id), true);
+        },
+        [state]
+    );
+
     const pause = useCallback(() => {
         controllerRef.current?.pause();
     }, []);
@@ -385,7 +448,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
         if (!ctrl || ctrl.getState().currentSrc) return false;
 
         if (state.playbackType === "track" && state.currentTrack) {
-            ctrl.load(api.getStreamUrl(state.currentTrack.id));
+            loadTrack(ctrl, state.currentTrack.id);
             return true;
         }
         if (state.playbackType === "audiobook" && state.currentAudiobook) {
@@ -405,8 +468,12 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             ctrl.load(api.getPodcastEpisodeStreamUrl(podcastId, episodeId));
             return true;
         }
+        if (state.playbackType === "radio" && state.currentRadio) {
+            ctrl.load(api.getRadioStreamUrl(state.currentRadio.id));
+            return true;
+        }
         return false;
-    }, [state.playbackType, state.currentTrack, state.currentAudiobook, state.currentPodcast, playback]);
+    }, [state.playbackType, state.currentTrack, state.currentAudiobook, state.currentPodcast, state.currentRadio, playback]);
 
     const resume = useCallback(() => {
         loadRestoredState();
@@ -420,6 +487,9 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
 
     const seek = useCallback(
         (time: number) => {
+            // Live streams can't seek
+            if (state.playbackType === "radio") return;
+
             const mediaDuration =
                 state.playbackType === "podcast"
                     ? state.currentPodcast?.duration || 0
@@ -556,8 +626,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
         state.setCurrentTrack(state.queue[nextIndex]);
         setCurrentTimeRef.current(0);
 
-        const streamUrl = api.getStreamUrl(state.queue[nextIndex].id);
-        controllerRef.current?.load(streamUrl, true);
+        loadTrack(controllerRef.current, state.queue[nextIndex].id, true);
     }, [state, seek]);
 
     const previous = useCallback(() => {
@@ -597,8 +666,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
         state.setCurrentTrack(state.queue[prevIndex]);
         setCurrentTimeRef.current(0);
 
-        const streamUrl = api.getStreamUrl(state.queue[prevIndex].id);
-        controllerRef.current?.load(streamUrl, true);
+        loadTrack(controllerRef.current, state.queue[prevIndex].id, true);
     }, [state, seek]);
 
     const addToQueue = useCallback(
@@ -610,11 +678,11 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
                 state.setCurrentTrack(track);
                 state.setCurrentAudiobook(null);
                 state.setCurrentPodcast(null);
+                state.setCurrentRadio(null);
                 setCurrentTimeRef.current(0);
                 state.setShuffleIndices([0]);
 
-                const streamUrl = api.getStreamUrl(track.id);
-                controllerRef.current?.load(streamUrl, true);
+                loadTrack(controllerRef.current, track.id, true);
                 return;
             }
 
@@ -727,8 +795,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
                         state.setShuffleIndices([]);
                     }
 
-                    const streamUrl = api.getStreamUrl(tracks[0].id);
-                    controllerRef.current?.load(streamUrl, true);
+                    loadTrack(controllerRef.current, tracks[0].id, true);
                 }
                 return;
             }
@@ -986,6 +1053,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
         currentTrackRef.current = state.currentTrack;
         currentAudiobookRef.current = state.currentAudiobook;
         currentPodcastRef.current = state.currentPodcast;
+        currentRadioRef.current = state.currentRadio;
         repeatModeRef.current = state.repeatMode;
         nextRef.current = next;
         nextPodcastEpisodeRef.current = nextPodcastEpisode;
@@ -1119,6 +1187,10 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
                 savePodcastProgressRef.current(true);
                 nextPodcastEpisodeRef.current();
                 return;
+            } else if (playbackTypeRef.current === "radio") {
+                // The station hung up; live streams have nothing to advance to
+                ctrl.pause();
+                return;
             }
 
             // Track ended
@@ -1128,7 +1200,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
                 return;
             }
 
-            const nextTrack = getNextTrackInfo(
+            const nextIndex = getNextIndex(
                 queueRef.current,
                 currentIndexRef.current,
                 isShuffleRef.current,
@@ -1136,36 +1208,59 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
                 repeatModeRef.current
             );
 
-            if (!nextTrack) {
+            if (nextIndex === null) {
                 ctrl.pause();
                 return;
             }
 
-            let nextIndex: number;
-            if (isShuffleRef.current) {
-                const currentShufflePos = shuffleIndicesRef.current.indexOf(currentIndexRef.current);
-                nextIndex = shuffleIndicesRef.current[currentShufflePos + 1];
-                if (nextIndex === undefined && repeatModeRef.current === "all") {
-                    nextIndex = shuffleIndicesRef.current[0];
-                }
-            } else {
-                nextIndex = currentIndexRef.current + 1;
-                if (nextIndex >= queueRef.current.length && repeatModeRef.current === "all") {
-                    nextIndex = 0;
-                }
-            }
-
+            const nextTrack = queueRef.current[nextIndex];
             state.setCurrentIndex(nextIndex);
-            state.setCurrentTrack(queueRef.current[nextIndex]);
+            state.setCurrentTrack(nextTrack);
             playback.setCurrentTime(0);
 
-            ctrl.load(api.getStreamUrl(nextTrack.id), true);
+            loadTrack(ctrl, nextTrack.id, true);
         };
 
         ctrl.on("ended", handleEnded);
         return () => ctrl.off("ended", handleEnded);
     }, [controller, state, playback]);
 
+    // -- Transition handler: the controller already started the next track --
+    useEffect(() => {
+        const ctrl = controllerRef.current;
+        if (!ctrl) return;
+
+        const handleTransition = (data: unknown) => {
+            const { key } = data as { key: string };
+            if (playbackTypeRef.current !== "track") return;
+
+            const nextIndex = getNextIndex(
+                queueRef.current,
+                currentIndexRef.current,
+                isShuffleRef.current,
+                shuffleIndicesRef.current,
+                repeatModeRef.current
+            );
+            if (nextIndex === null) {
+                ctrl.pause();
+                return;
+            }
+
+            const nextTrack = queueRef.current[nextIndex];
+            state.setCurrentIndex(nextIndex);
+            state.setCurrentTrack(nextTrack);
+            playback.setCurrentTime(0);
+
+            // The queue changed after the track was prepared
+            if (nextTrack.id !== key) {
+                loadTrack(ctrl, nextTrack.id, true);
+            }
+        };
+
+        ctrl.on("transition", handleTransition);
+        return () => ctrl.off("transition", handleTransition);
+    }, [controller, state, playback]);
+
     // -- Canplay handler for pending seek --
     useEffect(() => {
         const ctrl = controllerRef.current;
@@ -1220,6 +1315,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             } else {
                 if (playbackTypeRef.current === "audiobook") state.setCurrentAudiobook(null);
                 if (playbackTypeRef.current === "podcast") state.setCurrentPodcast(null);
+                if (playbackTypeRef.current === "radio") state.setCurrentRadio(null);
                 state.setPlaybackType(null);
             }
         };
@@ -1273,6 +1369,9 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
     // -- Volume/mute sync --
     useEffect(() => { controllerRef.current?.setVolume(state.volume); }, [state.volume]);
     useEffect(() => { controllerRef.current?.setMuted(state.isMuted); }, [state.isMuted]);
+    useReplayGain(controller);
+    useCrossfade(controller);
+    useAudioEffects(controller);
 
     // -- Foreground recovery --
     // Uses both visibilitychange and pageshow/pagehide for iOS PWA reliability.
@@ -1294,7 +1393,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             ctrl.notifyForeground();
 
             if (playbackTypeRef.current) {
-                const hasMedia = currentTrackRef.current || currentAudiobookRef.current || currentPodcastRef.current;
+                const hasMedia = currentTrackRef.current || currentAudiobookRef.current || currentPodcastRef.current || currentRadioRef.current;
                 if (hasMedia) {
                     playback.setAudioError(null);
 
@@ -1331,26 +1430,85 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
         };
     }, [playback]);
 
-    // -- Preload hint --
+    // -- Prepare the next track for a gapless or crossfaded handoff --
     useEffect(() => {
-        if (state.playbackType !== "track" || !state.currentTrack) return;
         const ctrl = controllerRef.current;
         if (!ctrl) return;
 
-        const nextTrack = getNextTrackInfo(
-            state.queue, state.currentIndex, state.isShuffle,
-            state.shuffleIndices, state.repeatMode
-        );
-        if (!nextTrack) return;
+        const currentTrack = state.currentTrack;
+        const nextIndex = state.playbackType === "track" && currentTrack && state.repeatMode !== "one"
+            ? getNextIndex(
+                state.queue, state.currentIndex, state.isShuffle,
+                state.shuffleIndices, state.repeatMode
+            )
+            : null;
+        if (nextIndex === null || !currentTrack) {
+            ctrl.clearNext();
+            return;
+        }
 
+        const nextTrack = state.queue[nextIndex];
         const timer = setTimeout(() => {
-            ctrl.preloadHint(api.getStreamUrl(nextTrack.id));
+            prepareTrack(ctrl, nextTrack, currentTrack);
         }, 2000);
 
         return () => clearTimeout(timer);
-    }, [state.playbackType, state.currentTrack, state.queue, state.currentIndex,
+    }, [controller, state.playbackType, state.currentTrack, state.queue, state.currentIndex,
         state.isShuffle, state.shuffleIndices, state.repeatMode]);
 
+    // -- Offline plays: a local copy's stream never reaches the server, so
+    // the play is reported when the track actually starts --
+    const unreportedTrackIdRef = useRef<string | null>(null);
+    const reportedAtTransitionRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const trackId = state.playbackType === "track" ? state.currentTrack?.id ?? null : null;
+        // A handoff already reported the track it moved on to
+        unreportedTrackIdRef.current = trackId === reportedAtTransitionRef.current ? null : trackId;
+        reportedAtTransitionRef.current = null;
+    }, [state.playbackType, state.currentTrack?.id]);
+
+    useEffect(() => {
+        const ctrl = controllerRef.current;
+        if (!ctrl) return;
+
+        const report = (trackId: string) => {
+            if (isTrackOffline(trackId)) {
+                recordOfflinePlay(trackId).catch(() => {});
+            }
+        };
+
+        const handlePlay = () => {
+            const trackId = unreportedTrackIdRef.current;
+            if (!trackId) return;
+            unreportedTrackIdRef.current = null;
+            report(trackId);
+        };
+
+        const handleTransition = (data: unknown) => {
+            if (playbackTypeRef.current !== "track") return;
+            const { key } = data as { key: string };
+            unreportedTrackIdRef.current = null;
+            reportedAtTransitionRef.current = key;
+            report(key);
+        };
+
+        // Starting the same track again, e.g. on repeat one, is another play
+        const handleEnded = () => {
+            if (playbackTypeRef.current !== "track") return;
+            unreportedTrackIdRef.current = currentTrackRef.current?.id ?? null;
+        };
+
+        ctrl.on("play", handlePlay);
+        ctrl.on("transition", handleTransition);
+        ctrl.on("ended", handleEnded);
+        return () => {
+            ctrl.off("play", handlePlay);
+            ctrl.off("transition", handleTransition);
+            ctrl.off("ended", handleEnded);
+        };
+    }, [controller]);
+
     // -- Cleanup on unmount --
     useEffect(() => {
         return () => {
@@ -1370,6 +1528,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             playAudiobook,
             playPodcast,
             nextPodcastEpisode,
+            playRadio,
             pause,
             resume,
             resumeWithGesture,
@@ -1399,6 +1558,7 @@ export function AudioControlsProvider({ children }: { children: ReactNode }) {
             playAudiobook,
             playPodcast,
             nextPodcastEpisode,
+            playRadio,
             pause,
             resume,
             resumeWithGesture,
@@ -0,0 +1,204 @@
+import type { AudioEffects, EqFilter, HeadphoneProfile } from "./api";
+
+// One band per octave, the classic 10-band graphic EQ
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000] as const;
+export const EQ_MAX_GAIN_DB = 12;
+// Octave-wide bands, as in AutoEQ's fixed-band profiles
+const EQ_BAND_Q = 1.41;
+// Shelf filters in AutoEQ exports may leave Q out
+const DEFAULT_SHELF_Q = 0.71;
+
+export const DEFAULT_AUDIO_EFFECTS: AudioEffects = {
+    enabled: false,
+    preset: "flat",
+    preamp: 0,
+    bands: EQ_FREQUENCIES.map(() => 0),
+    headphone: null,
+    limiter: false,
+    mono: false,
+};
+
+export const EQ_PRESETS: Array<{ id: string; label: string; bands: number[] }> = [
+    { id: "flat", label: "Flat", bands: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+    { id: "bass", label: "Bass boost", bands: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+    { id: "treble", label: "Treble boost", bands: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+    { id: "vocal", label: "Vocal", bands: [-2, -2, -1, 0, 2, 4, 4, 2, 0, -1] },
+    { id: "rock", label: "Rock", bands: [4, 3, 2, 0, -1, -1, 1, 2, 3, 4] },
+    { id: "electronic", label: "Electronic", bands: [5, 4, 2, 0, -2, 0, 1, 2, 4, 5] },
+    { id: "acoustic", label: "Acoustic", bands: [3, 3, 2, 1, 1, 1, 2, 2, 2, 1] },
+    { id: "classical", label: "Classical", bands: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+];
+
+/** Whether the chain would leave the signal untouched */
+export function isNeutralEffects(effects: AudioEffects): boolean {
+    return (
+        !effects.enabled ||
+        (effects.preamp === 0 &&
+            effects.bands.every((gain) => gain === 0) &&
+            !effects.headphone &&
+            !effects.limiter &&
+            !effects.mono)
+    );
+}
+
+const AUTOEQ_FILTER_TYPES: Record<string, EqFilter["type"]> = {
+    PK: "peaking",
+    PEQ: "peaking",
+    LS: "lowshelf",
+    LSC: "lowshelf",
+    HS: "highshelf",
+    HSC: "highshelf",
+};
+
+/**
+ * Read an AutoEQ "ParametricEQ.txt" (the Equalizer APO format AutoEQ
+ * publishes for every headphone), e.g.
+ *
+ *   Preamp: -6.2 dB
+ *   Filter 1: ON LSC Fc 105 Hz Gain 5.8 dB Q 0.70
+ *   Filter 2: ON PK Fc 185 Hz Gain -2.9 dB Q 0.62
+ *
+ * Throws with a message for the user when the text isn't such a profile.
+ */
+export function parseAutoEqProfile(name: string, text: string): HeadphoneProfile {
+    if (/^\s*GraphicEQ:/im.test(text)) {
+        throw new Error("Graphic EQ profiles aren't supported, use the ParametricEQ.txt file instead");
+    }
+
+    let preamp = 0;
+    const filters: EqFilter[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const preampMatch = line.match(/^\s*Preamp:\s*(-?[\d.]+)\s*dB/i);
+        if (preampMatch) {
+            preamp = parseFloat(preampMatch[1]);
+            continue;
+        }
+
+        const filterMatch = line.match(
+            /^\s*Filter\s*\d*:\s*(ON|OFF)\s+([A-Z]+)\s+Fc\s+([\d.]+)\s*Hz(?:\s+Gain\s+(-?[\d.]+)\s*dB)?(?:\s+Q\s+([\d.]+))?/i
+        );
+        if (!filterMatch || filterMatch[1].toUpperCase() === "OFF") continue;
+
+        const type = AUTOEQ_FILTER_TYPES[filterMatch[2].toUpperCase()];
+        if (!type) {
+            throw new Error(`Unsupported filter type "${filterMatch[2]}"`);
+        }
+        filters.push({
+            type,
+            frequency: parseFloat(filterMatch[3]),
+            gain: filterMatch[4] ? parseFloat(filterMatch[4]) : 0,
+            q: filterMatch[5] ? parseFloat(filterMatch[5]) : type === "peaking" ? EQ_BAND_Q : DEFAULT_SHELF_Q,
+        });
+    }
+
+    if (filters.length === 0) {
+        throw new Error("No filters found, is this an AutoEQ ParametricEQ.txt file?");
+    }
+    // AutoEQ names its files "<Headphone> ParametricEQ.txt"
+    const profileName = name.replace(/\.txt$/i, "").replace(/\s*ParametricEQ$/i, "").trim();
+    return { name: profileName || "Headphones", preamp, filters };
+}
+
+function dbToGain(db: number): number {
+    return Math.pow(10, db / 20);
+}
+
+/**
+ * The effects as Web Audio nodes, in the order
+ * preamp → headphone correction → 10-band EQ → mono → limiter → analyser.
+ *
+ * Nodes that are switched off are left out of the path rather than set to
+ * neutral values. The analyser is always last so the spectrum shows what
+ * is actually heard; whoever owns the chain connects it to the output.
+ */
+export class AudioEffectsChain {
+    readonly input: GainNode;
+    readonly analyser: AnalyserNode;
+    private readonly context: BaseAudioContext;
+    private readonly bands: BiquadFilterNode[];
+    private readonly mono: GainNode;
+    private readonly limiter: DynamicsCompressorNode;
+    private headphoneFilters: BiquadFilterNode[] = [];
+    private headphone: HeadphoneProfile | null = null;
+
+    constructor(context: BaseAudioContext) {
+        this.context = context;
+        this.input = context.createGain();
+
+        this.bands = EQ_FREQUENCIES.map((frequency) => {
+            const band = context.createBiquadFilter();
+            band.type = "peaking";
+            band.frequency.value = frequency;
+            band.Q.value = EQ_BAND_Q;
+            return band;
+        });
+
+        // A one-channel node downmixes whatever reaches it; the next node
+        // spreads the mono signal over both speakers again
+        this.mono = context.createGain();
+        this.mono.channelCount = 1;
+        this.mono.channelCountMode = "explicit";
+        this.mono.channelInterpretation = "speakers";
+
+        // Brickwall-style settings: only catches peaks the EQ pushes past 0 dBFS
+        this.limiter = context.createDynamicsCompressor();
+        this.limiter.threshold.value = -1;
+        this.limiter.knee.value = 0;
+        this.limiter.ratio.value = 20;
+        this.limiter.attack.value = 0.003;
+        this.limiter.release.value = 0.25;
+
+        this.analyser = context.createAnalyser();
+        this.analyser.fftSize = 2048;
+        this.analyser.smoothingTimeConstant = 0.8;
+
+        this.input.connect(this.analyser);
+    }
+
+    apply(effects: AudioEffects): void {
+        const on = effects.enabled;
+        if (effects.headphone !== this.headphone) {
+            this.buildHeadphoneFilters(effects.headphone);
+        }
+
+        const totalPreamp = effects.preamp + (effects.headphone?.preamp ?? 0);
+        this.setParam(this.input.gain, on ? dbToGain(totalPreamp) : 1);
+        this.bands.forEach((band, i) => this.setParam(band.gain, effects.bands[i] ?? 0));
+
+        const path: AudioNode[] = [
+            this.input,
+            ...(on ? this.headphoneFilters : []),
+            ...(on && effects.bands.some((gain) => gain !== 0) ? this.bands : []),
+            ...(on && effects.mono ? [this.mono] : []),
+            ...(on && effects.limiter ? [this.limiter] : []),
+            this.analyser,
+        ];
+
+        for (const node of [this.input, ...this.headphoneFilters, ...this.bands, this.mono, this.limiter]) {
+            node.disconnect();
+        }
+        for (let i = 0; i < path.length - 1; i++) {
+            path[i].connect(path[i + 1]);
+        }
+    }
+
+    private buildHeadphoneFilters(profile: HeadphoneProfile | null): void {
+        for (const filter of this.headphoneFilters) {
+            filter.disconnect();
+        }
+        this.headphone = profile;
+        this.headphoneFilters = (profile?.filters ?? []).map((spec) => {
+            const filter = this.context.createBiquadFilter();
+            filter.type = spec.type;
+            filter.frequency.value = spec.frequency;
+            filter.gain.value = spec.gain;
+            filter.Q.value = spec.q;
+            return filter;
+        });
+    }
+
+    // Short ramp so dragging a slider doesn't click
+    private setParam(param: AudioParam, value: number): void {
+        param.setTargetAtTime(value, this.context.currentTime, 0.02);
+    }
+}
@@ -23,6 +23,7 @@ export function useAudio() {
         currentTrack: state.currentTrack,
         currentAudiobook: state.currentAudiobook,
         currentPodcast: state.currentPodcast,
+        currentRadio: state.currentRadio,
         playbackType: state.playbackType,
         queue: state.queue,
         currentIndex: state.currentIndex,
@@ -51,6 +52,7 @@ export function useAudio() {
         playTracks: controls.playTracks,
         playAudiobook: controls.playAudiobook,
         playPodcast: controls.playPodcast,
+        playRadio: controls.playRadio,
         pause: controls.pause,
         resume: controls.resume,
         resumeWithGesture: controls.resumeWithGesture,
@@ -104,6 +104,12 @@ export interface Podcast {
     } | null;
 }
 
+export interface InternetRadioStation {
+    id: string;
+    name: string;
+    homepageUrl: string | null;
+}
+
 type SetStateAction<T> = T | ((prev: T) => T);
 
 export type VibeOperation =
@@ -118,7 +124,8 @@ interface AudioStateContextType {
     currentTrack: Track | null;
     currentAudiobook: Audiobook | null;
     currentPodcast: Podcast | null;
-    playbackType: "track" | "audiobook" | "podcast" | null;
+    currentRadio: InternetRadioStation | null;
+    playbackType: "track" | "audiobook" | "podcast" | "radio" | null;
 
     // Queue state
     queue: Track[];
@@ -144,8 +151,9 @@ interface AudioStateContextType {
     setCurrentTrack: (track: SetStateAction<Track | null>) => void;
     setCurrentAudiobook: (audiobook: SetStateAction<Audiobook | null>) => void;
     setCurrentPodcast: (podcast: SetStateAction<Podcast | null>) => void;
+    setCurrentRadio: (station: SetStateAction<InternetRadioStation | null>) => void;
     setPlaybackType: (
-        type: SetStateAction<"track" | "audiobook" | "podcast" | null>
+        type: SetStateAction<"track" | "audiobook" | "podcast" | "radio" | null>
     ) => void;
     setQueue: (queue: SetStateAction<Track[]>) => void;
     setCurrentIndex: (index: SetStateAction<number>) => void;
@@ -203,13 +211,15 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
     const [currentPodcast, setCurrentPodcast] = useState<Podcast | null>(
         () => parseStorageJson(STORAGE_KEYS.CURRENT_PODCAST, null)
     );
+    // Live streams have no position to resume, so radio is never restored
+    const [currentRadio, setCurrentRadio] = useState<InternetRadioStation | null>(null);
     const [playbackType, setPlaybackType] = useState<
-        "track" | "audiobook" | "podcast" | null
+        "track" | "audiobook" | "podcast" | "radio" | null
     >(() => {
-        const stored = readStorage(STORAGE_KEYS.PLAYBACK_TYPE) as "track" | "audiobook" | "podcast" | null;
+        const stored = readStorage(STORAGE_KEYS.PLAYBACK_TYPE) as "track" | "audiobook" | "podcast" | "radio" | null;
         // Don't restore "track" type since we no longer restore currentTrack from localStorage.
         // Server state will re-set this if there was an active track.
-        return stored === "track" ? null : stored;
+        return stored === "track" || stored === "radio" ? null : stored;
     });
     const [queue, setQueue] = useState<Track[]>([]);
     const [currentIndex, setCurrentIndex] = useState(
@@ -464,7 +474,8 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
     // Save playback state to server
     useEffect(() => {
         if (!isHydrated) return;
-        if (!playbackType) return;
+        // Radio isn't part of the cross-device playback state
+        if (!playbackType || playbackType === "radio") return;
 
         const saveToServer = async () => {
             try {
@@ -527,6 +538,8 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
         const pollInterval = setInterval(async () => {
             // Skip polling when tab is hidden, unmounted, or not authenticated
             if (!isAuthenticated || !mounted || !isVisible) return;
+            // A live radio stream isn't synced, so don't let another device's state replace it
+            if (playbackType === "radio") return;
 
             try {
                 const serverState = await api.getPlaybackState();
@@ -663,6 +676,7 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
             currentTrack,
             currentAudiobook,
             currentPodcast,
+            currentRadio,
             playbackType,
             queue,
             currentIndex,
@@ -679,6 +693,7 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
             setCurrentTrack,
             setCurrentAudiobook,
             setCurrentPodcast,
+            setCurrentRadio,
             setPlaybackType,
             setQueue,
             setCurrentIndex,
@@ -697,6 +712,7 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
             currentTrack,
             currentAudiobook,
             currentPodcast,
+            currentRadio,
             playbackType,
             queue,
             currentIndex,
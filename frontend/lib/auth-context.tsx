@@ -11,6 +11,7 @@ import {
 } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { api } from "./api";
+import { clearOfflineData, startOfflineSync } from "./offline";
 
 interface User {
     id: string;
@@ -129,7 +130,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     }, [router]);
 
+    // Register downloaded tracks and send offline plays while signed in
+    useEffect(() => {
+        if (!isAuthenticated) return;
+        return startOfflineSync();
+    }, [isAuthenticated]);
+
     const logout = useCallback(async () => {
+        await clearOfflineData();
         await api.logout();
         setIsAuthenticated(false);
         setUser(null);
@@ -0,0 +1,69 @@
+import type { ConnectCommand, ConnectDeviceType } from "./api";
+import { isAndroidTV } from "./tv-utils";
+
+const DEVICE_ID_KEY = "kima_connect_device";
+
+// useEventSource hands commands meant for this player to the receiver
+export const CONNECT_COMMAND_EVENT = "kima-connect-command";
+
+export interface ConnectIdentity {
+    id: string;
+    name: string;
+    type: ConnectDeviceType;
+}
+
+let identity: ConnectIdentity | null = null;
+
+function describeBrowser(ua: string): string {
+    const browser = /Edg\//.test(ua)
+        ? "Edge"
+        : /Firefox\//.test(ua)
+          ? "Firefox"
+          : /Chrome\//.test(ua)
+            ? "Chrome"
+            : /Safari\//.test(ua)
+              ? "Safari"
+              : "Browser";
+    const os = /iPhone/.test(ua)
+        ? "iPhone"
+        : /iPad/.test(ua)
+          ? "iPad"
+          : /Android/.test(ua)
+            ? "Android"
+            : /Mac OS X/.test(ua)
+              ? "Mac"
+              : /Windows/.test(ua)
+                ? "Windows"
+                : /Linux/.test(ua)
+                  ? "Linux"
+                  : null;
+    return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Who this player is to Kima Connect. Every tab is a device of its own, so
+ * the id lives in sessionStorage: it survives reloads but not the tab.
+ */
+export function getConnectIdentity(): ConnectIdentity {
+    if (identity) return identity;
+
+    let id = sessionStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+        // randomUUID only exists in secure contexts, and Kima is often served over plain http
+        id = crypto.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        sessionStorage.setItem(DEVICE_ID_KEY, id);
+    }
+
+    const ua = navigator.userAgent;
+    const type: ConnectDeviceType = isAndroidTV()
+        ? "tv"
+        : /Mobi|Android|iPhone|iPad/.test(ua)
+          ? "mobile"
+          : "web";
+    identity = { id, name: type === "tv" ? "TV" : describeBrowser(ua), type };
+    return identity;
+}
+
+export function dispatchConnectCommand(command: ConnectCommand): void {
+    window.dispatchEvent(new CustomEvent<ConnectCommand>(CONNECT_COMMAND_EVENT, { detail: command }));
+}
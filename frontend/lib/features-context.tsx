@@ -8,6 +8,7 @@ interface FeaturesState {
     musicCNN: boolean;
     vibeEmbeddings: boolean;
     audiobookshelfEnabled: boolean;
+    audiobooksEnabled: boolean;
     loading: boolean;
 }
 
@@ -15,6 +16,7 @@ const defaultState: FeaturesState = {
     musicCNN: false,
     vibeEmbeddings: false,
     audiobookshelfEnabled: false,
+    audiobooksEnabled: false,
     loading: true,
 };
 
@@ -34,6 +36,7 @@ export function FeaturesProvider({ children }: { children: ReactNode }) {
                         musicCNN: features.musicCNN,
                         vibeEmbeddings: features.vibeEmbeddings,
                         audiobookshelfEnabled: features.audiobookshelfEnabled,
+                        audiobooksEnabled: features.audiobooksEnabled,
                         loading: false,
                     });
                 })
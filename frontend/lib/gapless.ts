@@ -0,0 +1,191 @@
+import type { Track } from "./audio-state-context";
+
+/**
+ * Gapless album playback: which handoffs are gapless, and which part of a
+ * decoded track is music rather than the silence encoders pad it with.
+ */
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+/** Crossfade setting kept between 0 (off) and MAX_CROSSFADE_SECONDS */
+export function clampCrossfade(seconds: number): number {
+    if (Number.isNaN(seconds)) return 0;
+    return Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+}
+
+/** Consecutive tracks of one album play back to back, never crossfaded */
+export function isGaplessPair(previous: Pick<Track, "album">, next: Pick<Track, "album">): boolean {
+    return !!previous.album.id && previous.album.id === next.album.id;
+}
+
+/** Encoder delay and padding of a file, in samples at its own sample rate */
+export interface EncoderGap {
+    sampleRate: number;
+    /** Silence before the music */
+    delay: number;
+    /** Silence after the music */
+    padding: number;
+    /** The music itself */
+    length: number;
+}
+
+// Every MP3 decoder lags the encoder by this much on top of the LAME delay
+const MP3_DECODER_DELAY = 529;
+
+// Sample rates by MPEG version bits (MPEG 2.5, reserved, MPEG 2, MPEG 1)
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+    0: [11025, 12000, 8000],
+    2: [22050, 24000, 16000],
+    3: [44100, 48000, 32000],
+};
+
+const MP3_ENCODERS = ["LAME", "Lavc", "Lavf"];
+
+function matchesAt(bytes: Uint8Array, at: number, text: string): boolean {
+    if (at < 0 || at + text.length > bytes.length) return false;
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[at + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+function indexOf(bytes: Uint8Array, text: string, from = 0): number {
+    const first = text.charCodeAt(0);
+    for (let i = bytes.indexOf(first, from); i !== -1; i = bytes.indexOf(first, i + 1)) {
+        if (matchesAt(bytes, i, text)) return i;
+    }
+    return -1;
+}
+
+function readUint32(bytes: Uint8Array, at: number): number {
+    return ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+}
+
+function id3Length(bytes: Uint8Array): number {
+    if (bytes.length < 10 || !matchesAt(bytes, 0, "ID3")) return 0;
+    const size =
+        ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+    // A footer repeats the header at the end of the tag
+    return 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+}
+
+/** Delay and padding from the LAME extension of an MP3's Xing/Info frame */
+function readLameGap(bytes: Uint8Array): EncoderGap | null {
+    const frame = id3Length(bytes);
+    if (frame + 4 > bytes.length || bytes[frame] !== 0xff || (bytes[frame + 1] & 0xe0) !== 0xe0) {
+        return null;
+    }
+
+    const version = (bytes[frame + 1] >> 3) & 3;
+    const layer = (bytes[frame + 1] >> 1) & 3;
+    const sampleRate = MP3_SAMPLE_RATES[version]?.[(bytes[frame + 2] >> 2) & 3];
+    if (layer !== 1 || !sampleRate) return null;
+
+    const mpeg1 = version === 3;
+    const mono = bytes[frame + 3] >> 6 === 3;
+    let at = frame + 4 + (mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17);
+    if (!matchesAt(bytes, at, "Xing") && !matchesAt(bytes, at, "Info")) return null;
+
+    const flags = readUint32(bytes, at + 4);
+    at += 8;
+    // Without a frame count there's no telling where the music ends
+    if (!(flags & 1)) return null;
+    const frames = readUint32(bytes, at);
+    at += 4 + (flags & 2 ? 4 : 0) + (flags & 4 ? 100 : 0) + (flags & 8 ? 4 : 0);
+
+    if (at + 24 > bytes.length || !MP3_ENCODERS.some((encoder) => matchesAt(bytes, at, encoder))) {
+        return null;
+    }
+    const delay = (bytes[at + 21] << 4) | (bytes[at + 22] >> 4);
+    const padding = ((bytes[at + 22] & 0x0f) << 8) | bytes[at + 23];
+    const length = frames * (mpeg1 ? 1152 : 576) - delay - padding;
+    if (length <= 0) return null;
+
+    return {
+        sampleRate,
+        delay: delay + MP3_DECODER_DELAY,
+        padding: Math.max(0, padding - MP3_DECODER_DELAY),
+        length,
+    };
+}
+
+/** Delay and padding from the iTunSMPB tag iTunes and most AAC encoders write */
+function readITunesGap(bytes: Uint8Array): EncoderGap | null {
+    if (!matchesAt(bytes, 4, "ftyp")) return null;
+
+    const tag = indexOf(bytes, "iTunSMPB");
+    const data = tag === -1 ? -1 : indexOf(bytes, "data", tag);
+    if (data === -1 || data - tag > 16) return null;
+
+    // data atom: size, "data", type, locale, then the value as hex fields
+    const valueLength = readUint32(bytes, data - 4) - 16;
+    if (valueLength <= 0) return null;
+    const value = String.fromCharCode(...bytes.subarray(data + 12, data + 12 + valueLength));
+    const [, delay, padding, length] = value.trim().split(/\s+/).map((field) => parseInt(field, 16));
+    if (![delay, padding, length].every(Number.isFinite) || length <= 0) return null;
+
+    // The mp4a sample entry carries the rate as 16.16 fixed point
+    const stsd = indexOf(bytes, "stsd");
+    const entry = stsd === -1 ? -1 : indexOf(bytes, "mp4a", stsd);
+    if (entry === -1 || entry + 32 > bytes.length) return null;
+    const sampleRate = readUint32(bytes, entry + 28) >>> 16;
+    if (!sampleRate) return null;
+
+    return { sampleRate, delay, padding, length };
+}
+
+/** Encoder delay and padding of an MP3 (LAME tag) or AAC (iTunSMPB) file, if tagged */
+export function readEncoderGap(bytes: Uint8Array): EncoderGap | null {
+    return readLameGap(bytes) ?? readITunesGap(bytes);
+}
+
+/**
+ * The music's span in a decoded buffer, in sample frames. Browsers differ on
+ * whether decodeAudioData already drops the encoder delay and padding, so
+ * only a buffer longer than the music is trimmed: the padding comes off the
+ * end and whatever else is left over off the start.
+ */
+export function gaplessTrim(
+    gap: EncoderGap | null,
+    decodedLength: number,
+    decodedRate: number
+): { start: number; end: number } {
+    if (!gap) return { start: 0, end: decodedLength };
+
+    // decodeAudioData resamples to the context's rate
+    const scale = decodedRate / gap.sampleRate;
+    const length = Math.round(gap.length * scale);
+    if (length <= 0 || decodedLength <= length) return { start: 0, end: decodedLength };
+
+    const start = Math.max(0, decodedLength - length - Math.round(gap.padding * scale));
+    return { start, end: start + length };
+}
+
+/** A track decoded for Web Audio; start and duration bound its music, in seconds */
+export interface DecodedTrack {
+    buffer: AudioBuffer;
+    start: number;
+    duration: number;
+}
+
+/** Download and decode a whole track, trimmed to its music */
+export async function decodeTrack(
+    context: BaseAudioContext,
+    src: string,
+    signal: AbortSignal
+): Promise<DecodedTrack> {
+    const response = await fetch(src, { signal });
+    if (!response.ok) {
+        throw new Error(`Stream request failed with ${response.status}`);
+    }
+    const data = await response.arrayBuffer();
+    // decodeAudioData takes the buffer over, so the tags are read first
+    const gap = readEncoderGap(new Uint8Array(data));
+    const buffer = await context.decodeAudioData(data);
+    if (signal.aborted) {
+        throw new DOMException("Decode aborted", "AbortError");
+    }
+
+    const { start, end } = gaplessTrim(gap, buffer.length, buffer.sampleRate);
+    return { buffer, start: start / buffer.sampleRate, duration: (end - start) / buffer.sampleRate };
+}
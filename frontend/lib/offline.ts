@@ -0,0 +1,329 @@
+/**
+ * Offline downloads for the PWA.
+ *
+ * The service worker (public/sw.js) fetches tracks into Cache Storage and
+ * serves them to the player. This module starts and removes downloads, reads
+ * what is stored from the shared IndexedDB, keeps the server's list of cached
+ * tracks up to date and queues the plays of local copies the player reports,
+ * sending them to /plays once the device is online.
+ */
+
+import { api, OfflineDownloadJob } from "@/lib/api";
+
+export type OfflineCollectionKind = "album" | "playlist";
+
+export interface OfflineTrack {
+    trackId: string;
+    title: string;
+    duration: number;
+    albumId: string;
+    albumTitle: string;
+    artistId: string;
+    artistName: string;
+    coverArt: string | null;
+    quality: string;
+    sizeBytes: number;
+    cachedAt: string;
+    registered: boolean;
+}
+
+export interface OfflineCollection {
+    id: string;
+    kind: OfflineCollectionKind;
+    sourceId: string;
+    name: string;
+    coverArt: string | null;
+    trackIds: string[];
+    quality: string;
+    status: "downloading" | "complete" | "paused" | "error";
+    // "wifi": paused on a cellular connection, "quota": storage limit reached
+    error: "wifi" | "quota" | "failed" | null;
+    updatedAt: string;
+}
+
+export type OfflineMessage =
+    | { type: "OFFLINE_PROGRESS"; collectionId: string; trackId: string; completed: number; total: number }
+    | { type: "OFFLINE_DONE"; collectionId: string; status: OfflineCollection["status"]; error?: string | null }
+    | { type: "OFFLINE_REMOVED"; collectionId: string; trackIds: string[] };
+
+export class OfflineError extends Error {
+    constructor(public reason: "unsupported" | "wifi", message: string) {
+        super(message);
+        this.name = "OfflineError";
+    }
+}
+
+// Same layout as the service worker's openOfflineDb()
+const DB_NAME = "kima-offline";
+const DB_VERSION = 1;
+
+// Covers are cached at this size, so offline views must ask for the same one
+export const OFFLINE_COVER_SIZE = 300;
+
+interface QueuedPlay {
+    id: number;
+    trackId: string;
+    playedAt: string;
+}
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const open = indexedDB.open(DB_NAME, DB_VERSION);
+        open.onupgradeneeded = () => {
+            const db = open.result;
+            if (!db.objectStoreNames.contains("collections")) {
+                db.createObjectStore("collections", { keyPath: "id" });
+            }
+            if (!db.objectStoreNames.contains("tracks")) {
+                db.createObjectStore("tracks", { keyPath: "trackId" });
+            }
+            if (!db.objectStoreNames.contains("plays")) {
+                db.createObjectStore("plays", { keyPath: "id", autoIncrement: true });
+            }
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+    });
+}
+
+async function withStore<T>(
+    storeName: "collections" | "tracks" | "plays",
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest | void
+): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(storeName, mode);
+            const request = action(tx.objectStore(storeName));
+            tx.oncomplete = () => resolve((request ? request.result : undefined) as T);
+            tx.onerror = () => reject(tx.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+export function offlineCollectionId(kind: OfflineCollectionKind, sourceId: string): string {
+    return `${kind}:${sourceId}`;
+}
+
+export function isOfflineSupported(): boolean {
+    return typeof window !== "undefined" && "serviceWorker" in navigator && "indexedDB" in window;
+}
+
+export async function getOfflineCollections(): Promise<OfflineCollection[]> {
+    if (!isOfflineSupported()) return [];
+    const collections = await withStore<OfflineCollection[]>("collections", "readonly", (store) =>
+        store.getAll()
+    );
+    return collections.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getOfflineTracks(): Promise<Map<string, OfflineTrack>> {
+    if (!isOfflineSupported()) return new Map();
+    const tracks = await withStore<OfflineTrack[]>("tracks", "readonly", (store) => store.getAll());
+    return new Map(tracks.map((track) => [track.trackId, track]));
+}
+
+// Track IDs with a local copy, so the player can skip HLS for them
+let offlineTrackIds = new Set<string>();
+
+export function isTrackOffline(trackId: string): boolean {
+    return offlineTrackIds.has(trackId);
+}
+
+type NetworkInformation = { type?: string };
+
+function isOnCellular(): boolean {
+    const connection = (navigator as { connection?: NetworkInformation }).connection;
+    return connection?.type === "cellular";
+}
+
+async function activeWorker(): Promise<ServiceWorker | null> {
+    if (!isOfflineSupported()) return null;
+    const registration = await navigator.serviceWorker.ready;
+    return registration.active;
+}
+
+/**
+ * Ask the service worker to download an album or playlist at the user's
+ * streaming quality. The server checks the job against the storage limit
+ * first; the worker enforces it again with the real file sizes.
+ */
+export async function downloadForOffline(
+    kind: OfflineCollectionKind,
+    sourceId: string,
+    name: string,
+    settings: { wifiOnly: boolean; maxCacheSizeMb: number }
+): Promise<void> {
+    const worker = await activeWorker();
+    if (!worker) {
+        throw new OfflineError("unsupported", "This browser can't store music offline");
+    }
+    if (settings.wifiOnly && isOnCellular()) {
+        throw new OfflineError("wifi", "Downloads are set to Wi-Fi only");
+    }
+
+    const job: OfflineDownloadJob =
+        kind === "album"
+            ? await api.createAlbumDownload(sourceId)
+            : await api.createPlaylistDownload(sourceId);
+
+    worker.postMessage({
+        type: "OFFLINE_DOWNLOAD",
+        job: {
+            collection: {
+                id: offlineCollectionId(kind, sourceId),
+                kind,
+                sourceId,
+                name,
+                coverArt: job.tracks.find((track) => track.coverUrl)?.coverUrl ?? null,
+            },
+            quality: job.quality,
+            maxBytes: settings.maxCacheSizeMb * 1024 * 1024,
+            wifiOnly: settings.wifiOnly,
+            tracks: job.tracks.map((track) => ({
+                trackId: track.trackId,
+                title: track.title,
+                duration: track.duration,
+                albumId: track.albumId,
+                albumTitle: track.albumTitle,
+                artistId: track.artistId,
+                artistName: track.artistName,
+                coverArt: track.coverUrl,
+                url: api.getOfflineDownloadUrl(track.streamUrl),
+                coverUrl: track.coverUrl
+                    ? api.getCoverArtUrl(track.coverUrl, OFFLINE_COVER_SIZE)
+                    : null,
+            })),
+        },
+    });
+}
+
+export async function removeFromOffline(collectionId: string): Promise<void> {
+    const worker = await activeWorker();
+    worker?.postMessage({ type: "OFFLINE_REMOVE", collectionId });
+}
+
+/**
+ * Tell the server about tracks downloaded since the last sync and send plays
+ * made from local copies. Safe to call often; does nothing while offline.
+ */
+export async function syncOfflineState(): Promise<void> {
+    if (!isOfflineSupported() || !navigator.onLine) return;
+
+    const tracks = await getOfflineTracks();
+    offlineTrackIds = new Set(tracks.keys());
+
+    for (const track of tracks.values()) {
+        if (track.registered) continue;
+        try {
+            await api.completeOfflineTrack(track.trackId, track.quality, track.sizeBytes / (1024 * 1024));
+            await withStore("tracks", "readwrite", (store) => store.put({ ...track, registered: true }));
+        } catch {
+            // Retried on the next sync
+        }
+    }
+
+    await flushQueuedPlays();
+}
+
+/**
+ * Log a play of a local copy. Its stream never reaches the server, so the
+ * player reports the play when the track starts; it's queued and sent right
+ * away when online, or on the next sync.
+ */
+export async function recordOfflinePlay(trackId: string): Promise<void> {
+    if (!isOfflineSupported()) return;
+    await withStore("plays", "readwrite", (store) =>
+        store.add({ trackId, playedAt: new Date().toISOString() })
+    );
+    if (navigator.onLine) {
+        await flushQueuedPlays();
+    }
+}
+
+let flushing: Promise<void> | null = null;
+
+export function flushQueuedPlays(): Promise<void> {
+    if (!flushing) {
+        flushing = sendQueuedPlays().finally(() => {
+            flushing = null;
+        });
+    }
+    return flushing;
+}
+
+async function sendQueuedPlays(): Promise<void> {
+    const plays = await withStore<QueuedPlay[]>("plays", "readonly", (store) => store.getAll());
+
+    for (const play of plays) {
+        try {
+            await api.recordPlay(play.trackId, play.playedAt);
+        } catch (error) {
+            // A track deleted from the library can never be logged; anything
+            // else waits for the next attempt
+            if ((error as { status?: number }).status !== 404) return;
+        }
+        await withStore("plays", "readwrite", (store) => store.delete(play.id));
+    }
+}
+
+export function subscribeToOffline(listener: (message: OfflineMessage) => void): () => void {
+    if (!isOfflineSupported()) return () => {};
+
+    const handler = (event: MessageEvent) => {
+        if (typeof event.data?.type === "string" && event.data.type.startsWith("OFFLINE_")) {
+            listener(event.data as OfflineMessage);
+        }
+    };
+    navigator.serviceWorker.addEventListener("message", handler);
+    return () => navigator.serviceWorker.removeEventListener("message", handler);
+}
+
+/**
+ * Keep the server in step with the worker for the lifetime of the app
+ */
+export function startOfflineSync(): () => void {
+    if (!isOfflineSupported()) return () => {};
+
+    const sync = () => {
+        syncOfflineState().catch(() => {});
+    };
+    const unsubscribe = subscribeToOffline((message) => {
+        if (message.type === "OFFLINE_PROGRESS") {
+            offlineTrackIds.add(message.trackId);
+            sync();
+        } else if (message.type === "OFFLINE_REMOVED") {
+            for (const trackId of message.trackIds) {
+                offlineTrackIds.delete(trackId);
+                api.removeOfflineTrack(trackId).catch(() => {});
+            }
+        }
+    });
+
+    getOfflineTracks()
+        .then((tracks) => {
+            offlineTrackIds = new Set(tracks.keys());
+        })
+        .catch(() => {});
+    sync();
+    window.addEventListener("online", sync);
+
+    return () => {
+        unsubscribe();
+        window.removeEventListener("online", sync);
+    };
+}
+
+/**
+ * Send what can still be sent, then drop this user's downloads, queued plays
+ * and the cached session from the device
+ */
+export async function clearOfflineData(): Promise<void> {
+    if (!isOfflineSupported()) return;
+    await flushQueuedPlays().catch(() => {});
+    offlineTrackIds = new Set();
+    navigator.serviceWorker.controller?.postMessage({ type: "CLEAR_SESSION" });
+}
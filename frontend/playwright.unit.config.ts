@@ -0,0 +1,7 @@
+import { defineConfig } from "@playwright/test";
+
+// Plain logic tests: no browser, no running app, no test account
+export default defineConfig({
+    testDir: "./tests/unit",
+    reporter: [["list"]],
+});
@@ -5,6 +5,18 @@ const MAX_IMAGE_CACHE_ENTRIES = 2000;
 const MAX_CONCURRENT_IMAGE_REQUESTS = 8;
 const REQUEST_DELAY_MS = 10;
 
+// Offline mode: downloaded tracks and their covers, plus the app shell needed
+// to open the Downloads page without a connection
+const OFFLINE_CACHE_NAME = 'kima-offline-v1';
+const STATIC_CACHE_NAME = 'kima-static-v1';
+const MAX_STATIC_CACHE_ENTRIES = 400;
+const OFFLINE_SHELL_PATHS = ['/offline'];
+const SESSION_CACHE_KEY = '/api/auth/me';
+
+// IndexedDB layout shared with frontend/lib/offline.ts
+const OFFLINE_DB_NAME = 'kima-offline';
+const OFFLINE_DB_VERSION = 1;
+
 // Assets to cache on install (app shell)
 const PRECACHE_ASSETS = [
   '/manifest.webmanifest',
@@ -12,6 +24,8 @@ const PRECACHE_ASSETS = [
   '/offline.html',
 ];
 
+const STREAM_PATTERN = /\/api\/library\/tracks\/([^/]+)\/stream$/;
+
 // Image route patterns to cache
 const IMAGE_PATTERNS = [
   /^\/api\/library\/cover-art/,
@@ -110,6 +124,331 @@ function queueImageRequest(request, cacheKey) {
   });
 }
 
+// -- Offline downloads --
+
+/**
+ * Open the offline database. "collections" holds downloaded albums and
+ * playlists, "tracks" what is in the offline cache, "plays" plays made from
+ * local copies that haven't reached the server yet.
+ */
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains('collections')) {
+        db.createObjectStore('collections', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('tracks')) {
+        db.createObjectStore('tracks', { keyPath: 'trackId' });
+      }
+      if (!db.objectStoreNames.contains('plays')) {
+        db.createObjectStore('plays', { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+/**
+ * Run one request against a store and resolve with its result
+ */
+async function offlineStore(storeName, mode, action) {
+  const db = await openOfflineDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Track IDs with a local copy. Loaded at startup so the fetch handler can
+// decide synchronously whether a stream request is ours
+let offlineTrackIds = new Set();
+let offlineIndexLoaded = false;
+const offlineIndex = offlineStore('tracks', 'readonly', (store) => store.getAllKeys())
+  .then((keys) => {
+    offlineTrackIds = new Set(keys);
+  })
+  .catch(() => {})
+  .finally(() => {
+    offlineIndexLoaded = true;
+  });
+
+// Download jobs are numbered as they're queued. A cancel covers the jobs of
+// its collection queued before it, not a download asked for again later
+let downloadSequence = 0;
+let allDownloadsCancelledAt = 0;
+const cancelledDownloads = new Map();
+let downloadQueue = Promise.resolve();
+
+function cancelDownload(collectionId) {
+  cancelledDownloads.set(collectionId, downloadSequence);
+}
+
+function isDownloadCancelled(job) {
+  const cancelledAt = Math.max(allDownloadsCancelledAt, cancelledDownloads.get(job.collection.id) || 0);
+  return job.sequence <= cancelledAt;
+}
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage(message);
+  }
+}
+
+function isOnCellular() {
+  const connection = self.navigator.connection;
+  return Boolean(connection && connection.type === 'cellular');
+}
+
+async function updateCollection(id, changes) {
+  const collection = await offlineStore('collections', 'readonly', (store) => store.get(id));
+  if (!collection) return;
+  await offlineStore('collections', 'readwrite', (store) =>
+    store.put({ ...collection, ...changes, updatedAt: new Date().toISOString() })
+  );
+}
+
+async function finishDownload(collectionId, status, error) {
+  await updateCollection(collectionId, { status, error });
+  await broadcast({ type: 'OFFLINE_DONE', collectionId, status, error });
+}
+
+/**
+ * Download every track of a collection that isn't stored yet, one at a time.
+ * Stops when the storage limit would be exceeded or, with wifiOnly, when the
+ * device moves to a cellular connection.
+ */
+async function downloadCollection(job) {
+  const { collection, tracks, quality, maxBytes, wifiOnly } = job;
+  await offlineIndex;
+  if (isDownloadCancelled(job)) return;
+  await offlineStore('collections', 'readwrite', (store) =>
+    store.put({
+      ...collection,
+      trackIds: tracks.map((track) => track.trackId),
+      quality,
+      status: 'downloading',
+      error: null,
+      updatedAt: new Date().toISOString(),
+    })
+  );
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const stored = await offlineStore('tracks', 'readonly', (store) => store.getAll());
+  let usedBytes = stored.reduce((sum, track) => sum + (track.sizeBytes || 0), 0);
+  let completed = 0;
+  let failed = 0;
+
+  for (const track of tracks) {
+    if (isDownloadCancelled(job)) return;
+
+    if (!offlineTrackIds.has(track.trackId)) {
+      if (wifiOnly && isOnCellular()) {
+        await finishDownload(collection.id, 'paused', 'wifi');
+        return;
+      }
+
+      try {
+        const response = await fetch(track.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        // Removed while this track was downloading
+        if (isDownloadCancelled(job)) return;
+
+        if (usedBytes + blob.size > maxBytes) {
+          await finishDownload(collection.id, 'error', 'quota');
+          return;
+        }
+
+        await cache.put(
+          `/offline-audio/${track.trackId}`,
+          new Response(blob, {
+            headers: {
+              'Content-Type': response.headers.get('Content-Type') || 'audio/mpeg',
+              'Content-Length': String(blob.size),
+            },
+          })
+        );
+        if (track.coverUrl) {
+          const coverResponse = await fetch(track.coverUrl).catch(() => null);
+          if (coverResponse && coverResponse.ok) {
+            await cache.put(createImageCacheKey(track.coverUrl), coverResponse);
+          }
+        }
+
+        const { url: _url, coverUrl: _coverUrl, ...metadata } = track;
+        await offlineStore('tracks', 'readwrite', (store) =>
+          store.put({
+            ...metadata,
+            quality,
+            sizeBytes: blob.size,
+            cachedAt: new Date().toISOString(),
+            registered: false,
+          })
+        );
+        offlineTrackIds.add(track.trackId);
+        // Removed while it was being stored: the removal may have missed it
+        if (isDownloadCancelled(job)) {
+          await discardUnownedTrack(track.trackId, collection.id);
+          return;
+        }
+        usedBytes += blob.size;
+      } catch {
+        failed++;
+        continue;
+      }
+    }
+
+    completed++;
+    await broadcast({
+      type: 'OFFLINE_PROGRESS',
+      collectionId: collection.id,
+      trackId: track.trackId,
+      completed,
+      total: tracks.length,
+    });
+  }
+
+  await finishDownload(collection.id, failed > 0 ? 'error' : 'complete', failed > 0 ? 'failed' : null);
+}
+
+/**
+ * Drop a track a cancelled download stored, unless another downloaded
+ * collection has it too
+ */
+async function discardUnownedTrack(trackId, collectionId) {
+  const collections = await offlineStore('collections', 'readonly', (store) => store.getAll());
+  if (collections.some((other) => other.id !== collectionId && other.trackIds.includes(trackId))) return;
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  await cache.delete(`/offline-audio/${trackId}`);
+  await offlineStore('tracks', 'readwrite', (store) => store.delete(trackId));
+  offlineTrackIds.delete(trackId);
+}
+
+/**
+ * Remove a collection, and the local copy of every track no other downloaded
+ * collection still needs
+ */
+async function removeCollection(collectionId) {
+  cancelDownload(collectionId);
+  await offlineIndex;
+  const collections = await offlineStore('collections', 'readonly', (store) => store.getAll());
+  const target = collections.find((collection) => collection.id === collectionId);
+  if (!target) return;
+
+  const stillNeeded = new Set(
+    collections
+      .filter((collection) => collection.id !== collectionId)
+      .flatMap((collection) => collection.trackIds)
+  );
+  const removable = target.trackIds.filter(
+    (trackId) => !stillNeeded.has(trackId) && offlineTrackIds.has(trackId)
+  );
+
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  for (const trackId of removable) {
+    await cache.delete(`/offline-audio/${trackId}`);
+    await offlineStore('tracks', 'readwrite', (store) => store.delete(trackId));
+    offlineTrackIds.delete(trackId);
+  }
+  await offlineStore('collections', 'readwrite', (store) => store.delete(collectionId));
+
+  await broadcast({ type: 'OFFLINE_REMOVED', collectionId, trackIds: removable });
+}
+
+/**
+ * Serve a downloaded track, honouring Range requests from the audio element
+ */
+async function offlineTrackResponse(request, trackId) {
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const cached = await cache.match(`/offline-audio/${trackId}`);
+  if (!cached) return fetch(request);
+
+  const blob = await cached.blob();
+  const contentType = cached.headers.get('Content-Type') || 'audio/mpeg';
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get('Range') || '');
+
+  if (!range) {
+    return new Response(blob, {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(blob.size),
+        'Accept-Ranges': 'bytes',
+      },
+    });
+  }
+
+  let start = range[1] ? parseInt(range[1], 10) : 0;
+  let end = range[2] ? parseInt(range[2], 10) : blob.size - 1;
+  if (!range[1] && range[2]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, blob.size - parseInt(range[2], 10));
+    end = blob.size - 1;
+  }
+  end = Math.min(end, blob.size - 1);
+
+  if (start >= blob.size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${blob.size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1, contentType), {
+    status: 206,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+async function clearOfflineData() {
+  allDownloadsCancelledAt = downloadSequence;
+  await offlineIndex;
+  await Promise.all(
+    ['collections', 'tracks', 'plays'].map((storeName) =>
+      offlineStore(storeName, 'readwrite', (store) => store.clear())
+    )
+  );
+  offlineTrackIds = new Set();
+  await caches.delete(OFFLINE_CACHE_NAME);
+  const cache = await caches.open(STATIC_CACHE_NAME);
+  await cache.delete(SESSION_CACHE_KEY);
+}
+
+/**
+ * Network-first for the pieces of the app shell needed offline, keeping the
+ * last good response as the fallback
+ */
+async function networkFirst(request, cacheName, cacheKey) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
 // Install event - cache app shell
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -126,6 +465,22 @@ self.addEventListener('message', (event) => {
   if (event.data?.type === 'SKIP_WAITING') {
     self.skipWaiting();
   }
+
+  if (event.data?.type === 'OFFLINE_DOWNLOAD') {
+    const job = { ...event.data.job, sequence: ++downloadSequence };
+    downloadQueue = downloadQueue.then(() => downloadCollection(job)).catch(() => {});
+    event.waitUntil(downloadQueue);
+  }
+
+  if (event.data?.type === 'OFFLINE_REMOVE') {
+    event.waitUntil(removeCollection(event.data.collectionId));
+  }
+
+  // Logging out must not leave a session the app shell can open offline, or
+  // the previous user's downloads on a shared device
+  if (event.data?.type === 'CLEAR_SESSION') {
+    event.waitUntil(clearOfflineData());
+  }
 });
 
 // Activate event - clean up old caches
@@ -134,7 +489,13 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME && name !== IMAGE_CACHE_NAME)
+          .filter(
+            (name) =>
+              name !== CACHE_NAME &&
+              name !== IMAGE_CACHE_NAME &&
+              name !== OFFLINE_CACHE_NAME &&
+              name !== STATIC_CACHE_NAME
+          )
           .map((name) => caches.delete(name))
       );
     })
@@ -154,20 +515,60 @@ self.addEventListener('fetch', (event) => {
   // Skip non-http(s) URLs (chrome-extension://, etc.)
   if (!url.protocol.startsWith('http')) return;
 
-  // Navigation requests: network-first with offline fallback
+  // Navigation requests: network-first with offline fallback. The Downloads
+  // page is kept so downloaded music can be opened without a connection
   if (request.mode === 'navigate') {
+    const page = OFFLINE_SHELL_PATHS.includes(url.pathname)
+      ? networkFirst(request, STATIC_CACHE_NAME, url.pathname)
+      : fetch(request);
     event.respondWith(
-      fetch(request).catch(async () => {
+      page.catch(async () => {
         const cache = await caches.open(CACHE_NAME);
-        return cache.match('/offline.html') ?? new Response('Offline', { status: 503 });
+        return (await cache.match('/offline.html')) ?? new Response('Offline', { status: 503 });
       })
     );
     return;
   }
 
+  // Downloaded tracks play from the offline cache. While the index is still
+  // loading, only step in when there's no network to fall back on
+  const streamMatch = STREAM_PATTERN.exec(url.pathname);
+  if (streamMatch && !url.searchParams.has('download')) {
+    const trackId = streamMatch[1];
+    if (offlineTrackIds.has(trackId) || (!offlineIndexLoaded && !self.navigator.onLine)) {
+      event.respondWith(offlineIndex.then(() => offlineTrackResponse(request, trackId)));
+    }
+    return;
+  }
+
   // Skip streaming endpoints
   if (url.pathname.includes('/stream')) return;
 
+  // Hashed build assets never change, so cached copies are always safe and
+  // let the app shell start offline
+  if (url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      (async () => {
+        const cache = await caches.open(STATIC_CACHE_NAME);
+        const cached = await cache.match(request);
+        if (cached) return cached;
+        const response = await fetch(request);
+        if (response.ok) {
+          cache.put(request, response.clone());
+          trimCache(STATIC_CACHE_NAME, MAX_STATIC_CACHE_ENTRIES);
+        }
+        return response;
+      })()
+    );
+    return;
+  }
+
+  // The signed-in user, so the app can start offline with the last session
+  if (url.pathname === SESSION_CACHE_KEY) {
+    event.respondWith(networkFirst(request, STATIC_CACHE_NAME, SESSION_CACHE_KEY));
+    return;
+  }
+
   // Skip Next.js image optimization endpoint
   if (url.pathname.startsWith('/_next/image')) return;
 
@@ -178,8 +579,10 @@ self.addEventListener('fetch', (event) => {
         const cache = await caches.open(IMAGE_CACHE_NAME);
         const cacheKey = createImageCacheKey(request.url);
 
-        // Try cache first (token-independent key)
-        const cachedResponse = await cache.match(cacheKey);
+        // Try cache first (token-independent key), then covers of downloads
+        const cachedResponse =
+          (await cache.match(cacheKey)) ||
+          (await caches.open(OFFLINE_CACHE_NAME).then((offline) => offline.match(cacheKey)));
         if (cachedResponse) {
           return cachedResponse;
         }
@@ -0,0 +1,139 @@
+import { test, expect } from "@playwright/test";
+import {
+    MAX_CROSSFADE_SECONDS,
+    clampCrossfade,
+    gaplessTrim,
+    isGaplessPair,
+    readEncoderGap,
+} from "../../lib/gapless";
+
+function ascii(text: string): number[] {
+    return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+// First frame of a LAME encoded 44.1 kHz joint-stereo MP3: frame header,
+// 32 bytes of side info, then the Info tag with every optional field set
+function lameFrame(frames: number, delay: number, padding: number): number[] {
+    const lame = [...ascii("LAME3.100"), ...new Array(12).fill(0)];
+    lame.push(delay >> 4, ((delay & 0x0f) << 4) | (padding >> 8), padding & 0xff);
+    return [
+        0xff, 0xfb, 0x90, 0x44,
+        ...new Array(32).fill(0),
+        ...ascii("Info"),
+        ...uint32(0x0f),
+        ...uint32(frames),
+        ...uint32(123_456),
+        ...new Array(100).fill(0),
+        ...uint32(50),
+        ...lame,
+        ...new Array(64).fill(0),
+    ];
+}
+
+// The parts of an .m4a the iTunSMPB reader looks at
+function itunesFile(smpb: string, sampleRate: number): Uint8Array {
+    const value = ascii(smpb);
+    return new Uint8Array([
+        ...uint32(20), ...ascii("ftypM4A "), ...uint32(0), ...ascii("M4A "),
+        ...uint32(16), ...ascii("stsd"), ...uint32(0), ...uint32(1),
+        ...uint32(36), ...ascii("mp4a"), ...new Array(6).fill(0), 0, 1,
+        ...new Array(8).fill(0), 0, 2, 0, 16, 0, 0, 0, 0, ...uint32(sampleRate * 65536),
+        ...uint32(20), ...ascii("name"), ...uint32(0), ...ascii("iTunSMPB"),
+        ...uint32(16 + value.length), ...ascii("data"), ...uint32(1), ...uint32(0), ...value,
+    ]);
+}
+
+test.describe("isGaplessPair", () => {
+    test("pairs consecutive tracks of the same album", () => {
+        expect(isGaplessPair({ album: { id: "a1", title: "A" } }, { album: { id: "a1", title: "A" } })).toBe(true);
+    });
+
+    test("doesn't pair tracks of different albums", () => {
+        expect(isGaplessPair({ album: { id: "a1", title: "A" } }, { album: { id: "a2", title: "A" } })).toBe(false);
+    });
+
+    test("doesn't pair tracks without an album id, even with the same title", () => {
+        expect(isGaplessPair({ album: { title: "Singles" } }, { album: { title: "Singles" } })).toBe(false);
+    });
+});
+
+test.describe("clampCrossfade", () => {
+    test("keeps values between 0 and 12 seconds", () => {
+        expect(MAX_CROSSFADE_SECONDS).toBe(12);
+        expect(clampCrossfade(0)).toBe(0);
+        expect(clampCrossfade(5.5)).toBe(5.5);
+        expect(clampCrossfade(12)).toBe(12);
+    });
+
+    test("clamps out of range values", () => {
+        expect(clampCrossfade(-3)).toBe(0);
+        expect(clampCrossfade(20)).toBe(12);
+        expect(clampCrossfade(Infinity)).toBe(12);
+        expect(clampCrossfade(NaN)).toBe(0);
+    });
+});
+
+test.describe("readEncoderGap", () => {
+    test("reads delay and padding from a LAME tag, adding the decoder delay", () => {
+        const gap = readEncoderGap(new Uint8Array(lameFrame(100, 576, 1260)));
+
+        expect(gap).toEqual({
+            sampleRate: 44100,
+            delay: 576 + 529,
+            padding: 1260 - 529,
+            length: 100 * 1152 - 576 - 1260,
+        });
+    });
+
+    test("finds the LAME tag after an ID3v2 tag", () => {
+        const id3 = [...ascii("ID3"), 4, 0, 0, 0, 0, 1, 0, ...new Array(128).fill(0)];
+        const gap = readEncoderGap(new Uint8Array([...id3, ...lameFrame(10, 576, 600)]));
+
+        expect(gap?.length).toBe(10 * 1152 - 576 - 600);
+    });
+
+    test("reads the iTunSMPB tag of an AAC file", () => {
+        const file = itunesFile(" 00000000 00000840 000001C0 0000000000A1B5FC 00000000", 48000);
+
+        expect(readEncoderGap(file)).toEqual({
+            sampleRate: 48000,
+            delay: 0x840,
+            padding: 0x1c0,
+            length: 0xa1b5fc,
+        });
+    });
+
+    test("returns null for formats without encoder padding", () => {
+        expect(readEncoderGap(new Uint8Array([...ascii("fLaC"), ...new Array(64).fill(0)]))).toBeNull();
+    });
+});
+
+test.describe("gaplessTrim", () => {
+    const gap = { sampleRate: 44100, delay: 1105, padding: 731, length: 113_364 };
+
+    test("cuts the delay and padding off an untrimmed decode", () => {
+        expect(gaplessTrim(gap, 1105 + 113_364 + 731, 44100)).toEqual({ start: 1105, end: 1105 + 113_364 });
+    });
+
+    test("leaves a decode the browser already trimmed alone", () => {
+        expect(gaplessTrim(gap, 113_364, 44100)).toEqual({ start: 0, end: 113_364 });
+    });
+
+    test("only cuts the padding when the decoder dropped the delay", () => {
+        expect(gaplessTrim(gap, 113_364 + 731, 44100)).toEqual({ start: 0, end: 113_364 });
+    });
+
+    test("scales the gap to a resampled decode", () => {
+        const resampled = { sampleRate: 44100, delay: 2205, padding: 441, length: 44100 };
+
+        expect(gaplessTrim(resampled, 2400 + 48000 + 480, 48000)).toEqual({ start: 2400, end: 50400 });
+    });
+
+    test("keeps the whole buffer without a gap", () => {
+        expect(gaplessTrim(null, 1000, 44100)).toEqual({ start: 0, end: 1000 });
+    });
+});
@@ -148,7 +148,8 @@ class CLAPAnalyzer:
             logger.info("Reloading CLAP model (new work arrived)...")
             self.load_model()
 
-    def _load_audio_chunk(self, audio_path: str, duration_hint: Optional[float] = None) -> Tuple[Optional[np.ndarray], int]:
+    def _load_audio_chunk(self, audio_path: str, duration_hint: Optional[float] = None,
+                          start_offset: float = 0.0) -> Tuple[Optional[np.ndarray], int]:
         """
         Load audio from the middle of a file for efficient embedding.
 
@@ -158,17 +159,18 @@ class CLAPAnalyzer:
         Args:
             audio_path: Path to the audio file
             duration_hint: Pre-computed duration in seconds (avoids file read)
+            start_offset: Where the track starts within the file (CUE tracks)
 
         Returns:
             Tuple of (audio_array, sample_rate) or (None, 0) on error
         """
         try:
             # Use provided duration or fall back to computing it
-            duration = duration_hint if duration_hint else librosa.get_duration(path=audio_path)
+            duration = duration_hint if duration_hint else librosa.get_duration(path=audio_path) - start_offset
 
             if duration > MAX_AUDIO_DURATION:
                 # Extract middle segment
-                offset = (duration - MAX_AUDIO_DURATION) / 2
+                offset = start_offset + (duration - MAX_AUDIO_DURATION) / 2
                 audio, sr = librosa.load(
                     audio_path,
                     sr=CLAP_SAMPLE_RATE,
@@ -176,6 +178,15 @@ class CLAPAnalyzer:
                     duration=MAX_AUDIO_DURATION,
                     mono=True
                 )
+            elif start_offset:
+                # Short CUE track, load just its segment
+                audio, sr = librosa.load(
+                    audio_path,
+                    sr=CLAP_SAMPLE_RATE,
+                    offset=start_offset,
+                    duration=duration,
+                    mono=True
+                )
             else:
                 # Short track, load entirely
                 audio, sr = librosa.load(audio_path, sr=CLAP_SAMPLE_RATE, mono=True)
@@ -187,7 +198,8 @@ class CLAPAnalyzer:
             traceback.print_exc()
             return None, 0
 
-    def get_audio_embedding(self, audio_path: str, duration: Optional[float] = None) -> Optional[np.ndarray]:
+    def get_audio_embedding(self, audio_path: str, duration: Optional[float] = None,
+                            start_offset: float = 0.0) -> Optional[np.ndarray]:
         """
         Generate a 512-dimensional embedding from an audio file.
 
@@ -197,6 +209,7 @@ class CLAPAnalyzer:
         Args:
             audio_path: Path to the audio file
             duration: Pre-computed duration in seconds (avoids file read)
+            start_offset: Where the track starts within the file (CUE tracks)
 
         Returns:
             numpy array of shape (512,) or None on error
@@ -210,7 +223,7 @@ class CLAPAnalyzer:
 
         try:
             # Load audio (with chunking), use provided duration to skip file probe
-            audio, sr = self._load_audio_chunk(audio_path, duration)
+            audio, sr = self._load_audio_chunk(audio_path, duration, start_offset)
 
             if audio is None:
                 return None
@@ -612,6 +625,10 @@ class BullMQVibeWorker:
         await loop.run_in_executor(None, self._update_track_status, track_id, "processing")
 
         normalized_path = file_path.replace("\\", "/")
+        cue_start = await loop.run_in_executor(None, self._get_cue_start, track_id)
+        if cue_start is not None:
+            # CUE tracks are stored as "<source file>#<track number>"
+            normalized_path = normalized_path.rsplit("#", 1)[0]
         full_path = os.path.join(MUSIC_PATH, normalized_path)
 
         try:
@@ -629,7 +646,7 @@ class BullMQVibeWorker:
             raise
 
         embedding = await loop.run_in_executor(
-            None, self.analyzer.get_audio_embedding, full_path, duration
+            None, self.analyzer.get_audio_embedding, full_path, duration, cue_start or 0.0
         )
 
         await job.updateProgress(50)
@@ -674,6 +691,22 @@ class BullMQVibeWorker:
             )
             raise RuntimeError("Failed to store embedding")
 
+    def _get_cue_start(self, track_id: str) -> Optional[float]:
+        """Offset of a CUE track within its source file, None for ordinary tracks."""
+        conn = self._db_pool.getconn()
+        try:
+            with conn.cursor() as cursor:
+                cursor.execute('SELECT "cueStart" FROM "Track" WHERE id = %s', (track_id,))
+                row = cursor.fetchone()
+            conn.commit()
+            return row[0] if row else None
+        except Exception as e:
+            logger.error(f"Failed to read cue offset for track {track_id}: {e}")
+            conn.rollback()
+            return None
+        finally:
+            self._db_pool.putconn(conn)
+
     def _update_track_status(self, track_id: str, status: str):
         """Update the track's vibe analysis status (runs in executor thread)."""
         conn = self._db_pool.getconn()
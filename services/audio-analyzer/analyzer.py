@@ -53,6 +53,8 @@ It connects to Redis for job queue and PostgreSQL for storing results.
 
 # NOW safe to import other dependencies
 import json
+import re
+import subprocess
 import time
 import logging
 import gc
@@ -221,6 +223,11 @@ ESSENTIA_VERSION = '2.1b6-enhanced-v2'
 MAX_RETRIES = int(os.getenv('MAX_RETRIES', '3'))  # Max retry attempts per track
 STALE_PROCESSING_MINUTES = int(os.getenv('STALE_PROCESSING_MINUTES', '15'))  # Reset tracks stuck in 'processing' (synchronized with backend)
 
+# ReplayGain 2.0 reference loudness; the R128 pass decodes the whole file so
+# it gets its own timeout (kept under the 180s per-track result timeout)
+REPLAYGAIN_REFERENCE_LUFS = -18.0
+REPLAYGAIN_TIMEOUT_SECONDS = int(os.getenv('REPLAYGAIN_TIMEOUT_SECONDS', '90'))
+
 # Queue names
 ANALYSIS_QUEUE = 'audio:analysis:queue'
 
@@ -397,13 +404,22 @@ class AudioAnalyzer:
             traceback.print_exc()
             self.enhanced_mode = False
     
-    def load_audio(self, file_path: str, max_duration: int = 90) -> Optional[Any]:
-        """Load up to max_duration seconds of audio at 44.1kHz as mono signal"""
+    def load_audio(self, file_path: str, max_duration: int = 90,
+                   segment: Optional[Tuple[float, Optional[float]]] = None) -> Optional[Any]:
+        """Load up to max_duration seconds of audio at 44.1kHz as mono signal.
+        segment=(start, end) limits loading to one CUE track of a larger file."""
         if not ESSENTIA_AVAILABLE:
             return None
 
         try:
-            loader = es.MonoLoader(filename=file_path, sampleRate=44100)
+            if segment:
+                start, end = segment
+                stop = start + max_duration if end is None else min(end, start + max_duration)
+                # EasyLoader trims while decoding; replayGain=0 leaves the level untouched
+                loader = es.EasyLoader(filename=file_path, sampleRate=44100,
+                                       startTime=start, endTime=stop, replayGain=0)
+            else:
+                loader = es.MonoLoader(filename=file_path, sampleRate=44100)
             audio = loader()
             max_samples = int(44100 * max_duration)
             if len(audio) > max_samples:
@@ -456,12 +472,51 @@ class AudioAnalyzer:
             logger.warning(f"Audio validation error for {file_path}: {e}")
             return (True, None)
     
-    def analyze(self, file_path: str) -> Dict[str, Any]:
+    def measure_replay_gain(self, file_path: str,
+                            segment: Optional[Tuple[float, Optional[float]]] = None) -> Tuple[Optional[float], Optional[float]]:
+        """
+        Measure EBU R128 integrated loudness over the whole file and convert it
+        to a ReplayGain 2.0 track gain (-18 LUFS reference) and sample peak.
+
+        Runs ffmpeg's ebur128 filter rather than loading the file: the analysis
+        path only keeps the first MAX_ANALYZE_SECONDS in memory, and loudness
+        has to cover the full track. A segment restricts it to one CUE track.
+        """
+        seek = []
+        if segment:
+            start, end = segment
+            seek = ['-ss', f'{start:.3f}'] + (['-to', f'{end:.3f}'] if end is not None else [])
+        try:
+            proc = subprocess.run(
+                ['ffmpeg', '-hide_banner', '-nostats', *seek, '-i', file_path,
+                 '-filter_complex', 'ebur128=peak=sample', '-f', 'null', '-'],
+                capture_output=True, text=True, timeout=REPLAYGAIN_TIMEOUT_SECONDS,
+            )
+        except (OSError, subprocess.TimeoutExpired) as e:
+            logger.warning(f"Loudness measurement failed for {file_path}: {e}")
+            return (None, None)
+
+        # The summary is printed last; earlier per-frame lines use the same labels
+        summary = proc.stderr.rsplit('Summary:', 1)[-1]
+        integrated = re.search(r'I:\s+(-?[\d.]+) LUFS', summary)
+        peak = re.search(r'Peak:\s+(-?[\d.]+) dBFS', summary)
+        if proc.returncode != 0 or not integrated:
+            logger.warning(f"Loudness measurement produced no result for {file_path}")
+            return (None, None)
+
+        gain = round(REPLAYGAIN_REFERENCE_LUFS - float(integrated.group(1)), 2)
+        peak_linear = round(10 ** (float(peak.group(1)) / 20), 6) if peak else None
+        return (gain, peak_linear)
+
+    def analyze(self, file_path: str, measure_loudness: bool = True,
+                segment: Optional[Tuple[float, Optional[float]]] = None) -> Dict[str, Any]:
         """
         Analyze audio file and extract all features.
 
         Loads audio once at 44.1kHz, resamples in-memory to 16kHz for ML inference.
         Uses Enhanced mode (ML models) if available, otherwise Standard mode (heuristics).
+        measure_loudness=False skips the R128 pass for tracks with ReplayGain tags.
+        segment=(start, end) analyzes one CUE track of a single-file album.
         """
         result = {
             'bpm': None,
@@ -488,6 +543,8 @@ class AudioAnalyzer:
             'danceabilityMl': None,
             'essentiaGenres': [],
             'analysisMode': 'standard',
+            'replayGainTrackGain': None,
+            'replayGainTrackPeak': None,
         }
 
         if not ESSENTIA_AVAILABLE:
@@ -498,7 +555,7 @@ class AudioAnalyzer:
         MAX_ANALYZE_SECONDS = int(os.getenv('MAX_ANALYZE_SECONDS', '90'))
         audio_44k = None
         try:
-            audio_44k = self.load_audio(file_path, max_duration=MAX_ANALYZE_SECONDS)
+            audio_44k = self.load_audio(file_path, max_duration=MAX_ANALYZE_SECONDS, segment=segment)
         except MemoryError:
             logger.error(f"MemoryError: Could not load audio for {file_path}")
             result['_error'] = 'MemoryError: audio file too large'
@@ -589,6 +646,11 @@ class AudioAnalyzer:
             dynamic_range, _ = self.dynamic_complexity(audio_44k)
             result['dynamicRange'] = round(float(dynamic_range), 2)
 
+            if measure_loudness:
+                gain, peak = self.measure_replay_gain(file_path, segment)
+                result['replayGainTrackGain'] = gain
+                result['replayGainTrackPeak'] = peak
+
             # Store spectral features for Standard mode estimates
             result['_spectral_centroid'] = avg_sc
             result['_spectral_flatness'] = avg_sf
@@ -1051,13 +1113,13 @@ def _init_worker_process():
         # Re-raise to kill this worker - better than silent failures
         raise
 
-def _analyze_track_in_process(args: Tuple[str, str]) -> Tuple[str, str, Dict[str, Any]]:
+def _analyze_track_in_process(args: Tuple[str, str, bool, Optional[Tuple[float, Optional[float]]]]) -> Tuple[str, str, Dict[str, Any]]:
     """
     Analyze a single track in a worker process.
     Returns (track_id, file_path, features_dict or error_dict)
     """
     global _process_analyzer
-    track_id, file_path = args
+    track_id, file_path, measure_loudness, segment = args
     
     try:
         # Ensure path is properly decoded (Issue #6 fix)
@@ -1066,6 +1128,9 @@ def _analyze_track_in_process(args: Tuple[str, str]) -> Tuple[str, str, Dict[str
         
         # Normalize path separators (Windows paths -> Unix)
         normalized_path = file_path.replace('\\', '/')
+        if segment:
+            # CUE tracks are stored as "<source file>#<track number>"
+            normalized_path = normalized_path.rsplit('#', 1)[0]
         full_path = os.path.join(MUSIC_PATH, normalized_path)
         
         # Use os.fsencode/fsdecode for filesystem-safe encoding
@@ -1081,7 +1146,7 @@ def _analyze_track_in_process(args: Tuple[str, str]) -> Tuple[str, str, Dict[str
             return (track_id, file_path, {'_error': 'Empty file (0 bytes) - likely incomplete download'})
 
         # Run analysis
-        features = _process_analyzer.analyze(full_path)
+        features = _process_analyzer.analyze(full_path, measure_loudness=measure_loudness, segment=segment)
         return (track_id, file_path, features)
         
     except UnicodeDecodeError as e:
@@ -1657,9 +1722,11 @@ class AnalysisWorker:
         self._process_tracks_parallel(queued_jobs)
         return True
     
-    def _mark_track_processing(self, track_id: str) -> bool:
+    def _mark_track_processing(self, track_id: str) -> Tuple[bool, bool, Optional[Tuple[float, Optional[float]]]]:
         """Mark a single track as processing just before its worker starts.
-        Returns True if successfully claimed, False if already claimed or error."""
+        Returns (claimed, needs_loudness, segment): claimed is False if already
+        claimed or on error; needs_loudness is False when the scanner found
+        ReplayGain tags; segment is (start, end) for CUE tracks, else None."""
         cursor = self.db.get_cursor()
         try:
             cursor.execute("""
@@ -1667,13 +1734,19 @@ class AnalysisWorker:
                 SET "analysisStatus" = 'processing',
                     "analysisStartedAt" = %s
                 WHERE id = %s AND "analysisStatus" IN ('pending', 'queued')
+                RETURNING "replayGainSource" IS DISTINCT FROM 'tags' AS needs_loudness,
+                          "cueStart", "cueEnd"
             """, (datetime.now(timezone.utc), track_id))
+            row = cursor.fetchone()
             self.db.commit()
-            return cursor.rowcount > 0
+            if not row:
+                return (False, False, None)
+            segment = (row['cueStart'], row['cueEnd']) if row['cueStart'] is not None else None
+            return (True, bool(row['needs_loudness']), segment)
         except Exception as e:
             logger.error(f"Failed to mark track {track_id} as processing: {e}")
             self.db.rollback()
-            return False
+            return (False, False, None)
         finally:
             cursor.close()
 
@@ -1692,10 +1765,12 @@ class AnalysisWorker:
 
         futures = {}
         for t in tracks:
-            if not self._mark_track_processing(t[0]):
+            claimed, needs_loudness, segment = self._mark_track_processing(t[0])
+            if not claimed:
                 logger.debug(f"Track {t[0]} already claimed, skipping")
                 continue
-            futures[self.executor.submit(_analyze_track_in_process, t)] = t
+            job = (t[0], t[1], needs_loudness, segment)
+            futures[self.executor.submit(_analyze_track_in_process, job)] = job
 
         try:
             for future in as_completed(futures, timeout=900):
@@ -1784,6 +1859,12 @@ class AnalysisWorker:
                     "moodAcoustic" = %s,
                     "moodElectronic" = %s,
                     "danceabilityMl" = %s,
+                    "replayGainTrackGain" = CASE WHEN "replayGainSource" = 'tags'
+                        THEN "replayGainTrackGain" ELSE %s END,
+                    "replayGainTrackPeak" = CASE WHEN "replayGainSource" = 'tags'
+                        THEN "replayGainTrackPeak" ELSE %s END,
+                    "replayGainSource" = CASE WHEN "replayGainSource" = 'tags'
+                        THEN 'tags' ELSE %s END,
                     "analysisMode" = %s,
                     "analysisStatus" = 'completed',
                     "analysisStartedAt" = NULL,
@@ -1815,6 +1896,9 @@ class AnalysisWorker:
                 features.get('moodAcoustic'),
                 features.get('moodElectronic'),
                 features.get('danceabilityMl'),
+                features.get('replayGainTrackGain'),
+                features.get('replayGainTrackPeak'),
+                'r128' if features.get('replayGainTrackGain') is not None else None,
                 features.get('analysisMode', 'standard'),
                 ESSENTIA_VERSION,
                 datetime.now(timezone.utc),
@@ -54,6 +54,20 @@ class TestAnalyzerOptimisticLocking(unittest.TestCase):
         method = self._extract_method('_save_failed')
         self.assertIn('rowcount', method, "_save_failed missing rowcount check")
 
+    def test_save_results_preserves_tagged_replay_gain(self):
+        """_save_results must not overwrite ReplayGain read from file tags"""
+        method = self._extract_method('_save_results')
+        self.assertIn(
+            '"replayGainTrackGain" = CASE WHEN "replayGainSource" = \'tags\'',
+            method,
+            "_save_results overwrites tagged track gain"
+        )
+
+    def test_mark_processing_returns_cue_segment(self):
+        """CUE tracks must be analyzed over their own segment of the source file"""
+        method = self._extract_method('_mark_track_processing')
+        self.assertIn('"cueStart", "cueEnd"', method, "_mark_track_processing missing cue offsets")
+
 
 if __name__ == '__main__':
     unittest.main()